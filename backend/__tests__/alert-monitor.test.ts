@@ -0,0 +1,181 @@
+/**
+ * Tests for the resource alerts: rule evaluation over consecutive
+ * snapshots, persisted rules and the alert log
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  Alert,
+  AlertEngine,
+  AlertMonitor,
+  AlertRule,
+  ResourceSnapshot,
+} from '../commands/alert-monitor.js';
+import { ConfigCommand } from '../commands/config-command.js';
+
+const MINUTE_MS = 60 * 1000;
+
+const rule = (
+  type: AlertRule['type'],
+  changes: Partial<AlertRule> = {},
+): AlertRule => ({
+  id: type,
+  type,
+  enabled: true,
+  threshold: 0,
+  minutes: 0,
+  target: '',
+  ...changes,
+});
+
+const snapshot = (
+  minute: number,
+  changes: Partial<ResourceSnapshot> = {},
+): ResourceSnapshot => ({
+  time: minute * MINUTE_MS,
+  drives: [],
+  memoryUsedPercent: 50,
+  processes: [],
+  ports: null,
+  ...changes,
+});
+
+describe('AlertEngine', () => {
+  it('should alert once per drive below the free space threshold', () => {
+    const engine = new AlertEngine();
+    const rules = [rule('disk-free', { threshold: 10 })];
+    const drives = [
+      { drive: 'C:', freeGB: 4.25, totalGB: 500 },
+      { drive: 'D:', freeGB: 200, totalGB: 1000 },
+    ];
+
+    const first = engine.evaluate(rules, snapshot(0, { drives }));
+    const second = engine.evaluate(rules, snapshot(1, { drives }));
+
+    expect(first).toEqual([
+      expect.objectContaining({
+        ruleId: 'disk-free',
+        title: 'Low disk space',
+        message: 'C: has 4.3 GB free (below 10 GB)',
+      }),
+    ]);
+    expect(second).toEqual([]);
+  });
+
+  it('should alert when a process stays above the CPU threshold long enough', () => {
+    const engine = new AlertEngine();
+    const rules = [
+      rule('process-cpu', { threshold: 80, minutes: 5, target: 'node' }),
+    ];
+    const busy = (cpu: number) => ({
+      processes: [
+        { pid: 7, name: 'node', cpu },
+        { pid: 8, name: 'chrome', cpu: 99 },
+      ],
+    });
+
+    expect(engine.evaluate(rules, snapshot(0, busy(90)))).toEqual([]);
+    expect(engine.evaluate(rules, snapshot(4, busy(95)))).toEqual([]);
+    // Dropped below, the five minutes start again
+    expect(engine.evaluate(rules, snapshot(5, busy(10)))).toEqual([]);
+    expect(engine.evaluate(rules, snapshot(6, busy(90)))).toEqual([]);
+    const alerts = engine.evaluate(rules, snapshot(11, busy(90)));
+
+    expect(alerts.map((a) => a.message)).toEqual([
+      'node (PID 7) uses 90 % CPU for 5 min',
+    ]);
+    expect(engine.evaluate(rules, snapshot(12, busy(90)))).toEqual([]);
+  });
+
+  it('should alert on memory pressure and skip disabled rules', () => {
+    const engine = new AlertEngine();
+    const rules = [
+      rule('memory', { threshold: 90 }),
+      rule('disk-free', { threshold: 1000, enabled: false }),
+    ];
+
+    const alerts = engine.evaluate(
+      rules,
+      snapshot(0, {
+        memoryUsedPercent: 95,
+        drives: [{ drive: '/', freeGB: 1, totalGB: 100 }],
+      }),
+    );
+
+    expect(alerts.map((a) => a.title)).toEqual(['High memory usage']);
+  });
+
+  it('should alert on opened and closed ports after the first snapshot', () => {
+    const engine = new AlertEngine();
+    const rules = [rule('port'), rule('port', { id: 'ssh', target: '22' })];
+    const ports = (...numbers: number[]) => ({
+      ports: numbers.map((port) => ({ port, processName: `p${port}` })),
+    });
+
+    expect(engine.evaluate(rules, snapshot(0, ports(22, 80)))).toEqual([]);
+    const alerts = engine.evaluate(rules, snapshot(1, ports(80, 8080)));
+
+    expect(alerts.map((a) => [a.ruleId, a.message])).toEqual([
+      ['port', 'Port 8080 opened (p8080)'],
+      ['port', 'Port 22 closed (p22)'],
+      ['ssh', 'Port 22 closed (p22)'],
+    ]);
+  });
+});
+
+describe('AlertMonitor', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'alerts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep rules, log alerts and tell listeners', async () => {
+    const config = new ConfigCommand(testDir);
+    let memory = 50;
+    const sampler = async () =>
+      snapshot(Date.now() / MINUTE_MS, { memoryUsedPercent: memory });
+    const monitor = new AlertMonitor(sampler, config);
+    const notified: Alert[] = [];
+    monitor.onAlert((alert) => notified.push(alert));
+
+    const status = await monitor.update({
+      rules: [
+        { type: 'memory', threshold: 90 } as AlertRule,
+        { type: 'unknown' } as any,
+      ],
+    });
+    expect(status.running).toBe(false);
+    expect(status.settings.rules).toEqual([
+      expect.objectContaining({
+        type: 'memory',
+        enabled: true,
+        threshold: 90,
+        minutes: 0,
+        target: '',
+      }),
+    ]);
+
+    expect(await monitor.check()).toEqual([]);
+    memory = 97;
+    await monitor.check();
+    expect(notified.map((a) => a.message)).toEqual([
+      '97 % of the memory is in use',
+    ]);
+
+    const reopened = new AlertMonitor(sampler, config);
+    expect((await reopened.status()).settings.rules[0].id).toBe(
+      status.settings.rules[0].id,
+    );
+    expect(await reopened.alerts()).toEqual(notified);
+    expect(await reopened.resume()).toBe(false);
+    await reopened.clearLog();
+    expect(await reopened.alerts()).toEqual([]);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Tests for the archive formats (TAR, 7z) and browsing them through the VFS
+ */
+
+import AdmZip from 'adm-zip';
+import { execFileSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import { SevenZipFormat } from '../commands/archive-7z-format.js';
+import { TarFormat } from '../commands/archive-tar-format.js';
+import { FileOperationsCommand } from '../commands/file-operations-command.js';
+import { ArchiveProvider } from '../commands/vfs-archive-provider.js';
+import { VirtualFileSystem } from '../commands/vfs.js';
+
+/**
+ * Build a ustar archive. Names ending with "/" become directories, other
+ * entry types (pax "x", GNU long name "L") can be set per name.
+ */
+function createTar(
+  files: Record<string, string>,
+  types: Record<string, string> = {},
+): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const isDirectory = name.endsWith('/');
+    const data = Buffer.from(isDirectory ? '' : content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('14553551130\0', 136); // 2024-01-01
+    header.write(types[name] ?? (isDirectory ? '5' : '0'), 156);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+
+    header.fill(' ', 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+describe('Archive formats', () => {
+  describe('ArchiveProvider.parsePath', () => {
+    it('should split paths into archive file and internal path', () => {
+      expect(ArchiveProvider.parsePath('D:\\backup.tar.gz/etc/hosts')).toEqual({
+        archiveFile: 'D:\\backup.tar.gz',
+        internalPath: 'etc/hosts',
+      });
+      expect(ArchiveProvider.parsePath('/data/a.7z/docs/')).toEqual({
+        archiveFile: '/data/a.7z',
+        internalPath: 'docs',
+      });
+      expect(ArchiveProvider.parsePath('/data/backup.tgz')).toBeNull();
+      expect(ArchiveProvider.parsePath('/data/folder/file.txt')).toBeNull();
+    });
+
+    it('should find the format by file name', () => {
+      expect(ArchiveProvider.formatFor('release.TAR.GZ')?.name).toBe('tar');
+      expect(ArchiveProvider.formatFor('release.tbz2')?.name).toBe('tar');
+      expect(ArchiveProvider.formatFor('docs.7z')?.name).toBe('7z');
+      expect(ArchiveProvider.formatFor('docs.zip')?.name).toBe('zip');
+      expect(ArchiveProvider.formatFor('notes.txt')).toBeUndefined();
+    });
+  });
+
+  describe('TarFormat', () => {
+    it('should list and read plain and gzipped tarballs', async () => {
+      const tar = createTar({
+        'app/': '',
+        'app/readme.md': '# App',
+        'app/bin/run.sh': 'echo run',
+      });
+
+      for (const data of [tar, zlib.gzipSync(tar)]) {
+        const archive = await new TarFormat().open(data);
+        expect(archive.entries().map((e) => e.path)).toEqual([
+          'app',
+          'app/readme.md',
+          'app/bin/run.sh',
+        ]);
+        expect((await archive.read('app/bin/run.sh'))?.toString()).toBe(
+          'echo run',
+        );
+        expect(await archive.read('app')).toBeNull();
+      }
+    });
+
+    it('should use pax and GNU long names', async () => {
+      const paxName = `${'pax/'.repeat(30)}file.txt`;
+      const gnuName = `${'gnu/'.repeat(30)}file.txt`;
+      const tar = createTar(
+        {
+          // Record length includes its own three digits and the newline
+          'PaxHeader/short': `${paxName.length + 10} path=${paxName}\n`,
+          short: 'pax',
+          '././@LongLink': gnuName,
+          truncated: 'gnu',
+        },
+        { 'PaxHeader/short': 'x', '././@LongLink': 'L' },
+      );
+
+      const archive = await new TarFormat().open(tar);
+      expect(archive.entries().map((e) => e.path)).toEqual([paxName, gnuName]);
+      expect((await archive.read(paxName))?.toString()).toBe('pax');
+      expect((await archive.read(gnuName))?.toString()).toBe('gnu');
+    });
+
+    it('should index compressed tarballs as a stream and extract entries when read', async () => {
+      const big = crypto.randomBytes(150 * 1024).toString('base64');
+      const tar = createTar({ 'big.txt': big, 'after.txt': 'after' });
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tar-format-'));
+      try {
+        const files = {
+          'plain.tar': tar,
+          'data.tar.gz': zlib.gzipSync(tar),
+          'data.tar.bz2': execFileSync('bzip2', ['-c'], { input: tar }),
+          'data.tar.xz': execFileSync('xz', ['-c'], { input: tar }),
+        };
+        for (const [name, data] of Object.entries(files)) {
+          const file = path.join(dir, name);
+          fs.writeFileSync(file, data);
+          const archive = await new TarFormat().open(file);
+
+          expect(archive.entries().map((e) => [e.path, e.size])).toEqual([
+            ['big.txt', big.length],
+            ['after.txt', 5],
+          ]);
+          expect((await archive.read('after.txt'))?.toString()).toBe('after');
+          const chunks: Buffer[] = [];
+          for await (const chunk of archive.stream!('big.txt')!) {
+            chunks.push(chunk);
+          }
+          expect(Buffer.concat(chunks).toString()).toBe(big);
+        }
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+
+      // Headers split across chunks
+      const chunks: Buffer[] = [];
+      for (let i = 0; i < tar.length; i += 100) {
+        chunks.push(tar.subarray(i, i + 100));
+      }
+      const records = await TarFormat.index(Readable.from(chunks));
+      expect(records.get('after.txt')?.offset).toBe(
+        512 + Math.ceil(big.length / 512) * 512 + 512,
+      );
+    });
+  });
+
+  describe('SevenZipFormat', () => {
+    it('should parse the technical listing of 7z', () => {
+      const output = [
+        'Path = docs',
+        'Size = 0',
+        'Modified = 2024-05-01 13:45:10',
+        'Attributes = D',
+        '',
+        'Path = docs\\notes.txt',
+        'Size = 42',
+        'Modified = 2024-05-02 08:00:00.1234567',
+        'Attributes = A',
+        '',
+      ].join('\n');
+
+      const entries = SevenZipFormat.parseListing(output);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ path: 'docs', isDirectory: true });
+      expect(entries[1]).toMatchObject({
+        path: 'docs/notes.txt',
+        size: 42,
+        isDirectory: false,
+      });
+      expect(entries[1].time.getDate()).toBe(2);
+    });
+  });
+
+  describe('browsing through the VFS', () => {
+    let vfs: VirtualFileSystem;
+    let testDir: string;
+    let tgzPath: string;
+
+    beforeEach(() => {
+      ({ vfs } = VirtualFileSystem.createDefault(async () => ({
+        success: false,
+        error: 'SMB is not available in tests',
+      })));
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-tests-'));
+      tgzPath = path.join(testDir, 'release.tar.gz');
+      fs.writeFileSync(
+        tgzPath,
+        zlib.gzipSync(
+          createTar({
+            'release/notes.txt': 'version 1.0',
+            'release/lib/core.js': 'module.exports = {}',
+          }),
+        ),
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should list folders implied by the entries', async () => {
+      const root = await vfs.list(tgzPath);
+      expect(root.scheme).toBe('archive');
+      expect(root.entries.map((e) => e.name)).toEqual(['release']);
+
+      const release = await vfs.list(`${tgzPath}/release`);
+      expect(release.entries.map((e) => e.name).sort()).toEqual([
+        'lib',
+        'notes.txt',
+      ]);
+    });
+
+    it('should extract a folder by copying it to disk', async () => {
+      const target = path.join(testDir, 'out');
+
+      const result = await vfs.copy(`${tgzPath}/release`, target);
+
+      expect(result.filesCopied).toBe(2);
+      expect(
+        fs.readFileSync(path.join(target, 'lib', 'core.js'), 'utf-8'),
+      ).toBe('module.exports = {}');
+    });
+
+    it('should browse a tarball nested in a ZIP', async () => {
+      const zip = new AdmZip();
+      zip.addFile('nested/release.tar.gz', fs.readFileSync(tgzPath));
+      const zipPath = path.join(testDir, 'bundle.zip');
+      zip.writeZip(zipPath);
+
+      const nested = `${zipPath}/nested/release.tar.gz`;
+      const listing = await vfs.list(`${zipPath}/nested`);
+      expect(listing.entries[0]).toMatchObject({
+        name: 'release.tar.gz',
+        isDirectory: true,
+        isArchive: true,
+      });
+      expect((await vfs.read(`${nested}/release/notes.txt`)).toString()).toBe(
+        'version 1.0',
+      );
+    });
+
+    it('should refuse to modify read-only archives', async () => {
+      await expect(
+        vfs.write(`${tgzPath}/release/new.txt`, Buffer.from('x')),
+      ).rejects.toThrow('Archive is read-only');
+      await expect(vfs.delete(`${tgzPath}/release/notes.txt`)).rejects.toThrow(
+        'Archive is read-only',
+      );
+    });
+
+    it('should compare and search inside a tarball', async () => {
+      const command = new FileOperationsCommand();
+      const local = path.join(testDir, 'release');
+      fs.mkdirSync(local);
+      fs.writeFileSync(path.join(local, 'notes.txt'), 'version 1.0');
+
+      const compared = await command.execute({
+        operation: 'compare',
+        leftPath: `${tgzPath}/release`,
+        rightPath: local,
+        recursive: true,
+      });
+      expect(compared.summary.identical).toBe(1);
+      expect(compared.onlyInLeft.map((f: any) => f.path)).toEqual([
+        'lib',
+        'lib/core.js',
+      ]);
+
+      const searched = await command.execute({
+        operation: 'search',
+        searchPath: tgzPath,
+        filenamePattern: '*.js',
+        contentText: 'exports',
+        recursive: true,
+      });
+      expect(searched.data.results.map((r: any) => r.path)).toEqual([
+        `${tgzPath}/release/lib/core.js`,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Tests for creating archives: formats, compression level, AES password,
+ * split volumes and verification
+ */
+
+import AdmZip from 'adm-zip';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TarFormat } from '../commands/archive-tar-format.js';
+import { ArchiveWriter } from '../commands/archive-writer.js';
+import { FileOperationsCommand } from '../commands/file-operations-command.js';
+import {
+  createAesDecryptStream,
+  createAesEncryptStream,
+  decryptAes,
+  encryptAes,
+} from '../commands/zip-aes.js';
+
+describe('ArchiveWriter', () => {
+  let testDir: string;
+  let entries: Array<{ fullPath: string; archivePath: string }>;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-writer-'));
+    const source = path.join(testDir, 'source');
+    fs.mkdirSync(path.join(source, 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(source, 'readme.md'), '# Readme\n'.repeat(100));
+    fs.writeFileSync(path.join(source, 'docs', 'notes.txt'), 'Some notes');
+    entries = [
+      {
+        fullPath: path.join(source, 'readme.md'),
+        archivePath: 'source/readme.md',
+      },
+      {
+        fullPath: path.join(source, 'docs', 'notes.txt'),
+        archivePath: 'source/docs/notes.txt',
+      },
+    ];
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should write ZIP files that other tools can read', async () => {
+    const target = path.join(testDir, 'out.zip');
+    const writer = new ArchiveWriter({ format: 'zip', compressionLevel: 9 });
+
+    const result = await writer.write(entries, target);
+    await writer.verify(result);
+
+    expect(result).toMatchObject({ files: [target], entries: 2 });
+    const zip = new AdmZip(target);
+    expect(zip.readAsText('source/readme.md')).toBe('# Readme\n'.repeat(100));
+    expect(zip.readAsText('source/docs/notes.txt')).toBe('Some notes');
+  });
+
+  it('should encrypt ZIP entries with AES and check the password', async () => {
+    const target = path.join(testDir, 'secret.zip');
+    const writer = new ArchiveWriter({ format: 'zip', password: 'geheim' });
+
+    const result = await writer.write(entries, target);
+    await writer.verify(result);
+
+    expect(fs.readFileSync(target).includes('Some notes')).toBe(false);
+    await expect(
+      new ArchiveWriter({ format: 'zip', password: 'wrong' }).verify(result),
+    ).rejects.toThrow('Wrong password');
+
+    const data = Buffer.from('round trip');
+    expect(decryptAes(encryptAes(data, 'pw'), 'pw').toString()).toBe(
+      'round trip',
+    );
+  });
+
+  it('should encrypt and decrypt AES streams in chunks of any size', async () => {
+    const data = crypto.randomBytes(1000);
+    const encrypt = createAesEncryptStream('pw');
+    const encrypted: Buffer[] = [];
+    encrypt.on('data', (chunk: Buffer) => encrypted.push(chunk));
+    for (let i = 0; i < data.length; i += 7) {
+      encrypt.write(data.subarray(i, i + 7));
+    }
+    encrypt.end();
+    await new Promise((resolve) => encrypt.on('end', resolve));
+    const joined = Buffer.concat(encrypted);
+    expect(decryptAes(joined, 'pw')).toEqual(data);
+
+    const decrypt = createAesDecryptStream('pw');
+    const decrypted: Buffer[] = [];
+    decrypt.on('data', (chunk: Buffer) => decrypted.push(chunk));
+    for (let i = 0; i < joined.length; i += 5) {
+      decrypt.write(joined.subarray(i, i + 5));
+    }
+    decrypt.end();
+    await new Promise((resolve) => decrypt.on('end', resolve));
+    expect(Buffer.concat(decrypted)).toEqual(data);
+  });
+
+  it('should reject passwords for TAR archives', () => {
+    expect(
+      () => new ArchiveWriter({ format: 'tar.gz', password: 'geheim' }),
+    ).toThrow('only available for ZIP');
+  });
+
+  it.each(['tar.gz', 'tar.xz'] as const)(
+    'should write %s archives',
+    async (format) => {
+      const target = path.join(testDir, `out.${format}`);
+      const writer = new ArchiveWriter({ format, compressionLevel: 1 });
+
+      const result = await writer.write(entries, target);
+      await writer.verify(result);
+
+      const archive = await new TarFormat().open(target);
+      expect(archive.entries().map((e) => e.path)).toEqual([
+        'source/readme.md',
+        'source/docs/notes.txt',
+      ]);
+      expect((await archive.read('source/docs/notes.txt'))?.toString()).toBe(
+        'Some notes',
+      );
+    },
+  );
+
+  it('should split archives into volumes', async () => {
+    const big = path.join(testDir, 'big.bin');
+    fs.writeFileSync(big, Buffer.alloc(150 * 1024, 7));
+    const target = path.join(testDir, 'split.zip');
+    // A stale third volume from an earlier run must not survive
+    fs.writeFileSync(ArchiveWriter.volumePath(target, 3), 'old');
+    const writer = new ArchiveWriter({
+      format: 'zip',
+      compressionLevel: 0,
+      volumeSize: 64 * 1024,
+    });
+
+    const result = await writer.write(
+      [{ fullPath: big, archivePath: 'big.bin' }],
+      target,
+    );
+    await writer.verify(result);
+
+    expect(result.files).toEqual([
+      `${target}.001`,
+      `${target}.002`,
+      `${target}.003`,
+    ]);
+    expect(fs.statSync(result.files[0]).size).toBe(64 * 1024);
+    expect(fs.existsSync(ArchiveWriter.volumePath(target, 4))).toBe(false);
+
+    const joined = Buffer.concat(result.files.map((f) => fs.readFileSync(f)));
+    expect(
+      new AdmZip(joined).readFile('big.bin')?.equals(fs.readFileSync(big)),
+    ).toBe(true);
+  });
+
+  it.each(['zip', 'tar.gz'] as const)(
+    'should stream large %s entries and find damaged volumes',
+    async (format) => {
+      const big = path.join(testDir, 'big.bin');
+      fs.writeFileSync(big, crypto.randomBytes(300 * 1024));
+      const target = path.join(testDir, `big.${format}`);
+      const writer = new ArchiveWriter({ format, volumeSize: 64 * 1024 });
+
+      const result = await writer.write(
+        [...entries, { fullPath: big, archivePath: 'big.bin' }],
+        target,
+      );
+      await writer.verify(result);
+      expect(result.files.length).toBe(5);
+
+      const volume = fs.readFileSync(result.files[2]);
+      volume[1000] ^= 0xff;
+      fs.writeFileSync(result.files[2], volume);
+      await expect(writer.verify(result)).rejects.toThrow(
+        'Verification failed',
+      );
+    },
+  );
+
+  describe('zip operation', () => {
+    it('should create archives with the chosen format and ask before replacing them', async () => {
+      const command = new FileOperationsCommand();
+      const target = path.join(testDir, 'source.tar.xz');
+      const params = {
+        operation: 'zip',
+        files: [path.join(testDir, 'source')],
+        zipFilePath: target,
+        format: 'tar.xz',
+        compressionLevel: 3,
+      };
+
+      const created = await command.execute(params);
+      expect(created).toMatchObject({
+        success: true,
+        format: 'tar.xz',
+        filesAdded: 2,
+        verified: true,
+      });
+
+      const again = await command.execute(params);
+      expect(again).toMatchObject({ prompt: 'overwrite', zipFile: target });
+
+      const replaced = await command.execute({ ...params, overwrite: true });
+      expect(replaced.success).toBe(true);
+    });
+
+    it('should report invalid options', async () => {
+      const result = await new FileOperationsCommand().execute({
+        operation: 'zip',
+        files: [path.join(testDir, 'source')],
+        zipFilePath: path.join(testDir, 'out.tar.gz'),
+        format: 'tar.gz',
+        password: 'geheim',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('only available for ZIP');
+    });
+  });
+});
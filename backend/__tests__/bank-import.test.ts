@@ -0,0 +1,265 @@
+/**
+ * Tests for the bank statement import: MT940, CAMT.052, CSV exports with
+ * column mapping profiles and the ProfiCash format detection
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BankCsvImport, CsvProfile } from '../commands/bank-csv-import.js';
+import { ConfigCommand } from '../commands/config-command.js';
+import { Mt940Parser } from '../commands/mt940-parser.js';
+import { ProficashCommand } from '../commands/proficash-command.js';
+
+const MT940 = [
+  ':20:STARTUMSE',
+  ':25:12345678/0123456789EUR',
+  ':28C:00001/001',
+  ':60F:C231229EUR1000,00',
+  ':61:2401021229DR50,00NDDTNONREF',
+  ':86:105?00FOLGELASTSCHRIFT?109248?20EREF+INV-1?21SVWZ+Strom Dezember',
+  ' 2023?22ABWA+Stadtwerke?30GENODEF1XXX?31DE02120300000000202051',
+  '?32STADTWERKE MUSTERSTADT',
+  ':61:240103C1234,5NTRFNONREF//B123',
+  ':86:Gehalt Januar',
+  'Firma GmbH',
+  ':61:240104RC10,NCHGNONREF',
+  ':62F:C240104EUR2174,50',
+  '-',
+].join('\r\n');
+
+const CAMT052 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.052.001.02">
+  <BkToCstmrAcctRpt>
+    <Rpt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">19.99</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2024-03-05</Dt></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>Shop</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Order 42</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+    </Rpt>
+  </BkToCstmrAcctRpt>
+</Document>`;
+
+const SPARKASSE_CSV = [
+  '"Auftragskonto";"Buchungstag";"Valutadatum";"Buchungstext";"Verwendungszweck";"Beguenstigter/Zahlungspflichtiger";"Kontonummer/IBAN";"BIC (SWIFT-Code)";"Betrag";"Waehrung"',
+  '"DE11500500000000012345";"02.01.24";"02.01.24";"LASTSCHRIFT";"SVWZ+Miete Januar";"Vermieter";"DE02120300000000202051";"BYLADEM1001";"-1.250,00";"EUR"',
+  '"DE11500500000000012345";"15.01.24";"15.01.24";"GUTSCHRIFT";"Gehalt; Januar";"Firma GmbH";"DE89370400440532013000";"COBADEFFXXX";"3.100,50";"EUR"',
+].join('\n');
+
+describe('Mt940Parser', () => {
+  it('should read statement lines with structured and free text details', () => {
+    const transactions = Mt940Parser.parse(MT940);
+
+    expect(transactions).toEqual([
+      {
+        account: '12345678/0123456789',
+        // Booked in December for a value date in January
+        date: '29.12.2023',
+        amount: -50,
+        type: 'FOLGELASTSCHRIFT',
+        counterpartyBank: 'GENODEF1XXX',
+        counterpartyAccount: 'DE02120300000000202051',
+        counterpartyName: 'STADTWERKE MUSTERSTADT',
+        reference: 'Strom Dezember 2023',
+      },
+      expect.objectContaining({
+        date: '03.01.2024',
+        amount: 1234.5,
+        type: 'NTRF',
+        reference: 'Gehalt Januar Firma GmbH',
+      }),
+      expect.objectContaining({ amount: -10, type: 'NCHG' }),
+    ]);
+  });
+});
+
+describe('BankCsvImport', () => {
+  it('should parse quoted fields and detect the delimiter', () => {
+    const text = 'a;"b;c";"say ""hi"""\r\n\r\n1;2;3\n';
+
+    expect(BankCsvImport.detectDelimiter(text)).toBe(';');
+    expect(BankCsvImport.parseTable(text, ';')).toEqual([
+      ['a', 'b;c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('should read amounts and dates in the usual notations', () => {
+    expect(BankCsvImport.parseAmount('-1.234,56 €', ',')).toBe(-1234.56);
+    expect(BankCsvImport.parseAmount('1.234,56-', ',')).toBe(-1234.56);
+    expect(BankCsvImport.parseAmount('(1,234.56)', '.')).toBe(-1234.56);
+    expect(BankCsvImport.parseAmount('n/a', ',')).toBeNaN();
+
+    expect(BankCsvImport.parseDate('2.1.24', 'DD.MM.YY')).toBe('02.01.2024');
+    expect(BankCsvImport.parseDate('2024-01-31', 'YYYY-MM-DD')).toBe(
+      '31.01.2024',
+    );
+    expect(BankCsvImport.parseDate('01/31/2024', 'MM/DD/YYYY')).toBe(
+      '31.01.2024',
+    );
+    expect(BankCsvImport.parseDate('01/31/2024', 'DD/MM/YYYY')).toBe('');
+  });
+
+  it('should suggest a profile below account details and import with it', () => {
+    const rows = BankCsvImport.parseTable(
+      'Konto;DE11500500000000012345\n\n' + SPARKASSE_CSV,
+      ';',
+    );
+
+    const profile = BankCsvImport.suggestProfile(rows, ';', 'utf-8');
+
+    expect(profile).toMatchObject({
+      skipRows: 1,
+      decimalSeparator: ',',
+      dateFormat: 'DD.MM.YY',
+      fields: [
+        'account',
+        'date',
+        null,
+        'type',
+        'reference',
+        'name',
+        'counterpartyAccount',
+        'counterpartyBank',
+        'amount',
+        null,
+      ],
+    });
+    expect(BankCsvImport.toTransactions(rows, profile)).toEqual([
+      {
+        account: 'DE11500500000000012345',
+        date: '02.01.2024',
+        amount: -1250,
+        type: 'LASTSCHRIFT',
+        counterpartyBank: 'BYLADEM1001',
+        counterpartyAccount: 'DE02120300000000202051',
+        counterpartyName: 'Vermieter',
+        reference: 'Miete Januar',
+      },
+      expect.objectContaining({ amount: 3100.5, reference: 'Gehalt; Januar' }),
+    ]);
+  });
+
+  it('should combine credit and debit columns and a Soll/Haben mark', () => {
+    const rows = [
+      ['Datum', 'Soll', 'Haben', 'S/H', 'Text'],
+      ['01.02.2024', '12.50', '', 'S', 'Coffee'],
+      ['02.02.2024', '', '100', 'H', 'Refund'],
+      ['Saldo', '', '', '', ''],
+    ];
+    const profile: CsvProfile = {
+      ...BankCsvImport.suggestProfile(rows, ';', 'utf-8'),
+      account: 'Cash',
+    };
+
+    expect(profile.fields).toEqual(['date', 'debit', 'credit', 'sign', null]);
+    expect(
+      BankCsvImport.toTransactions(rows, profile).map((t) => [
+        t.account,
+        t.amount,
+      ]),
+    ).toEqual([
+      ['Cash', -12.5],
+      ['Cash', 100],
+    ]);
+  });
+});
+
+describe('ProficashCommand', () => {
+  let testDir: string;
+  let command: ProficashCommand;
+
+  const write = (name: string, content: string | Buffer) => {
+    const filePath = path.join(testDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bank-import-'));
+    command = new ProficashCommand(new ConfigCommand(testDir));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should detect and parse MT940 and CAMT.052 files', async () => {
+    const mt940 = await command.execute({
+      filePath: write('umsaetze.sta', Buffer.from(MT940, 'latin1')),
+    });
+    const camt = await command.execute({
+      filePath: write('report.xml', CAMT052),
+    });
+
+    expect(mt940).toMatchObject({
+      success: true,
+      format: 'mt940',
+      summary: { totalRows: 3, yearSums: { '2023': -50, '2024': 1224.5 } },
+    });
+    expect(camt).toMatchObject({ success: true, format: 'camt.052' });
+    expect(camt.rows).toEqual([
+      [
+        'DE89370400440532013000',
+        '05.03.2024',
+        -19.99,
+        '',
+        '',
+        '',
+        'Shop',
+        'Order 42',
+        '',
+      ],
+    ]);
+  });
+
+  it('should ask for a mapping once and then find the saved profile', async () => {
+    const filePath = write(
+      'export.csv',
+      Buffer.from(SPARKASSE_CSV.replace('Vermieter', 'Müller'), 'latin1'),
+    );
+
+    expect(await command.execute({ filePath })).toMatchObject({
+      success: false,
+      needsMapping: true,
+    });
+
+    const preview = await command.execute({ action: 'csv-preview', filePath });
+    expect(preview).toMatchObject({
+      success: true,
+      delimiter: ';',
+      encoding: 'latin1',
+      saved: false,
+    });
+    const saved = await command.execute({
+      action: 'csv-save-profile',
+      profile: JSON.stringify({ ...preview.profile, name: 'Sparkasse' }),
+    });
+    expect(saved.profiles.map((p: CsvProfile) => p.name)).toEqual([
+      'Sparkasse',
+    ]);
+
+    const result = await new ProficashCommand(
+      new ConfigCommand(testDir),
+    ).execute({ filePath });
+    expect(result).toMatchObject({
+      success: true,
+      format: 'csv',
+      profile: 'Sparkasse',
+      summary: { totalRows: 2, sum: 1850.5 },
+    });
+    expect(result.rows[0][6]).toBe('Müller');
+
+    await command.execute({ action: 'csv-delete-profile', name: 'Sparkasse' });
+    expect(await command.execute({ action: 'csv-profiles' })).toEqual({
+      success: true,
+      profiles: [],
+    });
+  });
+});
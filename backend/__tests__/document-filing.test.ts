@@ -0,0 +1,197 @@
+/**
+ * Tests for the DocManager filing rules: matching by sender, account, text
+ * and file name, folder placeholders, moving documents and re-filing a
+ * scan folder through the command
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { DocumentFiling, FilingRule } from '../commands/document-filing.js';
+import { ScannerCommand } from '../commands/scanner-command.js';
+
+const RULES: FilingRule[] = [
+  { field: 'account', pattern: '4711', folder: 'Insurance/Policy {account}' },
+  { field: 'sender', pattern: 'allianz', folder: 'Insurance/Allianz/{year}/' },
+  {
+    field: 'text',
+    pattern: 'rechnung\\s+nr',
+    regex: true,
+    folder: 'Invoices/{year}/{month}',
+  },
+  { field: 'fileName', pattern: '(', regex: true, folder: 'Broken' },
+];
+
+describe('DocumentFiling', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'filing-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should find the folder of the first matching rule', () => {
+    const named = DocumentFiling.facts('allianz_max_20240312.pdf');
+    expect(named).toMatchObject({ senders: ['allianz'], date: '2024-03-12' });
+    expect(DocumentFiling.match(RULES, named)).toBe(1);
+    expect(DocumentFiling.folder(RULES[1], named)).toBe(
+      path.join('Insurance', 'Allianz', '2024'),
+    );
+
+    const invoice = DocumentFiling.facts('scan_2024-05-01T10-00-00.pdf', {
+      sender: 'Stadtwerke',
+      companies: [],
+      date: '2023-11-30',
+      accounts: [],
+      emails: [],
+      text: 'Ihre Rechnung  Nr. 42',
+    });
+    expect(invoice.senders).toEqual(['Stadtwerke']);
+    expect(DocumentFiling.match(RULES, invoice)).toBe(2);
+    expect(DocumentFiling.folder(RULES[2], invoice)).toBe(
+      path.join('Invoices', '2023', '11'),
+    );
+
+    // Invalid regular expressions never match, undated documents
+    // get "unknown" folders and rules cannot leave the scan folder
+    const letter = DocumentFiling.facts('letter.pdf');
+    expect(DocumentFiling.match(RULES, letter)).toBe(-1);
+    expect(
+      DocumentFiling.folder(
+        { field: 'text', pattern: '', folder: '../../{year}/./a:b' },
+        letter,
+      ),
+    ).toBe(path.join('unknown', 'ab'));
+  });
+
+  it('should move documents with their sidecars and keep existing files', () => {
+    const scanDir = path.join(testDir, 'Scans');
+    fs.mkdirSync(path.join(scanDir, 'Insurance'), { recursive: true });
+    fs.writeFileSync(path.join(scanDir, 'policy.pdf'), 'new');
+    fs.writeFileSync(path.join(scanDir, 'policy.txt'), 'ocr');
+    fs.writeFileSync(path.join(scanDir, 'policy.json'), '{}');
+    fs.writeFileSync(path.join(scanDir, 'Insurance', 'policy.pdf'), 'old');
+
+    const target = DocumentFiling.move(
+      path.join(scanDir, 'policy.pdf'),
+      scanDir,
+      'Insurance',
+    );
+    expect(target).toBe(path.join(scanDir, 'Insurance', 'policy_2.pdf'));
+    expect(fs.readdirSync(path.join(scanDir, 'Insurance')).sort()).toEqual([
+      'policy.pdf',
+      'policy_2.json',
+      'policy_2.pdf',
+      'policy_2.txt',
+    ]);
+    expect(DocumentFiling.move(target, scanDir, 'Insurance')).toBe(target);
+
+    // The OCR text of another document must not be replaced either
+    fs.writeFileSync(path.join(scanDir, 'letter.pdf'), 'new');
+    fs.writeFileSync(path.join(scanDir, 'letter.txt'), 'ocr');
+    fs.writeFileSync(path.join(scanDir, 'Insurance', 'letter.txt'), 'notes');
+    expect(
+      DocumentFiling.move(
+        path.join(scanDir, 'letter.pdf'),
+        scanDir,
+        'Insurance',
+      ),
+    ).toBe(path.join(scanDir, 'Insurance', 'letter_2.pdf'));
+    expect(
+      fs.readFileSync(path.join(scanDir, 'Insurance', 'letter.txt'), 'utf-8'),
+    ).toBe('notes');
+    expect(
+      fs.readFileSync(path.join(scanDir, 'Insurance', 'letter_2.txt'), 'utf-8'),
+    ).toBe('ocr');
+  });
+
+  it('should preview and re-file the documents of the scan folder', async () => {
+    const config = new ConfigCommand(testDir);
+    await config.execute({
+      operation: 'write',
+      filename: 'user-preferences.json',
+      data: { senders: ['Allianz'], filingRules: RULES },
+    });
+    const scanDir = path.join(testDir, 'Scans');
+    fs.mkdirSync(path.join(scanDir, 'Insurance', 'Allianz', '2024'), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(scanDir, 'allianz_20240312.pdf'), 'a');
+    fs.writeFileSync(path.join(scanDir, 'allianz_20230101.pdf'), 'b');
+    fs.writeFileSync(path.join(scanDir, 'letter.pdf'), 'c');
+    fs.writeFileSync(
+      path.join(
+        scanDir,
+        'Insurance',
+        'Allianz',
+        '2024',
+        'allianz_20240101.pdf',
+      ),
+      'd',
+    );
+
+    const command = new ScannerCommand(config);
+    const preview = await command.execute({
+      action: 'filing-preview',
+      outputPath: scanDir,
+    });
+    expect(preview).toMatchObject({ success: true, count: 2, total: 4 });
+    expect(preview.documents).toEqual([
+      {
+        fileName: 'allianz_20230101.pdf',
+        rule: 1,
+        folder: path.join('Insurance', 'Allianz', '2023'),
+      },
+      {
+        fileName: 'allianz_20240312.pdf',
+        rule: 1,
+        folder: path.join('Insurance', 'Allianz', '2024'),
+      },
+    ]);
+
+    expect(
+      await command.execute({
+        action: 'filing-preview',
+        outputPath: scanDir,
+        fileName: 'versicherung_20240501.pdf',
+        analysis: JSON.stringify({
+          sender: 'Allianz Versicherungs AG',
+          numberSequences: [],
+        }),
+      }),
+    ).toEqual({
+      success: true,
+      rule: 1,
+      folder: path.join('Insurance', 'Allianz', '2024'),
+    });
+
+    const result = await command.execute({
+      action: 'file-documents',
+      outputPath: scanDir,
+      files: JSON.stringify(['allianz_20240312.pdf', 'letter.pdf']),
+    });
+    expect(result.moved).toEqual([
+      {
+        from: 'allianz_20240312.pdf',
+        to: path.join('Insurance', 'Allianz', '2024', 'allianz_20240312.pdf'),
+      },
+    ]);
+
+    const listed = await command.execute({
+      action: 'list-documents',
+      outputPath: scanDir,
+    });
+    expect(
+      listed.documents.map((doc: { name: string }) => doc.name).sort(),
+    ).toEqual([
+      path.join('Insurance', 'Allianz', '2024', 'allianz_20240101.pdf'),
+      path.join('Insurance', 'Allianz', '2024', 'allianz_20240312.pdf'),
+      'allianz_20230101.pdf',
+      'letter.pdf',
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for the DocManager inbox: queueing and analyzing new documents of
+ * the inbox folder, suggested names, importing and removing documents
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { DocumentInbox, InboxAnalysis } from '../commands/document-inbox.js';
+
+const ANALYSES: Record<string, InboxAnalysis> = {
+  'scan0001.pdf': {
+    text: 'Allianz Versicherungs AG\nKöln, 12.03.2024',
+    analysis: {
+      sender: 'Allianz Versicherungs AG',
+      dates: ['12.03.2024'],
+    },
+    preview: 'data:image/jpeg;base64,AAAA',
+  },
+  'IMG_2001.JPG': {
+    text: 'Kassenbon',
+    analysis: { sender: 'Unknown', dates: [] },
+    preview: null,
+  },
+};
+
+describe('DocumentInbox', () => {
+  let testDir: string;
+  let inboxDir: string;
+  let scanDir: string;
+  let config: ConfigCommand;
+  let analyzed: string[];
+  let inbox: DocumentInbox;
+
+  beforeEach(async () => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docinbox-'));
+    inboxDir = path.join(testDir, 'Inbox');
+    scanDir = path.join(testDir, 'Scans');
+    fs.mkdirSync(path.join(inboxDir, 'phone'), { recursive: true });
+    fs.mkdirSync(scanDir);
+    fs.writeFileSync(path.join(inboxDir, 'scan0001.pdf'), 'pdf');
+    fs.writeFileSync(path.join(inboxDir, 'phone', 'IMG_2001.JPG'), 'jpg');
+    fs.writeFileSync(path.join(inboxDir, 'broken.png'), 'png');
+    fs.writeFileSync(path.join(inboxDir, 'notes.txt'), 'not a document');
+
+    config = new ConfigCommand(testDir);
+    await config.execute({
+      operation: 'write',
+      filename: 'docmanager-inbox.json',
+      data: { enabled: false, inboxPath: inboxDir },
+    });
+    analyzed = [];
+    inbox = new DocumentInbox(async (filePath) => {
+      analyzed.push(path.basename(filePath));
+      const result = ANALYSES[path.basename(filePath)];
+      if (!result) throw new Error('Unreadable image');
+      return result;
+    }, config);
+  });
+
+  afterEach(() => {
+    inbox.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should analyze new documents once they are completely written', async () => {
+    await inbox.refresh();
+    expect(analyzed).toEqual([]);
+    expect((await inbox.status()).items).toEqual([]);
+
+    const later = Date.now() + 10000;
+    await inbox.refresh(later);
+    expect(analyzed.sort()).toEqual([
+      'IMG_2001.JPG',
+      'broken.png',
+      'scan0001.pdf',
+    ]);
+    const { items } = await inbox.status();
+    expect(
+      items.map(({ name, status, suggestedName }) => ({
+        name,
+        status,
+        suggestedName,
+      })),
+    ).toEqual([
+      { name: 'broken.png', status: 'failed', suggestedName: 'broken.png' },
+      {
+        name: path.join('phone', 'IMG_2001.JPG'),
+        status: 'ready',
+        suggestedName: 'IMG_2001.JPG',
+      },
+      {
+        name: 'scan0001.pdf',
+        status: 'ready',
+        suggestedName: 'allianz-versicherungs_20240312.pdf',
+      },
+    ]);
+    expect(items[0].error).toBe('Unreadable image');
+    expect(await inbox.document('scan0001.pdf')).toMatchObject({
+      text: ANALYSES['scan0001.pdf'].text,
+      preview: 'data:image/jpeg;base64,AAAA',
+    });
+
+    // Known documents are not read again, removed ones leave the queue
+    fs.rmSync(path.join(inboxDir, 'broken.png'));
+    await inbox.refresh(later);
+    expect(analyzed).toHaveLength(3);
+    expect((await inbox.status()).items).toHaveLength(2);
+  });
+
+  it('should import documents under a new name and remove documents', async () => {
+    fs.writeFileSync(path.join(scanDir, 'receipt.JPG'), 'existing');
+    await inbox.refresh(Date.now() + 10000);
+
+    expect(await inbox.accept('scan0001.pdf', scanDir)).toBe(
+      path.join(scanDir, 'allianz-versicherungs_20240312.pdf'),
+    );
+    expect(
+      await inbox.accept(
+        path.join('phone', 'IMG_2001.JPG'),
+        scanDir,
+        'receipt.pdf',
+      ),
+    ).toBe(path.join(scanDir, 'receipt_2.JPG'));
+    await expect(inbox.accept('../Scans/receipt.JPG', scanDir)).rejects.toThrow(
+      'Not in the inbox',
+    );
+
+    await inbox.remove('broken.png');
+    expect(fs.readdirSync(inboxDir)).toEqual(['notes.txt', 'phone']);
+    expect(fs.readdirSync(scanDir).sort()).toEqual([
+      'allianz-versicherungs_20240312.pdf',
+      'receipt.JPG',
+      'receipt_2.JPG',
+    ]);
+    expect((await inbox.status()).items).toEqual([]);
+  });
+
+  it('should keep watching after a restart until it is stopped', async () => {
+    await expect(inbox.start(path.join(testDir, 'missing'))).rejects.toThrow(
+      'Inbox folder not found',
+    );
+    expect(await inbox.resume()).toBe(false);
+
+    expect(await inbox.start(inboxDir)).toMatchObject({
+      settings: { enabled: true, inboxPath: inboxDir },
+      running: true,
+    });
+    const restarted = new DocumentInbox(
+      async () => ANALYSES['IMG_2001.JPG'],
+      config,
+    );
+    expect(await restarted.resume()).toBe(true);
+    expect(await restarted.stop()).toMatchObject({
+      settings: { enabled: false },
+      running: false,
+    });
+    restarted.close();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for the DocManager full-text index: incremental updates of a scan
+ * folder, search with filters and snippets, document dates
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { DocumentContent, DocumentIndex } from '../commands/document-index.js';
+
+const LETTERS: Record<string, DocumentContent> = {
+  'allianz.pdf': {
+    text: 'Allianz Versicherungs AG\nKöln, 12.03.2024\nIhre Beitragsrechnung\nVersicherungsnummer 4711 0815 99',
+    analysis: {
+      sender: 'Allianz Versicherungs AG',
+      organizations: ['Allianz Versicherungs AG'],
+      dates: ['12.03.2024'],
+      numberSequences: [{ sequence: '4711 0815 99' }],
+      emails: [],
+    },
+  },
+  'stadtwerke.jpg': {
+    text: 'Stadtwerke München GmbH\nJahresabrechnung Strom 2023\nDatum: 5 Januar 2024',
+    analysis: {
+      sender: 'Stadtwerke München GmbH',
+      organizations: ['Stadtwerke München GmbH'],
+      dates: ['5 Januar 2024'],
+      numberSequences: [],
+      emails: ['service@swm.de'],
+    },
+  },
+};
+
+describe('DocumentIndex', () => {
+  let testDir: string;
+  let scanDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docindex-'));
+    scanDir = path.join(testDir, 'Scans');
+    fs.mkdirSync(path.join(scanDir, '2024'), { recursive: true });
+    fs.writeFileSync(path.join(scanDir, 'allianz.pdf'), 'pdf');
+    fs.writeFileSync(path.join(scanDir, '2024', 'stadtwerke.jpg'), 'jpg');
+    fs.writeFileSync(path.join(scanDir, 'notes.txt'), 'not a document');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const reader = (read: string[]) => async (filePath: string) => {
+    read.push(path.basename(filePath));
+    return LETTERS[path.basename(filePath)];
+  };
+
+  it('should read only new and changed documents', async () => {
+    const read: string[] = [];
+    const index = new DocumentIndex(new ConfigCommand(testDir));
+
+    expect(await index.update(scanDir, reader(read))).toMatchObject({
+      added: 2,
+      updated: 0,
+      removed: 0,
+      unchanged: 0,
+    });
+    expect(read).toEqual(['stadtwerke.jpg', 'allianz.pdf']);
+
+    fs.writeFileSync(path.join(scanDir, 'allianz.pdf'), 'new pdf');
+    fs.rmSync(path.join(scanDir, '2024'), { recursive: true });
+    const reopened = new DocumentIndex(new ConfigCommand(testDir));
+    expect(await reopened.update(scanDir, reader(read))).toMatchObject({
+      added: 0,
+      updated: 1,
+      removed: 1,
+      unchanged: 0,
+    });
+    expect(read).toEqual(['stadtwerke.jpg', 'allianz.pdf', 'allianz.pdf']);
+    expect(await reopened.update(scanDir, reader(read))).toMatchObject({
+      unchanged: 1,
+    });
+  });
+
+  it('should keep documents indexed while an update runs', async () => {
+    const index = new DocumentIndex(new ConfigCommand(testDir));
+    const inboxFile = path.join(testDir, 'Inbox', 'stadtwerke.jpg');
+    fs.mkdirSync(path.dirname(inboxFile));
+    fs.writeFileSync(inboxFile, 'jpg');
+
+    await index.update(scanDir, async (filePath) => {
+      await index.put(inboxFile, LETTERS['stadtwerke.jpg']);
+      return LETTERS[path.basename(filePath)];
+    });
+
+    const reopened = new DocumentIndex(new ConfigCommand(testDir));
+    expect((await reopened.load()).map((doc) => doc.path)).toEqual(
+      [
+        inboxFile,
+        path.join(scanDir, '2024', 'stadtwerke.jpg'),
+        path.join(scanDir, 'allianz.pdf'),
+      ].sort((a, b) => a.localeCompare(b)),
+    );
+  });
+
+  it('should search the text with sender, account and date filters', async () => {
+    const index = new DocumentIndex(new ConfigCommand(testDir));
+    await index.update(scanDir, reader([]));
+
+    const { hits, total } = await index.search({ text: 'beitragsrechnung' });
+    expect(total).toBe(1);
+    expect(hits[0]).toMatchObject({
+      name: 'allianz.pdf',
+      sender: 'Allianz Versicherungs AG',
+      date: '2024-03-12',
+      matches: 1,
+    });
+    expect(hits[0].snippet).toContain('Ihre Beitragsrechnung');
+
+    const search = async (query: object) =>
+      (await index.search({ folder: scanDir, ...query })).hits.map(
+        (hit) => hit.name,
+      );
+    expect(await search({})).toEqual(['allianz.pdf', 'stadtwerke.jpg']);
+    expect(await search({ text: '"strom 2023" münchen' })).toEqual([
+      'stadtwerke.jpg',
+    ]);
+    expect(await search({ text: 'strom versicherung' })).toEqual([]);
+    expect(await search({ sender: 'stadtwerke' })).toEqual(['stadtwerke.jpg']);
+    expect(await search({ account: '4711-081599' })).toEqual(['allianz.pdf']);
+    expect(
+      await search({ dateFrom: '2024-01-01', dateTo: '2024-01-31' }),
+    ).toEqual(['stadtwerke.jpg']);
+    expect(await search({ folder: path.join(scanDir, '2024') })).toEqual([
+      'stadtwerke.jpg',
+    ]);
+
+    expect(await index.facets(scanDir)).toEqual({
+      senders: ['Allianz Versicherungs AG', 'Stadtwerke München GmbH'],
+      accounts: ['4711 0815 99'],
+      indexed: 2,
+    });
+  });
+
+  it('should read the date formats found by the OCR', () => {
+    expect(DocumentIndex.isoDate('24.03.2024')).toBe('2024-03-24');
+    expect(DocumentIndex.isoDate('1 2 24')).toBe('2024-02-01');
+    expect(DocumentIndex.isoDate('2024-3-24')).toBe('2024-03-24');
+    expect(DocumentIndex.isoDate('03/24/2024')).toBe('2024-03-24');
+    expect(DocumentIndex.isoDate('24 März 2024')).toBe('2024-03-24');
+    expect(DocumentIndex.isoDate('31.02.2024')).toBeNull();
+    expect(DocumentIndex.isoDate('12 34 5678')).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for the DocManager metadata sidecars: fields extracted from the OCR
+ * text, guessed type and due date, tags and the due documents of a folder
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { DocumentSidecar } from '../commands/document-sidecar.js';
+import { ScannerCommand } from '../commands/scanner-command.js';
+
+const INVOICE = [
+  'Stadtwerke München GmbH',
+  'Rechnung Nr. 2024-0815',
+  'Rechnungsdatum: 05.01.2024',
+  'Strom 2023 EUR 1.234,56',
+  'Abschlag 45,00 €',
+  'Zahlbar bis 31.01.2024 auf DE89 3704 0044 0532 0130 00',
+  'Nicht DE12 3456 7890 1234 5678 90',
+  'service@swm.de',
+].join('\n');
+
+const ANALYSIS = {
+  sender: 'Stadtwerke München GmbH',
+  organizations: ['Stadtwerke München GmbH'],
+  dates: ['05.01.2024', '31.01.2024', '05.01.2024'],
+  numberSequences: [{ sequence: '2024-0815' }],
+  emails: ['service@swm.de'],
+};
+
+describe('DocumentSidecar', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should extract the fields, type and due date of a document', () => {
+    expect(DocumentSidecar.fromText(INVOICE, ANALYSIS)).toEqual({
+      fields: {
+        sender: 'Stadtwerke München GmbH',
+        companies: ['Stadtwerke München GmbH'],
+        dates: ['2024-01-05', '2024-01-31'],
+        amounts: [1234.56, 45],
+        ibans: ['DE89370400440532013000'],
+        emails: ['service@swm.de'],
+        accounts: ['2024-0815'],
+        custom: {},
+      },
+      type: 'invoice',
+      tags: [],
+      dueDate: '2024-01-31',
+      done: false,
+    });
+
+    expect(
+      DocumentSidecar.guessDueDate(
+        'Bitte zahlen Sie innerhalb von 14 Tagen.',
+        '2024-02-20',
+      ),
+    ).toBe('2024-03-05');
+    expect(DocumentSidecar.guessType('Ihr Vertrag, Laufzeit 2 Jahre')).toBe(
+      'contract',
+    );
+    expect(DocumentSidecar.guessType('Hallo')).toBe('');
+    expect(DocumentSidecar.amounts('USD 1,234.50 oder 99,00 EUR')).toEqual([
+      99,
+    ]);
+    expect(DocumentSidecar.amounts('€ 1,234.50')).toEqual([1234.5]);
+    expect(DocumentSidecar.validIban('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(DocumentSidecar.validIban('GB82 WEST 1234 5698 7654 33')).toBe(
+      false,
+    );
+  });
+
+  it('should keep tags and due dates and list the due documents', async () => {
+    const scanDir = path.join(testDir, 'Scans');
+    fs.mkdirSync(path.join(scanDir, 'Strom'), { recursive: true });
+    const invoice = path.join(scanDir, 'Strom', 'swm_20240105.pdf');
+    fs.writeFileSync(invoice, 'pdf');
+    DocumentSidecar.write(invoice, DocumentSidecar.fromText(INVOICE, ANALYSIS));
+    fs.writeFileSync(path.join(scanDir, 'letter.pdf'), 'pdf');
+    fs.writeFileSync(path.join(scanDir, 'contract.pdf'), 'pdf');
+
+    const command = new ScannerCommand(new ConfigCommand(testDir));
+    const update = (fileName: string, details: object) =>
+      command.execute({
+        action: 'update-details',
+        outputPath: scanDir,
+        fileName,
+        details: JSON.stringify(details),
+      });
+
+    const contract = await update('contract.pdf', {
+      type: 'contract',
+      tags: ['Versicherung', ' Auto ', 'Versicherung'],
+      dueDate: '2999-12-31',
+    });
+    expect(contract.details).toMatchObject({
+      type: 'contract',
+      tags: ['Versicherung', 'Auto'],
+      dueDate: '2999-12-31',
+    });
+    expect(contract.details.fields.amounts).toEqual([]);
+    expect((await update('missing.pdf', { tags: [] })).error).toContain(
+      'File not found',
+    );
+
+    const listed = await command.execute({
+      action: 'list-documents',
+      outputPath: scanDir,
+    });
+    const details = Object.fromEntries(
+      listed.documents.map((doc: any) => [doc.name, doc.details]),
+    );
+    expect(details['letter.pdf']).toBeNull();
+    expect(details[path.join('Strom', 'swm_20240105.pdf')]).toMatchObject({
+      type: 'invoice',
+      dueDate: '2024-01-31',
+    });
+
+    // The invoice is overdue, the contract is not due within 30 days
+    const due = await command.execute({
+      action: 'due-documents',
+      outputPath: scanDir,
+      days: 30,
+    });
+    expect(due).toMatchObject({ success: true, count: 1, overdue: 1 });
+    expect(due.documents[0]).toMatchObject({
+      name: path.join('Strom', 'swm_20240105.pdf'),
+      dueDate: '2024-01-31',
+      overdue: true,
+    });
+
+    await update(path.join('Strom', 'swm_20240105.pdf'), { done: true });
+    expect(
+      await command.execute({ action: 'due-documents', outputPath: scanDir }),
+    ).toMatchObject({ count: 0 });
+    expect(DocumentSidecar.isDue(contract.details, 0, '2999-12-31')).toBe(true);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for the duplicate finder: grouping by size and hash, hard links,
+ * keep rules and cleanup by deleting or hard linking
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DuplicateHelper } from '../commands/duplicate-helper.js';
+import { GarbageFinderCommand } from '../commands/garbage-finder-command.js';
+
+describe('Duplicate finder', () => {
+  let testDir: string;
+  let command: GarbageFinderCommand;
+
+  const write = (relativePath: string, content: string | Buffer, age = 0) => {
+    const fullPath = path.join(testDir, ...relativePath.split('/'));
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    const time = new Date(Date.now() - age * 1000);
+    fs.utimesSync(fullPath, time, time);
+    return fullPath;
+  };
+
+  const find = () =>
+    command.execute({ operation: 'find-duplicates', rootPath: testDir });
+
+  const groupPaths = (result: any) =>
+    result.groups.map((g: any) =>
+      g.files.map((f: any) => path.relative(testDir, f.path)).sort(),
+    );
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'duplicates-'));
+    command = new GarbageFinderCommand();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should group files with identical content and sum the wasted space', async () => {
+    write('a/photo.jpg', 'same content');
+    write('b/photo-copy.jpg', 'same content');
+    write('c/other.jpg', 'same-content'); // Same size, different content
+    write('empty1.txt', '');
+    write('empty2.txt', '');
+
+    const result = await find();
+
+    expect(result.success).toBe(true);
+    expect(groupPaths(result)).toEqual([
+      [path.join('a', 'photo.jpg'), path.join('b', 'photo-copy.jpg')],
+    ]);
+    expect(result.groups[0].size).toBe(12);
+    expect(result.wastedBytes).toBe(12);
+    expect(result.duplicateFiles).toBe(1);
+    expect(result.filesScanned).toBe(5);
+  });
+
+  it('should compare large files beyond the partial hash', async () => {
+    const big = Buffer.alloc(300 * 1024, 1);
+    write('one.bin', big);
+    write('two.bin', big);
+    const changed = Buffer.from(big);
+    changed[150 * 1024] = 2; // Differs only in the middle
+    write('three.bin', changed);
+
+    const progress: number[] = [];
+    command.setProgressCallback((_files, _bytes, _file, percentage) =>
+      progress.push(percentage),
+    );
+    const result = await find();
+
+    expect(groupPaths(result)).toEqual([['one.bin', 'two.bin']]);
+    expect(progress[progress.length - 1]).toBe(99);
+  });
+
+  it('should not report hard links of one file as duplicates', async () => {
+    const original = write('original.txt', 'linked');
+    fs.linkSync(original, path.join(testDir, 'link.txt'));
+
+    expect((await find()).groups).toEqual([]);
+  });
+
+  it('should plan which copies to keep', async () => {
+    const oldest = write('archive/report.pdf', 'report', 300);
+    const newest = write('inbox/report.pdf', 'report', 10);
+    const middle = write('tmp/report.pdf', 'report', 100);
+    const group = [oldest, newest, middle];
+
+    const newestPlan = await DuplicateHelper.planCleanup(
+      [group],
+      'keep-newest',
+    );
+    expect(newestPlan.items[0].keep).toEqual([newest]);
+    expect(newestPlan).toMatchObject({ files: 2, bytes: 12 });
+
+    const oldestPlan = await DuplicateHelper.planCleanup(
+      [group],
+      'keep-oldest',
+    );
+    expect(oldestPlan.items[0].keep).toEqual([oldest]);
+
+    const folderPlan = await DuplicateHelper.planCleanup(
+      [group, [newest, middle]],
+      'keep-in-folder',
+      path.join(testDir, 'archive'),
+    );
+    expect(folderPlan.items[0].remove).toEqual([newest, middle]);
+    // No copy inside the folder, nothing is removed
+    expect(folderPlan.skippedGroups).toBe(1);
+  });
+
+  it('should delete duplicates but leave changed files alone', async () => {
+    const keep = write('keep.txt', 'data', 0);
+    const copy = write('copy.txt', 'data', 50);
+    const changed = write('changed.txt', 'data', 60);
+    const groups = [[keep, copy, changed]];
+
+    const dryRun = await command.execute({
+      operation: 'clean-duplicates',
+      groups,
+      rule: 'keep-newest',
+      dryRun: true,
+    });
+    expect(dryRun.plan.items[0].remove).toEqual([copy, changed]);
+    expect(fs.existsSync(copy)).toBe(true);
+
+    // Changed after the scan, the modification time stays old
+    const { mtime } = fs.statSync(changed);
+    fs.writeFileSync(changed, 'DATA');
+    fs.utimesSync(changed, mtime, mtime);
+    const result = await command.execute({
+      operation: 'clean-duplicates',
+      groups,
+      rule: 'keep-newest',
+      action: 'delete',
+    });
+
+    expect(result).toMatchObject({ success: true, deleted: 1, freedBytes: 4 });
+    expect(result.errors).toEqual([
+      { path: changed, error: 'File changed since the scan' },
+    ]);
+    expect(fs.existsSync(keep)).toBe(true);
+    expect(fs.existsSync(copy)).toBe(false);
+    expect(fs.existsSync(changed)).toBe(true);
+  });
+
+  it('should replace duplicates with hard links', async () => {
+    const keep = write('keep.txt', 'shared', 0);
+    const copy = write('copy.txt', 'shared', 50);
+
+    const result = await command.execute({
+      operation: 'clean-duplicates',
+      groups: [[keep, copy]],
+      action: 'hardlink',
+    });
+
+    expect(result).toMatchObject({ success: true, linked: 1, freedBytes: 6 });
+    expect(fs.statSync(copy).ino).toBe(fs.statSync(keep).ino);
+    expect(fs.readFileSync(copy, 'utf-8')).toBe('shared');
+    expect(fs.readdirSync(testDir).sort()).toEqual(['copy.txt', 'keep.txt']);
+    expect((await find()).groups).toEqual([]);
+  });
+
+  it('should reject unknown rules', async () => {
+    const result = await command.execute({
+      operation: 'clean-duplicates',
+      groups: [],
+      rule: 'keep-biggest',
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Unknown keep rule: keep-biggest',
+    });
+  });
+});
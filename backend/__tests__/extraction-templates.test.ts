@@ -0,0 +1,184 @@
+/**
+ * Tests for the DocManager extraction templates: anchor and regex rules,
+ * conversion to dates, amounts and IBANs, sender scopes and the test bench
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { DocumentIndex } from '../commands/document-index.js';
+import {
+  ExtractionTemplate,
+  ExtractionTemplates,
+} from '../commands/extraction-templates.js';
+import { getOcrService } from '../commands/ocr-service.js';
+import { ScannerCommand } from '../commands/scanner-command.js';
+
+const POLICY = [
+  'Allianz Versicherungs AG',
+  'Versicherungsschein-Nr.: AS-4711/0815    Datum: 12.03.2024',
+  'Kundennummer',
+  '  98 765 432',
+  'Beitrag gesamt 1.234,56 EUR',
+  'Fällig am 01.04.2024',
+  'IBAN DE89 3704 0044 0532 0130 00 BIC COBADEFFXXX',
+  'Alte IBAN DE89 3704 0044 0532 0130 01',
+].join('\n');
+
+const ALLIANZ: ExtractionTemplate = {
+  name: 'Allianz',
+  sender: 'allianz',
+  fields: [
+    {
+      name: 'policy',
+      rule: 'anchor',
+      pattern: 'Versicherungsschein-Nr.',
+      type: 'text',
+    },
+    { name: 'customer', rule: 'anchor', pattern: 'kundennummer', type: 'text' },
+    {
+      name: 'premium',
+      rule: 'anchor',
+      pattern: 'Beitrag gesamt',
+      type: 'amount',
+    },
+    { name: 'due', rule: 'regex', pattern: 'fällig am (.+)', type: 'date' },
+    { name: 'iban', rule: 'anchor', pattern: 'IBAN', type: 'iban' },
+  ],
+};
+
+describe('ExtractionTemplates', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    getOcrService().setExtractionTemplates([]);
+  });
+
+  it('should find and convert the fields of a template', () => {
+    expect(
+      ExtractionTemplates.run(ALLIANZ, POLICY, ['Allianz Versicherungs AG']),
+    ).toEqual({
+      applies: true,
+      fields: [
+        { name: 'policy', raw: 'AS-4711/0815', value: 'AS-4711/0815' },
+        { name: 'customer', raw: '98 765 432', value: '98 765 432' },
+        { name: 'premium', raw: '1.234,56 EUR', value: 1234.56 },
+        { name: 'due', raw: '01.04.2024', value: '2024-04-01' },
+        {
+          name: 'iban',
+          raw: 'DE89 3704 0044 0532 0130 00 BIC COBADEFFXXX',
+          value: 'DE89370400440532013000',
+        },
+      ],
+    });
+
+    const checks: ExtractionTemplate = {
+      name: 'Checks',
+      fields: [
+        { name: 'old', rule: 'anchor', pattern: 'Alte IBAN', type: 'iban' },
+        { name: 'date', rule: 'anchor', pattern: 'Beitrag', type: 'date' },
+        { name: 'broken', rule: 'regex', pattern: '([a-z', type: 'text' },
+        { name: 'missing', rule: 'anchor', pattern: 'Vertrag', type: 'text' },
+      ],
+    };
+    expect(
+      ExtractionTemplates.run(checks, POLICY, []).fields.map(
+        (field) => field.error,
+      ),
+    ).toEqual([
+      'No IBAN with a valid checksum',
+      'No valid date',
+      expect.stringContaining('Invalid regular expression'),
+      'Not found',
+    ]);
+
+    // Other senders' templates are skipped, the first template wins
+    expect(
+      ExtractionTemplates.run(ALLIANZ, POLICY, ['HUK-COBURG']).applies,
+    ).toBe(false);
+    const override: ExtractionTemplate = {
+      name: 'Any',
+      fields: [
+        { name: 'policy', rule: 'regex', pattern: 'AS-\\d+', type: 'text' },
+      ],
+    };
+    expect(
+      ExtractionTemplates.apply([ALLIANZ, override], POLICY, ['HUK-COBURG']),
+    ).toEqual({ policy: 'AS-4711' });
+    expect(
+      ExtractionTemplates.apply([ALLIANZ, override], POLICY, ['Allianz']),
+    ).toMatchObject({ policy: 'AS-4711/0815', premium: 1234.56 });
+  });
+
+  it('should apply the templates of the preferences and test a template', async () => {
+    const config = new ConfigCommand(testDir);
+    await config.execute({
+      operation: 'write',
+      filename: 'user-preferences.json',
+      data: {
+        extractionTemplates: [
+          ALLIANZ,
+          {
+            name: 'Empty',
+            fields: [{ name: '', rule: 'anchor', pattern: 'x' }],
+          },
+        ],
+      },
+    });
+    expect(await new ExtractionTemplates(config).templates()).toEqual([
+      ALLIANZ,
+    ]);
+
+    const scanDir = path.join(testDir, 'Scans');
+    fs.mkdirSync(scanDir);
+    const policy = path.join(scanDir, 'allianz_20240312.pdf');
+    fs.writeFileSync(policy, 'pdf');
+    await new DocumentIndex(config).put(policy, {
+      text: POLICY,
+      analysis: { sender: 'Allianz Versicherungs AG', organizations: [] },
+    });
+
+    const command = new ScannerCommand(new ConfigCommand(testDir));
+    const test = await command.execute({
+      action: 'test-extraction',
+      outputPath: scanDir,
+      fileName: 'allianz_20240312.pdf',
+      template: JSON.stringify(ALLIANZ),
+    });
+    expect(test).toMatchObject({
+      success: true,
+      senders: ['Allianz Versicherungs AG'],
+      applies: true,
+    });
+    expect(test.fields[0].value).toBe('AS-4711/0815');
+    expect(
+      await command.execute({
+        action: 'test-extraction',
+        outputPath: scanDir,
+        fileName: 'missing.pdf',
+        template: JSON.stringify(ALLIANZ),
+      }),
+    ).toMatchObject({ success: false });
+
+    // The sidecar gets the fields the OCR analysis extracted with them
+    const updated = await command.execute({
+      action: 'update-details',
+      outputPath: scanDir,
+      fileName: 'allianz_20240312.pdf',
+      details: JSON.stringify({ tags: ['Haftpflicht'] }),
+    });
+    expect(updated.details.fields.custom).toEqual({
+      policy: 'AS-4711/0815',
+      customer: '98 765 432',
+      premium: 1234.56,
+      due: '2024-04-01',
+      iban: 'DE89370400440532013000',
+    });
+  });
+});
@@ -510,6 +510,188 @@ describe('FileOperationsCommand', () => {
     });
   });
 
+  describe('syncDirectories operation', () => {
+    const leftDir = path.join(testDir, 'sync-left');
+    const rightDir = path.join(testDir, 'sync-right');
+    const past = new Date('2024-01-01T00:00:00Z');
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(leftDir, 'sub'), { recursive: true });
+      fs.mkdirSync(rightDir, { recursive: true });
+
+      fs.writeFileSync(path.join(leftDir, 'new.txt'), 'new');
+      fs.writeFileSync(path.join(leftDir, 'sub', 'nested.txt'), 'nested');
+      fs.writeFileSync(path.join(leftDir, 'changed.txt'), 'left version');
+      fs.writeFileSync(path.join(rightDir, 'changed.txt'), 'old');
+      fs.utimesSync(path.join(rightDir, 'changed.txt'), past, past);
+      fs.writeFileSync(path.join(rightDir, 'extra.txt'), 'extra');
+      fs.writeFileSync(path.join(leftDir, 'debug.log'), 'log');
+    });
+
+    afterEach(() => {
+      fs.rmSync(leftDir, { recursive: true, force: true });
+      fs.rmSync(rightDir, { recursive: true, force: true });
+    });
+
+    it('should return a plan without changing files on dry run', async () => {
+      const result = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        mode: 'mirror',
+        exclude: '*.log',
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.dryRun).toBe(true);
+      expect(result.summary).toMatchObject({ mkdir: 1, copy: 3, delete: 1 });
+      expect(result.actions.map((a: any) => a.path)).not.toContain('debug.log');
+      expect(fs.existsSync(path.join(rightDir, 'new.txt'))).toBe(false);
+    });
+
+    it('should mirror left to right', async () => {
+      const result = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        mode: 'mirror',
+        exclude: ['*.log'],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.filesCopied).toBe(3);
+      expect(result.filesDeleted).toBe(1);
+      expect(result.bytesCopied).toBe(21);
+      expect(fs.readFileSync(path.join(rightDir, 'changed.txt'), 'utf-8')).toBe(
+        'left version',
+      );
+      expect(fs.existsSync(path.join(rightDir, 'sub', 'nested.txt'))).toBe(
+        true,
+      );
+      expect(fs.existsSync(path.join(rightDir, 'extra.txt'))).toBe(false);
+      expect(fs.existsSync(path.join(rightDir, 'debug.log'))).toBe(false);
+
+      // Copies keep the source mtime, so a second run has nothing to do
+      const second = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        mode: 'mirror',
+        exclude: ['*.log'],
+        dryRun: true,
+      });
+      expect(second.actions).toHaveLength(0);
+    });
+
+    it('should never overwrite newer files or delete in update-only mode', async () => {
+      fs.utimesSync(path.join(leftDir, 'changed.txt'), past, past);
+      fs.writeFileSync(path.join(rightDir, 'changed.txt'), 'newer on right');
+
+      const result = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        mode: 'update-only',
+        dryRun: true,
+      });
+
+      expect(result.summary.delete).toBe(0);
+      expect(result.actions.map((a: any) => a.path)).not.toContain(
+        'changed.txt',
+      );
+    });
+
+    it('should copy in both directions in two-way mode', async () => {
+      const result = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        mode: 'two-way',
+        compareBy: 'checksum',
+      });
+
+      expect(result.success).toBe(true);
+      expect(fs.existsSync(path.join(leftDir, 'extra.txt'))).toBe(true);
+      expect(fs.readFileSync(path.join(rightDir, 'changed.txt'), 'utf-8')).toBe(
+        'left version',
+      );
+    });
+
+    it('should apply a previously returned plan', async () => {
+      const plan = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        dryRun: true,
+      });
+      const onlyNew = plan.actions.filter((a: any) => a.path === 'new.txt');
+
+      const result = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        actions: onlyNew,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.actionsApplied).toBe(1);
+      expect(fs.existsSync(path.join(rightDir, 'new.txt'))).toBe(true);
+      expect(fs.existsSync(path.join(rightDir, 'extra.txt'))).toBe(true);
+    });
+
+    it('should reject plan actions outside of the synced directories', async () => {
+      const result = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        actions: [
+          {
+            type: 'delete',
+            direction: 'left-to-right',
+            path: 'x',
+            targetPath: path.join(testDir, 'elsewhere.txt'),
+            size: 0,
+            isDirectory: false,
+            reason: 'extraneous',
+          },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('outside of the synced directories');
+    });
+
+    it('should reject unknown modes', async () => {
+      const result = await command.execute({
+        operation: 'sync',
+        leftPath: leftDir,
+        rightPath: rightDir,
+        mode: 'backup',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('mode must be one of');
+    });
+
+    it('should reject folders on servers and in archives', async () => {
+      for (const rightPath of [
+        'sftp://host/backup',
+        path.join(testDir, 'backup.zip', 'docs'),
+      ]) {
+        const result = await command.execute({
+          operation: 'sync',
+          leftPath: leftDir,
+          rightPath,
+          dryRun: true,
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('only supported between local folders');
+      }
+    });
+  });
+
   describe('zipFiles operation', () => {
     it('should create ZIP file from files', async () => {
       const file1 = path.join(testDir, 'zip-file1.txt');
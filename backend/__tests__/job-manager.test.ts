@@ -0,0 +1,297 @@
+/**
+ * Tests for JobManager and job execution through CommandHandler
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandHandler } from '../command-handler.js';
+import { JobContext } from '../commands/command-interface.js';
+import { JobEvent, JobManager } from '../job-manager.js';
+
+describe('JobManager', () => {
+  let manager: JobManager;
+
+  beforeEach(() => {
+    manager = new JobManager();
+  });
+
+  it('should run a job and resolve with its result', async () => {
+    const job = manager.start('test', { operation: 'run' }, async () => ({
+      success: true,
+      value: 42,
+    }));
+
+    expect(job.id).toMatch(/^job-\d+-/);
+    expect(job.operation).toBe('run');
+    expect(job.status).toBe('running');
+
+    const result = await manager.wait(job.id);
+    expect(result.value).toBe(42);
+    expect(manager.get(job.id)?.status).toBe('completed');
+  });
+
+  it('should use a caller-provided job ID', () => {
+    const job = manager.start('test', {}, async () => ({}), 'my-job');
+    expect(job.id).toBe('my-job');
+  });
+
+  it('should stream progress events to subscribers', async () => {
+    const events: JobEvent[] = [];
+    manager.subscribe((event) => events.push(event));
+
+    const job = manager.start('test', {}, async (ctx: JobContext) => {
+      ctx.report({ current: 1, total: 2, percentage: 50 });
+      ctx.report({ current: 2, total: 2, percentage: 100 });
+      return { success: true };
+    });
+    await manager.wait(job.id);
+
+    const progress = events.filter((e) => e.type === 'progress');
+    expect(progress.map((e) => e.job.progress?.percentage)).toEqual([50, 100]);
+    expect(events[0].type).toBe('started');
+    expect(events[events.length - 1].job.status).toBe('completed');
+  });
+
+  it('should mark jobs with unsuccessful results as failed', async () => {
+    const job = manager.start('test', {}, async () => ({
+      success: false,
+      error: 'Nope',
+    }));
+    await manager.wait(job.id);
+
+    expect(manager.get(job.id)?.status).toBe('failed');
+    expect(manager.get(job.id)?.error).toBe('Nope');
+  });
+
+  it('should mark jobs that throw as failed', async () => {
+    const job = manager.start('test', {}, async () => {
+      throw new Error('Boom');
+    });
+
+    await expect(manager.wait(job.id)).rejects.toThrow('Boom');
+    expect(manager.get(job.id)?.status).toBe('failed');
+  });
+
+  it('should pause at checkpoints and continue after resume', async () => {
+    const steps: number[] = [];
+    let continueJob: () => void = () => {};
+    const started = new Promise<void>((resolve) => (continueJob = resolve));
+
+    const job = manager.start('test', {}, async (ctx: JobContext) => {
+      steps.push(1);
+      continueJob();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await ctx.checkpoint();
+      steps.push(2);
+      return { success: true };
+    });
+
+    await started;
+    expect(manager.pause(job.id)).toBe(true);
+    expect(manager.get(job.id)?.status).toBe('paused');
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(steps).toEqual([1]);
+
+    expect(manager.resume(job.id)).toBe(true);
+    await manager.wait(job.id);
+    expect(steps).toEqual([1, 2]);
+  });
+
+  it('should call cancel handlers and mark the job cancelled', async () => {
+    let cancelHandlerCalled = false;
+
+    const job = manager.start('test', {}, async (ctx: JobContext) => {
+      ctx.onCancel(() => (cancelHandlerCalled = true));
+      while (!ctx.cancelled) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      return { success: false, error: 'Operation cancelled', cancelled: true };
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(manager.cancel(job.id)).toBe(true);
+    await manager.wait(job.id);
+
+    expect(cancelHandlerCalled).toBe(true);
+    expect(manager.get(job.id)?.status).toBe('cancelled');
+  });
+
+  it('should wake up paused jobs when cancelled', async () => {
+    const job = manager.start('test', {}, async (ctx: JobContext) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await ctx.checkpoint();
+      return { success: !ctx.cancelled };
+    });
+
+    manager.pause(job.id);
+    manager.cancel(job.id);
+    await manager.wait(job.id);
+
+    expect(manager.get(job.id)?.status).toBe('cancelled');
+  });
+
+  it('should list running jobs before finished ones', async () => {
+    const finished = manager.start('test', {}, async () => ({}));
+    await manager.wait(finished.id);
+    const running = manager.start(
+      'test',
+      {},
+      () => new Promise((resolve) => setTimeout(resolve, 50)),
+    );
+
+    const jobs = manager.list();
+    expect(jobs[0].id).toBe(running.id);
+    expect(jobs[1].id).toBe(finished.id);
+    await manager.wait(running.id);
+  });
+
+  it('should keep only the job info once the result was returned', async () => {
+    const job = manager.start('test', {}, async () => ({
+      success: true,
+      value: 42,
+    }));
+    expect((await manager.wait(job.id)).value).toBe(42);
+
+    await expect(manager.wait(job.id)).rejects.toThrow('no longer kept');
+    expect(manager.get(job.id)?.status).toBe('completed');
+  });
+
+  it('should prune old finished jobs when jobs finish', async () => {
+    const first = manager.start('test', {}, async () => ({}));
+    await manager.wait(first.id);
+    for (let i = 0; i < 100; i++) {
+      await manager.wait(manager.start('test', {}, async () => ({})).id);
+    }
+
+    expect(manager.get(first.id)).toBeUndefined();
+    expect(manager.list()).toHaveLength(100);
+  });
+
+  it('should reject waiting for an unknown job', async () => {
+    await expect(manager.wait('missing')).rejects.toThrow(
+      'Unknown job: missing',
+    );
+  });
+});
+
+describe('CommandHandler jobs', () => {
+  let handler: CommandHandler;
+  let tempDir: string;
+
+  beforeEach(() => {
+    handler = new CommandHandler();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should throw for unknown commands', () => {
+    expect(() => handler.startJob('unknowncommand', {})).toThrow(
+      'Unknown command: unknowncommand',
+    );
+  });
+
+  it('should run a command as a job', async () => {
+    const job = handler.startJob('ping', {});
+    const result = await handler.waitForJob(job.id);
+
+    expect(result.result).toBe('Pong');
+    expect(handler.getJob(job.id)?.status).toBe('completed');
+  });
+
+  it('should report file-operations progress on the legacy channel', async () => {
+    const sourceDir = path.join(tempDir, 'source');
+    fs.mkdirSync(sourceDir);
+    fs.writeFileSync(path.join(sourceDir, 'a.txt'), 'a');
+    fs.writeFileSync(path.join(sourceDir, 'b.txt'), 'b');
+
+    const events: JobEvent[] = [];
+    handler.onJobEvent((event) => events.push(event));
+
+    const job = handler.startJob('file-operations', {
+      operation: 'directory-size',
+      dirPath: sourceDir,
+    });
+    const result = await handler.waitForJob(job.id);
+
+    expect(result.fileCount).toBe(2);
+    const progress = events.filter((e) => e.type === 'progress');
+    expect(progress.length).toBe(2);
+    expect(progress[1].job.progress?.channel).toBe('directory-size-progress');
+    expect(progress[1].job.progress?.data).toMatchObject({
+      current: 2,
+      totalSize: 2,
+    });
+  });
+
+  it('should cancel a file-operations job', async () => {
+    const sourceDir = path.join(tempDir, 'source');
+    fs.mkdirSync(sourceDir);
+    for (let i = 0; i < 20; i++) {
+      fs.writeFileSync(path.join(sourceDir, `file${i}.txt`), `content ${i}`);
+    }
+
+    const job = handler.startJob('file-operations', {
+      operation: 'copy',
+      sourcePath: sourceDir,
+      destinationPath: path.join(tempDir, 'dest'),
+    });
+
+    // copyDirectoryRecursive waits 50ms per file, so the job is still running
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    handler.cancelJob(job.id);
+    const result = await handler.waitForJob(job.id);
+
+    expect(result.success).toBe(false);
+    expect(handler.getJob(job.id)?.status).toBe('cancelled');
+    expect(fs.readdirSync(path.join(tempDir, 'dest')).length).toBeLessThan(20);
+  });
+
+  it('should keep progress and pause of concurrent file-operations jobs apart', async () => {
+    const sourceDir = path.join(tempDir, 'source');
+    fs.mkdirSync(sourceDir);
+    for (let i = 0; i < 10; i++) {
+      fs.writeFileSync(path.join(sourceDir, `file${i}.txt`), `content ${i}`);
+    }
+
+    const events: JobEvent[] = [];
+    handler.onJobEvent((event) => events.push(event));
+
+    const copy = handler.startJob(
+      'file-operations',
+      {
+        operation: 'copy',
+        sourcePath: sourceDir,
+        destinationPath: path.join(tempDir, 'dest'),
+      },
+      'copy-1',
+    );
+    await new Promise((resolve) => setTimeout(resolve, 80));
+
+    // A pane listing while the copy runs must not take over its state
+    const list = handler.startJob('file-operations', {
+      operation: 'list',
+      folderPath: tempDir,
+    });
+    await handler.waitForJob(list.id);
+    expect(handler.pauseJob(copy.id)).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const pausedCount = fs.readdirSync(path.join(tempDir, 'dest')).length;
+    expect(pausedCount).toBeLessThan(10);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(fs.readdirSync(path.join(tempDir, 'dest')).length).toBe(pausedCount);
+
+    handler.resumeJob(copy.id);
+    const result = await handler.waitForJob(copy.id);
+
+    expect(result.success).toBe(true);
+    const progress = events.filter((e) => e.type === 'progress');
+    expect(progress.every((e) => e.job.id === copy.id)).toBe(true);
+    expect(progress.length).toBe(10);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for the system metrics history: ring buffer file, recorder settings
+ * and downsampling into time range summaries
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { MetricsRecorder } from '../commands/metrics-recorder.js';
+import {
+  MetricsRingBuffer,
+  MetricsSample,
+} from '../commands/metrics-ring-buffer.js';
+
+const MINUTE_MS = 60 * 1000;
+
+const sample = (
+  time: number,
+  cpuPercent: number,
+  processes: Array<[string, number]> = [],
+): MetricsSample => ({
+  time,
+  cpuPercent,
+  memoryUsedMB: 4000,
+  memoryTotalMB: 16000,
+  diskIoMBps: null,
+  networkRxMBps: 1.5,
+  networkTxMBps: 0.25,
+  processes: processes.map(([name, cpu], i) => ({
+    pid: 100 + i,
+    name,
+    cpu,
+    memoryMB: 50,
+  })),
+});
+
+describe('Metrics history', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should overwrite the oldest samples once the buffer is full', async () => {
+    const filePath = path.join(testDir, 'history.bin');
+    const layout = { capacity: 3, processesPerSample: 2 };
+    const buffer = await MetricsRingBuffer.open(filePath, layout);
+    for (let i = 1; i <= 5; i++) {
+      await buffer.append(sample(i * 1000, i * 10, [['node', i]]));
+    }
+    await buffer.close();
+    const fileSize = fs.statSync(filePath).size;
+
+    const reopened = await MetricsRingBuffer.open(filePath, layout);
+    const samples = await reopened.readAll();
+
+    expect(samples.map((s) => s.time)).toEqual([3000, 4000, 5000]);
+    expect(samples[0]).toEqual(sample(3000, 30, [['node', 3]]));
+    expect(samples[0].diskIoMBps).toBeNull();
+    await reopened.append(sample(6000, 60));
+    expect(fs.statSync(filePath).size).toBe(fileSize);
+    await reopened.close();
+  });
+
+  it('should keep the newest samples when the layout changes', async () => {
+    const filePath = path.join(testDir, 'history.bin');
+    const buffer = await MetricsRingBuffer.open(filePath, {
+      capacity: 5,
+      processesPerSample: 1,
+    });
+    for (let i = 1; i <= 4; i++) {
+      await buffer.append(
+        sample(i * 1000, i, [['a-very-long-process-name'.repeat(3), 1]]),
+      );
+    }
+    await buffer.close();
+
+    const resized = await MetricsRingBuffer.open(filePath, {
+      capacity: 2,
+      processesPerSample: 3,
+    });
+    const samples = await resized.readAll();
+    await resized.close();
+
+    expect(samples.map((s) => s.time)).toEqual([3000, 4000]);
+    expect(samples[0].processes[0].name).toBe(
+      'a-very-long-process-name'.repeat(3).slice(0, 36),
+    );
+  });
+
+  it('should downsample samples into buckets with the busiest processes', () => {
+    const from = 0;
+    const to = 60 * MINUTE_MS;
+    const samples = [
+      sample(1 * MINUTE_MS, 10, [['chrome', 5]]),
+      sample(2 * MINUTE_MS, 30, [
+        ['chrome', 10],
+        ['chrome', 10],
+        ['backup', 15],
+      ]),
+      sample(40 * MINUTE_MS, 90, [['backup', 80]]),
+      sample(90 * MINUTE_MS, 100), // Outside of the range
+    ];
+
+    const history = MetricsRecorder.summarize(samples, from, to, 6);
+
+    expect(history.bucketMs).toBe(10 * MINUTE_MS);
+    expect(history.samples).toBe(3);
+    expect(
+      history.points.map((p) => [p.time, p.samples, p.cpuAvg, p.cpuMax]),
+    ).toEqual([
+      [0, 2, 20, 30],
+      [40 * MINUTE_MS, 1, 90, 90],
+    ]);
+    // Two chrome processes in one sample count together
+    expect(history.points[0].topProcesses.map((p) => p.name)).toEqual([
+      'chrome',
+      'backup',
+    ]);
+    expect(history.points[0].topProcesses[0]).toMatchObject({
+      cpuAvg: 12.5,
+      cpuMax: 20,
+      memoryMaxMB: 100,
+      samples: 2,
+    });
+    expect(history.topProcesses.map((p) => [p.name, p.cpuAvg])).toEqual([
+      ['backup', 95 / 3],
+      ['chrome', 25 / 3],
+    ]);
+  });
+
+  it('should record samples and remember whether it is enabled', async () => {
+    const config = new ConfigCommand(testDir);
+    let cpu = 0;
+    const sampler = async () => sample(Date.now(), (cpu += 10), [['node', 1]]);
+    const recorder = new MetricsRecorder(sampler, config);
+
+    const started = await recorder.start({ intervalSeconds: 3600 });
+    await recorder.recordSample();
+
+    expect(started).toMatchObject({
+      running: true,
+      samples: 1, // Sampled right away
+      capacity: 7 * 24,
+      settings: { enabled: true, intervalSeconds: 3600, retentionDays: 7 },
+    });
+    const history = await recorder.history('1h');
+    expect(history.samples).toBe(2);
+    expect(history.topProcesses[0]).toMatchObject({ name: 'node', cpuAvg: 1 });
+    await recorder.close();
+
+    const restarted = new MetricsRecorder(sampler, config);
+    expect(await restarted.resume()).toBe(true);
+    const stopped = await restarted.stop();
+    expect(stopped).toMatchObject({ running: false, samples: 3 });
+    await restarted.close();
+
+    const afterStop = new MetricsRecorder(sampler, config);
+    expect(await afterStop.resume()).toBe(false);
+    await afterStop.close();
+  });
+});
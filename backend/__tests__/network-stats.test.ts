@@ -0,0 +1,190 @@
+/**
+ * Tests for the network monitor: interface counters, rates and the
+ * connection lists of ss, lsof and netstat
+ */
+
+import { NetworkStats } from '../commands/network-stats.js';
+import { SystemMonitorCommand } from '../commands/system-monitor-command.js';
+
+const MB = 1024 * 1024;
+
+describe('NetworkStats', () => {
+  it('should read interface counters from /proc/net/dev', () => {
+    const content = [
+      'Inter-|   Receive                                                |  Transmit',
+      ' face |bytes    packets errs drop fifo frame compressed multicast|bytes    packets errs drop fifo colls carrier compressed',
+      '    lo:  1000      10    0    0    0     0          0         0     1000      10    0    0    0     0       0          0',
+      '  eth0: 5000000   4000    0    0    0     0          0         0   250000    2000    0    0    0     0       0          0',
+    ].join('\n');
+
+    expect(NetworkStats.parseProcNetDev(content)).toEqual([
+      { name: 'lo', rxBytes: 1000, txBytes: 1000 },
+      { name: 'eth0', rxBytes: 5000000, txBytes: 250000 },
+    ]);
+  });
+
+  it('should read the link level rows of netstat -ibn', () => {
+    const stdout = [
+      'Name       Mtu   Network       Address            Ipkts Ierrs     Ibytes    Opkts Oerrs     Obytes  Coll',
+      'lo0        16384 <Link#1>                         1200     0     640000     1200     0     640000     0',
+      'lo0        16384 127           127.0.0.1          1200     -     640000     1200     -     640000     -',
+      'en0        1500  <Link#4>    a4:83:e7:12:34:56  90000     0   98765432    65432     0    1234567     0',
+      'en0        1500  192.168.1     192.168.1.20      90000     -   98765432    65432     -    1234567     -',
+    ].join('\n');
+
+    expect(NetworkStats.parseNetstatInterfaces(stdout)).toEqual([
+      { name: 'lo0', rxBytes: 640000, txBytes: 640000 },
+      { name: 'en0', rxBytes: 98765432, txBytes: 1234567 },
+    ]);
+  });
+
+  it('should compute rates without loopback in the totals', () => {
+    const rates = NetworkStats.rates(
+      [
+        { name: 'lo', rxBytes: 0, txBytes: 0 },
+        { name: 'eth0', rxBytes: 10 * MB, txBytes: 5 * MB },
+        { name: 'wlan0', rxBytes: 8 * MB, txBytes: 0 },
+      ],
+      [
+        { name: 'lo', rxBytes: 100 * MB, txBytes: 100 * MB },
+        { name: 'eth0', rxBytes: 14 * MB, txBytes: 6 * MB },
+        // Restarted, counters went back
+        { name: 'wlan0', rxBytes: MB, txBytes: 0 },
+        { name: 'tun0', rxBytes: MB, txBytes: MB },
+      ],
+      2,
+    );
+
+    expect(rates.interfaces.map((i) => i.name)).toEqual([
+      'lo',
+      'eth0',
+      'wlan0',
+    ]);
+    expect(rates.interfaces[1]).toEqual({
+      name: 'eth0',
+      loopback: false,
+      rxMBps: 2,
+      txMBps: 0.5,
+      rxTotalMB: 14,
+      txTotalMB: 6,
+    });
+    expect(rates.interfaces[2]).toMatchObject({ rxMBps: 0, txMBps: 0 });
+    expect(rates.rxMBps).toBe(2);
+    expect(rates.txMBps).toBe(0.5);
+  });
+
+  it('should list ss connections without listening sockets', () => {
+    const stdout = [
+      'State  Recv-Q Send-Q   Local Address:Port    Peer Address:Port Process',
+      'LISTEN 0      128            0.0.0.0:22           0.0.0.0:*     users:(("sshd",pid=1,fd=3))',
+      'ESTAB  0      0          10.0.0.5:22         10.0.0.9:51234 users:(("sshd",pid=99,fd=4))',
+      'ESTAB  0      0     [::ffff:10.0.0.5]:443  [2001:db8::1]:60000',
+      'TIME-WAIT 0   0          10.0.0.5:40000    93.184.216.34:80',
+    ].join('\n');
+
+    expect(NetworkStats.parseSsConnections(stdout)).toEqual([
+      {
+        protocol: 'TCP',
+        localAddress: '10.0.0.5',
+        localPort: 22,
+        remoteAddress: '10.0.0.9',
+        remotePort: 51234,
+        state: 'ESTAB',
+        pid: 99,
+        processName: 'sshd',
+      },
+      {
+        protocol: 'TCP',
+        localAddress: '::ffff:10.0.0.5',
+        localPort: 443,
+        remoteAddress: '2001:db8::1',
+        remotePort: 60000,
+        state: 'ESTAB',
+        pid: 0,
+        processName: '',
+      },
+      expect.objectContaining({ state: 'TIME-WAIT', remotePort: 80 }),
+    ]);
+  });
+
+  it('should list lsof connections with their state', () => {
+    const stdout = [
+      'p512',
+      'cSafari',
+      'f23',
+      'n192.168.1.20:50000->17.253.144.10:443',
+      'TST=ESTABLISHED',
+      'TQR=0',
+      'f24',
+      'n[fe80::1]:50001->[fe80::2]:8080',
+      'TST=CLOSE_WAIT',
+      'p600',
+      'cnode',
+      'f30',
+      'n*:*',
+      'TST=CLOSED',
+    ].join('\n');
+
+    const connections = NetworkStats.parseLsofConnections(stdout);
+
+    expect(
+      connections.map((c) => [
+        c.pid,
+        c.processName,
+        c.remoteAddress,
+        c.remotePort,
+        c.state,
+      ]),
+    ).toEqual([
+      [512, 'Safari', '17.253.144.10', 443, 'ESTABLISHED'],
+      [512, 'Safari', 'fe80::2', 8080, 'CLOSE_WAIT'],
+    ]);
+  });
+
+  it('should list netstat connections with process names', () => {
+    const stdout = [
+      'Active Connections',
+      '',
+      '  Proto  Local Address          Foreign Address        State           PID',
+      '  TCP    0.0.0.0:135            0.0.0.0:0              LISTENING       1000',
+      '  TCP    192.168.1.20:50000     20.42.65.90:443        ESTABLISHED     4242',
+      '  TCP    [::1]:50001            [::1]:5432             HERGESTELLT     77',
+      '  UDP    0.0.0.0:123            *:*                                    900',
+    ].join('\r\n');
+
+    const connections = NetworkStats.parseNetstatConnections(
+      stdout,
+      new Map([[4242, 'chrome.exe']]),
+    );
+
+    expect(
+      connections.map((c) => [
+        c.remoteAddress,
+        c.remotePort,
+        c.state,
+        c.pid,
+        c.processName,
+      ]),
+    ).toEqual([
+      ['20.42.65.90', 443, 'ESTABLISHED', 4242, 'chrome.exe'],
+      ['::1', 5432, 'HERGESTELLT', 77, ''],
+    ]);
+  });
+});
+
+(process.platform === 'linux' ? describe : describe.skip)(
+  'SystemMonitorCommand network',
+  () => {
+    it('should return interface rates including loopback', async () => {
+      const result = await new SystemMonitorCommand().execute({
+        action: 'network',
+      });
+
+      expect(result.success).toBe(true);
+      expect(
+        result.network!.interfaces.some((i) => i.name === 'lo' && i.loopback),
+      ).toBe(true);
+      expect(Array.isArray(result.connections)).toBe(true);
+    });
+  },
+);
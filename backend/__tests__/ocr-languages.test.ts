@@ -0,0 +1,102 @@
+/**
+ * Tests for the OCR languages of DocManager: settings from the preferences,
+ * language packs of a folder and detecting the language of a page
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { OcrLanguages } from '../commands/ocr-languages.js';
+import { ScannerCommand } from '../commands/scanner-command.js';
+
+describe('OcrLanguages', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-languages-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should read the languages and list the language packs', async () => {
+    const config = new ConfigCommand(testDir);
+    expect(await new OcrLanguages(config).settings()).toEqual({
+      languages: ['deu', 'eng'],
+      autoDetect: false,
+      languagePath: '',
+    });
+
+    const packs = path.join(testDir, 'tessdata');
+    fs.mkdirSync(packs);
+    for (const name of [
+      'deu.traineddata',
+      'fra.traineddata.gz',
+      'chi_sim.traineddata',
+      'eng.traineddata.bak',
+    ]) {
+      fs.writeFileSync(path.join(packs, name), 'pack');
+    }
+    await config.execute({
+      operation: 'write',
+      filename: 'user-preferences.json',
+      data: {
+        ocrLanguages: ['deu', 'fra', '../etc', 3],
+        ocrAutoDetect: true,
+        ocrLanguagePath: ` ${packs} `,
+      },
+    });
+
+    const command = new ScannerCommand(config);
+    expect(await command.execute({ action: 'ocr-languages' })).toEqual({
+      success: true,
+      settings: {
+        languages: ['deu', 'fra'],
+        autoDetect: true,
+        languagePath: packs,
+      },
+      available: ['chi_sim', 'deu', 'fra'],
+    });
+    expect(
+      (
+        await command.execute({
+          action: 'ocr-languages',
+          languagePath: path.join(testDir, 'missing'),
+        })
+      ).available,
+    ).toEqual([]);
+    expect(OcrLanguages.packFile(packs, 'fra')).toBe(
+      path.join(packs, 'fra.traineddata.gz'),
+    );
+    expect(OcrLanguages.packFile(packs, 'eng')).toBeNull();
+  });
+
+  it('should detect the language of a page among the selected ones', () => {
+    const languages = ['deu', 'eng', 'fra'];
+    expect(
+      OcrLanguages.detect(
+        'Sehr geehrte Frau Müller, die Rechnung für den März ist beigefügt.',
+        languages,
+      ),
+    ).toBe('deu');
+    expect(
+      OcrLanguages.detect(
+        'Dear customer, please find the invoice for your order attached.',
+        languages,
+      ),
+    ).toBe('eng');
+    expect(
+      OcrLanguages.detect(
+        'Madame, veuillez trouver ci-joint votre facture pour le mois de mars.',
+        languages,
+      ),
+    ).toBe('fra');
+    // Not selected or too few words
+    expect(
+      OcrLanguages.detect('Madame, votre facture pour le mois', ['deu', 'eng']),
+    ).toBe('');
+    expect(OcrLanguages.detect('Rechnung 2024-0815', languages)).toBe('');
+  });
+});
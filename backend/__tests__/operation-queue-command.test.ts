@@ -0,0 +1,293 @@
+/**
+ * Tests for OperationQueueCommand
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { OperationQueueCommand } from '../commands/operation-queue-command.js';
+
+describe('OperationQueueCommand', () => {
+  let queue: OperationQueueCommand;
+  let tempDir: string;
+  let config: ConfigCommand;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'queue-test-'));
+    config = new ConfigCommand(path.join(tempDir, 'config'));
+    queue = new OperationQueueCommand(config);
+
+    fs.mkdirSync(path.join(tempDir, 'source'));
+    fs.mkdirSync(path.join(tempDir, 'dest'));
+    fs.writeFileSync(path.join(tempDir, 'source', 'a.txt'), 'a');
+    fs.writeFileSync(path.join(tempDir, 'source', 'b.txt'), 'b');
+  });
+
+  afterEach(async () => {
+    await queue.idle();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const source = (name: string) => path.join(tempDir, 'source', name);
+  const dest = (name: string) => path.join(tempDir, 'dest', name);
+
+  it('should reject unknown item types', async () => {
+    const result = await queue.execute({
+      operation: 'add',
+      type: 'format',
+      sourcePaths: [source('a.txt')],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('type must be one of');
+  });
+
+  it('should require a destination for copy', async () => {
+    const result = await queue.execute({
+      operation: 'add',
+      type: 'copy',
+      sourcePaths: [source('a.txt')],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('destinationPath is required for copy');
+  });
+
+  it('should run queued items in order', async () => {
+    await queue.execute({
+      operation: 'add',
+      type: 'copy',
+      sourcePaths: [source('a.txt'), source('b.txt')],
+      destinationPath: path.join(tempDir, 'dest'),
+    });
+    await queue.execute({
+      operation: 'add',
+      type: 'delete',
+      sourcePaths: [source('a.txt')],
+    });
+    await queue.idle();
+
+    const list = await queue.execute({ operation: 'list' });
+    expect(list.items.map((i: any) => i.status)).toEqual([
+      'completed',
+      'completed',
+    ]);
+    expect(fs.existsSync(dest('a.txt'))).toBe(true);
+    expect(fs.existsSync(dest('b.txt'))).toBe(true);
+    expect(fs.existsSync(source('a.txt'))).toBe(false);
+  });
+
+  it('should persist the queue and restore it in a new instance', async () => {
+    await queue.execute({ operation: 'pause' });
+    await queue.execute({
+      operation: 'add',
+      type: 'move',
+      sourcePaths: [source('a.txt')],
+      destinationPath: path.join(tempDir, 'dest'),
+    });
+
+    const restored = new OperationQueueCommand(config);
+    const list = await restored.execute({ operation: 'list' });
+    expect(list.paused).toBe(true);
+    expect(list.items).toHaveLength(1);
+    expect(list.items[0].status).toBe('queued');
+
+    await restored.execute({ operation: 'resume' });
+    await restored.idle();
+    expect(fs.existsSync(dest('a.txt'))).toBe(true);
+  });
+
+  it('should keep items added while the persisted queue is loading', async () => {
+    await queue.execute({ operation: 'pause' });
+    await queue.execute({
+      operation: 'add',
+      type: 'move',
+      sourcePaths: [source('a.txt')],
+      destinationPath: path.join(tempDir, 'dest'),
+    });
+
+    const restored = new OperationQueueCommand(config);
+    const [, added] = await Promise.all([
+      restored.execute({ operation: 'list' }),
+      restored.execute({
+        operation: 'add',
+        type: 'move',
+        sourcePaths: [source('b.txt')],
+        destinationPath: path.join(tempDir, 'dest'),
+      }),
+    ]);
+
+    const list = await restored.execute({ operation: 'list' });
+    expect(list.items).toHaveLength(2);
+    expect(list.items[1].id).toBe(added.item.id);
+  });
+
+  it('should reorder items', async () => {
+    await queue.execute({ operation: 'pause' });
+    const first = await queue.execute({
+      operation: 'add',
+      type: 'delete',
+      sourcePaths: [source('a.txt')],
+    });
+    const second = await queue.execute({
+      operation: 'add',
+      type: 'delete',
+      sourcePaths: [source('b.txt')],
+    });
+
+    await queue.execute({
+      operation: 'reorder',
+      id: second.item.id,
+      toIndex: 0,
+    });
+
+    const list = await queue.execute({ operation: 'list' });
+    expect(list.items.map((i: any) => i.id)).toEqual([
+      second.item.id,
+      first.item.id,
+    ]);
+  });
+
+  it('should fail on conflicts and succeed on retry with overwrite', async () => {
+    fs.writeFileSync(dest('a.txt'), 'old');
+
+    const added = await queue.execute({
+      operation: 'add',
+      type: 'copy',
+      sourcePaths: [source('a.txt')],
+      destinationPath: path.join(tempDir, 'dest'),
+    });
+    await queue.idle();
+
+    let list = await queue.execute({ operation: 'list' });
+    expect(list.items[0].status).toBe('failed');
+    expect(list.items[0].conflict).toBe(true);
+    expect(fs.readFileSync(dest('a.txt'), 'utf-8')).toBe('old');
+
+    await queue.execute({
+      operation: 'retry',
+      id: added.item.id,
+      overwrite: true,
+    });
+    await queue.idle();
+
+    list = await queue.execute({ operation: 'list' });
+    expect(list.items[0].status).toBe('completed');
+    expect(list.items[0].attempts).toBe(2);
+    expect(fs.readFileSync(dest('a.txt'), 'utf-8')).toBe('a');
+  });
+
+  it('should overwrite the files of a conflicting folder copy on retry', async () => {
+    fs.mkdirSync(dest('source'));
+    fs.writeFileSync(path.join(dest('source'), 'a.txt'), 'old');
+
+    const added = await queue.execute({
+      operation: 'add',
+      type: 'copy',
+      sourcePaths: [path.join(tempDir, 'source')],
+      destinationPath: path.join(tempDir, 'dest'),
+    });
+    await queue.idle();
+
+    let list = await queue.execute({ operation: 'list' });
+    expect(list.items[0].status).toBe('failed');
+
+    await queue.execute({
+      operation: 'retry',
+      id: added.item.id,
+      overwrite: true,
+    });
+    await queue.idle();
+
+    list = await queue.execute({ operation: 'list' });
+    expect(list.items[0].status).toBe('completed');
+    expect(fs.readFileSync(path.join(dest('source'), 'a.txt'), 'utf-8')).toBe(
+      'a',
+    );
+    expect(fs.readFileSync(path.join(dest('source'), 'b.txt'), 'utf-8')).toBe(
+      'b',
+    );
+  });
+
+  it('should retry only the sources a partial move left over', async () => {
+    fs.writeFileSync(dest('b.txt'), 'old');
+
+    const added = await queue.execute({
+      operation: 'add',
+      type: 'move',
+      sourcePaths: [source('a.txt'), source('b.txt')],
+      destinationPath: path.join(tempDir, 'dest'),
+    });
+    await queue.idle();
+
+    let list = await queue.execute({ operation: 'list' });
+    expect(list.items[0].status).toBe('failed');
+    expect(list.items[0].completedPaths).toEqual([source('a.txt')]);
+    expect(fs.existsSync(source('a.txt'))).toBe(false);
+
+    await queue.execute({
+      operation: 'retry',
+      id: added.item.id,
+      overwrite: true,
+    });
+    await queue.idle();
+
+    list = await queue.execute({ operation: 'list' });
+    expect(list.items[0].status).toBe('completed');
+    expect(fs.readFileSync(dest('a.txt'), 'utf-8')).toBe('a');
+    expect(fs.readFileSync(dest('b.txt'), 'utf-8')).toBe('b');
+  });
+
+  it('should create archives with the queued options but never store passwords', async () => {
+    const refused = await queue.execute({
+      operation: 'add',
+      type: 'zip',
+      sourcePaths: [source('a.txt')],
+      destinationPath: dest('a.zip'),
+      password: 'secret',
+    });
+    expect(refused.success).toBe(false);
+
+    const added = await queue.execute({
+      operation: 'add',
+      type: 'zip',
+      sourcePaths: [source('a.txt'), source('b.txt')],
+      destinationPath: dest('ab.tar.gz'),
+      format: 'tar.gz',
+      compressionLevel: 9,
+    });
+    await queue.idle();
+
+    expect(added.item.archiveOptions).toMatchObject({ format: 'tar.gz' });
+    const list = await queue.execute({ operation: 'list' });
+    expect(list.items[0].status).toBe('completed');
+    expect(fs.readFileSync(dest('ab.tar.gz'))[0]).toBe(0x1f); // gzip magic
+  });
+
+  it('should cancel queued items and clear finished ones', async () => {
+    await queue.execute({ operation: 'pause' });
+    const added = await queue.execute({
+      operation: 'add',
+      type: 'delete',
+      sourcePaths: [source('a.txt')],
+    });
+
+    const cancelled = await queue.execute({
+      operation: 'cancel',
+      id: added.item.id,
+    });
+    expect(cancelled.success).toBe(true);
+
+    const cleared = await queue.execute({ operation: 'clear-finished' });
+    expect(cleared.removed).toBe(1);
+    expect(fs.existsSync(source('a.txt'))).toBe(true);
+  });
+
+  it('should return an error for unknown item IDs', async () => {
+    const result = await queue.execute({ operation: 'retry', id: 'missing' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Queue item not found: missing');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for the PDF text layer: reading the page images of image-only PDFs
+ * and writing recognized words as invisible text
+ */
+
+import {
+  drawObject,
+  PDFArray,
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+  popGraphicsState,
+  pushGraphicsState,
+  scale,
+} from 'pdf-lib';
+import PDFKit from 'pdfkit';
+import * as zlib from 'zlib';
+import { PdfTextLayer } from '../commands/pdf-text-layer.js';
+
+const WIDTH = 40;
+const HEIGHT = 20;
+
+/** An image-only page as scanner software writes it: a gray image XObject */
+const imageOnlyPdf = async (): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([WIDTH * 2, HEIGHT * 2]);
+  const pixels = Buffer.alloc(WIDTH * HEIGHT, 255);
+  pixels.fill(0, 0, WIDTH); // A black first row
+  const image = pdf.context.flateStream(pixels, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: WIDTH,
+    Height: HEIGHT,
+    ColorSpace: 'DeviceGray',
+    BitsPerComponent: 8,
+  });
+  const name = page.node.newXObject('Im', pdf.context.register(image));
+  page.pushOperators(
+    pushGraphicsState(),
+    scale(WIDTH * 2, HEIGHT * 2),
+    drawObject(name),
+    popGraphicsState(),
+  );
+  return pdf.save();
+};
+
+/** A PDF with one page of the image, the way scans are finalized */
+const pdfkitPdf = (png: Buffer): Promise<Buffer> =>
+  new Promise((resolve) => {
+    const doc = new PDFKit({ size: [WIDTH, HEIGHT], margin: 0 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.image(png, 0, 0, { width: WIDTH, height: HEIGHT });
+    doc.end();
+  });
+
+describe('PdfTextLayer', () => {
+  it('should read the page images of image-only PDFs as PNG', async () => {
+    const [image] = await PdfTextLayer.pageImages(await imageOnlyPdf());
+
+    expect(image).toMatchObject({ width: WIDTH, height: HEIGHT });
+    const png = image!.data;
+    expect(png.subarray(1, 4).toString()).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(WIDTH);
+    expect(png.readUInt32BE(20)).toBe(HEIGHT);
+
+    // PDFKit stores the PNG rows with their filter bytes
+    const [again] = await PdfTextLayer.pageImages(await pdfkitPdf(png));
+    expect(again).toMatchObject({ width: WIDTH, height: HEIGHT });
+    expect(again!.data.subarray(0, 24)).toEqual(png.subarray(0, 24));
+  });
+
+  it('should add the words as invisible text scaled to the page', async () => {
+    const bytes = await PdfTextLayer.addTextLayer(await imageOnlyPdf(), [
+      {
+        imageWidth: WIDTH,
+        imageHeight: HEIGHT,
+        words: [
+          {
+            text: 'Größe€',
+            confidence: 91,
+            bbox: { x0: 2, y0: 4, x1: 30, y1: 14 },
+          },
+          {
+            text: 'Zero',
+            confidence: 50,
+            bbox: { x0: 5, y0: 5, x1: 5, y1: 9 },
+          },
+        ],
+      },
+    ]);
+
+    const pdf = await PDFDocument.load(bytes);
+    const page = pdf.getPage(0);
+    const contents = page.node.Contents() as PDFArray;
+    const layer = pdf.context.lookup(
+      contents.get(contents.size() - 1),
+    ) as PDFRawStream;
+    const operators = zlib.inflateSync(layer.contents).toString();
+
+    expect(operators).toContain('3 Tr');
+    // The 20 pixel high box on a page with twice the size of the image
+    expect(operators).toMatch(/\/Helvetica-\d+ 20 Tf/);
+    expect(operators).toContain('1 0 0 1 4 12 Tm');
+    expect(operators.match(/Tj/g)).toHaveLength(1);
+
+    // The text layer makes the page searchable, it is not recognized again
+    expect(page.node.Resources()!.lookup(PDFName.of('Font'))).toBeDefined();
+    expect(await PdfTextLayer.pageImages(bytes)).toEqual([null]);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tests for the process explorer: tree order, subtrees, reading /proc and
+ * sending signals to a process tree
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProcessInfo, ProcessTree } from '../commands/process-tree.js';
+import { SystemMonitorCommand } from '../commands/system-monitor-command.js';
+
+const proc = (
+  pid: number,
+  ppid: number,
+  startTime: string | null = null,
+): ProcessInfo => ({
+  pid,
+  ppid,
+  name: `p${pid}`,
+  command: `p${pid}`,
+  user: null,
+  cpu: 0,
+  memoryMB: 0,
+  threads: null,
+  startTime,
+});
+
+describe('ProcessTree', () => {
+  it('should order processes as a tree with depth and child count', () => {
+    const processes = [proc(30, 1), proc(1, 0), proc(20, 1), proc(21, 20)];
+
+    expect(
+      ProcessTree.flatten(processes).map((p) => [p.pid, p.depth, p.childCount]),
+    ).toEqual([
+      [1, 0, 2],
+      [20, 1, 1],
+      [21, 2, 0],
+      [30, 1, 0],
+    ]);
+    expect(ProcessTree.subtree(processes, 20)).toEqual([20, 21]);
+    expect(ProcessTree.subtree(processes, 1)).toEqual([1, 20, 21, 30]);
+  });
+
+  it('should not attach processes to a newer process with a reused parent id', () => {
+    const processes = [
+      proc(4, 0, '2026-01-01T00:00:00.000Z'),
+      proc(500, 4, '2026-01-02T00:00:00.000Z'),
+      // Parent 600 exited, its id now belongs to a younger process
+      proc(700, 600, '2026-01-03T00:00:00.000Z'),
+      proc(600, 4, '2026-01-04T00:00:00.000Z'),
+    ];
+
+    const tree = ProcessTree.flatten(processes);
+
+    expect(tree.find((p) => p.pid === 700)?.depth).toBe(0);
+    expect(ProcessTree.subtree(processes, 600)).toEqual([600]);
+  });
+
+  it('should list processes that point at each other', () => {
+    const tree = ProcessTree.flatten([proc(5, 6), proc(6, 5)]);
+
+    expect(tree.map((p) => p.pid).sort()).toEqual([5, 6]);
+  });
+
+  describe('reading /proc', () => {
+    let procRoot: string;
+
+    const writeProcess = (pid: number, files: Record<string, string>) => {
+      fs.mkdirSync(path.join(procRoot, String(pid)), { recursive: true });
+      for (const [name, content] of Object.entries(files)) {
+        fs.writeFileSync(path.join(procRoot, String(pid), name), content);
+      }
+    };
+
+    beforeEach(() => {
+      procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'proc-'));
+      fs.writeFileSync(path.join(procRoot, 'stat'), 'cpu 1 2 3\nbtime 1000\n');
+      fs.writeFileSync(
+        path.join(procRoot, 'passwd'),
+        'root:x:0:0::/root:/bin/sh\nalice:x:1000:1000::/home/alice:/bin/sh\n',
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(procRoot, { recursive: true, force: true });
+    });
+
+    it('should read processes with user, threads, memory, cpu and start time', async () => {
+      writeProcess(42, {
+        status:
+          'Name:\tmy app\nPPid:\t1\nUid:\t1000\t1000\t1000\t1000\nThreads:\t7\nVmRSS:\t  2048 kB\n',
+        // Start 100 s after boot, 50 s of CPU time
+        stat: '42 (my app) S 1 42 42 0 -1 4194304 0 0 0 0 3000 2000 0 0 20 0 7 0 10000 0',
+        cmdline: 'node\0server.js\0',
+      });
+      writeProcess(2, {
+        status: 'Name:\tkthreadd\nPPid:\t0\nUid:\t0\t0\t0\t0\nThreads:\t1\n',
+        stat: '2 (kthreadd) S 0 0 0 0 -1 0 0 0 0 0 0 0 0 0 20 0 1 0 1 0',
+      });
+
+      const processes = await ProcessTree.readLinux(
+        procRoot,
+        path.join(procRoot, 'passwd'),
+        (1000 + 200) * 1000,
+      );
+      processes.sort((a, b) => a.pid - b.pid);
+
+      expect(processes[0]).toMatchObject({
+        pid: 2,
+        command: '[kthreadd]',
+        user: 'root',
+        memoryMB: 0,
+      });
+      expect(processes[1]).toEqual({
+        pid: 42,
+        ppid: 1,
+        name: 'my app',
+        command: 'node server.js',
+        user: 'alice',
+        cpu: 50,
+        memoryMB: 2,
+        threads: 7,
+        startTime: new Date((1000 + 100) * 1000).toISOString(),
+      });
+    });
+
+    it('should read environment, working directory and open files', async () => {
+      writeProcess(42, { environ: 'HOME=/home/alice\0EMPTY=\0' });
+      const dir = path.join(procRoot, '42');
+      fs.symlinkSync('/home/alice/project', path.join(dir, 'cwd'));
+      fs.mkdirSync(path.join(dir, 'fd'));
+      fs.symlinkSync('/var/log/app.log', path.join(dir, 'fd', '3'));
+      fs.symlinkSync('/var/log/app.log', path.join(dir, 'fd', '4'));
+      fs.symlinkSync('socket:[1234]', path.join(dir, 'fd', '5'));
+
+      const details = await ProcessTree.readLinuxDetails(42, procRoot);
+
+      expect(details).toEqual({
+        cwd: '/home/alice/project',
+        environment: { HOME: '/home/alice', EMPTY: '' },
+        openFiles: ['/var/log/app.log'],
+      });
+      expect(await ProcessTree.readLinuxDetails(43, procRoot)).toEqual({
+        cwd: null,
+        environment: null,
+        openFiles: null,
+      });
+    });
+  });
+});
+
+(process.platform === 'linux' ? describe : describe.skip)(
+  'SystemMonitorCommand process explorer',
+  () => {
+    let command: SystemMonitorCommand;
+    let child: ChildProcess;
+
+    const state = (pid: number) =>
+      fs
+        .readFileSync(`/proc/${pid}/stat`, 'utf-8')
+        .split(') ')[1]
+        .split(' ')[0];
+
+    const waitFor = async (check: () => boolean) => {
+      for (let i = 0; i < 50 && !check(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return check();
+    };
+
+    beforeEach(() => {
+      command = new SystemMonitorCommand();
+      // A shell with a child of its own
+      child = spawn('sh', ['-c', 'sleep 30 & wait'], { stdio: 'ignore' });
+    });
+
+    afterEach(() => {
+      if (child.exitCode === null) child.kill('SIGKILL');
+    });
+
+    const grandchild = async () => {
+      let pid: number | undefined;
+      await waitFor(() => {
+        const children = fs
+          .readFileSync(
+            `/proc/${child.pid}/task/${child.pid}/children`,
+            'utf-8',
+          )
+          .trim();
+        pid = children ? Number(children.split(' ')[0]) : undefined;
+        return pid !== undefined;
+      });
+      return pid!;
+    };
+
+    it('should list the test process in the tree with its children', async () => {
+      const sleepPid = await grandchild();
+      const result = await command.execute({ action: 'process-tree' });
+
+      expect(result.success).toBe(true);
+      const shell = result.processes!.find((p) => p.pid === child.pid)!;
+      expect(shell).toMatchObject({ ppid: process.pid, childCount: 1 });
+      const index = result.processes!.indexOf(shell);
+      expect(result.processes![index + 1]).toMatchObject({
+        pid: sleepPid,
+        depth: shell.depth + 1,
+      });
+    });
+
+    it('should return the details of a process', async () => {
+      await grandchild();
+      const result = await command.execute({
+        action: 'process-details',
+        pid: process.pid,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.processDetails!.process.pid).toBe(process.pid);
+      expect(result.processDetails!.cwd).toBe(process.cwd());
+      expect(result.processDetails!.environment?.PATH).toBe(process.env.PATH);
+      expect(result.processDetails!.parents[0].pid).toBe(process.ppid);
+      expect(result.processDetails!.children).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should stop, continue and end a whole process tree', async () => {
+      const sleepPid = await grandchild();
+      const signal = (name: string) =>
+        command.execute({
+          action: 'signal-process',
+          pid: child.pid,
+          signal: name,
+          tree: true,
+        });
+
+      expect(await signal('SIGSTOP')).toMatchObject({
+        success: true,
+        signalled: [child.pid, sleepPid],
+      });
+      expect(await waitFor(() => state(sleepPid) === 'T')).toBe(true);
+
+      await signal('SIGCONT');
+      expect(await waitFor(() => state(sleepPid) !== 'T')).toBe(true);
+
+      await signal('SIGKILL');
+      expect(
+        await waitFor(
+          () => !fs.existsSync(`/proc/${sleepPid}`) || state(sleepPid) === 'Z',
+        ),
+      ).toBe(true);
+    });
+
+    it('should reject unknown signals and the init process', async () => {
+      expect(
+        await command.execute({
+          action: 'signal-process',
+          pid: child.pid,
+          signal: 'SIGHUP',
+        }),
+      ).toEqual({ success: false, error: 'Unknown signal: SIGHUP' });
+      expect(
+        await command.execute({ action: 'signal-process', pid: 1 }),
+      ).toEqual({ success: false, error: 'Invalid PID' });
+    });
+  },
+);
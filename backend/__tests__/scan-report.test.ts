@@ -0,0 +1,140 @@
+/**
+ * Tests for the garbage finder scan report: largest and stale files, age
+ * histogram and the breakdown by category and extension
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GarbageFinderCommand } from '../commands/garbage-finder-command.js';
+import { ScanReportBuilder } from '../commands/scan-report.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ScanReportBuilder', () => {
+  const root = path.join(os.tmpdir(), 'report-root');
+  const now = Date.UTC(2026, 0, 1);
+  const file = (relativePath: string) =>
+    path.join(root, ...relativePath.split('/'));
+
+  it('should keep the N largest files', () => {
+    const builder = new ScanReportBuilder(root, {
+      topN: 3,
+      staleDays: 1000,
+      now,
+    });
+    for (let i = 1; i <= 20; i++) {
+      builder.add(file(`file${i}.bin`), i * 100, now);
+    }
+
+    const report = builder.build();
+
+    expect(report.largestFiles.map((f) => f.size)).toEqual([2000, 1900, 1800]);
+    expect(report.totalFiles).toBe(20);
+    expect(report.totalBytes).toBe(21000);
+  });
+
+  it('should sort files into age buckets and list stale files', () => {
+    const builder = new ScanReportBuilder(root, {
+      topN: 10,
+      staleDays: 3 * 365,
+      now,
+    });
+    builder.add(file('new.txt'), 10, now - 5 * DAY_MS);
+    builder.add(file('year.txt'), 20, now - 400 * DAY_MS);
+    builder.add(file('old.txt'), 30, now - 4 * 365 * DAY_MS);
+    builder.add(file('ancient.txt'), 40, now - 10 * 365 * DAY_MS);
+
+    const report = builder.build();
+
+    expect(report.ageHistogram.map((b) => [b.label, b.files, b.bytes])).toEqual(
+      [
+        ['Last 30 days', 1, 10],
+        ['1-6 months', 0, 0],
+        ['6-12 months', 0, 0],
+        ['1-3 years', 1, 20],
+        ['3-5 years', 1, 30],
+        ['Older than 5 years', 1, 40],
+      ],
+    );
+    expect(report.staleFiles.map((f) => f.name)).toEqual([
+      'ancient.txt',
+      'old.txt',
+    ]);
+  });
+
+  it('should group files by category and extension', () => {
+    const builder = new ScanReportBuilder(root, {
+      topN: 10,
+      staleDays: 1000,
+      now,
+    });
+    builder.add(file('videos/holiday.MP4'), 5000, now);
+    builder.add(file('videos/party.mkv'), 3000, now);
+    builder.add(file('photos/cat.jpg'), 200, now);
+    builder.add(file('app/node_modules/lib/index.js'), 700, now);
+    builder.add(file('app/src/index.js'), 50, now);
+    builder.add(file('notes'), 5, now);
+
+    const report = builder.build();
+
+    expect(
+      report.categories.map((c) => [c.category, c.files, c.bytes]),
+    ).toEqual([
+      ['video', 2, 8000],
+      ['build', 1, 700],
+      ['images', 1, 200],
+      ['code', 1, 50],
+      ['other', 1, 5],
+    ]);
+    expect(report.extensions[0]).toEqual({
+      extension: '.mp4',
+      category: 'video',
+      files: 1,
+      bytes: 5000,
+    });
+    expect(
+      report.largestFiles.find((f) => f.name === 'index.js'),
+    ).toMatchObject({
+      category: 'build',
+    });
+  });
+});
+
+describe('GarbageFinderCommand scan report', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'garbage-report-'));
+    fs.mkdirSync(path.join(testDir, 'media'));
+    fs.writeFileSync(
+      path.join(testDir, 'media', 'clip.mp4'),
+      Buffer.alloc(4096),
+    );
+    fs.writeFileSync(path.join(testDir, 'readme.md'), 'hello');
+    const old = new Date(Date.now() - 4 * 365 * DAY_MS);
+    fs.utimesSync(path.join(testDir, 'readme.md'), old, old);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should return the report with the folder tree', async () => {
+    const result = await new GarbageFinderCommand().execute({
+      operation: 'scan',
+      rootPath: testDir,
+      topN: 1,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.tree[0].size).toBe(4101);
+    expect(result.report.largestFiles.map((f: any) => f.name)).toEqual([
+      'clip.mp4',
+    ]);
+    expect(result.report.staleFiles.map((f: any) => f.name)).toEqual([
+      'readme.md',
+    ]);
+    expect(result.report.staleDays).toBe(3 * 365);
+  });
+});
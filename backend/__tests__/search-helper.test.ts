@@ -0,0 +1,205 @@
+/**
+ * Tests for the file search: regex content matches, filters, excludes,
+ * streamed results and the persistent search index
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { FileOperationsCommand } from '../commands/file-operations-command.js';
+import { SearchHelper } from '../commands/search-helper.js';
+
+describe('File search', () => {
+  let testDir: string;
+  let root: string;
+  let command: FileOperationsCommand;
+
+  const write = (relativePath: string, content: string | Buffer) => {
+    const fullPath = path.join(root, ...relativePath.split('/'));
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const search = (params: any) =>
+    command.execute({
+      operation: 'search',
+      searchPath: root,
+      filenamePattern: '*',
+      recursive: true,
+      ...params,
+    });
+
+  const names = (result: any) =>
+    result.data.results.map((r: any) => r.name).sort();
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-tests-'));
+    root = path.join(testDir, 'project');
+    command = new FileOperationsCommand(
+      new ConfigCommand(path.join(testDir, 'config')),
+    );
+
+    write(
+      'src/app.ts',
+      'const a = 1;\nexport const TODO_one = a; // TODO_two\n',
+    );
+    write('src/util.js', 'function helper() {\n  return 42;\n}\n');
+    write('readme.md', '# Project\nSee TODO list\n');
+    write('node_modules/lib/index.js', 'TODO in a dependency');
+    write('.git/HEAD', 'ref: refs/heads/main');
+    write('logo.bin', Buffer.from([0x54, 0x4f, 0x44, 0x4f, 0x00, 0x01]));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report every regex match with line and column', async () => {
+    const result = await search({
+      contentText: 'TODO_\\w+',
+      regex: true,
+      caseSensitive: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(names(result)).toEqual(['app.ts']);
+    const [hit] = result.data.results;
+    expect(hit.matches.map((m: any) => [m.line, m.column, m.length])).toEqual([
+      [2, 14, 8],
+      [2, 31, 8],
+    ]);
+    expect(hit.matchLine).toBe(2);
+    expect(result.data.totalMatches).toBe(2);
+  });
+
+  it('should search any text file but skip binaries and excluded folders', async () => {
+    const result = await search({
+      contentText: 'todo',
+      exclude: 'node_modules, .git',
+    });
+
+    expect(names(result)).toEqual(['app.ts', 'readme.md']);
+  });
+
+  it('should reject invalid regular expressions', async () => {
+    const result = await search({ contentText: '(unclosed', regex: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid regular expression');
+  });
+
+  it('should filter by name patterns, type, size and date', async () => {
+    const old = new Date('2020-01-01T00:00:00Z');
+    fs.utimesSync(path.join(root, 'readme.md'), old, old);
+
+    expect(
+      names(await search({ filenamePattern: '*.ts; *.md', exclude: '.git' })),
+    ).toEqual(['app.ts', 'readme.md']);
+    expect(
+      names(await search({ fileType: 'directories', exclude: 'node_modules' })),
+    ).toEqual(['.git', 'src']);
+    expect(
+      names(
+        await search({ minSize: 30, maxSize: 60, exclude: 'node_modules' }),
+      ),
+    ).toEqual(['app.ts', 'util.js']);
+    expect(
+      names(await search({ fileType: 'files', modifiedBefore: '2021-01-01' })),
+    ).toEqual(['readme.md']);
+  });
+
+  it('should stream results while searching', async () => {
+    const source = {
+      list: async (dirPath: string) =>
+        fs.readdirSync(dirPath, { withFileTypes: true }).map((e) => ({
+          name: e.name,
+          path: path.join(dirPath, e.name),
+          isDirectory: e.isDirectory(),
+          isFile: e.isFile(),
+        })),
+      stat: async (filePath: string) => fs.statSync(filePath),
+      read: async (filePath: string) => fs.readFileSync(filePath),
+    };
+    const options = {
+      filenamePattern: '*.js',
+      contentText: '',
+      regex: false,
+      caseSensitive: false,
+      recursive: true,
+      type: 'all' as const,
+      exclude: [],
+      maxResults: 1,
+    };
+    const streamed: string[] = [];
+
+    const summary = await SearchHelper.search(
+      SearchHelper.walk(root, source, options),
+      source,
+      options,
+      {
+        onProgress: (progress) =>
+          streamed.push(...progress.results.map((r) => r.name)),
+      },
+    );
+
+    expect(summary.truncated).toBe(true);
+    expect(summary.results).toHaveLength(1);
+    expect(streamed).toEqual(summary.results.map((r) => r.name));
+  });
+
+  describe('search index', () => {
+    it('should build the index once and reuse it for subfolders', async () => {
+      const first = await search({ filenamePattern: '*.ts', useIndex: true });
+      expect(names(first)).toEqual(['app.ts']);
+      expect(first.data.index.root).toBe(root);
+
+      // Files added later are only found after a rebuild
+      write('src/late.ts', 'export {}');
+      const fromIndex = await search({
+        searchPath: path.join(root, 'src'),
+        filenamePattern: '*.ts',
+        useIndex: true,
+      });
+      expect(names(fromIndex)).toEqual(['app.ts']);
+      expect(fromIndex.data.index.root).toBe(root);
+      expect(fromIndex.data.results[0].path).toBe(
+        path.join(root, 'src', 'app.ts'),
+      );
+
+      const rebuilt = await search({
+        searchPath: path.join(root, 'src'),
+        filenamePattern: '*.ts',
+        useIndex: true,
+        rebuildIndex: true,
+      });
+      expect(names(rebuilt)).toEqual(['app.ts', 'late.ts']);
+    });
+
+    it('should apply excludes and content search to indexed entries', async () => {
+      const result = await search({
+        contentText: 'todo',
+        exclude: 'node_modules',
+        useIndex: true,
+      });
+      expect(names(result)).toEqual(['app.ts', 'readme.md']);
+    });
+
+    it('should list and delete indexes', async () => {
+      await search({ useIndex: true });
+
+      const listed = await command.execute({ operation: 'search-index' });
+      expect(listed.indexes.map((i: any) => i.root)).toEqual([root]);
+
+      const deleted = await command.execute({
+        operation: 'search-index',
+        action: 'delete',
+        searchPath: root,
+      });
+      expect(deleted.success).toBe(true);
+      expect(
+        (await command.execute({ operation: 'search-index' })).indexes,
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for KnownHosts: matching host keys against a known_hosts file and
+ * trusting new keys on first use
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KnownHosts } from '../commands/ssh-known-hosts.js';
+
+// ssh-keygen -t ed25519, fingerprint from ssh-keygen -lf
+const KEY =
+  'AAAAC3NzaC1lZDI1NTE5AAAAIOghZsLJEA7CB5xZZnH9QEpJ1fNI638E7GutMzgcYbTm';
+const FINGERPRINT = 'SHA256:DzsFb5kOyeey9JuRA/24DuvYMrGzM2gGajPUJ2QWkx4';
+const OTHER_KEY =
+  'AAAAC3NzaC1lZDI1NTE5AAAAIB3Yb0lI0Vd7X0c4eF4Sg9oZcS9v8o0kq1sJ0pD8nQ2a';
+
+describe('KnownHosts', () => {
+  let testDir: string;
+  let filePath: string;
+  const key = Buffer.from(KEY, 'base64');
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'known-hosts-'));
+    filePath = path.join(testDir, '.ssh', 'known_hosts');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should describe keys like OpenSSH', () => {
+    expect(KnownHosts.fingerprint(key)).toBe(FINGERPRINT);
+    expect(KnownHosts.keyType(key)).toBe('ssh-ed25519');
+    expect(KnownHosts.hostName('example.org', 22)).toBe('example.org');
+    expect(KnownHosts.hostName('example.org', 2222)).toBe('[example.org]:2222');
+  });
+
+  it('should match plain, hashed and wildcard host names', () => {
+    fs.mkdirSync(path.dirname(filePath));
+    fs.writeFileSync(
+      filePath,
+      [
+        '# comment',
+        `plain.example.org,192.0.2.1 ssh-ed25519 ${KEY}`,
+        `|1|0k/DBAZRD+GRS529bWr3hwNzt5k=|OVIQKDX+Tuv6pb/LgKAFr6QYQ8M= ssh-ed25519 ${KEY}`,
+        `*.lan,!nas.lan ssh-ed25519 ${KEY} comment`,
+        `[ported.example.org]:2222 ssh-ed25519 ${KEY}`,
+        `@cert-authority *.example.org ssh-ed25519 ${KEY}`,
+      ].join('\n'),
+    );
+    const hosts = new KnownHosts(filePath);
+
+    expect(hosts.check('plain.example.org', 22, key)).toBe('known');
+    expect(hosts.check('192.0.2.1', 22, key)).toBe('known');
+    expect(hosts.check('hashed.example.org', 22, key)).toBe('known');
+    expect(hosts.check('printer.lan', 22, key)).toBe('known');
+    expect(hosts.check('nas.lan', 22, key)).toBe('unknown');
+    expect(hosts.check('ported.example.org', 2222, key)).toBe('known');
+    expect(hosts.check('ported.example.org', 22, key)).toBe('unknown');
+    expect(hosts.check('other.example.org', 22, key)).toBe('unknown');
+  });
+
+  it('should report changed and revoked keys', () => {
+    fs.mkdirSync(path.dirname(filePath));
+    fs.writeFileSync(
+      filePath,
+      [
+        `changed.example.org ssh-ed25519 ${OTHER_KEY}`,
+        `rsa.example.org ssh-rsa ${OTHER_KEY}`,
+        `@revoked * ssh-ed25519 ${OTHER_KEY}`,
+      ].join('\n'),
+    );
+    const hosts = new KnownHosts(filePath);
+
+    expect(hosts.check('changed.example.org', 22, key)).toBe('changed');
+    // Only a known key of the same type makes a key a changed one
+    expect(hosts.check('rsa.example.org', 22, key)).toBe('unknown');
+    expect(
+      hosts.check('any.example.org', 22, Buffer.from(OTHER_KEY, 'base64')),
+    ).toBe('revoked');
+  });
+
+  it('should add trusted keys to a new file', () => {
+    const hosts = new KnownHosts(filePath);
+    expect(hosts.check('example.org', 2222, key)).toBe('unknown');
+
+    hosts.add('example.org', 2222, key);
+
+    expect(hosts.check('example.org', 2222, key)).toBe('known');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(
+      `[example.org]:2222 ssh-ed25519 ${KEY}\n`,
+    );
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for the MoneyFinder categories: rule matching, persisted rules and
+ * budgets and the category column of parsed statements
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Transaction } from '../commands/bank-transaction.js';
+import { ConfigCommand } from '../commands/config-command.js';
+import { ProficashCommand } from '../commands/proficash-command.js';
+import {
+  CategoryRule,
+  CategoryStore,
+  TransactionCategorizer,
+} from '../commands/transaction-categories.js';
+
+const txn = (changes: Partial<Transaction> = {}): Transaction => ({
+  account: 'DE11',
+  date: '01.02.2024',
+  amount: -10,
+  type: '',
+  counterpartyBank: '',
+  counterpartyAccount: '',
+  counterpartyName: '',
+  reference: '',
+  ...changes,
+});
+
+const rule = (changes: Partial<CategoryRule>): CategoryRule => ({
+  id: changes.category || 'rule',
+  enabled: true,
+  category: '',
+  field: 'any',
+  pattern: '',
+  regex: false,
+  amountMin: null,
+  amountMax: null,
+  ...changes,
+});
+
+describe('TransactionCategorizer', () => {
+  it('should use the first enabled rule that matches', () => {
+    const rules = [
+      rule({ category: 'off', pattern: 'rewe', enabled: false }),
+      rule({ category: 'groceries', field: 'name', pattern: 'REWE' }),
+      rule({ category: 'shopping', pattern: 'rewe' }),
+    ];
+
+    expect(
+      TransactionCategorizer.categorize(
+        txn({ counterpartyName: 'Rewe Markt GmbH' }),
+        rules,
+      ),
+    ).toBe('groceries');
+    expect(
+      TransactionCategorizer.categorize(
+        txn({ reference: 'REWE SAGT DANKE' }),
+        rules,
+      ),
+    ).toBe('shopping');
+    expect(TransactionCategorizer.categorize(txn(), rules)).toBe('');
+  });
+
+  it('should match IBANs without spaces, regular expressions and amounts', () => {
+    const iban = rule({
+      category: 'rent',
+      field: 'counterpartyAccount',
+      pattern: 'DE02 1203 0000 0000 2020 51',
+    });
+    const regex = rule({
+      category: 'insurance',
+      field: 'reference',
+      pattern: '^(HUK|Allianz)\\b',
+      regex: true,
+    });
+    const salary = rule({ category: 'salary', amountMin: 2000 });
+    const broken = rule({ category: 'broken', pattern: '(', regex: true });
+
+    expect(
+      TransactionCategorizer.matches(
+        txn({ counterpartyAccount: 'DE02120300000000202051' }),
+        iban,
+      ),
+    ).toBe(true);
+    expect(
+      TransactionCategorizer.matches(txn({ reference: 'allianz kfz' }), regex),
+    ).toBe(true);
+    expect(
+      TransactionCategorizer.matches(txn({ reference: 'not allianz' }), regex),
+    ).toBe(false);
+    expect(TransactionCategorizer.matches(txn({ amount: 3100 }), salary)).toBe(
+      true,
+    );
+    expect(TransactionCategorizer.matches(txn({ amount: 50 }), salary)).toBe(
+      false,
+    );
+    expect(
+      TransactionCategorizer.matches(txn({ reference: '(' }), broken),
+    ).toBe(false);
+  });
+});
+
+describe('CategoryStore', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'categories-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep rules and budgets and drop incomplete entries', async () => {
+    const store = new CategoryStore(new ConfigCommand(testDir));
+
+    const saved = await store.save({
+      rules: [
+        { category: ' rent ', pattern: 'Vermieter', amountMax: '' } as any,
+        { pattern: 'no category' } as any,
+      ],
+      budgets: { groceries: 400, rent: 0, '': 10 } as any,
+    });
+
+    expect(saved.rules).toEqual([
+      expect.objectContaining({
+        category: 'rent',
+        field: 'any',
+        pattern: 'Vermieter',
+        amountMin: null,
+        amountMax: null,
+      }),
+    ]);
+    expect(saved.budgets).toEqual({ groceries: 400 });
+
+    const reopened = new CategoryStore(new ConfigCommand(testDir));
+    await reopened.save({ budgets: { rent: 900 } });
+    expect(await reopened.load()).toEqual({
+      rules: saved.rules,
+      budgets: { rent: 900 },
+    });
+  });
+
+  it('should add the category column to parsed statements', async () => {
+    const command = new ProficashCommand(new ConfigCommand(testDir));
+    await command.execute({
+      action: 'categories-save',
+      rules: JSON.stringify([{ category: 'energy', pattern: 'stadtwerke' }]),
+    });
+    const filePath = path.join(testDir, 'umsaetze.sta');
+    fs.writeFileSync(
+      filePath,
+      [
+        ':20:STARTUMSE',
+        ':25:12345678/0123456789',
+        ':61:240102D50,00NDDTNONREF',
+        ':86:105?00LASTSCHRIFT?20Strom?32STADTWERKE',
+        ':61:240103C10,00NTRFNONREF',
+        ':86:Erstattung',
+        '-',
+      ].join('\n'),
+    );
+
+    const result = await command.execute({ filePath });
+
+    expect(result.headers[8]).toBe('category');
+    expect(result.rows.map((row: any[]) => row[8])).toEqual(['energy', '']);
+  });
+});
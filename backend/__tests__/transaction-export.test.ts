@@ -0,0 +1,137 @@
+/**
+ * Tests for the MoneyFinder export: CSV with delimiter and locale, XLSX
+ * workbooks with one sheet per year and the PDF report
+ */
+
+import AdmZip from 'adm-zip';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigCommand } from '../commands/config-command.js';
+import { ProficashCommand } from '../commands/proficash-command.js';
+import {
+  ExportOptions,
+  ExportTable,
+  TransactionExport,
+} from '../commands/transaction-export.js';
+
+const TABLE: ExportTable = {
+  headers: ['account', 'date', 'amount', 'name', 'reference', 'category'],
+  rows: [
+    ['DE11', '29.12.2023', -1250, 'Vermieter', 'Miete; Dezember', 'rent'],
+    ['DE11', '15.01.2024', 3100.5, 'Firma "X" GmbH', 'Gehalt', ''],
+    ['DE11', '31.01.2024', -19.99, 'Shop', 'Order <42> & more', ''],
+  ],
+};
+
+const options = (changes: Partial<ExportOptions> = {}): ExportOptions => ({
+  delimiter: ';',
+  locale: 'de',
+  title: 'Report',
+  filters: {},
+  ...changes,
+});
+
+describe('TransactionExport', () => {
+  it('should write CSV in the format of the locale', () => {
+    expect(TransactionExport.csv(TABLE, options()).split('\r\n')).toEqual([
+      'account;date;amount;name;reference;category',
+      'DE11;29.12.2023;-1250,00;Vermieter;"Miete; Dezember";rent',
+      'DE11;15.01.2024;3100,50;"Firma ""X"" GmbH";Gehalt;',
+      'DE11;31.01.2024;-19,99;Shop;Order <42> & more;',
+      '',
+    ]);
+
+    const lines = TransactionExport.csv(
+      TABLE,
+      options({ delimiter: ',', locale: 'en' }),
+    ).split('\r\n');
+    expect(lines[1]).toBe(
+      'DE11,12/29/2023,-1250.00,Vermieter,Miete; Dezember,rent',
+    );
+    expect(
+      TransactionExport.csv(TABLE, options({ locale: 'iso' })).split('\r\n')[3],
+    ).toContain(';2024-01-31;-19.99;');
+  });
+
+  it('should keep text cells from running as spreadsheet formulas', () => {
+    const table: ExportTable = {
+      headers: TABLE.headers,
+      rows: [
+        [
+          'DE11',
+          '02.02.2024',
+          -5,
+          '=HYPERLINK("http://x")',
+          '+49 30 1234',
+          '@home',
+        ],
+        ['DE11', '03.02.2024', 7.5, '-Shop', 'Order - 42', ''],
+      ],
+    };
+    expect(TransactionExport.csv(table, options()).split('\r\n')).toEqual([
+      'account;date;amount;name;reference;category',
+      `DE11;02.02.2024;-5,00;"'=HYPERLINK(""http://x"")";'+49 30 1234;'@home`,
+      "DE11;03.02.2024;7,50;'-Shop;Order - 42;",
+      '',
+    ]);
+  });
+
+  it('should write one XLSX sheet per year with numeric dates and amounts', () => {
+    const zip = new AdmZip(TransactionExport.xlsx(TABLE));
+    const read = (name: string) => zip.readAsText(name);
+
+    expect(read('xl/workbook.xml')).toContain('<sheet name="2023" sheetId="1"');
+    expect(read('xl/workbook.xml')).toContain('<sheet name="2024" sheetId="2"');
+
+    const sheet = read('xl/worksheets/sheet2.xml');
+    // 15.01.2024 is day 45306 after 30.12.1899
+    expect(sheet).toContain('<c r="B2" s="2"><v>45306</v></c>');
+    expect(sheet).toContain('<c r="C2" s="3"><v>3100.5</v></c>');
+    expect(sheet).toContain('Order &lt;42&gt; &amp; more');
+    expect(sheet).toContain('<f>SUM(C2:C3)</f><v>3080.51</v>');
+  });
+
+  it('should export the rows through the command', async () => {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-'));
+    try {
+      const command = new ProficashCommand(new ConfigCommand(testDir));
+      const csvPath = path.join(testDir, 'export.csv');
+      const pdfPath = path.join(testDir, 'report.pdf');
+
+      expect(
+        await command.execute({
+          action: 'export',
+          exportFormat: 'csv',
+          outputPath: csvPath,
+          headers: JSON.stringify(TABLE.headers),
+          rows: JSON.stringify(TABLE.rows),
+        }),
+      ).toMatchObject({ success: true, totalRows: 3 });
+      expect(fs.readFileSync(csvPath, 'utf-8')).toMatch(
+        /^\uFEFFaccount;date;amount/,
+      );
+
+      const pdf = await command.execute({
+        action: 'export',
+        exportFormat: 'pdf',
+        outputPath: pdfPath,
+        ...TABLE,
+        filters: { Category: 'rent' },
+      });
+      expect(pdf.success).toBe(true);
+      expect(fs.readFileSync(pdfPath).subarray(0, 5).toString()).toBe('%PDF-');
+
+      expect(
+        await command.execute({
+          action: 'export',
+          outputPath: csvPath,
+          ...TABLE,
+          exportFormat: 'ods',
+        }),
+      ).toMatchObject({ success: false });
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+});
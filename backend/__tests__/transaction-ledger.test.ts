@@ -0,0 +1,160 @@
+/**
+ * Tests for the MoneyFinder ledger: deduplication of overlapping statement
+ * files, persistence and the import of a folder
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Transaction } from '../commands/bank-transaction.js';
+import { ConfigCommand } from '../commands/config-command.js';
+import { ProficashCommand } from '../commands/proficash-command.js';
+import { TransactionLedger } from '../commands/transaction-ledger.js';
+
+const txn = (date: string, amount: number, reference: string): Transaction => ({
+  account: 'DE11',
+  date,
+  amount,
+  type: '',
+  counterpartyBank: '',
+  counterpartyAccount: 'DE02 1203 0000 0000 2020 51',
+  counterpartyName: 'Shop',
+  reference,
+});
+
+describe('TransactionLedger', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should skip transactions of overlapping files and keep repeated ones', async () => {
+    const ledger = new TransactionLedger(new ConfigCommand(testDir));
+    const coffee = txn('02.01.2024', -3.5, 'Coffee');
+
+    expect(
+      await ledger.add('/january.sta', 'mt940', [
+        txn('15.01.2024', -20, 'Books'),
+        coffee,
+        coffee,
+      ]),
+    ).toEqual({ added: 3, duplicates: 0 });
+    expect(
+      await ledger.add('/overlap.xml', 'camt.053', [
+        { ...coffee, counterpartyAccount: 'DE02120300000000202051' },
+        { ...coffee, reference: '  COFFEE ' },
+        coffee,
+        txn('01.02.2024', -8, 'Lunch'),
+      ]),
+    ).toEqual({ added: 2, duplicates: 2 });
+
+    // Importing a file again replaces its entries
+    expect(
+      await ledger.add('/overlap.xml', 'camt.053', [
+        txn('01.02.2024', -8, 'Lunch'),
+      ]),
+    ).toEqual({ added: 1, duplicates: 0 });
+
+    const reopened = await new TransactionLedger(
+      new ConfigCommand(testDir),
+    ).load();
+    expect(
+      reopened.entries.map((entry) => [entry.date, entry.sources]),
+    ).toEqual([
+      ['02.01.2024', ['/january.sta']],
+      ['02.01.2024', ['/january.sta']],
+      ['15.01.2024', ['/january.sta']],
+      ['01.02.2024', ['/overlap.xml']],
+    ]);
+    expect(reopened.sources.map((source) => source.path)).toEqual([
+      '/january.sta',
+      '/overlap.xml',
+    ]);
+
+    const removed = await ledger.removeSource('/january.sta');
+    expect(removed.entries).toHaveLength(1);
+    expect(removed.sources).toHaveLength(1);
+  });
+
+  it('should keep a booking until the last file listing it is removed', async () => {
+    const ledger = new TransactionLedger(new ConfigCommand(testDir));
+    const overlap = txn('31.01.2024', -42, 'Insurance');
+
+    await ledger.add('/jan.sta', 'mt940', [
+      txn('15.01.2024', -20, 'Books'),
+      overlap,
+    ]);
+    expect(
+      await ledger.add('/feb.sta', 'mt940', [
+        overlap,
+        txn('01.02.2024', -8, 'Lunch'),
+      ]),
+    ).toEqual({ added: 1, duplicates: 1 });
+
+    const removed = await ledger.removeSource('/jan.sta');
+    expect(removed.entries.map((entry) => [entry.date, entry.sources])).toEqual(
+      [
+        ['31.01.2024', ['/feb.sta']],
+        ['01.02.2024', ['/feb.sta']],
+      ],
+    );
+    expect((await ledger.removeSource('/feb.sta')).entries).toEqual([]);
+  });
+
+  it('should import the statement files of a folder', async () => {
+    const folder = path.join(testDir, 'statements');
+    fs.mkdirSync(path.join(folder, '2024'), { recursive: true });
+    const statement = (lines: string[]) =>
+      [':20:STARTUMSE', ':25:12345678/0123456789', ...lines, '-'].join('\n');
+    fs.writeFileSync(
+      path.join(folder, 'january.sta'),
+      statement([':61:240102D50,00NDDTNONREF', ':86:Strom']),
+    );
+    fs.writeFileSync(
+      path.join(folder, '2024', 'january-february.sta'),
+      statement([
+        ':61:240102D50,00NDDTNONREF',
+        ':86:Strom',
+        ':61:240201D12,00NDDTNONREF',
+        ':86:Wasser',
+      ]),
+    );
+    fs.writeFileSync(path.join(folder, 'notes.txt'), 'no statement');
+    fs.writeFileSync(path.join(folder, 'scan.pdf'), 'ignored');
+
+    const command = new ProficashCommand(new ConfigCommand(testDir));
+    const result = await command.execute({ action: 'ledger-import', folder });
+
+    expect(result.imported).toEqual([
+      {
+        filePath: path.join(folder, '2024', 'january-february.sta'),
+        format: 'mt940',
+        added: 2,
+        duplicates: 0,
+      },
+      {
+        filePath: path.join(folder, 'january.sta'),
+        format: 'mt940',
+        added: 0,
+        duplicates: 1,
+      },
+      {
+        filePath: path.join(folder, 'notes.txt'),
+        error: expect.stringContaining('Unsupported'),
+      },
+    ]);
+    expect(result.headers.slice(-2)).toEqual(['category', 'source']);
+    expect(result.summary).toMatchObject({ totalRows: 2, sum: -62 });
+
+    const ledger = await command.execute({ action: 'ledger' });
+    expect(ledger.rows.map((row: any[]) => row[7])).toEqual([
+      'Strom',
+      'Wasser',
+    ]);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Tests for the virtual file system (local and ZIP providers, cross-provider copy)
+ */
+
+import AdmZip from 'adm-zip';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileOperationsCommand } from '../commands/file-operations-command.js';
+import { LocalProvider } from '../commands/vfs-local-provider.js';
+import { VirtualFileSystem } from '../commands/vfs.js';
+
+describe('VirtualFileSystem', () => {
+  let vfs: VirtualFileSystem;
+  let testDir: string;
+  let zipPath: string;
+
+  const readZipEntry = (zipFile: string, entry: string) =>
+    new AdmZip(zipFile).readAsText(entry);
+
+  beforeEach(() => {
+    ({ vfs } = VirtualFileSystem.createDefault(async () => ({
+      success: false,
+      error: 'SMB is not available in tests',
+    })));
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vfs-tests-'));
+
+    // archive.zip contains docs/readme.txt and inner.zip with a.txt
+    const inner = new AdmZip();
+    inner.addFile('a.txt', Buffer.from('inner a'));
+    const outer = new AdmZip();
+    outer.addFile('docs/readme.txt', Buffer.from('readme'));
+    outer.addFile('inner.zip', inner.toBuffer());
+    zipPath = path.join(testDir, 'archive.zip');
+    outer.writeZip(zipPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('resolve', () => {
+    it('should pick the provider by path', () => {
+      expect(vfs.schemeOf(testDir)).toBe('local');
+      expect(vfs.schemeOf(zipPath)).toBe('local');
+      expect(vfs.schemeOf(`${zipPath}/docs`)).toBe('archive');
+      expect(vfs.schemeOf('ftp://user@host/dir')).toBe('ftp');
+      expect(vfs.schemeOf('sftp://user@host/dir')).toBe('sftp');
+      expect(vfs.schemeOf('\\\\server\\share\\dir')).toBe('smb');
+    });
+  });
+
+  describe('ZIP provider', () => {
+    it('should list a ZIP file like a folder', async () => {
+      const listing = await vfs.list(zipPath);
+
+      expect(listing.scheme).toBe('archive');
+      const names = listing.entries.map((e) => e.name).sort();
+      expect(names).toEqual(['docs', 'inner.zip']);
+      const inner = listing.entries.find((e) => e.name === 'inner.zip');
+      expect(inner?.isDirectory).toBe(true);
+      expect(inner?.isArchive).toBe(true);
+    });
+
+    it('should list and read nested ZIPs', async () => {
+      const listing = await vfs.list(`${zipPath}/inner.zip`);
+      expect(listing.entries.map((e) => e.name)).toEqual(['a.txt']);
+
+      const content = await vfs.read(`${zipPath}/inner.zip/a.txt`);
+      expect(content.toString()).toBe('inner a');
+    });
+
+    it('should stat files and implied directories', async () => {
+      const file = await vfs.stat(`${zipPath}/docs/readme.txt`);
+      expect(file?.isFile).toBe(true);
+      expect(file?.size).toBe(6);
+
+      const dir = await vfs.stat(`${zipPath}/docs`);
+      expect(dir?.isDirectory).toBe(true);
+
+      expect(await vfs.stat(`${zipPath}/missing.txt`)).toBeNull();
+    });
+
+    it('should write into nested ZIPs and update the parent', async () => {
+      await vfs.write(`${zipPath}/inner.zip/b.txt`, Buffer.from('new b'));
+
+      const inner = new AdmZip(
+        new AdmZip(zipPath).readFile('inner.zip') as Buffer,
+      );
+      expect(inner.readAsText('b.txt')).toBe('new b');
+      expect(inner.readAsText('a.txt')).toBe('inner a');
+    });
+
+    it('should rename and delete entries', async () => {
+      await vfs.rename(`${zipPath}/docs`, `${zipPath}/manuals`);
+      expect(readZipEntry(zipPath, 'manuals/readme.txt')).toBe('readme');
+      expect(await vfs.exists(`${zipPath}/docs`)).toBe(false);
+
+      await vfs.delete(`${zipPath}/manuals`);
+      expect(await vfs.exists(`${zipPath}/manuals/readme.txt`)).toBe(false);
+    });
+  });
+
+  describe('copy', () => {
+    it('should copy a local directory into a ZIP', async () => {
+      const source = path.join(testDir, 'src');
+      fs.mkdirSync(path.join(source, 'sub'), { recursive: true });
+      fs.writeFileSync(path.join(source, 'one.txt'), '1');
+      fs.writeFileSync(path.join(source, 'sub', 'two.txt'), '2');
+
+      const result = await vfs.copy(source, `${zipPath}/src`);
+
+      expect(result.filesCopied).toBe(2);
+      expect(readZipEntry(zipPath, 'src/one.txt')).toBe('1');
+      expect(readZipEntry(zipPath, 'src/sub/two.txt')).toBe('2');
+    });
+
+    it('should copy from a nested ZIP to disk', async () => {
+      const target = path.join(testDir, 'out');
+
+      await vfs.copy(`${zipPath}/inner.zip`, path.join(testDir, 'copy.zip'));
+      await vfs.copy(`${zipPath}/docs`, target);
+
+      expect(fs.readFileSync(path.join(target, 'readme.txt'), 'utf-8')).toBe(
+        'readme',
+      );
+      expect(
+        new AdmZip(path.join(testDir, 'copy.zip')).readAsText('a.txt'),
+      ).toBe('inner a');
+    });
+
+    it('should skip existing files unless overwrite allows it', async () => {
+      const target = path.join(testDir, 'readme.txt');
+      fs.writeFileSync(target, 'old');
+
+      const skipped = await vfs.copy(`${zipPath}/docs/readme.txt`, target);
+      expect(skipped.filesSkipped).toBe(1);
+      expect(fs.readFileSync(target, 'utf-8')).toBe('old');
+
+      await vfs.copy(`${zipPath}/docs/readme.txt`, target, {
+        overwrite: () => true,
+      });
+      expect(fs.readFileSync(target, 'utf-8')).toBe('readme');
+    });
+
+    it('should stream files between providers and report the bytes', async () => {
+      // A second disk provider, so the copy streams instead of using copyFile
+      const otherDir = path.join(testDir, 'other');
+      class OtherDisk extends LocalProvider {
+        handles(filePath = ''): boolean {
+          return filePath.startsWith(otherDir);
+        }
+      }
+      const disks = new VirtualFileSystem([
+        new OtherDisk(),
+        new LocalProvider(),
+      ]);
+      const data = crypto.randomBytes(200 * 1024);
+      const source = path.join(testDir, 'big.bin');
+      fs.writeFileSync(source, data);
+
+      const chunks: number[] = [];
+      const result = await disks.copy(source, path.join(otherDir, 'big.bin'), {
+        onBytes: (bytes) => chunks.push(bytes),
+      });
+
+      expect(result.bytesCopied).toBe(data.length);
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.reduce((sum, bytes) => sum + bytes, 0)).toBe(data.length);
+      expect(fs.readFileSync(path.join(otherDir, 'big.bin'))).toEqual(data);
+
+      // Cancelled after the first chunk, the partial file is removed
+      let checkpoints = 0;
+      await expect(
+        disks.copy(source, path.join(otherDir, 'cancelled.bin'), {
+          checkpoint: async () => {
+            if (++checkpoints > 2) throw new Error('Operation cancelled');
+          },
+        }),
+      ).rejects.toThrow('Operation cancelled');
+      expect(fs.existsSync(path.join(otherDir, 'cancelled.bin'))).toBe(false);
+    });
+  });
+
+  describe('file operations on VFS paths', () => {
+    let command: FileOperationsCommand;
+
+    beforeEach(() => {
+      command = new FileOperationsCommand();
+    });
+
+    it('should prompt for conflicts when copying a folder into a ZIP', async () => {
+      const source = path.join(testDir, 'docs');
+      fs.mkdirSync(source);
+      fs.writeFileSync(path.join(source, 'readme.txt'), 'changed');
+      fs.writeFileSync(path.join(source, 'new.txt'), 'new');
+
+      const prompt = await command.execute({
+        operation: 'copy',
+        sourcePath: source,
+        destinationPath: `${zipPath}/docs`,
+      });
+      expect(prompt.prompt).toBe('conflicts');
+      expect(prompt.conflicts).toEqual(['readme.txt']);
+
+      const result = await command.execute({
+        operation: 'copy',
+        sourcePath: source,
+        destinationPath: `${zipPath}/docs`,
+        overwriteFiles: [],
+      });
+      expect(result.success).toBe(true);
+      expect(readZipEntry(zipPath, 'docs/readme.txt')).toBe('readme');
+      expect(readZipEntry(zipPath, 'docs/new.txt')).toBe('new');
+    });
+
+    it('should move files out of a ZIP', async () => {
+      const target = path.join(testDir, 'moved.txt');
+
+      const result = await command.execute({
+        operation: 'move',
+        sourcePath: `${zipPath}/docs/readme.txt`,
+        destinationPath: target,
+      });
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(target, 'utf-8')).toBe('readme');
+      expect(new AdmZip(zipPath).getEntry('docs/readme.txt')).toBeNull();
+    });
+
+    it('should write, read and rename files inside a ZIP', async () => {
+      const filePath = `${zipPath}/docs/notes.txt`;
+
+      const written = await command.execute({
+        operation: 'write-file',
+        filePath,
+        content: 'hello zip',
+      });
+      expect(written.success).toBe(true);
+
+      const read = await command.execute({ operation: 'read', filePath });
+      expect(read.content).toBe('hello zip');
+
+      const renamed = await command.execute({
+        operation: 'rename',
+        sourcePath: filePath,
+        destinationPath: 'renamed.txt',
+      });
+      expect(renamed.destination).toBe(`${zipPath}/docs/renamed.txt`);
+      expect(readZipEntry(zipPath, 'docs/renamed.txt')).toBe('hello zip');
+    });
+
+    it('should compare a ZIP folder with a local folder', async () => {
+      const local = path.join(testDir, 'docs');
+      fs.mkdirSync(local);
+      fs.writeFileSync(path.join(local, 'readme.txt'), 'readme');
+      fs.writeFileSync(path.join(local, 'extra.txt'), 'extra');
+
+      const result = await command.execute({
+        operation: 'compare',
+        leftPath: `${zipPath}/docs`,
+        rightPath: local,
+        recursive: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.summary.identical).toBe(1);
+      expect(result.onlyInRight.map((f: any) => f.path)).toEqual(['extra.txt']);
+    });
+  });
+});
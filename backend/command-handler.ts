@@ -3,22 +3,27 @@
  * Central registry for all CLI commands/tools
  */
 
+import { JobContext } from './commands/command-interface.js';
 import { CommandRegistry } from './commands/command-registry.js';
+import { JobEventListener, JobInfo, JobManager } from './job-manager.js';
 
 export class CommandHandler {
   private registry: CommandRegistry;
+  private jobs: JobManager;
 
   constructor() {
     this.registry = new CommandRegistry();
+    this.jobs = new JobManager();
   }
 
   /**
    * Execute a command by toolname with given params
    * @param toolname - The name of the tool/command to execute
    * @param params - Parameters for the command (can be string, object, array)
+   * @param job - Optional job context for progress, cancel and pause
    * @returns Command execution result
    */
-  async execute(toolname: string, params: any): Promise<any> {
+  async execute(toolname: string, params: any, job?: JobContext): Promise<any> {
     const command = this.registry.getCommand(toolname);
 
     if (!command) {
@@ -26,7 +31,69 @@ export class CommandHandler {
     }
 
     // Execute command and return result
-    return await command.execute(params);
+    return await command.execute(params, job);
+  }
+
+  /**
+   * Start a command as a background job
+   * @param toolname - The name of the tool/command to execute
+   * @param params - Parameters for the command
+   * @param jobId - Optional caller-provided job ID
+   * @returns Snapshot of the started job (use waitForJob to get the result)
+   */
+  startJob(toolname: string, params: any, jobId?: string): JobInfo {
+    if (!this.registry.getCommand(toolname)) {
+      throw new Error(`Unknown command: ${toolname}`);
+    }
+
+    return this.jobs.start(
+      toolname,
+      params,
+      (job) => this.execute(toolname, params, job),
+      jobId,
+    );
+  }
+
+  /**
+   * Wait for a job to finish and return the command result. The result is
+   * only passed to callers that wait before the job has finished.
+   */
+  waitForJob(jobId: string): Promise<any> {
+    return this.jobs.wait(jobId);
+  }
+
+  /**
+   * Get a job by ID
+   */
+  getJob(jobId: string): JobInfo | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Get list of all known jobs
+   */
+  listJobs(): JobInfo[] {
+    return this.jobs.list();
+  }
+
+  cancelJob(jobId: string): boolean {
+    return this.jobs.cancel(jobId);
+  }
+
+  pauseJob(jobId: string): boolean {
+    return this.jobs.pause(jobId);
+  }
+
+  resumeJob(jobId: string): boolean {
+    return this.jobs.resume(jobId);
+  }
+
+  /**
+   * Subscribe to job events (started, progress, status)
+   * @returns Function that removes the listener
+   */
+  onJobEvent(listener: JobEventListener): () => void {
+    return this.jobs.subscribe(listener);
   }
 
   /**
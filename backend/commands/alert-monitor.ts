@@ -0,0 +1,433 @@
+/**
+ * Alert Monitor
+ * Checks system resources against user defined rules at a fixed interval
+ * (free disk space, process CPU, memory usage, opened and closed ports),
+ * keeps a log of the alerts in ~/n2htoolbox/ and passes new alerts to
+ * listeners, e.g. the Electron main process for desktop notifications.
+ */
+
+import { ConfigCommand } from './config-command.js';
+
+export type AlertRuleType = 'disk-free' | 'process-cpu' | 'memory' | 'port';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'disk-free',
+  'process-cpu',
+  'memory',
+  'port',
+];
+
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  threshold: number; // GB free for disks, percent for CPU and memory, unused for ports
+  minutes: number; // How long the condition has to last, 0 alerts on the first check
+  target: string; // Drive, process name or port number, empty for all
+}
+
+export interface AlertSettings {
+  enabled: boolean;
+  intervalSeconds: number;
+  rules: AlertRule[];
+}
+
+export interface AlertStatus {
+  settings: AlertSettings;
+  running: boolean;
+  lastCheck: string | null;
+  lastError: string | null;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  type: AlertRuleType;
+  time: string; // ISO date
+  title: string;
+  message: string;
+}
+
+export interface ResourceSnapshot {
+  time: number; // Epoch milliseconds
+  drives: Array<{ drive: string; freeGB: number; totalGB: number }>;
+  memoryUsedPercent: number | null;
+  processes: Array<{ pid: number; name: string; cpu: number }>;
+  ports: Array<{ port: number; processName: string }> | null; // null when not read
+}
+
+export type AlertSampler = (rules: AlertRule[]) => Promise<ResourceSnapshot>;
+export type AlertListener = (alert: Alert) => void;
+
+const SETTINGS_FILE = 'alert-rules.json';
+const LOG_FILE = 'alert-log.json';
+const MAX_LOG_ENTRIES = 500;
+
+const DEFAULT_SETTINGS: AlertSettings = {
+  enabled: false,
+  intervalSeconds: 60,
+  rules: [],
+};
+
+/**
+ * Evaluates rules against consecutive snapshots. A condition alerts once
+ * when it has lasted for the minutes of its rule, and again only after it
+ * cleared in between.
+ */
+export class AlertEngine {
+  // Since when a condition holds, per rule and subject (drive, process)
+  private conditions = new Map<string, { since: number; fired: boolean }>();
+  private knownPorts: Map<number, string> | null = null;
+  private counter = 0;
+
+  evaluate(rules: AlertRule[], snapshot: ResourceSnapshot): Alert[] {
+    const alerts: Alert[] = [];
+    const holding = new Set<string>();
+    const hold = (
+      rule: AlertRule,
+      subject: string,
+      title: string,
+      message: string,
+    ) => {
+      const key = `${rule.id}\0${subject}`;
+      holding.add(key);
+      const condition = this.conditions.get(key) ?? {
+        since: snapshot.time,
+        fired: false,
+      };
+      this.conditions.set(key, condition);
+      if (
+        !condition.fired &&
+        snapshot.time - condition.since >= rule.minutes * 60 * 1000
+      ) {
+        condition.fired = true;
+        alerts.push(this.alert(rule, snapshot.time, title, message));
+      }
+    };
+
+    const active = rules.filter((rule) => rule.enabled);
+    for (const rule of active) {
+      const target = rule.target.trim().toLowerCase();
+      if (rule.type === 'disk-free') {
+        for (const drive of snapshot.drives) {
+          if (target && drive.drive.toLowerCase() !== target) continue;
+          if (drive.freeGB < rule.threshold) {
+            hold(
+              rule,
+              drive.drive,
+              'Low disk space',
+              `${drive.drive} has ${drive.freeGB.toFixed(1)} GB free (below ${rule.threshold} GB)`,
+            );
+          }
+        }
+      } else if (rule.type === 'process-cpu') {
+        for (const proc of snapshot.processes) {
+          if (target && !proc.name.toLowerCase().includes(target)) continue;
+          if (proc.cpu > rule.threshold) {
+            hold(
+              rule,
+              String(proc.pid),
+              'High CPU usage',
+              `${proc.name} (PID ${proc.pid}) uses ${proc.cpu.toFixed(0)} % CPU` +
+                (rule.minutes ? ` for ${rule.minutes} min` : ''),
+            );
+          }
+        }
+      } else if (rule.type === 'memory') {
+        const used = snapshot.memoryUsedPercent;
+        if (used !== null && used > rule.threshold) {
+          hold(
+            rule,
+            '',
+            'High memory usage',
+            `${used.toFixed(0)} % of the memory is in use` +
+              (rule.minutes ? ` for ${rule.minutes} min` : ''),
+          );
+        }
+      }
+    }
+    // Conditions that cleared alert again the next time they hold
+    for (const key of [...this.conditions.keys()]) {
+      if (!holding.has(key)) this.conditions.delete(key);
+    }
+
+    if (snapshot.ports) {
+      alerts.push(
+        ...this.portChanges(
+          active.filter((rule) => rule.type === 'port'),
+          snapshot,
+        ),
+      );
+    } else {
+      // Without port rules a later port rule starts from the open ports then
+      this.knownPorts = null;
+    }
+    return alerts;
+  }
+
+  /**
+   * Ports opened or closed since the previous snapshot with ports. The
+   * first snapshot only sets the ports that are already open.
+   */
+  private portChanges(rules: AlertRule[], snapshot: ResourceSnapshot): Alert[] {
+    const current = new Map(
+      snapshot.ports!.map((p) => [p.port, p.processName]),
+    );
+    const previous = this.knownPorts;
+    this.knownPorts = current;
+    if (!previous) return [];
+
+    const changes: Array<{
+      port: number;
+      processName: string;
+      opened: boolean;
+    }> = [];
+    for (const [port, processName] of current) {
+      if (!previous.has(port))
+        changes.push({ port, processName, opened: true });
+    }
+    for (const [port, processName] of previous) {
+      if (!current.has(port))
+        changes.push({ port, processName, opened: false });
+    }
+
+    const alerts: Alert[] = [];
+    for (const rule of rules) {
+      for (const { port, processName, opened } of changes) {
+        if (rule.target.trim() && Number(rule.target) !== port) continue;
+        alerts.push(
+          this.alert(
+            rule,
+            snapshot.time,
+            opened ? 'Port opened' : 'Port closed',
+            `Port ${port} ${opened ? 'opened' : 'closed'}` +
+              (processName ? ` (${processName})` : ''),
+          ),
+        );
+      }
+    }
+    return alerts;
+  }
+
+  private alert(
+    rule: AlertRule,
+    time: number,
+    title: string,
+    message: string,
+  ): Alert {
+    return {
+      id: `alert-${time}-${++this.counter}`,
+      ruleId: rule.id,
+      type: rule.type,
+      time: new Date(time).toISOString(),
+      title,
+      message,
+    };
+  }
+}
+
+export class AlertMonitor {
+  private settings: AlertSettings | null = null;
+  private log: Alert[] | null = null;
+  private engine = new AlertEngine();
+  private listeners = new Set<AlertListener>();
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+  private lastCheck: string | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private sampler: AlertSampler,
+    private config: ConfigCommand = new ConfigCommand(),
+  ) {}
+
+  /**
+   * Get every new alert, returns a function to stop listening
+   */
+  onAlert(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Start checking again if alerts were enabled before the app was restarted
+   */
+  async resume(): Promise<boolean> {
+    const settings = await this.loadSettings();
+    if (!settings.enabled || this.timer) return false;
+    this.startTimer(settings);
+    return true;
+  }
+
+  /**
+   * Change the rules, the interval or whether alerts are checked at all
+   */
+  async update(changes: Partial<AlertSettings>): Promise<AlertStatus> {
+    const settings = AlertMonitor.normalize({
+      ...(await this.loadSettings()),
+      ...changes,
+    });
+    await this.saveSettings(settings);
+    this.stopTimer();
+    if (settings.enabled) this.startTimer(settings);
+    return this.status();
+  }
+
+  close(): void {
+    this.stopTimer();
+  }
+
+  async status(): Promise<AlertStatus> {
+    return {
+      settings: await this.loadSettings(),
+      running: this.timer !== null,
+      lastCheck: this.lastCheck,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Check all rules now, returns the new alerts
+   */
+  async check(): Promise<Alert[]> {
+    // A slow check (e.g. cold WMI counters) must not pile up behind itself
+    if (this.checking) return [];
+    this.checking = true;
+    try {
+      const { rules } = await this.loadSettings();
+      const active = rules.filter((rule) => rule.enabled);
+      if (!active.length) return [];
+
+      const alerts = this.engine.evaluate(active, await this.sampler(active));
+      this.lastCheck = new Date().toISOString();
+      this.lastError = null;
+      if (alerts.length) {
+        await this.saveLog([...(await this.loadLog()), ...alerts]);
+        for (const alert of alerts) {
+          for (const listener of this.listeners) {
+            try {
+              listener(alert);
+            } catch (error) {
+              console.error('[AlertMonitor] Alert listener failed:', error);
+            }
+          }
+        }
+      }
+      return alerts;
+    } catch (error: any) {
+      this.lastError = error.message;
+      console.error('[AlertMonitor] Failed to check alert rules:', error);
+      return [];
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Logged alerts, newest first
+   */
+  async alerts(limit = MAX_LOG_ENTRIES): Promise<Alert[]> {
+    return (await this.loadLog()).slice(-limit).reverse();
+  }
+
+  async clearLog(): Promise<void> {
+    await this.saveLog([]);
+  }
+
+  private startTimer(settings: AlertSettings): void {
+    this.timer = setInterval(
+      () => void this.check(),
+      settings.intervalSeconds * 1000,
+    );
+    // Checking must not keep a CLI run or test process alive
+    this.timer.unref();
+    void this.check();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async loadSettings(): Promise<AlertSettings> {
+    if (this.settings) return this.settings;
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: SETTINGS_FILE,
+    });
+    this.settings = AlertMonitor.normalize(
+      result.success && typeof result.data === 'object' ? result.data : {},
+    );
+    return this.settings;
+  }
+
+  private async saveSettings(settings: AlertSettings): Promise<void> {
+    const result = await this.config.execute({
+      operation: 'write',
+      filename: SETTINGS_FILE,
+      data: settings,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save alert rules');
+    }
+    this.settings = settings;
+  }
+
+  private async loadLog(): Promise<Alert[]> {
+    if (this.log) return this.log;
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: LOG_FILE,
+    });
+    this.log = result.success && Array.isArray(result.data) ? result.data : [];
+    return this.log!;
+  }
+
+  private async saveLog(log: Alert[]): Promise<void> {
+    const kept = log.slice(-MAX_LOG_ENTRIES);
+    const result = await this.config.execute({
+      operation: 'write',
+      filename: LOG_FILE,
+      data: kept,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save alert log');
+    }
+    this.log = kept;
+  }
+
+  private static normalize(settings: Partial<AlertSettings>): AlertSettings {
+    const number = (value: any, fallback: number, min: number, max: number) =>
+      Number.isFinite(Number(value))
+        ? Math.max(min, Math.min(max, Number(value)))
+        : fallback;
+    let counter = 0;
+    const rules = (Array.isArray(settings.rules) ? settings.rules : [])
+      .filter((rule: any) => ALERT_RULE_TYPES.includes(rule?.type))
+      .map(
+        (rule: any): AlertRule => ({
+          id:
+            typeof rule.id === 'string' && rule.id
+              ? rule.id
+              : `rule-${Date.now()}-${++counter}`,
+          type: rule.type,
+          enabled: rule.enabled !== false,
+          threshold: number(rule.threshold, 0, 0, 1e9),
+          minutes: number(rule.minutes, 0, 0, 24 * 60),
+          target: typeof rule.target === 'string' ? rule.target.trim() : '',
+        }),
+      );
+    return {
+      enabled: settings.enabled === true,
+      intervalSeconds: Math.round(
+        number(
+          settings.intervalSeconds,
+          DEFAULT_SETTINGS.intervalSeconds,
+          15,
+          3600,
+        ),
+      ),
+      rules,
+    };
+  }
+}
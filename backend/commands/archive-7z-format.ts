@@ -0,0 +1,137 @@
+/**
+ * 7z archive format (read only)
+ * Uses the 7-Zip command line tool (7z, 7zz or 7za on the PATH). Nested 7z
+ * archives are written to a temp file first, as 7-Zip needs seekable input.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  Archive,
+  ArchiveEntry,
+  ArchiveFormat,
+  normalizeEntryPath,
+  runTool,
+} from './archive-format.js';
+
+const TOOL_NAMES = ['7z', '7zz', '7za'];
+
+class SevenZipArchive implements Archive {
+  constructor(
+    private tool: string,
+    private archiveFile: string,
+    private records: ArchiveEntry[],
+  ) {}
+
+  entries(): ArchiveEntry[] {
+    return this.records;
+  }
+
+  async read(entryPath: string): Promise<Buffer | null> {
+    const normalized = normalizeEntryPath(entryPath);
+    const entry = this.records.find((e) => e.path === normalized);
+    if (!entry || entry.isDirectory) {
+      return null;
+    }
+    // -spd: take the name literally, no wildcards
+    return runTool(this.tool, [
+      'x',
+      '-so',
+      '-spd',
+      this.archiveFile,
+      normalized,
+    ]);
+  }
+}
+
+export class SevenZipFormat implements ArchiveFormat {
+  readonly name = '7z';
+  readonly extensions = ['.7z'];
+
+  private tool: string | null = null;
+  private tempDir: string | null = null;
+
+  async open(source: string | Buffer): Promise<Archive> {
+    const archiveFile =
+      typeof source === 'string' ? source : this.writeTempFile(source);
+    const tool = await this.findTool();
+    const listing = await runTool(tool, ['l', '-slt', '-ba', archiveFile]);
+    return new SevenZipArchive(
+      tool,
+      archiveFile,
+      SevenZipFormat.parseListing(listing.toString('utf-8')),
+    );
+  }
+
+  /**
+   * Parse the technical listing of "7z l -slt": blocks of "Key = Value"
+   * lines separated by blank lines, one block per entry
+   */
+  static parseListing(output: string): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+
+    for (const block of output.split(/\r?\n\s*\r?\n/)) {
+      const fields: Record<string, string> = {};
+      for (const line of block.split(/\r?\n/)) {
+        const separator = line.indexOf(' = ');
+        if (separator !== -1) {
+          fields[line.substring(0, separator).trim()] = line.substring(
+            separator + 3,
+          );
+        }
+      }
+      if (!fields.Path) continue;
+
+      const entryPath = normalizeEntryPath(fields.Path);
+      const isDirectory =
+        fields.Folder === '+' || (fields.Attributes ?? '').startsWith('D');
+      // Modified looks like "2024-05-01 13:45:10" or with fractions
+      const modified = fields.Modified
+        ? new Date(fields.Modified.replace(' ', 'T'))
+        : new Date(0);
+
+      entries.push({
+        path: entryPath,
+        size: isDirectory ? 0 : parseInt(fields.Size || '0', 10),
+        time: isNaN(modified.getTime()) ? new Date(0) : modified,
+        isDirectory,
+      });
+    }
+    return entries;
+  }
+
+  private async findTool(): Promise<string> {
+    if (this.tool) {
+      return this.tool;
+    }
+    for (const name of TOOL_NAMES) {
+      try {
+        await runTool(name, ['i']);
+        this.tool = name;
+        return name;
+      } catch {
+        // Try the next name
+      }
+    }
+    throw new Error(
+      '7-Zip is required to open .7z files (7z, 7zz or 7za on the PATH)',
+    );
+  }
+
+  private writeTempFile(data: Buffer): string {
+    if (!this.tempDir) {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nh-7z-'));
+      process.on('exit', () =>
+        fs.rmSync(tempDir, { recursive: true, force: true }),
+      );
+      this.tempDir = tempDir;
+    }
+    const file = path.join(
+      this.tempDir,
+      `${Date.now()}-${Math.random().toString(36).slice(2)}.7z`,
+    );
+    fs.writeFileSync(file, data);
+    return file;
+  }
+}
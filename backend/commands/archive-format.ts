@@ -0,0 +1,135 @@
+/**
+ * Archive format abstraction
+ * Every browsable archive type (ZIP, TAR, 7z) implements ArchiveFormat so the
+ * VFS archive provider can list, read and - where the format allows it -
+ * modify archives, including archives nested in other archives.
+ */
+
+import { spawn } from 'child_process';
+import { Duplex, PassThrough, Readable } from 'stream';
+
+export interface ArchiveEntry {
+  /** Path inside the archive with forward slashes and no trailing slash */
+  path: string;
+  size: number;
+  time: Date;
+  isDirectory: boolean;
+}
+
+export interface Archive {
+  entries(): ArchiveEntry[];
+  /** Contents of a file entry, null for missing entries and directories */
+  read(entryPath: string): Promise<Buffer | null>;
+  /** Like read, but streamed for formats that extract entries on demand */
+  stream?(entryPath: string): Readable | null;
+
+  // Only implemented by formats that can be modified
+  /** Add or replace a file; an entry path ending with "/" adds a directory */
+  add?(entryPath: string, data: Buffer): void;
+  remove?(entryPath: string): void;
+  toBuffer?(): Buffer;
+}
+
+export interface ArchiveFormat {
+  /** Short name, e.g. 'zip', 'tar', '7z' */
+  readonly name: string;
+  /** Lower-case file name endings, e.g. '.tar.gz' */
+  readonly extensions: string[];
+
+  /**
+   * Open an archive from a file on disk or from its contents (for archives
+   * nested in other archives)
+   */
+  open(source: string | Buffer): Promise<Archive>;
+  /** Create an empty archive, for formats that can be written */
+  create?(): Archive;
+}
+
+/**
+ * Normalize an entry name to the ArchiveEntry.path notation
+ */
+export function normalizeEntryPath(name: string): string {
+  return name
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^\/+/, '')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Run an external tool (bzip2, 7z) and collect its binary output
+ */
+export function runTool(
+  command: string,
+  args: string[],
+  input?: Buffer,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { windowsHide: true });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    proc.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    proc.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    proc.on('error', (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === 'ENOENT'
+          ? new Error(`${command} is not installed or not on the PATH`)
+          : error,
+      );
+    });
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        const message = Buffer.concat(stderr).toString().trim();
+        reject(new Error(`${command} failed (exit code ${code}): ${message}`));
+      }
+    });
+
+    if (input) {
+      // The tool may exit early on broken input, ignore EPIPE in that case
+      proc.stdin.on('error', () => {});
+      proc.stdin.end(input);
+    } else {
+      proc.stdin.end();
+    }
+  });
+}
+
+/**
+ * Run an external tool (xz, bzip2) as a stream filter. The output ends only
+ * after the tool exited successfully and fails with its error message
+ * otherwise, so a truncated output is never mistaken for a complete one.
+ */
+export function toolStream(command: string, args: string[]): Duplex {
+  const proc = spawn(command, args, { windowsHide: true });
+  const output = new PassThrough();
+  const stream = Duplex.from({ writable: proc.stdin, readable: output });
+  const stderr: Buffer[] = [];
+
+  proc.stdout.pipe(output, { end: false });
+  proc.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+  proc.on('error', (error: NodeJS.ErrnoException) => {
+    stream.destroy(
+      error.code === 'ENOENT'
+        ? new Error(`${command} is not installed or not on the PATH`)
+        : error,
+    );
+  });
+  proc.on('close', (code) => {
+    if (code === 0) {
+      output.end();
+    } else {
+      const message = Buffer.concat(stderr).toString().trim();
+      stream.destroy(
+        new Error(`${command} failed (exit code ${code}): ${message}`),
+      );
+    }
+  });
+  // Stop the tool when the reader gives up early
+  stream.on('close', () => {
+    if (proc.exitCode === null) proc.kill();
+  });
+  return stream;
+}
@@ -0,0 +1,347 @@
+/**
+ * TAR archive format (read only)
+ * Handles plain, gzip (.tar.gz, .tgz), bzip2 (.tar.bz2, .tbz2) and xz
+ * (.tar.xz, .txz) compressed tarballs. Gzip is decompressed with zlib, bzip2
+ * and xz need the bzip2 and xz tools. Opening a tarball only keeps the index
+ * of its entries; their contents are decompressed again when read.
+ */
+
+import * as fs from 'fs';
+import { Readable, pipeline } from 'stream';
+import * as zlib from 'zlib';
+import {
+  Archive,
+  ArchiveEntry,
+  ArchiveFormat,
+  normalizeEntryPath,
+  toolStream,
+} from './archive-format.js';
+
+const BLOCK_SIZE = 512;
+
+type Compression = 'gzip' | 'bzip2' | 'xz' | null;
+
+export interface TarRecord {
+  entry: ArchiveEntry;
+  /** Offset of the file contents in the uncompressed tarball */
+  offset: number;
+}
+
+/**
+ * Builds the entry index of an uncompressed tarball from its chunks (ustar,
+ * GNU long names and pax headers); file contents are skipped, not kept
+ */
+class TarIndexer {
+  readonly records = new Map<string, TarRecord>();
+  private ended = false;
+  private buffered: Buffer = Buffer.alloc(0);
+  // Offset of the first buffered byte in the tarball
+  private position = 0;
+  private skip = 0;
+  private longName: string | undefined;
+  private pax: Record<string, string> = {};
+
+  push(chunk: Buffer): void {
+    if (this.ended) return;
+    if (this.skip >= chunk.length) {
+      this.skip -= chunk.length;
+      this.position += chunk.length;
+      return;
+    }
+    const data = chunk.subarray(this.skip);
+    this.position += this.skip;
+    this.skip = 0;
+    this.buffered =
+      this.buffered.length > 0 ? Buffer.concat([this.buffered, data]) : data;
+
+    while (this.buffered.length >= BLOCK_SIZE) {
+      const header = this.buffered.subarray(0, BLOCK_SIZE);
+      // Two empty blocks mark the end of the archive
+      if (header.every((byte) => byte === 0)) {
+        this.ended = true;
+        return;
+      }
+
+      const type = String.fromCharCode(header[156] || 0x30);
+      const isMetadata = type === 'L' || type === 'x' || type === 'g';
+      const size =
+        this.pax.size && !isMetadata
+          ? parseInt(this.pax.size, 10)
+          : TarIndexer.readNumber(header, 124, 12);
+
+      if (isMetadata) {
+        // Wait for the whole metadata, it is needed by the next header
+        if (this.buffered.length < BLOCK_SIZE + size) return;
+        const content = this.buffered.subarray(BLOCK_SIZE, BLOCK_SIZE + size);
+        if (type === 'L') {
+          this.longName = TarIndexer.readString(content, 0, size);
+        } else if (type === 'x') {
+          this.pax = TarIndexer.parsePax(content);
+        }
+      } else {
+        this.addRecord(header, type, size, this.position + BLOCK_SIZE);
+      }
+      this.consume(BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE);
+    }
+  }
+
+  private consume(length: number): void {
+    if (length <= this.buffered.length) {
+      this.buffered = this.buffered.subarray(length);
+      this.position += length;
+    } else {
+      this.skip = length - this.buffered.length;
+      this.position += this.buffered.length;
+      this.buffered = Buffer.alloc(0);
+    }
+  }
+
+  private addRecord(
+    header: Buffer,
+    type: string,
+    size: number,
+    dataOffset: number,
+  ): void {
+    const prefix =
+      header.toString('latin1', 257, 262) === 'ustar'
+        ? TarIndexer.readString(header, 345, 155)
+        : '';
+    const name = TarIndexer.readString(header, 0, 100);
+    const entryPath = normalizeEntryPath(
+      this.pax.path ?? this.longName ?? (prefix ? `${prefix}/${name}` : name),
+    );
+    const mtime = this.pax.mtime
+      ? parseFloat(this.pax.mtime)
+      : TarIndexer.readNumber(header, 136, 12);
+    this.longName = undefined;
+    this.pax = {};
+
+    if (!entryPath || entryPath === '.') return;
+
+    const time = new Date(mtime * 1000);
+    if (type === '5') {
+      this.records.set(entryPath, {
+        entry: { path: entryPath, size: 0, time, isDirectory: true },
+        offset: dataOffset,
+      });
+    } else if (type === '0' || type === '7') {
+      this.records.set(entryPath, {
+        entry: { path: entryPath, size, time, isDirectory: false },
+        offset: dataOffset,
+      });
+    } else if (type === '1') {
+      // Hard link: share the data of an earlier entry
+      const target = this.records.get(
+        normalizeEntryPath(TarIndexer.readString(header, 157, 100)),
+      );
+      if (target && !target.entry.isDirectory) {
+        this.records.set(entryPath, {
+          entry: { ...target.entry, path: entryPath, time },
+          offset: target.offset,
+        });
+      }
+    }
+    // Symbolic links, devices and fifos have no content and are skipped
+  }
+
+  private static readString(
+    buffer: Buffer,
+    start: number,
+    length: number,
+  ): string {
+    const field = buffer.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return field.toString('utf-8', 0, end === -1 ? field.length : end);
+  }
+
+  /**
+   * Numeric header fields are octal text, or base-256 when the high bit of
+   * the first byte is set (GNU extension for files > 8 GB)
+   */
+  private static readNumber(
+    buffer: Buffer,
+    start: number,
+    length: number,
+  ): number {
+    if (buffer[start] & 0x80) {
+      let value = buffer[start] & 0x7f;
+      for (let i = start + 1; i < start + length; i++) {
+        value = value * 256 + buffer[i];
+      }
+      return value;
+    }
+    const text = TarIndexer.readString(buffer, start, length).trim();
+    return text ? parseInt(text, 8) : 0;
+  }
+
+  /**
+   * Parse pax extended header records ("<length> <key>=<value>\n")
+   */
+  private static parsePax(data: Buffer): Record<string, string> {
+    const result: Record<string, string> = {};
+    let offset = 0;
+    while (offset < data.length) {
+      const space = data.indexOf(0x20, offset);
+      if (space === -1) break;
+      const length = parseInt(data.toString('latin1', offset, space), 10);
+      if (!length) break;
+
+      const record = data.toString('utf-8', space + 1, offset + length - 1);
+      const separator = record.indexOf('=');
+      if (separator !== -1) {
+        result[record.substring(0, separator)] = record.substring(
+          separator + 1,
+        );
+      }
+      offset += length;
+    }
+    return result;
+  }
+}
+
+class TarArchive implements Archive {
+  /**
+   * @param source the tarball on disk, or its contents when nested in
+   *   another archive
+   */
+  constructor(
+    private source: string | Buffer,
+    private compression: Compression,
+    private records: Map<string, TarRecord>,
+  ) {}
+
+  entries(): ArchiveEntry[] {
+    return [...this.records.values()].map((record) => record.entry);
+  }
+
+  async read(entryPath: string): Promise<Buffer | null> {
+    const stream = this.stream(entryPath);
+    if (!stream) {
+      return null;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  stream(entryPath: string): Readable | null {
+    const record = this.records.get(normalizeEntryPath(entryPath));
+    if (!record || record.entry.isDirectory) {
+      return null;
+    }
+    return Readable.from(this.extract(record.offset, record.entry.size));
+  }
+
+  /**
+   * Bytes of the uncompressed tarball from offset on. Plain tarballs are
+   * read from there, compressed ones are decompressed up to the entry and
+   * no further.
+   */
+  private async *extract(offset: number, size: number): AsyncGenerator<Buffer> {
+    if (size === 0) return;
+    const start = this.compression ? 0 : offset;
+    const input = TarFormat.uncompressed(this.source, this.compression, start);
+    let position = start;
+
+    for await (const chunk of input) {
+      const from = Math.max(0, offset - position);
+      const to = Math.min(chunk.length, offset + size - position);
+      if (from < to) {
+        yield chunk.subarray(from, to);
+      }
+      position += chunk.length;
+      if (position >= offset + size) return;
+    }
+    throw new Error('Unexpected end of the tarball');
+  }
+}
+
+export class TarFormat implements ArchiveFormat {
+  readonly name = 'tar';
+  readonly extensions = [
+    '.tar',
+    '.tar.gz',
+    '.tgz',
+    '.tar.bz2',
+    '.tbz2',
+    '.tbz',
+    '.tar.xz',
+    '.txz',
+  ];
+
+  async open(source: string | Buffer): Promise<Archive> {
+    const compression = TarFormat.compression(
+      typeof source === 'string' ? await TarFormat.readMagic(source) : source,
+    );
+    const records = await TarFormat.index(
+      TarFormat.uncompressed(source, compression),
+    );
+    return new TarArchive(source, compression, records);
+  }
+
+  /**
+   * Index the entries of an uncompressed tar stream without keeping the
+   * file contents. The stream is read to its end, so a decompressor in
+   * front of it gets to check its trailer.
+   */
+  static async index(
+    input: AsyncIterable<Buffer>,
+  ): Promise<Map<string, TarRecord>> {
+    const indexer = new TarIndexer();
+    for await (const chunk of input) {
+      indexer.push(chunk);
+    }
+    return indexer.records;
+  }
+
+  /**
+   * The uncompressed tarball as a stream, from start on for plain tarballs
+   */
+  static uncompressed(
+    source: string | Buffer,
+    compression: Compression,
+    start = 0,
+  ): Readable {
+    const input =
+      typeof source === 'string'
+        ? fs.createReadStream(source, { start })
+        : Readable.from([source.subarray(start)]);
+    const decompressor =
+      compression === 'gzip'
+        ? zlib.createGunzip()
+        : compression
+          ? toolStream(compression, ['-dc'])
+          : null;
+    // Errors of the input reach the reader through the decompressor
+    return decompressor ? pipeline(input, decompressor, () => {}) : input;
+  }
+
+  /**
+   * Detect the compression from the magic bytes, file names lie
+   */
+  private static compression(magic: Buffer): Compression {
+    if (magic[0] === 0x1f && magic[1] === 0x8b) {
+      return 'gzip';
+    }
+    if (magic.toString('latin1', 0, 3) === 'BZh') {
+      return 'bzip2';
+    }
+    if (magic.toString('latin1', 0, 6) === '\xfd7zXZ\0') {
+      return 'xz';
+    }
+    return null;
+  }
+
+  private static async readMagic(filePath: string): Promise<Buffer> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const magic = Buffer.alloc(6);
+      const { bytesRead } = await handle.read(magic, 0, magic.length, 0);
+      return magic.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+}
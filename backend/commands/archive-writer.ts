@@ -0,0 +1,741 @@
+/**
+ * Archive Writer
+ * Creates ZIP (optionally AES encrypted), TAR.GZ and TAR.XZ archives with a
+ * chosen compression level, optionally split into fixed-size volumes
+ * (archive.zip.001, archive.zip.002, ...), and verifies them after writing.
+ */
+
+import { once } from 'events';
+import * as fs from 'fs';
+import { Duplex, PassThrough, Readable, Transform, Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import * as zlib from 'zlib';
+import { toolStream } from './archive-format.js';
+import { TarFormat } from './archive-tar-format.js';
+import {
+  AES_METHOD,
+  aesCompressionMethod,
+  aesExtraField,
+  createAesDecryptStream,
+  createAesEncryptStream,
+} from './zip-aes.js';
+
+export type ArchiveWriteFormat = 'zip' | 'tar.gz' | 'tar.xz';
+
+export const ARCHIVE_WRITE_FORMATS: ArchiveWriteFormat[] = [
+  'zip',
+  'tar.gz',
+  'tar.xz',
+];
+
+export interface ArchiveWriteOptions {
+  format: ArchiveWriteFormat;
+  /** 0 (store only) to 9 (smallest), defaults to 6 */
+  compressionLevel?: number;
+  /** ZIP only: encrypt all entries with AES-256 */
+  password?: string;
+  /** Split the archive into volumes of this many bytes */
+  volumeSize?: number;
+}
+
+export interface ArchiveWriteEntry {
+  fullPath: string;
+  /** Path inside the archive, with forward slashes */
+  archivePath: string;
+}
+
+export interface ArchiveWriteHooks {
+  /** Called before each file is added */
+  onFile?: (index: number, entry: ArchiveWriteEntry) => void;
+  /** Called before each file and chunk, may throw to cancel */
+  checkpoint?: () => Promise<void>;
+}
+
+export interface ArchiveWriteResult {
+  /** The archive, or its volumes in order */
+  files: string[];
+  size: number;
+  entries: number;
+}
+
+interface Volume {
+  file: string;
+  size: number;
+}
+
+const DEFAULT_LEVEL = 6;
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+// Largest size that fits into the octal size field of a tar header
+const MAX_TAR_SIZE = 0o77777777777;
+
+// CRC-32 lookup table (ZIP polynomial)
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 of a chunk; pass the CRC of the preceding chunks to continue it
+ */
+function crc32(data: Buffer, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Writes into one file, or into numbered volumes of a fixed size
+ */
+class VolumeSink extends Writable {
+  readonly files: string[] = [];
+  size = 0;
+  private fd: number | null = null;
+  private volumeWritten = 0;
+
+  constructor(
+    private targetPath: string,
+    private volumeSize?: number,
+  ) {
+    super();
+  }
+
+  _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    try {
+      let offset = 0;
+      while (offset < chunk.length) {
+        if (
+          this.fd === null ||
+          (this.volumeSize && this.volumeWritten >= this.volumeSize)
+        ) {
+          this.openVolume();
+        }
+        const room = this.volumeSize
+          ? this.volumeSize - this.volumeWritten
+          : chunk.length - offset;
+        const length = Math.min(room, chunk.length - offset);
+        fs.writeSync(this.fd!, chunk, offset, length);
+        offset += length;
+        this.volumeWritten += length;
+        this.size += length;
+      }
+      callback();
+    } catch (error: any) {
+      callback(error);
+    }
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    if (this.fd === null) {
+      // Empty output still produces a (first) file
+      this.openVolume();
+    }
+    this.closeVolume();
+    callback();
+  }
+
+  _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void,
+  ): void {
+    this.closeVolume();
+    callback(error);
+  }
+
+  private openVolume(): void {
+    this.closeVolume();
+    const file = this.volumeSize
+      ? ArchiveWriter.volumePath(this.targetPath, this.files.length + 1)
+      : this.targetPath;
+    this.fd = fs.openSync(file, 'w');
+    this.files.push(file);
+    this.volumeWritten = 0;
+  }
+
+  private closeVolume(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+export class ArchiveWriter {
+  private level: number;
+  // Sizes of the written files, for verification
+  private written = new Map<string, number>();
+
+  constructor(
+    private options: ArchiveWriteOptions,
+    private hooks: ArchiveWriteHooks = {},
+  ) {
+    if (!ARCHIVE_WRITE_FORMATS.includes(options.format)) {
+      throw new Error(
+        `Unsupported archive format: ${options.format} (use ${ARCHIVE_WRITE_FORMATS.join(', ')})`,
+      );
+    }
+    if (options.password && options.format !== 'zip') {
+      throw new Error('Password protection is only available for ZIP archives');
+    }
+    if (options.volumeSize !== undefined && options.volumeSize < 64 * 1024) {
+      throw new Error('Volume size must be at least 64 KB');
+    }
+    this.level = Math.min(
+      9,
+      Math.max(0, Math.round(options.compressionLevel ?? DEFAULT_LEVEL)),
+    );
+  }
+
+  /**
+   * Name of a volume: archive.zip.001, archive.zip.002, ...
+   */
+  static volumePath(targetPath: string, index: number): string {
+    return `${targetPath}.${String(index).padStart(3, '0')}`;
+  }
+
+  /**
+   * First file that would be written (the archive or its first volume)
+   */
+  static outputPath(targetPath: string, options: ArchiveWriteOptions): string {
+    return options.volumeSize
+      ? ArchiveWriter.volumePath(targetPath, 1)
+      : targetPath;
+  }
+
+  /**
+   * Write the archive. Partially written files are removed on failure or
+   * cancellation.
+   */
+  async write(
+    entries: ArchiveWriteEntry[],
+    targetPath: string,
+  ): Promise<ArchiveWriteResult> {
+    const sink = new VolumeSink(targetPath, this.options.volumeSize);
+    try {
+      if (this.options.format === 'zip') {
+        await this.writeZip(entries, sink);
+      } else {
+        await this.writeTar(entries, sink);
+      }
+    } catch (error) {
+      sink.destroy();
+      for (const file of sink.files) {
+        fs.rmSync(file, { force: true });
+      }
+      throw error;
+    }
+
+    // Drop volumes left over from an earlier, larger archive of the same name
+    if (this.options.volumeSize) {
+      for (
+        let index = sink.files.length + 1;
+        fs.existsSync(ArchiveWriter.volumePath(targetPath, index));
+        index++
+      ) {
+        fs.rmSync(ArchiveWriter.volumePath(targetPath, index));
+      }
+    }
+    return { files: sink.files, size: sink.size, entries: this.written.size };
+  }
+
+  /**
+   * Read the written archive back and check that every file is complete
+   * (CRC or AES authentication code for ZIP, sizes for TAR). The volumes
+   * are read one after another as a stream.
+   */
+  async verify(result: ArchiveWriteResult): Promise<void> {
+    const volumes = await Promise.all(
+      result.files.map(async (file) => ({
+        file,
+        size: (await fs.promises.stat(file)).size,
+      })),
+    );
+
+    const found =
+      this.options.format === 'zip'
+        ? await this.verifyZip(volumes)
+        : await this.verifyTar(volumes);
+
+    for (const [archivePath, size] of this.written) {
+      if (!found.has(archivePath)) {
+        throw new Error(`Verification failed: ${archivePath} is missing`);
+      }
+      if (found.get(archivePath) !== size) {
+        throw new Error(`Verification failed: ${archivePath} has wrong size`);
+      }
+    }
+  }
+
+  /**
+   * Entries are streamed, so their CRC and sizes follow the data in a data
+   * descriptor (the volumes cannot be rewritten afterwards)
+   */
+  private async writeZip(
+    entries: ArchiveWriteEntry[],
+    sink: VolumeSink,
+  ): Promise<void> {
+    if (entries.length > MAX_ZIP_ENTRIES) {
+      throw new Error(
+        `ZIP files can hold at most ${MAX_ZIP_ENTRIES} files, use tar.gz or tar.xz`,
+      );
+    }
+
+    const done = finished(sink);
+    done.catch(() => {});
+    const central: Buffer[] = [];
+    let offset = 0;
+
+    const write = async (buffer: Buffer) => {
+      if (offset + buffer.length > MAX_ZIP_SIZE) {
+        throw new Error(
+          'ZIP files larger than 4 GB are not supported, use tar.gz or tar.xz',
+        );
+      }
+      await this.push(sink, buffer, done);
+      offset += buffer.length;
+    };
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      await this.hooks.checkpoint?.();
+      this.hooks.onFile?.(i, entry);
+
+      const stats = await fs.promises.stat(entry.fullPath);
+      const method = this.level === 0 ? 0 : 8;
+      const transforms: Duplex[] =
+        method === 8 ? [zlib.createDeflateRaw({ level: this.level })] : [];
+      let extra: Buffer = Buffer.alloc(0);
+      let flags = 0x0808; // UTF-8 names, data descriptor
+      let storedMethod = method;
+      if (this.options.password) {
+        transforms.push(createAesEncryptStream(this.options.password));
+        extra = aesExtraField(method);
+        flags |= 0x0001;
+        storedMethod = AES_METHOD;
+      }
+
+      const name = Buffer.from(entry.archivePath, 'utf-8');
+      const version = this.options.password ? 51 : 20;
+      const { time, date } = this.dosDateTime(stats.mtime);
+      const localOffset = offset;
+
+      // CRC and sizes are left empty, the data descriptor has them
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(version, 4);
+      local.writeUInt16LE(flags, 6);
+      local.writeUInt16LE(storedMethod, 8);
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(date, 12);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(extra.length, 28);
+      await write(Buffer.concat([local, name, extra]));
+
+      const dataOffset = offset;
+      const file = await this.pushFile(entry.fullPath, transforms, write);
+      const compressedSize = offset - dataOffset;
+      if (file.size > MAX_ZIP_SIZE) {
+        throw new Error(
+          'ZIP files larger than 4 GB are not supported, use tar.gz or tar.xz',
+        );
+      }
+      // AE-2 leaves the CRC out, the authentication code protects the data
+      const crc = this.options.password ? 0 : file.crc;
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      descriptor.writeUInt32LE(compressedSize, 8);
+      descriptor.writeUInt32LE(file.size, 12);
+      await write(descriptor);
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(version, 4);
+      header.writeUInt16LE(version, 6);
+      header.writeUInt16LE(flags, 8);
+      header.writeUInt16LE(storedMethod, 10);
+      header.writeUInt16LE(time, 12);
+      header.writeUInt16LE(date, 14);
+      header.writeUInt32LE(crc, 16);
+      header.writeUInt32LE(compressedSize, 20);
+      header.writeUInt32LE(file.size, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt16LE(extra.length, 30);
+      header.writeUInt32LE(localOffset, 42);
+      central.push(header, name, extra);
+      this.written.set(entry.archivePath, file.size);
+    }
+
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    await write(Buffer.concat([directory, end]));
+
+    sink.end();
+    await done;
+  }
+
+  private async writeTar(
+    entries: ArchiveWriteEntry[],
+    sink: VolumeSink,
+  ): Promise<void> {
+    const tar = new PassThrough();
+    const compressor =
+      this.options.format === 'tar.gz'
+        ? zlib.createGzip({ level: this.level })
+        : toolStream('xz', ['-z', '-c', `-${this.level}`, '-T0']);
+    const done = pipeline(tar, compressor, sink);
+    // Failures surface through `done`, avoid unhandled rejections meanwhile
+    done.catch(() => {});
+    const write = (buffer: Buffer) => this.push(tar, buffer, done);
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      await this.hooks.checkpoint?.();
+      this.hooks.onFile?.(i, entry);
+
+      // The header is written first, so the file must keep its size
+      const stats = await fs.promises.stat(entry.fullPath);
+      await write(this.tarHeaders(entry, stats.size, stats));
+      const file =
+        stats.size > 0
+          ? await this.pushFile(entry.fullPath, [], write, stats.size)
+          : { crc: 0, size: 0 };
+      if (file.size !== stats.size) {
+        throw new Error(`${entry.fullPath} changed while it was packed`);
+      }
+      const padding = (512 - (stats.size % 512)) % 512;
+      if (padding) {
+        await write(Buffer.alloc(padding));
+      }
+      this.written.set(entry.archivePath, stats.size);
+    }
+
+    // Two empty blocks end the archive
+    await write(Buffer.alloc(1024));
+    tar.end();
+    await done;
+  }
+
+  /**
+   * Stream a file through the given transforms into the archive, returns
+   * the CRC and size of the file contents
+   */
+  private async pushFile(
+    filePath: string,
+    transforms: Duplex[],
+    write: (buffer: Buffer) => Promise<void>,
+    maxSize?: number,
+  ): Promise<{ crc: number; size: number }> {
+    let crc = 0;
+    let size = 0;
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        crc = crc32(chunk, crc);
+        size += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    const output = new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        Promise.resolve(this.hooks.checkpoint?.())
+          .then(() => write(chunk))
+          .then(() => callback(), callback);
+      },
+    });
+
+    await pipeline([
+      fs.createReadStream(
+        filePath,
+        maxSize !== undefined ? { end: maxSize - 1 } : {},
+      ),
+      counter,
+      ...transforms,
+      output,
+    ]);
+    return { crc, size };
+  }
+
+  /**
+   * ustar header, preceded by a pax header when the name or size does not
+   * fit into the ustar fields
+   */
+  private tarHeaders(
+    entry: ArchiveWriteEntry,
+    size: number,
+    stats: fs.Stats,
+  ): Buffer {
+    const name = Buffer.from(entry.archivePath, 'utf-8');
+    const mtime = Math.floor(stats.mtimeMs / 1000);
+    const pax: string[] = [];
+    if (name.length > 100) pax.push(this.paxRecord('path', entry.archivePath));
+    if (size > MAX_TAR_SIZE) pax.push(this.paxRecord('size', String(size)));
+
+    const headers: Buffer[] = [];
+    if (pax.length > 0) {
+      const content = Buffer.from(pax.join(''), 'utf-8');
+      headers.push(
+        this.ustarHeader('PaxHeader', content.length, mtime, 'x'),
+        content,
+        Buffer.alloc((512 - (content.length % 512)) % 512),
+      );
+    }
+    headers.push(
+      // Names are cut off at 100 bytes, the pax path has the full name
+      this.ustarHeader(
+        entry.archivePath,
+        size > MAX_TAR_SIZE ? 0 : size,
+        mtime,
+        '0',
+        stats.mode & 0o777 || 0o644,
+      ),
+    );
+    return Buffer.concat(headers);
+  }
+
+  private ustarHeader(
+    name: string,
+    size: number,
+    mtime: number,
+    type: string,
+    mode = 0o644,
+  ): Buffer {
+    const header = Buffer.alloc(512);
+    const octal = (value: number, length: number) =>
+      `${value.toString(8).padStart(length - 1, '0')}\0`;
+
+    header.write(name, 0, 100, 'utf-8');
+    header.write(octal(mode, 8), 100, 'latin1');
+    header.write(octal(0, 8), 108, 'latin1');
+    header.write(octal(0, 8), 116, 'latin1');
+    header.write(octal(size, 12), 124, 'latin1');
+    header.write(octal(mtime, 12), 136, 'latin1');
+    header.write(type, 156, 'latin1');
+    header.write('ustar\0', 257, 'latin1');
+    header.write('00', 263, 'latin1');
+
+    // Checksum is computed with the checksum field filled with spaces
+    header.fill(' ', 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'latin1');
+    return header;
+  }
+
+  /**
+   * pax record "<length> <key>=<value>\n", the length counts itself
+   */
+  private paxRecord(key: string, value: string): string {
+    const body = ` ${key}=${value}\n`;
+    const bodyLength = Buffer.byteLength(body, 'utf-8');
+    let length = bodyLength + String(bodyLength).length;
+    if (String(length).length > String(bodyLength).length) {
+      length++;
+    }
+    return `${length}${body}`;
+  }
+
+  /**
+   * Write to a stream, waiting for it to drain; rejects when the output
+   * pipeline failed in the meantime
+   */
+  private async push(
+    stream: Writable,
+    buffer: Buffer,
+    done: Promise<void>,
+  ): Promise<void> {
+    if (stream.destroyed) {
+      await done;
+      throw new Error('Archive output was closed');
+    }
+    if (!stream.write(buffer)) {
+      await Promise.race([once(stream, 'drain'), done]);
+    }
+  }
+
+  private dosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+      time:
+        (date.getHours() << 11) |
+        (date.getMinutes() << 5) |
+        Math.floor(date.getSeconds() / 2),
+      date:
+        ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+  }
+
+  /**
+   * Bytes start to end of the archive, read from the volumes one after
+   * another
+   */
+  private async *readVolumes(
+    volumes: Volume[],
+    start: number,
+    end: number,
+  ): AsyncGenerator<Buffer> {
+    let base = 0;
+    for (const { file, size } of volumes) {
+      const from = Math.max(start, base);
+      const to = Math.min(end, base + size);
+      if (from < to) {
+        yield* fs.createReadStream(file, {
+          start: from - base,
+          end: to - base - 1,
+        });
+      }
+      base += size;
+    }
+  }
+
+  private async readRange(
+    volumes: Volume[],
+    start: number,
+    length: number,
+  ): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.readVolumes(
+      volumes,
+      start,
+      start + length,
+    )) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Check every entry of a ZIP, returns the uncompressed sizes by name
+   */
+  private async verifyZip(volumes: Volume[]): Promise<Map<string, number>> {
+    const total = volumes.reduce((sum, volume) => sum + volume.size, 0);
+    // The archive is written without a comment, the end record is last
+    const end = await this.readRange(volumes, Math.max(0, total - 22), 22);
+    if (end.length < 22 || end.readUInt32LE(0) !== 0x06054b50) {
+      throw new Error('Verification failed: end of central directory missing');
+    }
+
+    const count = end.readUInt16LE(10);
+    const directory = await this.readRange(
+      volumes,
+      end.readUInt32LE(16),
+      end.readUInt32LE(12),
+    );
+    const found = new Map<string, number>();
+    let offset = 0;
+
+    for (let i = 0; i < count; i++) {
+      if (
+        offset + 46 > directory.length ||
+        directory.readUInt32LE(offset) !== 0x02014b50
+      ) {
+        throw new Error('Verification failed: broken central directory');
+      }
+      const method = directory.readUInt16LE(offset + 10);
+      const crc = directory.readUInt32LE(offset + 16);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const size = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localOffset = directory.readUInt32LE(offset + 42);
+      const name = directory.toString(
+        'utf-8',
+        offset + 46,
+        offset + 46 + nameLength,
+      );
+      const extra = directory.subarray(
+        offset + 46 + nameLength,
+        offset + 46 + nameLength + extraLength,
+      );
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      const local = await this.readRange(volumes, localOffset, 30);
+      const start =
+        localOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+      const transforms: Duplex[] = [];
+      let entryMethod = method;
+      if (method === AES_METHOD) {
+        entryMethod = aesCompressionMethod(extra) ?? 0;
+        transforms.push(createAesDecryptStream(this.options.password ?? ''));
+      }
+      if (entryMethod === 8) {
+        transforms.push(zlib.createInflateRaw());
+      }
+
+      let contentCrc = 0;
+      let contentSize = 0;
+      const check = new Writable({
+        write: (chunk: Buffer, _encoding, callback) => {
+          contentCrc = crc32(chunk, contentCrc);
+          contentSize += chunk.length;
+          callback();
+        },
+      });
+      try {
+        await pipeline([
+          Readable.from(
+            this.readVolumes(volumes, start, start + compressedSize),
+          ),
+          ...transforms,
+          check,
+        ]);
+      } catch (error: any) {
+        throw new Error(`Verification failed: ${name}: ${error.message}`);
+      }
+
+      if (contentSize !== size) {
+        throw new Error(`Verification failed: ${name} has wrong size`);
+      }
+      if (method !== AES_METHOD && contentCrc !== crc) {
+        throw new Error(`Verification failed: ${name} has a CRC error`);
+      }
+      found.set(name, size);
+    }
+    return found;
+  }
+
+  /**
+   * Decompress the volumes as one stream and index the tar headers; gzip
+   * and xz check their own checksums at the end
+   */
+  private async verifyTar(volumes: Volume[]): Promise<Map<string, number>> {
+    const total = volumes.reduce((sum, volume) => sum + volume.size, 0);
+    const decompressor =
+      this.options.format === 'tar.gz'
+        ? zlib.createGunzip()
+        : toolStream('xz', ['-d', '-c']);
+    const tar = new PassThrough();
+
+    try {
+      const [records] = await Promise.all([
+        TarFormat.index(tar),
+        pipeline(
+          Readable.from(this.readVolumes(volumes, 0, total)),
+          decompressor,
+          tar,
+        ),
+      ]);
+      return new Map(
+        [...records.values()]
+          .filter((record) => !record.entry.isDirectory)
+          .map((record) => [record.entry.path, record.entry.size]),
+      );
+    } catch (error: any) {
+      throw new Error(`Verification failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * ZIP archive format (read and write, based on adm-zip)
+ */
+
+import AdmZip from 'adm-zip';
+import {
+  Archive,
+  ArchiveEntry,
+  ArchiveFormat,
+  normalizeEntryPath,
+} from './archive-format.js';
+
+class ZipArchive implements Archive {
+  constructor(private zip: AdmZip) {}
+
+  entries(): ArchiveEntry[] {
+    return this.zip.getEntries().map((entry) => ({
+      path: normalizeEntryPath(entry.entryName),
+      size: entry.isDirectory ? 0 : entry.header.size,
+      time: entry.header.time,
+      isDirectory: entry.isDirectory,
+    }));
+  }
+
+  async read(entryPath: string): Promise<Buffer | null> {
+    const entry = this.zip.getEntry(entryPath);
+    if (!entry || entry.isDirectory) {
+      return null;
+    }
+    return this.zip.readFile(entry);
+  }
+
+  add(entryPath: string, data: Buffer): void {
+    this.zip.addFile(entryPath, data);
+  }
+
+  remove(entryPath: string): void {
+    // Stored names may use backslashes or end with "/" for directories
+    const normalized = normalizeEntryPath(entryPath);
+    const entry = this.zip
+      .getEntries()
+      .find((e) => normalizeEntryPath(e.entryName) === normalized);
+    if (entry) {
+      this.zip.deleteFile(entry.entryName);
+    }
+  }
+
+  toBuffer(): Buffer {
+    return this.zip.toBuffer();
+  }
+}
+
+export class ZipFormat implements ArchiveFormat {
+  readonly name = 'zip';
+  readonly extensions = ['.zip'];
+
+  async open(source: string | Buffer): Promise<Archive> {
+    return new ZipArchive(new AdmZip(source));
+  }
+
+  create(): Archive {
+    return new ZipArchive(new AdmZip());
+  }
+}
@@ -0,0 +1,472 @@
+/**
+ * Bank CSV Import
+ * Turns bank specific CSV exports into transactions with a column mapping
+ * profile (delimiter, encoding, header row, field per column, decimal and
+ * date format). Profiles are saved per bank in ~/n2htoolbox/ and found again
+ * by the header row of the export.
+ */
+
+import { ConfigCommand } from './config-command.js';
+import {
+  FileEncoding,
+  BankStatement,
+  Transaction,
+} from './bank-transaction.js';
+
+export type CsvField =
+  | 'date'
+  | 'amount'
+  | 'credit'
+  | 'debit'
+  | 'sign'
+  | 'account'
+  | 'type'
+  | 'name'
+  | 'counterpartyAccount'
+  | 'counterpartyBank'
+  | 'reference';
+
+export const CSV_FIELDS: CsvField[] = [
+  'date',
+  'amount',
+  'credit',
+  'debit',
+  'sign',
+  'account',
+  'type',
+  'name',
+  'counterpartyAccount',
+  'counterpartyBank',
+  'reference',
+];
+
+export type CsvDateFormat =
+  | 'DD.MM.YYYY'
+  | 'DD.MM.YY'
+  | 'YYYY-MM-DD'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY';
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = [
+  'DD.MM.YYYY',
+  'DD.MM.YY',
+  'YYYY-MM-DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+];
+
+export const CSV_DELIMITERS = [';', ',', '\t', '|'];
+
+export interface CsvProfile {
+  name: string;
+  delimiter: string;
+  encoding: FileEncoding;
+  skipRows: number; // Non-empty rows above the header row
+  headers: string[]; // Header row of the export, finds the profile again
+  fields: Array<CsvField | null>; // Per column, text fields may repeat
+  decimalSeparator: ',' | '.';
+  dateFormat: CsvDateFormat;
+  account: string; // For exports without an account column
+}
+
+const PROFILES_FILE = 'bank-csv-profiles.json';
+
+// Fields that take the first mapped column only
+const SINGLE_FIELDS: CsvField[] = ['date', 'amount', 'credit', 'debit', 'sign'];
+
+// Header names of German and English exports, checked in this order
+const HEADER_GUESSES: Array<[CsvField, RegExp]> = [
+  ['account', /^(auftragskonto|konto|account|eigene iban)$/],
+  [
+    'date',
+    /^(buchungstag|buchungsdatum|buchung|datum|date|booking date|transaction date|wertstellung|valuta(datum)?)$/,
+  ],
+  [
+    'type',
+    /^(buchungstext|umsatzart|umsatztyp|vorgang|transaction type|type)$/,
+  ],
+  ['sign', /^(soll\/haben|s\/h|soll-haben|credit\/debit|dr\/cr)$/],
+  ['credit', /^(haben|gutschrift|eingang|credit|einnahmen?)( \(.*\))?$/],
+  ['debit', /^(soll|lastschrift|ausgang|debit|ausgaben?)( \(.*\))?$/],
+  ['amount', /^(betrag|umsatz|amount)( \(.*\))?$/],
+  ['counterpartyBank', /^(bic|blz|bankleitzahl|swift)/],
+  ['counterpartyAccount', /iban|kontonummer|gegenkonto|counterparty account/],
+  [
+    'name',
+    /beg(ue|ü)nstigter|zahlungspflichtige|empf(ae|ä)nger|auftraggeber|^name|payee|counterparty/,
+  ],
+  [
+    'reference',
+    /verwendungszweck|zweck|referenz|reference|purpose|description|beschreibung/,
+  ],
+];
+
+// Values of a Soll/Haben column that mark a debit
+const DEBIT_MARKS = ['s', 'soll', 'd', 'dr', 'dbit', 'debit', '-'];
+
+export class BankCsvImport {
+  /**
+   * Rows of a CSV text with quoted fields, empty rows are left out
+   */
+  static parseTable(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const endRow = () => {
+      row.push(field);
+      if (row.some((value) => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        endRow();
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+    if (field !== '' || row.length) endRow();
+    return rows.map((r) => r.map((value) => value.trim()));
+  }
+
+  /**
+   * The delimiter that splits most rows into the same number of columns
+   */
+  static detectDelimiter(text: string): string {
+    const sample = text.split(/\r?\n/).slice(0, 50).join('\n');
+    let best = CSV_DELIMITERS[0];
+    let bestScore = 0;
+    for (const delimiter of CSV_DELIMITERS) {
+      const rows = BankCsvImport.parseTable(sample, delimiter);
+      const columns = BankCsvImport.modalColumnCount(rows);
+      if (columns < 2) continue;
+      const score =
+        rows.filter((row) => row.length === columns).length * columns;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * A profile guessed from the rows: the header row is the first row with
+   * the usual column count (banks put account details above it), fields
+   * come from the header names, decimal and date format from the values.
+   */
+  static suggestProfile(
+    rows: string[][],
+    delimiter: string,
+    encoding: FileEncoding,
+    skipRows?: number,
+  ): CsvProfile {
+    const columns = BankCsvImport.modalColumnCount(rows);
+    const headerIndex =
+      skipRows !== undefined
+        ? Math.max(0, Math.min(skipRows, rows.length - 1))
+        : Math.max(
+            0,
+            rows.findIndex((row) => row.length === columns),
+          );
+    const headers = rows[headerIndex] || [];
+
+    const fields: Array<CsvField | null> = headers.map(() => null);
+    for (const [field, pattern] of HEADER_GUESSES) {
+      for (let i = 0; i < headers.length; i++) {
+        if (fields[i] || !pattern.test(headers[i].toLowerCase())) continue;
+        fields[i] = field;
+        if (field !== 'reference') break;
+      }
+    }
+
+    const data = rows.slice(headerIndex + 1);
+    const values = (field: CsvField) =>
+      fields.flatMap((f, i) =>
+        f === field ? data.map((row) => row[i] || '').filter((v) => v) : [],
+      );
+
+    const amounts = [
+      ...values('amount'),
+      ...values('credit'),
+      ...values('debit'),
+    ];
+    const decimalSeparator = amounts.some((v) => /\d,\d{1,2}\D*$/.test(v))
+      ? ','
+      : amounts.some((v) => /\d\.\d{1,2}\D*$/.test(v))
+        ? '.'
+        : ',';
+
+    const dates = values('date');
+    const dateFormat =
+      CSV_DATE_FORMATS.find(
+        (format) =>
+          dates.length > 0 &&
+          dates.every((date) => BankCsvImport.parseDate(date, format)),
+      ) || 'DD.MM.YYYY';
+
+    return {
+      name: '',
+      delimiter,
+      encoding,
+      skipRows: headerIndex,
+      headers,
+      fields,
+      decimalSeparator,
+      dateFormat,
+      account: '',
+    };
+  }
+
+  /**
+   * Transactions of the rows below the header row. Rows without a date or
+   * amount (balances, totals) are left out.
+   */
+  static toTransactions(rows: string[][], profile: CsvProfile): Transaction[] {
+    const transactions: Transaction[] = [];
+    for (const row of rows.slice(profile.skipRows + 1)) {
+      const text = (field: CsvField) =>
+        profile.fields
+          .map((f, i) => (f === field ? row[i] || '' : ''))
+          .filter((value) => value)
+          .join(' ');
+      const single = (field: CsvField) => {
+        const index = profile.fields.indexOf(field);
+        return index === -1 ? '' : row[index] || '';
+      };
+      const amountOf = (field: CsvField) =>
+        BankCsvImport.parseAmount(single(field), profile.decimalSeparator);
+
+      const date = BankCsvImport.parseDate(single('date'), profile.dateFormat);
+      let amount: number;
+      if (profile.fields.includes('amount')) {
+        amount = amountOf('amount');
+      } else {
+        const credit = amountOf('credit');
+        const debit = amountOf('debit');
+        amount =
+          isNaN(credit) && isNaN(debit)
+            ? NaN
+            : (isNaN(credit) ? 0 : Math.abs(credit)) -
+              (isNaN(debit) ? 0 : Math.abs(debit));
+      }
+      if (!date || isNaN(amount)) continue;
+      if (profile.fields.includes('sign')) {
+        const debit = DEBIT_MARKS.includes(single('sign').toLowerCase());
+        amount = debit ? -Math.abs(amount) : Math.abs(amount);
+      }
+
+      transactions.push({
+        account: text('account') || profile.account,
+        date,
+        amount,
+        type: text('type'),
+        counterpartyBank: text('counterpartyBank'),
+        counterpartyAccount: text('counterpartyAccount'),
+        counterpartyName: text('name'),
+        reference: BankStatement.purpose(text('reference')),
+      });
+    }
+    return transactions;
+  }
+
+  /**
+   * "-1.234,56", "1.234,56-", "(1,234.56)", "1 234,56 EUR" to a number,
+   * NaN if there is none
+   */
+  static parseAmount(value: string, decimalSeparator: ',' | '.'): number {
+    let text = value.trim();
+    const negative = /^\(.*\)$|^-|-$/.test(text.replace(/[^\d()-]/g, ''));
+    text = text.replace(/[^\d.,]/g, '');
+    text =
+      decimalSeparator === ','
+        ? text.replace(/\./g, '').replace(',', '.')
+        : text.replace(/,/g, '');
+    if (!/^\d+(\.\d+)?$/.test(text)) return NaN;
+    const amount = parseFloat(text);
+    return negative ? -amount : amount;
+  }
+
+  /**
+   * A date in the given format as DD.MM.YYYY, '' if it does not match
+   */
+  static parseDate(value: string, format: CsvDateFormat): string {
+    const text = value.trim();
+    let match: RegExpMatchArray | null;
+    let day: string, month: string, year: string;
+    if (format === 'YYYY-MM-DD') {
+      match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+      if (!match) return '';
+      [, year, month, day] = match;
+    } else if (format === 'MM/DD/YYYY') {
+      match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+      if (!match) return '';
+      [, month, day, year] = match;
+    } else {
+      const separator = format === 'DD/MM/YYYY' ? '\\/' : '\\.';
+      const yearDigits = format === 'DD.MM.YY' ? '\\d{2}' : '\\d{4}';
+      match = text.match(
+        new RegExp(
+          `^(\\d{1,2})${separator}(\\d{1,2})${separator}(${yearDigits})\\b`,
+        ),
+      );
+      if (!match) return '';
+      [, day, month, year] = match;
+      if (year.length === 2) {
+        year = String((Number(year) < 70 ? 2000 : 1900) + Number(year));
+      }
+    }
+    if (Number(month) < 1 || Number(month) > 12) return '';
+    if (Number(day) < 1 || Number(day) > 31) return '';
+    return `${day.padStart(2, '0')}.${month.padStart(2, '0')}.${year}`;
+  }
+
+  /**
+   * Whether a profile was made for an export with these rows
+   */
+  static matches(profile: CsvProfile, rows: string[][]): boolean {
+    const headers = rows[profile.skipRows];
+    const normalize = (values: string[]) =>
+      values.map((value) => value.trim().toLowerCase()).join('\0');
+    return !!headers && normalize(headers) === normalize(profile.headers);
+  }
+
+  /**
+   * A complete profile from user input, unknown values fall back to defaults
+   */
+  static normalizeProfile(value: any): CsvProfile {
+    const profile = value && typeof value === 'object' ? value : {};
+    const headers = Array.isArray(profile.headers)
+      ? profile.headers.map((header: any) => String(header))
+      : [];
+    const fields = (Array.isArray(profile.fields) ? profile.fields : []).map(
+      (field: any) => (CSV_FIELDS.includes(field) ? field : null),
+    );
+    return {
+      name: typeof profile.name === 'string' ? profile.name.trim() : '',
+      delimiter: CSV_DELIMITERS.includes(profile.delimiter)
+        ? profile.delimiter
+        : ';',
+      encoding: profile.encoding === 'latin1' ? 'latin1' : 'utf-8',
+      skipRows: Number.isInteger(Number(profile.skipRows))
+        ? Math.max(0, Number(profile.skipRows))
+        : 0,
+      headers,
+      fields: headers.map((_: string, i: number) => fields[i] ?? null),
+      decimalSeparator: profile.decimalSeparator === '.' ? '.' : ',',
+      dateFormat: CSV_DATE_FORMATS.includes(profile.dateFormat)
+        ? profile.dateFormat
+        : 'DD.MM.YYYY',
+      account:
+        typeof profile.account === 'string' ? profile.account.trim() : '',
+    };
+  }
+
+  /**
+   * Problems that keep a profile from importing anything
+   */
+  static validateProfile(profile: CsvProfile): string | null {
+    for (const field of SINGLE_FIELDS) {
+      if (profile.fields.filter((f) => f === field).length > 1) {
+        return `Only one column can be mapped to ${field}`;
+      }
+    }
+    if (!profile.fields.includes('date')) {
+      return 'Map a column to date';
+    }
+    if (
+      !profile.fields.includes('amount') &&
+      !profile.fields.includes('credit') &&
+      !profile.fields.includes('debit')
+    ) {
+      return 'Map a column to amount, or to credit and debit';
+    }
+    return null;
+  }
+
+  private static modalColumnCount(rows: string[][]): number {
+    const counts = new Map<number, number>();
+    for (const row of rows) {
+      counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    }
+    let modal = 0;
+    let most = 0;
+    for (const [columns, count] of counts) {
+      if (count > most || (count === most && columns > modal)) {
+        modal = columns;
+        most = count;
+      }
+    }
+    return modal;
+  }
+}
+
+/**
+ * Saved CSV profiles, one per bank export
+ */
+export class CsvProfileStore {
+  private profiles: CsvProfile[] | null = null;
+
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  async list(): Promise<CsvProfile[]> {
+    if (this.profiles) return this.profiles;
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: PROFILES_FILE,
+    });
+    this.profiles = (
+      result.success && Array.isArray(result.data) ? result.data : []
+    ).map((profile: any) => BankCsvImport.normalizeProfile(profile));
+    return this.profiles!;
+  }
+
+  async get(name: string): Promise<CsvProfile | null> {
+    return (await this.list()).find((p) => p.name === name) || null;
+  }
+
+  /**
+   * Add a profile or replace the one with the same name
+   */
+  async save(profile: CsvProfile): Promise<CsvProfile[]> {
+    if (!profile.name) throw new Error('Profile name is required');
+    const profiles = (await this.list()).filter((p) => p.name !== profile.name);
+    return this.write([...profiles, profile]);
+  }
+
+  async remove(name: string): Promise<CsvProfile[]> {
+    return this.write((await this.list()).filter((p) => p.name !== name));
+  }
+
+  private async write(profiles: CsvProfile[]): Promise<CsvProfile[]> {
+    const sorted = [...profiles].sort((a, b) => a.name.localeCompare(b.name));
+    const result = await this.config.execute({
+      operation: 'write',
+      filename: PROFILES_FILE,
+      data: sorted,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save CSV profiles');
+    }
+    this.profiles = sorted;
+    return sorted;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Bank Transaction
+ * The transaction model all bank statement parsers produce and the table
+ * the ProfiCash command returns for every format.
+ */
+
+export interface Transaction {
+  account: string;
+  date: string; // DD.MM.YYYY
+  amount: number; // Negative for debits
+  type: string;
+  counterpartyBank?: string;
+  counterpartyAccount?: string;
+  counterpartyName?: string;
+  reference?: string;
+}
+
+export type FileEncoding = 'utf-8' | 'latin1';
+
+export const TRANSACTION_HEADERS = [
+  'account',
+  'date',
+  'amount',
+  'type',
+  'bankcode',
+  'account2',
+  'name',
+  'reference',
+];
+
+export class BankStatement {
+  /**
+   * The parse result with one row per transaction and the sums per year
+   */
+  static result(filePath: string, format: string, transactions: Transaction[]) {
+    let totalSum = 0;
+    const yearSums: Record<string, number> = {};
+    for (const txn of transactions) {
+      totalSum += txn.amount;
+      const year =
+        txn.date.split('.')[2] || new Date().getFullYear().toString();
+      yearSums[year] = (yearSums[year] || 0) + txn.amount;
+    }
+
+    const rows = transactions.map((txn) => [
+      txn.account,
+      txn.date,
+      txn.amount,
+      txn.type,
+      txn.counterpartyBank || '',
+      txn.counterpartyAccount || '',
+      txn.counterpartyName || '',
+      txn.reference || '',
+    ]);
+
+    return {
+      success: true,
+      operation: 'parse-bank-statement',
+      filePath: filePath,
+      format: format,
+      headers: TRANSACTION_HEADERS,
+      rows: rows,
+      summary: {
+        totalRows: rows.length,
+        sum: totalSum,
+        yearSums: yearSums,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * The transaction of a result row
+   */
+  static fromRow(row: any[]): Transaction {
+    return {
+      account: row[0],
+      date: row[1],
+      amount: row[2],
+      type: row[3],
+      counterpartyBank: row[4],
+      counterpartyAccount: row[5],
+      counterpartyName: row[6],
+      reference: row[7],
+    };
+  }
+
+  /**
+   * Decode a bank export. Without an explicit encoding UTF-8 is tried first,
+   * exports of German banks that are not valid UTF-8 are ISO-8859-1.
+   */
+  static decode(
+    buffer: Buffer,
+    encoding?: FileEncoding,
+  ): { text: string; encoding: FileEncoding } {
+    if (encoding) {
+      return {
+        text: BankStatement.stripBom(buffer.toString(encoding)),
+        encoding,
+      };
+    }
+    const text = buffer.toString('utf-8');
+    if (text.includes('\uFFFD')) {
+      return { text: buffer.toString('latin1'), encoding: 'latin1' };
+    }
+    return { text: BankStatement.stripBom(text), encoding: 'utf-8' };
+  }
+
+  /**
+   * The remittance text after "SVWZ+" of a SEPA purpose, the whole text if
+   * there is none
+   */
+  static purpose(text: string): string {
+    const index = text.indexOf('SVWZ+');
+    if (index === -1) return text.trim();
+    // Ultimate debtor and creditor follow the remittance text
+    return text
+      .substring(index + 5)
+      .split(/ABW[AE]\+/)[0]
+      .trim();
+  }
+
+  private static stripBom(text: string): string {
+    return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  }
+}
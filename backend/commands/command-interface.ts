@@ -12,13 +12,50 @@ export interface CommandParameter {
   default?: any;
 }
 
+/**
+ * Progress reported by a running job
+ */
+export interface JobProgress {
+  current?: number;
+  total?: number;
+  percentage?: number;
+  message?: string;
+  channel?: string; // Renderer event channel for existing listeners, e.g. 'copy-progress'
+  data?: any; // Payload sent on the channel
+}
+
+/**
+ * Handle passed to a command when it runs as a job
+ */
+export interface JobContext {
+  readonly id: string;
+  readonly cancelled: boolean;
+  readonly paused: boolean;
+
+  /**
+   * Report progress to all job listeners
+   */
+  report(progress: JobProgress): void;
+
+  /**
+   * Wait while the job is paused. Resolves immediately when running or cancelled.
+   */
+  checkpoint(): Promise<void>;
+
+  /**
+   * Register a handler that is called once when the job gets cancelled
+   */
+  onCancel(handler: () => void): void;
+}
+
 export interface ICommand {
   /**
    * Execute the command with given parameters
    * @param params - Command parameters (can be any type)
+   * @param job - Job context when executed as a job (progress, cancel, pause)
    * @returns Promise with command result
    */
-  execute(params: any): Promise<any>;
+  execute(params: any, job?: JobContext): Promise<any>;
 
   /**
    * Get command description
@@ -10,10 +10,12 @@ import { FileOperationsCommand } from './file-operations-command.js';
 import { FTPCommand } from './ftp-command.js';
 import { GarbageFinderCommand } from './garbage-finder-command.js';
 import { HelpCommand } from './help-command.js';
+import { OperationQueueCommand } from './operation-queue-command.js';
 import { PingCommand } from './ping-command.js';
 import { ProficashCommand } from './proficash-command.js';
 import { ResticCommand } from './restic-command.js';
 import { ScannerCommand } from './scanner-command.js';
+import { SFTPCommand } from './sftp-command.js';
 import { PdfSplitCommand } from './pdf-split-command.js';
 import { SystemMonitorCommand } from './system-monitor-command.js';
 
@@ -33,7 +35,9 @@ export class CommandRegistry {
     this.register('calculate', new CalculateCommand());
     this.register('help', new HelpCommand(this));
     this.register('file-operations', new FileOperationsCommand());
+    this.register('operation-queue', new OperationQueueCommand());
     this.register('ftp', new FTPCommand());
+    this.register('sftp', new SFTPCommand());
     this.register('proficash', new ProficashCommand());
     this.register('garbage-finder', new GarbageFinderCommand());
     this.register('restic', new ResticCommand());
@@ -0,0 +1,55 @@
+/**
+ * Command Run
+ * Progress and cancellation of a single command execution. Commands are
+ * registered once and shared by all jobs, so a run is passed down the call
+ * chain of an execution instead of being kept on the command instance.
+ */
+
+import { JobContext } from './command-interface.js';
+
+export interface ByteProgress {
+  bytesDone: number;
+  totalBytes: number;
+}
+
+export type FileProgressCallback = (
+  current: number,
+  total: number,
+  fileName: string,
+  bytes?: ByteProgress,
+) => void;
+
+export class CommandRun<
+  Progress extends (...args: any[]) => void = FileProgressCallback,
+> {
+  private stopped = false;
+
+  /**
+   * @param job - Job context when executed as a job
+   * @param progress - Progress callback of this execution
+   */
+  constructor(
+    readonly job?: JobContext,
+    readonly progress?: Progress,
+  ) {
+    job?.onCancel(() => this.cancel());
+  }
+
+  get cancelled(): boolean {
+    return this.stopped;
+  }
+
+  cancel(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Wait while the job is paused and stop when cancelled
+   */
+  async checkpoint(): Promise<void> {
+    await this.job?.checkpoint();
+    if (this.stopped) {
+      throw new Error('Operation cancelled by user');
+    }
+  }
+}
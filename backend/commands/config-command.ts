@@ -19,11 +19,16 @@ const readdir = promisify(fs.readdir);
 const CONFIG_DIR_NAME = 'n2htoolbox';
 
 export class ConfigCommand implements ICommand {
+  /**
+   * @param configDir - Optional directory override (defaults to ~/n2htoolbox/)
+   */
+  constructor(private configDir?: string) {}
+
   /**
    * Get the config directory path
    */
   private getConfigDir(): string {
-    return path.join(os.homedir(), CONFIG_DIR_NAME);
+    return this.configDir || path.join(os.homedir(), CONFIG_DIR_NAME);
   }
 
   /**
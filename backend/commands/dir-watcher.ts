@@ -35,3 +35,35 @@ export function watchDirForFirstFile(
     return null;
   }
 }
+
+/**
+ * Watch a directory and call `onChange(filePath)` for every event on a file
+ * with one of the extensions (lower case, with dot), e.g. to pick up files
+ * dropped into an inbox folder. Unlike watchDirForFirstFile the watcher
+ * does not keep the process alive. Returns the FSWatcher.
+ */
+export function watchDirForFiles(
+  dir: string,
+  extensions: string[],
+  onChange: (filePath: string) => void,
+): fs.FSWatcher | null {
+  if (!dir || !fs.existsSync(dir)) return null;
+
+  try {
+    const watcher = fs.watch(
+      dir,
+      { persistent: false },
+      (eventType, filename) => {
+        if (!filename) return;
+        if (extensions.includes(path.extname(filename).toLowerCase())) {
+          onChange(path.join(dir, filename));
+        }
+      },
+    );
+    // E.g. the folder was removed - the caller notices on its next look
+    watcher.on('error', () => watcher.close());
+    return watcher;
+  } catch (e) {
+    return null;
+  }
+}
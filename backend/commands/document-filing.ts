@@ -0,0 +1,170 @@
+/**
+ * Document Filing
+ * Rules that move scanned documents from the scan folder into a folder
+ * tree, e.g. "sender contains Allianz → Insurance/Allianz/{year}/". The
+ * rules are kept in the DocManager preferences (filingRules in
+ * ~/n2htoolbox/user-preferences.json); the first matching rule wins.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigCommand } from './config-command.js';
+import { DocumentMetadata } from './document-index.js';
+
+export const FILING_RULE_FIELDS = [
+  'sender',
+  'account',
+  'text',
+  'fileName',
+] as const;
+
+export type FilingRuleField = (typeof FILING_RULE_FIELDS)[number];
+
+export interface FilingRule {
+  field: FilingRuleField;
+  pattern: string; // Contained text, case-insensitive, or a regular expression
+  regex?: boolean;
+  folder: string; // Relative to the scan folder, with {year} {month} {sender} {account}
+}
+
+/** What the rules look at for one document */
+export interface FilingFacts {
+  fileName: string;
+  senders: string[]; // OCR sender and companies, the company of the file name
+  accounts: string[];
+  text: string;
+  date: string; // YYYY-MM-DD
+}
+
+const PREFERENCES_FILE = 'user-preferences.json';
+
+export class DocumentFiling {
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  async rules(): Promise<FilingRule[]> {
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: PREFERENCES_FILE,
+    });
+    const rules = result.success && result.data?.filingRules;
+    return Array.isArray(rules)
+      ? rules.filter((rule: FilingRule) => rule.pattern && rule.folder)
+      : [];
+  }
+
+  /**
+   * The facts of a document from its file name and, when it is known, its
+   * OCR text and metadata. DocManager names files
+   * company_name_account_YYYYMMDD.
+   */
+  static facts(
+    fileName: string,
+    indexed?: DocumentMetadata & { text: string },
+  ): FilingFacts {
+    const base = path.basename(fileName, path.extname(fileName));
+    const parts = base.split('_');
+    const nameDate = parts
+      .map((part) => part.match(/^(\d{4})(\d{2})(\d{2})$/))
+      .find(Boolean);
+    return {
+      fileName: path.basename(fileName),
+      senders: [
+        // Not the scan_<timestamp> default name
+        ...(parts.length > 1 && parts[0] !== 'scan' ? [parts[0]] : []),
+        ...(indexed?.sender ? [indexed.sender] : []),
+        ...(indexed?.companies || []),
+      ],
+      accounts: indexed?.accounts || [],
+      text: indexed?.text || '',
+      date: nameDate
+        ? `${nameDate[1]}-${nameDate[2]}-${nameDate[3]}`
+        : indexed?.date || '',
+    };
+  }
+
+  /**
+   * The first rule matching the document, -1 if none does. Rules with an
+   * invalid regular expression never match.
+   */
+  static match(rules: FilingRule[], facts: FilingFacts): number {
+    return rules.findIndex((rule) => {
+      const values =
+        rule.field === 'sender'
+          ? facts.senders
+          : rule.field === 'account'
+            ? facts.accounts
+            : rule.field === 'text'
+              ? [facts.text]
+              : [facts.fileName];
+      if (rule.regex) {
+        try {
+          const pattern = new RegExp(rule.pattern, 'i');
+          return values.some((value) => pattern.test(value));
+        } catch {
+          return false;
+        }
+      }
+      const pattern = rule.pattern.toLowerCase();
+      return values.some((value) => value.toLowerCase().includes(pattern));
+    });
+  }
+
+  /**
+   * The folder of a rule for a document, relative to the scan folder.
+   * Placeholders without a value become "unknown"; path segments are
+   * cleaned so a rule cannot leave the scan folder.
+   */
+  static folder(rule: FilingRule, facts: FilingFacts): string {
+    const [year, month] = facts.date.split('-');
+    const values: Record<string, string | undefined> = {
+      year,
+      month,
+      sender: facts.senders[0],
+      account: facts.accounts[0],
+    };
+    const expanded = rule.folder.replace(
+      /\{(year|month|sender|account)\}/g,
+      (_, name) => values[name] || 'unknown',
+    );
+    return expanded
+      .split(/[\\/]+/)
+      .map((segment) => segment.replace(/[:*?"<>|]/g, '').trim())
+      .filter((segment) => segment && segment !== '.' && segment !== '..')
+      .join(path.sep);
+  }
+
+  /**
+   * Move a document into a folder of the scan folder, together with its
+   * OCR text file and metadata sidecar. Existing files of the same name
+   * are kept, the moved ones get a number (_2, _3, ...).
+   */
+  static move(filePath: string, baseDir: string, folder: string): string {
+    const targetDir = path.join(baseDir, folder);
+    if (path.resolve(path.dirname(filePath)) === path.resolve(targetDir)) {
+      return filePath;
+    }
+    fs.mkdirSync(targetDir, { recursive: true });
+    const extension = path.extname(filePath);
+    const base = path.basename(filePath, extension);
+    const sidecars = ['.txt', '.json'];
+    // The sidecars share the name, so none of the three may exist yet
+    const taken = (name: string) =>
+      [extension, ...sidecars].some((ext) =>
+        fs.existsSync(path.join(targetDir, name + ext)),
+      );
+    let name = base;
+    for (let n = 2; taken(name); n++) {
+      name = `${base}_${n}`;
+    }
+
+    const target = path.join(targetDir, name + extension);
+    fs.renameSync(filePath, target);
+    for (const sidecar of sidecars) {
+      const sidecarFile = path.join(path.dirname(filePath), base + sidecar);
+      if (fs.existsSync(sidecarFile)) {
+        fs.renameSync(sidecarFile, path.join(targetDir, name + sidecar));
+      }
+    }
+    return target;
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Document Inbox
+ * Watches an inbox folder that network scanners and phone scanning apps
+ * drop PDFs and images into. Each new document is recognized and analyzed
+ * in the background and waits in the queue until it is imported into the
+ * scan folder under its final name. The settings are kept in
+ * ~/n2htoolbox/docmanager-inbox.json; the queue is the inbox folder itself.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigCommand } from './config-command.js';
+import { watchDirForFiles } from './dir-watcher.js';
+import { DOCUMENT_EXTENSIONS, DocumentIndex } from './document-index.js';
+
+export interface InboxSettings {
+  enabled: boolean;
+  inboxPath: string;
+}
+
+export type InboxItemStatus = 'waiting' | 'analyzing' | 'ready' | 'failed';
+
+export interface InboxItem {
+  path: string;
+  name: string; // Relative to the inbox folder
+  size: number;
+  modified: number; // mtimeMs
+  status: InboxItemStatus;
+  suggestedName: string;
+  error?: string;
+}
+
+/** What the OCR found in an inbox document */
+export interface InboxAnalysis {
+  text: string;
+  analysis: any;
+  preview: string | null; // Data URL of the first page
+}
+
+export type InboxDocument = InboxItem & InboxAnalysis;
+
+export interface InboxStatus {
+  settings: InboxSettings;
+  running: boolean;
+  items: InboxItem[];
+}
+
+export type InboxAnalyzer = (filePath: string) => Promise<InboxAnalysis>;
+
+const SETTINGS_FILE = 'docmanager-inbox.json';
+
+// Files are picked up once nothing was written to them for this long
+const SETTLE_MS = 3000;
+
+// fs.watch gets no events for most network shares, so the folder is
+// also looked at regularly
+const POLL_INTERVAL_MS = 30000;
+
+const LEGAL_FORMS =
+  /\b(gmbh|ag|se|kg|ohg|ug|mbh|co|e\.?\s?v|ltd|inc|llc)\b\.?/gi;
+
+export class DocumentInbox {
+  private settings: InboxSettings | null = null;
+  private documents = new Map<string, InboxDocument>();
+  private watcher: fs.FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private pending: NodeJS.Timeout | null = null; // Refresh after file events
+  private processing: Promise<void> | null = null;
+
+  constructor(
+    private analyze: InboxAnalyzer,
+    private config: ConfigCommand = new ConfigCommand(),
+  ) {}
+
+  /**
+   * Watch the inbox again if it was enabled before the app was restarted
+   */
+  async resume(): Promise<boolean> {
+    const settings = await this.loadSettings();
+    if (!settings.enabled || this.timer) return false;
+    this.startWatching(settings);
+    return true;
+  }
+
+  /**
+   * Watch an inbox folder, replacing the one watched so far
+   */
+  async start(inboxPath: string): Promise<InboxStatus> {
+    if (!inboxPath) {
+      throw new Error('No inbox folder given');
+    }
+    if (!fs.existsSync(inboxPath) || !fs.statSync(inboxPath).isDirectory()) {
+      throw new Error(`Inbox folder not found: ${inboxPath}`);
+    }
+    const previous = await this.loadSettings();
+    if (path.resolve(previous.inboxPath || '.') !== path.resolve(inboxPath)) {
+      this.documents.clear();
+    }
+    const settings = { enabled: true, inboxPath };
+    await this.saveSettings(settings);
+    this.stopWatching();
+    this.startWatching(settings);
+    return this.status();
+  }
+
+  /**
+   * Stop watching, the documents stay in the inbox folder
+   */
+  async stop(): Promise<InboxStatus> {
+    await this.saveSettings({ ...(await this.loadSettings()), enabled: false });
+    this.stopWatching();
+    return this.status();
+  }
+
+  /**
+   * Stop watching without changing the settings
+   */
+  close(): void {
+    this.stopWatching();
+  }
+
+  async status(): Promise<InboxStatus> {
+    return {
+      settings: await this.loadSettings(),
+      running: this.timer !== null,
+      items: [...this.documents.values()].map(
+        ({ text, analysis, preview, ...item }) => item,
+      ),
+    };
+  }
+
+  /**
+   * An inbox document with its OCR text, analysis and first page
+   */
+  async document(name: string): Promise<InboxDocument> {
+    const document = this.documents.get(await this.inboxFile(name));
+    if (!document) {
+      throw new Error(`Not in the inbox: ${name}`);
+    }
+    return document;
+  }
+
+  /**
+   * Look for new, changed and removed documents in the inbox folder and
+   * analyze the new ones one after the other. Resolves when all of them
+   * are analyzed.
+   */
+  async refresh(now = Date.now()): Promise<void> {
+    const { inboxPath } = await this.loadSettings();
+    const files = inboxPath ? DocumentIndex.documentFiles(inboxPath) : [];
+    for (const filePath of this.documents.keys()) {
+      if (!files.includes(filePath)) this.documents.delete(filePath);
+    }
+
+    let unsettled = false;
+    for (const filePath of files) {
+      let stats: fs.Stats;
+      try {
+        stats = fs.statSync(filePath);
+      } catch {
+        continue; // Moved away in the meantime
+      }
+      if (now - stats.mtimeMs < SETTLE_MS) {
+        unsettled = true;
+        continue;
+      }
+      const known = this.documents.get(filePath);
+      if (known?.size === stats.size && known.modified === stats.mtimeMs) {
+        continue;
+      }
+      this.documents.set(filePath, {
+        path: filePath,
+        name: path.relative(inboxPath, filePath),
+        size: stats.size,
+        modified: stats.mtimeMs,
+        status: 'waiting',
+        suggestedName: '',
+        text: '',
+        analysis: null,
+        preview: null,
+      });
+    }
+    if (unsettled) this.scheduleRefresh(SETTLE_MS);
+
+    await this.processQueue();
+  }
+
+  /**
+   * Move an inbox document into a folder under a new name, the extension
+   * stays. Without a name the suggested one is used. An existing file of
+   * that name is kept, the imported one gets a number (_2, _3, ...).
+   * Returns the new path.
+   */
+  async accept(
+    name: string,
+    targetDir: string,
+    fileName?: string,
+  ): Promise<string> {
+    const document = await this.document(name);
+    const extension = path.extname(document.path);
+    const withoutExtension = (value: string) =>
+      path.basename(value).replace(/\.[^.]+$/, '');
+    const base =
+      (fileName && withoutExtension(fileName)) ||
+      withoutExtension(document.suggestedName) ||
+      withoutExtension(document.path);
+
+    fs.mkdirSync(targetDir, { recursive: true });
+    let target = path.join(targetDir, base + extension);
+    for (let n = 2; fs.existsSync(target); n++) {
+      target = path.join(targetDir, `${base}_${n}${extension}`);
+    }
+
+    try {
+      fs.renameSync(document.path, target);
+    } catch (error: any) {
+      // The inbox is often on another drive or a network share
+      if (error.code !== 'EXDEV') throw error;
+      fs.copyFileSync(document.path, target);
+      fs.unlinkSync(document.path);
+    }
+    this.documents.delete(document.path);
+    return target;
+  }
+
+  /**
+   * Delete a document from the inbox folder
+   */
+  async remove(name: string): Promise<void> {
+    const document = await this.document(name);
+    fs.unlinkSync(document.path);
+    this.documents.delete(document.path);
+  }
+
+  /**
+   * A file name like the DocManager names (company_YYYYMMDD) from the
+   * sender and date the OCR found, with the extension of the file
+   */
+  static suggestName(filePath: string, analysis: any): string {
+    const { sender, date } = DocumentIndex.metadata(analysis);
+    const company = sender
+      .replace(LEGAL_FORMS, ' ')
+      .toLowerCase()
+      .replace(/\s+/g, '-')
+      .replace(/[^a-z0-9äöüß-]/g, '')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '')
+      .substring(0, 30);
+    const parts = [company, date.replace(/-/g, '')].filter(Boolean);
+    const extension = path.extname(filePath);
+    return parts.length > 0
+      ? parts.join('_') + extension.toLowerCase()
+      : path.basename(filePath);
+  }
+
+  private async inboxFile(name: string): Promise<string> {
+    const { inboxPath } = await this.loadSettings();
+    const filePath = path.resolve(inboxPath, name);
+    const relative = path.relative(path.resolve(inboxPath), filePath);
+    if (!inboxPath || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Not in the inbox: ${name}`);
+    }
+    return path.join(inboxPath, relative);
+  }
+
+  private processQueue(): Promise<void> {
+    if (!this.processing) {
+      this.processing = (async () => {
+        // OCR is slow and memory hungry, one document at a time
+        for (;;) {
+          const next = [...this.documents.values()].find(
+            (document) => document.status === 'waiting',
+          );
+          if (!next) break;
+          await this.analyzeDocument(next);
+        }
+      })().finally(() => {
+        this.processing = null;
+      });
+    }
+    return this.processing;
+  }
+
+  private async analyzeDocument(document: InboxDocument): Promise<void> {
+    document.status = 'analyzing';
+    try {
+      const result = await this.analyze(document.path);
+      Object.assign(document, result, {
+        status: 'ready',
+        suggestedName: DocumentInbox.suggestName(
+          document.path,
+          result.analysis,
+        ),
+      });
+    } catch (error: any) {
+      console.warn(`[Inbox] ${document.name} could not be analyzed:`, error);
+      document.status = 'failed';
+      document.error = error.message;
+      document.suggestedName = path.basename(document.path);
+    }
+  }
+
+  private startWatching(settings: InboxSettings): void {
+    this.watcher = watchDirForFiles(
+      settings.inboxPath,
+      DOCUMENT_EXTENSIONS,
+      () => this.scheduleRefresh(SETTLE_MS),
+    );
+    this.timer = setInterval(
+      () => void this.refresh().catch(() => {}),
+      POLL_INTERVAL_MS,
+    );
+    // Watching must not keep a CLI run or test process alive
+    this.timer.unref();
+    void this.refresh().catch((error) =>
+      console.error('[Inbox] Failed to read the inbox folder:', error),
+    );
+  }
+
+  private stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (this.pending) clearTimeout(this.pending);
+    this.pending = null;
+  }
+
+  /**
+   * Refresh once after a burst of file events (a file being copied into
+   * the inbox gets many)
+   */
+  private scheduleRefresh(delayMs: number): void {
+    if (!this.timer) return;
+    if (this.pending) clearTimeout(this.pending);
+    this.pending = setTimeout(() => {
+      this.pending = null;
+      void this.refresh().catch(() => {});
+    }, delayMs);
+    this.pending.unref();
+  }
+
+  private async loadSettings(): Promise<InboxSettings> {
+    if (this.settings) return this.settings;
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: SETTINGS_FILE,
+    });
+    const data = result.success && result.data ? result.data : {};
+    this.settings = {
+      enabled: data.enabled === true,
+      inboxPath: typeof data.inboxPath === 'string' ? data.inboxPath : '',
+    };
+    return this.settings;
+  }
+
+  private async saveSettings(settings: InboxSettings): Promise<void> {
+    const result = await this.config.execute({
+      operation: 'write',
+      filename: SETTINGS_FILE,
+      data: settings,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save inbox settings');
+    }
+    this.settings = settings;
+  }
+}
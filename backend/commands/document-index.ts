@@ -0,0 +1,511 @@
+/**
+ * Document Index
+ * Full-text index of the scan folder, kept in ~/n2htoolbox/. Every
+ * document is stored with its OCR text and the metadata found by
+ * OcrService.analyzeText (sender, dates, account numbers, companies), so
+ * years of scanned letters can be searched without running OCR again.
+ * Updating the index only reads files that are new or changed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigCommand } from './config-command.js';
+
+export interface IndexedDocument {
+  path: string;
+  name: string;
+  size: number;
+  modified: number; // With the size it tells whether to read the file again
+  indexedAt: string;
+  text: string;
+  sender: string;
+  companies: string[];
+  date: string; // Document date: the first date in the text, YYYY-MM-DD
+  accounts: string[];
+  emails: string[];
+}
+
+/** What OcrService.analyzeText found in a document */
+export type DocumentMetadata = Pick<
+  IndexedDocument,
+  'sender' | 'companies' | 'date' | 'accounts' | 'emails'
+>;
+
+/** The OCR text of a document with the result of OcrService.analyzeText */
+export interface DocumentContent {
+  text: string;
+  analysis: any;
+}
+
+export type DocumentReader = (filePath: string) => Promise<DocumentContent>;
+
+export interface IndexUpdate {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: Array<{ path: string; error: string }>;
+  cancelled: boolean;
+}
+
+export interface DocumentQuery {
+  text?: string; // Words and "quoted phrases", all have to occur
+  sender?: string;
+  account?: string;
+  dateFrom?: string; // YYYY-MM-DD
+  dateTo?: string;
+  folder?: string;
+}
+
+export interface SearchHit {
+  path: string;
+  name: string;
+  size: number;
+  modified: number;
+  sender: string;
+  date: string;
+  accounts: string[];
+  snippet: string;
+  matches: number;
+}
+
+const INDEX_FILE = 'docmanager-index.json';
+
+// Files DocManager lists as documents
+export const DOCUMENT_EXTENSIONS = [
+  '.pdf',
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.tif',
+  '.tiff',
+];
+
+// Documents read between two saves of the index
+const SAVE_INTERVAL = 20;
+
+const MAX_HITS = 200;
+const SNIPPET_CONTEXT = 80;
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  januar: 1,
+  january: 1,
+  feb: 2,
+  februar: 2,
+  february: 2,
+  mär: 3,
+  mar: 3,
+  märz: 3,
+  march: 3,
+  apr: 4,
+  april: 4,
+  mai: 5,
+  may: 5,
+  jun: 6,
+  juni: 6,
+  june: 6,
+  jul: 7,
+  juli: 7,
+  july: 7,
+  aug: 8,
+  august: 8,
+  sep: 9,
+  september: 9,
+  okt: 10,
+  oct: 10,
+  oktober: 10,
+  october: 10,
+  nov: 11,
+  november: 11,
+  dez: 12,
+  dec: 12,
+  dezember: 12,
+  december: 12,
+};
+
+export class DocumentIndex {
+  private documents: IndexedDocument[] | null = null;
+  // Writes of the index file, in the order the index changed
+  private saving: Promise<unknown> = Promise.resolve();
+
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  /**
+   * A date as found by OcrService (24.03.2024, 24 03 24, 2024-03-24,
+   * 03/24/2024, 24 März 2024) as YYYY-MM-DD, null if it is no valid date
+   */
+  static isoDate(value: string): string | null {
+    const text = value.trim().toLowerCase();
+    let parts: RegExpMatchArray | null;
+    let day: number, month: number, year: number;
+    if ((parts = text.match(/^(\d{1,2})[.\s]+(\d{1,2})[.\s]+(\d{2,4})$/))) {
+      [day, month, year] = [+parts[1], +parts[2], +parts[3]];
+    } else if ((parts = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/))) {
+      [year, month, day] = [+parts[1], +parts[2], +parts[3]];
+    } else if ((parts = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/))) {
+      [month, day, year] = [+parts[1], +parts[2], +parts[3]];
+    } else if ((parts = text.match(/^(\d{1,2})\s+(\p{L}+)\s+(\d{2,4})$/u))) {
+      [day, month, year] = [+parts[1], MONTHS[parts[2]] || 0, +parts[3]];
+    } else {
+      return null;
+    }
+    if (year < 100) year += year < 70 ? 2000 : 1900;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (
+      year < 1900 ||
+      date.getUTCMonth() !== month - 1 ||
+      date.getUTCDate() !== day
+    ) {
+      return null;
+    }
+    return date.toISOString().slice(0, 10);
+  }
+
+  async load(): Promise<IndexedDocument[]> {
+    if (this.documents) return this.documents;
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: INDEX_FILE,
+    });
+    const documents = result.success && result.data?.documents;
+    this.documents = Array.isArray(documents) ? documents : [];
+    return this.documents;
+  }
+
+  /**
+   * Bring the index up to date with a folder and its subfolders: new and
+   * changed documents are read, documents that are gone are removed. The
+   * changes are merged into the index as it is when saving, so documents
+   * put or moved meanwhile are kept.
+   */
+  async update(
+    folder: string,
+    read: DocumentReader,
+    progress?: (current: number, total: number, filePath: string) => void,
+    cancelled?: () => boolean,
+  ): Promise<IndexUpdate> {
+    const documents = await this.load();
+    const known = new Map(documents.map((doc) => [doc.path, doc]));
+    const files = DocumentIndex.documentFiles(folder);
+    const result: IndexUpdate = {
+      added: 0,
+      updated: 0,
+      removed: 0,
+      unchanged: 0,
+      failed: [],
+      cancelled: false,
+    };
+
+    // Entries to save by path, null for documents that are gone
+    const changes = new Map<string, IndexedDocument | null>();
+    const existing = new Set(files);
+    for (const doc of documents) {
+      if (DocumentIndex.inFolder(doc.path, folder) && !existing.has(doc.path)) {
+        known.delete(doc.path);
+        changes.set(doc.path, null);
+        result.removed++;
+      }
+    }
+
+    const changed = files.filter((filePath) => {
+      const stats = fs.statSync(filePath);
+      const doc = known.get(filePath);
+      return !doc || doc.size !== stats.size || doc.modified !== stats.mtimeMs;
+    });
+    result.unchanged = files.length - changed.length;
+
+    let unsaved = 0;
+    for (let i = 0; i < changed.length; i++) {
+      if (cancelled?.()) {
+        result.cancelled = true;
+        break;
+      }
+      const filePath = changed[i];
+      progress?.(i + 1, changed.length, filePath);
+      try {
+        const content = await read(filePath);
+        if (known.has(filePath)) {
+          result.updated++;
+        } else {
+          result.added++;
+        }
+        const entry = DocumentIndex.entry(filePath, content);
+        known.set(filePath, entry);
+        changes.set(filePath, entry);
+      } catch (error: any) {
+        result.failed.push({ path: filePath, error: error.message });
+      }
+      if (++unsaved >= SAVE_INTERVAL) {
+        await this.merge(changes);
+        unsaved = 0;
+      }
+    }
+
+    await this.merge(changes);
+    return result;
+  }
+
+  /**
+   * Save changed entries into the current index and forget them
+   */
+  private async merge(
+    changes: Map<string, IndexedDocument | null>,
+  ): Promise<void> {
+    const documents = (await this.load()).filter(
+      (doc) => !changes.has(doc.path),
+    );
+    for (const entry of changes.values()) {
+      if (entry) documents.push(entry);
+    }
+    changes.clear();
+    await this.write(documents);
+  }
+
+  /**
+   * Index one document, e.g. a scan that was just saved with its text
+   */
+  async put(filePath: string, content: DocumentContent): Promise<void> {
+    const documents = (await this.load()).filter(
+      (doc) => doc.path !== filePath,
+    );
+    await this.write([...documents, DocumentIndex.entry(filePath, content)]);
+  }
+
+  /**
+   * Keep the entry of a document that was moved or renamed
+   */
+  async move(filePath: string, newPath: string): Promise<void> {
+    const documents = await this.load();
+    const doc = documents.find((entry) => entry.path === filePath);
+    if (doc) {
+      await this.write([
+        ...documents.filter((entry) => entry !== doc && entry.path !== newPath),
+        { ...doc, path: newPath, name: path.basename(newPath) },
+      ]);
+    }
+  }
+
+  async remove(filePath: string): Promise<void> {
+    const documents = await this.load();
+    if (documents.some((doc) => doc.path === filePath)) {
+      await this.write(documents.filter((doc) => doc.path !== filePath));
+    }
+  }
+
+  /**
+   * Documents matching all given filters, the best matches first. Without
+   * search text the newest documents come first.
+   */
+  async search(
+    query: DocumentQuery,
+  ): Promise<{ hits: SearchHit[]; total: number }> {
+    const terms = DocumentIndex.terms(query.text || '');
+    const sender = DocumentIndex.normalize(query.sender || '');
+    const account = DocumentIndex.compact(query.account || '');
+
+    const hits: SearchHit[] = [];
+    for (const doc of await this.load()) {
+      if (query.folder && !DocumentIndex.inFolder(doc.path, query.folder)) {
+        continue;
+      }
+      const date = DocumentIndex.documentDate(doc);
+      if (
+        (query.dateFrom && date < query.dateFrom) ||
+        (query.dateTo && date > query.dateTo)
+      ) {
+        continue;
+      }
+      if (
+        sender &&
+        ![doc.sender, ...doc.companies].some((name) =>
+          DocumentIndex.normalize(name).includes(sender),
+        )
+      ) {
+        continue;
+      }
+      if (
+        account &&
+        ![...doc.accounts, doc.text].some((value) =>
+          DocumentIndex.compact(value).includes(account),
+        )
+      ) {
+        continue;
+      }
+
+      const haystack = DocumentIndex.normalize(
+        `${doc.name} ${doc.sender} ${doc.text}`,
+      );
+      let matches = 0;
+      const found = terms.every((term) => {
+        const count = haystack.split(term).length - 1;
+        matches += count;
+        return count > 0;
+      });
+      if (!found) continue;
+
+      hits.push({
+        path: doc.path,
+        name: doc.name,
+        size: doc.size,
+        modified: doc.modified,
+        sender: doc.sender,
+        date,
+        accounts: doc.accounts,
+        snippet: DocumentIndex.snippet(doc.text, terms),
+        matches,
+      });
+    }
+
+    hits.sort((a, b) => b.matches - a.matches || b.date.localeCompare(a.date));
+    return { hits: hits.slice(0, MAX_HITS), total: hits.length };
+  }
+
+  /**
+   * The senders and account numbers of the indexed documents, most
+   * frequent first, for the search filters
+   */
+  async facets(
+    folder?: string,
+  ): Promise<{ senders: string[]; accounts: string[]; indexed: number }> {
+    const documents = (await this.load()).filter(
+      (doc) => !folder || DocumentIndex.inFolder(doc.path, folder),
+    );
+    const byCount = (values: string[]) => {
+      const counts = new Map<string, number>();
+      for (const value of values) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+      return Array.from(counts.keys()).sort(
+        (a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b),
+      );
+    };
+    return {
+      senders: byCount(documents.map((doc) => doc.sender).filter(Boolean)),
+      accounts: byCount(documents.flatMap((doc) => doc.accounts)),
+      indexed: documents.length,
+    };
+  }
+
+  /**
+   * The document files of a folder and its subfolders, hidden ones skipped
+   */
+  static documentFiles(folder: string): string[] {
+    if (!fs.existsSync(folder)) return [];
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+      if (entry.name.startsWith('.')) continue;
+      const entryPath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...DocumentIndex.documentFiles(entryPath));
+      } else if (
+        DOCUMENT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())
+      ) {
+        files.push(entryPath);
+      }
+    }
+    return files.sort();
+  }
+
+  static metadata(analysis: any): DocumentMetadata {
+    const dates = (analysis?.dates || [])
+      .map((value: string) => DocumentIndex.isoDate(value))
+      .filter(Boolean);
+    return {
+      sender:
+        analysis?.sender && analysis.sender !== 'Unknown'
+          ? analysis.sender
+          : '',
+      companies: analysis?.organizations || [],
+      date: dates[0] || '',
+      accounts: (analysis?.numberSequences || []).map(
+        (item: { sequence: string }) => item.sequence,
+      ),
+      emails: analysis?.emails || [],
+    };
+  }
+
+  private static entry(
+    filePath: string,
+    content: DocumentContent,
+  ): IndexedDocument {
+    const stats = fs.statSync(filePath);
+    return {
+      path: filePath,
+      name: path.basename(filePath),
+      size: stats.size,
+      modified: stats.mtimeMs,
+      indexedAt: new Date().toISOString(),
+      text: content.text,
+      ...DocumentIndex.metadata(content.analysis),
+    };
+  }
+
+  /** The document date, the modification date for documents without one */
+  private static documentDate(doc: IndexedDocument): string {
+    return doc.date || new Date(doc.modified).toISOString().slice(0, 10);
+  }
+
+  private static inFolder(filePath: string, folder: string): boolean {
+    const relative = path.relative(folder, filePath);
+    return (
+      !!relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+    );
+  }
+
+  private static terms(text: string): string[] {
+    const terms: string[] = [];
+    for (const match of text.matchAll(/"([^"]+)"|(\S+)/g)) {
+      const term = DocumentIndex.normalize(match[1] || match[2]);
+      if (term) terms.push(term);
+    }
+    return terms;
+  }
+
+  private static normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+
+  /** Account numbers are compared without spaces, dashes and dots */
+  private static compact(text: string): string {
+    return text.replace(/[\s\-./]/g, '').toLowerCase();
+  }
+
+  /**
+   * The text around the first match, the start of the text when there
+   * is no search text
+   */
+  private static snippet(text: string, terms: string[]): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const lower = flat.toLowerCase();
+    const positions = terms
+      .map((term) => lower.indexOf(term))
+      .filter((index) => index >= 0);
+    const at = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, at - SNIPPET_CONTEXT);
+    const end = Math.min(flat.length, at + SNIPPET_CONTEXT * 2);
+    return (
+      (start > 0 ? '…' : '') +
+      flat.slice(start, end).trim() +
+      (end < flat.length ? '…' : '')
+    );
+  }
+
+  private async write(documents: IndexedDocument[]): Promise<void> {
+    documents.sort((a, b) => a.path.localeCompare(b.path));
+    // Changes made while the file is written build on this one
+    this.documents = documents;
+    const write = this.saving.then(() =>
+      this.config.execute({
+        operation: 'write',
+        filename: INDEX_FILE,
+        data: { documents },
+      }),
+    );
+    this.saving = write.catch(() => {});
+    const result = await write;
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to write the document index');
+    }
+  }
+}
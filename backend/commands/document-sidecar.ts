@@ -0,0 +1,308 @@
+/**
+ * Document Sidecar
+ * A JSON file next to each document (letter.pdf → letter.json) with what
+ * the OCR found in it - dates, amounts, IBANs, e-mail addresses, companies
+ * - and what the user adds: a document type, free tags and a due date.
+ * Like the OCR text file (.txt) it moves with the document.
+ */
+
+import * as fs from 'fs';
+import { DocumentIndex } from './document-index.js';
+
+export const DOCUMENT_TYPES = ['invoice', 'contract', 'letter'] as const;
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+/** Found by the OCR analysis, not changed by the user */
+export interface ExtractedFields {
+  sender: string;
+  companies: string[];
+  dates: string[]; // YYYY-MM-DD, the document date first
+  amounts: number[];
+  ibans: string[];
+  emails: string[];
+  accounts: string[];
+  custom: Record<string, string | number>; // Fields of the extraction templates
+}
+
+export interface DocumentDetails {
+  fields: ExtractedFields;
+  type: DocumentType | '';
+  tags: string[];
+  dueDate: string; // YYYY-MM-DD, empty without
+  done: boolean; // Paid or dealt with, no longer due
+}
+
+export type DetailsChanges = Partial<
+  Pick<DocumentDetails, 'type' | 'tags' | 'dueDate' | 'done'>
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words pointing to a document type; on a tie the earlier type wins
+const TYPE_WORDS: Record<DocumentType, RegExp> = {
+  invoice:
+    /\b(rechnung|invoice|rechnungsbetrag|zahlbar|zahlungsziel|amount due|mahnung|beitragsrechnung)/gi,
+  contract:
+    /\b(vertrag|contract|vertragsnummer|versicherungsschein|police|laufzeit|kündigungsfrist|agreement)/gi,
+  letter: /\b(sehr geehrte|dear|mit freundlichen grüßen|sincerely)/gi,
+};
+
+const DUE_WORDS =
+  /(fällig|zahlbar bis|zahlen sie bis|bis zum|spätestens|frist|due|payable by)/i;
+
+const DUE_DAYS =
+  /(?:innerhalb|within)\s+(?:von\s+)?(\d{1,3})\s+(?:tagen|days)/i;
+
+const DATE_CANDIDATES =
+  /\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[./]\d{1,2}[./]\d{2,4}|\d{1,2}\.?\s+[a-zäA-ZÄ]+\.?\s+\d{4}/g;
+
+const AMOUNT = String.raw`(\d+(?:[.,]\d{3})*(?:[.,]\d{2})?)`;
+const AMOUNT_PATTERNS = [
+  new RegExp(String.raw`(?:€|EUR)\s*${AMOUNT}(?![\d.,]\d)`, 'gi'),
+  // Behind the number only with cents, "Strom 2023 EUR" is no amount
+  new RegExp(
+    String.raw`(?<![\d.,])(\d+(?:[.,]\d{3})*[.,]\d{2})\s*(?:€|EUR)`,
+    'gi',
+  ),
+];
+
+const IBAN_CANDIDATES = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}/g;
+const MIN_IBAN_LENGTH = 15;
+
+export class DocumentSidecar {
+  static path(filePath: string): string {
+    return filePath.replace(/\.[^.]+$/, '') + '.json';
+  }
+
+  /**
+   * The details of a document, null without a sidecar
+   */
+  static read(filePath: string): DocumentDetails | null {
+    const sidecar = DocumentSidecar.path(filePath);
+    if (!fs.existsSync(sidecar)) return null;
+    try {
+      return DocumentSidecar.normalize(
+        JSON.parse(fs.readFileSync(sidecar, 'utf-8')),
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  static write(filePath: string, details: DocumentDetails): void {
+    fs.writeFileSync(
+      DocumentSidecar.path(filePath),
+      JSON.stringify(details, null, 2),
+      'utf-8',
+    );
+  }
+
+  /**
+   * Change what the user added to a document. Without a sidecar the
+   * fields are taken from the text, when it is known.
+   */
+  static update(
+    filePath: string,
+    changes: DetailsChanges,
+    text = '',
+    analysis?: any,
+  ): DocumentDetails {
+    const current =
+      DocumentSidecar.read(filePath) ??
+      DocumentSidecar.fromText(text, analysis);
+    const details = DocumentSidecar.normalize({ ...current, ...changes });
+    DocumentSidecar.write(filePath, details);
+    return details;
+  }
+
+  /**
+   * The details the OCR text and its analysis (OcrService.analyzeText)
+   * give, with a guessed type and due date
+   */
+  static fromText(text: string, analysis?: any): DocumentDetails {
+    const metadata = DocumentIndex.metadata(analysis);
+    const dates = [
+      ...new Set(
+        (analysis?.dates || [])
+          .map((value: string) => DocumentIndex.isoDate(value))
+          .filter(Boolean),
+      ),
+    ] as string[];
+    return {
+      fields: {
+        sender: metadata.sender,
+        companies: metadata.companies,
+        dates,
+        amounts: DocumentSidecar.amounts(text),
+        ibans: DocumentSidecar.ibans(text),
+        emails: metadata.emails,
+        accounts: metadata.accounts,
+        custom: analysis?.extracted || {},
+      },
+      type: DocumentSidecar.guessType(text),
+      tags: [],
+      dueDate: DocumentSidecar.guessDueDate(text, metadata.date),
+      done: false,
+    };
+  }
+
+  /**
+   * Amounts with a currency (€ or EUR) in German (1.234,56) or English
+   * (1,234.56) notation
+   */
+  static amounts(text: string): number[] {
+    const amounts: number[] = [];
+    for (const pattern of AMOUNT_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const amount = DocumentSidecar.parseAmount(match[1]);
+        if (amount !== null && !amounts.includes(amount)) {
+          amounts.push(amount);
+        }
+      }
+    }
+    return amounts;
+  }
+
+  static parseAmount(value: string): number | null {
+    const decimals = value.match(/[.,](\d{2})$/);
+    const whole = (decimals ? value.slice(0, -3) : value).replace(/[.,]/g, '');
+    if (!/^\d+$/.test(whole)) return null;
+    return Number(whole) + (decimals ? Number(decimals[1]) / 100 : 0);
+  }
+
+  /**
+   * IBANs in the text with a valid checksum, without spaces. A candidate
+   * can run into the following words, so its longest valid start counts.
+   */
+  static ibans(text: string): string[] {
+    const ibans: string[] = [];
+    for (const [candidate] of text.toUpperCase().matchAll(IBAN_CANDIDATES)) {
+      const compact = candidate.replace(/ /g, '');
+      for (let length = compact.length; length >= MIN_IBAN_LENGTH; length--) {
+        const iban = compact.slice(0, length);
+        if (DocumentSidecar.validIban(iban)) {
+          if (!ibans.includes(iban)) ibans.push(iban);
+          break;
+        }
+      }
+    }
+    return ibans;
+  }
+
+  /**
+   * The ISO 13616 checksum: the IBAN with the first four characters moved
+   * to the end and letters as numbers (A = 10) modulo 97 is 1
+   */
+  static validIban(iban: string): boolean {
+    const compact = iban.replace(/\s/g, '').toUpperCase();
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) return false;
+    const digits = (compact.slice(4) + compact.slice(0, 4)).replace(
+      /[A-Z]/g,
+      (letter) => String(letter.charCodeAt(0) - 55),
+    );
+    let remainder = 0;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+    return remainder === 1;
+  }
+
+  /**
+   * The type whose words appear most often, empty without any
+   */
+  static guessType(text: string): DocumentType | '' {
+    let best: DocumentType | '' = '';
+    let bestCount = 0;
+    for (const type of DOCUMENT_TYPES) {
+      const count = text.match(TYPE_WORDS[type])?.length ?? 0;
+      if (count > bestCount) {
+        best = type;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * A date on a line that says it is due ("zahlbar bis 31.03.2024"), or
+   * the document date plus a payment term ("innerhalb von 14 Tagen")
+   */
+  static guessDueDate(text: string, documentDate = ''): string {
+    for (const line of text.split('\n')) {
+      const date = DUE_WORDS.test(line) && DocumentSidecar.firstDate(line);
+      if (date) return date;
+    }
+    const term = text.match(DUE_DAYS);
+    if (term && documentDate) {
+      return new Date(Date.parse(documentDate) + Number(term[1]) * DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+    }
+    return '';
+  }
+
+  /**
+   * The first valid date in a text as YYYY-MM-DD, empty without
+   */
+  static firstDate(text: string): string {
+    for (const [candidate] of text.matchAll(DATE_CANDIDATES)) {
+      const date = DocumentIndex.isoDate(candidate);
+      if (date) return date;
+    }
+    return '';
+  }
+
+  /**
+   * Documents that are due within the given days or overdue, and not done
+   */
+  static isDue(
+    details: DocumentDetails | null,
+    days: number,
+    today = new Date().toISOString().slice(0, 10),
+  ): boolean {
+    if (!details?.dueDate || details.done) return false;
+    const until = new Date(Date.parse(today) + days * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    return details.dueDate <= until;
+  }
+
+  private static normalize(data: any): DocumentDetails {
+    const strings = (value: any): string[] =>
+      Array.isArray(value)
+        ? value.map(String).filter((entry) => entry.trim())
+        : [];
+    const fields = data?.fields || {};
+    return {
+      fields: {
+        sender: typeof fields.sender === 'string' ? fields.sender : '',
+        companies: strings(fields.companies),
+        dates: strings(fields.dates),
+        amounts: Array.isArray(fields.amounts)
+          ? fields.amounts.map(Number).filter(Number.isFinite)
+          : [],
+        ibans: strings(fields.ibans),
+        emails: strings(fields.emails),
+        accounts: strings(fields.accounts),
+        custom: Object.fromEntries(
+          Object.entries(fields.custom || {}).filter(
+            ([, value]) =>
+              typeof value === 'string' ||
+              (typeof value === 'number' && Number.isFinite(value)),
+          ),
+        ) as Record<string, string | number>,
+      },
+      type: DOCUMENT_TYPES.includes(data?.type) ? data.type : '',
+      tags: [
+        ...new Set(strings(data?.tags).map((tag) => tag.trim())),
+      ] as string[],
+      dueDate:
+        typeof data?.dueDate === 'string' &&
+        /^\d{4}-\d{2}-\d{2}$/.test(data.dueDate)
+          ? data.dueDate
+          : '',
+      done: data?.done === true,
+    };
+  }
+}
@@ -0,0 +1,480 @@
+/**
+ * Duplicate Helper
+ * Finds duplicate files below a folder. Candidates are narrowed down in
+ * three steps so most files are never read completely: same size, same
+ * partial hash (start and end of the file), same full SHA-256. Duplicates
+ * can then be deleted or replaced with hard links, keeping one copy per
+ * group chosen by a rule.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * keep-newest    - keep the most recently modified copy
+ * keep-oldest    - keep the oldest copy
+ * keep-in-folder - keep the copies inside a folder, remove those outside
+ */
+export type DuplicateKeepRule =
+  | 'keep-newest'
+  | 'keep-oldest'
+  | 'keep-in-folder';
+
+export type DuplicateCleanupAction = 'delete' | 'hardlink';
+
+export interface DuplicateFile {
+  path: string;
+  name: string;
+  mtimeMs: number;
+  modified: string;
+}
+
+export interface DuplicateGroup {
+  hash: string;
+  size: number; // Size of one copy
+  files: DuplicateFile[];
+  wastedBytes: number; // Space taken by all copies but one
+}
+
+export interface DuplicateScanResult {
+  groups: DuplicateGroup[]; // Most wasted space first
+  filesScanned: number;
+  duplicateFiles: number; // Files that could be removed
+  wastedBytes: number;
+}
+
+export interface DuplicateProgress {
+  phase: 'scanning' | 'partial-hash' | 'full-hash';
+  filesScanned: number;
+  bytesHashed: number;
+  percentage: number;
+  currentFile: string;
+}
+
+export interface DuplicateHooks {
+  /** Waits while paused, throws when cancelled */
+  checkpoint?: () => Promise<void>;
+  onProgress?: (progress: DuplicateProgress) => void;
+}
+
+export interface DuplicateScanOptions {
+  /** Smaller files are ignored, empty files are never duplicates */
+  minSize: number;
+  skipDirectory?: (name: string) => boolean;
+}
+
+export interface DuplicateCleanupItem {
+  keep: string[];
+  remove: string[];
+  size: number;
+}
+
+export interface DuplicateCleanupPlan {
+  items: DuplicateCleanupItem[];
+  skippedGroups: number; // Groups without a copy to keep (or only one left)
+  files: number;
+  bytes: number;
+}
+
+export interface DuplicateCleanupResult {
+  deleted: number;
+  linked: number;
+  freedBytes: number;
+  errors: Array<{ path: string; error: string }>;
+}
+
+interface Candidate {
+  path: string;
+  size: number;
+  mtimeMs: number;
+}
+
+// Bytes read from the start and from the end of a file for the partial hash
+const PARTIAL_HASH_SIZE = 64 * 1024;
+const PROGRESS_INTERVAL_MS = 200;
+
+export class DuplicateHelper {
+  /**
+   * Find groups of files with identical content below a folder
+   */
+  static async findDuplicates(
+    rootPath: string,
+    options: DuplicateScanOptions,
+    hooks: DuplicateHooks = {},
+  ): Promise<DuplicateScanResult> {
+    let phase: DuplicateProgress['phase'] = 'scanning';
+    let filesScanned = 0;
+    let bytesHashed = 0;
+    let bytesToHash = 0;
+    let lastReport = 0;
+    const report = (currentFile: string, force = false) => {
+      const now = Date.now();
+      if (!hooks.onProgress) return;
+      if (!force && now - lastReport < PROGRESS_INTERVAL_MS) return;
+      lastReport = now;
+      // The partial hashes are cheap, the full hashes take most of the time
+      const done = bytesToHash > 0 ? bytesHashed / bytesToHash : 0;
+      const percentage =
+        phase === 'scanning'
+          ? 0
+          : phase === 'partial-hash'
+            ? Math.round(done * 10)
+            : Math.round(10 + done * 89);
+      hooks.onProgress({
+        phase,
+        filesScanned,
+        bytesHashed,
+        percentage,
+        currentFile,
+      });
+    };
+
+    // 1. Same size
+    const bySize = new Map<number, Candidate[]>();
+    const seenInodes = new Set<string>();
+    const scan = async (dirPath: string): Promise<void> => {
+      await hooks.checkpoint?.();
+      let items: fs.Dirent[];
+      try {
+        items = await fs.promises.readdir(dirPath, { withFileTypes: true });
+      } catch {
+        // Skip folders that can't be read
+        return;
+      }
+      for (const item of items) {
+        const fullPath = path.join(dirPath, item.name);
+        if (item.isDirectory()) {
+          if (!options.skipDirectory?.(item.name)) await scan(fullPath);
+          continue;
+        }
+        // Symlinks and special files are skipped
+        if (!item.isFile()) continue;
+        try {
+          const stats = await fs.promises.stat(fullPath);
+          filesScanned++;
+          report(fullPath);
+          if (stats.size === 0 || stats.size < options.minSize) continue;
+          // Hard links to one file are not duplicates, keep the first path
+          const inode = `${stats.dev}:${stats.ino}`;
+          if (stats.ino && seenInodes.has(inode)) continue;
+          seenInodes.add(inode);
+
+          const candidate = {
+            path: fullPath,
+            size: stats.size,
+            mtimeMs: stats.mtimeMs,
+          };
+          const group = bySize.get(stats.size);
+          if (group) group.push(candidate);
+          else bySize.set(stats.size, [candidate]);
+        } catch {
+          // Skip files that vanished or can't be accessed
+        }
+      }
+    };
+    await scan(rootPath);
+
+    let candidates = [...bySize.values()].filter((g) => g.length > 1);
+
+    // 2. Same partial hash. Small files are read completely here, so the
+    // partial hash already is their full hash.
+    phase = 'partial-hash';
+    bytesHashed = 0;
+    bytesToHash = this.sum(candidates.flat(), (c) =>
+      Math.min(c.size, 2 * PARTIAL_HASH_SIZE),
+    );
+    const fullHashes = new Map<Candidate, string>();
+    candidates = await this.regroup(candidates, hooks, async (candidate) => {
+      report(candidate.path);
+      const hash = await this.partialHash(candidate.path, candidate.size);
+      bytesHashed += Math.min(candidate.size, 2 * PARTIAL_HASH_SIZE);
+      if (candidate.size <= 2 * PARTIAL_HASH_SIZE) {
+        fullHashes.set(candidate, hash);
+      }
+      return hash;
+    });
+
+    // 3. Same full hash
+    phase = 'full-hash';
+    bytesHashed = 0;
+    bytesToHash = this.sum(candidates.flat(), (c) =>
+      fullHashes.has(c) ? 0 : c.size,
+    );
+    const groups = await this.regroup(candidates, hooks, async (candidate) => {
+      const known = fullHashes.get(candidate);
+      if (known) return known;
+      report(candidate.path);
+      const hash = await this.hashFile(candidate.path, hooks, (bytes) => {
+        bytesHashed += bytes;
+        report(candidate.path);
+      });
+      fullHashes.set(candidate, hash);
+      return hash;
+    });
+    report('', true);
+
+    const result: DuplicateGroup[] = groups.map((group) => ({
+      hash: fullHashes.get(group[0])!,
+      size: group[0].size,
+      files: group.map((c) => ({
+        path: c.path,
+        name: path.basename(c.path),
+        mtimeMs: c.mtimeMs,
+        modified: new Date(c.mtimeMs).toISOString(),
+      })),
+      wastedBytes: group[0].size * (group.length - 1),
+    }));
+    result.sort((a, b) => b.wastedBytes - a.wastedBytes);
+
+    return {
+      groups: result,
+      filesScanned,
+      duplicateFiles: this.sum(result, (g) => g.files.length - 1),
+      wastedBytes: this.sum(result, (g) => g.wastedBytes),
+    };
+  }
+
+  /**
+   * Decide per group which copies are kept and which are removed. Files are
+   * checked again, so groups from an older scan can be passed in.
+   */
+  static async planCleanup(
+    groups: string[][],
+    rule: DuplicateKeepRule,
+    keepFolder?: string,
+  ): Promise<DuplicateCleanupPlan> {
+    if (rule === 'keep-in-folder' && !keepFolder) {
+      throw new Error('Folder to keep is required');
+    }
+
+    const items: DuplicateCleanupItem[] = [];
+    let skippedGroups = 0;
+    for (const group of groups) {
+      const files: Candidate[] = [];
+      for (const filePath of group) {
+        try {
+          const stats = await fs.promises.stat(filePath);
+          if (stats.isFile()) {
+            files.push({
+              path: filePath,
+              size: stats.size,
+              mtimeMs: stats.mtimeMs,
+            });
+          }
+        } catch {
+          // Already gone
+        }
+      }
+
+      let keep: Candidate[];
+      if (rule === 'keep-in-folder') {
+        keep = files.filter((f) => this.isInside(keepFolder!, f.path));
+      } else {
+        const pick = files.reduce<Candidate | undefined>(
+          (best, f) =>
+            !best ||
+            (rule === 'keep-newest'
+              ? f.mtimeMs > best.mtimeMs
+              : f.mtimeMs < best.mtimeMs)
+              ? f
+              : best,
+          undefined,
+        );
+        keep = pick ? [pick] : [];
+      }
+      const remove = files.filter((f) => !keep.includes(f));
+
+      if (keep.length === 0 || remove.length === 0) {
+        skippedGroups++;
+        continue;
+      }
+      items.push({
+        keep: keep.map((f) => f.path),
+        remove: remove.map((f) => f.path),
+        size: keep[0].size,
+      });
+    }
+
+    return {
+      items,
+      skippedGroups,
+      files: this.sum(items, (i) => i.remove.length),
+      bytes: this.sum(items, (i) => i.remove.length * i.size),
+    };
+  }
+
+  /**
+   * Delete the removed copies or replace them with hard links to the kept
+   * copy. Every file is compared with the kept copy first, files that
+   * changed since the scan are left alone.
+   */
+  static async applyCleanup(
+    plan: DuplicateCleanupPlan,
+    action: DuplicateCleanupAction,
+    hooks: DuplicateHooks = {},
+  ): Promise<DuplicateCleanupResult> {
+    const result: DuplicateCleanupResult = {
+      deleted: 0,
+      linked: 0,
+      freedBytes: 0,
+      errors: [],
+    };
+
+    for (const item of plan.items) {
+      const keepPath = item.keep[0];
+      let keepHash: string;
+      let keepStats: fs.Stats;
+      try {
+        keepStats = await fs.promises.stat(keepPath);
+        keepHash = await this.hashFile(keepPath, hooks);
+      } catch (error: any) {
+        if (error.message === 'Operation cancelled by user') throw error;
+        for (const filePath of item.remove) {
+          result.errors.push({
+            path: filePath,
+            error: `Kept copy ${keepPath} is not readable: ${error.message}`,
+          });
+        }
+        continue;
+      }
+
+      for (const filePath of item.remove) {
+        await hooks.checkpoint?.();
+        hooks.onProgress?.({
+          phase: 'full-hash',
+          filesScanned: result.deleted + result.linked,
+          bytesHashed: result.freedBytes,
+          percentage: Math.round(
+            ((result.deleted + result.linked + result.errors.length) /
+              plan.files) *
+              100,
+          ),
+          currentFile: filePath,
+        });
+        try {
+          const stats = await fs.promises.stat(filePath);
+          const sameFile =
+            stats.dev === keepStats.dev && stats.ino === keepStats.ino;
+          if (
+            !sameFile &&
+            (stats.size !== keepStats.size ||
+              (await this.hashFile(filePath, hooks)) !== keepHash)
+          ) {
+            throw new Error('File changed since the scan');
+          }
+
+          if (action === 'delete') {
+            await fs.promises.unlink(filePath);
+            result.deleted++;
+          } else if (!sameFile) {
+            if (stats.dev !== keepStats.dev) {
+              throw new Error('Hard links only work on the same drive');
+            }
+            // Link next to the file first, so it is never missing
+            const tempPath = `${filePath}.nhlink-${process.pid}`;
+            await fs.promises.link(keepPath, tempPath);
+            try {
+              await fs.promises.rename(tempPath, filePath);
+            } catch (error) {
+              await fs.promises.unlink(tempPath).catch(() => {});
+              throw error;
+            }
+            result.linked++;
+          }
+          // Another link of the kept file frees nothing
+          if (!sameFile) result.freedBytes += stats.size;
+        } catch (error: any) {
+          if (error.message === 'Operation cancelled by user') throw error;
+          result.errors.push({ path: filePath, error: error.message });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Split groups by a key, groups with a single file are dropped
+   */
+  private static async regroup(
+    groups: Candidate[][],
+    hooks: DuplicateHooks,
+    keyOf: (candidate: Candidate) => Promise<string>,
+  ): Promise<Candidate[][]> {
+    const result: Candidate[][] = [];
+    for (const group of groups) {
+      const byKey = new Map<string, Candidate[]>();
+      for (const candidate of group) {
+        await hooks.checkpoint?.();
+        let key: string;
+        try {
+          key = await keyOf(candidate);
+        } catch (error: any) {
+          if (error.message === 'Operation cancelled by user') throw error;
+          continue;
+        }
+        const same = byKey.get(key);
+        if (same) same.push(candidate);
+        else byKey.set(key, [candidate]);
+      }
+      result.push(...[...byKey.values()].filter((g) => g.length > 1));
+    }
+    return result;
+  }
+
+  private static async partialHash(
+    filePath: string,
+    size: number,
+  ): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      if (size <= 2 * PARTIAL_HASH_SIZE) {
+        hash.update(await handle.readFile());
+      } else {
+        const buffer = Buffer.alloc(PARTIAL_HASH_SIZE);
+        await handle.read(buffer, 0, PARTIAL_HASH_SIZE, 0);
+        hash.update(buffer);
+        await handle.read(
+          buffer,
+          0,
+          PARTIAL_HASH_SIZE,
+          size - PARTIAL_HASH_SIZE,
+        );
+        hash.update(buffer);
+      }
+    } finally {
+      await handle.close();
+    }
+    return hash.digest('hex');
+  }
+
+  private static async hashFile(
+    filePath: string,
+    hooks: DuplicateHooks,
+    onBytes?: (bytes: number) => void,
+  ): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    // Pause and cancel also work inside large files
+    for await (const chunk of fs.createReadStream(filePath)) {
+      await hooks.checkpoint?.();
+      hash.update(chunk as Buffer);
+      onBytes?.((chunk as Buffer).length);
+    }
+    return hash.digest('hex');
+  }
+
+  private static isInside(folder: string, filePath: string): boolean {
+    const relative = path.relative(path.resolve(folder), filePath);
+    return (
+      relative !== '' &&
+      !relative.startsWith('..') &&
+      !path.isAbsolute(relative)
+    );
+  }
+
+  private static sum<T>(items: T[], value: (item: T) => number): number {
+    return items.reduce((total, item) => total + value(item), 0);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Extraction Templates
+ * Fields that OcrService.analyzeText reads from a document besides its
+ * built-in patterns, e.g. the text behind "Versicherungsschein-Nr." as the
+ * policy number. A field takes the text behind an anchor or the match of a
+ * regular expression and converts it to a date, an amount or an IBAN. A
+ * template can be limited to one sender. The templates are kept in the
+ * DocManager preferences (extractionTemplates in
+ * ~/n2htoolbox/user-preferences.json); for a field found by several
+ * templates the first one wins.
+ */
+
+import { ConfigCommand } from './config-command.js';
+import { DocumentSidecar } from './document-sidecar.js';
+
+export const EXTRACTION_RULES = ['anchor', 'regex'] as const;
+export const EXTRACTION_TYPES = ['text', 'date', 'amount', 'iban'] as const;
+
+export type ExtractionRule = (typeof EXTRACTION_RULES)[number];
+export type ExtractionType = (typeof EXTRACTION_TYPES)[number];
+
+export interface ExtractionField {
+  name: string;
+  rule: ExtractionRule;
+  pattern: string; // Anchor text (case-insensitive) or regular expression, its first group is the value
+  type: ExtractionType;
+}
+
+export interface ExtractionTemplate {
+  name: string;
+  sender?: string; // Only for documents whose sender or companies contain it
+  fields: ExtractionField[];
+}
+
+export type ExtractedValue = string | number; // Dates as YYYY-MM-DD
+
+/** A field of a template run against a text, for the test bench */
+export interface FieldResult {
+  name: string;
+  raw: string | null; // What the rule found
+  value: ExtractedValue | null; // Converted to the type of the field
+  error?: string;
+}
+
+export interface TemplateTest {
+  applies: boolean; // Whether the sender of the document matches
+  fields: FieldResult[];
+}
+
+const PREFERENCES_FILE = 'user-preferences.json';
+
+const AMOUNT = /\d+(?:[.,]\d{3})*(?:[.,]\d{2})?(?!\d)/;
+
+const TYPE_ERRORS: Record<ExtractionType, string> = {
+  text: 'Empty value',
+  date: 'No valid date',
+  amount: 'No amount',
+  iban: 'No IBAN with a valid checksum',
+};
+
+export class ExtractionTemplates {
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  async templates(): Promise<ExtractionTemplate[]> {
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: PREFERENCES_FILE,
+    });
+    const templates = result.success && result.data?.extractionTemplates;
+    return Array.isArray(templates)
+      ? templates
+          .map((template: ExtractionTemplate) => ({
+            ...template,
+            fields: (template.fields || []).filter(
+              (field) => field.name && field.pattern,
+            ),
+          }))
+          .filter((template) => template.fields.length > 0)
+      : [];
+  }
+
+  static appliesTo(template: ExtractionTemplate, senders: string[]): boolean {
+    const scope = template.sender?.trim().toLowerCase();
+    return (
+      !scope || senders.some((sender) => sender.toLowerCase().includes(scope))
+    );
+  }
+
+  /**
+   * The text a field's rule finds. An anchor gives the rest of its line up
+   * to the next column (two or more spaces), or the next line when nothing
+   * follows it. Throws for an invalid regular expression.
+   */
+  static find(field: ExtractionField, text: string): string | null {
+    if (field.rule === 'regex') {
+      const match = text.match(new RegExp(field.pattern, 'im'));
+      return match ? (match[1] ?? match[0]).trim() : null;
+    }
+
+    const start = text.toLowerCase().indexOf(field.pattern.toLowerCase());
+    if (start < 0) return null;
+    const [line, ...following] = text
+      .slice(start + field.pattern.length)
+      .split('\n');
+    const rest = line.replace(/^[\s:#.-]+/, '');
+    const value = rest
+      ? rest.split(/\s{2,}|\t/)[0]
+      : following.find((next) => next.trim()) || '';
+    return value.trim() || null;
+  }
+
+  static convert(raw: string, type: ExtractionType): ExtractedValue | null {
+    switch (type) {
+      case 'date':
+        return DocumentSidecar.firstDate(raw) || null;
+      case 'amount': {
+        const amount = raw.match(AMOUNT);
+        return amount ? DocumentSidecar.parseAmount(amount[0]) : null;
+      }
+      case 'iban':
+        return DocumentSidecar.ibans(raw)[0] ?? null;
+      default:
+        return raw || null;
+    }
+  }
+
+  /**
+   * Every field of a template with what it found, whether or not the
+   * template applies to the senders
+   */
+  static run(
+    template: ExtractionTemplate,
+    text: string,
+    senders: string[],
+  ): TemplateTest {
+    return {
+      applies: ExtractionTemplates.appliesTo(template, senders),
+      fields: template.fields.map((field) => {
+        let raw: string | null;
+        try {
+          raw = ExtractionTemplates.find(field, text);
+        } catch (error: any) {
+          return {
+            name: field.name,
+            raw: null,
+            value: null,
+            error: error.message,
+          };
+        }
+        if (raw === null) {
+          return { name: field.name, raw, value: null, error: 'Not found' };
+        }
+        const value = ExtractionTemplates.convert(raw, field.type);
+        return value === null
+          ? { name: field.name, raw, value, error: TYPE_ERRORS[field.type] }
+          : { name: field.name, raw, value };
+      }),
+    };
+  }
+
+  /**
+   * The values of the templates applying to a document by field name
+   */
+  static apply(
+    templates: ExtractionTemplate[],
+    text: string,
+    senders: string[],
+  ): Record<string, ExtractedValue> {
+    const values: Record<string, ExtractedValue> = {};
+    for (const template of templates) {
+      const test = ExtractionTemplates.run(template, text, senders);
+      if (!test.applies) continue;
+      for (const field of test.fields) {
+        if (field.value !== null && !(field.name in values)) {
+          values[field.name] = field.value;
+        }
+      }
+    }
+    return values;
+  }
+}
@@ -8,7 +8,45 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { promisify } from 'util';
-import { CommandParameter, ICommand } from './command-interface.js';
+import {
+  CommandParameter,
+  ICommand,
+  JobContext,
+  JobProgress,
+} from './command-interface.js';
+import {
+  ARCHIVE_WRITE_FORMATS,
+  ArchiveWriteOptions,
+  ArchiveWriter,
+} from './archive-writer.js';
+import {
+  ByteProgress,
+  CommandRun,
+  FileProgressCallback,
+} from './command-run.js';
+import { ConfigCommand } from './config-command.js';
+import {
+  DEFAULT_MAX_RESULTS,
+  SearchEntry,
+  SearchEntryType,
+  SearchHelper,
+  SearchHooks,
+  SearchOptions,
+  SearchProgress,
+  SearchSource,
+  WalkedEntry,
+} from './search-helper.js';
+import { SearchIndex, SearchIndexInfo } from './search-index.js';
+import {
+  SyncAction,
+  SyncCompareStrategy,
+  SyncHelper,
+  SyncMode,
+  SyncProgress,
+} from './sync-helper.js';
+import { VfsEntry, VfsError } from './vfs-provider.js';
+import { SmbMountResult, SmbProvider } from './vfs-smb-provider.js';
+import { VfsListing, VfsWalkEntry, VirtualFileSystem } from './vfs.js';
 
 const readdir = promisify(fs.readdir);
 const stat = promisify(fs.stat);
@@ -21,6 +59,28 @@ const rmdir = promisify(fs.rmdir);
 const unlink = promisify(fs.unlink);
 const execPromise = promisify(exec);
 
+// Renderer channels for operations that existing UI listeners track
+const PROGRESS_CHANNELS: Record<string, string> = {
+  zip: 'zip-progress',
+  copy: 'copy-progress',
+  move: 'copy-progress',
+  compare: 'compare-progress',
+  'directory-size': 'directory-size-progress',
+  search: 'search-progress',
+  sync: 'sync-progress',
+};
+
+// Minimum time between byte progress reports of a copy
+const PROGRESS_INTERVAL_MS = 200;
+
+const SYNC_MODES: SyncMode[] = ['mirror', 'update-only', 'two-way'];
+const SYNC_COMPARE_STRATEGIES: SyncCompareStrategy[] = [
+  'size',
+  'mtime',
+  'checksum',
+];
+const SEARCH_ENTRY_TYPES: SearchEntryType[] = ['all', 'files', 'directories'];
+
 // net.exe is not on PATH in the spawned CLI child process — always use the full path.
 const NET_EXE = `${process.env.SystemRoot || 'C:\\Windows'}\\System32\\net.exe`;
 
@@ -80,26 +140,102 @@ function loadN2hEnvFile(dirPath: string): Record<string, string> {
 }
 
 export class FileOperationsCommand implements ICommand {
-  private progressCallback?: (
-    current: number,
-    total: number,
-    fileName: string,
-  ) => void;
-  private cancelled: boolean = false;
+  private progressCallback?: FileProgressCallback;
+  private runs = new Set<CommandRun>();
+
+  // Local, archive, FTP, SFTP and SMB paths are all handled through the VFS
+  private readonly vfs: VirtualFileSystem;
+  private readonly smb: SmbProvider;
+  private readonly searchIndex: SearchIndex;
+
+  /**
+   * @param config - Where search indexes are stored (defaults to ~/n2htoolbox/)
+   */
+  constructor(config: ConfigCommand = new ConfigCommand()) {
+    ({ vfs: this.vfs, smb: this.smb } = VirtualFileSystem.createDefault(
+      (uncPath, smbUrl) => this.mountSmbShare(uncPath, smbUrl),
+    ));
+    this.searchIndex = new SearchIndex(config);
+  }
 
-  setProgressCallback(
-    callback: (current: number, total: number, fileName: string) => void,
-  ) {
+  /**
+   * Progress of executions that don't run as a job
+   */
+  setProgressCallback(callback: FileProgressCallback) {
     this.progressCallback = callback;
   }
 
+  /**
+   * Cancel all running operations
+   */
   cancel() {
-    this.cancelled = true;
+    this.runs.forEach((run) => run.cancel());
     console.log('[FileOps] Operation cancelled');
   }
 
-  resetCancellation() {
-    this.cancelled = false;
+  /**
+   * Progress and cancellation of one execution; a job gets its progress
+   * as job events, other callers through the progress callback
+   */
+  private createRun(operation: string, job?: JobContext): CommandRun {
+    return new CommandRun(
+      job,
+      job
+        ? (current, total, fileName, bytes) =>
+            job.report(
+              this.toJobProgress(operation, current, total, fileName, bytes),
+            )
+        : this.progressCallback,
+    );
+  }
+
+  /**
+   * Map the (current, total, fileName) progress of an operation to a job progress event;
+   * copies with byte progress take their percentage from the bytes
+   */
+  private toJobProgress(
+    operation: string,
+    current: number,
+    total: number,
+    fileName: string,
+    bytes?: ByteProgress,
+  ): JobProgress {
+    const channel = PROGRESS_CHANNELS[operation];
+
+    // For directory-size, 'total' is the accumulated size, not a count
+    if (operation === 'directory-size') {
+      return {
+        current,
+        message: fileName,
+        channel,
+        data: { current, totalSize: total, fileName },
+      };
+    }
+
+    // For search, 'current' is files scanned, 'total' is 0 (unknown)
+    if (operation === 'search') {
+      return {
+        current,
+        message: fileName,
+        channel,
+        data: { filesScanned: current, currentFile: fileName },
+      };
+    }
+
+    const percentage =
+      bytes && bytes.totalBytes > 0
+        ? Math.round((bytes.bytesDone / bytes.totalBytes) * 100)
+        : total > 0
+          ? Math.round((current / total) * 100)
+          : 0;
+    return {
+      current,
+      total,
+      percentage,
+      message: fileName,
+      channel,
+      data: { current, total, fileName, percentage, ...bytes },
+    };
   }
 
   /**
@@ -126,7 +262,7 @@ export class FileOperationsCommand implements ICommand {
     return newPath;
   }
 
-  async execute(params: any): Promise<any> {
+  async execute(params: any, job?: JobContext): Promise<any> {
     const {
       operation,
       folderPath,
@@ -138,8 +274,8 @@ export class FileOperationsCommand implements ICommand {
       smbUrl,
     } = params;
 
-    // Reset cancellation flag at the start of each operation
-    this.resetCancellation();
+    const run = this.createRun(operation, job);
+    this.runs.add(run);
 
     try {
       switch (operation) {
@@ -155,11 +291,15 @@ export class FileOperationsCommand implements ICommand {
           // Support copying multiple files in one operation when sourcePath is an array
           if (Array.isArray(params.sourcePath)) {
             return await this.copyMultipleFiles(
+              run,
               params.sourcePath,
               destinationPath,
+              params.overwrite === true,
+              params.failOnConflict === true,
             );
           }
           return await this.copyFile(
+            run,
             sourcePath,
             destinationPath,
             params.overwrite === true,
@@ -176,11 +316,15 @@ export class FileOperationsCommand implements ICommand {
           // Support moving multiple files in one operation when sourcePath is an array
           if (Array.isArray(params.sourcePath)) {
             return await this.moveMultipleFiles(
+              run,
               params.sourcePath,
               destinationPath,
+              params.overwrite === true,
+              params.failOnConflict === true,
             );
           }
           return await this.moveFile(
+            run,
             sourcePath,
             destinationPath,
             params.overwrite === true,
@@ -190,6 +334,10 @@ export class FileOperationsCommand implements ICommand {
         case 'mkdir':
           return await this.createDirectory(params.dirPath);
         case 'delete':
+          // Support deleting multiple files in one operation when sourcePath is an array
+          if (Array.isArray(params.sourcePath)) {
+            return await this.deleteMultipleFiles(run, params.sourcePath);
+          }
           return await this.deleteFile(sourcePath);
         case 'execute-command':
           return await this.executeCommand(command, workingDir);
@@ -200,17 +348,30 @@ export class FileOperationsCommand implements ICommand {
             params.leftPath,
             params.rightPath,
             params.recursive || false,
-            this.progressCallback,
+            run.progress,
           );
+        case 'sync':
+          return await this.syncDirectories(run, params);
         case 'zip':
           return await this.zipFiles(
+            run,
             params.files,
             params.zipFilePath,
-            this.progressCallback,
             params.overwrite === true,
             params.overwriteFiles
               ? new Set<string>(params.overwriteFiles)
               : undefined,
+            {
+              format: params.format || 'zip',
+              compressionLevel:
+                params.compressionLevel !== undefined
+                  ? Number(params.compressionLevel)
+                  : undefined,
+              password: params.password || undefined,
+              volumeSize: params.volumeSize
+                ? Number(params.volumeSize)
+                : undefined,
+            },
           );
         case 'get-file-associations':
           return await this.getFileAssociations(filePath);
@@ -225,19 +386,13 @@ export class FileOperationsCommand implements ICommand {
         case 'browse-computer-shares':
           return await this.browseComputerShares(params.computerName, params.smbUrl);
         case 'directory-size':
-          return await this.getDirectorySize(params.dirPath);
+          return await this.getDirectorySize(run, params.dirPath);
         case 'write-file':
           return await this.writeFile(params.filePath, params.content);
         case 'search':
-          return await this.searchFiles(
-            params.searchPath,
-            params.filenamePattern || params.searchText, // backwards compatibility
-            params.contentText ||
-              (params.searchByContent ? params.searchText : ''),
-            params.recursive,
-            params.caseSensitive,
-            this.progressCallback,
-          );
+          return await this.searchFiles(run, params);
+        case 'search-index':
+          return await this.manageSearchIndex(params);
         default:
           return {
             success: false,
@@ -250,6 +405,8 @@ export class FileOperationsCommand implements ICommand {
         error: error.message,
         stack: error.stack,
       };
+    } finally {
+      this.runs.delete(run);
     }
   }
 
@@ -1224,6 +1381,49 @@ export class FileOperationsCommand implements ICommand {
     }
   }
 
+  /**
+   * Make a UNC path reachable through the local file system.
+   * macOS and Linux mount the share, Windows opens UNC paths directly and
+   * only needs `net use` when the share is not accessible yet.
+   */
+  private async mountSmbShare(
+    uncPath: string,
+    smbUrl?: string,
+  ): Promise<SmbMountResult> {
+    if (process.platform === 'darwin') {
+      return this.mountNetworkShareOnMac(uncPath, smbUrl);
+    }
+    if (process.platform === 'linux') {
+      return this.mountNetworkShareOnLinux(uncPath, smbUrl);
+    }
+    if (process.platform !== 'win32') {
+      return { success: false, error: 'Unsupported platform for SMB shares' };
+    }
+
+    if (fs.existsSync(uncPath)) {
+      return { success: true, mountPoint: uncPath };
+    }
+    if (!smbUrl) {
+      // No credentials provided, ask for authentication
+      return {
+        success: false,
+        error: 'Authentication required for network share',
+        needsAuth: true,
+      };
+    }
+
+    // Try to connect with credentials using net use
+    const connectResult = await this.connectWindowsShare(uncPath, smbUrl);
+    if (!connectResult.success) {
+      return {
+        success: false,
+        error: connectResult.error || 'Failed to connect to share',
+        needsAuth: true,
+      };
+    }
+    return { success: true, mountPoint: uncPath };
+  }
+
   /**
    * Connect to a Windows network share using net use
    * @param uncPath - UNC path like \\server\share
@@ -1289,7 +1489,10 @@ export class FileOperationsCommand implements ICommand {
   /**
    * Get total size of a directory including all files recursively
    */
-  private async getDirectorySize(dirPath: string): Promise<any> {
+  private async getDirectorySize(
+    run: CommandRun,
+    dirPath: string,
+  ): Promise<any> {
     if (!dirPath) {
       throw new Error('dirPath is required for directory-size operation');
     }
@@ -1311,6 +1514,7 @@ export class FileOperationsCommand implements ICommand {
 
     // Calculate size recursively with progress reporting
     const result = await this.calculateDirectorySizeRecursive(
+      run,
       absolutePath,
       progressState,
     );
@@ -1330,6 +1534,7 @@ export class FileOperationsCommand implements ICommand {
    * Recursively calculate directory size with progress reporting
    */
   private async calculateDirectorySizeRecursive(
+    run: CommandRun,
     dirPath: string,
     progressState: { processedFiles: number; totalSize: number },
   ): Promise<{ totalSize: number; fileCount: number; directoryCount: number }> {
@@ -1342,9 +1547,7 @@ export class FileOperationsCommand implements ICommand {
 
       for (const entry of entries) {
         // Check for cancellation before processing each entry
-        if (this.cancelled) {
-          throw new Error('Operation cancelled by user');
-        }
+        await run.checkpoint();
 
         const fullPath = path.join(dirPath, entry.name);
 
@@ -1357,6 +1560,7 @@ export class FileOperationsCommand implements ICommand {
           if (isDir) {
             directoryCount++;
             const subResult = await this.calculateDirectorySizeRecursive(
+              run,
               fullPath,
               progressState,
             );
@@ -1371,13 +1575,11 @@ export class FileOperationsCommand implements ICommand {
             progressState.totalSize += fileStats.size;
 
             // Report progress every file
-            if (this.progressCallback) {
-              this.progressCallback(
-                progressState.processedFiles,
-                progressState.totalSize,
-                entry.name,
-              );
-            }
+            run.progress?.(
+              progressState.processedFiles,
+              progressState.totalSize,
+              entry.name,
+            );
           }
         } catch (error: any) {
           // Skip files that are locked or inaccessible
@@ -1392,281 +1594,76 @@ export class FileOperationsCommand implements ICommand {
   }
 
   /**
-   * List files in a folder (or ZIP contents)
+   * List files in a folder (local, archive, FTP, SFTP or SMB)
    */
   private async listFiles(folderPath: string, smbUrl?: string): Promise<any> {
     if (!folderPath) {
       throw new Error('folderPath is required for list operation');
     }
 
-    // Handle UNC paths (\\computer\share or //computer/share) by mounting them
-    const isUncPath =
-      folderPath.startsWith('\\\\') || folderPath.startsWith('//');
-    if (isUncPath && process.platform !== 'win32') {
-      let mountResult: {
-        success: boolean;
-        mountPoint?: string;
-        error?: string;
-        needsAuth?: boolean;
-      };
+    // Credentials for network shares are remembered per share
+    if (smbUrl && SmbProvider.isUncPath(folderPath)) {
+      this.smb.setCredentials(folderPath, smbUrl);
+    }
 
-      if (process.platform === 'darwin') {
-        mountResult = await this.mountNetworkShareOnMac(folderPath, smbUrl);
-      } else if (process.platform === 'linux') {
-        mountResult = await this.mountNetworkShareOnLinux(folderPath, smbUrl);
-      } else {
-        mountResult = {
-          success: false,
-          error: 'Unsupported platform for SMB shares',
-        };
+    let listing: VfsListing;
+    try {
+      listing = await this.vfs.list(folderPath);
+    } catch (error: any) {
+      if (!(error instanceof VfsError)) {
+        throw error;
       }
-
+      // Return the mount result (including needsAuth flag) to the frontend
       console.log(
-        '[listFiles] Mount result:',
-        JSON.stringify(mountResult, null, 2),
+        '[listFiles] Mount failed, returning error with needsAuth:',
+        error.needsAuth,
       );
-
-      if (mountResult.success && mountResult.mountPoint) {
-        // Use the mount point instead of the UNC path
-        console.log(
-          '[listFiles] Mount successful, using mount point:',
-          mountResult.mountPoint,
-        );
-        folderPath = mountResult.mountPoint;
-      } else {
-        // Return the mount result (including needsAuth flag) to the frontend
-        console.log(
-          '[listFiles] Mount failed, returning error with needsAuth:',
-          mountResult.needsAuth,
-        );
-        const errorResponse = {
-          success: false,
-          operation: 'list',
-          error: mountResult.error || 'Unknown error',
-          needsAuth: mountResult.needsAuth,
-          uncPath: folderPath,
-        };
-        console.log(
-          '[listFiles] Error response:',
-          JSON.stringify(errorResponse, null, 2),
-        );
-        return errorResponse;
-      }
-    }
-
-    // Import ZipHelper dynamically to avoid circular dependencies
-    const { ZipHelper } = await import('./zip-helper.js');
-
-    // Check if this is a ZIP path (with internal path)
-    const zipPath = ZipHelper.parsePath(folderPath);
-    if (zipPath.isZipPath) {
-      // Handle nested ZIP if needed
-      if (zipPath.isNestedZip) {
-        console.log('[ListFiles] Nested ZIP detected:', {
-          folderPath,
-          zipFile: zipPath.zipFile,
-          internalPath: zipPath.internalPath,
-          nestedZips: zipPath.nestedZips,
-        });
-
-        const resolved = (ZipHelper as any).resolveNestedZipPath(zipPath);
-        console.log('[ListFiles] Resolved nested ZIP:', {
-          finalZipPath: resolved.finalZipPath,
-          finalInternalPath: resolved.finalInternalPath,
-          tempPaths: resolved.tempPaths,
-        });
-
-        try {
-          const result = ZipHelper.listZipContents(
-            resolved.finalZipPath,
-            resolved.finalInternalPath,
-          );
-
-          console.log('[ListFiles] Raw result from listZipContents:', {
-            path: result.path,
-            filesCount: result.files.length,
-            dirsCount: result.directories.length,
-            sampleFilePath: result.files[0]?.path,
-            sampleDirPath: result.directories[0]?.path,
-          });
-
-          // Replace temp paths with original user paths
-          result.path = folderPath;
-
-          // Fix file and directory paths to use original path
-          // Normalize to forward slashes for consistency
-          const normalizedFolder = folderPath.replace(/\\/g, '/');
-          const pathPrefix = normalizedFolder.endsWith('/')
-            ? normalizedFolder
-            : normalizedFolder + '/';
-
-          console.log('[ListFiles] Path prefix:', pathPrefix);
-
-          for (const file of result.files) {
-            // Extract just the filename from the temp path
-            // The temp path is like: tempDir/inner.zip/file.txt
-            // We want to get just file.txt
-            const parts = file.path.split('/');
-            const fileName = parts[parts.length - 1];
-            file.path = pathPrefix + fileName;
-          }
-          for (const dir of result.directories) {
-            // Extract just the directory name from the temp path
-            const parts = dir.path.split('/');
-            const dirName = parts[parts.length - 1];
-            dir.path = pathPrefix + dirName;
-          }
-
-          console.log('[ListFiles] Fixed paths:', {
-            sampleFilePath: result.files[0]?.path,
-            sampleDirPath: result.directories[0]?.path,
-          });
-
-          // Clean up temp files after listing
-          (ZipHelper as any).cleanupTempPaths(resolved.tempPaths);
-          return result;
-        } catch (error) {
-          console.error('[ListFiles] Error in nested ZIP handling:', error);
-          // Clean up on error
-          (ZipHelper as any).cleanupTempPaths(resolved.tempPaths);
-          throw error;
-        }
-      }
-      // Regular ZIP (not nested)
-      return ZipHelper.listZipContents(zipPath.zipFile, zipPath.internalPath);
-    }
-
-    // Check if the path itself is a ZIP file (for initial navigation)
-    if (
-      folderPath.toLowerCase().endsWith('.zip') &&
-      fs.existsSync(folderPath)
-    ) {
-      const stats = await stat(folderPath);
-      if (stats.isFile()) {
-        // List root contents of the ZIP file
-        return ZipHelper.listZipContents(folderPath, '');
-      }
-    }
-
-    // Regular directory listing
-    const absolutePath = path.resolve(folderPath);
-
-    // Check if directory exists
-    if (!fs.existsSync(absolutePath)) {
-      // On Windows, UNC paths may need authentication
-      const isUncPath =
-        folderPath.startsWith('\\\\') || folderPath.startsWith('//');
-      if (isUncPath && process.platform === 'win32') {
-        // Check if we have credentials via smbUrl parameter
-        if (smbUrl) {
-          // Try to connect with credentials using net use
-          const connectResult = await this.connectWindowsShare(
-            folderPath,
-            smbUrl,
-          );
-          if (!connectResult.success) {
-            return {
-              success: false,
-              operation: 'list',
-              error: connectResult.error || 'Failed to connect to share',
-              needsAuth: true,
-              uncPath: folderPath,
-            };
-          }
-          // Retry checking if directory exists after connecting
-          if (!fs.existsSync(absolutePath)) {
-            return {
-              success: false,
-              operation: 'list',
-              error: `Directory does not exist: ${absolutePath}`,
-              uncPath: folderPath,
-            };
-          }
-        } else {
-          // No credentials provided, ask for authentication
-          return {
-            success: false,
-            operation: 'list',
-            error: 'Authentication required for network share',
-            needsAuth: true,
-            uncPath: folderPath,
-          };
-        }
-      } else {
-        throw new Error(`Directory does not exist: ${absolutePath}`);
-      }
-    }
-
-    // Check if it's actually a directory
-    const stats = await stat(absolutePath);
-    if (!stats.isDirectory()) {
-      throw new Error(`Path is not a directory: ${absolutePath}`);
+      return {
+        success: false,
+        operation: 'list',
+        error: error.message,
+        needsAuth: error.needsAuth,
+        uncPath: folderPath,
+      };
     }
 
-    const entries = await readdir(absolutePath, { withFileTypes: true });
-
     const files: any[] = [];
     const directories: any[] = [];
 
-    for (const entry of entries) {
-      const fullPath = path.join(absolutePath, entry.name);
-
-      try {
-        const lstats = await lstat(fullPath);
-
-        let stats = lstats;
-        let isSymlink = lstats.isSymbolicLink();
-        let linkTargetType: 'file' | 'directory' | null = null;
-
-        if (isSymlink) {
-          try {
-            stats = await stat(fullPath); // follows the link
-            linkTargetType = stats.isDirectory() ? 'directory' : 'file';
-            // For symlink directories, verify we can actually read them
-            // (Windows legacy junctions like "Eigene Videos" resolve via stat but block readdir with EPERM)
-            if (linkTargetType === 'directory') {
-              await readdir(fullPath);
-            }
-          } catch {
-            // Broken symlink or inaccessible junction - skip entirely
-            continue;
-          }
-        }
-
-        const item = {
-          name: entry.name,
-          path: fullPath,
-          size: stats.size,
-          created: stats.birthtime.toISOString(),
-          modified: stats.mtime.toISOString(),
-          isSymbolicLink: isSymlink,
-          isDirectory: isSymlink
-            ? linkTargetType === 'directory'
-            : stats.isDirectory(), // Use stats.isDirectory() - works correctly for OneDrive/SynologyDrive
-          isFile: isSymlink ? linkTargetType === 'file' : stats.isFile(),
-          linkTargetType, // 'file' | 'directory' | null
-        };
+    for (const entry of listing.entries) {
+      const item = {
+        name: entry.name,
+        path: entry.path,
+        size: entry.size,
+        created: (entry.created ?? entry.modified).toISOString(),
+        modified: entry.modified.toISOString(),
+        isSymbolicLink: entry.isSymbolicLink ?? false,
+        isDirectory: entry.isDirectory,
+        isFile: entry.isFile,
+        linkTargetType: entry.linkTargetType ?? null, // 'file' | 'directory' | null
+        ...(entry.isArchiveEntry && { isZipEntry: true }),
+        ...(entry.permissions && { permissions: entry.permissions }),
+      };
 
-        if (item.isDirectory) {
-          directories.push(item);
-        } else {
-          files.push(item);
-        }
-      } catch (error: any) {
-        console.warn(`Warning: Unable to access ${fullPath}: ${error.message}`);
+      if (item.isDirectory) {
+        directories.push(item);
+      } else {
+        files.push(item);
       }
     }
     return {
       success: true,
       operation: 'list',
-      path: absolutePath,
-      totalItems: entries.length,
+      path: listing.path,
+      totalItems: listing.entries.length,
       directories: directories,
       files: files,
       summary: {
         totalFiles: files.length,
         totalDirectories: directories.length,
       },
+      // isZipPath is set for every archive type, the name predates TAR/7z
+      ...(listing.scheme === 'archive' && { isZipPath: true }),
     };
   }
 
@@ -1689,106 +1686,30 @@ export class FileOperationsCommand implements ICommand {
   }
 
   /**
-   * Read a file's content (from disk or ZIP)
+   * Read a file's content (from disk, an archive or a remote server)
    */
   private async readFile(filePath: string): Promise<any> {
     if (!filePath) {
       throw new Error('filePath is required for read operation');
     }
 
-    const { ZipHelper } = await import('./zip-helper.js');
-
-    // Check if this is a ZIP path
-    const zipPath = ZipHelper.parsePath(filePath);
-    if (zipPath.isZipPath) {
-      // Handle nested ZIP if needed
-      let actualZipFile = zipPath.zipFile;
-      let actualInternalPath = zipPath.internalPath;
-      let tempPaths: string[] = [];
-
-      if (zipPath.isNestedZip) {
-        const resolved = (ZipHelper as any).resolveNestedZipPath(zipPath);
-        actualZipFile = resolved.finalZipPath;
-        actualInternalPath = resolved.finalInternalPath;
-        tempPaths = resolved.tempPaths;
-      }
-
-      try {
-        // Read from ZIP
-        const isImage = this.isImageFile(actualInternalPath);
-
-        if (isImage) {
-          const buffer = ZipHelper.readFromZip(
-            actualZipFile,
-            actualInternalPath,
-            true,
-          ) as Buffer;
-          const base64 = buffer.toString('base64');
-          const ext = path.extname(actualInternalPath).toLowerCase();
-
-          let mimeType = 'image/jpeg';
-          if (ext === '.png') mimeType = 'image/png';
-          else if (ext === '.gif') mimeType = 'image/gif';
-          else if (ext === '.bmp') mimeType = 'image/bmp';
-          else if (ext === '.webp') mimeType = 'image/webp';
-          else if (ext === '.svg') mimeType = 'image/svg+xml';
-          else if (ext === '.ico') mimeType = 'image/x-icon';
-
-          return {
-            success: true,
-            operation: 'read',
-            path: filePath,
-            content: `data:${mimeType};base64,${base64}`,
-            size: buffer.length,
-            modified: new Date().toISOString(),
-            isImage: true,
-          };
-        } else {
-          const content = ZipHelper.readFromZip(
-            actualZipFile,
-            actualInternalPath,
-            false,
-          ) as string;
-          return {
-            success: true,
-            operation: 'read',
-            path: filePath,
-            content: content,
-            size: content.length,
-            modified: new Date().toISOString(),
-            isImage: false,
-          };
-        }
-      } finally {
-        // Clean up temp files
-        if (tempPaths.length > 0) {
-          (ZipHelper as any).cleanupTempPaths(tempPaths);
-        }
-      }
+    const entry = await this.vfs.stat(filePath);
+    if (!entry) {
+      throw new Error(`File does not exist: ${filePath}`);
     }
-
-    // Regular file reading
-    const absolutePath = path.resolve(filePath);
-
-    // Check if file exists
-    if (!fs.existsSync(absolutePath)) {
-      throw new Error(`File does not exist: ${absolutePath}`);
+    if (!entry.isFile) {
+      throw new Error(`Path is not a file: ${entry.path}`);
     }
 
-    // Check if it's a file
-    const stats = await stat(absolutePath);
-    if (!stats.isFile()) {
-      throw new Error(`Path is not a file: ${absolutePath}`);
-    }
+    const buffer = await this.vfs.read(filePath);
 
     // Check if it's an image file
-    const isImage = this.isImageFile(absolutePath);
+    const isImage = this.isImageFile(entry.path);
 
     if (isImage) {
-      // Read image as binary and convert to base64
-      const buffer = await readFile(absolutePath);
+      // Convert image to base64
       const base64 = buffer.toString('base64');
-      const ext = path.extname(absolutePath).toLowerCase();
+      const ext = path.extname(entry.path).toLowerCase();
 
       // Determine MIME type
       let mimeType = 'image/jpeg';
@@ -1802,32 +1723,30 @@ export class FileOperationsCommand implements ICommand {
       return {
         success: true,
         operation: 'read',
-        path: absolutePath,
+        path: entry.path,
         content: `data:${mimeType};base64,${base64}`,
-        size: stats.size,
-        modified: stats.mtime.toISOString(),
+        size: entry.size,
+        modified: entry.modified.toISOString(),
         isImage: true,
       };
     } else {
-      // Read text file content
-      const content = await readFile(absolutePath, 'utf-8');
-
       return {
         success: true,
         operation: 'read',
-        path: absolutePath,
-        content: content,
-        size: stats.size,
-        modified: stats.mtime.toISOString(),
+        path: entry.path,
+        content: buffer.toString('utf-8'),
+        size: entry.size,
+        modified: entry.modified.toISOString(),
         isImage: false,
       };
     }
   }
 
   /**
-   * Copy a file or directory from source to destination (supports ZIP)
+   * Copy a file or directory from source to destination (any VFS path)
    */
   private async copyFile(
+    run: CommandRun,
     sourcePath: string,
     destinationPath: string,
     overwrite = false,
@@ -1840,335 +1759,78 @@ export class FileOperationsCommand implements ICommand {
       throw new Error('destinationPath is required for copy operation');
     }
 
-    const { ZipHelper } = await import('./zip-helper.js');
+    // Anything other than local disk to local disk goes through the VFS
+    if (!this.isLocal(sourcePath) || !this.isLocal(destinationPath)) {
+      return await this.copyAcrossProviders(
+        run,
+        sourcePath,
+        destinationPath,
+        overwrite,
+        overwriteFiles,
+      );
+    }
 
-    const sourceZip = ZipHelper.parsePath(sourcePath);
-    const destZip = ZipHelper.parsePath(destinationPath);
+    // Regular file system copy
+    const absoluteSource = path.resolve(sourcePath);
+    const resolvedDestination = path.resolve(destinationPath);
 
-    // Case 1: Copy FROM ZIP to regular file system
-    if (sourceZip.isZipPath && !destZip.isZipPath) {
-      const destPath = path.resolve(destinationPath);
+    // Check if source exists
+    if (!fs.existsSync(absoluteSource)) {
+      throw new Error(`Source does not exist: ${absoluteSource}`);
+    }
 
-      // Handle nested source ZIP
-      if (sourceZip.isNestedZip) {
-        const resolved = (ZipHelper as any).resolveNestedZipPath(sourceZip);
-        try {
-          ZipHelper.extractFromZip(
-            resolved.finalZipPath,
-            resolved.finalInternalPath,
-            destPath,
-          );
-          (ZipHelper as any).cleanupTempPaths(resolved.tempPaths);
-        } catch (error) {
-          (ZipHelper as any).cleanupTempPaths(resolved.tempPaths);
-          throw error;
-        }
-      } else {
-        ZipHelper.extractFromZip(
-          sourceZip.zipFile,
-          sourceZip.internalPath,
-          destPath,
+    const sourceStats = await stat(absoluteSource);
+
+    const absoluteDestination = resolvedDestination;
+
+    if (sourceStats.isDirectory()) {
+      // For directory copies, scan for conflicts even if destination exists
+      // But only if we haven't already received overwrite instructions
+      if (!overwrite && !overwriteFiles && fs.existsSync(absoluteDestination)) {
+        // Scan for file conflicts within the directory
+        const { conflicts } = await this.scanConflicts(
+          absoluteSource,
+          absoluteDestination,
         );
+
+        // If there are conflicts, return them for user confirmation
+        if (conflicts.length > 0) {
+          return {
+            prompt: 'conflicts',
+            operation: 'copy',
+            source: absoluteSource,
+            destination: absoluteDestination,
+            type: 'directory',
+            conflicts: conflicts,
+          };
+        }
+        // If no conflicts, we can proceed with the copy
       }
+      // Count total files for progress tracking
+      const totalFiles = await this.countFilesRecursive(absoluteSource);
+      let currentFile = 0;
+
+      console.log(
+        `[Copy] Starting directory copy: ${totalFiles} files, callback set: ${!!run.progress}`,
+      );
 
-      const stats = await stat(destPath);
+      // Copy directory recursively with progress tracking
+      await this.copyDirectoryRecursive(
+        run,
+        absoluteSource,
+        absoluteDestination,
+        (fileName: string) => {
+          currentFile++;
+          run.progress?.(currentFile, totalFiles, fileName);
+        },
+        overwrite || overwriteFiles,
+      );
       return {
         success: true,
         operation: 'copy',
-        source: sourcePath,
-        destination: destPath,
-        size: stats.size,
-        type: 'file',
-        timestamp: new Date().toISOString(),
-      };
-    }
-
-    // Case 2: Copy TO ZIP from regular file system
-    if (!sourceZip.isZipPath && destZip.isZipPath) {
-      const sourceFilePath = path.resolve(sourcePath);
-
-      // Handle nested dest ZIP - but only if the nested ZIP actually exists
-      // If copying a .zip file INTO another .zip, and the inner .zip doesn't exist yet,
-      // treat it as adding a regular file, not navigating into a nested ZIP
-      let treatAsNestedZip = destZip.isNestedZip;
-      if (treatAsNestedZip && destZip.nestedZips.length > 0) {
-        // Check if the first nested ZIP exists in the outer ZIP
-        const firstNestedZip = destZip.nestedZips[0];
-        if (!ZipHelper.entryExistsInZip(destZip.zipFile, firstNestedZip)) {
-          // The nested ZIP doesn't exist - we're adding a new file that happens to be a .zip
-          treatAsNestedZip = false;
-          console.log(
-            `[Copy] Nested ZIP ${firstNestedZip} doesn't exist in ${destZip.zipFile}, treating as regular file add`,
-          );
-        }
-      }
-
-      if (treatAsNestedZip) {
-        const resolved = (ZipHelper as any).resolveNestedZipPath(destZip);
-        try {
-          // Add to the innermost ZIP
-          ZipHelper.addToZip(
-            resolved.finalZipPath,
-            sourceFilePath,
-            resolved.finalInternalPath,
-          );
-
-          // Now we need to update all the parent ZIPs with the modified inner ZIP
-          // Work backwards through the nested ZIPs
-          for (let i = destZip.nestedZips.length - 1; i >= 0; i--) {
-            const nestedZipName = destZip.nestedZips[i];
-
-            // Determine parent ZIP path
-            let parentZip: string;
-            if (i === 0) {
-              // First level: parent is the original outer ZIP
-              parentZip = destZip.zipFile;
-            } else {
-              // Deeper levels: parent is in temp directory
-              parentZip = path.join(
-                resolved.tempPaths[i - 1],
-                destZip.nestedZips[i - 1],
-              );
-            }
-
-            // Determine current ZIP path (the one to add to parent)
-            let currentZip: string;
-            if (i === destZip.nestedZips.length - 1) {
-              // This is the innermost (last) ZIP - use the final modified one
-              currentZip = resolved.finalZipPath;
-            } else {
-              // This is an intermediate ZIP - it's in temp directory
-              currentZip = path.join(
-                resolved.tempPaths[i],
-                destZip.nestedZips[i],
-              );
-            }
-
-            console.log(
-              `[Copy] Updating nested ZIP ${i}: parent=${parentZip}, current=${currentZip}, name=${nestedZipName}`,
-            );
-
-            // Update the nested ZIP in its parent
-            ZipHelper.addToZip(parentZip, currentZip, nestedZipName);
-          }
-          // Now we need to update all the parent ZIPs with the modified inner ZIP
-          // Work backwards through the nested ZIPs
-          for (let i = destZip.nestedZips.length - 1; i >= 0; i--) {
-            const nestedZipName = destZip.nestedZips[i];
-
-            // Determine parent ZIP path
-            let parentZip: string;
-            if (i === 0) {
-              // First level: parent is the original outer ZIP
-              parentZip = destZip.zipFile;
-            } else {
-              // Deeper levels: parent is in temp directory
-              parentZip = path.join(
-                resolved.tempPaths[i - 1],
-                destZip.nestedZips[i - 1],
-              );
-            }
-
-            // Determine current ZIP path (the one to add to parent)
-            let currentZip: string;
-            if (i === destZip.nestedZips.length - 1) {
-              // This is the innermost (last) ZIP - use the final modified one
-              currentZip = resolved.finalZipPath;
-            } else {
-              // This is an intermediate ZIP - it's in temp directory
-              currentZip = path.join(
-                resolved.tempPaths[i],
-                destZip.nestedZips[i],
-              );
-            }
-
-            console.log(
-              `[Copy] Updating nested ZIP ${i}: parent=${parentZip}, current=${currentZip}, name=${nestedZipName}`,
-            );
-
-            // Update the nested ZIP in its parent
-            ZipHelper.addToZip(parentZip, currentZip, nestedZipName);
-          }
-
-          (ZipHelper as any).cleanupTempPaths(resolved.tempPaths);
-        } catch (error) {
-          (ZipHelper as any).cleanupTempPaths(resolved.tempPaths);
-          throw error;
-        }
-      } else {
-        const sourceIsDir =
-          fs.existsSync(sourceFilePath) &&
-          fs.statSync(sourceFilePath).isDirectory();
-
-        if (sourceIsDir) {
-          // Directory copy to ZIP: scan individual file conflicts
-          if (!overwrite && !overwriteFiles) {
-            const conflicts = ZipHelper.scanFolderConflictsInZip(
-              destZip.zipFile,
-              destZip.internalPath,
-              sourceFilePath,
-            );
-            if (conflicts.length > 0) {
-              return {
-                prompt: 'conflicts',
-                operation: 'copy',
-                source: sourceFilePath,
-                destination: destinationPath,
-                type: 'directory',
-                conflicts,
-              };
-            }
-          }
-          if (overwrite) {
-            // Overwrite all — addLocalFolder handles it
-            ZipHelper.addToZip(
-              destZip.zipFile,
-              sourceFilePath,
-              destZip.internalPath,
-            );
-          } else {
-            ZipHelper.addFolderToZipSelective(
-              destZip.zipFile,
-              sourceFilePath,
-              destZip.internalPath,
-              overwriteFiles ?? new Set<string>(),
-            );
-          }
-        } else {
-          // Single file: check for existing ZIP entry
-          if (
-            !overwrite &&
-            ZipHelper.entryExistsInZip(destZip.zipFile, destZip.internalPath)
-          ) {
-            return {
-              prompt: 'overwrite',
-              operation: 'copy',
-              source: sourceFilePath,
-              destination: destinationPath,
-              type: 'file',
-            };
-          }
-          ZipHelper.addToZip(
-            destZip.zipFile,
-            sourceFilePath,
-            destZip.internalPath,
-          );
-        }
-      }
-
-      return {
-        success: true,
-        operation: 'copy',
-        source: sourceFilePath,
-        destination: destinationPath,
-        type: 'file',
-        timestamp: new Date().toISOString(),
-      };
-    }
-
-    // Case 3: ZIP to ZIP (extract then add)
-    if (sourceZip.isZipPath && destZip.isZipPath) {
-      // Check for existing entry in destination ZIP before overwriting
-      if (
-        !overwrite &&
-        ZipHelper.entryExistsInZip(destZip.zipFile, destZip.internalPath)
-      ) {
-        return {
-          prompt: 'overwrite',
-          operation: 'copy',
-          source: sourcePath,
-          destination: destinationPath,
-          type: 'file',
-        };
-      }
-
-      // Create temp file
-      const tempPath = path.join(
-        os.tmpdir(),
-        `temp_${Date.now()}_${path.basename(sourceZip.internalPath)}`,
-      );
-      ZipHelper.extractFromZip(
-        sourceZip.zipFile,
-        sourceZip.internalPath,
-        tempPath,
-      );
-      ZipHelper.addToZip(destZip.zipFile, tempPath, destZip.internalPath);
-
-      // Clean up temp file
-      await unlink(tempPath);
-
-      return {
-        success: true,
-        operation: 'copy',
-        source: sourcePath,
-        destination: destinationPath,
-        type: 'file',
-        timestamp: new Date().toISOString(),
-      };
-    }
-
-    // Case 4: Regular file system copy
-    const absoluteSource = path.resolve(sourcePath);
-    const resolvedDestination = path.resolve(destinationPath);
-
-    // Check if source exists
-    if (!fs.existsSync(absoluteSource)) {
-      throw new Error(`Source does not exist: ${absoluteSource}`);
-    }
-
-    const sourceStats = await stat(absoluteSource);
-
-    const absoluteDestination = resolvedDestination;
-
-    if (sourceStats.isDirectory()) {
-      // For directory copies, scan for conflicts even if destination exists
-      // But only if we haven't already received overwrite instructions
-      if (!overwrite && !overwriteFiles && fs.existsSync(absoluteDestination)) {
-        // Scan for file conflicts within the directory
-        const { conflicts } = await this.scanConflicts(
-          absoluteSource,
-          absoluteDestination,
-        );
-
-        // If there are conflicts, return them for user confirmation
-        if (conflicts.length > 0) {
-          return {
-            prompt: 'conflicts',
-            operation: 'copy',
-            source: absoluteSource,
-            destination: absoluteDestination,
-            type: 'directory',
-            conflicts: conflicts,
-          };
-        }
-        // If no conflicts, we can proceed with the copy
-      }
-      // Count total files for progress tracking
-      const totalFiles = await this.countFilesRecursive(absoluteSource);
-      let currentFile = 0;
-
-      console.log(
-        `[Copy] Starting directory copy: ${totalFiles} files, callback set: ${!!this.progressCallback}`,
-      );
-
-      // Copy directory recursively with progress tracking
-      await this.copyDirectoryRecursive(
-        absoluteSource,
-        absoluteDestination,
-        (fileName: string) => {
-          currentFile++;
-          if (this.progressCallback) {
-            this.progressCallback(currentFile, totalFiles, fileName);
-          }
-        },
-        overwriteFiles,
-      );
-      return {
-        success: true,
-        operation: 'copy',
-        source: absoluteSource,
-        destination: absoluteDestination,
-        type: 'directory',
+        source: absoluteSource,
+        destination: absoluteDestination,
+        type: 'directory',
         timestamp: new Date().toISOString(),
       };
     } else if (sourceStats.isFile()) {
@@ -2189,22 +1851,16 @@ export class FileOperationsCommand implements ICommand {
         await mkdir(destDir, { recursive: true });
       }
 
-      console.log(
-        `[Copy] Starting file copy, callback set: ${!!this.progressCallback}`,
-      );
+      console.log(`[Copy] Starting file copy, callback set: ${!!run.progress}`);
 
       // Report progress for single file copy
-      if (this.progressCallback) {
-        this.progressCallback(0, 1, path.basename(absoluteSource));
-      }
+      run.progress?.(0, 1, path.basename(absoluteSource));
 
       // Copy the file
       await copyFile(absoluteSource, absoluteDestination);
 
       // Report completion
-      if (this.progressCallback) {
-        this.progressCallback(1, 1, path.basename(absoluteSource));
-      }
+      run.progress?.(1, 1, path.basename(absoluteSource));
 
       const destStats = await stat(absoluteDestination);
 
@@ -2224,53 +1880,178 @@ export class FileOperationsCommand implements ICommand {
     }
   }
 
+  /**
+   * Whether a path is on the local disk (not inside an archive, not remote)
+   */
+  private isLocal(filePath: string): boolean {
+    return this.vfs.schemeOf(filePath) === 'local';
+  }
+
+  /**
+   * Copy between any two VFS providers (e.g. TAR -> disk, FTP -> ZIP) with
+   * the same conflict prompts as a local copy
+   */
+  private async copyAcrossProviders(
+    run: CommandRun,
+    sourcePath: string,
+    destinationPath: string,
+    overwrite: boolean,
+    overwriteFiles?: Set<string>,
+  ): Promise<any> {
+    const source = await this.vfs.stat(sourcePath);
+    if (!source) {
+      throw new Error(`Source does not exist: ${sourcePath}`);
+    }
+    const type = source.isDirectory ? 'directory' : 'file';
+    const destinationExists = await this.vfs.exists(destinationPath);
+
+    let files: VfsWalkEntry[] = [];
+    if (source.isDirectory) {
+      files = (await this.vfs.walk(sourcePath)).filter(
+        (file) => !file.entry.isDirectory,
+      );
+
+      // Scan for file conflicts unless overwrite instructions were given
+      if (!overwrite && !overwriteFiles && destinationExists) {
+        const conflicts: string[] = [];
+        for (const file of files) {
+          const target = file.relativePath
+            .split('/')
+            .reduce((dir, name) => this.vfs.join(dir, name), destinationPath);
+          if (await this.vfs.exists(target)) {
+            conflicts.push(file.relativePath);
+          }
+        }
+        if (conflicts.length > 0) {
+          return {
+            prompt: 'conflicts',
+            operation: 'copy',
+            source: source.path,
+            destination: destinationPath,
+            type,
+            conflicts,
+          };
+        }
+      }
+    } else if (!overwrite && destinationExists) {
+      return {
+        prompt: 'overwrite',
+        operation: 'copy',
+        source: source.path,
+        destination: destinationPath,
+        type,
+      };
+    }
+
+    const total = source.isDirectory ? files.length : 1;
+    const totalBytes = source.isDirectory
+      ? files.reduce((sum, file) => sum + file.entry.size, 0)
+      : source.size;
+    let current = 0;
+    let bytesDone = 0;
+    let lastReport = 0;
+    const report = (fileName: string, force = false) => {
+      const now = Date.now();
+      if (!force && now - lastReport < PROGRESS_INTERVAL_MS) return;
+      lastReport = now;
+      run.progress?.(current, total, fileName, { bytesDone, totalBytes });
+    };
+
+    const result = await this.vfs.copy(sourcePath, destinationPath, {
+      overwrite:
+        overwrite || !source.isDirectory
+          ? true
+          : (relativePath) => overwriteFiles?.has(relativePath) ?? false,
+      checkpoint: () => run.checkpoint(),
+      onBytes: (bytes: number, entry: VfsEntry) => {
+        bytesDone += bytes;
+        report(entry.name);
+      },
+      onFile: (_relativePath: string, entry: VfsEntry) => {
+        current++;
+        report(entry.name, true);
+      },
+    });
+
+    return {
+      success: true,
+      operation: 'copy',
+      source: source.path,
+      destination: destinationPath,
+      type,
+      filesCopied: result.filesCopied,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   /**
    * Copy multiple files to a destination directory in a single operation.
    * This ensures cancellation applies to the whole batch and progress is reported.
+   * Paths done so far are reported as completedPaths, also when the batch
+   * stops early, so a retry can leave them out.
    */
   private async copyMultipleFiles(
+    run: CommandRun,
     sourcePaths: string[],
     destinationDir: string,
+    overwrite = false,
+    failOnConflict = false,
   ): Promise<any> {
     if (!Array.isArray(sourcePaths) || sourcePaths.length === 0) {
       return { success: false, error: 'No source files provided' };
     }
 
     const total = sourcePaths.length;
-    let copied = 0;
+    const completedPaths: string[] = [];
 
     for (const src of sourcePaths) {
-      if (this.cancelled) {
-        throw new Error('Operation cancelled by user');
-      }
-
       try {
-        const baseName = path.basename(src);
-        const destPath = path.join(destinationDir, baseName);
+        await run.checkpoint();
+
+        const baseName = this.vfs.basename(src);
+        const destPath = this.vfs.join(destinationDir, baseName);
 
         // Use existing single-file copy logic
-        const result = await this.copyFile(src, destPath);
+        const result = await this.copyFile(run, src, destPath, overwrite);
 
         // If copyFile returns an error-like object, propagate
         if (result && result.success === false) {
-          return { success: false, error: result.error || 'Copy failed' };
+          return {
+            success: false,
+            error: result.error || 'Copy failed',
+            completedPaths,
+          };
+        }
+
+        // Queued batches cannot ask per file - report the conflict instead of skipping silently
+        if (result?.prompt && failOnConflict) {
+          return {
+            success: false,
+            error: `Destination already exists: ${destPath}`,
+            conflict: true,
+            filesCopied: completedPaths.length,
+            completedPaths,
+          };
         }
 
-        copied++;
+        completedPaths.push(src);
         // Report progress: current index, total, and current file name
-        this.progressCallback?.(copied, total, baseName);
+        run.progress?.(completedPaths.length, total, baseName);
       } catch (error: any) {
-        if (error.message === 'Operation cancelled by user') {
-          throw error;
-        }
-        return { success: false, error: error.message || String(error) };
+        return {
+          success: false,
+          error: error.message || String(error),
+          cancelled: run.cancelled || undefined,
+          completedPaths,
+        };
       }
     }
 
     return {
       success: true,
-      message: `Copied ${copied} file(s)`,
-      filesCopied: copied,
+      message: `Copied ${completedPaths.length} file(s)`,
+      filesCopied: completedPaths.length,
+      completedPaths,
     };
   }
 
@@ -2310,19 +2091,19 @@ export class FileOperationsCommand implements ICommand {
   }
 
   /**
-   * Recursively copy a directory
+   * Recursively copy a directory. Existing files are replaced when
+   * `overwrite` is true or lists their relative path.
    */
   private async copyDirectoryRecursive(
+    run: CommandRun,
     source: string,
     destination: string,
     onFileCopied?: (fileName: string) => void,
-    overwriteFiles?: Set<string>,
+    overwrite?: boolean | Set<string>,
     relPath = '',
   ): Promise<void> {
     // Check for cancellation
-    if (this.cancelled) {
-      throw new Error('Operation cancelled by user');
-    }
+    await run.checkpoint();
 
     // Create destination directory
     if (!fs.existsSync(destination)) {
@@ -2334,9 +2115,7 @@ export class FileOperationsCommand implements ICommand {
 
     for (const entry of entries) {
       // Check for cancellation before processing each file
-      if (this.cancelled) {
-        throw new Error('Operation cancelled by user');
-      }
+      await run.checkpoint();
 
       const sourcePath = path.join(source, entry.name);
       const destPath = path.join(destination, entry.name);
@@ -2346,16 +2125,21 @@ export class FileOperationsCommand implements ICommand {
         if (entry.isDirectory()) {
           // Recursively copy subdirectory
           await this.copyDirectoryRecursive(
+            run,
             sourcePath,
             destPath,
             onFileCopied,
-            overwriteFiles,
+            overwrite,
             childRelPath,
           );
         } else if (entry.isFile()) {
           const exists = fs.existsSync(destPath);
           // Copy only if file doesn't exist, or user explicitly approved overwrite
-          if (!exists || overwriteFiles?.has(childRelPath)) {
+          if (
+            !exists ||
+            overwrite === true ||
+            (overwrite instanceof Set && overwrite.has(childRelPath))
+          ) {
             await copyFile(sourcePath, destPath);
 
             // Report progress
@@ -2423,50 +2207,71 @@ export class FileOperationsCommand implements ICommand {
 
   /**
    * Move multiple files to a destination directory
+   * Paths done so far are reported as completedPaths, also when the batch
+   * stops early, so a retry can leave them out.
    */
   private async moveMultipleFiles(
+    run: CommandRun,
     sourcePaths: string[],
     destinationDir: string,
+    overwrite = false,
+    failOnConflict = false,
   ): Promise<any> {
     if (!Array.isArray(sourcePaths) || sourcePaths.length === 0) {
       return { success: false, error: 'No source files provided' };
     }
 
     const total = sourcePaths.length;
-    let moved = 0;
+    const completedPaths: string[] = [];
 
     for (const src of sourcePaths) {
-      if (this.cancelled) {
-        throw new Error('Operation cancelled by user');
-      }
-
       try {
-        const baseName = path.basename(src);
-        const destPath = path.join(destinationDir, baseName);
+        await run.checkpoint();
+
+        const baseName = this.vfs.basename(src);
+        const destPath = this.vfs.join(destinationDir, baseName);
 
         // Use existing single-file move logic
-        const result = await this.moveFile(src, destPath);
+        const result = await this.moveFile(run, src, destPath, overwrite);
 
         // If moveFile returns an error-like object, propagate
         if (result && result.success === false) {
-          return { success: false, error: result.error || 'Move failed' };
+          return {
+            success: false,
+            error: result.error || 'Move failed',
+            completedPaths,
+          };
+        }
+
+        // Queued batches cannot ask per file - report the conflict instead of skipping silently
+        if (result?.prompt && failOnConflict) {
+          return {
+            success: false,
+            error: `Destination already exists: ${destPath}`,
+            conflict: true,
+            filesMoved: completedPaths.length,
+            completedPaths,
+          };
         }
 
-        moved++;
+        completedPaths.push(src);
         // Report progress: current index, total, and current file name
-        this.progressCallback?.(moved, total, baseName);
+        run.progress?.(completedPaths.length, total, baseName);
       } catch (error: any) {
-        if (error.message === 'Operation cancelled by user') {
-          throw error;
-        }
-        return { success: false, error: error.message || String(error) };
+        return {
+          success: false,
+          error: error.message || String(error),
+          cancelled: run.cancelled || undefined,
+          completedPaths,
+        };
       }
     }
 
     return {
       success: true,
-      message: `Moved ${moved} file(s)`,
-      filesCopied: moved,
+      message: `Moved ${completedPaths.length} file(s)`,
+      filesMoved: completedPaths.length,
+      completedPaths,
     };
   }
 
@@ -2474,6 +2279,7 @@ export class FileOperationsCommand implements ICommand {
    * Move a file or directory from source to destination
    */
   private async moveFile(
+    run: CommandRun,
     sourcePath: string,
     destinationPath: string,
     overwrite = false,
@@ -2485,6 +2291,16 @@ export class FileOperationsCommand implements ICommand {
       throw new Error('destinationPath is required for move operation');
     }
 
+    // Moves that involve archives or remote servers are copy + delete
+    if (!this.isLocal(sourcePath) || !this.isLocal(destinationPath)) {
+      return await this.moveAcrossProviders(
+        run,
+        sourcePath,
+        destinationPath,
+        overwrite,
+      );
+    }
+
     const absoluteSource = path.resolve(sourcePath);
     const absoluteDestination = path.resolve(destinationPath);
 
@@ -2546,18 +2362,17 @@ export class FileOperationsCommand implements ICommand {
           let currentFile = 0;
 
           console.log(
-            `[Move] Cross-filesystem move: ${totalFiles} files, callback set: ${!!this.progressCallback}`,
+            `[Move] Cross-filesystem move: ${totalFiles} files, callback set: ${!!run.progress}`,
           );
 
           // Copy with progress tracking
           await this.copyDirectoryRecursive(
+            run,
             absoluteSource,
             absoluteDestination,
             (fileName: string) => {
               currentFile++;
-              if (this.progressCallback) {
-                this.progressCallback(currentFile, totalFiles, fileName);
-              }
+              run.progress?.(currentFile, totalFiles, fileName);
             },
           );
 
@@ -2565,15 +2380,11 @@ export class FileOperationsCommand implements ICommand {
           await this.deleteDirectoryRecursive(absoluteSource);
         } else {
           // Single file move with progress
-          if (this.progressCallback) {
-            this.progressCallback(0, 1, path.basename(absoluteSource));
-          }
+          run.progress?.(0, 1, path.basename(absoluteSource));
 
           await copyFile(absoluteSource, absoluteDestination);
 
-          if (this.progressCallback) {
-            this.progressCallback(1, 1, path.basename(absoluteSource));
-          }
+          run.progress?.(1, 1, path.basename(absoluteSource));
 
           await unlink(absoluteSource);
         }
@@ -2592,60 +2403,81 @@ export class FileOperationsCommand implements ICommand {
   }
 
   /**
-   * Rename a file or directory
+   * Move between VFS providers by copying and deleting the source
    */
-  private async renameFile(sourcePath: string, newName: string): Promise<any> {
-    if (!sourcePath) {
-      throw new Error('sourcePath is required for rename operation');
+  private async moveAcrossProviders(
+    run: CommandRun,
+    sourcePath: string,
+    destinationPath: string,
+    overwrite: boolean,
+  ): Promise<any> {
+    const source = await this.vfs.stat(sourcePath);
+    if (!source) {
+      throw new Error(`Source does not exist: ${sourcePath}`);
     }
-    if (!newName) {
-      throw new Error('newName is required for rename operation');
+    const type = source.isDirectory ? 'directory' : 'file';
+
+    // If destination exists and overwrite not requested, prompt the user
+    if (!overwrite && (await this.vfs.exists(destinationPath))) {
+      return {
+        prompt: 'overwrite',
+        operation: 'move',
+        source: source.path,
+        destination: destinationPath,
+        type,
+      };
     }
 
-    const absoluteSource = path.resolve(sourcePath);
+    await this.copyAcrossProviders(run, sourcePath, destinationPath, true);
+    await this.vfs.delete(sourcePath);
 
-    // Check if source exists
-    if (!fs.existsSync(absoluteSource)) {
-      throw new Error(`Source does not exist: ${absoluteSource}`);
+    return {
+      success: true,
+      operation: 'move',
+      source: source.path,
+      destination: destinationPath,
+      type,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Rename a file or directory
+   */
+  private async renameFile(sourcePath: string, newName: string): Promise<any> {
+    if (!sourcePath) {
+      throw new Error('sourcePath is required for rename operation');
+    }
+    if (!newName) {
+      throw new Error('newName is required for rename operation');
     }
 
-    const sourceStats = await stat(absoluteSource);
+    const source = await this.vfs.stat(sourcePath);
+    if (!source) {
+      throw new Error(`Source does not exist: ${sourcePath}`);
+    }
 
     // Build destination path (same directory, new name)
-    const sourceDir = path.dirname(absoluteSource);
-    const absoluteDestination = path.join(sourceDir, newName);
+    const destination = this.vfs.join(this.vfs.dirname(source.path), newName);
 
     // Check if destination already exists
-    if (fs.existsSync(absoluteDestination)) {
-      throw new Error(`Destination already exists: ${absoluteDestination}`);
+    if (await this.vfs.exists(destination)) {
+      throw new Error(`Destination already exists: ${destination}`);
     }
 
     // Perform the rename
-    await rename(absoluteSource, absoluteDestination);
+    await this.vfs.rename(source.path, destination);
 
-    if (sourceStats.isDirectory()) {
-      return {
-        success: true,
-        operation: 'rename',
-        source: absoluteSource,
-        destination: absoluteDestination,
-        newName: newName,
-        type: 'directory',
-        timestamp: new Date().toISOString(),
-      };
-    } else {
-      const destStats = await stat(absoluteDestination);
-      return {
-        success: true,
-        operation: 'rename',
-        source: absoluteSource,
-        destination: absoluteDestination,
-        newName: newName,
-        size: destStats.size,
-        type: 'file',
-        timestamp: new Date().toISOString(),
-      };
-    }
+    return {
+      success: true,
+      operation: 'rename',
+      source: source.path,
+      destination: destination,
+      newName: newName,
+      ...(source.isFile && { size: source.size }),
+      type: source.isDirectory ? 'directory' : 'file',
+      timestamp: new Date().toISOString(),
+    };
   }
 
   /**
@@ -2656,125 +2488,89 @@ export class FileOperationsCommand implements ICommand {
       throw new Error('dirPath is required for mkdir operation');
     }
 
-    const absolutePath = path.resolve(dirPath);
-
     // Check if directory already exists
-    if (fs.existsSync(absolutePath)) {
-      throw new Error(`Directory already exists: ${absolutePath}`);
+    const existing = await this.vfs.stat(dirPath);
+    if (existing) {
+      throw new Error(`Directory already exists: ${existing.path}`);
     }
 
     // Create the directory
-    await mkdir(absolutePath, { recursive: true });
+    await this.vfs.mkdir(dirPath);
+    const created = await this.vfs.stat(dirPath);
 
     return {
       success: true,
       operation: 'mkdir',
-      path: absolutePath,
+      path: created?.path ?? dirPath,
       timestamp: new Date().toISOString(),
     };
   }
 
   /**
-   * Delete a file or directory (supports ZIP)
+   * Delete a file or directory (any VFS path)
    */
   private async deleteFile(sourcePath: string): Promise<any> {
     if (!sourcePath) {
       throw new Error('sourcePath is required for delete operation');
     }
 
-    const { ZipHelper } = await import('./zip-helper.js');
-
-    // Check if this is a ZIP path
-    const zipPath = ZipHelper.parsePath(sourcePath);
-    if (zipPath.isZipPath) {
-      // Handle nested ZIP deletion
-      if (zipPath.isNestedZip) {
-        const resolved = (ZipHelper as any).resolveNestedZipPath(zipPath);
-        try {
-          // Delete from the innermost ZIP
-          ZipHelper.deleteFromZip(
-            resolved.finalZipPath,
-            resolved.finalInternalPath,
-          );
+    // Check if file/directory exists
+    const entry = await this.vfs.stat(sourcePath);
+    if (!entry) {
+      throw new Error(`Path does not exist: ${sourcePath}`);
+    }
 
-          // Update all parent ZIPs with the modified inner ZIP
-          for (let i = zipPath.nestedZips.length - 1; i >= 0; i--) {
-            const nestedZipName = zipPath.nestedZips[i];
-
-            // The parent is either the original outer ZIP or a temp extracted ZIP
-            const parentZip =
-              i === 0
-                ? zipPath.zipFile
-                : resolved.tempPaths[i - 1] +
-                  path.sep +
-                  path.basename(zipPath.nestedZips[i - 1]);
-
-            // The current ZIP to add back is either the final modified one or an intermediate temp one
-            const currentZip =
-              i === zipPath.nestedZips.length - 1
-                ? resolved.finalZipPath
-                : resolved.tempPaths[i] +
-                  path.sep +
-                  path.basename(zipPath.nestedZips[i]);
-
-            // Update the nested ZIP in its parent
-            ZipHelper.addToZip(parentZip, currentZip, nestedZipName);
-          }
+    // Directories are deleted recursively
+    await this.vfs.delete(sourcePath);
 
-          (ZipHelper as any).cleanupTempPaths(resolved.tempPaths);
-        } catch (error) {
-          (ZipHelper as any).cleanupTempPaths(resolved.tempPaths);
-          throw error;
-        }
-      } else {
-        // Regular ZIP deletion
-        ZipHelper.deleteFromZip(zipPath.zipFile, zipPath.internalPath);
-      }
+    return {
+      success: true,
+      operation: 'delete',
+      path: entry.path,
+      type: entry.isDirectory ? 'directory' : 'file',
+      timestamp: new Date().toISOString(),
+    };
+  }
 
-      return {
-        success: true,
-        operation: 'delete',
-        path: sourcePath,
-        type: 'file',
-        timestamp: new Date().toISOString(),
-      };
+  /**
+   * Delete multiple files or directories in a single operation.
+   * Paths done so far are reported as completedPaths, also when the batch
+   * stops early, so a retry can leave them out.
+   */
+  private async deleteMultipleFiles(
+    run: CommandRun,
+    sourcePaths: string[],
+  ): Promise<any> {
+    if (!Array.isArray(sourcePaths) || sourcePaths.length === 0) {
+      return { success: false, error: 'No source files provided' };
     }
 
-    // Regular file system delete
-    const absolutePath = path.resolve(sourcePath);
+    const total = sourcePaths.length;
+    const completedPaths: string[] = [];
 
-    // Check if file/directory exists
-    if (!fs.existsSync(absolutePath)) {
-      throw new Error(`Path does not exist: ${absolutePath}`);
+    for (const src of sourcePaths) {
+      try {
+        await run.checkpoint();
+        await this.deleteFile(src);
+        completedPaths.push(src);
+        run.progress?.(completedPaths.length, total, this.vfs.basename(src));
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || String(error),
+          cancelled: run.cancelled || undefined,
+          filesDeleted: completedPaths.length,
+          completedPaths,
+        };
+      }
     }
 
-    const stats = await stat(absolutePath);
-
-    if (stats.isDirectory()) {
-      // Delete directory recursively
-      await this.deleteDirectoryRecursive(absolutePath);
-      return {
-        success: true,
-        operation: 'delete',
-        path: absolutePath,
-        type: 'directory',
-        timestamp: new Date().toISOString(),
-      };
-    } else if (stats.isFile()) {
-      // Delete file
-      await unlink(absolutePath);
-      return {
-        success: true,
-        operation: 'delete',
-        path: absolutePath,
-        type: 'file',
-        timestamp: new Date().toISOString(),
-      };
-    } else {
-      throw new Error(
-        `Path is neither a file nor a directory: ${absolutePath}`,
-      );
-    }
+    return {
+      success: true,
+      message: `Deleted ${completedPaths.length} file(s)`,
+      filesDeleted: completedPaths.length,
+      completedPaths,
+    };
   }
 
   /**
@@ -2797,7 +2593,7 @@ export class FileOperationsCommand implements ICommand {
 
   /**
    * Compare two directories and return differences
-   * Supports comparing regular directory (left) with ZIP directory (right)
+   * Either side may be any VFS path (local, archive, FTP, SFTP, SMB)
    */
   private async compareDirectories(
     leftPath: string,
@@ -2816,68 +2612,12 @@ export class FileOperationsCommand implements ICommand {
       throw new Error('rightPath is required for compare operation');
     }
 
-    const { ZipHelper } = await import('./zip-helper.js');
-
-    // Check if right path is a ZIP path
-    const rightZipPath = ZipHelper.parsePath(rightPath);
-    const isRightZip =
-      rightZipPath.isZipPath ||
-      (rightPath.toLowerCase().endsWith('.zip') && fs.existsSync(rightPath));
-
-    const absoluteLeft = path.resolve(leftPath);
-
-    // Check if left directory exists
-    if (!fs.existsSync(absoluteLeft)) {
-      throw new Error(`Left directory does not exist: ${absoluteLeft}`);
-    }
-
-    const leftStats = await stat(absoluteLeft);
-    if (!leftStats.isDirectory()) {
-      throw new Error(`Left path is not a directory: ${absoluteLeft}`);
-    }
+    const absoluteLeft = await this.resolveCompareRoot(leftPath, 'Left');
+    const absoluteRight = await this.resolveCompareRoot(rightPath, 'Right');
 
     // Get file lists from both directories
-    const leftFiles = recursive
-      ? await this.getFilesRecursive(absoluteLeft, absoluteLeft)
-      : await this.getFilesInDirectory(absoluteLeft);
-
-    let rightFiles: Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }>;
-    let absoluteRight: string;
-
-    if (isRightZip) {
-      // Get files from ZIP
-      const zipFile = rightZipPath.isZipPath ? rightZipPath.zipFile : rightPath;
-      const internalPath = rightZipPath.isZipPath
-        ? rightZipPath.internalPath
-        : '';
-      absoluteRight = rightZipPath.isZipPath ? rightPath : zipFile;
-
-      rightFiles = recursive
-        ? await this.getFilesFromZipRecursive(zipFile, internalPath)
-        : await this.getFilesFromZipDirectory(zipFile, internalPath);
-    } else {
-      // Regular directory
-      absoluteRight = path.resolve(rightPath);
-
-      if (!fs.existsSync(absoluteRight)) {
-        throw new Error(`Right directory does not exist: ${absoluteRight}`);
-      }
-
-      const rightStats = await stat(absoluteRight);
-      if (!rightStats.isDirectory()) {
-        throw new Error(`Right path is not a directory: ${absoluteRight}`);
-      }
-
-      rightFiles = recursive
-        ? await this.getFilesRecursive(absoluteRight, absoluteRight)
-        : await this.getFilesInDirectory(absoluteRight);
-    }
+    const leftFiles = await this.getCompareEntries(leftPath, recursive);
+    const rightFiles = await this.getCompareEntries(rightPath, recursive);
 
     // Normalize all relative paths to use forward slashes for consistent comparison
     const normalizePath = (p: string) => p.replace(/\\/g, '/');
@@ -2958,20 +2698,8 @@ export class FileOperationsCommand implements ICommand {
           // This handles size=0 files correctly and catches cases where
           // timestamps are preserved during copies but content differs
           try {
-            const leftContent = fs.readFileSync(leftFile.fullPath);
-
-            // Read right content - either from ZIP or filesystem
-            let rightContent: Buffer;
-            if (isRightZip) {
-              const rightZip = ZipHelper.parsePath(rightFile.fullPath);
-              rightContent = ZipHelper.readFromZip(
-                rightZip.zipFile,
-                rightZip.internalPath,
-                true,
-              ) as Buffer;
-            } else {
-              rightContent = fs.readFileSync(rightFile.fullPath);
-            }
+            const leftContent = await this.vfs.read(leftFile.fullPath);
+            const rightContent = await this.vfs.read(rightFile.fullPath);
 
             if (leftContent.equals(rightContent)) {
               // Content is identical
@@ -3050,254 +2778,177 @@ export class FileOperationsCommand implements ICommand {
   }
 
   /**
-   * Get files from a ZIP directory (non-recursive)
+   * Synchronize two directories rsync-style.
+   * Without `actions` a plan is built from the directory contents; with
+   * `dryRun` the plan is returned without touching any file. A previously
+   * returned plan can be applied by passing its `actions` back.
    */
-  private async getFilesFromZipDirectory(
-    zipFilePath: string,
-    internalPath: string,
-  ): Promise<
-    Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }>
-  > {
-    const { ZipHelper } = await import('./zip-helper.js');
-    const result = ZipHelper.listZipContents(zipFilePath, internalPath);
-
-    const files: Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }> = [];
+  private async syncDirectories(run: CommandRun, params: any): Promise<any> {
+    const { leftPath, rightPath } = params;
+    const mode: SyncMode = params.mode || 'mirror';
+    const compareBy: SyncCompareStrategy = params.compareBy || 'mtime';
+    const dryRun = params.dryRun === true;
 
-    // Add directories
-    for (const dir of result.directories) {
-      files.push({
-        relativePath: dir.name,
-        fullPath: dir.path,
-        size: 0,
-        modified: dir.modified,
-        isDirectory: true,
-      });
+    if (!leftPath) {
+      throw new Error('leftPath is required for sync operation');
     }
-
-    // Add files
-    for (const file of result.files) {
-      files.push({
-        relativePath: file.name,
-        fullPath: file.path,
-        size: file.size,
-        modified: file.modified,
-        isDirectory: false,
-      });
+    if (!rightPath) {
+      throw new Error('rightPath is required for sync operation');
     }
-
-    return files;
-  }
-
-  /**
-   * Get files from a ZIP directory recursively
-   */
-  private async getFilesFromZipRecursive(
-    zipFilePath: string,
-    internalPath: string,
-  ): Promise<
-    Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }>
-  > {
-    const { ZipHelper } = await import('./zip-helper.js');
-    const AdmZip = (await import('adm-zip')).default;
-
-    if (!fs.existsSync(zipFilePath)) {
-      throw new Error(`ZIP file does not exist: ${zipFilePath}`);
+    // Sync reads and writes the local disk, not servers or archives
+    if (!this.isLocal(leftPath) || !this.isLocal(rightPath)) {
+      throw new Error('Sync is only supported between local folders');
+    }
+    if (!SYNC_MODES.includes(mode)) {
+      throw new Error(`mode must be one of: ${SYNC_MODES.join(', ')}`);
+    }
+    if (!SYNC_COMPARE_STRATEGIES.includes(compareBy)) {
+      throw new Error(
+        `compareBy must be one of: ${SYNC_COMPARE_STRATEGIES.join(', ')}`,
+      );
     }
 
-    const zip = new AdmZip(zipFilePath);
-    const entries = zip.getEntries();
-
-    const files: Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }> = [];
-
-    // Normalize internal path
-    const normalizedInternal = internalPath
-      ? internalPath.replace(/\\/g, '/').replace(/\/$/, '')
-      : '';
-    const prefix = normalizedInternal ? normalizedInternal + '/' : '';
-
-    for (const entry of entries) {
-      const entryPath = entry.entryName.replace(/\\/g, '/');
-
-      // Skip if not in current folder
-      if (normalizedInternal && !entryPath.startsWith(prefix)) {
-        continue;
-      }
+    const exclude = this.parsePatternList(params.exclude);
 
-      // Get relative path from current folder
-      const relativePath = normalizedInternal
-        ? entryPath.substring(prefix.length)
-        : entryPath;
+    const hooks = {
+      checkpoint: () => run.checkpoint(),
+      onProgress: (progress: SyncProgress) =>
+        this.reportSyncProgress(run, progress),
+    };
 
-      // Skip if empty (we're at the current folder itself)
-      if (!relativePath) {
-        continue;
+    let actions: SyncAction[];
+    let plan: any;
+    if (Array.isArray(params.actions)) {
+      // Apply a plan the user already reviewed (e.g. in the compare dialog)
+      const absoluteLeft = path.resolve(leftPath);
+      const absoluteRight = path.resolve(rightPath);
+      const outside = params.actions.find(
+        (a: SyncAction) =>
+          !this.isPathInside(a.targetPath, [absoluteLeft, absoluteRight]) ||
+          (a.sourcePath &&
+            !this.isPathInside(a.sourcePath, [absoluteLeft, absoluteRight])),
+      );
+      if (outside) {
+        throw new Error(
+          `Sync action outside of the synced directories: ${outside.path}`,
+        );
       }
-
-      // Remove trailing slash for directories
-      const cleanRelativePath = relativePath.replace(/\/$/, '');
-      if (!cleanRelativePath) continue;
-
-      const fullInternalPath = normalizedInternal
-        ? `${normalizedInternal}/${cleanRelativePath}`
-        : cleanRelativePath;
-
-      files.push({
-        relativePath: cleanRelativePath,
-        fullPath: `${zipFilePath}/${fullInternalPath}`,
-        size: entry.header.size,
-        modified: entry.header.time.toISOString(),
-        isDirectory: entry.isDirectory,
-      });
+      actions = params.actions;
+    } else {
+      plan = await SyncHelper.createPlan(
+        leftPath,
+        rightPath,
+        { mode, compareBy, exclude },
+        hooks,
+      );
+      actions = plan.actions;
     }
 
-    // Synthesize missing directory entries from file paths.
-    // Many ZIP tools (and addFile()) don't create explicit directory entries,
-    // so we derive them from the paths of files inside the ZIP.
-    const existingPaths = new Set(files.map((f) => f.relativePath));
-    const dirsToAdd = new Set<string>();
-    for (const file of files) {
-      if (!file.isDirectory) {
-        const parts = file.relativePath.split('/');
-        for (let i = 1; i < parts.length; i++) {
-          const dirPath = parts.slice(0, i).join('/');
-          if (!existingPaths.has(dirPath)) {
-            dirsToAdd.add(dirPath);
-          }
-        }
-      }
-    }
-    for (const dirPath of dirsToAdd) {
-      const fullInternalPath = normalizedInternal
-        ? `${normalizedInternal}/${dirPath}`
-        : dirPath;
-      files.push({
-        relativePath: dirPath,
-        fullPath: `${zipFilePath}/${fullInternalPath}`,
-        size: 0,
-        modified: new Date(0).toISOString(),
-        isDirectory: true,
-      });
+    if (dryRun) {
+      return {
+        success: true,
+        operation: 'sync',
+        dryRun: true,
+        ...plan,
+      };
     }
 
-    return files;
+    const result = await SyncHelper.applyPlan(actions, hooks);
+    console.log(
+      `[FileOps] Sync finished: ${result.actionsApplied}/${actions.length} actions, ${result.bytesCopied} bytes in ${result.durationMs}ms`,
+    );
+
+    return {
+      success: result.errors.length === 0,
+      error:
+        result.errors.length > 0
+          ? `${result.errors.length} sync action(s) failed`
+          : undefined,
+      operation: 'sync',
+      dryRun: false,
+      leftPath: path.resolve(leftPath),
+      rightPath: path.resolve(rightPath),
+      mode,
+      compareBy,
+      conflicts: plan?.conflicts || [],
+      ...result,
+    };
+  }
+
+  private isPathInside(filePath: string, roots: string[]): boolean {
+    const resolved = path.resolve(filePath);
+    return roots.some((root) => {
+      const relative = path.relative(root, resolved);
+      return (
+        relative !== '' &&
+        !relative.startsWith('..') &&
+        !path.isAbsolute(relative)
+      );
+    });
   }
 
   /**
-   * Get all files in a directory (non-recursive)
+   * Report sync progress with bytes and throughput on its own channel
    */
-  private async getFilesInDirectory(dirPath: string): Promise<
-    Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }>
-  > {
-    const entries = await readdir(dirPath, { withFileTypes: true });
-    const files: Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }> = [];
-
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name);
-
-      try {
-        const stats = await stat(fullPath);
-        files.push({
-          relativePath: entry.name,
-          fullPath: fullPath,
-          size: stats.size,
-          modified: stats.mtime.toISOString(),
-          isDirectory: entry.isDirectory(),
-        });
-      } catch (error: any) {
-        console.warn(`Warning: Unable to access ${fullPath}: ${error.message}`);
-        continue;
-      }
+  private reportSyncProgress(run: CommandRun, progress: SyncProgress): void {
+    if (run.job) {
+      run.job.report({
+        current: progress.bytesDone,
+        total: progress.totalBytes,
+        percentage: progress.percentage,
+        message: progress.currentFile,
+        channel: PROGRESS_CHANNELS.sync,
+        data: progress,
+      });
+    } else {
+      run.progress?.(
+        progress.filesDone,
+        progress.totalFiles,
+        progress.currentFile,
+      );
     }
-
-    return files;
   }
 
   /**
-   * Get all files recursively in a directory
+   * Check that a compare side can be listed and return its display path
    */
-  private async getFilesRecursive(
+  private async resolveCompareRoot(
     dirPath: string,
-    basePath: string,
-  ): Promise<
-    Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }>
-  > {
-    const entries = await readdir(dirPath, { withFileTypes: true });
-    const files: Array<{
-      relativePath: string;
-      fullPath: string;
-      size: number;
-      modified: string;
-      isDirectory: boolean;
-    }> = [];
-
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name);
-      const relativePath = path.relative(basePath, fullPath);
-
-      try {
-        const stats = await stat(fullPath);
-        files.push({
-          relativePath: relativePath,
-          fullPath: fullPath,
-          size: stats.size,
-          modified: stats.mtime.toISOString(),
-          isDirectory: entry.isDirectory(),
-        });
-
-        // Recurse into subdirectories
-        if (entry.isDirectory()) {
-          const subFiles = await this.getFilesRecursive(fullPath, basePath);
-          files.push(...subFiles);
-        }
-      } catch (error: any) {
-        console.warn(`Warning: Unable to access ${fullPath}: ${error.message}`);
-        continue;
-      }
+    side: 'Left' | 'Right',
+  ): Promise<string> {
+    const entry = await this.vfs.stat(dirPath);
+    if (!entry) {
+      throw new Error(`${side} directory does not exist: ${dirPath}`);
     }
+    if (!(await this.vfs.isListable(dirPath))) {
+      throw new Error(`${side} path is not a directory: ${entry.path}`);
+    }
+    return entry.path;
+  }
 
-    return files;
+  /**
+   * Get the entries of a directory for comparison (optionally recursive)
+   */
+  private async getCompareEntries(
+    dirPath: string,
+    recursive: boolean,
+  ): Promise<
+    Array<{
+      relativePath: string;
+      fullPath: string;
+      size: number;
+      modified: string;
+      isDirectory: boolean;
+    }>
+  > {
+    const entries = await this.vfs.walk(dirPath, recursive);
+    return entries.map(({ relativePath, entry }) => ({
+      relativePath,
+      fullPath: entry.path,
+      size: entry.size,
+      modified: entry.modified.toISOString(),
+      isDirectory: entry.isDirectory,
+    }));
   }
 
   /**
@@ -3414,18 +3065,16 @@ export class FileOperationsCommand implements ICommand {
   }
 
   /**
-   * Zip files or folders into a ZIP archive
+   * Zip files or folders into a ZIP archive, or a TAR.GZ / TAR.XZ archive
+   * when another format is chosen
    */
   private async zipFiles(
+    run: CommandRun,
     files: string[],
     zipFilePath: string,
-    progressCallback?: (
-      current: number,
-      total: number,
-      fileName: string,
-    ) => void,
     overwrite = false,
     overwriteFiles?: Set<string>,
+    options: ArchiveWriteOptions = { format: 'zip' },
   ): Promise<any> {
     if (!files || files.length === 0) {
       throw new Error('files array is required for zip operation');
@@ -3483,12 +3132,29 @@ export class FileOperationsCommand implements ICommand {
         throw new Error('No valid files or directories to add to ZIP');
       }
 
-      // Create or open the ZIP file
+      // Files are added to an existing plain ZIP, everything else is written
+      // as a new archive
       const zipExists = fs.existsSync(zipFilePath);
-      const zip = zipExists ? new AdmZip(zipFilePath) : new AdmZip();
+      if (
+        !zipExists ||
+        options.format !== 'zip' ||
+        options.password ||
+        options.volumeSize
+      ) {
+        return await this.createArchive(
+          run,
+          allFiles,
+          zipFilePath,
+          options,
+          overwrite,
+        );
+      }
+
+      // Open the existing ZIP file
+      const zip = new AdmZip(zipFilePath);
 
       // If ZIP exists and we haven't received overwrite instructions, check for conflicts
-      if (zipExists && !overwrite && !overwriteFiles) {
+      if (!overwrite && !overwriteFiles) {
         const conflicts: string[] = [];
         for (const file of allFiles) {
           const zipEntryPath = file.zipPath.replace(/\\/g, '/');
@@ -3518,19 +3184,14 @@ export class FileOperationsCommand implements ICommand {
 
       for (let i = 0; i < allFiles.length; i++) {
         // Check for cancellation before processing each file
-        if (this.cancelled) {
-          throw new Error('Operation cancelled by user');
-        }
+        await run.checkpoint();
 
         const file = allFiles[i];
         const zipEntryPath = file.zipPath.replace(/\\/g, '/');
 
         // Report progress less frequently to reduce overhead
-        if (
-          progressCallback &&
-          (i % PROGRESS_UPDATE_INTERVAL === 0 || i === allFiles.length - 1)
-        ) {
-          progressCallback(i + 1, totalFiles, file.displayName);
+        if (i % PROGRESS_UPDATE_INTERVAL === 0 || i === allFiles.length - 1) {
+          run.progress?.(i + 1, totalFiles, file.displayName);
         }
 
         // Check if entry exists in zip
@@ -3574,27 +3235,96 @@ export class FileOperationsCommand implements ICommand {
       }
 
       // Report final progress before writing
-      if (progressCallback) {
-        progressCallback(totalFiles, totalFiles, 'Writing ZIP file...');
-      }
+      run.progress?.(totalFiles, totalFiles, 'Writing ZIP file...');
 
       // Write the ZIP file
       zip.writeZip(zipFilePath);
 
+      // Read it back, AdmZip throws on entries with a CRC mismatch
+      run.progress?.(totalFiles, totalFiles, 'Verifying archive...');
+      for (const entry of new AdmZip(zipFilePath).getEntries()) {
+        if (!entry.isDirectory) {
+          entry.getData();
+        }
+      }
+
       const zipStats = await stat(zipFilePath);
 
       return {
         success: true,
         operation: 'zip',
         zipFile: zipFilePath,
+        format: 'zip',
         filesAdded: addedCount,
         totalFiles: allFiles.length,
         size: zipStats.size,
+        verified: true,
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
-      throw new Error(`Failed to create ZIP: ${error.message}`);
+      throw new Error(
+        `Failed to create ${options.format.toUpperCase()}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Write a new archive with the chosen format, compression level, password
+   * and volume size, then read it back to verify it
+   */
+  private async createArchive(
+    run: CommandRun,
+    allFiles: Array<{ fullPath: string; zipPath: string; displayName: string }>,
+    archivePath: string,
+    options: ArchiveWriteOptions,
+    overwrite = false,
+  ): Promise<any> {
+    // Ask before replacing an existing archive (or its first volume)
+    const outputPath = ArchiveWriter.outputPath(archivePath, options);
+    if (!overwrite && fs.existsSync(outputPath)) {
+      return {
+        prompt: 'overwrite',
+        operation: 'zip',
+        zipFile: archivePath,
+        existingFile: outputPath,
+      };
     }
+
+    const totalFiles = allFiles.length;
+    const PROGRESS_UPDATE_INTERVAL = 5; // Update progress every N files
+
+    const writer = new ArchiveWriter(options, {
+      checkpoint: () => run.checkpoint(),
+      onFile: (index) => {
+        if (index % PROGRESS_UPDATE_INTERVAL === 0 || index === totalFiles - 1) {
+          run.progress?.(index + 1, totalFiles, allFiles[index].displayName);
+        }
+      },
+    });
+
+    const result = await writer.write(
+      allFiles.map((file) => ({
+        fullPath: file.fullPath,
+        archivePath: file.zipPath.replace(/\\/g, '/'),
+      })),
+      archivePath,
+    );
+
+    run.progress?.(totalFiles, totalFiles, 'Verifying archive...');
+    await writer.verify(result);
+
+    return {
+      success: true,
+      operation: 'zip',
+      zipFile: archivePath,
+      format: options.format,
+      volumes: options.volumeSize ? result.files : undefined,
+      filesAdded: result.entries,
+      totalFiles,
+      size: result.size,
+      verified: true,
+      timestamp: new Date().toISOString(),
+    };
   }
 
   /**
@@ -3904,27 +3634,18 @@ export class FileOperationsCommand implements ICommand {
       throw new Error('content is required for write-file operation');
     }
 
-    const absolutePath = path.resolve(filePath);
-
     try {
-      const dir = path.dirname(absolutePath);
-
-      // Create directory if it doesn't exist
-      if (!fs.existsSync(dir)) {
-        await mkdir(dir, { recursive: true });
-      }
-
-      // Write the file
-      fs.writeFileSync(absolutePath, content, 'utf-8');
+      // Write the file (missing directories are created)
+      await this.vfs.write(filePath, Buffer.from(content, 'utf-8'));
 
-      const stats = await stat(absolutePath);
+      const entry = await this.vfs.stat(filePath);
 
       return {
         success: true,
         operation: 'write-file',
         data: {
-          path: absolutePath,
-          size: stats.size,
+          path: entry?.path ?? filePath,
+          size: entry?.size ?? Buffer.byteLength(content, 'utf-8'),
         },
         timestamp: new Date().toISOString(),
       };
@@ -4024,199 +3745,207 @@ export class FileOperationsCommand implements ICommand {
   }
 
   /**
-   * Search for files by name pattern and optionally search within file content
+   * Search for files by name, type, size and date, optionally matching their
+   * content with text or a regular expression. Results are streamed on the
+   * search progress channel while the search runs. With useIndex the folder
+   * listing comes from a persistent index, built on first use.
    */
-  private async searchFiles(
-    searchPath: string,
-    filenamePattern: string,
-    contentText: string,
-    recursive: boolean,
-    caseSensitive: boolean,
-    progressCallback?: (
-      current: number,
-      total: number,
-      fileName: string,
-    ) => void,
-  ): Promise<any> {
-    const results: Array<{
-      path: string;
-      name: string;
-      isDirectory: boolean;
-      matchLine?: number;
-      matchContext?: string;
-    }> = [];
-
-    let filesScanned = 0;
-    const maxResults = 500; // Limit results to prevent overwhelming UI
-
-    // Prepare filename pattern for matching
-    const filenamePatternLower = caseSensitive
-      ? filenamePattern
-      : filenamePattern.toLowerCase();
-
-    // Prepare content search pattern
-    const contentPattern = contentText
-      ? caseSensitive
-        ? contentText
-        : contentText.toLowerCase()
-      : '';
-
-    const searchDir = async (dirPath: string): Promise<void> => {
-      if (this.cancelled || results.length >= maxResults) return;
-
-      try {
-        const entries = await readdir(dirPath, { withFileTypes: true });
-
-        for (const entry of entries) {
-          if (this.cancelled || results.length >= maxResults) break;
-
-          const fullPath = path.join(dirPath, entry.name);
-          const entryName = caseSensitive
-            ? entry.name
-            : entry.name.toLowerCase();
-
-          filesScanned++;
-          if (progressCallback && filesScanned % 100 === 0) {
-            progressCallback(filesScanned, 0, entry.name);
-          }
-
-          // Check if filename matches the pattern
-          let filenameMatches = false;
-          if (
-            filenamePatternLower.includes('*') ||
-            filenamePatternLower.includes('?')
-          ) {
-            const regexPattern = filenamePatternLower
-              .replace(/\./g, '\\.')
-              .replace(/\*/g, '.*')
-              .replace(/\?/g, '.');
-            const regex = new RegExp(
-              `^${regexPattern}$`,
-              caseSensitive ? '' : 'i',
-            );
-            filenameMatches = regex.test(entry.name);
-          } else {
-            filenameMatches = entryName.includes(filenamePatternLower);
-          }
-
-          if (filenameMatches) {
-            // If content search is requested, search within matching files
-            if (contentPattern && entry.isFile()) {
-              try {
-                // Only search in text files (skip binary)
-                const ext = path.extname(entry.name).toLowerCase();
-                const textExtensions = [
-                  '.txt',
-                  '.md',
-                  '.json',
-                  '.js',
-                  '.ts',
-                  '.tsx',
-                  '.jsx',
-                  '.html',
-                  '.htm',
-                  '.css',
-                  '.scss',
-                  '.less',
-                  '.xml',
-                  '.yaml',
-                  '.yml',
-                  '.py',
-                  '.rb',
-                  '.php',
-                  '.java',
-                  '.c',
-                  '.cpp',
-                  '.h',
-                  '.hpp',
-                  '.cs',
-                  '.go',
-                  '.rs',
-                  '.swift',
-                  '.kt',
-                  '.sh',
-                  '.bash',
-                  '.zsh',
-                  '.sql',
-                  '.log',
-                  '.csv',
-                  '.ini',
-                  '.cfg',
-                  '.conf',
-                  '.env',
-                  '.gitignore',
-                  '.editorconfig',
-                  '.prettierrc',
-                  '.eslintrc',
-                ];
+  private async searchFiles(run: CommandRun, params: any): Promise<any> {
+    const { searchPath } = params;
+    if (!searchPath) {
+      throw new Error('searchPath is required for search operation');
+    }
 
-                if (textExtensions.includes(ext) || !ext) {
-                  const stats = await stat(fullPath);
-                  // Skip files larger than 1MB for performance
-                  if (stats.size < 1024 * 1024) {
-                    const content = await readFile(fullPath, 'utf-8');
-                    const lines = content.split('\n');
-
-                    for (let i = 0; i < lines.length; i++) {
-                      const line = caseSensitive
-                        ? lines[i]
-                        : lines[i].toLowerCase();
-                      if (line.includes(contentPattern)) {
-                        results.push({
-                          path: fullPath,
-                          name: entry.name,
-                          isDirectory: false,
-                          matchLine: i + 1,
-                          matchContext: lines[i].trim().substring(0, 200),
-                        });
-                        break; // Only report first match per file
-                      }
-                    }
-                  }
-                }
-              } catch {
-                // Skip files that can't be read
-              }
-            } else if (!contentPattern) {
-              // No content search - just add matching files/directories
-              results.push({
-                path: fullPath,
-                name: entry.name,
-                isDirectory: entry.isDirectory(),
-              });
-            }
-          }
+    const type: SearchEntryType = params.fileType || 'all';
+    if (!SEARCH_ENTRY_TYPES.includes(type)) {
+      throw new Error(
+        `fileType must be one of: ${SEARCH_ENTRY_TYPES.join(', ')}`,
+      );
+    }
 
-          // Recurse into directories
-          if (entry.isDirectory() && recursive) {
-            await searchDir(fullPath);
-          }
+    const options: SearchOptions = {
+      // searchText/searchByContent: backwards compatibility
+      filenamePattern: params.filenamePattern || params.searchText || '',
+      contentText:
+        params.contentText ||
+        (params.searchByContent ? params.searchText : '') ||
+        '',
+      regex: params.regex === true,
+      caseSensitive: params.caseSensitive === true,
+      recursive: params.recursive === true,
+      type,
+      minSize: this.optionalNumber(params.minSize, 'minSize'),
+      maxSize: this.optionalNumber(params.maxSize, 'maxSize'),
+      modifiedAfter: this.optionalTime(params.modifiedAfter, 'modifiedAfter'),
+      modifiedBefore: this.optionalTime(
+        params.modifiedBefore,
+        'modifiedBefore',
+      ),
+      exclude: this.parsePatternList(params.exclude),
+      maxResults: Number(params.maxResults) || DEFAULT_MAX_RESULTS,
+    };
+    // Fail early on invalid regular expressions
+    SearchHelper.contentMatcher(options);
+
+    const source: SearchSource = {
+      list: (dirPath) => this.listSearchEntries(dirPath),
+      stat: async (filePath) => {
+        const entry = await this.vfs.stat(filePath);
+        if (!entry) {
+          throw new Error(`Path does not exist: ${filePath}`);
         }
-      } catch {
-        // Skip directories that can't be read
-      }
+        return { size: entry.size, mtimeMs: entry.modified.getTime() };
+      },
+      read: (filePath) => this.vfs.read(filePath),
+    };
+    const hooks: SearchHooks = {
+      checkpoint: async () => run.job?.checkpoint(),
+      isCancelled: () => run.cancelled,
+      onProgress: (progress) => this.reportSearchProgress(run, progress),
     };
 
-    await searchDir(searchPath);
+    let index: SearchIndexInfo | null = null;
+    let entries: AsyncIterable<WalkedEntry>;
+    if (params.useIndex === true) {
+      index = await this.searchIndex.find(searchPath);
+      if (!index || params.rebuildIndex === true) {
+        index = await this.searchIndex.build(
+          index?.root ?? searchPath,
+          source,
+          hooks,
+        );
+      }
+      entries = this.searchIndex.walk(index, searchPath, options);
+    } else {
+      entries = SearchHelper.walk(searchPath, source, options, hooks);
+    }
+
+    const summary = await SearchHelper.search(entries, source, options, hooks);
 
     return {
       success: true,
       operation: 'search',
       data: {
         searchPath,
-        filenamePattern,
-        contentText,
-        recursive,
-        caseSensitive,
-        results,
-        filesScanned,
-        truncated: results.length >= maxResults,
+        filenamePattern: options.filenamePattern,
+        contentText: options.contentText,
+        recursive: options.recursive,
+        caseSensitive: options.caseSensitive,
+        regex: options.regex,
+        ...summary,
+        index: index ?? undefined,
       },
     };
   }
 
+  /**
+   * List search indexes, or delete the index of searchPath (action: delete)
+   */
+  private async manageSearchIndex(params: any): Promise<any> {
+    if (params.action === 'delete') {
+      if (!(await this.searchIndex.remove(params.searchPath))) {
+        throw new Error(`No search index for ${params.searchPath}`);
+      }
+      return {
+        success: true,
+        operation: 'search-index',
+        deleted: params.searchPath,
+      };
+    }
+    return {
+      success: true,
+      operation: 'search-index',
+      indexes: await this.searchIndex.list(),
+    };
+  }
+
+  /**
+   * Report search progress together with the results found since the last
+   * report, so the search dialog can list them while the search runs
+   */
+  private reportSearchProgress(
+    run: CommandRun,
+    progress: SearchProgress,
+  ): void {
+    if (run.job) {
+      run.job.report({
+        current: progress.filesScanned,
+        message: progress.currentFile,
+        channel: PROGRESS_CHANNELS.search,
+        data: progress,
+      });
+    } else {
+      run.progress?.(progress.filesScanned, 0, progress.currentFile);
+    }
+  }
+
+  /**
+   * Glob patterns given as array or as a comma, semicolon or newline
+   * separated string
+   */
+  private parsePatternList(value: unknown): string[] {
+    if (Array.isArray(value)) return value;
+    if (typeof value !== 'string') return [];
+    return value
+      .split(/[,;\n]/)
+      .map((p) => p.trim())
+      .filter((p) => p);
+  }
+
+  private optionalNumber(value: unknown, name: string): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const number = Number(value);
+    if (isNaN(number)) {
+      throw new Error(`${name} must be a number`);
+    }
+    return number;
+  }
+
+  /**
+   * Time in ms since epoch from a number or a date string
+   */
+  private optionalTime(value: unknown, name: string): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const time = typeof value === 'number' ? value : Date.parse(String(value));
+    if (isNaN(time)) {
+      throw new Error(`${name} must be a date`);
+    }
+    return time;
+  }
+
+  /**
+   * Entries of a folder for the search. Local folders are read without a stat
+   * per entry; archives and remote folders go through the VFS (nested
+   * archives are searched as files, not descended into).
+   */
+  private async listSearchEntries(dirPath: string): Promise<SearchEntry[]> {
+    if (this.vfs.listingSchemeOf(dirPath) === 'local') {
+      const entries = await readdir(dirPath, { withFileTypes: true });
+      return entries.map((entry) => ({
+        name: entry.name,
+        path: path.join(dirPath, entry.name),
+        isDirectory: entry.isDirectory(),
+        isFile: entry.isFile(),
+      }));
+    }
+
+    const { entries } = await this.vfs.list(dirPath);
+    return entries.map((entry) => ({
+      name: entry.name,
+      path: entry.path,
+      isDirectory: entry.isDirectory && !entry.isArchive,
+      isFile: entry.isFile || !!entry.isArchive,
+      size: entry.size,
+      mtimeMs: entry.modified.getTime(),
+    }));
+  }
+
   getDescription(): string {
-    return 'File operations: list, read, copy, move, rename, delete, zip, compare directories, execute commands - with ZIP archive support';
+    return 'File operations: list, read, copy, move, rename, delete, zip, compare and sync directories, execute commands - with ZIP, TAR and 7z archive support';
   }
 
   getParameters(): CommandParameter[] {
@@ -4236,6 +3965,9 @@ export class FileOperationsCommand implements ICommand {
           'delete',
           'zip',
           'compare',
+          'sync',
+          'search',
+          'search-index',
           'execute-command',
           'execute-file',
         ],
@@ -4244,21 +3976,21 @@ export class FileOperationsCommand implements ICommand {
         name: 'folderPath',
         type: 'string',
         description:
-          'Path to folder or ZIP (for list operation). Supports: "C:\\folder" or "C:\\archive.zip/internal/path"',
+          'Path to folder or archive (for list operation). Supports: "C:\\folder", "C:\\archive.zip/internal/path" or "/backups/etc.tar.gz/etc"',
         required: false,
       },
       {
         name: 'filePath',
         type: 'string',
         description:
-          'Path to file (for read/execute-file operations). Supports ZIP paths: "C:\\archive.zip/file.txt"',
+          'Path to file (for read/execute-file operations). Supports archive paths: "C:\\archive.zip/file.txt" or "/backups/etc.tar.gz/etc/hosts"',
         required: false,
       },
       {
         name: 'sourcePath',
         type: 'string',
         description:
-          'Source path (for copy/move/rename/delete operations). Supports ZIP paths for copy/delete',
+          'Source path (for copy/move/rename/delete operations). Supports archive paths (ZIP, TAR, 7z) for copy, ZIP paths for delete',
         required: false,
       },
       {
@@ -4271,22 +4003,147 @@ export class FileOperationsCommand implements ICommand {
       {
         name: 'leftPath',
         type: 'string',
-        description: 'Left directory path (for compare operation)',
+        description: 'Left directory path (for compare/sync operations)',
         required: false,
       },
       {
         name: 'rightPath',
         type: 'string',
-        description: 'Right directory path (for compare operation)',
+        description: 'Right directory path (for compare/sync operations)',
         required: false,
       },
       {
         name: 'recursive',
         type: 'boolean',
         description:
-          'Recursive comparison (for compare operation). Default: false',
+          'Recursive comparison or search (for compare/search operations). Default: false',
+        required: false,
+      },
+      {
+        name: 'mode',
+        type: 'select',
+        description:
+          'Sync mode (for sync operation): mirror (right = left, deletes extra files), update-only (copy new/newer, never delete), two-way (newer file wins). Default: mirror',
+        required: false,
+        options: SYNC_MODES,
+      },
+      {
+        name: 'compareBy',
+        type: 'select',
+        description:
+          'How files are compared (for sync operation). Default: mtime',
+        required: false,
+        options: SYNC_COMPARE_STRATEGIES,
+      },
+      {
+        name: 'exclude',
+        type: 'string',
+        description:
+          'Glob patterns to skip, comma separated (for sync/search operations). Example: "node_modules, *.tmp, build/**"',
+        required: false,
+      },
+      {
+        name: 'dryRun',
+        type: 'boolean',
+        description:
+          'Only return the sync plan without changing files (for sync operation). Default: false',
+        required: false,
+      },
+      {
+        name: 'searchPath',
+        type: 'string',
+        description:
+          'Folder to search in (for search operation), indexed folder (for search-index operation)',
+        required: false,
+      },
+      {
+        name: 'filenamePattern',
+        type: 'string',
+        description:
+          'File name patterns with * and ? wildcards, comma separated (for search operation). Example: "*.ts, *.js"',
+        required: false,
+      },
+      {
+        name: 'contentText',
+        type: 'string',
+        description:
+          'Text or regular expression to find in file contents (for search operation)',
+        required: false,
+      },
+      {
+        name: 'regex',
+        type: 'boolean',
+        description:
+          'Treat contentText as a regular expression, matched per line (for search operation). Default: false',
+        required: false,
+      },
+      {
+        name: 'caseSensitive',
+        type: 'boolean',
+        description: 'Case sensitive search (for search operation). Default: false',
+        required: false,
+      },
+      {
+        name: 'fileType',
+        type: 'select',
+        description: 'Find files, directories or both (for search operation). Default: all',
+        required: false,
+        options: SEARCH_ENTRY_TYPES,
+      },
+      {
+        name: 'minSize',
+        type: 'number',
+        description: 'Minimum file size in bytes (for search operation)',
+        required: false,
+      },
+      {
+        name: 'maxSize',
+        type: 'number',
+        description: 'Maximum file size in bytes (for search operation)',
+        required: false,
+      },
+      {
+        name: 'modifiedAfter',
+        type: 'string',
+        description:
+          'Only entries modified after this date (for search operation). Example: "2024-01-31"',
+        required: false,
+      },
+      {
+        name: 'modifiedBefore',
+        type: 'string',
+        description:
+          'Only entries modified before this date (for search operation). Example: "2024-12-31T23:59:59"',
+        required: false,
+      },
+      {
+        name: 'maxResults',
+        type: 'number',
+        description: `Stop after this many results (for search operation). Default: ${DEFAULT_MAX_RESULTS}`,
+        required: false,
+      },
+      {
+        name: 'useIndex',
+        type: 'boolean',
+        description:
+          'Use the persistent index of the folder, building it on first use (for search operation). Default: false',
+        required: false,
+      },
+      {
+        name: 'rebuildIndex',
+        type: 'boolean',
+        description:
+          'Rebuild the index before searching (for search operation with useIndex). Default: false',
         required: false,
       },
+      {
+        name: 'action',
+        type: 'select',
+        description:
+          'list all search indexes or delete the index of searchPath (for search-index operation). Default: list',
+        required: false,
+        options: ['list', 'delete'],
+      },
       {
         name: 'files',
         type: 'string',
@@ -4297,7 +4154,37 @@ export class FileOperationsCommand implements ICommand {
       {
         name: 'zipFilePath',
         type: 'string',
-        description: 'Path to ZIP file to create (for zip operation)',
+        description:
+          'Path to the archive to create (for zip operation). Existing ZIP files get the files added',
+        required: false,
+      },
+      {
+        name: 'format',
+        type: 'select',
+        description:
+          'Archive format (for zip operation): zip, tar.gz or tar.xz. Default: zip',
+        required: false,
+        options: ARCHIVE_WRITE_FORMATS,
+      },
+      {
+        name: 'compressionLevel',
+        type: 'number',
+        description:
+          'Compression level from 0 (store) to 9 (smallest) (for zip operation). Default: 6',
+        required: false,
+      },
+      {
+        name: 'password',
+        type: 'string',
+        description:
+          'Encrypt the archive with AES-256 (for zip operation, ZIP format only)',
+        required: false,
+      },
+      {
+        name: 'volumeSize',
+        type: 'number',
+        description:
+          'Split the archive into volumes of this many bytes, named .001, .002, ... (for zip operation)',
         required: false,
       },
       {
@@ -1,16 +1,38 @@
 /**
  * Garbage Finder Command
- * Scans directories and builds a tree structure with folder sizes
+ * Scans directories and builds a tree structure with folder sizes and a
+ * report of large, stale and per-type files; finds and cleans up
+ * duplicate files
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
-import { CommandParameter, ICommand } from './command-interface.js';
+import {
+  CommandParameter,
+  ICommand,
+  JobContext,
+} from './command-interface.js';
+import {
+  DuplicateCleanupAction,
+  DuplicateHelper,
+  DuplicateHooks,
+  DuplicateKeepRule,
+} from './duplicate-helper.js';
+import { ScanReportBuilder } from './scan-report.js';
 
 const readdir = promisify(fs.readdir);
 const stat = promisify(fs.stat);
 
+const KEEP_RULES: DuplicateKeepRule[] = [
+  'keep-newest',
+  'keep-oldest',
+  'keep-in-folder',
+];
+const CLEANUP_ACTIONS: DuplicateCleanupAction[] = ['delete', 'hardlink'];
+const DEFAULT_TOP_N = 100;
+const DEFAULT_STALE_YEARS = 3;
+
 interface FolderNode {
   name: string;
   path: string;
@@ -34,8 +56,11 @@ export class GarbageFinderCommand implements ICommand {
   private foldersScanned: number = 0;
   private totalSize: number = 0;
   private rootNode: FolderNode | null = null;
+  private report?: ScanReportBuilder;
   private lastProgressUpdate: number = 0;
   private progressThrottleMs: number = 100;
+  private job?: JobContext;
+  private scans = new Set<GarbageFinderCommand>();
 
   private semaphoreLimit = 64;
   private semaphoreActive = 0;
@@ -68,29 +93,62 @@ export class GarbageFinderCommand implements ICommand {
     this.progressCallback = callback;
   }
 
+  /**
+   * Cancel all running scans
+   */
   cancel() {
     this.cancelled = true;
+    this.scans.forEach((scan) => scan.cancel());
     console.log('[GarbageFinder] Operation cancelled');
   }
 
-  resetCancellation() {
-    this.cancelled = false;
-    this.semaphoreActive = 0;
-    this.semaphoreQueue = [];
+  /**
+   * Route progress and cancellation of this scan through a job
+   */
+  private attachJob(job: JobContext): void {
+    this.job = job;
+    this.progressCallback = (
+      foldersScanned,
+      currentSize,
+      currentPath,
+      percentage,
+      tree,
+    ) =>
+      job.report({
+        current: foldersScanned,
+        percentage,
+        message: currentPath,
+        channel: 'garbage-scan-progress',
+        data: { foldersScanned, currentSize, currentPath, percentage, tree },
+      });
+    job.onCancel(() => this.cancel());
   }
 
-  async execute(params: any): Promise<any> {
-    const { operation, rootPath } = params;
+  async execute(params: any, job?: JobContext): Promise<any> {
+    // Counters, tree and semaphore belong to a single scan and the registered
+    // command is shared by all jobs, so every execution gets its own instance
+    const scan = new GarbageFinderCommand();
+    scan.progressCallback = this.progressCallback;
+    this.scans.add(scan);
+    try {
+      return await scan.run(params, job);
+    } finally {
+      this.scans.delete(scan);
+    }
+  }
 
-    // Reset state
-    this.resetCancellation();
-    this.foldersScanned = 0;
-    this.totalSize = 0;
+  private async run(params: any, job?: JobContext): Promise<any> {
+    const { operation, rootPath } = params;
+    if (job) this.attachJob(job);
 
     try {
       switch (operation) {
         case 'scan':
-          return await this.scanFolderTree(rootPath);
+          return await this.scanFolderTree(rootPath, params);
+        case 'find-duplicates':
+          return await this.findDuplicates(rootPath, params);
+        case 'clean-duplicates':
+          return await this.cleanDuplicates(params);
         default:
           return { success: false, error: `Unknown operation: ${operation}` };
       }
@@ -103,9 +161,13 @@ export class GarbageFinderCommand implements ICommand {
   }
 
   /**
-   * Scan folder tree and return hierarchical structure with sizes
+   * Scan folder tree and return hierarchical structure with sizes and the
+   * file report (largest and stale files, age histogram, file types)
    */
-  private async scanFolderTree(rootPath: string): Promise<any> {
+  private async scanFolderTree(
+    rootPath: string,
+    params: any = {},
+  ): Promise<any> {
     if (!rootPath) {
       return { success: false, error: 'Root path is required' };
     }
@@ -124,6 +186,11 @@ export class GarbageFinderCommand implements ICommand {
 
     // Initialize root node
     this.rootNode = null;
+    const staleYears = Number(params.staleYears) || DEFAULT_STALE_YEARS;
+    this.report = new ScanReportBuilder(absolutePath, {
+      topN: Number(params.topN) || DEFAULT_TOP_N,
+      staleDays: Math.round(staleYears * 365),
+    });
 
     // Build tree
     const tree = await this.buildFolderNode(absolutePath, 0);
@@ -146,12 +213,131 @@ export class GarbageFinderCommand implements ICommand {
       success: true,
       operation: 'scan',
       tree: tree ? [tree] : [],
+      report: this.report.build(),
       totalSize: this.totalSize,
       foldersScanned: this.foldersScanned,
       timestamp: new Date().toISOString(),
     };
   }
 
+  /**
+   * Find files with identical content below a folder
+   */
+  private async findDuplicates(rootPath: string, params: any): Promise<any> {
+    if (!rootPath) {
+      return { success: false, error: 'Root path is required' };
+    }
+
+    const absolutePath = path.resolve(rootPath);
+    try {
+      const stats = await stat(absolutePath);
+      if (!stats.isDirectory()) {
+        return { success: false, error: 'Path is not a directory' };
+      }
+    } catch (error) {
+      return { success: false, error: `Cannot access path: ${absolutePath}` };
+    }
+
+    // Progress goes through the scan progress callback: files scanned as
+    // folder count, hashed bytes as size and no tree
+    const result = await DuplicateHelper.findDuplicates(
+      absolutePath,
+      {
+        minSize: Number(params.minSize) || 1,
+        skipDirectory: (name) => this.shouldSkipDirectory(name),
+      },
+      {
+        ...this.duplicateHooks(),
+        onProgress: (progress) =>
+          this.progressCallback?.(
+            progress.filesScanned,
+            progress.bytesHashed,
+            progress.phase === 'scanning'
+              ? progress.currentFile
+              : `Comparing: ${progress.currentFile}`,
+            progress.percentage,
+            [],
+          ),
+      },
+    );
+
+    return {
+      success: true,
+      operation: 'find-duplicates',
+      rootPath: absolutePath,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Delete duplicates or replace them with hard links. With dryRun only the
+   * plan (kept and removed files per group) is returned.
+   */
+  private async cleanDuplicates(params: any): Promise<any> {
+    const { groups, keepFolder } = params;
+    const rule: DuplicateKeepRule = params.rule || 'keep-newest';
+    const action: DuplicateCleanupAction = params.action || 'delete';
+
+    if (
+      !Array.isArray(groups) ||
+      groups.some((g: any) => !Array.isArray(g))
+    ) {
+      return { success: false, error: 'Groups of file paths are required' };
+    }
+    if (!KEEP_RULES.includes(rule)) {
+      return { success: false, error: `Unknown keep rule: ${rule}` };
+    }
+    if (!CLEANUP_ACTIONS.includes(action)) {
+      return { success: false, error: `Unknown action: ${action}` };
+    }
+
+    const plan = await DuplicateHelper.planCleanup(groups, rule, keepFolder);
+    if (params.dryRun === true) {
+      return {
+        success: true,
+        operation: 'clean-duplicates',
+        dryRun: true,
+        rule,
+        plan,
+      };
+    }
+
+    const result = await DuplicateHelper.applyCleanup(plan, action, {
+      ...this.duplicateHooks(),
+      onProgress: (progress) =>
+        this.progressCallback?.(
+          progress.filesScanned,
+          progress.bytesHashed,
+          progress.currentFile,
+          progress.percentage,
+          [],
+        ),
+    });
+    console.log(
+      `[GarbageFinder] Duplicates: ${result.deleted} deleted, ${result.linked} linked, ${result.errors.length} errors`,
+    );
+
+    return {
+      success: true,
+      operation: 'clean-duplicates',
+      rule,
+      action,
+      ...result,
+    };
+  }
+
+  private duplicateHooks(): DuplicateHooks {
+    return {
+      checkpoint: async () => {
+        await this.job?.checkpoint();
+        if (this.cancelled) {
+          throw new Error('Operation cancelled by user');
+        }
+      },
+    };
+  }
+
   /**
    * Send throttled progress update with current tree state
    */
@@ -185,6 +371,7 @@ export class GarbageFinderCommand implements ICommand {
     depth: number,
     node?: FolderNode,
   ): Promise<FolderNode | null> {
+    await this.job?.checkpoint();
     if (this.cancelled) {
       throw new Error('Operation cancelled by user');
     }
@@ -246,6 +433,7 @@ export class GarbageFinderCommand implements ICommand {
           await this.acquire();
           try {
             const fileStats = await stat(file.fullPath);
+            this.report?.add(file.fullPath, fileStats.size, fileStats.mtimeMs);
             return fileStats.size;
           } catch {
             return 0;
@@ -321,23 +509,80 @@ export class GarbageFinderCommand implements ICommand {
   }
 
   getDescription(): string {
-    return 'Scan directories and analyze folder sizes';
+    return 'Scan directories, analyze folder sizes and find duplicate files';
   }
 
   getParameters(): CommandParameter[] {
     return [
       {
         name: 'operation',
-        description: 'Operation to perform: scan',
+        description:
+          'Operation to perform: scan, find-duplicates, clean-duplicates',
         required: true,
         type: 'string',
       },
       {
         name: 'rootPath',
-        description: 'Root path to scan',
-        required: true,
+        description: 'Root path to scan (scan, find-duplicates)',
+        required: false,
+        type: 'string',
+      },
+      {
+        name: 'topN',
+        description: `Number of largest and stale files in the scan report (default: ${DEFAULT_TOP_N})`,
+        required: false,
+        type: 'number',
+      },
+      {
+        name: 'staleYears',
+        description: `Files not modified for this many years count as stale (default: ${DEFAULT_STALE_YEARS})`,
+        required: false,
+        type: 'number',
+      },
+      {
+        name: 'minSize',
+        description:
+          'Ignore files smaller than this many bytes (find-duplicates, default: 1)',
+        required: false,
+        type: 'number',
+      },
+      {
+        name: 'groups',
+        description:
+          'Duplicate groups as arrays of file paths (clean-duplicates)',
+        required: false,
         type: 'string',
       },
+      {
+        name: 'rule',
+        description: 'Which copy to keep per group (clean-duplicates)',
+        required: false,
+        type: 'select',
+        options: KEEP_RULES,
+        default: 'keep-newest',
+      },
+      {
+        name: 'keepFolder',
+        description: 'Folder whose copies are kept (rule keep-in-folder)',
+        required: false,
+        type: 'string',
+      },
+      {
+        name: 'action',
+        description:
+          'delete the other copies or replace them with hard links (clean-duplicates)',
+        required: false,
+        type: 'select',
+        options: CLEANUP_ACTIONS,
+        default: 'delete',
+      },
+      {
+        name: 'dryRun',
+        description: 'Only return which files would be kept and removed',
+        required: false,
+        type: 'boolean',
+        default: false,
+      },
     ];
   }
 }
@@ -0,0 +1,415 @@
+/**
+ * Metrics Recorder
+ * Samples CPU, memory, disk I/O, network and the busiest processes at a fixed
+ * interval into a ring buffer file in ~/n2htoolbox/, and summarizes the
+ * recorded samples for a time range (last hour, day or week) so the charts
+ * get a bounded number of points.
+ */
+
+import * as path from 'path';
+import { ConfigCommand } from './config-command.js';
+import { MetricsRingBuffer, MetricsSample } from './metrics-ring-buffer.js';
+
+export type { MetricsSample, SampledProcess } from './metrics-ring-buffer.js';
+
+export type HistoryRange = '1h' | '24h' | '7d';
+
+export interface RecorderSettings {
+  enabled: boolean;
+  intervalSeconds: number;
+  retentionDays: number;
+}
+
+export interface RecorderStatus {
+  settings: RecorderSettings;
+  running: boolean;
+  samples: number;
+  capacity: number;
+  oldest: string | null;
+  newest: string | null;
+  lastError: string | null;
+}
+
+export interface ProcessActivity {
+  name: string;
+  cpuAvg: number; // Average over all samples of the range, 0 when not listed
+  cpuMax: number;
+  memoryMaxMB: number;
+  samples: number; // Samples the process was among the busiest in
+}
+
+export interface MetricsPoint {
+  time: number; // Start of the bucket, epoch milliseconds
+  samples: number;
+  cpuAvg: number | null;
+  cpuMax: number | null;
+  memoryUsedMB: number | null;
+  memoryTotalMB: number | null;
+  diskIoMBps: number | null;
+  networkRxMBps: number | null;
+  networkTxMBps: number | null;
+  topProcesses: ProcessActivity[];
+}
+
+export interface MetricsHistory {
+  from: number;
+  to: number;
+  bucketMs: number;
+  samples: number;
+  points: MetricsPoint[]; // Only buckets with samples, oldest first
+  topProcesses: ProcessActivity[];
+}
+
+export type MetricsSampler = () => Promise<MetricsSample>;
+
+const SETTINGS_FILE = 'metrics-recorder.json';
+const BUFFER_FILE = 'metrics-history.bin';
+const PROCESSES_PER_SAMPLE = 5;
+const MAX_SAMPLES = 100000; // ~26 MB of buffer file
+const DEFAULT_MAX_POINTS = 300;
+const PROCESSES_PER_POINT = 3;
+const PROCESSES_PER_RANGE = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+export const HISTORY_RANGES: Record<HistoryRange, number> = {
+  '1h': HOUR_MS,
+  '24h': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+};
+
+const DEFAULT_SETTINGS: RecorderSettings = {
+  enabled: false,
+  intervalSeconds: 60,
+  retentionDays: 7,
+};
+
+export class MetricsRecorder {
+  private settings: RecorderSettings | null = null;
+  private buffer: Promise<MetricsRingBuffer> | null = null;
+  private bufferCapacity = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private sampling = false;
+  private lastError: string | null = null;
+
+  constructor(
+    private sampler: MetricsSampler,
+    private config: ConfigCommand = new ConfigCommand(),
+  ) {}
+
+  /**
+   * Start recording again if it was enabled before the app was restarted
+   */
+  async resume(): Promise<boolean> {
+    const settings = await this.loadSettings();
+    if (!settings.enabled || this.timer) return false;
+    await this.startTimer(settings);
+    return true;
+  }
+
+  /**
+   * Enable recording, optionally with a new interval or retention
+   */
+  async start(
+    changes: Partial<Omit<RecorderSettings, 'enabled'>> = {},
+  ): Promise<RecorderStatus> {
+    const settings = MetricsRecorder.normalize({
+      ...(await this.loadSettings()),
+      ...changes,
+      enabled: true,
+    });
+    await this.saveSettings(settings);
+    this.stopTimer();
+    await this.startTimer(settings);
+    return this.status();
+  }
+
+  /**
+   * Disable recording, the recorded samples are kept
+   */
+  async stop(): Promise<RecorderStatus> {
+    const settings = { ...(await this.loadSettings()), enabled: false };
+    await this.saveSettings(settings);
+    this.stopTimer();
+    return this.status();
+  }
+
+  /**
+   * Stop the timer and close the buffer file without changing the settings
+   */
+  async close(): Promise<void> {
+    this.stopTimer();
+    const buffer = this.buffer;
+    this.buffer = null;
+    await (await buffer?.catch(() => null))?.close();
+  }
+
+  async status(): Promise<RecorderStatus> {
+    const settings = await this.loadSettings();
+    const samples = await (await this.openBuffer(settings)).readAll();
+    return {
+      settings,
+      running: this.timer !== null,
+      samples: samples.length,
+      capacity: MetricsRecorder.capacity(settings),
+      oldest: samples.length ? new Date(samples[0].time).toISOString() : null,
+      newest: samples.length
+        ? new Date(samples[samples.length - 1].time).toISOString()
+        : null,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Take one sample now and store it
+   */
+  async recordSample(): Promise<void> {
+    // A slow sample (e.g. cold WMI counters) must not pile up behind itself
+    if (this.sampling) return;
+    this.sampling = true;
+    try {
+      const sample = await this.sampler();
+      await (await this.openBuffer(await this.loadSettings())).append(sample);
+      this.lastError = null;
+    } catch (error: any) {
+      this.lastError = error.message;
+      console.error('[MetricsRecorder] Failed to record sample:', error);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  /**
+   * Recorded metrics of the last hour, day or week
+   */
+  async history(
+    range: HistoryRange,
+    maxPoints = DEFAULT_MAX_POINTS,
+    now = Date.now(),
+  ): Promise<MetricsHistory> {
+    const from = now - HISTORY_RANGES[range];
+    const buffer = await this.openBuffer(await this.loadSettings());
+    return MetricsRecorder.summarize(
+      await buffer.read(from, now),
+      from,
+      now,
+      maxPoints,
+    );
+  }
+
+  /**
+   * Downsample samples into at most maxPoints buckets: average and peak
+   * CPU, average memory and disk I/O and the busiest processes per bucket
+   * and for the whole range
+   */
+  static summarize(
+    samples: MetricsSample[],
+    from: number,
+    to: number,
+    maxPoints = DEFAULT_MAX_POINTS,
+  ): MetricsHistory {
+    const bucketMs = Math.max(1000, Math.ceil((to - from) / maxPoints));
+    const inRange = samples.filter((s) => s.time >= from && s.time <= to);
+
+    const buckets = new Map<number, MetricsSample[]>();
+    for (const sample of inRange) {
+      const index = Math.min(
+        maxPoints - 1,
+        Math.floor((sample.time - from) / bucketMs),
+      );
+      const bucket = buckets.get(index);
+      if (bucket) bucket.push(sample);
+      else buckets.set(index, [sample]);
+    }
+
+    const points = [...buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(
+        ([index, bucket]): MetricsPoint => ({
+          time: from + index * bucketMs,
+          samples: bucket.length,
+          cpuAvg: MetricsRecorder.average(bucket.map((s) => s.cpuPercent)),
+          cpuMax: MetricsRecorder.max(bucket.map((s) => s.cpuPercent)),
+          memoryUsedMB: MetricsRecorder.average(
+            bucket.map((s) => s.memoryUsedMB),
+          ),
+          memoryTotalMB: MetricsRecorder.max(
+            bucket.map((s) => s.memoryTotalMB),
+          ),
+          diskIoMBps: MetricsRecorder.average(bucket.map((s) => s.diskIoMBps)),
+          networkRxMBps: MetricsRecorder.average(
+            bucket.map((s) => s.networkRxMBps),
+          ),
+          networkTxMBps: MetricsRecorder.average(
+            bucket.map((s) => s.networkTxMBps),
+          ),
+          topProcesses: MetricsRecorder.busiestProcesses(
+            bucket,
+            PROCESSES_PER_POINT,
+          ),
+        }),
+      );
+
+    return {
+      from,
+      to,
+      bucketMs,
+      samples: inRange.length,
+      points,
+      topProcesses: MetricsRecorder.busiestProcesses(
+        inRange,
+        PROCESSES_PER_RANGE,
+      ),
+    };
+  }
+
+  private async startTimer(settings: RecorderSettings): Promise<void> {
+    await this.openBuffer(settings);
+    this.timer = setInterval(
+      () => void this.recordSample(),
+      settings.intervalSeconds * 1000,
+    );
+    // Recording must not keep a CLI run or test process alive
+    this.timer.unref();
+    await this.recordSample();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * The buffer file for the settings, reopened when the settings change
+   * its size. Shared as a promise so concurrent callers open it only once.
+   */
+  private openBuffer(settings: RecorderSettings): Promise<MetricsRingBuffer> {
+    const capacity = MetricsRecorder.capacity(settings);
+    if (this.buffer && this.bufferCapacity === capacity) return this.buffer;
+
+    const previous = this.buffer;
+    const opening = (async () => {
+      await (await previous?.catch(() => null))?.close();
+      const dir = await this.config.execute({ operation: 'get-dir' });
+      return MetricsRingBuffer.open(path.join(dir.path, BUFFER_FILE), {
+        capacity,
+        processesPerSample: PROCESSES_PER_SAMPLE,
+      });
+    })();
+    this.buffer = opening;
+    this.bufferCapacity = capacity;
+    // Try again on the next call when the file cannot be opened
+    opening.catch(() => {
+      if (this.buffer === opening) this.buffer = null;
+    });
+    return opening;
+  }
+
+  private async loadSettings(): Promise<RecorderSettings> {
+    if (this.settings) return this.settings;
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: SETTINGS_FILE,
+    });
+    this.settings = MetricsRecorder.normalize(
+      result.success && typeof result.data === 'object' ? result.data : {},
+    );
+    return this.settings;
+  }
+
+  private async saveSettings(settings: RecorderSettings): Promise<void> {
+    const result = await this.config.execute({
+      operation: 'write',
+      filename: SETTINGS_FILE,
+      data: settings,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save recorder settings');
+    }
+    this.settings = settings;
+  }
+
+  private static normalize(
+    settings: Partial<RecorderSettings>,
+  ): RecorderSettings {
+    const number = (value: any, fallback: number, min: number, max: number) =>
+      Number.isFinite(Number(value))
+        ? Math.max(min, Math.min(max, Number(value)))
+        : fallback;
+    return {
+      enabled: settings.enabled === true,
+      intervalSeconds: Math.round(
+        number(
+          settings.intervalSeconds,
+          DEFAULT_SETTINGS.intervalSeconds,
+          5,
+          3600,
+        ),
+      ),
+      retentionDays: number(
+        settings.retentionDays,
+        DEFAULT_SETTINGS.retentionDays,
+        1,
+        31,
+      ),
+    };
+  }
+
+  private static capacity(settings: RecorderSettings): number {
+    return Math.min(
+      MAX_SAMPLES,
+      Math.ceil(
+        (settings.retentionDays * 24 * 3600) / settings.intervalSeconds,
+      ),
+    );
+  }
+
+  /**
+   * Processes with the highest average CPU. Processes are grouped by name,
+   * so several processes of one program (and restarts) count together.
+   */
+  private static busiestProcesses(
+    samples: MetricsSample[],
+    limit: number,
+  ): ProcessActivity[] {
+    const totals = new Map<string, ProcessActivity>();
+    for (const sample of samples) {
+      const perName = new Map<string, { cpu: number; memoryMB: number }>();
+      for (const proc of sample.processes) {
+        const entry = perName.get(proc.name) ?? { cpu: 0, memoryMB: 0 };
+        entry.cpu += proc.cpu;
+        entry.memoryMB += proc.memoryMB;
+        perName.set(proc.name, entry);
+      }
+      for (const [name, { cpu, memoryMB }] of perName) {
+        const total = totals.get(name) ?? {
+          name,
+          cpuAvg: 0,
+          cpuMax: 0,
+          memoryMaxMB: 0,
+          samples: 0,
+        };
+        total.cpuAvg += cpu; // Sum until divided below
+        total.cpuMax = Math.max(total.cpuMax, cpu);
+        total.memoryMaxMB = Math.max(total.memoryMaxMB, memoryMB);
+        total.samples++;
+        totals.set(name, total);
+      }
+    }
+    return [...totals.values()]
+      .map((total) => ({ ...total, cpuAvg: total.cpuAvg / samples.length }))
+      .sort((a, b) => b.cpuAvg - a.cpuAvg)
+      .slice(0, limit);
+  }
+
+  private static average(values: Array<number | null>): number | null {
+    const known = values.filter((v): v is number => v !== null);
+    return known.length
+      ? known.reduce((sum, v) => sum + v, 0) / known.length
+      : null;
+  }
+
+  private static max(values: Array<number | null>): number | null {
+    const known = values.filter((v): v is number => v !== null);
+    return known.length ? Math.max(...known) : null;
+  }
+}
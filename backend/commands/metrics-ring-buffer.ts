@@ -0,0 +1,252 @@
+/**
+ * Metrics Ring Buffer
+ * Fixed size binary file of system metric samples. Every sample takes one
+ * record of the same size, the oldest record is overwritten once the file
+ * is full, so the file never grows beyond capacity * record size.
+ */
+
+import { FileHandle, open } from 'fs/promises';
+
+export interface SampledProcess {
+  pid: number;
+  name: string;
+  cpu: number; // Percent
+  memoryMB: number;
+}
+
+export interface MetricsSample {
+  time: number; // Epoch milliseconds
+  cpuPercent: number | null;
+  memoryUsedMB: number | null;
+  memoryTotalMB: number | null;
+  diskIoMBps: number | null;
+  networkRxMBps: number | null;
+  networkTxMBps: number | null;
+  processes: SampledProcess[];
+}
+
+export interface RingBufferLayout {
+  capacity: number; // Number of samples kept
+  processesPerSample: number;
+}
+
+const MAGIC = 0x524d484e; // 'NHMR'
+const VERSION = 1;
+const HEADER_SIZE = 32;
+const SAMPLE_FIELDS_SIZE = 32; // time f64 + 6 x f32
+const PROCESS_NAME_BYTES = 36;
+const PROCESS_SIZE = 12 + PROCESS_NAME_BYTES; // pid u32, cpu f32, memory f32, name
+
+export class MetricsRingBuffer {
+  private constructor(
+    private handle: FileHandle,
+    readonly layout: RingBufferLayout,
+    private next: number, // Slot written next
+    private count: number,
+  ) {}
+
+  /**
+   * Open a buffer file, or create it. A file with a different layout is
+   * rewritten with the newest samples that fit the new layout.
+   */
+  static async open(
+    filePath: string,
+    layout: RingBufferLayout,
+  ): Promise<MetricsRingBuffer> {
+    let existing: MetricsRingBuffer | null = null;
+    try {
+      const handle = await open(filePath, 'r+');
+      existing = await MetricsRingBuffer.readHeader(handle);
+      if (!existing) await handle.close();
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    if (
+      existing &&
+      existing.layout.capacity === layout.capacity &&
+      existing.layout.processesPerSample === layout.processesPerSample
+    ) {
+      return existing;
+    }
+
+    const samples = existing ? await existing.readAll() : [];
+    await existing?.close();
+
+    const buffer = new MetricsRingBuffer(
+      await open(filePath, 'w+'),
+      layout,
+      0,
+      0,
+    );
+    for (const sample of samples.slice(-layout.capacity)) {
+      await buffer.append(sample);
+    }
+    await buffer.writeHeader();
+    return buffer;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Store a sample, overwriting the oldest one when the buffer is full
+   */
+  async append(sample: MetricsSample): Promise<void> {
+    const record = this.encode(sample);
+    await this.handle.write(record, 0, record.length, this.offset(this.next));
+    this.next = (this.next + 1) % this.layout.capacity;
+    this.count = Math.min(this.count + 1, this.layout.capacity);
+    await this.writeHeader();
+  }
+
+  /**
+   * All samples, oldest first
+   */
+  async readAll(): Promise<MetricsSample[]> {
+    if (this.count === 0) return [];
+
+    const recordSize = MetricsRingBuffer.recordSize(this.layout);
+    const data = Buffer.alloc(this.layout.capacity * recordSize);
+    const { bytesRead } = await this.handle.read(
+      data,
+      0,
+      data.length,
+      HEADER_SIZE,
+    );
+
+    const first = this.count < this.layout.capacity ? 0 : this.next;
+    const samples: MetricsSample[] = [];
+    for (let i = 0; i < this.count; i++) {
+      const start = ((first + i) % this.layout.capacity) * recordSize;
+      if (start + recordSize > bytesRead) break;
+      samples.push(this.decode(data.subarray(start, start + recordSize)));
+    }
+    return samples;
+  }
+
+  /**
+   * Samples taken between two points in time (inclusive), oldest first
+   */
+  async read(from: number, to: number): Promise<MetricsSample[]> {
+    return (await this.readAll()).filter(
+      (sample) => sample.time >= from && sample.time <= to,
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+
+  private static recordSize(layout: RingBufferLayout): number {
+    return SAMPLE_FIELDS_SIZE + layout.processesPerSample * PROCESS_SIZE;
+  }
+
+  private static async readHeader(
+    handle: FileHandle,
+  ): Promise<MetricsRingBuffer | null> {
+    const header = Buffer.alloc(HEADER_SIZE);
+    const { bytesRead } = await handle.read(header, 0, HEADER_SIZE, 0);
+    if (
+      bytesRead < HEADER_SIZE ||
+      header.readUInt32LE(0) !== MAGIC ||
+      header.readUInt16LE(4) !== VERSION
+    ) {
+      return null;
+    }
+    const layout: RingBufferLayout = {
+      processesPerSample: header.readUInt16LE(6),
+      capacity: header.readUInt32LE(12),
+    };
+    const next = header.readUInt32LE(16);
+    const count = header.readUInt32LE(20);
+    if (
+      layout.capacity === 0 ||
+      header.readUInt32LE(8) !== MetricsRingBuffer.recordSize(layout) ||
+      next >= layout.capacity ||
+      count > layout.capacity
+    ) {
+      return null;
+    }
+    return new MetricsRingBuffer(handle, layout, next, count);
+  }
+
+  private async writeHeader(): Promise<void> {
+    const header = Buffer.alloc(HEADER_SIZE);
+    header.writeUInt32LE(MAGIC, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(this.layout.processesPerSample, 6);
+    header.writeUInt32LE(MetricsRingBuffer.recordSize(this.layout), 8);
+    header.writeUInt32LE(this.layout.capacity, 12);
+    header.writeUInt32LE(this.next, 16);
+    header.writeUInt32LE(this.count, 20);
+    await this.handle.write(header, 0, HEADER_SIZE, 0);
+  }
+
+  private offset(slot: number): number {
+    return HEADER_SIZE + slot * MetricsRingBuffer.recordSize(this.layout);
+  }
+
+  private encode(sample: MetricsSample): Buffer {
+    const record = Buffer.alloc(MetricsRingBuffer.recordSize(this.layout));
+    record.writeDoubleLE(sample.time, 0);
+    // Missing values are stored as NaN
+    record.writeFloatLE(sample.cpuPercent ?? NaN, 8);
+    record.writeFloatLE(sample.memoryUsedMB ?? NaN, 12);
+    record.writeFloatLE(sample.memoryTotalMB ?? NaN, 16);
+    record.writeFloatLE(sample.diskIoMBps ?? NaN, 20);
+    record.writeFloatLE(sample.networkRxMBps ?? NaN, 24);
+    record.writeFloatLE(sample.networkTxMBps ?? NaN, 28);
+
+    sample.processes
+      .slice(0, this.layout.processesPerSample)
+      .forEach((proc, i) => {
+        const start = SAMPLE_FIELDS_SIZE + i * PROCESS_SIZE;
+        record.writeUInt32LE(proc.pid >>> 0, start);
+        record.writeFloatLE(proc.cpu, start + 4);
+        record.writeFloatLE(proc.memoryMB, start + 8);
+        // Longer names are cut at a character boundary, unused bytes stay 0
+        record.write(proc.name, start + 12, PROCESS_NAME_BYTES, 'utf8');
+      });
+    return record;
+  }
+
+  private decode(record: Buffer): MetricsSample {
+    const value = (offset: number) => {
+      const v = record.readFloatLE(offset);
+      return Number.isNaN(v) ? null : v;
+    };
+
+    const processes: SampledProcess[] = [];
+    for (let i = 0; i < this.layout.processesPerSample; i++) {
+      const start = SAMPLE_FIELDS_SIZE + i * PROCESS_SIZE;
+      const nameBytes = record.subarray(
+        start + 12,
+        start + 12 + PROCESS_NAME_BYTES,
+      );
+      const end = nameBytes.indexOf(0);
+      const name = nameBytes
+        .subarray(0, end === -1 ? PROCESS_NAME_BYTES : end)
+        .toString('utf8');
+      if (!name) break;
+      processes.push({
+        pid: record.readUInt32LE(start),
+        name,
+        cpu: record.readFloatLE(start + 4),
+        memoryMB: record.readFloatLE(start + 8),
+      });
+    }
+
+    return {
+      time: record.readDoubleLE(0),
+      cpuPercent: value(8),
+      memoryUsedMB: value(12),
+      memoryTotalMB: value(16),
+      diskIoMBps: value(20),
+      networkRxMBps: value(24),
+      networkTxMBps: value(28),
+      processes,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * MT940 Parser
+ * Reads SWIFT MT940 statements (.sta/.mt940) as exported by German banks:
+ * ":25:" account, ":61:" statement lines and ":86:" details, which are
+ * either structured with "?nn" subfields or free text.
+ */
+
+import { BankStatement, Transaction } from './bank-transaction.js';
+
+// Value date YYMMDD, optional booking date MMDD, C/D/RC/RD mark, optional
+// last letter of the currency, amount with decimal comma, type code N/F/S+3
+const STATEMENT_LINE =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?(\d+(?:,\d*)?)([NFS][A-Z0-9]{3})/;
+
+export class Mt940Parser {
+  /**
+   * Whether the content looks like MT940 (statement number and lines)
+   */
+  static detect(content: string): boolean {
+    return /^:20:/m.test(content) && /^:61:/m.test(content);
+  }
+
+  static parse(content: string): Transaction[] {
+    const transactions: Transaction[] = [];
+    let account = '';
+    let current: Transaction | null = null;
+
+    for (const { tag, value } of Mt940Parser.fields(content)) {
+      if (tag === '20') {
+        account = '';
+        current = null;
+      } else if (tag === '25') {
+        account = Mt940Parser.account(value);
+      } else if (tag === '61') {
+        current = Mt940Parser.statementLine(value, account);
+        if (current) transactions.push(current);
+      } else if (tag === '86' && current) {
+        Mt940Parser.applyDetails(current, value);
+        current = null;
+      }
+    }
+    return transactions;
+  }
+
+  /**
+   * Tags with their values, continuation lines are kept as new lines
+   */
+  private static fields(
+    content: string,
+  ): Array<{ tag: string; value: string }> {
+    const fields: Array<{ tag: string; value: string }> = [];
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (match) {
+        fields.push({ tag: match[1], value: match[2] });
+      } else if (fields.length && line.trim() !== '-') {
+        fields[fields.length - 1].value += '\n' + line;
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * "BLZ/account" or IBAN, some banks append the currency
+   */
+  private static account(value: string): string {
+    return value.trim().replace(/(\d)[A-Z]{3}$/, '$1');
+  }
+
+  private static statementLine(
+    value: string,
+    account: string,
+  ): Transaction | null {
+    const match = value.match(STATEMENT_LINE);
+    if (!match) {
+      console.warn(`Skipping unreadable MT940 statement line: ${value}`);
+      return null;
+    }
+    const [, yy, valueMonth, valueDay, booking, mark, amountStr, typeCode] =
+      match;
+    let year = 2000 + Number(yy);
+    let month = valueMonth;
+    let day = valueDay;
+    if (booking) {
+      month = booking.slice(0, 2);
+      day = booking.slice(2);
+      // Booked around the turn of the year
+      if (valueMonth === '01' && month === '12') year--;
+      if (valueMonth === '12' && month === '01') year++;
+    }
+
+    const amount = parseFloat(amountStr.replace(',', '.'));
+    // A reversal of a credit (RC) is a debit and the other way round
+    const debit = mark === 'D' || mark === 'RC';
+    return {
+      account,
+      date: `${day}.${month}.${year}`,
+      amount: debit ? -amount : amount,
+      type: typeCode,
+      counterpartyBank: '',
+      counterpartyAccount: '',
+      counterpartyName: '',
+      reference: '',
+    };
+  }
+
+  /**
+   * Structured details start with the 3 digit business transaction code,
+   * followed by subfields like "?00posting text?20purpose...?32name"
+   */
+  private static applyDetails(txn: Transaction, value: string): void {
+    const text = value.replace(/\r?\n/g, '');
+    if (!/^\d{3}\?/.test(text)) {
+      txn.reference = value.replace(/\s*\n\s*/g, ' ').trim();
+      return;
+    }
+
+    const subfields: Record<string, string> = {};
+    const parts = text.split(/\?(\d{2})/);
+    for (let i = 1; i < parts.length - 1; i += 2) {
+      subfields[parts[i]] = (subfields[parts[i]] || '') + parts[i + 1];
+    }
+    const join = (codes: string[]) =>
+      codes
+        .map((code) => subfields[code] || '')
+        .join('')
+        .trim();
+
+    const purposeCodes = [
+      ...Array.from({ length: 10 }, (_, i) => `2${i}`),
+      '60',
+      '61',
+      '62',
+      '63',
+    ];
+    txn.type = subfields['00']?.trim() || txn.type;
+    txn.counterpartyBank = join(['30']);
+    txn.counterpartyAccount = join(['31']);
+    txn.counterpartyName = join(['32', '33']);
+    txn.reference = BankStatement.purpose(join(purposeCodes));
+  }
+}
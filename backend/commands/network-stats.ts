@@ -0,0 +1,244 @@
+/**
+ * Network Stats
+ * Parses per-interface byte counters and TCP connection lists from the
+ * platform tools (/proc/net/dev and ss on Linux, netstat and lsof on macOS,
+ * netstat on Windows) and turns two counter snapshots into rates.
+ */
+
+export interface InterfaceCounters {
+  name: string;
+  rxBytes: number;
+  txBytes: number;
+}
+
+export interface InterfaceRate {
+  name: string;
+  loopback: boolean;
+  rxMBps: number;
+  txMBps: number;
+  rxTotalMB: number; // Since the interface came up
+  txTotalMB: number;
+}
+
+export interface NetworkRates {
+  interfaces: InterfaceRate[];
+  rxMBps: number; // All interfaces except loopback
+  txMBps: number;
+}
+
+export interface NetworkConnection {
+  protocol: string;
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string;
+  remotePort: number;
+  state: string;
+  pid: number; // 0 when the owner is not visible
+  processName: string;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export class NetworkStats {
+  /**
+   * Counters from /proc/net/dev
+   */
+  static parseProcNetDev(content: string): InterfaceCounters[] {
+    const counters: InterfaceCounters[] = [];
+    for (const line of content.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+      const fields = line
+        .slice(separator + 1)
+        .trim()
+        .split(/\s+/)
+        .map(Number);
+      // 8 receive columns, then transmit columns starting with bytes
+      if (fields.length < 9) continue;
+      counters.push({
+        name: line.slice(0, separator).trim(),
+        rxBytes: fields[0],
+        txBytes: fields[8],
+      });
+    }
+    return counters;
+  }
+
+  /**
+   * Counters from `netstat -ibn` (macOS/BSD). Every interface is listed
+   * once per address, the link level row has the totals.
+   */
+  static parseNetstatInterfaces(stdout: string): InterfaceCounters[] {
+    const counters = new Map<string, InterfaceCounters>();
+    for (const line of stdout.split('\n').slice(1)) {
+      const parts = line.trim().split(/\s+/);
+      if (parts.length < 8 || !parts[2]?.startsWith('<Link#')) continue;
+      // The address column can be empty, count from the end:
+      // ... Ibytes Opkts Oerrs Obytes Coll
+      const rxBytes = Number(parts[parts.length - 5]);
+      const txBytes = Number(parts[parts.length - 2]);
+      if (!counters.has(parts[0]) && isFinite(rxBytes) && isFinite(txBytes)) {
+        counters.set(parts[0], { name: parts[0], rxBytes, txBytes });
+      }
+    }
+    return [...counters.values()];
+  }
+
+  /**
+   * Rates between two snapshots taken `seconds` apart
+   */
+  static rates(
+    first: InterfaceCounters[],
+    second: InterfaceCounters[],
+    seconds: number,
+  ): NetworkRates {
+    const before = new Map(first.map((c) => [c.name, c]));
+    const interfaces = second
+      .filter((c) => before.has(c.name))
+      .map((c): InterfaceRate => {
+        const previous = before.get(c.name)!;
+        // Counters reset when an interface restarts
+        const rate = (now: number, then: number) =>
+          Math.max(0, now - then) / BYTES_PER_MB / seconds;
+        return {
+          name: c.name,
+          loopback: NetworkStats.isLoopback(c.name),
+          rxMBps: rate(c.rxBytes, previous.rxBytes),
+          txMBps: rate(c.txBytes, previous.txBytes),
+          rxTotalMB: c.rxBytes / BYTES_PER_MB,
+          txTotalMB: c.txBytes / BYTES_PER_MB,
+        };
+      })
+      .sort((a, b) => b.rxMBps + b.txMBps - (a.rxMBps + a.txMBps));
+
+    const external = interfaces.filter((i) => !i.loopback);
+    return {
+      interfaces,
+      rxMBps: external.reduce((sum, i) => sum + i.rxMBps, 0),
+      txMBps: external.reduce((sum, i) => sum + i.txMBps, 0),
+    };
+  }
+
+  /**
+   * Connections from `ss -tanp` (Linux), without listening sockets
+   */
+  static parseSsConnections(stdout: string): NetworkConnection[] {
+    const connections: NetworkConnection[] = [];
+    for (const line of stdout.trim().split('\n').slice(1)) {
+      const parts = line.trim().split(/\s+/);
+      if (parts.length < 5 || parts[0] === 'LISTEN') continue;
+      const local = NetworkStats.splitAddress(parts[3]);
+      const remote = NetworkStats.splitAddress(parts[4]);
+      if (!local || !remote) continue;
+      // users:(("firefox",pid=1234,fd=56))
+      const owner = parts
+        .slice(5)
+        .join(' ')
+        .match(/\("([^"]+)",pid=(\d+)/);
+      connections.push({
+        protocol: 'TCP',
+        ...NetworkStats.endpoints(local, remote),
+        state: parts[0],
+        pid: owner ? Number(owner[2]) : 0,
+        processName: owner?.[1] ?? '',
+      });
+    }
+    return connections;
+  }
+
+  /**
+   * Connections from `lsof -iTCP -sTCP:^LISTEN -P -n -F pcnT` (macOS)
+   */
+  static parseLsofConnections(stdout: string): NetworkConnection[] {
+    const connections: NetworkConnection[] = [];
+    let pid = 0;
+    let processName = '';
+    let current: NetworkConnection | null = null;
+    for (const line of stdout.split('\n')) {
+      const value = line.slice(1);
+      if (line.startsWith('p')) {
+        pid = Number(value);
+      } else if (line.startsWith('c')) {
+        processName = value;
+      } else if (line.startsWith('n')) {
+        // local->remote
+        const [localPart, remotePart] = value.split('->');
+        const local = NetworkStats.splitAddress(localPart);
+        const remote = remotePart
+          ? NetworkStats.splitAddress(remotePart)
+          : null;
+        current =
+          local && remote
+            ? {
+                protocol: 'TCP',
+                ...NetworkStats.endpoints(local, remote),
+                state: '',
+                pid,
+                processName,
+              }
+            : null;
+        if (current) connections.push(current);
+      } else if (line.startsWith('TST=') && current) {
+        current.state = line.slice(4);
+      }
+    }
+    return connections;
+  }
+
+  /**
+   * Connections from `netstat -ano` (Windows). Listening sockets have the
+   * remote port 0; the state is shown as netstat prints it (localized).
+   */
+  static parseNetstatConnections(
+    stdout: string,
+    processNames: Map<number, string>,
+  ): NetworkConnection[] {
+    const connections: NetworkConnection[] = [];
+    for (const line of stdout.split('\n')) {
+      const parts = line.trim().split(/\s+/);
+      if (parts[0] !== 'TCP' || parts.length < 5) continue;
+      const local = NetworkStats.splitAddress(parts[1]);
+      const remote = NetworkStats.splitAddress(parts[2]);
+      if (!local || !remote || remote.port === 0) continue;
+      const pid = Number(parts[parts.length - 1]);
+      connections.push({
+        protocol: 'TCP',
+        ...NetworkStats.endpoints(local, remote),
+        state: parts.slice(3, -1).join(' '),
+        pid: isFinite(pid) ? pid : 0,
+        processName: processNames.get(pid) ?? '',
+      });
+    }
+    return connections;
+  }
+
+  /**
+   * Split "address:port" (IPv6 addresses in brackets or with a "%zone")
+   */
+  static splitAddress(value: string): { address: string; port: number } | null {
+    const lastColon = value.lastIndexOf(':');
+    if (lastColon <= 0) return null;
+    const port = Number(value.slice(lastColon + 1));
+    if (!Number.isInteger(port)) return null;
+    return {
+      address: value.slice(0, lastColon).replace(/^\[(.*)\]$/, '$1'),
+      port,
+    };
+  }
+
+  private static endpoints(
+    local: { address: string; port: number },
+    remote: { address: string; port: number },
+  ) {
+    return {
+      localAddress: local.address,
+      localPort: local.port,
+      remoteAddress: remote.address,
+      remotePort: remote.port,
+    };
+  }
+
+  private static isLoopback(name: string): boolean {
+    return /^lo\d*$/.test(name) || /loopback/i.test(name);
+  }
+}
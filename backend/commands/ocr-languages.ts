@@ -0,0 +1,118 @@
+/**
+ * OCR Languages
+ * The languages OcrService recognizes, from the DocManager preferences
+ * (ocrLanguages, ocrAutoDetect and ocrLanguagePath in
+ * ~/n2htoolbox/user-preferences.json). Tesseract needs a language pack
+ * (<code>.traineddata) per language; without a language folder missing
+ * packs are downloaded once and kept in the working directory, like the
+ * deu.traineddata of the app.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigCommand } from './config-command.js';
+
+export interface OcrLanguageSettings {
+  languages: string[]; // Tesseract codes, recognized together (deu+eng)
+  autoDetect: boolean; // Recognize each page again in its own language
+  languagePath: string; // Folder with the .traineddata files, empty for the default
+}
+
+export const DEFAULT_OCR_LANGUAGES = ['deu', 'eng'];
+
+const PREFERENCES_FILE = 'user-preferences.json';
+
+// Frequent short words telling the languages apart
+const STOPWORDS: Record<string, Set<string>> = Object.fromEntries(
+  Object.entries({
+    deu: 'der die das und ist nicht mit sie den dem des ein eine auf für von zu wir ihre bei sehr geehrte',
+    eng: 'the and of to is that for you with your this are be on we please dear',
+    fra: 'le les et des du une est pour que qui dans vous nous sur pas votre avec madame monsieur',
+    ita: 'il lo gli della che per sono non nel gentile questo anche',
+    spa: 'el los las del por para sus estimado usted este pero',
+    nld: 'het een van niet voor met zijn wij uw geachte ook',
+  }).map(([language, words]) => [language, new Set(words.split(' '))]),
+);
+
+const MIN_DETECTED_WORDS = 3;
+
+export class OcrLanguages {
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  async settings(): Promise<OcrLanguageSettings> {
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: PREFERENCES_FILE,
+    });
+    const prefs = (result.success && result.data) || {};
+    const languages = Array.isArray(prefs.ocrLanguages)
+      ? prefs.ocrLanguages.filter(
+          (code: any) => typeof code === 'string' && /^[a-z_]+$/i.test(code),
+        )
+      : [];
+    return {
+      languages: languages.length > 0 ? languages : DEFAULT_OCR_LANGUAGES,
+      autoDetect: prefs.ocrAutoDetect === true,
+      languagePath:
+        typeof prefs.ocrLanguagePath === 'string'
+          ? prefs.ocrLanguagePath.trim()
+          : '',
+    };
+  }
+
+  /**
+   * The language packs in a folder, by default the working directory
+   * where Tesseract keeps the downloaded ones
+   */
+  static available(languagePath = ''): string[] {
+    const folder = languagePath || process.cwd();
+    if (!fs.existsSync(folder)) return [];
+    return [
+      ...new Set(
+        fs
+          .readdirSync(folder)
+          .map((name) => name.match(/^([a-z_]+)\.traineddata(?:\.gz)?$/i))
+          .filter((match): match is RegExpMatchArray => match !== null)
+          .map((match) => match[1]),
+      ),
+    ].sort();
+  }
+
+  /**
+   * The language pack file of a language in a folder, null without one
+   */
+  static packFile(languagePath: string, language: string): string | null {
+    for (const name of [
+      `${language}.traineddata`,
+      `${language}.traineddata.gz`,
+    ]) {
+      const file = path.join(languagePath, name);
+      if (fs.existsSync(file)) return file;
+    }
+    return null;
+  }
+
+  /**
+   * The language of a recognized text among the given ones, by counting
+   * their frequent words; empty when too few are found
+   */
+  static detect(text: string, languages: string[]): string {
+    const counts = new Map<string, number>();
+    for (const word of text.toLowerCase().split(/[^\p{L}]+/u)) {
+      for (const language of languages) {
+        if (STOPWORDS[language]?.has(word)) {
+          counts.set(language, (counts.get(language) || 0) + 1);
+        }
+      }
+    }
+    let best = '';
+    let bestCount = MIN_DETECTED_WORDS - 1;
+    for (const [language, count] of counts) {
+      if (count > bestCount) {
+        best = language;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+}
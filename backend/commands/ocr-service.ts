@@ -2,13 +2,37 @@ import nlp from 'compromise';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createWorker } from 'tesseract.js';
+import {
+  ExtractionTemplate,
+  ExtractionTemplates,
+} from './extraction-templates.js';
+import {
+  DEFAULT_OCR_LANGUAGES,
+  OcrLanguageSettings,
+  OcrLanguages,
+} from './ocr-languages.js';
+
+/**
+ * A recognized word with its bounding box in image pixels
+ */
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
 
 /**
  * OCR Service for extracting text from images using Tesseract.js
  */
 export class OcrService {
   private static instance: OcrService;
-  private worker: any = null;
+  private workers = new Map<string, any>(); // By language, e.g. deu+eng
+  private languages: OcrLanguageSettings = {
+    languages: DEFAULT_OCR_LANGUAGES,
+    autoDetect: false,
+    languagePath: '',
+  };
+  private extractionTemplates: ExtractionTemplate[] = [];
 
   private constructor() {}
 
@@ -20,28 +44,104 @@ export class OcrService {
   }
 
   /**
-   * Initialize the OCR worker
+   * The user's extraction templates applied by analyzeText
+   */
+  setExtractionTemplates(templates: ExtractionTemplate[]): void {
+    this.extractionTemplates = templates;
+  }
+
+  /**
+   * The languages to recognize. Workers of other languages are terminated,
+   * as are all workers of another language folder, they loaded their
+   * language packs from there.
+   */
+  async setLanguages(settings: OcrLanguageSettings): Promise<void> {
+    const samePath = settings.languagePath === this.languages.languagePath;
+    this.languages = settings;
+    await this.terminate(samePath ? this.workerLanguages() : []);
+  }
+
+  /**
+   * The workers the selected languages need: one for all of them and, with
+   * auto-detection, one per language a page can be detected in
+   */
+  private workerLanguages(): string[] {
+    const { languages, autoDetect } = this.languages;
+    const combined = languages.join('+');
+    return autoDetect ? [combined, ...languages] : [combined];
+  }
+
+  /**
+   * Initialize the OCR worker for the selected languages
    */
   async initialize(): Promise<void> {
-    if (!this.worker) {
-      console.log('Initializing OCR worker...');
-      this.worker = await createWorker('deu+eng'); // German + English
+    await this.workerFor(this.languages.languages.join('+'));
+  }
+
+  private async workerFor(language: string): Promise<any> {
+    let worker = this.workers.get(language);
+    if (!worker) {
+      const { languagePath } = this.languages;
+      console.log(`Initializing OCR worker for ${language}...`);
+      if (languagePath) {
+        const missing = language
+          .split('+')
+          .filter((code) => !OcrLanguages.packFile(languagePath, code));
+        if (missing.length > 0) {
+          throw new Error(
+            `No language pack for ${missing.join(', ')} in ${languagePath}`,
+          );
+        }
+      }
+      // Packs of the language folder are read from there, never downloaded
+      worker = await createWorker(
+        language,
+        undefined,
+        languagePath
+          ? {
+              langPath: languagePath,
+              cachePath: languagePath,
+              cacheMethod: 'readOnly',
+            }
+          : {},
+      );
+      this.workers.set(language, worker);
     }
+    return worker;
   }
 
   /**
-   * Perform OCR on an image file and return extracted text
+   * Recognize a page with all selected languages. With auto-detection the
+   * page is recognized again in the language its text is written in, and
+   * the result Tesseract is more confident about counts.
    */
-  async recognizeImage(imagePath: string): Promise<string> {
-    try {
-      if (!this.worker) {
-        await this.initialize();
-      }
+  private async recognizePage(
+    image: string | Buffer,
+    output?: Record<string, boolean>,
+  ): Promise<any> {
+    const { languages, autoDetect } = this.languages;
+    const worker = await this.workerFor(languages.join('+'));
+    const { data } = await worker.recognize(image, {}, output);
+    if (!autoDetect || languages.length < 2) return data;
+
+    const detected = OcrLanguages.detect(data.text, languages);
+    if (!detected) return data;
+    const single = await this.workerFor(detected);
+    const { data: detectedData } = await single.recognize(image, {}, output);
+    console.log(
+      `[OCR] Page language ${detected}: confidence ${detectedData.confidence} (${languages.join('+')}: ${data.confidence})`,
+    );
+    return detectedData.confidence >= data.confidence ? detectedData : data;
+  }
 
+  /**
+   * Perform OCR on an image file (or PNG/JPEG data) and return extracted text
+   */
+  async recognizeImage(image: string | Buffer): Promise<string> {
+    const imagePath = typeof image === 'string' ? image : 'image data';
+    try {
       console.log(`Running OCR on: ${imagePath}`);
-      const {
-        data: { text },
-      } = await this.worker.recognize(imagePath);
+      const { text } = await this.recognizePage(image);
       return text;
     } catch (error: any) {
       console.error(`OCR error for ${imagePath}:`, error.message);
@@ -49,10 +149,37 @@ export class OcrService {
     }
   }
 
+  /**
+   * Perform OCR on an image (path or PNG/JPEG data) and return the text
+   * with the position of every word
+   */
+  async recognizeWords(
+    image: string | Buffer,
+  ): Promise<{ text: string; words: OcrWord[] }> {
+    const data = await this.recognizePage(image, { text: true, blocks: true });
+    const words: OcrWord[] = [];
+    for (const block of data.blocks || []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          for (const word of line.words) {
+            if (word.text.trim()) {
+              words.push({
+                text: word.text.trim(),
+                confidence: word.confidence,
+                bbox: word.bbox,
+              });
+            }
+          }
+        }
+      }
+    }
+    return { text: data.text, words };
+  }
+
   /**
    * Perform OCR on an image and analyze the text
    */
-  async recognizeAndAnalyze(imagePath: string): Promise<{
+  async recognizeAndAnalyze(imagePath: string | Buffer): Promise<{
     text: string;
     analysis: any;
   }> {
@@ -126,10 +253,6 @@ export class OcrService {
    */
   async recognizeImages(imagePaths: string[]): Promise<string> {
     try {
-      if (!this.worker) {
-        await this.initialize();
-      }
-
       const allTexts: string[] = [];
 
       for (let i = 0; i < imagePaths.length; i++) {
@@ -139,9 +262,7 @@ export class OcrService {
         );
         console.log(`[OCR] Starting text recognition...`);
 
-        const {
-          data: { text },
-        } = await this.worker.recognize(imagePath);
+        const { text } = await this.recognizePage(imagePath);
 
         console.log(
           `[OCR] Extracted ${text.length} characters from page ${i + 1}`,
@@ -525,7 +646,7 @@ export class OcrService {
   /**
    * Analyze extracted text for sender and other information
    */
-  private analyzeText(text: string): any {
+  analyzeText(text: string): any {
     const analysisStartTime = Date.now();
     const timings: Record<string, number> = {};
 
@@ -626,6 +747,15 @@ export class OcrService {
         .map(([word]) => word);
       timings.wordFrequencyAnalysis = Date.now() - wordStartTime;
 
+      // Fields of the user's extraction templates
+      const templatesStartTime = Date.now();
+      const extracted = ExtractionTemplates.apply(
+        this.extractionTemplates,
+        text,
+        [sender, ...mergedOrganizations],
+      );
+      timings.templateExtraction = Date.now() - templatesStartTime;
+
       // Calculate text statistics
       const statsStartTime = Date.now();
       const sentences = doc.sentences().length;
@@ -655,6 +785,7 @@ export class OcrService {
         `  Number sequence extraction: ${timings.numberSequenceExtraction}ms`,
       );
       console.log(`  Full name extraction: ${timings.fullNameExtraction}ms`);
+      console.log(`  Template extraction: ${timings.templateExtraction}ms`);
       console.log(
         `  Statistics calculation: ${timings.statisticsCalculation}ms`,
       );
@@ -672,6 +803,7 @@ export class OcrService {
         domains: webData.domains.length > 0 ? webData.domains : [],
         numberSequences: numberSequences.length > 0 ? numberSequences : [],
         fullNames: fullNames.length > 0 ? fullNames : [],
+        extracted,
         keywords: wordFreq,
         statistics: {
           totalCharacters: characterCount,
@@ -758,13 +890,14 @@ export class OcrService {
   }
 
   /**
-   * Cleanup the OCR worker
+   * Cleanup the OCR workers, except those for the given languages
    */
-  async terminate(): Promise<void> {
-    if (this.worker) {
-      console.log('Terminating OCR worker...');
-      await this.worker.terminate();
-      this.worker = null;
+  async terminate(keep: string[] = []): Promise<void> {
+    for (const [language, worker] of this.workers) {
+      if (keep.includes(language)) continue;
+      console.log(`Terminating OCR worker for ${language}...`);
+      this.workers.delete(language);
+      await worker.terminate();
     }
   }
 }
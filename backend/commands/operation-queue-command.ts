@@ -0,0 +1,585 @@
+/**
+ * Operation Queue Command
+ * Runs copy/move/delete/zip operations one after another in the background.
+ * The queue can be reordered, paused and retried, and is persisted via
+ * ConfigCommand so it survives an app restart.
+ */
+
+import { JobManager } from '../job-manager.js';
+import {
+  ARCHIVE_WRITE_FORMATS,
+  ArchiveWriteOptions,
+} from './archive-writer.js';
+import {
+  CommandParameter,
+  ICommand,
+  JobProgress,
+} from './command-interface.js';
+import { ConfigCommand } from './config-command.js';
+import { FileOperationsCommand } from './file-operations-command.js';
+
+const QUEUE_CONFIG_FILE = 'operation-queue.json';
+
+export type QueueItemType = 'copy' | 'move' | 'delete' | 'zip';
+
+export type QueueItemStatus =
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface QueueItem {
+  id: string;
+  type: QueueItemType;
+  sourcePaths: string[];
+  completedPaths?: string[]; // Sources already done, left out on retry
+  destinationPath?: string; // Target directory (copy/move) or ZIP file (zip)
+  archiveOptions?: Omit<ArchiveWriteOptions, 'password'>; // zip only
+  overwrite: boolean;
+  status: QueueItemStatus;
+  progress?: JobProgress;
+  error?: string;
+  conflict?: boolean;
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+interface QueueState {
+  paused: boolean;
+  items: QueueItem[];
+}
+
+const ITEM_TYPES: QueueItemType[] = ['copy', 'move', 'delete', 'zip'];
+
+export class OperationQueueCommand implements ICommand {
+  private items: QueueItem[] = [];
+  private paused = false;
+  private loading: Promise<void> | null = null;
+  private processing = false;
+  private idCounter = 0;
+
+  // Own instances so queued work never shares cancel state with interactive operations
+  private fileOps = new FileOperationsCommand();
+  private jobs = new JobManager();
+
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  async execute(params: any): Promise<any> {
+    const { operation, id } = params;
+
+    try {
+      await this.ensureLoaded();
+
+      switch (operation) {
+        case 'add':
+          return await this.addItem(params);
+        case 'list':
+          return this.listItems();
+        case 'remove':
+          return await this.removeItem(id);
+        case 'reorder':
+          return await this.reorderItem(id, params.toIndex);
+        case 'pause':
+          return await this.pause(id);
+        case 'resume':
+          return await this.resume(id);
+        case 'retry':
+          return await this.retryItem(id, params.overwrite === true);
+        case 'cancel':
+          return await this.cancelItem(id);
+        case 'clear-finished':
+          return await this.clearFinished();
+        default:
+          return { success: false, error: `Unknown operation: ${operation}` };
+      }
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Restore the persisted queue and continue its queued items (at app start)
+   */
+  async resumeQueue(): Promise<void> {
+    await this.ensureLoaded();
+  }
+
+  /**
+   * Wait until the queue has no more runnable items (used by tests and the CLI)
+   */
+  async idle(): Promise<void> {
+    while (this.processing) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  /**
+   * Load the persisted queue once; calls made meanwhile wait for it
+   */
+  private ensureLoaded(): Promise<void> {
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  /**
+   * Items that were running when the app stopped are queued again
+   */
+  private async load(): Promise<void> {
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: QUEUE_CONFIG_FILE,
+    });
+
+    if (result.success && result.data && typeof result.data === 'object') {
+      const state = result.data as QueueState;
+      this.paused = state.paused === true;
+      this.items = (Array.isArray(state.items) ? state.items : []).map(
+        (item) =>
+          item.status === 'running' ? { ...item, status: 'queued' } : item,
+      );
+      console.log(
+        `[OperationQueue] Restored ${this.items.length} item(s) from ${QUEUE_CONFIG_FILE}`,
+      );
+    }
+
+    this.processQueue();
+  }
+
+  private async persist(): Promise<void> {
+    const state: QueueState = {
+      paused: this.paused,
+      items: this.items.map(({ progress, ...item }) => item),
+    };
+
+    const result = await this.config.execute({
+      operation: 'write',
+      filename: QUEUE_CONFIG_FILE,
+      data: state,
+    });
+    if (!result.success) {
+      console.warn(`[OperationQueue] Failed to persist queue: ${result.error}`);
+    }
+  }
+
+  private listItems(): any {
+    return {
+      success: true,
+      operation: 'list',
+      paused: this.paused,
+      items: this.items,
+      summary: {
+        queued: this.items.filter((i) => i.status === 'queued').length,
+        running: this.items.filter((i) => i.status === 'running').length,
+        failed: this.items.filter((i) => i.status === 'failed').length,
+        completed: this.items.filter((i) => i.status === 'completed').length,
+      },
+    };
+  }
+
+  private async addItem(params: any): Promise<any> {
+    const { type, destinationPath } = params;
+    const sourcePaths: string[] = Array.isArray(params.sourcePaths)
+      ? params.sourcePaths
+      : params.sourcePath
+        ? [params.sourcePath]
+        : [];
+
+    if (!ITEM_TYPES.includes(type)) {
+      return {
+        success: false,
+        error: `type must be one of: ${ITEM_TYPES.join(', ')}`,
+      };
+    }
+    if (sourcePaths.length === 0) {
+      return { success: false, error: 'sourcePaths is required' };
+    }
+    if (type !== 'delete' && !destinationPath) {
+      return {
+        success: false,
+        error: `destinationPath is required for ${type}`,
+      };
+    }
+    // The queue is persisted as plain JSON, so passwords never go in there
+    if (params.password) {
+      return {
+        success: false,
+        error: 'Password protected archives cannot be queued',
+      };
+    }
+
+    const item: QueueItem = {
+      id: `queue-${Date.now()}-${++this.idCounter}`,
+      type,
+      sourcePaths,
+      destinationPath,
+      archiveOptions:
+        type === 'zip' && params.format
+          ? {
+              format: params.format,
+              compressionLevel: params.compressionLevel,
+              volumeSize: params.volumeSize,
+            }
+          : undefined,
+      overwrite: params.overwrite === true,
+      status: 'queued',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.items.push(item);
+    await this.persist();
+    this.processQueue();
+
+    return { success: true, operation: 'add', item };
+  }
+
+  private async removeItem(id: string): Promise<any> {
+    this.getItem(id);
+    if (this.jobs.get(id) && !this.isFinished(id)) {
+      return { success: false, error: 'Cancel the running item first' };
+    }
+
+    this.items = this.items.filter((i) => i.id !== id);
+    await this.persist();
+    return { success: true, operation: 'remove', id };
+  }
+
+  private async reorderItem(id: string, toIndex: number): Promise<any> {
+    const item = this.getItem(id);
+    if (typeof toIndex !== 'number' || isNaN(toIndex)) {
+      return { success: false, error: 'toIndex is required' };
+    }
+
+    const target = Math.max(0, Math.min(toIndex, this.items.length - 1));
+    this.items = this.items.filter((i) => i.id !== id);
+    this.items.splice(target, 0, item);
+    await this.persist();
+
+    return { success: true, operation: 'reorder', id, index: target };
+  }
+
+  /**
+   * Pause a single item, or the whole queue when no id is given.
+   * Pausing the queue lets the running item finish but starts no new ones.
+   */
+  private async pause(id?: string): Promise<any> {
+    if (!id) {
+      this.paused = true;
+      await this.persist();
+      return { success: true, operation: 'pause', paused: true };
+    }
+
+    const item = this.getItem(id);
+    if (item.status === 'running') {
+      if (!this.jobs.pause(id)) {
+        return { success: false, error: 'Item cannot be paused right now' };
+      }
+    } else if (item.status !== 'queued') {
+      return { success: false, error: `Cannot pause ${item.status} item` };
+    }
+
+    item.status = 'paused';
+    await this.persist();
+    return { success: true, operation: 'pause', id };
+  }
+
+  private async resume(id?: string): Promise<any> {
+    if (!id) {
+      this.paused = false;
+      await this.persist();
+      this.processQueue();
+      return { success: true, operation: 'resume', paused: false };
+    }
+
+    const item = this.getItem(id);
+    if (item.status !== 'paused') {
+      return { success: false, error: `Cannot resume ${item.status} item` };
+    }
+
+    // A paused running item continues its job, a paused queued item waits for its turn
+    item.status = this.jobs.resume(id) ? 'running' : 'queued';
+    await this.persist();
+    this.processQueue();
+    return { success: true, operation: 'resume', id };
+  }
+
+  private async retryItem(id: string, overwrite: boolean): Promise<any> {
+    const item = this.getItem(id);
+    if (item.status !== 'failed' && item.status !== 'cancelled') {
+      return { success: false, error: `Cannot retry ${item.status} item` };
+    }
+
+    item.status = 'queued';
+    item.error = undefined;
+    item.conflict = undefined;
+    item.progress = undefined;
+    item.overwrite = item.overwrite || overwrite;
+    await this.persist();
+    this.processQueue();
+
+    return { success: true, operation: 'retry', id };
+  }
+
+  private async cancelItem(id: string): Promise<any> {
+    const item = this.getItem(id);
+
+    if (this.jobs.cancel(id)) {
+      // The runner records the final status when the job ends
+      return { success: true, operation: 'cancel', id };
+    }
+    if (item.status !== 'queued' && item.status !== 'paused') {
+      return { success: false, error: `Cannot cancel ${item.status} item` };
+    }
+
+    item.status = 'cancelled';
+    item.finishedAt = new Date().toISOString();
+    await this.persist();
+    return { success: true, operation: 'cancel', id };
+  }
+
+  private async clearFinished(): Promise<any> {
+    const before = this.items.length;
+    this.items = this.items.filter(
+      (i) => i.status !== 'completed' && i.status !== 'cancelled',
+    );
+    await this.persist();
+    return {
+      success: true,
+      operation: 'clear-finished',
+      removed: before - this.items.length,
+    };
+  }
+
+  private getItem(id: string): QueueItem {
+    const item = this.items.find((i) => i.id === id);
+    if (!item) {
+      throw new Error(`Queue item not found: ${id}`);
+    }
+    return item;
+  }
+
+  private isFinished(id: string): boolean {
+    const status = this.jobs.get(id)?.status;
+    return (
+      status === 'completed' || status === 'failed' || status === 'cancelled'
+    );
+  }
+
+  /**
+   * Run queued items one after another until the queue is empty or paused
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      while (!this.paused) {
+        const next = this.items.find((i) => i.status === 'queued');
+        if (!next) break;
+        await this.runItem(next);
+      }
+    } catch (error: any) {
+      console.error(
+        `[OperationQueue] Queue processing failed: ${error.message}`,
+      );
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runItem(item: QueueItem): Promise<void> {
+    item.status = 'running';
+    item.attempts++;
+    item.error = undefined;
+    item.conflict = undefined;
+    item.startedAt = new Date().toISOString();
+    item.finishedAt = undefined;
+    await this.persist();
+
+    const unsubscribe = this.jobs.subscribe((event) => {
+      if (event.job.id === item.id && event.type === 'progress') {
+        const { data, ...progress } = event.job.progress || {};
+        item.progress = progress;
+      }
+    });
+
+    let result: any;
+    try {
+      result = await this.runOperation(item, this.toFileOperationParams(item));
+
+      // ZIP reports existing entries; with overwrite we replace exactly those
+      if (result?.prompt === 'conflicts' && item.overwrite) {
+        result = await this.runOperation(item, {
+          ...this.toFileOperationParams(item),
+          overwriteFiles: result.conflicts,
+        });
+      }
+      // A new archive replaces an existing file of the same name
+      if (result?.prompt === 'overwrite' && item.overwrite) {
+        result = await this.runOperation(item, {
+          ...this.toFileOperationParams(item),
+          overwrite: true,
+        });
+      }
+    } catch (error: any) {
+      result = { success: false, error: error.message };
+    } finally {
+      unsubscribe();
+    }
+
+    if (Array.isArray(result?.completedPaths)) {
+      item.completedPaths = [
+        ...(item.completedPaths || []),
+        ...result.completedPaths,
+      ];
+    }
+
+    item.finishedAt = new Date().toISOString();
+    if (this.jobs.get(item.id)?.status === 'cancelled' || result?.cancelled) {
+      item.status = 'cancelled';
+    } else if (result?.prompt) {
+      item.status = 'failed';
+      item.conflict = true;
+      item.error = 'Destination already exists';
+    } else if (result && result.success === false) {
+      item.status = 'failed';
+      item.conflict = result.conflict === true;
+      item.error = result.error || 'Unknown error';
+    } else {
+      item.status = 'completed';
+      item.progress = { ...item.progress, percentage: 100 };
+    }
+
+    console.log(
+      `[OperationQueue] ${item.type} ${item.id} finished: ${item.status}${item.error ? ` (${item.error})` : ''}`,
+    );
+    await this.persist();
+  }
+
+  private async runOperation(item: QueueItem, params: any): Promise<any> {
+    this.jobs.start(
+      'file-operations',
+      params,
+      (job) => this.fileOps.execute(params, job),
+      item.id,
+    );
+    return await this.jobs.wait(item.id);
+  }
+
+  private toFileOperationParams(item: QueueItem): any {
+    // A retry continues after the sources an earlier attempt finished
+    const done = new Set(item.completedPaths);
+    const sourcePaths = item.sourcePaths.filter((p) => !done.has(p));
+
+    switch (item.type) {
+      case 'copy':
+      case 'move':
+        return {
+          operation: item.type,
+          sourcePath: sourcePaths,
+          destinationPath: item.destinationPath,
+          overwrite: item.overwrite,
+          failOnConflict: true,
+        };
+      case 'delete':
+        return { operation: 'delete', sourcePath: sourcePaths };
+      case 'zip':
+        return {
+          operation: 'zip',
+          files: item.sourcePaths,
+          zipFilePath: item.destinationPath,
+          ...item.archiveOptions,
+        };
+    }
+  }
+
+  getDescription(): string {
+    return 'Background queue for copy, move, delete and zip operations (persisted in ~/n2htoolbox/)';
+  }
+
+  getParameters(): CommandParameter[] {
+    return [
+      {
+        name: 'operation',
+        type: 'select',
+        description: 'Queue operation to perform',
+        required: true,
+        options: [
+          'add',
+          'list',
+          'remove',
+          'reorder',
+          'pause',
+          'resume',
+          'retry',
+          'cancel',
+          'clear-finished',
+        ],
+      },
+      {
+        name: 'type',
+        type: 'select',
+        description: 'Operation type of a new queue item (for add)',
+        required: false,
+        options: ITEM_TYPES,
+      },
+      {
+        name: 'sourcePaths',
+        type: 'string',
+        description:
+          'JSON array of source paths (for add). Example: ["C:\\\\file1.txt", "C:\\\\folder"]',
+        required: false,
+      },
+      {
+        name: 'destinationPath',
+        type: 'string',
+        description:
+          'Target directory (copy/move) or ZIP file path (zip) (for add)',
+        required: false,
+      },
+      {
+        name: 'id',
+        type: 'string',
+        description:
+          'Queue item ID (for remove/reorder/retry/cancel, optional for pause/resume)',
+        required: false,
+      },
+      {
+        name: 'toIndex',
+        type: 'number',
+        description: 'New position of the item (for reorder)',
+        required: false,
+      },
+      {
+        name: 'overwrite',
+        type: 'boolean',
+        description: 'Overwrite existing files (for add/retry). Default: false',
+        required: false,
+      },
+      {
+        name: 'format',
+        type: 'select',
+        description: 'Archive format of a zip item (for add). Default: zip',
+        required: false,
+        options: ARCHIVE_WRITE_FORMATS,
+      },
+      {
+        name: 'compressionLevel',
+        type: 'number',
+        description: 'Compression level 0-9 of a zip item (for add)',
+        required: false,
+      },
+      {
+        name: 'volumeSize',
+        type: 'number',
+        description:
+          'Split a zip item into volumes of this many bytes (for add)',
+        required: false,
+      },
+    ];
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * PDF Text Layer
+ * Makes scanned PDFs searchable: recognized words are written as invisible
+ * text (rendering mode 3) over the page image, positioned and stretched to
+ * their bounding boxes, so viewers can select and find them. Also reads the
+ * page images of existing image-only PDFs for OCR.
+ */
+
+import {
+  beginText,
+  endText,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFRawStream,
+  popGraphicsState,
+  pushGraphicsState,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+  StandardFonts,
+  TextRenderingMode,
+} from 'pdf-lib';
+import * as zlib from 'zlib';
+import { OcrWord } from './ocr-service.js';
+
+export interface TextLayerPage {
+  imageWidth: number; // Size of the recognized image, the words are in its pixels
+  imageHeight: number;
+  words: OcrWord[];
+}
+
+export interface PdfPageImage {
+  data: Buffer; // JPEG or PNG
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export class PdfTextLayer {
+  /**
+   * Add the words of every given page as invisible text. Pages without an
+   * entry are left unchanged.
+   */
+  static async addTextLayer(
+    pdfBytes: Uint8Array,
+    pages: Array<TextLayerPage | null>,
+  ): Promise<Uint8Array> {
+    const pdf = await PDFDocument.load(pdfBytes);
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+
+    pdf.getPages().forEach((page, index) => {
+      const layer = pages[index];
+      if (layer && layer.words.length > 0) {
+        PdfTextLayer.addWords(pdf, page, font, layer);
+      }
+    });
+    return pdf.save();
+  }
+
+  /**
+   * The image of every page without text, null for pages that have text
+   * already or no image in a readable encoding (JPEG or Flate compressed
+   * gray or RGB). A page with several images is read from its largest one.
+   * With includeTextPages the images of pages with text are read too.
+   */
+  static async pageImages(
+    pdfBytes: Uint8Array,
+    includeTextPages = false,
+  ): Promise<Array<PdfPageImage | null>> {
+    const pdf = await PDFDocument.load(pdfBytes);
+    return pdf.getPages().map((page) => {
+      const resources = page.node.Resources();
+      const fonts = resources?.lookup(PDFName.of('Font'));
+      if (
+        !includeTextPages &&
+        fonts instanceof PDFDict &&
+        fonts.keys().length > 0
+      ) {
+        return null;
+      }
+
+      const xObjects = resources?.lookup(PDFName.of('XObject'));
+      if (!(xObjects instanceof PDFDict)) return null;
+      let largest: PDFRawStream | null = null;
+      let largestArea = 0;
+      for (const [, ref] of xObjects.entries()) {
+        const stream = pdf.context.lookup(ref);
+        if (
+          !(stream instanceof PDFRawStream) ||
+          stream.dict.get(PDFName.of('Subtype')) !== PDFName.of('Image')
+        ) {
+          continue;
+        }
+        const area =
+          PdfTextLayer.number(stream.dict, 'Width') *
+          PdfTextLayer.number(stream.dict, 'Height');
+        if (area > largestArea) {
+          largest = stream;
+          largestArea = area;
+        }
+      }
+      return largest ? PdfTextLayer.image(pdf, largest) : null;
+    });
+  }
+
+  private static addWords(
+    pdf: PDFDocument,
+    page: PDFPage,
+    font: PDFFont,
+    layer: TextLayerPage,
+  ): void {
+    const { width, height } = page.getSize();
+    const scaleX = width / layer.imageWidth;
+    const scaleY = height / layer.imageHeight;
+    const characters = new Set(font.getCharacterSet());
+    const fontKey = page.node.newFontDictionary(font.name, font.ref);
+
+    const operators = [
+      beginText(),
+      setTextRenderingMode(TextRenderingMode.Invisible),
+    ];
+    for (const word of layer.words) {
+      // Helvetica only has the WinAnsi characters
+      const text = Array.from(word.text)
+        .map((c) => (characters.has(c.codePointAt(0)!) ? c : '?'))
+        .join('');
+      const boxWidth = (word.bbox.x1 - word.bbox.x0) * scaleX;
+      const size = (word.bbox.y1 - word.bbox.y0) * scaleY;
+      const textWidth = font.widthOfTextAtSize(text, size);
+      if (boxWidth <= 0 || size <= 0 || textWidth <= 0) continue;
+
+      operators.push(
+        setFontAndSize(fontKey, size),
+        setCharacterSqueeze((100 * boxWidth) / textWidth),
+        // Image rows go down, PDF coordinates up; the baseline is the
+        // bottom of the box
+        setTextMatrix(
+          1,
+          0,
+          0,
+          1,
+          word.bbox.x0 * scaleX,
+          height - word.bbox.y1 * scaleY,
+        ),
+        showText(font.encodeText(text)),
+      );
+    }
+    operators.push(endText());
+
+    // The existing content may leave a transformation behind
+    const context = pdf.context;
+    page.node.wrapContentStreams(
+      context.register(context.contentStream([pushGraphicsState()])),
+      context.register(context.contentStream([popGraphicsState()])),
+    );
+    page.node.addContentStream(
+      context.register(context.contentStream(operators)),
+    );
+  }
+
+  private static image(
+    pdf: PDFDocument,
+    stream: PDFRawStream,
+  ): PdfPageImage | null {
+    const width = PdfTextLayer.number(stream.dict, 'Width');
+    const height = PdfTextLayer.number(stream.dict, 'Height');
+    const filter = stream.dict.lookup(PDFName.of('Filter'));
+    const filters =
+      filter instanceof PDFArray
+        ? filter.asArray().map((f) => f.toString())
+        : filter
+          ? [filter.toString()]
+          : [];
+
+    if (filters.length === 1 && filters[0] === '/DCTDecode') {
+      return { data: Buffer.from(stream.contents), width, height };
+    }
+    if (filters.length === 1 && filters[0] === '/FlateDecode') {
+      const data = PdfTextLayer.png(pdf, stream, width, height);
+      return data ? { data, width, height } : null;
+    }
+    return null;
+  }
+
+  /**
+   * A PNG file of a Flate compressed gray or RGB image with 8 bits (or
+   * 1 bit gray), the compressed rows are PNG image data already
+   */
+  private static png(
+    pdf: PDFDocument,
+    stream: PDFRawStream,
+    width: number,
+    height: number,
+  ): Buffer | null {
+    const colors = PdfTextLayer.colorComponents(
+      pdf,
+      stream.dict.lookup(PDFName.of('ColorSpace')),
+    );
+    const bits = PdfTextLayer.number(stream.dict, 'BitsPerComponent');
+    if (
+      (colors !== 1 && colors !== 3) ||
+      !(bits === 8 || (bits === 1 && colors === 1))
+    ) {
+      return null;
+    }
+    const params = stream.dict.lookup(PDFName.of('DecodeParms'));
+    const predictor =
+      params instanceof PDFDict ? PdfTextLayer.number(params, 'Predictor') : 0;
+    if (predictor > 1 && predictor < 10) return null; // TIFF predictor
+
+    let rows = zlib.inflateSync(stream.contents);
+    if (predictor < 10) {
+      // Every PNG row starts with its filter type, 0 for none
+      const rowBytes = Math.ceil((width * colors * bits) / 8);
+      const filtered = Buffer.alloc((rowBytes + 1) * height);
+      for (let y = 0; y < height; y++) {
+        rows.copy(
+          filtered,
+          y * (rowBytes + 1) + 1,
+          y * rowBytes,
+          (y + 1) * rowBytes,
+        );
+      }
+      rows = filtered;
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = bits;
+    header[9] = colors === 3 ? 2 : 0; // Truecolor or grayscale
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      PdfTextLayer.chunk('IHDR', header),
+      PdfTextLayer.chunk('IDAT', zlib.deflateSync(rows)),
+      PdfTextLayer.chunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+
+  /**
+   * Components per pixel of DeviceGray, DeviceRGB, DeviceCMYK or an ICC
+   * based color space, 0 for others
+   */
+  private static colorComponents(pdf: PDFDocument, colorSpace: any): number {
+    if (colorSpace instanceof PDFName) {
+      return (
+        { '/DeviceGray': 1, '/DeviceRGB': 3, '/DeviceCMYK': 4 }[
+          colorSpace.toString()
+        ] || 0
+      );
+    }
+    if (
+      colorSpace instanceof PDFArray &&
+      colorSpace.get(0)?.toString() === '/ICCBased'
+    ) {
+      const profile = pdf.context.lookup(colorSpace.get(1));
+      return profile instanceof PDFRawStream
+        ? PdfTextLayer.number(profile.dict, 'N')
+        : 0;
+    }
+    return 0;
+  }
+
+  private static number(dict: PDFDict, key: string): number {
+    const value = dict.lookup(PDFName.of(key));
+    return value instanceof PDFNumber ? value.asNumber() : 0;
+  }
+
+  private static chunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(PdfTextLayer.crc32(body));
+    return Buffer.concat([length, body, crc]);
+  }
+
+  private static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Process Tree
+ * Parent/child ordering of the process list for the process explorer and
+ * a direct reader of /proc on Linux (process list, working directory,
+ * environment and open files).
+ */
+
+import { readFile, readdir, readlink } from 'fs/promises';
+import * as path from 'path';
+
+export interface ProcessInfo {
+  pid: number;
+  ppid: number;
+  name: string;
+  command: string;
+  user: string | null;
+  cpu: number; // Percent, averaged since the process started on Linux and Windows
+  memoryMB: number;
+  threads: number | null;
+  startTime: string | null; // ISO date
+}
+
+export interface ProcessTreeEntry extends ProcessInfo {
+  depth: number;
+  childCount: number;
+}
+
+export interface LinuxProcessDetails {
+  cwd: string | null; // null when not readable (other users' processes)
+  environment: Record<string, string> | null;
+  openFiles: string[] | null;
+}
+
+const LINUX_CLOCK_TICKS = 100; // USER_HZ, the same on all common architectures
+const READ_BATCH_SIZE = 50;
+const MAX_OPEN_FILES = 500;
+
+export class ProcessTree {
+  /**
+   * The processes in tree order (every process followed by its children)
+   * with their depth. Processes whose parent is gone become roots.
+   */
+  static flatten(processes: ProcessInfo[]): ProcessTreeEntry[] {
+    const children = ProcessTree.childMap(processes);
+    const byPid = new Map(processes.map((p) => [p.pid, p]));
+    const roots = processes.filter(
+      (p) => !ProcessTree.hasParent(p, byPid.get(p.ppid)),
+    );
+
+    const result: ProcessTreeEntry[] = [];
+    const visited = new Set<number>();
+    const visit = (proc: ProcessInfo, depth: number) => {
+      if (visited.has(proc.pid)) return;
+      visited.add(proc.pid);
+      const kids = children.get(proc.pid) ?? [];
+      result.push({ ...proc, depth, childCount: kids.length });
+      for (const child of kids) visit(child, depth + 1);
+    };
+    for (const root of ProcessTree.sorted(roots)) visit(root, 0);
+    // Parent ids pointing at each other (e.g. equal start times) form a
+    // cycle without a root
+    for (const proc of ProcessTree.sorted(processes)) visit(proc, 0);
+    return result;
+  }
+
+  /**
+   * A process and all its descendants, parents before their children
+   */
+  static subtree(processes: ProcessInfo[], pid: number): number[] {
+    const children = ProcessTree.childMap(processes);
+    const result: number[] = [];
+    const visit = (current: number) => {
+      if (result.includes(current)) return;
+      result.push(current);
+      for (const child of children.get(current) ?? []) visit(child.pid);
+    };
+    visit(pid);
+    return result;
+  }
+
+  /**
+   * All processes from /proc
+   */
+  static async readLinux(
+    procRoot = '/proc',
+    passwdPath = '/etc/passwd',
+    now = Date.now(),
+  ): Promise<ProcessInfo[]> {
+    const [entries, users, procStat] = await Promise.all([
+      readdir(procRoot),
+      ProcessTree.readUsers(passwdPath),
+      readFile(path.join(procRoot, 'stat'), 'utf-8'),
+    ]);
+    const bootSeconds = Number(procStat.match(/^btime\s+(\d+)/m)?.[1] ?? 0);
+    const pids = entries.filter((name) => /^\d+$/.test(name)).map(Number);
+
+    const processes: ProcessInfo[] = [];
+    // In batches, reading every process at once can run out of file handles
+    for (let i = 0; i < pids.length; i += READ_BATCH_SIZE) {
+      const batch = await Promise.all(
+        pids
+          .slice(i, i + READ_BATCH_SIZE)
+          .map((pid) =>
+            ProcessTree.readLinuxProcess(
+              procRoot,
+              pid,
+              users,
+              bootSeconds,
+              now,
+            ),
+          ),
+      );
+      for (const proc of batch) if (proc) processes.push(proc);
+    }
+    return processes;
+  }
+
+  /**
+   * Working directory, environment and open files of a process. Only
+   * readable for processes of the same user (or as root).
+   */
+  static async readLinuxDetails(
+    pid: number,
+    procRoot = '/proc',
+  ): Promise<LinuxProcessDetails> {
+    const dir = path.join(procRoot, String(pid));
+    const [cwd, environ, fds] = await Promise.all([
+      readlink(path.join(dir, 'cwd')).catch(() => null),
+      readFile(path.join(dir, 'environ'), 'utf-8').catch(() => null),
+      readdir(path.join(dir, 'fd')).catch(() => null),
+    ]);
+
+    let environment: Record<string, string> | null = null;
+    if (environ !== null) {
+      environment = {};
+      for (const entry of environ.split('\0')) {
+        const separator = entry.indexOf('=');
+        if (separator > 0) {
+          environment[entry.slice(0, separator)] = entry.slice(separator + 1);
+        }
+      }
+    }
+
+    let openFiles: string[] | null = null;
+    if (fds !== null) {
+      const targets = await Promise.all(
+        fds.map((fd) => readlink(path.join(dir, 'fd', fd)).catch(() => null)),
+      );
+      // Sockets, pipes and anonymous inodes are not files
+      openFiles = [
+        ...new Set(
+          targets.filter((t): t is string => !!t && t.startsWith('/')),
+        ),
+      ]
+        .sort()
+        .slice(0, MAX_OPEN_FILES);
+    }
+
+    return { cwd, environment, openFiles };
+  }
+
+  private static async readLinuxProcess(
+    procRoot: string,
+    pid: number,
+    users: Map<number, string>,
+    bootSeconds: number,
+    now: number,
+  ): Promise<ProcessInfo | null> {
+    const dir = path.join(procRoot, String(pid));
+    let status: string;
+    let stat: string;
+    let cmdline: string;
+    try {
+      [status, stat, cmdline] = await Promise.all([
+        readFile(path.join(dir, 'status'), 'utf-8'),
+        readFile(path.join(dir, 'stat'), 'utf-8'),
+        readFile(path.join(dir, 'cmdline'), 'utf-8').catch(() => ''),
+      ]);
+    } catch {
+      return null; // Exited while reading
+    }
+
+    const field = (name: string) =>
+      status.match(new RegExp(`^${name}:\\s*(.*)$`, 'm'))?.[1].trim();
+    const name = field('Name') ?? 'unknown';
+    const uid = Number(field('Uid')?.split(/\s+/)[0]);
+
+    // Fields after the name, which can contain spaces and parentheses;
+    // utime, stime and starttime are fields 14, 15 and 22 of stat
+    const rest = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const cpuSeconds =
+      (Number(rest[11]) + Number(rest[12])) / LINUX_CLOCK_TICKS;
+    const startSeconds = bootSeconds + Number(rest[19]) / LINUX_CLOCK_TICKS;
+    const runningSeconds = now / 1000 - startSeconds;
+
+    const args = cmdline.split('\0').filter(Boolean).join(' ');
+    return {
+      pid,
+      ppid: Number(field('PPid') ?? 0),
+      name,
+      command: args || `[${name}]`, // Kernel threads have no command line
+      user: Number.isFinite(uid) ? (users.get(uid) ?? String(uid)) : null,
+      cpu:
+        runningSeconds > 0
+          ? Math.max(0, (cpuSeconds / runningSeconds) * 100)
+          : 0,
+      memoryMB: Number(field('VmRSS')?.split(/\s+/)[0] ?? 0) / 1024,
+      threads: Number(field('Threads')) || null,
+      startTime: bootSeconds
+        ? new Date(startSeconds * 1000).toISOString()
+        : null,
+    };
+  }
+
+  private static async readUsers(
+    passwdPath: string,
+  ): Promise<Map<number, string>> {
+    const users = new Map<number, string>();
+    try {
+      const passwd = await readFile(passwdPath, 'utf-8');
+      for (const line of passwd.split('\n')) {
+        const [name, , uid] = line.split(':');
+        if (name && uid) users.set(Number(uid), name);
+      }
+    } catch {
+      // Show user ids instead
+    }
+    return users;
+  }
+
+  private static childMap(
+    processes: ProcessInfo[],
+  ): Map<number, ProcessInfo[]> {
+    const byPid = new Map(processes.map((p) => [p.pid, p]));
+    const children = new Map<number, ProcessInfo[]>();
+    for (const proc of processes) {
+      if (!ProcessTree.hasParent(proc, byPid.get(proc.ppid))) continue;
+      const list = children.get(proc.ppid);
+      if (list) list.push(proc);
+      else children.set(proc.ppid, [proc]);
+    }
+    for (const [pid, list] of children) {
+      children.set(pid, ProcessTree.sorted(list));
+    }
+    return children;
+  }
+
+  /**
+   * Whether a process is the child of the process with its parent id. On
+   * Windows the id of an exited parent can be reused by a newer process,
+   * which then cannot be the parent.
+   */
+  private static hasParent(
+    proc: ProcessInfo,
+    parent: ProcessInfo | undefined,
+  ): boolean {
+    if (!parent || parent.pid === proc.pid) return false;
+    if (parent.startTime && proc.startTime) {
+      return parent.startTime <= proc.startTime;
+    }
+    return true;
+  }
+
+  private static sorted(processes: ProcessInfo[]): ProcessInfo[] {
+    return [...processes].sort((a, b) => a.pid - b.pid);
+  }
+}
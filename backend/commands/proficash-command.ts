@@ -1,46 +1,106 @@
 /**
  * ProfiCash/Bank Statement Parser
  * Supports multiple formats:
- * - CAMT.053 XML (ISO 20022 standard)
+ * - CAMT.053 and CAMT.052 XML (ISO 20022 standard)
+ * - MT940 (SWIFT statement, .sta)
+ * - Bank specific CSV exports with saved column mapping profiles
  * - Fixed-length format (legacy "feste Satzlänge 768")
  */
 
 import { XMLParser } from 'fast-xml-parser';
 import * as fs from 'fs';
+import * as path from 'path';
 import { promisify } from 'util';
+import {
+  BankCsvImport,
+  CsvProfile,
+  CsvProfileStore,
+} from './bank-csv-import.js';
+import {
+  BankStatement,
+  FileEncoding,
+  Transaction,
+} from './bank-transaction.js';
 import { CommandParameter, ICommand } from './command-interface.js';
+import { ConfigCommand } from './config-command.js';
+import { Mt940Parser } from './mt940-parser.js';
+import {
+  CategoryStore,
+  TransactionCategorizer,
+} from './transaction-categories.js';
+import {
+  EXPORT_LOCALES,
+  ExportLocale,
+  TransactionExport,
+} from './transaction-export.js';
+import { TransactionLedger } from './transaction-ledger.js';
 
 const readFile = promisify(fs.readFile);
 
-interface Transaction {
-  account: string;
-  date: string;
-  amount: number;
-  type: string;
-  counterpartyBank?: string;
-  counterpartyAccount?: string;
-  counterpartyName?: string;
-  reference?: string;
-}
+// Rows of a CSV export shown for the column mapping
+const PREVIEW_ROWS = 30;
+
+// Files of a folder imported into the ledger
+const STATEMENT_EXTENSIONS = ['.xml', '.sta', '.mt940', '.txt', '.csv'];
 
 export class ProficashCommand implements ICommand {
+  private profiles: CsvProfileStore;
+  private categories: CategoryStore;
+  private ledger: TransactionLedger;
+
+  constructor(config: ConfigCommand = new ConfigCommand()) {
+    this.profiles = new CsvProfileStore(config);
+    this.categories = new CategoryStore(config);
+    this.ledger = new TransactionLedger(config);
+  }
+
   async execute(params: any): Promise<any> {
-    const { filePath, format } = params;
+    const { action = 'parse', filePath, format } = params;
 
     try {
-      // Auto-detect format if not specified
-      const detectedFormat = format || (await this.detectFormat(filePath));
-
-      if (detectedFormat === 'camt.053' || detectedFormat === 'xml') {
-        return await this.parseCamt053(filePath);
-      } else if (detectedFormat === 'feste Satzlänge 768') {
-        return await this.parseFixedLength768(filePath);
-      } else {
-        return {
-          success: false,
-          error: `Unsupported or unrecognized format: ${detectedFormat}`,
-        };
+      switch (action) {
+        case 'parse':
+          break;
+        case 'csv-preview':
+          return await this.previewCsv(params);
+        case 'csv-profiles':
+          return { success: true, profiles: await this.profiles.list() };
+        case 'csv-save-profile':
+          return await this.saveProfile(params.profile);
+        case 'csv-delete-profile':
+          if (!params.name) {
+            return { success: false, error: 'name is required' };
+          }
+          return {
+            success: true,
+            profiles: await this.profiles.remove(params.name),
+          };
+        case 'categories':
+          return { success: true, ...(await this.categories.load()) };
+        case 'categories-save':
+          return await this.saveCategories(params);
+        case 'ledger':
+          return await this.ledgerResult();
+        case 'ledger-import':
+          return await this.importToLedger(params);
+        case 'ledger-remove-source':
+          if (!filePath) {
+            return { success: false, error: 'filePath is required' };
+          }
+          await this.ledger.removeSource(filePath);
+          return await this.ledgerResult();
+        case 'ledger-clear':
+          await this.ledger.clear();
+          return await this.ledgerResult();
+        case 'export':
+          return await this.exportRows(params);
+        default:
+          return { success: false, error: `Unknown action: ${action}` };
       }
+
+      return await this.categorize(
+        await this.parseFile(filePath, format, params.profile),
+      );
     } catch (error: any) {
       return {
         success: false,
@@ -50,12 +110,201 @@ export class ProficashCommand implements ICommand {
     }
   }
 
+  /**
+   * Parse a statement file in the given or the detected format
+   */
+  private async parseFile(
+    filePath: string,
+    format?: string,
+    profile?: any,
+  ): Promise<any> {
+    // Auto-detect format if not specified
+    const detectedFormat = format || (await this.detectFormat(filePath));
+
+    if (detectedFormat === 'camt.053' || detectedFormat === 'xml') {
+      return this.parseCamt(filePath, 'camt.053');
+    } else if (detectedFormat === 'camt.052') {
+      return this.parseCamt(filePath, 'camt.052');
+    } else if (detectedFormat === 'mt940') {
+      return this.parseMt940(filePath);
+    } else if (detectedFormat === 'csv') {
+      return this.parseCsv(filePath, profile);
+    } else if (detectedFormat === 'feste Satzlänge 768') {
+      return this.parseFixedLength768(filePath);
+    } else {
+      return {
+        success: false,
+        error: `Unsupported or unrecognized format: ${detectedFormat}`,
+      };
+    }
+  }
+
+  /**
+   * All ledger entries as a parse result with the source files of each row
+   * and the list of imported files
+   */
+  private async ledgerResult(): Promise<any> {
+    const { entries, sources } = await this.ledger.load();
+    const result = await this.categorize(
+      BankStatement.result('', 'ledger', entries),
+    );
+    return {
+      ...result,
+      headers: [...result.headers, 'source'],
+      rows: result.rows.map((row: any[], index: number) => [
+        ...row,
+        entries[index].sources.join(', '),
+      ]),
+      sources,
+    };
+  }
+
+  /**
+   * Add statement files (filePaths as array or JSON, or filePath) and the
+   * statement files of a folder and its subfolders to the ledger. A file
+   * that cannot be parsed is reported and skipped.
+   */
+  private async importToLedger(params: any): Promise<any> {
+    const filePaths: string[] =
+      typeof params.filePaths === 'string'
+        ? JSON.parse(params.filePaths)
+        : params.filePaths || [];
+    if (params.filePath) filePaths.push(params.filePath);
+    if (params.folder) {
+      filePaths.push(...(await this.statementFiles(params.folder)));
+    }
+    if (filePaths.length === 0) {
+      return { success: false, error: 'filePaths or folder is required' };
+    }
+
+    const imported: any[] = [];
+    for (const filePath of filePaths) {
+      try {
+        const result = await this.parseFile(filePath);
+        if (!result.success) {
+          imported.push({ filePath, error: result.error });
+          continue;
+        }
+        const transactions = result.rows.map((row: any[]) =>
+          BankStatement.fromRow(row),
+        );
+        imported.push({
+          filePath,
+          format: result.format,
+          ...(await this.ledger.add(filePath, result.format, transactions)),
+        });
+      } catch (error: any) {
+        imported.push({ filePath, error: error.message });
+      }
+    }
+    return { ...(await this.ledgerResult()), imported };
+  }
+
+  /**
+   * Write the given table (usually the filtered view of MoneyFinder) as
+   * CSV, XLSX or PDF report
+   */
+  private async exportRows(params: any): Promise<any> {
+    const json = (value: any) =>
+      typeof value === 'string' ? JSON.parse(value) : value;
+    const { outputPath, exportFormat = 'csv' } = params;
+    if (!outputPath) {
+      return { success: false, error: 'outputPath is required' };
+    }
+    const table = {
+      headers: json(params.headers) || [],
+      rows: json(params.rows) || [],
+    };
+    if (!Array.isArray(table.headers) || !Array.isArray(table.rows)) {
+      return { success: false, error: 'headers and rows must be arrays' };
+    }
+    const locale: ExportLocale = EXPORT_LOCALES.includes(params.locale)
+      ? params.locale
+      : 'de';
+    const options = {
+      delimiter: params.delimiter || (locale === 'de' ? ';' : ','),
+      locale,
+      title: params.title || 'MoneyFinder Report',
+      filters: json(params.filters) || {},
+    };
+
+    if (exportFormat === 'csv') {
+      // With BOM, so spreadsheet programs read the file as UTF-8
+      await fs.promises.writeFile(
+        outputPath,
+        '\uFEFF' + TransactionExport.csv(table, options),
+        'utf-8',
+      );
+    } else if (exportFormat === 'xlsx') {
+      await fs.promises.writeFile(outputPath, TransactionExport.xlsx(table));
+    } else if (exportFormat === 'pdf') {
+      await TransactionExport.pdf(table, options, outputPath);
+    } else {
+      return {
+        success: false,
+        error: `Unknown export format: ${exportFormat}`,
+      };
+    }
+    return {
+      success: true,
+      outputPath,
+      exportFormat,
+      totalRows: table.rows.length,
+    };
+  }
+
+  private async statementFiles(folder: string): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.promises.readdir(folder, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const entryPath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.statementFiles(entryPath)));
+      } else if (
+        STATEMENT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())
+      ) {
+        files.push(entryPath);
+      }
+    }
+    return files.sort();
+  }
+
+  /**
+   * Add the category of the saved rules to every row of a parse result
+   */
+  private async categorize(result: any): Promise<any> {
+    if (!result.success) return result;
+    const { rules } = await this.categories.load();
+    return {
+      ...result,
+      headers: [...result.headers, 'category'],
+      rows: result.rows.map((row: any[]) => [
+        ...row,
+        TransactionCategorizer.categorize(BankStatement.fromRow(row), rules),
+      ]),
+    };
+  }
+
+  /**
+   * Replace the category rules and/or budgets, given as arrays/objects or
+   * as JSON text on the command line
+   */
+  private async saveCategories(params: any): Promise<any> {
+    const json = (value: any) =>
+      typeof value === 'string' ? JSON.parse(value) : value;
+    const changes: Record<string, any> = {};
+    if (params.rules !== undefined) changes.rules = json(params.rules);
+    if (params.budgets !== undefined) changes.budgets = json(params.budgets);
+    return { success: true, ...(await this.categories.save(changes)) };
+  }
+
   /**
    * Detect file format by analyzing content
    */
   private async detectFormat(filePath: string): Promise<string> {
     const content = await readFile(filePath, 'utf-8');
-    const trimmed = content.trim();
+    const trimmed = content.replace(/^\uFEFF/, '').trim();
 
     // Check if it's XML
     if (trimmed.startsWith('<?xml') || trimmed.startsWith('<Document')) {
@@ -67,22 +316,46 @@ export class ProficashCommand implements ICommand {
       ) {
         return 'camt.053';
       }
+      // Intraday account report
+      if (
+        content.includes('camt.052') ||
+        content.includes('BkToCstmrAcctRpt')
+      ) {
+        return 'camt.052';
+      }
       return 'xml';
     }
 
+    if (Mt940Parser.detect(content)) {
+      return 'mt940';
+    }
+
     // Check if it looks like fixed-length format
     const lines = content.split(/\r?\n/).filter((l) => l.trim().length > 0);
     if (lines.length > 0 && lines[0].length >= 700) {
       return 'feste Satzlänge 768';
     }
 
+    // Anything that splits into columns
+    const rows = BankCsvImport.parseTable(
+      lines.slice(0, 50).join('\n'),
+      BankCsvImport.detectDelimiter(content),
+    );
+    if (rows.some((row) => row.length >= 3)) {
+      return 'csv';
+    }
+
     return 'unknown';
   }
 
   /**
-   * Parse CAMT.053 XML file (ISO 20022 Bank-to-Customer Statement)
+   * Parse CAMT.053 XML file (ISO 20022 Bank-to-Customer Statement) or
+   * CAMT.052 (Account Report), both list entries (Ntry) per account
    */
-  private async parseCamt053(filePath: string): Promise<any> {
+  private async parseCamt(
+    filePath: string,
+    format: 'camt.053' | 'camt.052',
+  ): Promise<any> {
     if (!filePath) {
       throw new Error('filePath is required');
     }
@@ -103,30 +376,34 @@ export class ProficashCommand implements ICommand {
 
     const xmlDoc = parser.parse(content);
 
-    // Navigate CAMT.053 structure
+    // Navigate CAMT structure
     const document = xmlDoc.Document || xmlDoc;
-    const bkToCstmrStmt = document.BkToCstmrStmt || document['camt.053.001.02'];
-
-    if (!bkToCstmrStmt) {
+    const [rootName, reportName] =
+      format === 'camt.052'
+        ? ['BkToCstmrAcctRpt', 'Rpt']
+        : ['BkToCstmrStmt', 'Stmt'];
+    const root =
+      document[rootName] ||
+      (format === 'camt.053' ? document['camt.053.001.02'] : undefined);
+
+    if (!root) {
       throw new Error(
-        'Invalid CAMT.053 format: BkToCstmrStmt element not found',
+        `Invalid ${format.toUpperCase()} format: ${rootName} element not found`,
       );
     }
 
-    const statements = Array.isArray(bkToCstmrStmt.Stmt)
-      ? bkToCstmrStmt.Stmt
-      : [bkToCstmrStmt.Stmt];
+    const statements = Array.isArray(root[reportName])
+      ? root[reportName]
+      : [root[reportName]];
 
     const transactions: Transaction[] = [];
-    let totalSum = 0;
-    const yearSums: Record<string, number> = {};
 
     for (const stmt of statements) {
       // Extract account information
-      const account = this.extractAccountNumber(stmt.Acct);
+      const account = this.extractAccountNumber(stmt?.Acct);
 
       // Get entries
-      const entries = stmt.Ntry
+      const entries = stmt?.Ntry
         ? Array.isArray(stmt.Ntry)
           ? stmt.Ntry
           : [stmt.Ntry]
@@ -134,59 +411,154 @@ export class ProficashCommand implements ICommand {
 
       for (const entry of entries) {
         // Extract transaction details from entry
-        const entryTransactions = this.parseEntry(entry, account);
-        transactions.push(...entryTransactions);
-
-        // Update sums
-        for (const txn of entryTransactions) {
-          totalSum += txn.amount;
-          const year =
-            txn.date.split('.')[2] || new Date().getFullYear().toString();
-          if (!yearSums[year]) {
-            yearSums[year] = 0;
-          }
-          yearSums[year] += txn.amount;
-        }
+        transactions.push(...this.parseEntry(entry, account));
       }
     }
 
-    // Convert transactions to rows
-    const rows = transactions.map((txn) => [
-      txn.account,
-      txn.date,
-      txn.amount,
-      txn.type,
-      txn.counterpartyBank || '',
-      txn.counterpartyAccount || '',
-      txn.counterpartyName || '',
-      txn.reference || '',
-    ]);
+    return BankStatement.result(filePath, format, transactions);
+  }
+
+  /**
+   * Parse an MT940 statement file
+   */
+  private async parseMt940(filePath: string): Promise<any> {
+    const { text } = BankStatement.decode(await this.readExisting(filePath));
+    return BankStatement.result(filePath, 'mt940', Mt940Parser.parse(text));
+  }
+
+  /**
+   * Parse a CSV export with the given profile (object, JSON or the name of
+   * a saved profile) or the saved profile made for its header row
+   */
+  private async parseCsv(filePath: string, profileParam: any): Promise<any> {
+    const buffer = await this.readExisting(filePath);
+
+    let profile: CsvProfile | null = null;
+    if (typeof profileParam === 'string' && profileParam.trim()) {
+      profile = profileParam.trim().startsWith('{')
+        ? BankCsvImport.normalizeProfile(JSON.parse(profileParam))
+        : await this.profiles.get(profileParam.trim());
+      if (!profile) {
+        return {
+          success: false,
+          error: `Unknown CSV profile: ${profileParam}`,
+        };
+      }
+    } else if (profileParam && typeof profileParam === 'object') {
+      profile = BankCsvImport.normalizeProfile(profileParam);
+    } else {
+      profile = await this.findProfile(buffer);
+    }
+
+    if (!profile) {
+      return {
+        success: false,
+        error: 'No CSV profile matches this file, map its columns first',
+        format: 'csv',
+        needsMapping: true,
+      };
+    }
+    const invalid = BankCsvImport.validateProfile(profile);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const { text } = BankStatement.decode(buffer, profile.encoding);
+    const rows = BankCsvImport.parseTable(text, profile.delimiter);
+    return {
+      ...BankStatement.result(
+        filePath,
+        'csv',
+        BankCsvImport.toTransactions(rows, profile),
+      ),
+      profile: profile.name,
+    };
+  }
+
+  /**
+   * The first rows of a CSV export with a suggested (or the saved) profile
+   */
+  private async previewCsv(params: any): Promise<any> {
+    const buffer = await this.readExisting(params.filePath);
+    const saved =
+      params.delimiter || params.encoding || params.skipRows !== undefined
+        ? null
+        : await this.findProfile(buffer);
+
+    const encoding: FileEncoding | undefined =
+      saved?.encoding ||
+      (params.encoding === 'latin1' || params.encoding === 'utf-8'
+        ? params.encoding
+        : undefined);
+    const decoded = BankStatement.decode(buffer, encoding);
+    const delimiter =
+      saved?.delimiter ||
+      params.delimiter ||
+      BankCsvImport.detectDelimiter(decoded.text);
+    const rows = BankCsvImport.parseTable(decoded.text, delimiter);
+    const skipRows =
+      params.skipRows !== undefined && params.skipRows !== ''
+        ? Number(params.skipRows)
+        : undefined;
 
     return {
       success: true,
-      operation: 'parse-bank-statement',
-      filePath: filePath,
-      format: 'camt.053',
-      headers: [
-        'account',
-        'date',
-        'amount',
-        'type',
-        'bankcode',
-        'account2',
-        'name',
-        'reference',
-      ],
-      rows: rows,
-      summary: {
-        totalRows: rows.length,
-        sum: totalSum,
-        yearSums: yearSums,
-      },
-      timestamp: new Date().toISOString(),
+      operation: 'csv-preview',
+      filePath: params.filePath,
+      delimiter,
+      encoding: decoded.encoding,
+      rows: rows.slice(0, PREVIEW_ROWS),
+      totalRows: rows.length,
+      profile:
+        saved ||
+        BankCsvImport.suggestProfile(
+          rows,
+          delimiter,
+          decoded.encoding,
+          skipRows,
+        ),
+      saved: !!saved,
     };
   }
 
+  private async saveProfile(profileParam: any): Promise<any> {
+    const profile = BankCsvImport.normalizeProfile(
+      typeof profileParam === 'string'
+        ? JSON.parse(profileParam)
+        : profileParam,
+    );
+    if (!profile.name) {
+      return { success: false, error: 'Profile name is required' };
+    }
+    const invalid = BankCsvImport.validateProfile(profile);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    return { success: true, profiles: await this.profiles.save(profile) };
+  }
+
+  /**
+   * The saved profile whose header row the file has
+   */
+  private async findProfile(buffer: Buffer): Promise<CsvProfile | null> {
+    for (const profile of await this.profiles.list()) {
+      const { text } = BankStatement.decode(buffer, profile.encoding);
+      const rows = BankCsvImport.parseTable(text, profile.delimiter);
+      if (BankCsvImport.matches(profile, rows)) return profile;
+    }
+    return null;
+  }
+
+  private async readExisting(filePath: string): Promise<Buffer> {
+    if (!filePath) {
+      throw new Error('filePath is required');
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File does not exist: ${filePath}`);
+    }
+    return readFile(filePath);
+  }
+
   /**
    * Extract account number from CAMT.053 account structure
    */
@@ -207,7 +579,7 @@ export class ProficashCommand implements ICommand {
   }
 
   /**
-   * Parse a single entry from CAMT.053
+   * Parse a single entry from CAMT.053/CAMT.052
    */
   private parseEntry(entry: any, account: string): Transaction[] {
     const transactions: Transaction[] = [];
@@ -414,9 +786,7 @@ export class ProficashCommand implements ICommand {
       .split(/\r?\n/)
       .filter((line) => line.trim().length > 0);
 
-    const rows: any[][] = [];
-    let totalSum = 0;
-    const yearSums: Record<string, number> = {};
+    const transactions: Transaction[] = [];
 
     for (const line of lines) {
       // Skip lines that are too short
@@ -474,78 +844,161 @@ export class ProficashCommand implements ICommand {
           amount = Math.abs(amount);
         }
 
-        // Format date from DD.MM.YYYY to display format
-        const formattedDate = dateStr;
-
-        // Extract year for summary
-        const year = dateStr.split('.')[2];
-
-        // Update sums
-        totalSum += amount;
-        if (!yearSums[year]) {
-          yearSums[year] = 0;
-        }
-        yearSums[year] += amount;
-
-        // Add row (9 columns to match the headers)
-        rows.push([
-          account,
-          formattedDate,
-          amount,
-          type,
-          toBank,
-          toAccount,
-          toName,
-          fullReason,
-        ]);
+        // Dates are already DD.MM.YYYY
+        transactions.push({
+          account: account,
+          date: dateStr,
+          amount: amount,
+          type: type,
+          counterpartyBank: toBank,
+          counterpartyAccount: toAccount,
+          counterpartyName: toName,
+          reference: fullReason,
+        });
       } catch (error: any) {
         console.warn(`Error parsing line: ${error.message}`);
         continue;
       }
     }
 
-    return {
-      success: true,
-      operation: 'parse-bank-statement',
-      filePath: filePath,
-      format: 'feste Satzlänge 768',
-      headers: [
-        'account',
-        'date',
-        'amount',
-        'type',
-        'bankcode',
-        'account2',
-        'name',
-        'reference',
-      ],
-      rows: rows,
-      summary: {
-        totalRows: rows.length,
-        sum: totalSum,
-        yearSums: yearSums,
-      },
-      timestamp: new Date().toISOString(),
-    };
+    return BankStatement.result(filePath, 'feste Satzlänge 768', transactions);
   }
 
   getDescription(): string {
-    return 'Parse bank statement files (CAMT.053 XML or fixed-length format)';
+    return 'Parse bank statement files (CAMT.053/CAMT.052 XML, MT940, CSV or fixed-length format)';
   }
 
   getParameters(): CommandParameter[] {
     return [
+      {
+        name: 'action',
+        type: 'select',
+        description:
+          'Parse a statement, manage the CSV column mappings, the categories or the ledger, or export rows',
+        required: false,
+        default: 'parse',
+        options: [
+          'parse',
+          'csv-preview',
+          'csv-profiles',
+          'csv-save-profile',
+          'csv-delete-profile',
+          'categories',
+          'categories-save',
+          'ledger',
+          'ledger-import',
+          'ledger-remove-source',
+          'ledger-clear',
+          'export',
+        ],
+      },
       {
         name: 'filePath',
         type: 'string',
-        description: 'Path to the bank statement file',
-        required: true,
+        description:
+          'Path to the bank statement file (parse, csv-preview, ledger-import, ledger-remove-source)',
+        required: false,
+      },
+      {
+        name: 'filePaths',
+        type: 'string',
+        description: 'Statement files as JSON array (ledger-import)',
+        required: false,
+      },
+      {
+        name: 'folder',
+        type: 'string',
+        description:
+          'Folder whose statement files (.xml, .sta, .mt940, .txt, .csv) are imported, including subfolders (ledger-import)',
+        required: false,
       },
       {
         name: 'format',
         type: 'string',
         description:
-          'File format: "camt.053", "xml", or "feste Satzlänge 768" (auto-detected if not specified)',
+          'File format: "camt.053", "camt.052", "xml", "mt940", "csv" or "feste Satzlänge 768" (auto-detected if not specified)',
+        required: false,
+      },
+      {
+        name: 'profile',
+        type: 'string',
+        description:
+          'CSV column mapping: name of a saved profile or the profile as JSON (csv, csv-save-profile)',
+        required: false,
+      },
+      {
+        name: 'name',
+        type: 'string',
+        description: 'Name of the CSV profile to delete (csv-delete-profile)',
+        required: false,
+      },
+      {
+        name: 'exportFormat',
+        type: 'select',
+        description: 'File type of the export (export)',
+        required: false,
+        default: 'csv',
+        options: ['csv', 'xlsx', 'pdf'],
+      },
+      {
+        name: 'outputPath',
+        type: 'string',
+        description: 'File the export is written to (export)',
+        required: false,
+      },
+      {
+        name: 'headers',
+        type: 'string',
+        description: 'Column headers as JSON array (export)',
+        required: false,
+      },
+      {
+        name: 'rows',
+        type: 'string',
+        description: 'Rows as JSON array of arrays (export)',
+        required: false,
+      },
+      {
+        name: 'delimiter',
+        type: 'string',
+        description:
+          'CSV delimiter (csv-preview, export), an export uses ";" for the de locale and "," otherwise by default',
+        required: false,
+      },
+      {
+        name: 'locale',
+        type: 'select',
+        description:
+          'Number and date format: de (1234,56 and 31.01.2024), en (1234.56 and 01/31/2024) or iso (export)',
+        required: false,
+        default: 'de',
+        options: ['de', 'en', 'iso'],
+      },
+      {
+        name: 'filters',
+        type: 'string',
+        description:
+          'Filter criteria shown in the PDF report as JSON object of label and value (export)',
+        required: false,
+      },
+      {
+        name: 'title',
+        type: 'string',
+        description: 'Title of the PDF report (export)',
+        required: false,
+      },
+      {
+        name: 'rules',
+        type: 'string',
+        description:
+          'Category rules as JSON array, the first matching rule wins (categories-save)',
+        required: false,
+      },
+      {
+        name: 'budgets',
+        type: 'string',
+        description:
+          'Monthly budget per category as JSON object (categories-save)',
         required: false,
       },
     ];
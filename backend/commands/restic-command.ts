@@ -8,7 +8,7 @@ import { existsSync, readdirSync, statSync, writeFileSync } from 'fs';
 import { tmpdir } from 'os';
 import { join, resolve } from 'path';
 import { promisify } from 'util';
-import { CommandParameter, ICommand } from './command-interface.js';
+import { CommandParameter, ICommand, JobContext } from './command-interface.js';
 
 const execPromise = promisify(exec);
 
@@ -17,6 +17,7 @@ export class ResticCommand implements ICommand {
   private cancelled: boolean = false;
   private currentProcess: ChildProcess | null = null;
   private lastCommandLine: string = ''; // Store the last executed command line
+  private runs = new Set<ResticCommand>();
 
   /**
    * Get extended PATH for macOS to find restic in common locations
@@ -80,20 +81,50 @@ export class ResticCommand implements ICommand {
     this.progressCallback = callback;
   }
 
+  /**
+   * Cancel all running operations
+   */
   cancel() {
     this.cancelled = true;
     if (this.currentProcess) {
       this.currentProcess.kill('SIGTERM');
     }
+    this.runs.forEach((run) => run.cancel());
   }
 
-  resetCancellation() {
-    this.cancelled = false;
+  /**
+   * Route backup progress and cancellation of this execution through a job
+   */
+  private attachJob(job: JobContext): void {
+    this.progressCallback = (progress: any) =>
+      job.report({
+        percentage:
+          typeof progress?.percent_done === 'number'
+            ? Math.round(progress.percent_done * 100)
+            : undefined,
+        channel: 'restic-backup-progress',
+        data: progress,
+      });
+    job.onCancel(() => this.cancel());
+  }
+
+  async execute(params: any, job?: JobContext): Promise<any> {
+    // The running restic process, cancel flag and command line belong to a
+    // single execution and the registered command is shared by all jobs, so
+    // every execution gets its own instance
+    const run = new ResticCommand();
+    run.progressCallback = this.progressCallback;
+    this.runs.add(run);
+    try {
+      return await run.run(params, job);
+    } finally {
+      this.runs.delete(run);
+    }
   }
 
-  async execute(params: any): Promise<any> {
+  private async run(params: any, job?: JobContext): Promise<any> {
     const { operation, repoPath, password, passwordFile } = params;
-    this.resetCancellation();
+    if (job) this.attachJob(job);
 
     // Build environment with password
     const env: NodeJS.ProcessEnv = { ...process.env };
@@ -0,0 +1,256 @@
+/**
+ * Scan Report
+ * Collects file statistics while the garbage finder scans a folder: the
+ * largest files, the largest files not modified for a long time, an age
+ * histogram and a breakdown by category and extension
+ */
+
+import * as path from 'path';
+
+export type FileCategory =
+  | 'video'
+  | 'images'
+  | 'audio'
+  | 'documents'
+  | 'archives'
+  | 'code'
+  | 'build'
+  | 'other';
+
+export interface ReportFile {
+  path: string;
+  name: string;
+  size: number;
+  modified: string;
+  category: FileCategory;
+}
+
+export interface AgeBucket {
+  label: string;
+  maxDays: number | null; // null for the open-ended last bucket
+  files: number;
+  bytes: number;
+}
+
+export interface CategoryStats {
+  category: FileCategory;
+  files: number;
+  bytes: number;
+}
+
+export interface ExtensionStats extends CategoryStats {
+  extension: string; // Lower case with dot, '' for files without one
+}
+
+export interface ScanReport {
+  largestFiles: ReportFile[];
+  staleFiles: ReportFile[]; // Largest files not modified for staleDays
+  staleDays: number;
+  ageHistogram: AgeBucket[];
+  categories: CategoryStats[]; // Largest first
+  extensions: ExtensionStats[]; // Largest first, limited to MAX_EXTENSIONS
+  totalFiles: number;
+  totalBytes: number;
+}
+
+export interface ScanReportOptions {
+  topN: number;
+  staleDays: number;
+  now?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXTENSIONS = 50;
+
+const AGE_BUCKETS: Array<{ label: string; maxDays: number | null }> = [
+  { label: 'Last 30 days', maxDays: 30 },
+  { label: '1-6 months', maxDays: 182 },
+  { label: '6-12 months', maxDays: 365 },
+  { label: '1-3 years', maxDays: 3 * 365 },
+  { label: '3-5 years', maxDays: 5 * 365 },
+  { label: 'Older than 5 years', maxDays: null },
+];
+
+// Extensions (without dot) per category
+const EXTENSION_CATEGORIES: Record<
+  Exclude<FileCategory, 'build' | 'other'>,
+  string
+> = {
+  video: 'mp4 mkv avi mov wmv flv webm m4v mpg mpeg vob 3gp',
+  images:
+    'jpg jpeg png gif bmp tif tiff webp heic raw cr2 nef arw dng psd svg ico',
+  audio: 'mp3 wav flac aac ogg m4a wma opus',
+  documents: 'pdf doc docx xls xlsx ppt pptx odt ods odp txt rtf md csv epub',
+  archives: 'zip rar 7z tar gz tgz bz2 xz iso img dmg cab 001',
+  code: 'js ts jsx tsx java py c cpp h cs go rs php rb html css scss json xml yml yaml sh ps1 sql',
+};
+
+// Folders with generated files that can usually be rebuilt or redownloaded
+const BUILD_FOLDERS = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  'out',
+  'target',
+  'obj',
+  'coverage',
+  '__pycache__',
+  '.next',
+  '.nuxt',
+  '.gradle',
+  '.cache',
+  '.parcel-cache',
+  '.turbo',
+]);
+
+const CATEGORY_BY_EXTENSION = new Map<string, FileCategory>(
+  Object.entries(EXTENSION_CATEGORIES).flatMap(([category, extensions]) =>
+    extensions
+      .split(' ')
+      .map((ext) => [`.${ext}`, category as FileCategory] as const),
+  ),
+);
+
+/**
+ * The N largest files. Entries are collected and trimmed in batches; the
+ * size of the smallest kept entry after the last trim filters the rest.
+ */
+class TopFiles {
+  private files: ReportFile[] = [];
+  private threshold = 0;
+
+  constructor(private size: number) {}
+
+  qualifies(size: number): boolean {
+    return this.files.length < this.size || size > this.threshold;
+  }
+
+  add(file: ReportFile): void {
+    this.files.push(file);
+    if (this.files.length > this.size * 2) this.trim();
+  }
+
+  list(): ReportFile[] {
+    this.trim();
+    return [...this.files];
+  }
+
+  private trim(): void {
+    this.files.sort((a, b) => b.size - a.size);
+    this.files.length = Math.min(this.files.length, this.size);
+    if (this.files.length === this.size) {
+      this.threshold = this.files[this.size - 1].size;
+    }
+  }
+}
+
+export class ScanReportBuilder {
+  private largest: TopFiles;
+  private stale: TopFiles;
+  private ages = AGE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    files: 0,
+    bytes: 0,
+  }));
+  private extensions = new Map<string, ExtensionStats>();
+  private buildFolderCache = new Map<string, boolean>();
+  private totalFiles = 0;
+  private totalBytes = 0;
+  private now: number;
+
+  constructor(
+    private rootPath: string,
+    private options: ScanReportOptions,
+  ) {
+    this.now = options.now ?? Date.now();
+    this.largest = new TopFiles(options.topN);
+    this.stale = new TopFiles(options.topN);
+  }
+
+  /**
+   * Add a scanned file
+   */
+  add(filePath: string, size: number, mtimeMs: number): void {
+    const extension = path.extname(filePath).toLowerCase();
+    const category = this.isInBuildFolder(path.dirname(filePath))
+      ? 'build'
+      : (CATEGORY_BY_EXTENSION.get(extension) ?? 'other');
+
+    this.totalFiles++;
+    this.totalBytes += size;
+
+    const ageDays = Math.max(0, (this.now - mtimeMs) / DAY_MS);
+    const bucket =
+      this.ages.find((b) => b.maxDays !== null && ageDays < b.maxDays) ??
+      this.ages[this.ages.length - 1];
+    bucket.files++;
+    bucket.bytes += size;
+
+    // Build output counts as its own category, but keeps the extension
+    const key = `${category}:${extension}`;
+    const stats = this.extensions.get(key);
+    if (stats) {
+      stats.files++;
+      stats.bytes += size;
+    } else {
+      this.extensions.set(key, { extension, category, files: 1, bytes: size });
+    }
+
+    const file = (): ReportFile => ({
+      path: filePath,
+      name: path.basename(filePath),
+      size,
+      modified: new Date(mtimeMs).toISOString(),
+      category,
+    });
+    if (this.largest.qualifies(size)) {
+      this.largest.add(file());
+    }
+    if (ageDays >= this.options.staleDays && this.stale.qualifies(size)) {
+      this.stale.add(file());
+    }
+  }
+
+  build(): ScanReport {
+    const categories = new Map<FileCategory, CategoryStats>();
+    for (const stats of this.extensions.values()) {
+      const total = categories.get(stats.category);
+      if (total) {
+        total.files += stats.files;
+        total.bytes += stats.bytes;
+      } else {
+        categories.set(stats.category, {
+          category: stats.category,
+          files: stats.files,
+          bytes: stats.bytes,
+        });
+      }
+    }
+
+    return {
+      largestFiles: this.largest.list(),
+      staleFiles: this.stale.list(),
+      staleDays: this.options.staleDays,
+      ageHistogram: this.ages.map((bucket) => ({ ...bucket })),
+      categories: [...categories.values()].sort((a, b) => b.bytes - a.bytes),
+      extensions: [...this.extensions.values()]
+        .sort((a, b) => b.bytes - a.bytes)
+        .slice(0, MAX_EXTENSIONS),
+      totalFiles: this.totalFiles,
+      totalBytes: this.totalBytes,
+    };
+  }
+
+  private isInBuildFolder(dirPath: string): boolean {
+    const cached = this.buildFolderCache.get(dirPath);
+    if (cached !== undefined) return cached;
+
+    const relative = path.relative(this.rootPath, dirPath);
+    const result =
+      relative !== '' &&
+      !relative.startsWith('..') &&
+      relative.split(path.sep).some((part) => BUILD_FOLDERS.has(part));
+    this.buildFolderCache.set(dirPath, result);
+    return result;
+  }
+}
@@ -4,22 +4,61 @@ import sizeOf from 'image-size';
 import * as path from 'path';
 import PDFDocument from 'pdfkit';
 import { promisify } from 'util';
-import { CommandParameter, ICommand } from './command-interface';
+import { CommandParameter, ICommand, JobContext } from './command-interface';
+import { ConfigCommand } from './config-command.js';
+import { DocumentFiling } from './document-filing.js';
+import { DocumentInbox, InboxAnalysis } from './document-inbox.js';
+import { DocumentContent, DocumentIndex } from './document-index.js';
+import { DetailsChanges, DocumentSidecar } from './document-sidecar.js';
+import {
+  ExtractionTemplate,
+  ExtractionTemplates,
+} from './extraction-templates.js';
+import { OcrLanguages } from './ocr-languages.js';
+import { PdfPageImage, PdfTextLayer, TextLayerPage } from './pdf-text-layer.js';
 
 const execAsync = promisify(exec);
 
+type PageScannedCallback = (
+  pageNumber: number,
+  fileName: string,
+  fileSize: number,
+  filePath: string,
+  preview: string,
+) => void;
+
 /**
  * Scanner Command
  * Handles scanning documents from connected scanners/printers
  */
 export class ScannerCommand implements ICommand {
-  private progressCallback?: (
-    pageNumber: number,
-    fileName: string,
-    fileSize: number,
-  ) => void;
+  private progressCallback?: PageScannedCallback;
   private activeProcess: ChildProcess | null = null;
   private scanimagePath: string | null = null;
+  private index: DocumentIndex;
+  private filing: DocumentFiling;
+  private inbox: DocumentInbox;
+  private extraction: ExtractionTemplates;
+  private ocrLanguages: OcrLanguages;
+
+  constructor(config: ConfigCommand = new ConfigCommand()) {
+    this.index = new DocumentIndex(config);
+    this.filing = new DocumentFiling(config);
+    this.extraction = new ExtractionTemplates(config);
+    this.ocrLanguages = new OcrLanguages(config);
+    this.inbox = new DocumentInbox(
+      (filePath) => this.analyzeInboxDocument(filePath),
+      config,
+    );
+  }
+
+  /**
+   * Watch the DocManager inbox folder again if it was enabled. Called by
+   * the app on startup, not in the constructor, so CLI runs do not watch.
+   */
+  async resumeInbox(): Promise<boolean> {
+    return this.inbox.resume();
+  }
 
   /**
    * Find the scanimage binary in common locations
@@ -72,9 +111,7 @@ export class ScannerCommand implements ICommand {
   /**
    * Set progress callback for real-time updates
    */
-  setProgressCallback(
-    callback?: (pageNumber: number, fileName: string, fileSize: number) => void,
-  ): void {
+  setProgressCallback(callback?: PageScannedCallback): void {
     this.progressCallback = callback;
   }
 
@@ -99,6 +136,21 @@ export class ScannerCommand implements ICommand {
           'open-document',
           'open-folder',
           'delete-document',
+          'ocr-pdf',
+          'index-documents',
+          'search-documents',
+          'filing-preview',
+          'file-documents',
+          'inbox-status',
+          'inbox-start',
+          'inbox-stop',
+          'inbox-document',
+          'inbox-import',
+          'inbox-remove',
+          'update-details',
+          'due-documents',
+          'test-extraction',
+          'ocr-languages',
         ],
       },
       {
@@ -135,6 +187,22 @@ export class ScannerCommand implements ICommand {
         required: false,
         default: true,
       },
+      {
+        name: 'searchable',
+        type: 'boolean',
+        description:
+          'Embed an invisible OCR text layer in the PDF (for finalize-scan)',
+        required: false,
+        default: true,
+      },
+      {
+        name: 'autoFile',
+        type: 'boolean',
+        description:
+          'Move the saved scan into the folder of the first matching filing rule (for finalize-scan)',
+        required: false,
+        default: true,
+      },
     ];
 
     params.push({
@@ -160,12 +228,116 @@ export class ScannerCommand implements ICommand {
         description: 'Temp directory path (for cleanup-scan)',
         required: false,
       },
+      {
+        name: 'query',
+        type: 'string',
+        description:
+          'Words or "phrases" to find in the documents (for search-documents)',
+        required: false,
+      },
+      {
+        name: 'sender',
+        type: 'string',
+        description: 'Only documents of this sender (for search-documents)',
+        required: false,
+      },
+      {
+        name: 'account',
+        type: 'string',
+        description:
+          'Only documents with this account number (for search-documents)',
+        required: false,
+      },
+      {
+        name: 'dateFrom',
+        type: 'string',
+        description: 'Document date from, YYYY-MM-DD (for search-documents)',
+        required: false,
+      },
+      {
+        name: 'dateTo',
+        type: 'string',
+        description: 'Document date to, YYYY-MM-DD (for search-documents)',
+        required: false,
+      },
+      {
+        name: 'analysis',
+        type: 'string',
+        description:
+          'JSON OCR analysis of a scan not saved yet (for filing-preview with fileName)',
+        required: false,
+      },
+      {
+        name: 'inboxPath',
+        type: 'string',
+        description:
+          'Inbox folder to watch for new documents (for inbox-start)',
+        required: false,
+      },
+      {
+        name: 'inboxFile',
+        type: 'string',
+        description:
+          'Document in the inbox folder (for inbox-document, inbox-import and inbox-remove)',
+        required: false,
+      },
+      {
+        name: 'details',
+        type: 'string',
+        description:
+          'JSON with type, tags, dueDate and done of a document (for update-details)',
+        required: false,
+      },
+      {
+        name: 'days',
+        type: 'number',
+        description: 'Days ahead to look for due documents (for due-documents)',
+        required: false,
+        default: 14,
+      },
+      {
+        name: 'template',
+        type: 'string',
+        description:
+          'JSON of an extraction template to run against a document (for test-extraction)',
+        required: false,
+      },
+      {
+        name: 'languagePath',
+        type: 'string',
+        description:
+          'Folder with OCR language packs to list instead of the configured one (for ocr-languages)',
+        required: false,
+      },
     );
 
     return params;
   }
 
-  async execute(params: any): Promise<any> {
+  /**
+   * Route scanned pages and cancellation of a scan job through the job.
+   * Returns the page callback passed down to the scan.
+   */
+  private attachJob(job: JobContext): PageScannedCallback {
+    const pageCallback: PageScannedCallback = (
+      pageNumber,
+      fileName,
+      fileSize,
+      filePath,
+      preview,
+    ) =>
+      job.report({
+        current: pageNumber,
+        message: fileName,
+        channel: 'scanner-page-scanned',
+        data: { pageNumber, fileName, fileSize, filePath, preview },
+      });
+    job.onCancel(() => this.cancel());
+
+    return pageCallback;
+  }
+
+  async execute(params: any, job?: JobContext): Promise<any> {
     const {
       action,
       outputPath,
@@ -178,7 +350,25 @@ export class ScannerCommand implements ICommand {
       files,
       tempDir,
       autoSetFileName,
+      searchable,
+      query,
+      sender,
+      account,
+      dateFrom,
+      dateTo,
+      autoFile,
+      analysis,
+      inboxPath,
+      inboxFile,
+      details,
+      days,
+      template,
+      languagePath,
     } = params;
+    const pageCallback =
+      job && action === 'scan-preview'
+        ? this.attachJob(job)
+        : this.progressCallback;
 
     try {
       switch (action) {
@@ -191,6 +381,7 @@ export class ScannerCommand implements ICommand {
             multiPage !== false,
             duplex === true,
             autoSetFileName === true,
+            pageCallback,
           );
         case 'finalize-scan':
           return await this.finalizeScan(
@@ -199,6 +390,8 @@ export class ScannerCommand implements ICommand {
             fileName,
             format,
             autoSetFileName,
+            searchable !== false,
+            autoFile !== false,
           );
         case 'cleanup-scan':
           return await this.cleanupScan(files, tempDir);
@@ -210,6 +403,63 @@ export class ScannerCommand implements ICommand {
           return await this.openFolder(outputPath);
         case 'delete-document':
           return await this.deleteDocument(outputPath, fileName);
+        case 'ocr-pdf':
+          return await this.ocrPdf(outputPath, fileName);
+        case 'index-documents':
+          return await this.indexDocuments(outputPath, job);
+        case 'search-documents':
+          return await this.searchDocuments(outputPath, {
+            text: query,
+            sender,
+            account,
+            dateFrom,
+            dateTo,
+          });
+        case 'filing-preview':
+          return await this.filingPreview(outputPath, fileName, analysis);
+        case 'file-documents':
+          return await this.fileDocuments(outputPath, files);
+        case 'inbox-status':
+          return { success: true, inbox: await this.inbox.status() };
+        case 'inbox-start':
+          return { success: true, inbox: await this.inbox.start(inboxPath) };
+        case 'inbox-stop':
+          return { success: true, inbox: await this.inbox.stop() };
+        case 'inbox-document':
+          return {
+            success: true,
+            document: await this.inbox.document(inboxFile),
+          };
+        case 'inbox-import':
+          return await this.importInboxDocument(
+            outputPath,
+            inboxFile,
+            fileName,
+            searchable !== false,
+            autoFile !== false,
+          );
+        case 'inbox-remove':
+          await this.inbox.remove(inboxFile);
+          return { success: true, inbox: await this.inbox.status() };
+        case 'update-details':
+          return await this.updateDetails(outputPath, fileName, details);
+        case 'due-documents':
+          return await this.dueDocuments(
+            outputPath,
+            days !== undefined ? Number(days) : 14,
+          );
+        case 'test-extraction':
+          return await this.testExtraction(outputPath, fileName, template);
+        case 'ocr-languages': {
+          const settings = await this.ocrLanguages.settings();
+          return {
+            success: true,
+            settings,
+            available: OcrLanguages.available(
+              languagePath ?? settings.languagePath,
+            ),
+          };
+        }
         default:
           throw new Error(`Unknown action: ${action}`);
       }
@@ -399,6 +649,7 @@ try {
     format: string,
     multiPage: boolean,
     duplex: boolean = false,
+    progressCallback?: PageScannedCallback,
   ): Promise<any> {
     try {
       const dpiValue = parseInt(resolution);
@@ -592,7 +843,7 @@ try {
         let firstImageProcessed = false;
         const seenFiles = new Set<string>(); // Deduplicate fs.watch events (Windows fires duplicates)
         // Store callback reference to use even after fsWatcher is closed
-        const progressCallbackRef = this.progressCallback;
+        const progressCallbackRef = progressCallback;
         if (multiPage) {
           fsWatcher = fs.watch(tempDir, async (eventType, filename) => {
             if (filename && filename.endsWith(`.${actualFormat}`)) {
@@ -611,7 +862,7 @@ try {
                       if (fs.existsSync(filePath)) {
                         const fileData = fs.readFileSync(filePath);
                         const base64Preview = `data:${mimeType};base64,${fileData.toString('base64')}`;
-                        (progressCallbackRef as any)(
+                        progressCallbackRef(
                           capturedPage,
                           filename,
                           stats.size,
@@ -629,7 +880,7 @@ try {
                           try {
                             // Send UI feedback: OCR scan starting
                             if (progressCallbackRef) {
-                              (progressCallbackRef as any)(
+                              progressCallbackRef(
                                 0,
                                 'OCR_SCAN_START',
                                 0,
@@ -641,9 +892,7 @@ try {
                               '[OCR] Starting OCR scan of first page...',
                             );
 
-                            const { getOcrService } =
-                              await import('./ocr-service.js');
-                            const ocrService = getOcrService();
+                            const ocrService = await this.configuredOcr();
                             await ocrService.initialize();
 
                             const { text, analysis } =
@@ -654,7 +903,7 @@ try {
 
                             // Send UI feedback: OCR scan completed
                             if (progressCallbackRef) {
-                              (progressCallbackRef as any)(
+                              progressCallbackRef(
                                 0,
                                 'OCR_SCAN_COMPLETE',
                                 text.length,
@@ -670,7 +919,7 @@ try {
                               `[OCR] OCR processing failed: ${ocrError.message}`,
                             );
                             if (progressCallbackRef) {
-                              (progressCallbackRef as any)(
+                              progressCallbackRef(
                                 0,
                                 'OCR_SCAN_ERROR',
                                 0,
@@ -969,6 +1218,7 @@ try {
     format: string,
     multiPage: boolean,
     duplex: boolean,
+    progressCallback?: PageScannedCallback,
   ): Promise<any> {
     try {
       const scanAsPdf = format === 'pdf';
@@ -1045,7 +1295,7 @@ try {
       let firstImageProcessed = false;
       const seenFiles = new Set<string>(); // Deduplicate fs.watch events (Windows fires duplicates)
       // Store callback reference to use even after fsWatcher is closed
-      const progressCallbackRef = this.progressCallback;
+      const progressCallbackRef = progressCallback;
       if (multiPage) {
         fsWatcher = fs.watch(tempDir, async (eventType, filename) => {
           if (filename && filename.endsWith(`.${actualFormat}`)) {
@@ -1064,7 +1314,7 @@ try {
                     if (fs.existsSync(filePath)) {
                       const fileData = fs.readFileSync(filePath);
                       const base64Preview = `data:${mimeType};base64,${fileData.toString('base64')}`;
-                      (progressCallbackRef as any)(
+                      progressCallbackRef(
                         capturedPage,
                         filename,
                         stats.size,
@@ -1082,21 +1332,13 @@ try {
                         try {
                           // Send UI feedback: OCR scan starting (only if callback exists)
                           if (progressCallbackRef) {
-                            (progressCallbackRef as any)(
-                              0,
-                              'OCR_SCAN_START',
-                              0,
-                              '',
-                              '',
-                            );
+                            progressCallbackRef(0, 'OCR_SCAN_START', 0, '', '');
                           }
                           console.log(
                             '[OCR] Starting OCR scan of first page...',
                           );
 
-                          const { getOcrService } =
-                            await import('./ocr-service.js');
-                          const ocrService = getOcrService();
+                          const ocrService = await this.configuredOcr();
                           await ocrService.initialize();
 
                           // OCR and analyze the first image (PNG/JPG)
@@ -1108,7 +1350,7 @@ try {
 
                           // Send UI feedback: OCR scan completed (only if callback exists)
                           if (progressCallbackRef) {
-                            (progressCallbackRef as any)(
+                            progressCallbackRef(
                               0,
                               'OCR_SCAN_COMPLETE',
                               text.length,
@@ -1123,7 +1365,7 @@ try {
                           );
                           // Send UI feedback: OCR scan failed (only if callback exists)
                           if (progressCallbackRef) {
-                            (progressCallbackRef as any)(
+                            progressCallbackRef(
                               0,
                               'OCR_SCAN_ERROR',
                               0,
@@ -1471,6 +1713,7 @@ try {
     multiPage: boolean = true,
     duplex: boolean = false,
     performOCR: boolean = false,
+    progressCallback?: PageScannedCallback,
   ): Promise<any> {
     try {
       const tmpBase = process.env.TMPDIR || process.env.TEMP || '/tmp';
@@ -1490,6 +1733,7 @@ try {
               'jpg',
               multiPage,
               duplex,
+              progressCallback,
             )
           : await this.scanUnixSANE(
               tempOutputFile,
@@ -1498,6 +1742,7 @@ try {
               'jpg',
               multiPage,
               duplex,
+              progressCallback,
             );
 
       // Collect PNG files from result or from disk
@@ -1573,6 +1818,8 @@ try {
     fileName: string,
     format: string = 'pdf',
     autoSetFileName: boolean = false,
+    searchable: boolean = true,
+    autoFile: boolean = true,
   ): Promise<any> {
     try {
       const fileList = typeof files === 'string' ? JSON.parse(files) : files;
@@ -1602,8 +1849,30 @@ try {
       const finalFileName = fileName || `scan_${timestamp}.${format}`;
       const outputFile = path.join(baseDir, finalFileName);
 
+      let textLayer:
+        | { ocrPages: number; words: number; text: string }
+        | undefined;
       if (format === 'pdf') {
         await this.convertImagesToPdf(fileList, outputFile, autoSetFileName);
+        if (searchable) {
+          try {
+            textLayer = await this.addOcrTextLayer(
+              outputFile,
+              fileList.map((file: string) => {
+                const data = fs.readFileSync(file);
+                const { width, height } = sizeOf(data);
+                return width && height ? { data, width, height } : null;
+              }),
+            );
+            await this.indexScan(outputFile, textLayer.text);
+          } catch (ocrError: any) {
+            // The image-only PDF is still a valid scan
+            console.warn(
+              '[OCR] Text layer could not be added:',
+              ocrError.message,
+            );
+          }
+        }
       } else {
         // For non-PDF, copy the first file
         fs.copyFileSync(fileList[0], outputFile);
@@ -1631,13 +1900,549 @@ try {
         }
       }
 
-      const stats = fs.statSync(outputFile);
+      const savedFile = autoFile
+        ? await this.fileScan(outputFile, baseDir)
+        : outputFile;
+
+      const stats = fs.statSync(savedFile);
       return {
         success: true,
-        outputFile,
-        message: `Created ${format.toUpperCase()} with ${fileList.length} page(s): ${outputFile}`,
+        outputFile: savedFile,
+        filedTo:
+          savedFile !== outputFile
+            ? path.relative(baseDir, path.dirname(savedFile))
+            : undefined,
+        message: `Created ${format.toUpperCase()} with ${fileList.length} page(s): ${savedFile}`,
         pageCount: fileList.length,
         fileSize: stats.size,
+        searchable: textLayer !== undefined,
+        words: textLayer?.words ?? 0,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * OCR the page images and write their words into the PDF as an invisible
+   * text layer. Pages without an image are left as they are.
+   */
+  private async addOcrTextLayer(
+    pdfFile: string,
+    pageImages: Array<PdfPageImage | null>,
+  ): Promise<{ ocrPages: number; words: number; text: string }> {
+    const ocrService = await this.configuredOcr();
+    await ocrService.initialize();
+
+    const pages: Array<TextLayerPage | null> = [];
+    const texts: string[] = [];
+    let words = 0;
+    for (const image of pageImages) {
+      if (!image) {
+        pages.push(null);
+        continue;
+      }
+      const result = await ocrService.recognizeWords(image.data);
+      console.log(
+        `[OCR] Page ${pages.length + 1}: ${result.words.length} words`,
+      );
+      pages.push({
+        imageWidth: image.width,
+        imageHeight: image.height,
+        words: result.words,
+      });
+      words += result.words.length;
+      texts.push(result.text);
+    }
+
+    const pdfBytes = await PdfTextLayer.addTextLayer(
+      fs.readFileSync(pdfFile),
+      pages,
+    );
+    // Replace the file only once the new one is complete
+    const tempFile = `${pdfFile}.ocr`;
+    fs.writeFileSync(tempFile, pdfBytes);
+    fs.renameSync(tempFile, pdfFile);
+    return {
+      ocrPages: pages.filter(Boolean).length,
+      words,
+      text: texts.join('\n'),
+    };
+  }
+
+  /**
+   * The OCR service with the languages and extraction templates of the
+   * preferences, read each time so changes apply without a restart
+   */
+  private async configuredOcr() {
+    const { getOcrService } = await import('./ocr-service.js');
+    const ocrService = getOcrService();
+    await ocrService.setLanguages(await this.ocrLanguages.settings());
+    ocrService.setExtractionTemplates(await this.extraction.templates());
+    return ocrService;
+  }
+
+  /**
+   * Add a saved scan to the document index with the text recognized for
+   * its text layer, so it is found without running OCR again, and keep
+   * what the OCR found in its metadata sidecar
+   */
+  private async indexScan(filePath: string, text: string): Promise<void> {
+    try {
+      const ocrService = await this.configuredOcr();
+      const analysis = ocrService.analyzeText(text);
+      await this.index.put(filePath, { text, analysis });
+      if (!DocumentSidecar.read(filePath)) {
+        DocumentSidecar.write(
+          filePath,
+          DocumentSidecar.fromText(text, analysis),
+        );
+      }
+    } catch (error: any) {
+      // The next index update reads the document
+      console.warn('[Index] Scan could not be indexed:', error.message);
+    }
+  }
+
+  /**
+   * The folder the filing rules put each document in, relative to the scan
+   * folder; documents without a matching rule stay where they are
+   */
+  private async filingPlan(
+    baseDir: string,
+    filePaths: string[],
+  ): Promise<Array<{ filePath: string; rule: number; folder: string }>> {
+    const rules = await this.filing.rules();
+    const indexed = new Map(
+      (await this.index.load()).map((doc) => [doc.path, doc]),
+    );
+    return filePaths.map((filePath) => {
+      const facts = DocumentFiling.facts(filePath, indexed.get(filePath));
+      const rule = DocumentFiling.match(rules, facts);
+      return {
+        filePath,
+        rule,
+        folder:
+          rule >= 0
+            ? DocumentFiling.folder(rules[rule], facts)
+            : path.relative(baseDir, path.dirname(filePath)),
+      };
+    });
+  }
+
+  /**
+   * Move a saved scan by the filing rules. Returns its new path.
+   */
+  private async fileScan(filePath: string, baseDir: string): Promise<string> {
+    try {
+      const [{ rule, folder }] = await this.filingPlan(baseDir, [filePath]);
+      if (rule < 0) return filePath;
+      const target = DocumentFiling.move(filePath, baseDir, folder);
+      await this.index.move(filePath, target);
+      console.log(`[Filing] Filed ${filePath} to ${target}`);
+      return target;
+    } catch (error: any) {
+      // The scan stays in the scan folder and can be filed later
+      console.warn('[Filing] Scan could not be filed:', error.message);
+      return filePath;
+    }
+  }
+
+  /**
+   * Where the filing rules would put the documents of the scan folder, or
+   * a scan that is not saved yet (fileName and its OCR analysis)
+   */
+  private async filingPreview(
+    outputPath: string,
+    fileName?: string,
+    analysis?: string | object,
+  ): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+
+      if (fileName) {
+        const rules = await this.filing.rules();
+        const parsed =
+          typeof analysis === 'string' ? JSON.parse(analysis) : analysis;
+        const facts = DocumentFiling.facts(
+          fileName,
+          parsed ? { ...DocumentIndex.metadata(parsed), text: '' } : undefined,
+        );
+        const rule = DocumentFiling.match(rules, facts);
+        return {
+          success: true,
+          rule,
+          folder: rule >= 0 ? DocumentFiling.folder(rules[rule], facts) : '',
+        };
+      }
+
+      const plan = await this.filingPlan(
+        baseDir,
+        DocumentIndex.documentFiles(baseDir),
+      );
+      const documents = plan
+        .filter(
+          ({ filePath, rule, folder }) =>
+            rule >= 0 &&
+            path.resolve(path.dirname(filePath)) !==
+              path.resolve(baseDir, folder),
+        )
+        .map(({ filePath, rule, folder }) => ({
+          fileName: path.relative(baseDir, filePath),
+          rule,
+          folder,
+        }));
+      return {
+        success: true,
+        documents,
+        count: documents.length,
+        total: plan.length,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Move documents of the scan folder by the filing rules, all of them
+   * or the given ones (file names relative to the scan folder)
+   */
+  private async fileDocuments(
+    outputPath: string,
+    files?: string | string[],
+  ): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+      const fileList: string[] | undefined =
+        typeof files === 'string' ? JSON.parse(files) : files;
+      const filePaths = fileList
+        ? fileList.map((file) => path.join(baseDir, file))
+        : DocumentIndex.documentFiles(baseDir);
+
+      const moved: Array<{ from: string; to: string }> = [];
+      const failed: Array<{ fileName: string; error: string }> = [];
+      for (const { filePath, rule, folder } of await this.filingPlan(
+        baseDir,
+        filePaths,
+      )) {
+        if (rule < 0) continue;
+        try {
+          const target = DocumentFiling.move(filePath, baseDir, folder);
+          if (target !== filePath) {
+            await this.index.move(filePath, target);
+            moved.push({
+              from: path.relative(baseDir, filePath),
+              to: path.relative(baseDir, target),
+            });
+          }
+        } catch (error: any) {
+          failed.push({
+            fileName: path.relative(baseDir, filePath),
+            error: error.message,
+          });
+        }
+      }
+
+      return {
+        success: true,
+        moved,
+        failed,
+        message: `Filed ${moved.length} document(s)`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * The text of a document for the index: the OCR text file saved next to
+   * it, otherwise OCR of its images
+   */
+  private async readDocument(filePath: string): Promise<DocumentContent> {
+    const ocrService = await this.configuredOcr();
+
+    let text: string;
+    const textFile = filePath.replace(/\.[^.]+$/, '.txt');
+    if (fs.existsSync(textFile)) {
+      text = fs.readFileSync(textFile, 'utf-8');
+    } else if (/\.pdf$/i.test(filePath)) {
+      const pageImages = await PdfTextLayer.pageImages(
+        fs.readFileSync(filePath),
+        true,
+      );
+      const texts: string[] = [];
+      for (const image of pageImages) {
+        if (image) {
+          texts.push(await ocrService.recognizeImage(image.data));
+        }
+      }
+      text = texts.join('\n');
+    } else {
+      text = await ocrService.recognizeImage(filePath);
+    }
+    return { text, analysis: ocrService.analyzeText(text) };
+  }
+
+  /**
+   * OCR and analyze the first page of an inbox document, like the first
+   * scanned page when the file name is set from the OCR
+   */
+  private async analyzeInboxDocument(filePath: string): Promise<InboxAnalysis> {
+    const ocrService = await this.configuredOcr();
+    await ocrService.initialize();
+
+    if (/\.pdf$/i.test(filePath)) {
+      const [firstPage] = (
+        await PdfTextLayer.pageImages(fs.readFileSync(filePath), true)
+      ).filter((image): image is PdfPageImage => image !== null);
+      if (!firstPage) {
+        throw new Error('No page image to recognize');
+      }
+      return {
+        ...(await ocrService.recognizeAndAnalyze(firstPage.data)),
+        preview: ScannerCommand.dataUrl(firstPage.data),
+      };
+    }
+
+    const data = fs.readFileSync(filePath);
+    return {
+      ...(await ocrService.recognizeAndAnalyze(filePath)),
+      // Browsers do not show TIFF
+      preview: /\.tiff?$/i.test(filePath) ? null : ScannerCommand.dataUrl(data),
+    };
+  }
+
+  private static dataUrl(image: Buffer): string {
+    const type = image.subarray(0, 4).equals(Buffer.from([137, 80, 78, 71]))
+      ? 'png'
+      : 'jpeg';
+    return `data:image/${type};base64,${image.toString('base64')}`;
+  }
+
+  /**
+   * Move an inbox document into the scan folder under its final name, add
+   * a text layer to image-only PDFs, index it and file it by the rules
+   */
+  private async importInboxDocument(
+    outputPath: string,
+    inboxFile: string,
+    fileName: string | undefined,
+    searchable: boolean,
+    autoFile: boolean,
+  ): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+      const { text } = await this.inbox.document(inboxFile);
+      const outputFile = await this.inbox.accept(inboxFile, baseDir, fileName);
+
+      if (/\.pdf$/i.test(outputFile)) {
+        const pageImages = searchable
+          ? await PdfTextLayer.pageImages(fs.readFileSync(outputFile))
+          : [];
+        if (pageImages.some(Boolean)) {
+          try {
+            const textLayer = await this.addOcrTextLayer(
+              outputFile,
+              pageImages,
+            );
+            await this.indexScan(outputFile, textLayer.text);
+          } catch (ocrError: any) {
+            console.warn(
+              '[OCR] Text layer could not be added:',
+              ocrError.message,
+            );
+          }
+        }
+        // PDFs with text are read by the next index update
+      } else if (text) {
+        await this.indexScan(outputFile, text);
+      }
+
+      const savedFile = autoFile
+        ? await this.fileScan(outputFile, baseDir)
+        : outputFile;
+      return {
+        success: true,
+        outputFile: savedFile,
+        filedTo:
+          savedFile !== outputFile
+            ? path.relative(baseDir, path.dirname(savedFile))
+            : undefined,
+        message: `Imported ${inboxFile} as ${path.relative(baseDir, savedFile)}`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Index new and changed documents of the scan folder
+   */
+  private async indexDocuments(
+    outputPath: string,
+    job?: JobContext,
+  ): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+
+      const result = await this.index.update(
+        baseDir,
+        async (filePath) => {
+          const content = await this.readDocument(filePath);
+          // Documents saved before there were sidecars get one
+          if (!DocumentSidecar.read(filePath)) {
+            DocumentSidecar.write(
+              filePath,
+              DocumentSidecar.fromText(content.text, content.analysis),
+            );
+          }
+          return content;
+        },
+        (current, total, filePath) =>
+          job?.report({
+            current,
+            total,
+            percentage: Math.round((current / total) * 100),
+            message: path.basename(filePath),
+            channel: 'docmanager-index-progress',
+            data: { current, total, fileName: path.basename(filePath) },
+          }),
+        () => job?.cancelled === true,
+      );
+      return {
+        success: true,
+        ...result,
+        message: `Indexed ${result.added} new and ${result.updated} changed document(s), ${result.removed} removed`,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Search the indexed documents of the scan folder
+   */
+  private async searchDocuments(
+    outputPath: string,
+    query: {
+      text?: string;
+      sender?: string;
+      account?: string;
+      dateFrom?: string;
+      dateTo?: string;
+    },
+  ): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+
+      const { hits, total } = await this.index.search({
+        ...query,
+        folder: baseDir,
+      });
+      return {
+        success: true,
+        hits: hits.map((hit) => ({
+          ...hit,
+          relativePath: path.relative(baseDir, hit.path),
+        })),
+        total,
+        ...(await this.index.facets(baseDir)),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * OCR an existing image-only PDF and make it searchable
+   */
+  private async ocrPdf(outputPath: string, fileName: string): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+      const filePath = path.join(baseDir, fileName);
+
+      if (!fs.existsSync(filePath)) {
+        return {
+          success: false,
+          error: `File not found: ${filePath}`,
+        };
+      }
+
+      const pageImages = await PdfTextLayer.pageImages(
+        fs.readFileSync(filePath),
+      );
+      if (!pageImages.some(Boolean)) {
+        return {
+          success: false,
+          error: `No image-only pages to recognize in ${fileName}`,
+        };
+      }
+
+      const { ocrPages, words, text } = await this.addOcrTextLayer(
+        filePath,
+        pageImages,
+      );
+      await this.indexScan(filePath, text);
+      return {
+        success: true,
+        message: `Recognized ${words} word(s) on ${ocrPages} of ${pageImages.length} page(s): ${fileName}`,
+        pageCount: pageImages.length,
+        ocrPages,
+        words,
       };
     } catch (error: any) {
       return {
@@ -1708,18 +2513,17 @@ try {
         };
       }
 
-      const files = fs.readdirSync(baseDir);
-      const documents = files
-        .filter((file) => /\.(pdf|png|jpg|jpeg|tiff)$/i.test(file))
-        .map((file) => {
-          const filePath = path.join(baseDir, file);
+      // Filed documents are listed with their folder
+      const documents = DocumentIndex.documentFiles(baseDir)
+        .map((filePath) => {
           const stats = fs.statSync(filePath);
           return {
-            name: file,
+            name: path.relative(baseDir, filePath),
             path: filePath,
             size: stats.size,
             created: stats.birthtime,
             modified: stats.mtime,
+            details: DocumentSidecar.read(filePath),
           };
         })
         .sort((a, b) => b.modified.getTime() - a.modified.getTime());
@@ -1738,6 +2542,151 @@ try {
     }
   }
 
+  /**
+   * Change the type, tags, due date or done flag of a document. A document
+   * without a sidecar gets one with the fields of its indexed text.
+   */
+  private async updateDetails(
+    outputPath: string,
+    fileName: string,
+    changes: string | DetailsChanges,
+  ): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+      const filePath = path.join(baseDir, fileName);
+
+      if (!fs.existsSync(filePath)) {
+        return {
+          success: false,
+          error: `File not found: ${filePath}`,
+        };
+      }
+
+      const parsed: DetailsChanges =
+        typeof changes === 'string' ? JSON.parse(changes) : changes || {};
+      let text = '';
+      let analysis: any;
+      if (!DocumentSidecar.read(filePath)) {
+        const indexed = (await this.index.load()).find(
+          (doc) => doc.path === filePath,
+        );
+        if (indexed) {
+          text = indexed.text;
+          analysis = (await this.configuredOcr()).analyzeText(text);
+        }
+      }
+
+      return {
+        success: true,
+        details: DocumentSidecar.update(filePath, parsed, text, analysis),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Documents of the scan folder due within the given days or overdue and
+   * not done yet, the earliest first
+   */
+  private async dueDocuments(outputPath: string, days: number): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+      const today = new Date().toISOString().slice(0, 10);
+      const documents = DocumentIndex.documentFiles(baseDir)
+        .map((filePath) => ({
+          name: path.relative(baseDir, filePath),
+          path: filePath,
+          details: DocumentSidecar.read(filePath),
+        }))
+        .filter(({ details }) => DocumentSidecar.isDue(details, days, today))
+        .map((doc) => ({
+          ...doc,
+          dueDate: doc.details!.dueDate,
+          overdue: doc.details!.dueDate < today,
+        }))
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+      return {
+        success: true,
+        documents,
+        count: documents.length,
+        overdue: documents.filter((doc) => doc.overdue).length,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Run an extraction template against the indexed OCR text of a document,
+   * for the test bench of the DocManager preferences
+   */
+  private async testExtraction(
+    outputPath: string,
+    fileName: string,
+    template: string | ExtractionTemplate,
+  ): Promise<any> {
+    try {
+      const baseDir =
+        outputPath ||
+        path.join(
+          process.env.USERPROFILE || process.env.HOME || '',
+          'Documents',
+          'Scans',
+        );
+      const filePath = path.join(baseDir, fileName);
+      const indexed = (await this.index.load()).find(
+        (doc) => doc.path === filePath,
+      );
+      if (!indexed) {
+        return {
+          success: false,
+          error: `No recognized text for ${fileName}, update the search index first`,
+        };
+      }
+
+      const parsed: ExtractionTemplate =
+        typeof template === 'string' ? JSON.parse(template) : template;
+      const senders = [
+        ...(indexed.sender ? [indexed.sender] : []),
+        ...indexed.companies,
+      ];
+      return {
+        success: true,
+        senders,
+        ...ExtractionTemplates.run(
+          { ...parsed, fields: parsed.fields || [] },
+          indexed.text,
+          senders,
+        ),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
   /**
    * Open a folder in system file explorer (Finder/Explorer/default Linux file manager)
    */
@@ -1849,6 +2798,8 @@ try {
       }
 
       fs.unlinkSync(filePath);
+      fs.rmSync(DocumentSidecar.path(filePath), { force: true });
+      await this.index.remove(filePath);
 
       return {
         success: true,
@@ -0,0 +1,397 @@
+/**
+ * Search Helper
+ * Finds files by name (wildcards), type, size and modification date and
+ * matches their content with plain text or regular expressions. Results are
+ * reported in batches while the search runs; a persistent folder index
+ * (see search-index.ts) can replace the directory walk.
+ */
+
+import { SyncHelper } from './sync-helper.js';
+
+export type SearchEntryType = 'all' | 'files' | 'directories';
+
+export interface SearchOptions {
+  /** Wildcard patterns (* and ?) or name parts, separated by , or ; */
+  filenamePattern: string;
+  contentText: string;
+  /** Treat contentText as a regular expression (matched per line) */
+  regex: boolean;
+  caseSensitive: boolean;
+  recursive: boolean;
+  type: SearchEntryType;
+  minSize?: number;
+  maxSize?: number;
+  /** Modification time bounds in ms since epoch */
+  modifiedAfter?: number;
+  modifiedBefore?: number;
+  /** Glob patterns of names/paths to skip, like node_modules or .git */
+  exclude: string[];
+  maxResults: number;
+}
+
+export interface SearchEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  isFile: boolean;
+  size?: number;
+  mtimeMs?: number;
+}
+
+/**
+ * Where the searched entries come from (local disk, archives or remote
+ * folders through the VFS, or a folder index)
+ */
+export interface SearchSource {
+  list(dirPath: string): Promise<SearchEntry[]>;
+  stat(filePath: string): Promise<{ size: number; mtimeMs: number }>;
+  read(filePath: string): Promise<Buffer>;
+}
+
+export interface SearchMatch {
+  line: number;
+  column: number;
+  length: number;
+  context: string; // The line, shortened around the match
+  contextOffset: number; // Position of the match in context
+}
+
+export interface SearchResult {
+  path: string;
+  name: string;
+  isDirectory: boolean;
+  size?: number;
+  modified?: string;
+  // First match, kept for callers that show one line per file
+  matchLine?: number;
+  matchContext?: string;
+  matches?: SearchMatch[];
+}
+
+export interface SearchProgress {
+  filesScanned: number;
+  currentFile: string;
+  /** Results found since the previous report */
+  results: SearchResult[];
+  totalResults: number;
+}
+
+export interface SearchHooks {
+  /** Called per folder, waits while the search is paused */
+  checkpoint?: () => Promise<void>;
+  isCancelled?: () => boolean;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+export interface SearchSummary {
+  results: SearchResult[];
+  filesScanned: number;
+  totalMatches: number;
+  truncated: boolean;
+  cancelled: boolean;
+}
+
+/**
+ * Entry produced by a walk, with its path relative to the search folder
+ * (forward slashes)
+ */
+export interface WalkedEntry {
+  entry: SearchEntry;
+  relativePath: string;
+}
+
+export const DEFAULT_MAX_RESULTS = 5000;
+const MAX_MATCHES_PER_FILE = 100;
+// Larger files are not searched for content
+const MAX_CONTENT_SIZE = 20 * 1024 * 1024;
+// Files with a NUL byte in the first block are treated as binary
+const BINARY_CHECK_SIZE = 8000;
+const MAX_CONTEXT_LENGTH = 200;
+const PROGRESS_INTERVAL_MS = 200;
+
+export class SearchHelper {
+  /**
+   * Walk a folder through a search source. Excluded entries are skipped and
+   * excluded folders are not descended into.
+   */
+  static walk(
+    dirPath: string,
+    source: SearchSource,
+    options: Pick<SearchOptions, 'recursive' | 'exclude'>,
+    hooks: SearchHooks = {},
+  ): AsyncGenerator<WalkedEntry> {
+    return this.walkFolder(
+      dirPath,
+      '',
+      source,
+      options.recursive,
+      this.excludeMatcher(options.exclude),
+      hooks,
+    );
+  }
+
+  private static async *walkFolder(
+    dirPath: string,
+    relativeDir: string,
+    source: SearchSource,
+    recursive: boolean,
+    excluded: (relativePath: string) => boolean,
+    hooks: SearchHooks,
+  ): AsyncGenerator<WalkedEntry> {
+    await hooks.checkpoint?.();
+    if (hooks.isCancelled?.()) return;
+
+    let entries: SearchEntry[];
+    try {
+      entries = await source.list(dirPath);
+    } catch {
+      // Skip folders that can't be read
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+      if (excluded(relativePath)) continue;
+
+      yield { entry, relativePath };
+
+      if (entry.isDirectory && recursive) {
+        yield* this.walkFolder(
+          entry.path,
+          relativePath,
+          source,
+          recursive,
+          excluded,
+          hooks,
+        );
+      }
+    }
+  }
+
+  /**
+   * Check a relative path against exclude globs. Patterns without a slash
+   * match a name at any depth (like rsync), others the whole relative path.
+   */
+  static excludeMatcher(exclude: string[]): (relativePath: string) => boolean {
+    const patterns = exclude.map((p) => SyncHelper.globToRegExp(p));
+    return (relativePath) => {
+      const name = relativePath.split('/').pop() || relativePath;
+      return patterns.some((regex, i) =>
+        exclude[i].includes('/') ? regex.test(relativePath) : regex.test(name),
+      );
+    };
+  }
+
+  /**
+   * Match file names against the pattern list. Patterns with wildcards
+   * must match the whole name, others match any part of it.
+   */
+  static nameMatcher(
+    filenamePattern: string,
+    caseSensitive: boolean,
+  ): (name: string) => boolean {
+    const patterns = filenamePattern
+      .split(/[,;]/)
+      .map((p) => p.trim())
+      .filter((p) => p);
+    if (patterns.length === 0) return () => true;
+
+    const tests = patterns.map((pattern) => {
+      if (pattern.includes('*') || pattern.includes('?')) {
+        const regexPattern = pattern
+          .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*/g, '.*')
+          .replace(/\?/g, '.');
+        const regex = new RegExp(`^${regexPattern}$`, caseSensitive ? '' : 'i');
+        return (name: string) => regex.test(name);
+      }
+      const part = caseSensitive ? pattern : pattern.toLowerCase();
+      return (name: string) =>
+        (caseSensitive ? name : name.toLowerCase()).includes(part);
+    });
+    return (name) => tests.some((test) => test(name));
+  }
+
+  /**
+   * Regular expression for the content search, null without content text.
+   * Plain text is escaped; invalid expressions throw a SyntaxError.
+   */
+  static contentMatcher(
+    options: Pick<SearchOptions, 'contentText' | 'regex' | 'caseSensitive'>,
+  ): RegExp | null {
+    if (!options.contentText) return null;
+    const pattern = options.regex
+      ? options.contentText
+      : options.contentText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(pattern, options.caseSensitive ? 'g' : 'gi');
+  }
+
+  /**
+   * Find all matches of a content pattern, line by line
+   */
+  static findMatches(
+    content: string,
+    regex: RegExp,
+    maxMatches = MAX_MATCHES_PER_FILE,
+  ): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+    const lines = content.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
+      const line = lines[i];
+      regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while (matches.length < maxMatches && (match = regex.exec(line))) {
+        const start =
+          line.length <= MAX_CONTEXT_LENGTH
+            ? 0
+            : Math.max(
+                0,
+                Math.min(match.index - 40, line.length - MAX_CONTEXT_LENGTH),
+              );
+        const context = line.substring(start, start + MAX_CONTEXT_LENGTH);
+        // Leading whitespace is dropped for display
+        const indent = context.length - context.trimStart().length;
+        matches.push({
+          line: i + 1,
+          column: match.index + 1,
+          length: match[0].length,
+          context: context.trim(),
+          contextOffset: Math.max(0, match.index - start - indent),
+        });
+        // Avoid an endless loop on empty matches like /x*/
+        if (match[0].length === 0) regex.lastIndex++;
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Run a search over walked entries (a live walk or a folder index)
+   */
+  static async search(
+    entries: AsyncIterable<WalkedEntry>,
+    source: SearchSource,
+    options: SearchOptions,
+    hooks: SearchHooks = {},
+  ): Promise<SearchSummary> {
+    const nameMatches = this.nameMatcher(
+      options.filenamePattern,
+      options.caseSensitive,
+    );
+    const contentRegex = this.contentMatcher(options);
+    const hasSizeFilter =
+      options.minSize !== undefined || options.maxSize !== undefined;
+    const hasDateFilter =
+      options.modifiedAfter !== undefined ||
+      options.modifiedBefore !== undefined;
+
+    const results: SearchResult[] = [];
+    let pending: SearchResult[] = [];
+    let filesScanned = 0;
+    let totalMatches = 0;
+    let truncated = false;
+    let cancelled = false;
+    let lastReport = 0;
+
+    const report = (currentFile: string, force = false) => {
+      const now = Date.now();
+      if (
+        !hooks.onProgress ||
+        (!force && now - lastReport < PROGRESS_INTERVAL_MS)
+      ) {
+        return;
+      }
+      lastReport = now;
+      hooks.onProgress({
+        filesScanned,
+        currentFile,
+        results: pending,
+        totalResults: results.length,
+      });
+      pending = [];
+    };
+
+    for await (const { entry } of entries) {
+      if (hooks.isCancelled?.()) {
+        cancelled = true;
+        break;
+      }
+      filesScanned++;
+      report(entry.name);
+
+      if (!nameMatches(entry.name)) continue;
+      if (options.type === 'files' && entry.isDirectory) continue;
+      if (options.type === 'directories' && !entry.isDirectory) continue;
+      // Size filters and content search only apply to files
+      if ((hasSizeFilter || contentRegex) && !entry.isFile) continue;
+
+      let { size, mtimeMs } = entry;
+      if (
+        (size === undefined && (hasSizeFilter || contentRegex)) ||
+        (mtimeMs === undefined && hasDateFilter)
+      ) {
+        try {
+          ({ size, mtimeMs } = await source.stat(entry.path));
+        } catch {
+          continue;
+        }
+      }
+
+      if (options.minSize !== undefined && size! < options.minSize) continue;
+      if (options.maxSize !== undefined && size! > options.maxSize) continue;
+      if (
+        options.modifiedAfter !== undefined &&
+        mtimeMs! < options.modifiedAfter
+      ) {
+        continue;
+      }
+      if (
+        options.modifiedBefore !== undefined &&
+        mtimeMs! > options.modifiedBefore
+      ) {
+        continue;
+      }
+
+      const result: SearchResult = {
+        path: entry.path,
+        name: entry.name,
+        isDirectory: entry.isDirectory,
+        size,
+        modified:
+          mtimeMs !== undefined ? new Date(mtimeMs).toISOString() : undefined,
+      };
+
+      if (contentRegex) {
+        if (size! > MAX_CONTENT_SIZE) continue;
+        let data: Buffer;
+        try {
+          data = await source.read(entry.path);
+        } catch {
+          // Skip files that can't be read
+          continue;
+        }
+        if (data.subarray(0, BINARY_CHECK_SIZE).includes(0)) continue;
+
+        const matches = this.findMatches(data.toString('utf-8'), contentRegex);
+        if (matches.length === 0) continue;
+        result.matches = matches;
+        result.matchLine = matches[0].line;
+        result.matchContext = matches[0].context;
+        totalMatches += matches.length;
+      }
+
+      results.push(result);
+      pending.push(result);
+      if (results.length >= options.maxResults) {
+        truncated = true;
+        break;
+      }
+    }
+
+    report('', true);
+    return { results, filesScanned, totalMatches, truncated, cancelled };
+  }
+}
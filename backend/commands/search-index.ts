@@ -0,0 +1,253 @@
+/**
+ * Search Index
+ * Persistent listing of a folder tree (names, sizes, modification times) so
+ * repeated searches in large or slow folders (e.g. on a NAS) do not walk the
+ * tree again. Indexes are stored via ConfigCommand in ~/n2htoolbox/ and
+ * also serve searches in any subfolder of an indexed folder.
+ */
+
+import * as crypto from 'crypto';
+import { ConfigCommand } from './config-command.js';
+import {
+  SearchEntry,
+  SearchHelper,
+  SearchHooks,
+  SearchOptions,
+  SearchSource,
+  WalkedEntry,
+} from './search-helper.js';
+
+const CATALOG_FILE = 'search-indexes.json';
+const PROGRESS_EVERY_N_ENTRIES = 200;
+
+interface IndexedEntry {
+  path: string; // Relative to the index root, forward slashes
+  isDirectory: boolean;
+  size: number;
+  mtimeMs: number;
+}
+
+export interface SearchIndexInfo {
+  root: string;
+  file: string;
+  createdAt: string;
+  entries: number;
+}
+
+interface SearchIndexData {
+  root: string;
+  createdAt: string;
+  entries: IndexedEntry[];
+}
+
+export class SearchIndex {
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  /**
+   * All indexed folders
+   */
+  async list(): Promise<SearchIndexInfo[]> {
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: CATALOG_FILE,
+    });
+    return result.success && Array.isArray(result.data) ? result.data : [];
+  }
+
+  /**
+   * The index covering a folder: the folder itself or the closest indexed
+   * parent folder
+   */
+  async find(dirPath: string): Promise<SearchIndexInfo | null> {
+    const covering = (await this.list()).filter((info) =>
+      SearchIndex.isInside(info.root, dirPath),
+    );
+    covering.sort((a, b) => b.root.length - a.root.length);
+    return covering[0] ?? null;
+  }
+
+  /**
+   * Walk a folder once and store its listing
+   */
+  async build(
+    root: string,
+    source: SearchSource,
+    hooks: SearchHooks = {},
+  ): Promise<SearchIndexInfo> {
+    const entries: IndexedEntry[] = [];
+    for await (const { entry, relativePath } of SearchHelper.walk(
+      root,
+      source,
+      { recursive: true, exclude: [] },
+      hooks,
+    )) {
+      let { size, mtimeMs } = entry;
+      if (size === undefined || mtimeMs === undefined) {
+        try {
+          ({ size, mtimeMs } = await source.stat(entry.path));
+        } catch {
+          continue;
+        }
+      }
+      entries.push({
+        path: relativePath,
+        isDirectory: entry.isDirectory,
+        size: entry.isDirectory ? 0 : size,
+        mtimeMs,
+      });
+      if (entries.length % PROGRESS_EVERY_N_ENTRIES === 0) {
+        hooks.onProgress?.({
+          filesScanned: entries.length,
+          currentFile: `Indexing: ${relativePath}`,
+          results: [],
+          totalResults: 0,
+        });
+      }
+    }
+    if (hooks.isCancelled?.()) {
+      throw new Error('Operation cancelled by user');
+    }
+
+    const info: SearchIndexInfo = {
+      root,
+      file: SearchIndex.fileName(root),
+      createdAt: new Date().toISOString(),
+      entries: entries.length,
+    };
+    const data: SearchIndexData = {
+      root,
+      createdAt: info.createdAt,
+      entries,
+    };
+    // Written compact, indexes of large trees get big
+    await this.write(info.file, JSON.stringify(data));
+    await this.write(CATALOG_FILE, [
+      ...(await this.list()).filter((i) => i.root !== root),
+      info,
+    ]);
+    console.log(
+      `[SearchIndex] Indexed ${entries.length} entries of ${root} in ${info.file}`,
+    );
+    return info;
+  }
+
+  /**
+   * Entries below a folder from an index, in the same form and order as a
+   * live walk
+   */
+  async *walk(
+    info: SearchIndexInfo,
+    dirPath: string,
+    options: Pick<SearchOptions, 'recursive' | 'exclude'>,
+  ): AsyncGenerator<WalkedEntry> {
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: info.file,
+    });
+    if (!result.success || !Array.isArray(result.data?.entries)) {
+      throw new Error(`Search index of ${info.root} is missing or damaged`);
+    }
+    const data = result.data as SearchIndexData;
+
+    const separator = SearchIndex.separatorOf(info.root);
+    const prefix = SearchIndex.relativePath(info.root, dirPath);
+    if (prefix === null) {
+      throw new Error(`${dirPath} is not inside the index of ${info.root}`);
+    }
+    const excluded = SearchHelper.excludeMatcher(options.exclude);
+
+    for (const indexed of data.entries) {
+      if (prefix && !indexed.path.startsWith(`${prefix}/`)) continue;
+      const relativePath = prefix
+        ? indexed.path.substring(prefix.length + 1)
+        : indexed.path;
+      if (!options.recursive && relativePath.includes('/')) continue;
+      // Excluded folders hide everything below them
+      const parts = relativePath.split('/');
+      if (parts.some((_, i) => excluded(parts.slice(0, i + 1).join('/')))) {
+        continue;
+      }
+
+      const entry: SearchEntry = {
+        name: parts[parts.length - 1],
+        path: SearchIndex.join(info.root, indexed.path, separator),
+        isDirectory: indexed.isDirectory,
+        isFile: !indexed.isDirectory,
+        size: indexed.size,
+        mtimeMs: indexed.mtimeMs,
+      };
+      yield { entry, relativePath };
+    }
+  }
+
+  /**
+   * Delete the index of a folder
+   */
+  async remove(root: string): Promise<boolean> {
+    const indexes = await this.list();
+    const info = indexes.find((i) => i.root === root);
+    if (!info) return false;
+
+    await this.config.execute({ operation: 'delete', filename: info.file });
+    await this.write(
+      CATALOG_FILE,
+      indexes.filter((i) => i !== info),
+    );
+    return true;
+  }
+
+  private async write(filename: string, data: any): Promise<void> {
+    const result = await this.config.execute({
+      operation: 'write',
+      filename,
+      data,
+    });
+    if (!result.success) {
+      throw new Error(`Failed to write ${filename}: ${result.error}`);
+    }
+  }
+
+  static fileName(root: string): string {
+    const hash = crypto.createHash('sha1').update(root).digest('hex');
+    return `search-index-${hash.substring(0, 16)}.json`;
+  }
+
+  private static separatorOf(root: string): string {
+    return root.includes('\\') && !root.includes('/') ? '\\' : '/';
+  }
+
+  private static trimSeparator(dirPath: string): string {
+    return dirPath.length > 1 ? dirPath.replace(/[\\/]+$/, '') : dirPath;
+  }
+
+  private static isInside(root: string, dirPath: string): boolean {
+    return this.relativePath(root, dirPath) !== null;
+  }
+
+  /**
+   * Path of a folder relative to an index root ('' for the root itself),
+   * null when it is not inside
+   */
+  private static relativePath(root: string, dirPath: string): string | null {
+    const base = this.trimSeparator(root);
+    const target = this.trimSeparator(dirPath);
+    if (target === base) return '';
+    for (const separator of ['/', '\\']) {
+      const start = base.endsWith(separator) ? base : base + separator;
+      if (target.startsWith(start)) {
+        return target.substring(start.length).replace(/\\/g, '/');
+      }
+    }
+    return null;
+  }
+
+  private static join(
+    root: string,
+    relativePath: string,
+    separator: string,
+  ): string {
+    const base = this.trimSeparator(root);
+    const parts = relativePath.split('/').join(separator);
+    return base.endsWith(separator) ? base + parts : base + separator + parts;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * SSH Known Hosts
+ * Checks host keys against an OpenSSH known_hosts file (~/.ssh/known_hosts
+ * by default) and adds keys the user trusted on first use. Understands
+ * hashed host names, [host]:port entries, wildcards, negated patterns and
+ * @revoked keys; @cert-authority lines are ignored.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type HostKeyStatus = 'known' | 'unknown' | 'changed' | 'revoked';
+
+export class KnownHosts {
+  constructor(
+    readonly filePath: string = path.join(os.homedir(), '.ssh', 'known_hosts'),
+  ) {}
+
+  /**
+   * OpenSSH fingerprint of a key blob (SHA256:base64 without padding)
+   */
+  static fingerprint(key: Buffer): string {
+    const hash = crypto.createHash('sha256').update(key).digest('base64');
+    return `SHA256:${hash.replace(/=+$/, '')}`;
+  }
+
+  /**
+   * Key type of a key blob, e.g. ssh-ed25519
+   */
+  static keyType(key: Buffer): string {
+    if (key.length < 4) return '';
+    return key.subarray(4, 4 + key.readUInt32BE(0)).toString('ascii');
+  }
+
+  /**
+   * Name of a host in known_hosts, with the port unless it is 22
+   */
+  static hostName(host: string, port: number): string {
+    return port === 22 ? host : `[${host}]:${port}`;
+  }
+
+  /**
+   * Whether the key of a host is known, not yet known or differs from the
+   * known key of the same type
+   */
+  check(host: string, port: number, key: Buffer): HostKeyStatus {
+    const name = KnownHosts.hostName(host, port);
+    const blob = key.toString('base64');
+    const type = KnownHosts.keyType(key);
+    let status: HostKeyStatus = 'unknown';
+
+    for (const line of this.readLines()) {
+      const fields = line.split(/\s+/);
+      const marker = fields[0].startsWith('@') ? fields.shift() : '';
+      const [hosts, keyType, keyData] = fields;
+      if (
+        !keyData ||
+        marker === '@cert-authority' ||
+        !KnownHosts.matches(hosts, name)
+      ) {
+        continue;
+      }
+      if (marker === '@revoked') {
+        if (keyData === blob) return 'revoked';
+      } else if (keyData === blob) {
+        status = 'known';
+      } else if (keyType === type && status === 'unknown') {
+        status = 'changed';
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Trust the key of a host from now on
+   */
+  add(host: string, port: number, key: Buffer): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const content = fs.existsSync(this.filePath)
+      ? fs.readFileSync(this.filePath, 'utf-8')
+      : '';
+    const separator = content && !content.endsWith('\n') ? '\n' : '';
+    fs.appendFileSync(
+      this.filePath,
+      `${separator}${KnownHosts.hostName(host, port)} ${KnownHosts.keyType(key)} ${key.toString('base64')}\n`,
+      { mode: 0o600 },
+    );
+  }
+
+  private readLines(): string[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return fs
+      .readFileSync(this.filePath, 'utf-8')
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'));
+  }
+
+  /**
+   * Whether a host name matches the comma separated patterns or the
+   * hashed name of a line
+   */
+  private static matches(patterns: string, name: string): boolean {
+    if (patterns.startsWith('|1|')) {
+      const [, , salt, hash] = patterns.split('|');
+      const hashed = crypto
+        .createHmac('sha1', Buffer.from(salt, 'base64'))
+        .update(name)
+        .digest('base64');
+      return hashed === hash;
+    }
+
+    let matched = false;
+    for (const pattern of patterns.split(',')) {
+      const negated = pattern.startsWith('!');
+      const glob = (negated ? pattern.slice(1) : pattern)
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+      if (new RegExp(`^${glob}$`, 'i').test(name)) {
+        if (negated) return false;
+        matched = true;
+      }
+    }
+    return matched;
+  }
+}
@@ -0,0 +1,607 @@
+/**
+ * Sync Helper
+ * rsync-style incremental directory synchronization: builds a plan of
+ * mkdir/copy/delete actions between two directory trees and applies it
+ * with byte-level progress and throughput reporting
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * mirror      - make right an exact copy of left (copies and deletes)
+ * update-only - copy new files and files that are newer on the left, never delete
+ * two-way     - copy in both directions, the newer file wins
+ */
+export type SyncMode = 'mirror' | 'update-only' | 'two-way';
+
+/**
+ * size     - files differ when their sizes differ
+ * mtime    - files differ when size or modification time differ
+ * checksum - files differ when size or SHA-256 differ
+ */
+export type SyncCompareStrategy = 'size' | 'mtime' | 'checksum';
+
+export type SyncDirection = 'left-to-right' | 'right-to-left';
+
+export interface SyncAction {
+  type: 'mkdir' | 'copy' | 'delete';
+  direction: SyncDirection;
+  path: string; // Relative path with forward slashes
+  sourcePath?: string; // Absolute source path (mkdir/copy)
+  targetPath: string; // Absolute path that is created, written or deleted
+  size: number;
+  isDirectory: boolean;
+  reason: 'new' | 'changed' | 'newer' | 'extraneous' | 'type';
+}
+
+export interface SyncConflict {
+  path: string;
+  leftPath: string;
+  rightPath: string;
+  reason: string;
+}
+
+export interface SyncOptions {
+  mode: SyncMode;
+  compareBy: SyncCompareStrategy;
+  exclude: string[];
+}
+
+export interface SyncPlan {
+  leftPath: string;
+  rightPath: string;
+  mode: SyncMode;
+  compareBy: SyncCompareStrategy;
+  exclude: string[];
+  actions: SyncAction[];
+  conflicts: SyncConflict[];
+  skipped: number; // Files that are in sync or newer on the target
+  summary: {
+    mkdir: number;
+    copy: number;
+    delete: number;
+    conflicts: number;
+    totalBytes: number;
+  };
+}
+
+export interface SyncProgress {
+  phase: 'scanning' | 'comparing' | 'syncing';
+  filesDone: number;
+  totalFiles: number;
+  bytesDone: number;
+  totalBytes: number;
+  bytesPerSecond: number;
+  percentage: number;
+  currentFile: string;
+}
+
+export interface SyncResult {
+  actionsApplied: number;
+  filesCopied: number;
+  filesDeleted: number;
+  directoriesCreated: number;
+  bytesCopied: number;
+  durationMs: number;
+  bytesPerSecond: number;
+  errors: Array<{ path: string; error: string }>;
+}
+
+export interface SyncHooks {
+  checkpoint?: () => Promise<void>;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+interface SyncEntry {
+  fullPath: string;
+  size: number;
+  mtimeMs: number;
+  isDirectory: boolean;
+}
+
+// FAT/exFAT store modification times with 2 second precision
+const MTIME_TOLERANCE_MS = 2000;
+const COPY_CHUNK_SIZE = 1024 * 1024;
+const PROGRESS_INTERVAL_MS = 200;
+const PROGRESS_EVERY_N_FILES = 50;
+
+export class SyncHelper {
+  /**
+   * Convert a glob pattern to a regular expression.
+   * Supports `**` (any path), `*` (anything but /) and `?` (one character).
+   */
+  static globToRegExp(pattern: string): RegExp {
+    let regex = '';
+    const normalized = pattern.replace(/\\/g, '/');
+    for (let i = 0; i < normalized.length; i++) {
+      const char = normalized[i];
+      if (char === '*' && normalized[i + 1] === '*') {
+        // '**/' also matches zero directories
+        if (normalized[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i++;
+        }
+      } else if (char === '*') {
+        regex += '[^/]*';
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else {
+        regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${regex}$`, 'i');
+  }
+
+  /**
+   * Check whether a relative path is excluded. Patterns without a slash
+   * match the name at any depth (like rsync), others the whole relative path.
+   */
+  private static isExcluded(
+    relativePath: string,
+    patterns: RegExp[],
+    raw: string[],
+  ): boolean {
+    const name = relativePath.split('/').pop() || relativePath;
+    return patterns.some((regex, i) =>
+      raw[i].includes('/') ? regex.test(relativePath) : regex.test(name),
+    );
+  }
+
+  /**
+   * Compare two directory trees and build the list of actions for a sync
+   */
+  static async createPlan(
+    leftPath: string,
+    rightPath: string,
+    options: SyncOptions,
+    hooks: SyncHooks = {},
+  ): Promise<SyncPlan> {
+    const absoluteLeft = path.resolve(leftPath);
+    const absoluteRight = path.resolve(rightPath);
+
+    if (!fs.existsSync(absoluteLeft)) {
+      throw new Error(`Left directory does not exist: ${absoluteLeft}`);
+    }
+    if (!(await fs.promises.stat(absoluteLeft)).isDirectory()) {
+      throw new Error(`Left path is not a directory: ${absoluteLeft}`);
+    }
+    if (
+      fs.existsSync(absoluteRight) &&
+      !(await fs.promises.stat(absoluteRight)).isDirectory()
+    ) {
+      throw new Error(`Right path is not a directory: ${absoluteRight}`);
+    }
+    if (
+      this.isInside(absoluteLeft, absoluteRight) ||
+      this.isInside(absoluteRight, absoluteLeft)
+    ) {
+      throw new Error('Left and right directories must not contain each other');
+    }
+
+    const excludePatterns = options.exclude.map((p) => this.globToRegExp(p));
+    const excluded = (relPath: string) =>
+      this.isExcluded(relPath, excludePatterns, options.exclude);
+
+    const report = (
+      phase: SyncProgress['phase'],
+      done: number,
+      total: number,
+      file: string,
+    ) =>
+      hooks.onProgress?.({
+        phase,
+        filesDone: done,
+        totalFiles: total,
+        bytesDone: 0,
+        totalBytes: 0,
+        bytesPerSecond: 0,
+        percentage: total > 0 ? Math.round((done / total) * 100) : 0,
+        currentFile: file,
+      });
+
+    const left = new Map<string, SyncEntry>();
+    const right = new Map<string, SyncEntry>();
+    await this.scan(absoluteLeft, '', left, excluded, hooks, report);
+    if (fs.existsSync(absoluteRight)) {
+      await this.scan(absoluteRight, '', right, excluded, hooks, report);
+    }
+
+    const actions: SyncAction[] = [];
+    const conflicts: SyncConflict[] = [];
+    let skipped = 0;
+
+    const copy = (
+      relPath: string,
+      from: SyncEntry,
+      targetRoot: string,
+      direction: SyncDirection,
+      reason: SyncAction['reason'],
+    ) =>
+      actions.push({
+        type: from.isDirectory ? 'mkdir' : 'copy',
+        direction,
+        path: relPath,
+        sourcePath: from.fullPath,
+        targetPath: path.join(targetRoot, ...relPath.split('/')),
+        size: from.isDirectory ? 0 : from.size,
+        isDirectory: from.isDirectory,
+        reason,
+      });
+
+    const allPaths = new Set([...left.keys(), ...right.keys()]);
+    const total = allPaths.size;
+    let done = 0;
+
+    for (const relPath of allPaths) {
+      await hooks.checkpoint?.();
+      if (++done % PROGRESS_EVERY_N_FILES === 0 || done === total) {
+        report('comparing', done, total, relPath);
+      }
+
+      const l = left.get(relPath);
+      const r = right.get(relPath);
+
+      if (l && !r) {
+        copy(relPath, l, absoluteRight, 'left-to-right', 'new');
+        continue;
+      }
+
+      if (!l && r) {
+        if (options.mode === 'mirror') {
+          actions.push({
+            type: 'delete',
+            direction: 'left-to-right',
+            path: relPath,
+            targetPath: r.fullPath,
+            size: r.isDirectory ? 0 : r.size,
+            isDirectory: r.isDirectory,
+            reason: 'extraneous',
+          });
+        } else if (options.mode === 'two-way') {
+          copy(relPath, r, absoluteLeft, 'right-to-left', 'new');
+        } else {
+          skipped++;
+        }
+        continue;
+      }
+
+      if (!l || !r) continue;
+
+      if (l.isDirectory !== r.isDirectory) {
+        if (options.mode === 'mirror') {
+          // The target is replaced by the source type when the action is applied
+          copy(relPath, l, absoluteRight, 'left-to-right', 'type');
+        } else {
+          conflicts.push({
+            path: relPath,
+            leftPath: l.fullPath,
+            rightPath: r.fullPath,
+            reason: 'File on one side, directory on the other',
+          });
+        }
+        continue;
+      }
+
+      if (l.isDirectory) continue;
+
+      if (!(await this.filesDiffer(l, r, options.compareBy))) {
+        skipped++;
+        continue;
+      }
+
+      const mtimeDiff = l.mtimeMs - r.mtimeMs;
+      if (options.mode === 'mirror') {
+        copy(relPath, l, absoluteRight, 'left-to-right', 'changed');
+      } else if (mtimeDiff > MTIME_TOLERANCE_MS) {
+        copy(relPath, l, absoluteRight, 'left-to-right', 'newer');
+      } else if (mtimeDiff < -MTIME_TOLERANCE_MS) {
+        if (options.mode === 'two-way') {
+          copy(relPath, r, absoluteLeft, 'right-to-left', 'newer');
+        } else {
+          skipped++;
+        }
+      } else {
+        // Both sides changed at the same time - let the user decide
+        conflicts.push({
+          path: relPath,
+          leftPath: l.fullPath,
+          rightPath: r.fullPath,
+          reason: 'Files differ but have the same modification time',
+        });
+      }
+    }
+
+    const sorted = this.sortActions(actions);
+    return {
+      leftPath: absoluteLeft,
+      rightPath: absoluteRight,
+      mode: options.mode,
+      compareBy: options.compareBy,
+      exclude: options.exclude,
+      actions: sorted,
+      conflicts,
+      skipped,
+      summary: {
+        mkdir: sorted.filter((a) => a.type === 'mkdir').length,
+        copy: sorted.filter((a) => a.type === 'copy').length,
+        delete: sorted.filter((a) => a.type === 'delete').length,
+        conflicts: conflicts.length,
+        totalBytes: sorted.reduce(
+          (sum, a) => sum + (a.type === 'copy' ? a.size : 0),
+          0,
+        ),
+      },
+    };
+  }
+
+  /**
+   * Apply the actions of a plan. Failed actions are collected in `errors`,
+   * cancellation (thrown by the checkpoint hook) stops immediately.
+   */
+  static async applyPlan(
+    actions: SyncAction[],
+    hooks: SyncHooks = {},
+  ): Promise<SyncResult> {
+    const sorted = this.sortActions(actions);
+    const totalBytes = sorted.reduce(
+      (sum, a) => sum + (a.type === 'copy' ? a.size : 0),
+      0,
+    );
+    const startTime = Date.now();
+    const result: SyncResult = {
+      actionsApplied: 0,
+      filesCopied: 0,
+      filesDeleted: 0,
+      directoriesCreated: 0,
+      bytesCopied: 0,
+      durationMs: 0,
+      bytesPerSecond: 0,
+      errors: [],
+    };
+
+    let lastReport = 0;
+    const report = (currentFile: string, force = false) => {
+      const now = Date.now();
+      if (!force && now - lastReport < PROGRESS_INTERVAL_MS) return;
+      lastReport = now;
+
+      const elapsed = (now - startTime) / 1000;
+      hooks.onProgress?.({
+        phase: 'syncing',
+        filesDone: result.actionsApplied,
+        totalFiles: sorted.length,
+        bytesDone: result.bytesCopied,
+        totalBytes,
+        bytesPerSecond:
+          elapsed > 0 ? Math.round(result.bytesCopied / elapsed) : 0,
+        percentage:
+          totalBytes > 0
+            ? Math.round((result.bytesCopied / totalBytes) * 100)
+            : sorted.length > 0
+              ? Math.round((result.actionsApplied / sorted.length) * 100)
+              : 100,
+        currentFile,
+      });
+    };
+
+    for (const action of sorted) {
+      await hooks.checkpoint?.();
+      report(action.path, true);
+
+      try {
+        if (action.type === 'mkdir') {
+          await this.removeIfType(action.targetPath, 'file');
+          await fs.promises.mkdir(action.targetPath, { recursive: true });
+          result.directoriesCreated++;
+        } else if (action.type === 'copy') {
+          if (!action.sourcePath) {
+            throw new Error('sourcePath is required for copy action');
+          }
+          await this.removeIfType(action.targetPath, 'directory');
+          await this.copyWithProgress(
+            action.sourcePath,
+            action.targetPath,
+            (bytes) => {
+              result.bytesCopied += bytes;
+              report(action.path);
+            },
+            hooks,
+          );
+          result.filesCopied++;
+        } else {
+          // Children were deleted before; excluded files keep the directory alive.
+          // ENOENT means a replaced parent directory already took it along.
+          await (
+            action.isDirectory
+              ? fs.promises.rmdir(action.targetPath)
+              : fs.promises.unlink(action.targetPath)
+          ).catch((error: any) => {
+            if (error.code !== 'ENOENT') throw error;
+          });
+          result.filesDeleted++;
+        }
+        result.actionsApplied++;
+      } catch (error: any) {
+        if (error.message === 'Operation cancelled by user') throw error;
+        result.errors.push({ path: action.path, error: error.message });
+      }
+    }
+
+    result.durationMs = Date.now() - startTime;
+    result.bytesPerSecond =
+      result.durationMs > 0
+        ? Math.round(result.bytesCopied / (result.durationMs / 1000))
+        : result.bytesCopied;
+    report('', true);
+
+    return result;
+  }
+
+  /**
+   * Order actions so they can be applied one by one: directories first
+   * (parents before children), then copies, then deletes (children first)
+   */
+  private static sortActions(actions: SyncAction[]): SyncAction[] {
+    const depth = (p: string) => p.split('/').length;
+    const order = { mkdir: 0, copy: 1, delete: 2 };
+
+    return [...actions].sort((a, b) => {
+      if (a.type !== b.type) return order[a.type] - order[b.type];
+      if (a.type === 'mkdir') return depth(a.path) - depth(b.path);
+      if (a.type === 'delete') return depth(b.path) - depth(a.path);
+      return a.path.localeCompare(b.path);
+    });
+  }
+
+  private static isInside(parent: string, child: string): boolean {
+    const relative = path.relative(parent, child);
+    return (
+      relative === '' ||
+      (!relative.startsWith('..') && !path.isAbsolute(relative))
+    );
+  }
+
+  private static async scan(
+    root: string,
+    relDir: string,
+    entries: Map<string, SyncEntry>,
+    excluded: (relPath: string) => boolean,
+    hooks: SyncHooks,
+    report: (
+      phase: 'scanning',
+      done: number,
+      total: number,
+      file: string,
+    ) => void,
+  ): Promise<void> {
+    await hooks.checkpoint?.();
+    const dirPath = relDir ? path.join(root, ...relDir.split('/')) : root;
+    const items = await fs.promises.readdir(dirPath, { withFileTypes: true });
+
+    for (const item of items) {
+      const relPath = relDir ? `${relDir}/${item.name}` : item.name;
+      // Symlinks are skipped to avoid loops and syncing outside the tree
+      if (item.isSymbolicLink() || excluded(relPath)) continue;
+
+      const fullPath = path.join(dirPath, item.name);
+      try {
+        const stats = await fs.promises.stat(fullPath);
+        entries.set(relPath, {
+          fullPath,
+          size: stats.isDirectory() ? 0 : stats.size,
+          mtimeMs: stats.mtimeMs,
+          isDirectory: stats.isDirectory(),
+        });
+        if (entries.size % PROGRESS_EVERY_N_FILES === 0) {
+          report('scanning', entries.size, 0, relPath);
+        }
+
+        if (stats.isDirectory()) {
+          await this.scan(root, relPath, entries, excluded, hooks, report);
+        }
+      } catch (error: any) {
+        if (error.message === 'Operation cancelled by user') throw error;
+        console.warn(`[Sync] Skipping ${fullPath}: ${error.message}`);
+      }
+    }
+  }
+
+  private static async filesDiffer(
+    left: SyncEntry,
+    right: SyncEntry,
+    compareBy: SyncCompareStrategy,
+  ): Promise<boolean> {
+    if (left.size !== right.size) return true;
+
+    switch (compareBy) {
+      case 'size':
+        return false;
+      case 'mtime':
+        return Math.abs(left.mtimeMs - right.mtimeMs) > MTIME_TOLERANCE_MS;
+      case 'checksum':
+        return (
+          (await this.hashFile(left.fullPath)) !==
+          (await this.hashFile(right.fullPath))
+        );
+    }
+  }
+
+  private static hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      fs.createReadStream(filePath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * Remove an existing target that has the wrong type (mirror replaces it)
+   */
+  private static async removeIfType(
+    targetPath: string,
+    type: 'file' | 'directory',
+  ): Promise<void> {
+    try {
+      const stats = await fs.promises.lstat(targetPath);
+      if (type === 'directory' && stats.isDirectory()) {
+        await fs.promises.rm(targetPath, { recursive: true });
+      } else if (type === 'file' && !stats.isDirectory()) {
+        await fs.promises.unlink(targetPath);
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  /**
+   * Copy a file in chunks so progress, pause and cancel work inside large
+   * files. Writes to a temp file first and keeps the source mtime so the
+   * next sync sees both sides as equal.
+   */
+  private static async copyWithProgress(
+    sourcePath: string,
+    targetPath: string,
+    onBytes: (bytes: number) => void,
+    hooks: SyncHooks,
+  ): Promise<void> {
+    await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+    const tempPath = `${targetPath}.n2hsync`;
+    const source = await fs.promises.open(sourcePath, 'r');
+    let target: fs.promises.FileHandle | undefined;
+
+    try {
+      target = await fs.promises.open(tempPath, 'w');
+      const buffer = Buffer.alloc(COPY_CHUNK_SIZE);
+      let bytesRead: number;
+
+      do {
+        await hooks.checkpoint?.();
+        ({ bytesRead } = await source.read(buffer, 0, COPY_CHUNK_SIZE, null));
+        if (bytesRead > 0) {
+          await target.write(buffer, 0, bytesRead);
+          onBytes(bytesRead);
+        }
+      } while (bytesRead > 0);
+
+      await target.close();
+      target = undefined;
+
+      const stats = await source.stat();
+      await fs.promises.utimes(tempPath, stats.atime, stats.mtime);
+      await fs.promises.rename(tempPath, targetPath);
+    } catch (error) {
+      await target?.close();
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    } finally {
+      await source.close();
+    }
+  }
+}
@@ -1,13 +1,40 @@
 /**
  * System Monitor Command
- * Returns top resource-consuming processes for CPU or memory.
+ * Returns top resource-consuming processes for CPU or memory, records
+ * their history in the background, explores the process tree, shows
+ * network traffic per interface and per connection and alerts when
+ * resources cross the thresholds of user defined rules.
  */
 
 import { exec } from 'child_process';
 import { readFile, readdir } from 'fs/promises';
 import os from 'os';
 import { promisify } from 'util';
+import {
+  Alert,
+  AlertListener,
+  AlertMonitor,
+  AlertRule,
+  AlertStatus,
+  ResourceSnapshot,
+} from './alert-monitor.js';
 import { CommandParameter, ICommand } from './command-interface.js';
+import { ConfigCommand } from './config-command.js';
+import {
+  HISTORY_RANGES,
+  HistoryRange,
+  MetricsHistory,
+  MetricsRecorder,
+  MetricsSample,
+  RecorderStatus,
+} from './metrics-recorder.js';
+import {
+  InterfaceCounters,
+  NetworkConnection,
+  NetworkRates,
+  NetworkStats,
+} from './network-stats.js';
+import { ProcessInfo, ProcessTree, ProcessTreeEntry } from './process-tree.js';
 
 const execAsync = promisify(exec);
 
@@ -16,6 +43,11 @@ const SYS32 = `${process.env.SystemRoot || 'C:\\Windows'}\\System32`;
 
 type ResourceMetric = 'cpu' | 'memory' | 'io';
 
+const PROCESS_SIGNALS = ['SIGTERM', 'SIGKILL', 'SIGSTOP', 'SIGCONT'] as const;
+type ProcessSignal = (typeof PROCESS_SIGNALS)[number];
+
+const MAX_CONNECTIONS = 500;
+
 interface ProcessUsage {
   pid: number;
   name: string;
@@ -57,6 +89,21 @@ interface FileHandleResult {
   command: string;
 }
 
+interface ProcessDetails {
+  process: ProcessInfo;
+  parents: ProcessInfo[]; // Nearest parent first
+  children: number;
+  cwd: string | null; // null when not readable on this platform or for this process
+  environment: Record<string, string> | null;
+  openFiles: string[] | null;
+  ports: OpenPort[];
+}
+
+interface SignalError {
+  pid: number;
+  error: string;
+}
+
 interface MonitorResponse {
   success: boolean;
   metric?: ResourceMetric;
@@ -66,6 +113,16 @@ interface MonitorResponse {
   resources?: ResourceAvailability;
   openPorts?: OpenPort[];
   fileHandles?: FileHandleResult[];
+  history?: MetricsHistory;
+  recorder?: RecorderStatus;
+  processes?: ProcessTreeEntry[];
+  processDetails?: ProcessDetails;
+  signalled?: number[];
+  signalErrors?: SignalError[];
+  network?: NetworkRates | null;
+  connections?: NetworkConnection[];
+  alerts?: Alert[];
+  alertStatus?: AlertStatus;
   warning?: string;
   error?: string;
 }
@@ -77,7 +134,17 @@ export class SystemMonitorCommand implements ICommand {
   /** Whether the WMI perf counter warm-up has been triggered. */
   private wmiWarmedUp = false;
 
-  constructor() {
+  private recorder: MetricsRecorder;
+
+  private alertMonitor: AlertMonitor;
+
+  constructor(config: ConfigCommand = new ConfigCommand()) {
+    this.recorder = new MetricsRecorder(() => this.collectSample(), config);
+    this.alertMonitor = new AlertMonitor(
+      (rules) => this.collectAlertSnapshot(rules),
+      config,
+    );
+
     // Pre-warm WMI performance counters in the background on Windows.
     // The first query to Win32_PerfFormattedData_PerfProc_Process can take
     // 10-30s while Windows initialises perf counters; subsequent queries
@@ -86,6 +153,29 @@ export class SystemMonitorCommand implements ICommand {
     this.prewarmWmiCounters();
   }
 
+  /**
+   * Continue recording metrics history if it was enabled. Called by the app
+   * on startup, not in the constructor, so CLI runs do not record.
+   */
+  async resumeRecorder(): Promise<boolean> {
+    return this.recorder.resume();
+  }
+
+  /**
+   * Continue checking alert rules if alerts were enabled, like
+   * resumeRecorder() called by the app on startup
+   */
+  async resumeAlerts(): Promise<boolean> {
+    return this.alertMonitor.resume();
+  }
+
+  /**
+   * Get every new alert (the app shows them as desktop notifications)
+   */
+  onAlert(listener: AlertListener): () => void {
+    return this.alertMonitor.onAlert(listener);
+  }
+
   private prewarmWmiCounters(): void {
     if (process.platform !== 'win32' || this.wmiWarmedUp) return;
     this.wmiWarmedUp = true;
@@ -123,6 +213,18 @@ export class SystemMonitorCommand implements ICommand {
           'kill-process',
           'open-ports',
           'find-file-handle',
+          'history',
+          'recorder-status',
+          'recorder-start',
+          'recorder-stop',
+          'process-tree',
+          'process-details',
+          'signal-process',
+          'network',
+          'alerts',
+          'alert-settings',
+          'alert-check',
+          'alert-clear-log',
         ],
         default: 'top-processes',
       },
@@ -144,8 +246,25 @@ export class SystemMonitorCommand implements ICommand {
       {
         name: 'pid',
         type: 'number',
-        description: 'Process ID to kill (for kill-process action)',
+        description:
+          'Process ID (for kill-process, process-details and signal-process actions)',
+        required: false,
+      },
+      {
+        name: 'signal',
+        type: 'select',
+        description: 'Signal to send (for signal-process action)',
+        required: false,
+        options: [...PROCESS_SIGNALS],
+        default: 'SIGTERM',
+      },
+      {
+        name: 'tree',
+        type: 'boolean',
+        description:
+          'Also signal all child processes (for signal-process action)',
         required: false,
+        default: false,
       },
       {
         name: 'filePath',
@@ -154,6 +273,48 @@ export class SystemMonitorCommand implements ICommand {
           'File path to check for locking processes (for find-file-handle action)',
         required: false,
       },
+      {
+        name: 'range',
+        type: 'select',
+        description: 'Time range (for history action)',
+        required: false,
+        options: Object.keys(HISTORY_RANGES),
+        default: '1h',
+      },
+      {
+        name: 'maxPoints',
+        type: 'number',
+        description: 'Maximum chart points (for history action)',
+        required: false,
+        default: 300,
+      },
+      {
+        name: 'intervalSeconds',
+        type: 'number',
+        description: 'Seconds between samples (for recorder-start action)',
+        required: false,
+        default: 60,
+      },
+      {
+        name: 'retentionDays',
+        type: 'number',
+        description: 'Days of history to keep (for recorder-start action)',
+        required: false,
+        default: 7,
+      },
+      {
+        name: 'enabled',
+        type: 'boolean',
+        description: 'Check the alert rules (for alert-settings action)',
+        required: false,
+      },
+      {
+        name: 'rules',
+        type: 'string',
+        description:
+          'Alert rules as JSON array of {type, threshold, minutes, target, enabled} (for alert-settings action)',
+        required: false,
+      },
     ];
   }
 
@@ -175,6 +336,26 @@ export class SystemMonitorCommand implements ICommand {
         return await this.killProcess(params?.pid);
       }
 
+      if (action === 'process-tree') {
+        return {
+          success: true,
+          updatedAt: new Date().toISOString(),
+          processes: ProcessTree.flatten(await this.listProcesses()),
+        };
+      }
+
+      if (action === 'process-details') {
+        return await this.getProcessDetails(params?.pid);
+      }
+
+      if (action === 'signal-process') {
+        return await this.signalProcess(
+          params?.pid,
+          params?.signal || 'SIGTERM',
+          params?.tree === true || params?.tree === 'true',
+        );
+      }
+
       if (action === 'find-file-handle') {
         const filePath = params?.filePath;
         if (!filePath || typeof filePath !== 'string') {
@@ -197,6 +378,104 @@ export class SystemMonitorCommand implements ICommand {
         };
       }
 
+      if (action === 'network') {
+        const [network, connections] = await Promise.all([
+          this.getNetworkRates(),
+          this.getConnections(),
+        ]);
+        return {
+          success: true,
+          updatedAt: new Date().toISOString(),
+          network,
+          connections,
+        };
+      }
+
+      if (action === 'alerts') {
+        return {
+          success: true,
+          alerts: await this.alertMonitor.alerts(),
+          alertStatus: await this.alertMonitor.status(),
+        };
+      }
+
+      if (action === 'alert-settings') {
+        let rules = params?.rules;
+        if (typeof rules === 'string') {
+          try {
+            rules = JSON.parse(rules);
+          } catch {
+            return { success: false, error: 'Rules must be a JSON array' };
+          }
+        }
+        if (rules !== undefined && !Array.isArray(rules)) {
+          return { success: false, error: 'Rules must be a JSON array' };
+        }
+        const alertStatus = await this.alertMonitor.update({
+          ...(params?.enabled !== undefined && {
+            enabled: params.enabled === true || params.enabled === 'true',
+          }),
+          ...(params?.intervalSeconds !== undefined && {
+            intervalSeconds: Number(params.intervalSeconds),
+          }),
+          ...(rules !== undefined && { rules }),
+        });
+        return { success: true, alertStatus };
+      }
+
+      if (action === 'alert-check') {
+        const alerts = await this.alertMonitor.check();
+        return {
+          success: true,
+          alerts,
+          alertStatus: await this.alertMonitor.status(),
+        };
+      }
+
+      if (action === 'alert-clear-log') {
+        await this.alertMonitor.clearLog();
+        return { success: true, alerts: [] };
+      }
+
+      if (action === 'history') {
+        const range = params?.range || '1h';
+        if (!(range in HISTORY_RANGES)) {
+          return { success: false, error: `Unknown range: ${range}` };
+        }
+        const maxPoints = Number(params?.maxPoints);
+        const history = await this.recorder.history(
+          range as HistoryRange,
+          Number.isFinite(maxPoints)
+            ? Math.max(10, Math.min(2000, Math.floor(maxPoints)))
+            : undefined,
+        );
+        return {
+          success: true,
+          history,
+          recorder: await this.recorder.status(),
+        };
+      }
+
+      if (action === 'recorder-status') {
+        return { success: true, recorder: await this.recorder.status() };
+      }
+
+      if (action === 'recorder-start') {
+        const recorder = await this.recorder.start({
+          ...(params?.intervalSeconds !== undefined && {
+            intervalSeconds: Number(params.intervalSeconds),
+          }),
+          ...(params?.retentionDays !== undefined && {
+            retentionDays: Number(params.retentionDays),
+          }),
+        });
+        return { success: true, recorder };
+      }
+
+      if (action === 'recorder-stop') {
+        return { success: true, recorder: await this.recorder.stop() };
+      }
+
       if (action !== 'top-processes') {
         throw new Error(`Unknown action: ${action}`);
       }
@@ -253,6 +532,344 @@ export class SystemMonitorCommand implements ICommand {
     }
   }
 
+  /**
+   * One sample of the metrics history: overall usage and the processes
+   * with the highest CPU usage
+   */
+  private async collectSample(): Promise<MetricsSample> {
+    const [snapshot, network] = await Promise.all([
+      this.execute({ action: 'top-processes', metric: 'cpu', limit: 5 }),
+      this.getNetworkRates(),
+    ]);
+    if (!snapshot.success) {
+      throw new Error(snapshot.error || 'Failed to read system usage');
+    }
+    return {
+      time: Date.now(),
+      cpuPercent: snapshot.resources?.cpuUsedPercent ?? null,
+      memoryUsedMB: snapshot.resources?.memoryUsedMB ?? null,
+      memoryTotalMB: snapshot.resources?.memoryTotalMB ?? null,
+      diskIoMBps: snapshot.diskIoMBps ?? null,
+      networkRxMBps: network?.rxMBps ?? null,
+      networkTxMBps: network?.txMBps ?? null,
+      processes: (snapshot.entries ?? []).map((entry) => ({
+        pid: entry.pid,
+        // Names on Unix can be full paths, only the program name is stored
+        name: entry.name.split(/[\\/]/).pop() || entry.name,
+        cpu: entry.cpu,
+        memoryMB: entry.memoryMB,
+      })),
+    };
+  }
+
+  /**
+   * What the alert rules look at. Open ports are only listed when a port
+   * rule needs them.
+   */
+  private async collectAlertSnapshot(
+    rules: AlertRule[],
+  ): Promise<ResourceSnapshot> {
+    const [snapshot, ports] = await Promise.all([
+      this.execute({ action: 'top-processes', metric: 'cpu', limit: 20 }),
+      // A failed listing must not look like all ports closed
+      rules.some((rule) => rule.type === 'port')
+        ? this.listOpenPorts().catch(() => null)
+        : Promise.resolve(null),
+    ]);
+    if (!snapshot.success) {
+      throw new Error(snapshot.error || 'Failed to read system usage');
+    }
+    const resources = snapshot.resources;
+    return {
+      time: Date.now(),
+      drives: resources?.diskDrives ?? [],
+      memoryUsedPercent:
+        resources?.memoryUsedMB != null && resources.memoryTotalMB
+          ? (resources.memoryUsedMB / resources.memoryTotalMB) * 100
+          : null,
+      processes: (snapshot.entries ?? []).map((entry) => ({
+        pid: entry.pid,
+        name: entry.name.split(/[\\/]/).pop() || entry.name,
+        cpu: entry.cpu,
+      })),
+      ports:
+        ports?.map((port) => ({
+          port: port.localPort,
+          processName: port.processName,
+        })) ?? null,
+    };
+  }
+
+  private parsePid(pid: any): number | null {
+    const numPid = Number(pid);
+    return Number.isFinite(numPid) &&
+      numPid > 0 &&
+      Math.floor(numPid) === numPid
+      ? numPid
+      : null;
+  }
+
+  /**
+   * All running processes with their parent, user, threads and start time
+   */
+  private async listProcesses(): Promise<ProcessInfo[]> {
+    if (process.platform === 'linux') {
+      return ProcessTree.readLinux();
+    }
+    if (process.platform === 'win32') {
+      return this.listProcessesWindows();
+    }
+    return this.listProcessesUnix();
+  }
+
+  private async listProcessesUnix(): Promise<ProcessInfo[]> {
+    // lstart is always five words, e.g. "Mon Jan  5 10:00:00 2026"
+    const { stdout } = await execAsync(
+      'ps -axo pid=,ppid=,%cpu=,rss=,user=,lstart=,comm=,args=',
+      { timeout: 5000, maxBuffer: 10 * 1024 * 1024 },
+    );
+    return stdout
+      .split('\n')
+      .map((line) => {
+        const match = line
+          .trim()
+          .match(
+            /^(\d+)\s+(\d+)\s+([\d.]+)\s+(\d+)\s+(\S+)\s+(\S+\s+\S+\s+\d+\s+[\d:]+\s+\d+)\s+(\S+)\s*(.*)$/,
+          );
+        if (!match) return null;
+        const start = new Date(match[6].replace(/\s+/g, ' '));
+        return {
+          pid: Number(match[1]),
+          ppid: Number(match[2]),
+          name: match[7].split('/').pop() || match[7],
+          command: match[8].trim() || match[7],
+          user: match[5],
+          cpu: Number(match[3]) || 0,
+          memoryMB: Number(match[4]) / 1024,
+          threads: null,
+          startTime: Number.isNaN(start.getTime()) ? null : start.toISOString(),
+        } as ProcessInfo;
+      })
+      .filter((item): item is ProcessInfo => !!item);
+  }
+
+  private async listProcessesWindows(): Promise<ProcessInfo[]> {
+    // Owners are only looked up for the details, GetOwner is slow
+    const query =
+      "Get-CimInstance Win32_Process | Select-Object ProcessId,ParentProcessId,Name,CommandLine,ThreadCount,WorkingSetSize,KernelModeTime,UserModeTime,@{n='Start';e={if($_.CreationDate){$_.CreationDate.ToUniversalTime().ToString('o')}}} | ConvertTo-Json -Depth 3";
+    const raw = await this.runPowerShellJson(query, 15000);
+    const list = Array.isArray(raw) ? raw : [raw];
+    const numCpus = os.cpus().length || 1;
+    const now = Date.now();
+
+    return list
+      .map((item: any) => {
+        const pid = Number(item?.ProcessId);
+        if (!Number.isFinite(pid)) return null;
+        const name = String(item?.Name || 'unknown');
+        const start = item?.Start ? new Date(item.Start) : null;
+        const validStart =
+          start && !Number.isNaN(start.getTime()) ? start : null;
+        // Kernel and user time are counted in 100 ns units
+        const cpuSeconds =
+          (Number(item?.KernelModeTime || 0) +
+            Number(item?.UserModeTime || 0)) /
+          1e7;
+        const runningSeconds = validStart
+          ? (now - validStart.getTime()) / 1000
+          : 0;
+        return {
+          pid,
+          ppid: Number(item?.ParentProcessId || 0),
+          name,
+          command: String(item?.CommandLine || '').trim() || name,
+          user: null,
+          cpu:
+            runningSeconds > 0
+              ? Math.max(0, (cpuSeconds / runningSeconds / numCpus) * 100)
+              : 0,
+          memoryMB: Number(item?.WorkingSetSize || 0) / (1024 * 1024),
+          threads: Number(item?.ThreadCount) || null,
+          startTime: validStart ? validStart.toISOString() : null,
+        } as ProcessInfo;
+      })
+      .filter((item: ProcessInfo | null): item is ProcessInfo => !!item);
+  }
+
+  /**
+   * Everything known about one process: its parents, working directory,
+   * environment, open files and listening ports
+   */
+  private async getProcessDetails(pid: any): Promise<MonitorResponse> {
+    const numPid = this.parsePid(pid);
+    if (numPid === null) {
+      return { success: false, error: 'Invalid PID' };
+    }
+
+    const [processes, allPorts] = await Promise.all([
+      this.listProcesses(),
+      this.getOpenPorts(),
+    ]);
+    const proc = processes.find((p) => p.pid === numPid);
+    if (!proc) {
+      return { success: false, error: `Process ${numPid} not found` };
+    }
+
+    const byPid = new Map(processes.map((p) => [p.pid, p]));
+    const parents: ProcessInfo[] = [];
+    for (
+      let parent = byPid.get(proc.ppid);
+      parent && parent.pid !== proc.pid && !parents.includes(parent);
+      parent = byPid.get(parent.ppid)
+    ) {
+      parents.push(parent);
+    }
+
+    let files: Pick<ProcessDetails, 'cwd' | 'environment' | 'openFiles'> = {
+      cwd: null,
+      environment: null,
+      openFiles: null,
+    };
+    if (process.platform === 'linux') {
+      files = await ProcessTree.readLinuxDetails(numPid);
+    } else if (process.platform === 'win32') {
+      proc.user = await this.getProcessOwnerWindows(numPid);
+    } else {
+      files = { ...(await this.getOpenFilesUnix(numPid)), environment: null };
+    }
+
+    return {
+      success: true,
+      updatedAt: new Date().toISOString(),
+      processDetails: {
+        process: proc,
+        parents,
+        children: ProcessTree.subtree(processes, numPid).length - 1,
+        ...files,
+        ports: allPorts.filter((port) => port.pid === numPid),
+      },
+    };
+  }
+
+  /**
+   * Working directory and open files via lsof, with the same flags as the
+   * file handle search
+   */
+  private async getOpenFilesUnix(
+    pid: number,
+  ): Promise<{ cwd: string | null; openFiles: string[] | null }> {
+    try {
+      const { stdout } = await execAsync(
+        `lsof -n -l -P -a -p ${pid} -Ffn 2>/dev/null`,
+        { timeout: 15000, maxBuffer: 4 * 1024 * 1024, killSignal: 'SIGKILL' },
+      );
+      let cwd: string | null = null;
+      const openFiles = new Set<string>();
+      let fd = '';
+      for (const line of stdout.split('\n')) {
+        if (line.startsWith('f')) {
+          fd = line.slice(1);
+        } else if (line.startsWith('n/')) {
+          // txt and mem are the program and its libraries
+          if (fd === 'cwd') cwd = line.slice(1);
+          else if (fd !== 'txt' && fd !== 'mem' && fd !== 'rtd') {
+            openFiles.add(line.slice(1));
+          }
+        }
+      }
+      return { cwd, openFiles: [...openFiles].sort() };
+    } catch {
+      return { cwd: null, openFiles: null };
+    }
+  }
+
+  private async getProcessOwnerWindows(pid: number): Promise<string | null> {
+    try {
+      const script = `$o = Get-CimInstance Win32_Process -Filter "ProcessId=${pid}" | Invoke-CimMethod -MethodName GetOwner; @{ domain=$o.Domain; user=$o.User } | ConvertTo-Json -Compress`;
+      const owner = await this.runPowerShellJson(script, 10000);
+      if (!owner?.user) return null;
+      return owner.domain ? `${owner.domain}\\${owner.user}` : owner.user;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Send a signal to a process, or to the process and all its descendants.
+   * On Windows SIGTERM asks the process to close and SIGKILL ends it.
+   */
+  private async signalProcess(
+    pid: any,
+    signal: string,
+    tree: boolean,
+  ): Promise<MonitorResponse> {
+    const numPid = this.parsePid(pid);
+    if (numPid === null || numPid === 1) {
+      return { success: false, error: 'Invalid PID' };
+    }
+    if (!PROCESS_SIGNALS.includes(signal as ProcessSignal)) {
+      return { success: false, error: `Unknown signal: ${signal}` };
+    }
+
+    const pids = tree
+      ? ProcessTree.subtree(await this.listProcesses(), numPid)
+      : [numPid];
+    const signalled: number[] = [];
+    const signalErrors: SignalError[] = [];
+
+    if (process.platform === 'win32') {
+      if (signal === 'SIGSTOP' || signal === 'SIGCONT') {
+        return {
+          success: false,
+          error: 'Pausing processes is not supported on Windows',
+        };
+      }
+      try {
+        await execAsync(
+          `"${SYS32}\\taskkill.exe" /PID ${numPid}${tree ? ' /T' : ''}${signal === 'SIGKILL' ? ' /F' : ''}`,
+          { timeout: 10000 },
+        );
+        signalled.push(...pids);
+      } catch (error: any) {
+        signalErrors.push({
+          pid: numPid,
+          error: (error.stderr || error.message || '').trim(),
+        });
+      }
+    } else {
+      for (const target of pids) {
+        // Never signal the app itself when it is part of the tree
+        if (target === process.pid) {
+          signalErrors.push({ pid: target, error: 'Skipped, this is the app' });
+          continue;
+        }
+        try {
+          process.kill(target, signal);
+          signalled.push(target);
+        } catch (error: any) {
+          signalErrors.push({
+            pid: target,
+            error:
+              error.code === 'ESRCH'
+                ? 'Process not found'
+                : error.code === 'EPERM'
+                  ? 'Permission denied'
+                  : error.message,
+          });
+        }
+      }
+    }
+
+    return {
+      success: signalled.length > 0,
+      ...(signalled.length === 0 && {
+        error: signalErrors[0]?.error || 'No process signalled',
+      }),
+      signalled,
+      signalErrors,
+    };
+  }
+
   private async killProcess(pid: any): Promise<MonitorResponse> {
     const numPid = Number(pid);
     if (
@@ -420,6 +1037,7 @@ export class SystemMonitorCommand implements ICommand {
     freeGB: number | null;
     usedGB: number | null;
     totalGB: number | null;
+    drives?: DiskDriveInfo[];
   }> {
     const { stdout } = await execAsync('df -kP', {
       timeout: 7000,
@@ -437,6 +1055,7 @@ export class SystemMonitorCommand implements ICommand {
 
     let totalKB = 0;
     let availKB = 0;
+    const drives: DiskDriveInfo[] = [];
     for (const line of lines.slice(1)) {
       const parts = line.split(/\s+/);
       if (parts.length < 6) {
@@ -458,6 +1077,12 @@ export class SystemMonitorCommand implements ICommand {
       if (Number.isFinite(availableKB)) {
         availKB += Math.max(0, availableKB);
       }
+      // Mount point, can contain spaces
+      drives.push({
+        drive: parts.slice(5).join(' '),
+        freeGB: this.kilobytesToGB(Math.max(0, availableKB || 0)),
+        totalGB: this.kilobytesToGB(blocksKB),
+      });
     }
 
     if (totalKB <= 0) {
@@ -469,6 +1094,7 @@ export class SystemMonitorCommand implements ICommand {
       freeGB: this.kilobytesToGB(availKB),
       usedGB: this.kilobytesToGB(usedKB),
       totalGB: this.kilobytesToGB(totalKB),
+      drives,
     };
   }
 
@@ -1162,18 +1788,22 @@ if($output.Count -eq 0){'[]'}elseif($output.Count -eq 1){'['+($output[0]|Convert
 
   private async getOpenPorts(): Promise<OpenPort[]> {
     try {
-      if (process.platform === 'win32') {
-        return await this.getOpenPortsWindows();
-      } else if (process.platform === 'darwin') {
-        return await this.getOpenPortsMac();
-      } else {
-        return await this.getOpenPortsLinux();
-      }
+      return await this.listOpenPorts();
     } catch {
       return [];
     }
   }
 
+  private async listOpenPorts(): Promise<OpenPort[]> {
+    if (process.platform === 'win32') {
+      return this.getOpenPortsWindows();
+    } else if (process.platform === 'darwin') {
+      return this.getOpenPortsMac();
+    } else {
+      return this.getOpenPortsLinux();
+    }
+  }
+
   private async getOpenPortsWindows(): Promise<OpenPort[]> {
     // Get listening TCP ports via netstat
     const { stdout: netstatOut } = await execAsync(
@@ -1217,26 +1847,10 @@ if($output.Count -eq 0){'[]'}elseif($output.Count -eq 1){'['+($output[0]|Convert
     }
 
     // Resolve PIDs to process names via tasklist
-    const uniquePids = [...new Set(portEntries.map((e) => e.pid))];
-    const pidNameMap = new Map<number, string>();
-
-    if (uniquePids.length > 0) {
-      try {
-        const { stdout: tasklistOut } = await execAsync(
-          `"${SYS32}\\tasklist.exe" /FO CSV /NH`,
-          { encoding: 'utf8', timeout: 10000 },
-        );
-        for (const tLine of tasklistOut.trim().split('\n')) {
-          // Format: "name.exe","pid","Session","SessionNum","Mem"
-          const match = tLine.match(/^"([^"]+)","(\d+)"/);
-          if (match) {
-            pidNameMap.set(parseInt(match[2], 10), match[1]);
-          }
-        }
-      } catch {
-        // Fallback: no process names
-      }
-    }
+    const pidNameMap =
+      portEntries.length > 0
+        ? await this.getProcessNamesWindows()
+        : new Map<number, string>();
 
     return portEntries
       .map((e) => ({
@@ -1249,6 +1863,26 @@ if($output.Count -eq 0){'[]'}elseif($output.Count -eq 1){'['+($output[0]|Convert
       .sort((a, b) => a.localPort - b.localPort);
   }
 
+  private async getProcessNamesWindows(): Promise<Map<number, string>> {
+    const pidNameMap = new Map<number, string>();
+    try {
+      const { stdout: tasklistOut } = await execAsync(
+        `"${SYS32}\\tasklist.exe" /FO CSV /NH`,
+        { encoding: 'utf8', timeout: 10000 },
+      );
+      for (const tLine of tasklistOut.trim().split('\n')) {
+        // Format: "name.exe","pid","Session","SessionNum","Mem"
+        const match = tLine.match(/^"([^"]+)","(\d+)"/);
+        if (match) {
+          pidNameMap.set(parseInt(match[2], 10), match[1]);
+        }
+      }
+    } catch {
+      // Fallback: no process names
+    }
+    return pidNameMap;
+  }
+
   private async getOpenPortsMac(): Promise<OpenPort[]> {
     const { stdout } = await execAsync('lsof -iTCP -sTCP:LISTEN -P -n -F pcn', {
       encoding: 'utf8',
@@ -1333,4 +1967,103 @@ if($output.Count -eq 0){'[]'}elseif($output.Count -eq 1){'['+($output[0]|Convert
 
     return ports.sort((a, b) => a.localPort - b.localPort);
   }
+
+  /**
+   * Receive and transmit rates per interface, measured over one second.
+   * null when the counters are not readable on this system.
+   */
+  private async getNetworkRates(): Promise<NetworkRates | null> {
+    try {
+      if (process.platform === 'win32') {
+        return await this.getNetworkRatesWindows();
+      }
+      const first = await this.readInterfaceCounters();
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const second = await this.readInterfaceCounters();
+      return first.length > 0 ? NetworkStats.rates(first, second, 1) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async readInterfaceCounters(): Promise<InterfaceCounters[]> {
+    if (process.platform === 'linux') {
+      return NetworkStats.parseProcNetDev(
+        await readFile('/proc/net/dev', 'utf8'),
+      );
+    }
+    const { stdout } = await execAsync('netstat -ibn', {
+      encoding: 'utf8',
+      timeout: 5000,
+      maxBuffer: 1024 * 1024,
+    });
+    return NetworkStats.parseNetstatInterfaces(stdout);
+  }
+
+  private async getNetworkRatesWindows(): Promise<NetworkRates | null> {
+    // Both snapshots in one PowerShell run, starting it takes longer than
+    // the measurement
+    const script = `
+$ErrorActionPreference = 'SilentlyContinue'
+$first = Get-NetAdapterStatistics | Select-Object Name, ReceivedBytes, SentBytes
+Start-Sleep -Seconds 1
+$second = Get-NetAdapterStatistics | Select-Object Name, ReceivedBytes, SentBytes
+@{ first = @($first); second = @($second) } | ConvertTo-Json -Compress -Depth 3
+`;
+    const data = await this.runPowerShellJson(script, 15000);
+    const counters = (list: any): InterfaceCounters[] =>
+      (Array.isArray(list) ? list : list ? [list] : []).map((a: any) => ({
+        name: String(a.Name),
+        rxBytes: Number(a.ReceivedBytes) || 0,
+        txBytes: Number(a.SentBytes) || 0,
+      }));
+    const first = counters(data?.first);
+    return first.length > 0
+      ? NetworkStats.rates(first, counters(data?.second), 1)
+      : null;
+  }
+
+  /**
+   * TCP connections that are not listening, with the owning process
+   */
+  private async getConnections(): Promise<NetworkConnection[]> {
+    let connections: NetworkConnection[];
+    try {
+      if (process.platform === 'win32') {
+        const [{ stdout }, names] = await Promise.all([
+          execAsync(`"${SYS32}\\netstat.exe" -ano`, {
+            encoding: 'utf8',
+            timeout: 10000,
+            maxBuffer: 10 * 1024 * 1024,
+          }),
+          this.getProcessNamesWindows(),
+        ]);
+        connections = NetworkStats.parseNetstatConnections(stdout, names);
+      } else if (process.platform === 'darwin') {
+        const { stdout } = await execAsync(
+          'lsof -iTCP -sTCP:^LISTEN -P -n -F pcnT',
+          { encoding: 'utf8', timeout: 10000, maxBuffer: 10 * 1024 * 1024 },
+        );
+        connections = NetworkStats.parseLsofConnections(stdout);
+      } else {
+        const { stdout } = await execAsync('ss -tanp', {
+          encoding: 'utf8',
+          timeout: 10000,
+          maxBuffer: 10 * 1024 * 1024,
+        });
+        connections = NetworkStats.parseSsConnections(stdout);
+      }
+    } catch {
+      return [];
+    }
+
+    return connections
+      .sort(
+        (a, b) =>
+          a.processName.localeCompare(b.processName) ||
+          a.remoteAddress.localeCompare(b.remoteAddress) ||
+          a.remotePort - b.remotePort,
+      )
+      .slice(0, MAX_CONNECTIONS);
+  }
 }
@@ -0,0 +1,172 @@
+/**
+ * Transaction Categories
+ * User defined rules that assign a category (rent, insurance, groceries,
+ * ...) to bank transactions by counterparty, IBAN, reference or amount,
+ * and the monthly budget per category. Both are kept in ~/n2htoolbox/.
+ */
+
+import { Transaction } from './bank-transaction.js';
+import { ConfigCommand } from './config-command.js';
+
+export type CategoryRuleField =
+  | 'any'
+  | 'name'
+  | 'counterpartyAccount'
+  | 'reference';
+
+export const CATEGORY_RULE_FIELDS: CategoryRuleField[] = [
+  'any',
+  'name',
+  'counterpartyAccount',
+  'reference',
+];
+
+export interface CategoryRule {
+  id: string;
+  enabled: boolean;
+  category: string;
+  field: CategoryRuleField;
+  pattern: string; // Case-insensitive text, a regular expression if regex is set
+  regex: boolean;
+  amountMin: number | null; // Signed, debits are negative
+  amountMax: number | null;
+}
+
+export interface CategorySettings {
+  rules: CategoryRule[]; // The first matching rule wins
+  budgets: Record<string, number>; // Monthly spending target per category
+}
+
+const SETTINGS_FILE = 'moneyfinder-categories.json';
+
+export class TransactionCategorizer {
+  /**
+   * Category of the first enabled rule that matches, '' if none does
+   */
+  static categorize(txn: Transaction, rules: CategoryRule[]): string {
+    for (const rule of rules) {
+      if (rule.enabled && TransactionCategorizer.matches(txn, rule)) {
+        return rule.category;
+      }
+    }
+    return '';
+  }
+
+  static matches(txn: Transaction, rule: CategoryRule): boolean {
+    if (rule.amountMin !== null && txn.amount < rule.amountMin) return false;
+    if (rule.amountMax !== null && txn.amount > rule.amountMax) return false;
+    if (!rule.pattern) {
+      // Amount only rules need at least one bound
+      return rule.amountMin !== null || rule.amountMax !== null;
+    }
+
+    const text =
+      rule.field === 'any'
+        ? [
+            txn.counterpartyName,
+            txn.counterpartyAccount,
+            txn.reference,
+            txn.type,
+          ].join(' ')
+        : rule.field === 'name'
+          ? txn.counterpartyName
+          : rule.field === 'counterpartyAccount'
+            ? txn.counterpartyAccount
+            : txn.reference;
+    if (!text) return false;
+
+    if (rule.regex) {
+      try {
+        return new RegExp(rule.pattern, 'i').test(text);
+      } catch {
+        return false;
+      }
+    }
+    // IBANs are written with and without spaces
+    const normalize = (value: string) =>
+      rule.field === 'counterpartyAccount'
+        ? value.replace(/\s+/g, '').toLowerCase()
+        : value.toLowerCase();
+    return normalize(text).includes(normalize(rule.pattern));
+  }
+}
+
+export class CategoryStore {
+  private settings: CategorySettings | null = null;
+
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  async load(): Promise<CategorySettings> {
+    if (this.settings) return this.settings;
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: SETTINGS_FILE,
+    });
+    this.settings = CategoryStore.normalize(
+      result.success && typeof result.data === 'object' ? result.data : {},
+    );
+    return this.settings;
+  }
+
+  /**
+   * Replace the rules and/or the budgets
+   */
+  async save(changes: Partial<CategorySettings>): Promise<CategorySettings> {
+    const settings = CategoryStore.normalize({
+      ...(await this.load()),
+      ...changes,
+    });
+    const result = await this.config.execute({
+      operation: 'write',
+      filename: SETTINGS_FILE,
+      data: settings,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save categories');
+    }
+    this.settings = settings;
+    return settings;
+  }
+
+  private static normalize(
+    settings: Partial<CategorySettings>,
+  ): CategorySettings {
+    const amount = (value: any) =>
+      value === null || value === undefined || value === '' || !isFinite(value)
+        ? null
+        : Number(value);
+    let counter = 0;
+    const rules = (Array.isArray(settings.rules) ? settings.rules : [])
+      .filter(
+        (rule: any) =>
+          typeof rule?.category === 'string' && rule.category.trim(),
+      )
+      .map(
+        (rule: any): CategoryRule => ({
+          id:
+            typeof rule.id === 'string' && rule.id
+              ? rule.id
+              : `category-rule-${Date.now()}-${++counter}`,
+          enabled: rule.enabled !== false,
+          category: rule.category.trim(),
+          field: CATEGORY_RULE_FIELDS.includes(rule.field) ? rule.field : 'any',
+          pattern: typeof rule.pattern === 'string' ? rule.pattern.trim() : '',
+          regex: rule.regex === true,
+          amountMin: amount(rule.amountMin),
+          amountMax: amount(rule.amountMax),
+        }),
+      );
+
+    const budgets: Record<string, number> = {};
+    const source =
+      settings.budgets && typeof settings.budgets === 'object'
+        ? settings.budgets
+        : {};
+    for (const [category, value] of Object.entries(source)) {
+      if (category.trim() && isFinite(value) && Number(value) > 0) {
+        budgets[category.trim()] = Number(value);
+      }
+    }
+    return { rules, budgets };
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Transaction Export
+ * Writes the (filtered) MoneyFinder table as CSV, as XLSX workbook with one
+ * sheet per year or as printable PDF report with the filter criteria, the
+ * total and the sums per year.
+ */
+
+import AdmZip from 'adm-zip';
+import * as fs from 'fs';
+import PDFDocument from 'pdfkit';
+
+// How numbers and dates are written: German (1234,56 and 31.01.2024),
+// English (1234.56 and 01/31/2024) or ISO (1234.56 and 2024-01-31)
+export type ExportLocale = 'de' | 'en' | 'iso';
+
+export const EXPORT_LOCALES: ExportLocale[] = ['de', 'en', 'iso'];
+
+export interface ExportTable {
+  headers: string[]; // Rows have the date in the "date" and the amount in the "amount" column
+  rows: any[][];
+}
+
+export interface ExportOptions {
+  delimiter: string;
+  locale: ExportLocale;
+  title: string;
+  filters: Record<string, string>; // Filter criteria shown in the PDF report
+}
+
+export interface ExportSums {
+  sum: number;
+  yearSums: Record<string, number>;
+}
+
+// Spreadsheets run text starting with these as a formula (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS =
+  'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Cell styles of XLSX_STYLES
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_AMOUNT = 3;
+const STYLE_TOTAL = 4;
+
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${SHEET_NS}">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// Columns of the PDF transaction list with their share of the page width
+const PDF_COLUMNS: Array<{ header: string; width: number }> = [
+  { header: 'date', width: 0.09 },
+  { header: 'amount', width: 0.1 },
+  { header: 'account', width: 0.16 },
+  { header: 'name', width: 0.2 },
+  { header: 'reference', width: 0.33 },
+  { header: 'category', width: 0.12 },
+];
+
+export class TransactionExport {
+  /**
+   * The total and the sums per year of the table
+   */
+  static sums(table: ExportTable): ExportSums {
+    const dateColumn = table.headers.indexOf('date');
+    const amountColumn = table.headers.indexOf('amount');
+    let sum = 0;
+    const yearSums: Record<string, number> = {};
+    for (const row of table.rows) {
+      const amount = Number(row[amountColumn]) || 0;
+      const year = String(row[dateColumn]).split('.')[2] || '';
+      sum += amount;
+      yearSums[year] = (yearSums[year] || 0) + amount;
+    }
+    return { sum, yearSums };
+  }
+
+  static csv(table: ExportTable, options: ExportOptions): string {
+    const dateColumn = table.headers.indexOf('date');
+    const amountColumn = table.headers.indexOf('amount');
+    const quote = (value: string) =>
+      value.includes(options.delimiter) || /["\r\n]/.test(value)
+        ? `"${value.replace(/"/g, '""')}"`
+        : value;
+
+    const lines = [table.headers.map(quote).join(options.delimiter)];
+    for (const row of table.rows) {
+      const cells = row.map((cell, index) => {
+        if (index === dateColumn) {
+          return TransactionExport.formatDate(String(cell), options.locale);
+        }
+        if (index === amountColumn) {
+          return TransactionExport.formatAmount(Number(cell), options.locale);
+        }
+        if (typeof cell === 'string' && FORMULA_PREFIX.test(cell)) {
+          return `'${cell}`;
+        }
+        return cell === null || cell === undefined ? '' : String(cell);
+      });
+      lines.push(cells.map(quote).join(options.delimiter));
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * An XLSX workbook with one sheet per year, dates and amounts as numbers
+   * and the sum below the rows
+   */
+  static xlsx(table: ExportTable): Buffer {
+    const dateColumn = table.headers.indexOf('date');
+    const years = new Map<string, any[][]>();
+    for (const row of table.rows) {
+      const year = String(row[dateColumn]).split('.')[2] || 'Other';
+      if (!years.has(year)) years.set(year, []);
+      years.get(year)!.push(row);
+    }
+    if (years.size === 0) years.set('Transactions', []);
+    const sheets = [...years.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+    const zip = new AdmZip();
+    const add = (name: string, xml: string) =>
+      zip.addFile(name, Buffer.from(xml, 'utf-8'));
+    const overrides = sheets
+      .map(
+        (_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+      )
+      .join('');
+    add(
+      '[Content_Types].xml',
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${overrides}</Types>`,
+    );
+    add(
+      '_rels/.rels',
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    );
+    add(
+      'xl/workbook.xml',
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheets>${sheets
+        .map(
+          ([name], i) =>
+            `<sheet name="${TransactionExport.xml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+        )
+        .join('')}</sheets></workbook>`,
+    );
+    add(
+      'xl/_rels/workbook.xml.rels',
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PACKAGE_REL_NS}">${sheets
+        .map(
+          (_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+        )
+        .join(
+          '',
+        )}<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`,
+    );
+    add('xl/styles.xml', XLSX_STYLES);
+    sheets.forEach(([, rows], i) =>
+      add(
+        `xl/worksheets/sheet${i + 1}.xml`,
+        TransactionExport.sheet(table.headers, rows),
+      ),
+    );
+    return zip.toBuffer();
+  }
+
+  /**
+   * Write a printable report: title, filter criteria, totals, sums per year
+   * and the transactions
+   */
+  static pdf(
+    table: ExportTable,
+    options: ExportOptions,
+    outputPath: string,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        layout: 'landscape',
+        margin: 40,
+      });
+      const stream = fs.createWriteStream(outputPath);
+      stream.on('finish', () => resolve());
+      stream.on('error', (error) =>
+        reject(new Error(`Failed to write PDF: ${error.message}`)),
+      );
+      doc.pipe(stream);
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - left - doc.page.margins.right;
+      const money = (value: number) =>
+        new Intl.NumberFormat(options.locale === 'de' ? 'de-DE' : 'en-US', {
+          style: 'currency',
+          currency: 'EUR',
+        }).format(value);
+      const { sum, yearSums } = TransactionExport.sums(table);
+
+      doc.font('Helvetica-Bold').fontSize(16).text(options.title);
+      doc
+        .font('Helvetica')
+        .fontSize(9)
+        .fillColor('#64748b')
+        .text(`Created ${new Date().toLocaleString()}`)
+        .fillColor('black')
+        .moveDown();
+
+      doc.font('Helvetica-Bold').fontSize(11).text('Filter');
+      doc.font('Helvetica').fontSize(10);
+      const filters = Object.entries(options.filters).filter(([, v]) => v);
+      if (filters.length === 0) doc.text('All transactions');
+      for (const [label, value] of filters) doc.text(`${label}: ${value}`);
+      doc.moveDown();
+
+      doc.font('Helvetica-Bold').fontSize(11).text('Totals');
+      doc
+        .font('Helvetica')
+        .fontSize(10)
+        .text(`Transactions: ${table.rows.length}`)
+        .text(`Sum: ${money(sum)}`);
+      for (const year of Object.keys(yearSums).sort()) {
+        doc.text(`${year || 'Without date'}: ${money(yearSums[year])}`);
+      }
+      doc.moveDown();
+
+      // Transactions, the header is repeated on every page
+      const columns = PDF_COLUMNS.map((column) => ({
+        ...column,
+        index: table.headers.indexOf(column.header),
+        width: column.width * width,
+      })).filter((column) => column.index !== -1);
+      const rowHeight = 14;
+      const bottom = doc.page.height - doc.page.margins.bottom;
+      const drawRow = (cells: string[], bold: boolean) => {
+        const y = doc.y;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+        let x = left;
+        columns.forEach((column, i) => {
+          const text = TransactionExport.fit(doc, cells[i], column.width - 6);
+          doc.text(text, x, y, {
+            width: column.width - 6,
+            align: column.header === 'amount' ? 'right' : 'left',
+            lineBreak: false,
+          });
+          x += column.width;
+        });
+        doc.x = left;
+        doc.y = y + rowHeight;
+      };
+      const drawHeader = () => {
+        if (doc.y + 2 * rowHeight > bottom) doc.addPage();
+        drawRow(
+          columns.map((column) => column.header),
+          true,
+        );
+        doc
+          .moveTo(left, doc.y - 3)
+          .lineTo(left + width, doc.y - 3)
+          .stroke('#94a3b8');
+      };
+
+      doc.font('Helvetica-Bold').fontSize(11).text('Transactions');
+      doc.moveDown(0.5);
+      drawHeader();
+      for (const row of table.rows) {
+        if (doc.y + rowHeight > bottom) {
+          doc.addPage();
+          drawHeader();
+        }
+        drawRow(
+          columns.map((column) =>
+            column.header === 'amount'
+              ? money(Number(row[column.index]))
+              : String(row[column.index] ?? ''),
+          ),
+          false,
+        );
+      }
+
+      doc.end();
+    });
+  }
+
+  static formatDate(date: string, locale: ExportLocale): string {
+    const [day, month, year] = date.split('.');
+    if (!year) return date;
+    if (locale === 'en') return `${month}/${day}/${year}`;
+    if (locale === 'iso') return `${year}-${month}-${day}`;
+    return date;
+  }
+
+  static formatAmount(amount: number, locale: ExportLocale): string {
+    if (!isFinite(amount)) return '';
+    const text = amount.toFixed(2);
+    return locale === 'de' ? text.replace('.', ',') : text;
+  }
+
+  private static sheet(headers: string[], rows: any[][]): string {
+    const dateColumn = headers.indexOf('date');
+    const amountColumn = headers.indexOf('amount');
+    const text = (ref: string, value: string, style = 0) =>
+      `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${TransactionExport.xml(value)}</t></is></c>`;
+    const number = (ref: string, value: number, style: number) =>
+      `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+
+    const column = (index: number) => TransactionExport.column(index);
+    const lines = [
+      `<row r="1">${headers.map((h, i) => text(`${column(i)}1`, h, STYLE_HEADER)).join('')}</row>`,
+    ];
+    let sum = 0;
+    rows.forEach((row, r) => {
+      const rowNumber = r + 2;
+      const cells = row.map((value, i) => {
+        const ref = `${column(i)}${rowNumber}`;
+        if (i === amountColumn && isFinite(Number(value))) {
+          sum += Number(value);
+          return number(ref, Number(value), STYLE_AMOUNT);
+        }
+        const serial =
+          i === dateColumn ? TransactionExport.excelDate(String(value)) : null;
+        if (serial !== null) return number(ref, serial, STYLE_DATE);
+        return value === null || value === undefined || value === ''
+          ? ''
+          : text(ref, String(value));
+      });
+      lines.push(`<row r="${rowNumber}">${cells.join('')}</row>`);
+    });
+
+    if (amountColumn !== -1 && rows.length > 0) {
+      const totalRow = rows.length + 2;
+      const amount = column(amountColumn);
+      lines.push(
+        `<row r="${totalRow}">${amountColumn > 0 ? text(`A${totalRow}`, 'Sum', STYLE_HEADER) : ''}<c r="${amount}${totalRow}" s="${STYLE_TOTAL}"><f>SUM(${amount}2:${amount}${totalRow - 1})</f><v>${Math.round(sum * 100) / 100}</v></c></row>`,
+      );
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${SHEET_NS}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${lines.join('')}</sheetData></worksheet>`;
+  }
+
+  /**
+   * Column name (A, B, ..., Z, AA, ...) of a zero based column index
+   */
+  private static column(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+
+  /**
+   * Days since 30.12.1899 of a DD.MM.YYYY date, null if it is none
+   */
+  private static excelDate(date: string): number | null {
+    const match = date.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+    if (!match) return null;
+    const [, day, month, year] = match.map(Number);
+    return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86400000;
+  }
+
+  private static xml(value: string): string {
+    return value
+      .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Shorten a text with "…" to fit into a table column
+   */
+  private static fit(
+    doc: PDFKit.PDFDocument,
+    text: string,
+    width: number,
+  ): string {
+    if (doc.widthOfString(text) <= width) return text;
+    let fitted = text;
+    while (fitted && doc.widthOfString(fitted + '…') > width) {
+      fitted = fitted.slice(0, -1);
+    }
+    return fitted + '…';
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Transaction Ledger
+ * The transactions of many imported statement files in one list, kept in
+ * ~/n2htoolbox/. Statements with overlapping periods are deduplicated by
+ * date, amount, counterparty and reference; every entry remembers all
+ * files that list it and stays until the last of them is removed.
+ */
+
+import { Transaction } from './bank-transaction.js';
+import { ConfigCommand } from './config-command.js';
+
+export interface LedgerEntry extends Transaction {
+  sources: string[]; // Paths of the imported files listing the booking
+}
+
+export interface LedgerSource {
+  path: string;
+  format: string;
+  importedAt: string;
+  transactions: number; // Transactions in the file
+  added: number; // Transactions not already in the ledger
+}
+
+export interface LedgerData {
+  entries: LedgerEntry[]; // Sorted by date
+  sources: LedgerSource[];
+}
+
+export interface LedgerImport {
+  added: number;
+  duplicates: number;
+}
+
+const LEDGER_FILE = 'moneyfinder-ledger.json';
+
+export class TransactionLedger {
+  private data: LedgerData | null = null;
+
+  constructor(private config: ConfigCommand = new ConfigCommand()) {}
+
+  /**
+   * What makes two transactions the same booking, independent of the
+   * statement file they are listed in
+   */
+  static key(txn: Transaction): string {
+    const text = (value: string | undefined) =>
+      (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+    return [
+      txn.date,
+      Number(txn.amount).toFixed(2),
+      text(txn.counterpartyName),
+      (txn.counterpartyAccount || '').replace(/\s+/g, '').toUpperCase(),
+      text(txn.reference),
+    ].join('|');
+  }
+
+  async load(): Promise<LedgerData> {
+    if (this.data) return this.data;
+    const result = await this.config.execute({
+      operation: 'read',
+      filename: LEDGER_FILE,
+    });
+    const data = result.success && result.data ? result.data : {};
+    this.data = {
+      entries: Array.isArray(data.entries) ? data.entries : [],
+      sources: Array.isArray(data.sources) ? data.sources : [],
+    };
+    return this.data;
+  }
+
+  /**
+   * Add the transactions of a statement file. Importing a file again
+   * replaces its entries. A transaction is a duplicate as often as the
+   * other files already have it, so identical bookings within one file
+   * (two coffees on the same day) are all kept. A duplicate adds the file
+   * to the sources of the entry it matches.
+   */
+  async add(
+    filePath: string,
+    format: string,
+    transactions: Transaction[],
+  ): Promise<LedgerImport> {
+    const data = await this.load();
+    const entries = TransactionLedger.withoutSource(data.entries, filePath);
+
+    const known = new Map<string, LedgerEntry[]>();
+    for (const entry of entries) {
+      const key = TransactionLedger.key(entry);
+      known.set(key, [...(known.get(key) || []), entry]);
+    }
+
+    let duplicates = 0;
+    const added: LedgerEntry[] = [];
+    for (const txn of transactions) {
+      const match = known.get(TransactionLedger.key(txn))?.shift();
+      if (match) {
+        match.sources.push(filePath);
+        duplicates++;
+      } else {
+        added.push({ ...txn, sources: [filePath] });
+      }
+    }
+
+    await this.write({
+      entries: [...entries, ...added],
+      sources: [
+        ...data.sources.filter((source) => source.path !== filePath),
+        {
+          path: filePath,
+          format,
+          importedAt: new Date().toISOString(),
+          transactions: transactions.length,
+          added: added.length,
+        },
+      ],
+    });
+    return { added: added.length, duplicates };
+  }
+
+  /**
+   * Remove a file and the entries no other file lists
+   */
+  async removeSource(filePath: string): Promise<LedgerData> {
+    const data = await this.load();
+    return this.write({
+      entries: TransactionLedger.withoutSource(data.entries, filePath),
+      sources: data.sources.filter((source) => source.path !== filePath),
+    });
+  }
+
+  async clear(): Promise<LedgerData> {
+    return this.write({ entries: [], sources: [] });
+  }
+
+  /**
+   * The entries without a file among their sources, copied so the loaded
+   * ledger stays unchanged until it is written
+   */
+  private static withoutSource(
+    entries: LedgerEntry[],
+    filePath: string,
+  ): LedgerEntry[] {
+    return entries
+      .map((entry) => ({
+        ...entry,
+        sources: entry.sources.filter((source) => source !== filePath),
+      }))
+      .filter((entry) => entry.sources.length > 0);
+  }
+
+  private async write(data: LedgerData): Promise<LedgerData> {
+    // DD.MM.YYYY sorted as YYYYMMDD, the sort keeps the file order per day
+    const sortKey = (date: string) => date.split('.').reverse().join('');
+    const sorted: LedgerData = {
+      entries: [...data.entries].sort((a, b) =>
+        sortKey(a.date).localeCompare(sortKey(b.date)),
+      ),
+      sources: [...data.sources].sort((a, b) => a.path.localeCompare(b.path)),
+    };
+    const result = await this.config.execute({
+      operation: 'write',
+      filename: LEDGER_FILE,
+      data: sorted,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save the ledger');
+    }
+    this.data = sorted;
+    return sorted;
+  }
+}
@@ -0,0 +1,504 @@
+/**
+ * Archive provider for the virtual file system
+ * Paths look like "D:\archive.zip/folder/file.txt" or
+ * "/backups/etc.tar.gz/etc/hosts". Nested archives ("outer.zip/inner.tgz/x")
+ * are opened in memory; changes to writable formats (ZIP) are written back
+ * into their parents. TAR and 7z archives can be browsed and read.
+ */
+
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { SevenZipFormat } from './archive-7z-format.js';
+import {
+  Archive,
+  ArchiveEntry,
+  ArchiveFormat,
+  normalizeEntryPath,
+} from './archive-format.js';
+import { TarFormat } from './archive-tar-format.js';
+import { ZipFormat } from './archive-zip-format.js';
+import { VfsEntry, VfsProvider } from './vfs-provider.js';
+
+export interface ArchivePath {
+  /** The outermost archive file on disk */
+  archiveFile: string;
+  /** Path inside the archive with forward slashes */
+  internalPath: string;
+}
+
+interface OpenedArchive {
+  archiveFile: string;
+  /** Outer archive first, innermost last */
+  chain: Archive[];
+  /** Entry names of the nested archives inside their parents */
+  nested: string[];
+  internalPath: string;
+}
+
+// Number of read-only archives kept for repeated listings; only their entry
+// index is kept, the contents are extracted when read
+const CACHE_SIZE = 10;
+
+export class ArchiveProvider implements VfsProvider {
+  readonly scheme = 'archive';
+
+  static readonly formats: ArchiveFormat[] = [
+    new ZipFormat(),
+    new TarFormat(),
+    new SevenZipFormat(),
+  ];
+
+  // Read-only archives by file, with the mtime/size they were parsed at
+  private cache = new Map<string, { version: string; archive: Archive }>();
+
+  // Archives opened during a batch, written once when the batch ends
+  private pending: Map<string, Archive> | null = null;
+  private dirty = new Set<string>();
+
+  /**
+   * Find the format of an archive by its file name
+   */
+  static formatFor(fileName: string): ArchiveFormat | undefined {
+    const lower = fileName.toLowerCase();
+    return ArchiveProvider.formats.find((format) =>
+      format.extensions.some((ext) => lower.endsWith(ext)),
+    );
+  }
+
+  /**
+   * Split a path into the archive file on disk and the path inside it.
+   * Returns null when the path does not point into an archive.
+   * e.g. "D:\backup.tar.gz/etc/hosts" -> "D:\backup.tar.gz" + "etc/hosts"
+   */
+  static parsePath(filePath: string): ArchivePath | null {
+    const segment = /[^\\/]+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = segment.exec(filePath))) {
+      if (!ArchiveProvider.formatFor(match[0])) continue;
+
+      const end = match.index + match[0].length;
+      const internalPath = normalizeEntryPath(filePath.substring(end));
+      return internalPath
+        ? { archiveFile: filePath.substring(0, end), internalPath }
+        : null;
+    }
+    return null;
+  }
+
+  handles(filePath: string): boolean {
+    return (
+      !filePath.includes('://') && ArchiveProvider.parsePath(filePath) !== null
+    );
+  }
+
+  opens(filePath: string): boolean {
+    if (filePath.includes('://') || !ArchiveProvider.formatFor(filePath)) {
+      return false;
+    }
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async list(dirPath: string): Promise<VfsEntry[]> {
+    const opened = await this.open(dirPath, true);
+    const entries = this.innermost(opened).entries();
+
+    if (
+      opened.internalPath &&
+      !this.isDirectory(entries, opened.internalPath)
+    ) {
+      throw new Error(`Directory does not exist: ${dirPath}`);
+    }
+
+    const base = dirPath.replace(/[\\/]+$/, '');
+    return this.listChildren(entries, opened.internalPath).map((entry) => ({
+      name: entry.name,
+      path: `${base}/${entry.name}`,
+      size: entry.size,
+      created: entry.time,
+      modified: entry.time,
+      isDirectory: entry.isDirectory,
+      isFile: !entry.isDirectory,
+      isArchive: entry.isArchive,
+      isArchiveEntry: true,
+    }));
+  }
+
+  async stat(filePath: string): Promise<VfsEntry | null> {
+    let opened: OpenedArchive;
+    try {
+      opened = await this.open(filePath, false);
+    } catch {
+      return null;
+    }
+    const internalPath = opened.internalPath;
+    const name = this.basename(filePath);
+
+    if (!internalPath) {
+      return this.directoryEntry(name, filePath, new Date());
+    }
+
+    const entries = this.innermost(opened).entries();
+    const entry = entries.find((e) => e.path === internalPath);
+    if (entry && !entry.isDirectory) {
+      return {
+        name,
+        path: filePath,
+        size: entry.size,
+        modified: entry.time,
+        isDirectory: false,
+        isFile: true,
+        isArchive: !!ArchiveProvider.formatFor(internalPath),
+        isArchiveEntry: true,
+      };
+    }
+
+    if (this.isDirectory(entries, internalPath)) {
+      return this.directoryEntry(
+        name,
+        filePath,
+        entry ? entry.time : new Date(),
+      );
+    }
+    return null;
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const opened = await this.open(filePath, false);
+    const data = await this.innermost(opened).read(opened.internalPath);
+    if (!data) {
+      throw new Error(`File not found in archive: ${opened.internalPath}`);
+    }
+    return data;
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const opened = await this.open(filePath, false, true);
+    this.writable(opened).add!(opened.internalPath, data);
+    this.save(opened);
+  }
+
+  async createReadStream(filePath: string): Promise<Readable> {
+    const opened = await this.open(filePath, false);
+    const archive = this.innermost(opened);
+    if (!archive.stream) {
+      return Readable.from([await this.read(filePath)]);
+    }
+    const stream = archive.stream(opened.internalPath);
+    if (!stream) {
+      throw new Error(`File not found in archive: ${opened.internalPath}`);
+    }
+    return stream;
+  }
+
+  async writeStream(filePath: string, data: Readable): Promise<void> {
+    // Entries are added in memory and written with the whole archive
+    const chunks: Buffer[] = [];
+    for await (const chunk of data) {
+      chunks.push(chunk);
+    }
+    await this.write(filePath, Buffer.concat(chunks));
+  }
+
+  async rename(filePath: string, newPath: string): Promise<void> {
+    const opened = await this.open(filePath, false);
+    const target = await this.open(newPath, false);
+    if (
+      opened.archiveFile !== target.archiveFile ||
+      opened.nested.join('/') !== target.nested.join('/')
+    ) {
+      throw new Error('Entries can only be renamed within the same archive');
+    }
+
+    const archive = this.writable(opened);
+    const entries = this.findEntries(archive.entries(), opened.internalPath);
+    if (entries.length === 0) {
+      throw new Error(`File not found in archive: ${opened.internalPath}`);
+    }
+
+    const renamed: Array<{ entryPath: string; data: Buffer }> = [];
+    for (const entry of entries) {
+      const entryPath =
+        target.internalPath + entry.path.substring(opened.internalPath.length);
+      renamed.push(
+        entry.isDirectory
+          ? { entryPath: `${entryPath}/`, data: Buffer.alloc(0) }
+          : {
+              entryPath,
+              data: (await archive.read(entry.path)) ?? Buffer.alloc(0),
+            },
+      );
+    }
+    for (const entry of entries) {
+      archive.remove!(entry.path);
+    }
+    for (const { entryPath, data } of renamed) {
+      archive.add!(entryPath, data);
+    }
+    this.save(opened);
+  }
+
+  async delete(filePath: string): Promise<void> {
+    const opened = await this.open(filePath, false);
+    const archive = this.writable(opened);
+    const entries = this.findEntries(archive.entries(), opened.internalPath);
+    if (entries.length === 0) {
+      throw new Error(`File not found in archive: ${opened.internalPath}`);
+    }
+
+    for (const entry of entries) {
+      archive.remove!(entry.path);
+    }
+    this.save(opened);
+  }
+
+  async mkdir(dirPath: string): Promise<void> {
+    const opened = await this.open(dirPath, false, true);
+    const archive = this.writable(opened);
+    if (
+      opened.internalPath &&
+      !this.isDirectory(archive.entries(), opened.internalPath)
+    ) {
+      archive.add!(`${opened.internalPath}/`, Buffer.alloc(0));
+      this.save(opened);
+    }
+  }
+
+  async batch<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.pending) {
+      return fn();
+    }
+
+    this.pending = new Map();
+    try {
+      return await fn();
+    } finally {
+      const pending = this.pending;
+      this.pending = null;
+      for (const [archiveFile, archive] of pending) {
+        if (this.dirty.delete(archiveFile)) {
+          fs.writeFileSync(archiveFile, archive.toBuffer!());
+        }
+      }
+    }
+  }
+
+  join(dirPath: string, name: string): string {
+    return `${dirPath.replace(/[\\/]+$/, '')}/${name}`;
+  }
+
+  dirname(filePath: string): string {
+    const trimmed = filePath.replace(/[\\/]+$/, '');
+    const index = Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('\\'));
+    return index === -1 ? '' : trimmed.substring(0, index);
+  }
+
+  basename(filePath: string): string {
+    const trimmed = filePath.replace(/[\\/]+$/, '');
+    const index = Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('\\'));
+    return trimmed.substring(index + 1);
+  }
+
+  /**
+   * Open the archive chain for a path. A nested archive is only entered when
+   * it exists and either more path follows or `openLast` is set (for listing).
+   */
+  private async open(
+    filePath: string,
+    openLast: boolean,
+    create = false,
+  ): Promise<OpenedArchive> {
+    const parsed = ArchiveProvider.parsePath(filePath);
+    const archiveFile = parsed ? parsed.archiveFile : filePath;
+    const parts = parsed ? parsed.internalPath.split('/') : [];
+
+    let archive = await this.load(archiveFile, create);
+    const chain = [archive];
+    const nested: string[] = [];
+    let start = 0;
+
+    for (let i = 0; i < parts.length; i++) {
+      const format = ArchiveProvider.formatFor(parts[i]);
+      if (!format) continue;
+      if (i === parts.length - 1 && !openLast) break;
+
+      const entryName = parts.slice(start, i + 1).join('/');
+      const data = await archive.read(entryName);
+      if (!data) continue;
+
+      archive = await format.open(data);
+      chain.push(archive);
+      nested.push(entryName);
+      start = i + 1;
+    }
+
+    return {
+      archiveFile,
+      chain,
+      nested,
+      internalPath: parts.slice(start).join('/'),
+    };
+  }
+
+  private async load(archiveFile: string, create: boolean): Promise<Archive> {
+    const pending = this.pending?.get(archiveFile);
+    if (pending) {
+      return pending;
+    }
+
+    const format = ArchiveProvider.formatFor(archiveFile);
+    if (!format) {
+      throw new Error(`Unsupported archive type: ${archiveFile}`);
+    }
+
+    let archive: Archive;
+    if (fs.existsSync(archiveFile)) {
+      archive = format.create
+        ? await format.open(archiveFile)
+        : await this.loadReadOnly(format, archiveFile);
+    } else if (create && format.create) {
+      archive = format.create();
+    } else {
+      throw new Error(`Archive does not exist: ${archiveFile}`);
+    }
+    this.pending?.set(archiveFile, archive);
+    return archive;
+  }
+
+  /**
+   * Read-only archives are kept indexed while the file is unchanged, so
+   * browsing a large tarball does not decompress it on every listing
+   */
+  private async loadReadOnly(
+    format: ArchiveFormat,
+    archiveFile: string,
+  ): Promise<Archive> {
+    const stats = await fs.promises.stat(archiveFile);
+    const version = `${stats.mtimeMs}:${stats.size}`;
+    const cached = this.cache.get(archiveFile);
+    if (cached?.version === version) {
+      return cached.archive;
+    }
+
+    const archive = await format.open(archiveFile);
+    this.cache.delete(archiveFile);
+    this.cache.set(archiveFile, { version, archive });
+    if (this.cache.size > CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return archive;
+  }
+
+  /**
+   * Write changed nested archives back into their parents and save the
+   * outer archive (deferred while a batch is running)
+   */
+  private save(opened: OpenedArchive): void {
+    for (let i = opened.chain.length - 1; i > 0; i--) {
+      opened.chain[i - 1].add!(
+        opened.nested[i - 1],
+        opened.chain[i].toBuffer!(),
+      );
+    }
+
+    if (this.pending) {
+      this.dirty.add(opened.archiveFile);
+    } else {
+      fs.writeFileSync(opened.archiveFile, opened.chain[0].toBuffer!());
+    }
+  }
+
+  private innermost(opened: OpenedArchive): Archive {
+    return opened.chain[opened.chain.length - 1];
+  }
+
+  /**
+   * The innermost archive, if every archive of the chain can be written
+   */
+  private writable(opened: OpenedArchive): Archive {
+    if (opened.chain.some((archive) => !archive.add)) {
+      throw new Error(`Archive is read-only: ${opened.archiveFile}`);
+    }
+    return this.innermost(opened);
+  }
+
+  /**
+   * Direct children of a folder inside an archive. Directories implied by
+   * deeper entries are included; nested archives are listed as directories
+   * so they can be navigated like folders.
+   */
+  private listChildren(
+    entries: ArchiveEntry[],
+    internalPath: string,
+  ): Array<ArchiveEntry & { name: string; isArchive: boolean }> {
+    const children = new Map<
+      string,
+      ArchiveEntry & { name: string; isArchive: boolean }
+    >();
+    const prefix = internalPath ? `${internalPath}/` : '';
+
+    for (const entry of entries) {
+      if (!entry.path.startsWith(prefix)) continue;
+
+      const parts = entry.path.substring(prefix.length).split('/');
+      const name = parts[0];
+      if (!name || children.has(name)) continue;
+
+      if (parts.length === 1 && !entry.isDirectory) {
+        const isArchive = !!ArchiveProvider.formatFor(name);
+        children.set(name, {
+          ...entry,
+          name,
+          isDirectory: isArchive,
+          isArchive,
+        });
+      } else {
+        children.set(name, {
+          path: `${prefix}${name}`,
+          size: 0,
+          time: entry.time,
+          isDirectory: true,
+          name,
+          isArchive: false,
+        });
+      }
+    }
+
+    return [...children.values()];
+  }
+
+  private findEntries(
+    entries: ArchiveEntry[],
+    internalPath: string,
+  ): ArchiveEntry[] {
+    const prefix = `${internalPath}/`;
+    return entries.filter(
+      (entry) => entry.path === internalPath || entry.path.startsWith(prefix),
+    );
+  }
+
+  private isDirectory(entries: ArchiveEntry[], internalPath: string): boolean {
+    const prefix = `${internalPath}/`;
+    return entries.some(
+      (entry) =>
+        (entry.path === internalPath && entry.isDirectory) ||
+        entry.path.startsWith(prefix),
+    );
+  }
+
+  private directoryEntry(name: string, path: string, modified: Date): VfsEntry {
+    return {
+      name,
+      path,
+      size: 0,
+      modified,
+      isDirectory: true,
+      isFile: false,
+      isArchiveEntry: true,
+    };
+  }
+}
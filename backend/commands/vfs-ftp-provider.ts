@@ -0,0 +1,164 @@
+/**
+ * FTP provider for the virtual file system
+ * Uses the pooled sessions of FTPCommand, so a server connected once in the
+ * commander can be used as source or target of any file operation.
+ */
+
+import * as ftp from 'basic-ftp';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { FTPCommand } from './ftp-command.js';
+import { VfsEntry, VfsProvider } from './vfs-provider.js';
+
+export class FtpProvider implements VfsProvider {
+  readonly scheme = 'ftp';
+  private ftp = new FTPCommand();
+
+  handles(filePath: string): boolean {
+    return filePath.startsWith('ftp://');
+  }
+
+  async list(dirPath: string): Promise<VfsEntry[]> {
+    const { client, remotePath } = await this.connect(dirPath);
+    const items = await client.list(remotePath);
+
+    return items
+      .filter((item) => item.name !== '.' && item.name !== '..')
+      .map((item) => this.toEntry(item, this.join(dirPath, item.name)));
+  }
+
+  async stat(filePath: string): Promise<VfsEntry | null> {
+    const { client, remotePath } = await this.connect(filePath);
+    if (remotePath === '/') {
+      return {
+        name: '',
+        path: filePath,
+        size: 0,
+        modified: new Date(),
+        isDirectory: true,
+        isFile: false,
+      };
+    }
+
+    try {
+      const name = path.posix.basename(remotePath);
+      const items = await client.list(path.posix.dirname(remotePath));
+      const item = items.find((i) => i.name === name);
+      return item ? this.toEntry(item, filePath) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const { client, remotePath } = await this.connect(filePath);
+    const chunks: Buffer[] = [];
+    const sink = new PassThrough();
+    sink.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    await client.downloadTo(sink, remotePath);
+    return Buffer.concat(chunks);
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const { client, remotePath } = await this.connect(filePath);
+    await client.ensureDir(path.posix.dirname(remotePath));
+    await client.uploadFrom(Readable.from(data), remotePath);
+  }
+
+  async createReadStream(filePath: string): Promise<Readable> {
+    const { client, remotePath } = await this.connect(filePath);
+    const stream = new PassThrough();
+    client
+      .downloadTo(stream, remotePath)
+      .catch((error: Error) => stream.destroy(error));
+    return stream;
+  }
+
+  async writeStream(filePath: string, data: Readable): Promise<void> {
+    const { client, remotePath } = await this.connect(filePath);
+    await client.ensureDir(path.posix.dirname(remotePath));
+    await client.uploadFrom(data, remotePath);
+  }
+
+  /**
+   * A pooled session cannot download and upload at the same time, so
+   * copies on the same server go through a temporary file
+   */
+  async copyFile(sourcePath: string, destinationPath: string): Promise<void> {
+    const tempDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), 'ftp-copy-'),
+    );
+    const tempFile = path.join(tempDir, path.posix.basename(sourcePath));
+    try {
+      const source = await this.connect(sourcePath);
+      await source.client.downloadTo(tempFile, source.remotePath);
+      const target = await this.connect(destinationPath);
+      await target.client.ensureDir(path.posix.dirname(target.remotePath));
+      await target.client.uploadFrom(tempFile, target.remotePath);
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  async rename(filePath: string, newPath: string): Promise<void> {
+    const { client, remotePath } = await this.connect(filePath);
+    const target = this.ftp.parseFTPUrl(newPath);
+    await client.rename(remotePath, target.remotePath);
+  }
+
+  async delete(filePath: string): Promise<void> {
+    const { client, remotePath } = await this.connect(filePath);
+    const entry = await this.stat(filePath);
+    if (entry?.isDirectory) {
+      await client.removeDir(remotePath);
+    } else {
+      await client.remove(remotePath);
+    }
+  }
+
+  async mkdir(dirPath: string): Promise<void> {
+    const { client, remotePath } = await this.connect(dirPath);
+    await client.ensureDir(remotePath);
+  }
+
+  join(dirPath: string, name: string): string {
+    return `${dirPath.replace(/\/+$/, '')}/${name}`;
+  }
+
+  dirname(filePath: string): string {
+    const trimmed = filePath.replace(/\/+$/, '');
+    const index = trimmed.lastIndexOf('/');
+    // Keep the server root ("ftp://host/") when going up from a top-level entry
+    return index <= 'ftp://'.length ? trimmed : trimmed.substring(0, index);
+  }
+
+  basename(filePath: string): string {
+    const trimmed = filePath.replace(/\/+$/, '');
+    return trimmed.substring(trimmed.lastIndexOf('/') + 1);
+  }
+
+  private async connect(ftpUrl: string) {
+    const { connection, remotePath } = this.ftp.parseFTPUrl(ftpUrl);
+    const client = await this.ftp.getClient(connection);
+    return { client, remotePath };
+  }
+
+  private toEntry(item: ftp.FileInfo, entryPath: string): VfsEntry {
+    const modified = item.modifiedAt ?? new Date(item.rawModifiedAt || 0);
+    return {
+      name: item.name,
+      path: entryPath,
+      size: item.size,
+      modified: isNaN(modified.getTime()) ? new Date(0) : modified,
+      isDirectory: item.isDirectory,
+      isFile: item.isFile,
+      isSymbolicLink: item.isSymbolicLink,
+      permissions: item.permissions
+        ? `${item.permissions.user}${item.permissions.group}${item.permissions.world}`
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Local disk provider for the virtual file system
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { VfsEntry, VfsProvider } from './vfs-provider.js';
+
+export class LocalProvider implements VfsProvider {
+  readonly scheme = 'local';
+
+  handles(): boolean {
+    return true;
+  }
+
+  async realPath(dirPath: string): Promise<string> {
+    return path.resolve(dirPath);
+  }
+
+  async list(dirPath: string): Promise<VfsEntry[]> {
+    const absolutePath = path.resolve(dirPath);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Directory does not exist: ${absolutePath}`);
+    }
+    const stats = await fs.promises.stat(absolutePath);
+    if (!stats.isDirectory()) {
+      throw new Error(`Path is not a directory: ${absolutePath}`);
+    }
+
+    const entries = await fs.promises.readdir(absolutePath, {
+      withFileTypes: true,
+    });
+    const result: VfsEntry[] = [];
+
+    for (const entry of entries) {
+      const fullPath = path.join(absolutePath, entry.name);
+
+      try {
+        const lstats = await fs.promises.lstat(fullPath);
+
+        let stats = lstats;
+        const isSymlink = lstats.isSymbolicLink();
+        let linkTargetType: 'file' | 'directory' | null = null;
+
+        if (isSymlink) {
+          try {
+            stats = await fs.promises.stat(fullPath); // follows the link
+            linkTargetType = stats.isDirectory() ? 'directory' : 'file';
+            // For symlink directories, verify we can actually read them
+            // (Windows legacy junctions like "Eigene Videos" resolve via stat but block readdir with EPERM)
+            if (linkTargetType === 'directory') {
+              await fs.promises.readdir(fullPath);
+            }
+          } catch {
+            // Broken symlink or inaccessible junction - skip entirely
+            continue;
+          }
+        }
+
+        result.push({
+          name: entry.name,
+          path: fullPath,
+          size: stats.size,
+          created: stats.birthtime,
+          modified: stats.mtime,
+          isSymbolicLink: isSymlink,
+          isDirectory: isSymlink
+            ? linkTargetType === 'directory'
+            : stats.isDirectory(), // Use stats.isDirectory() - works correctly for OneDrive/SynologyDrive
+          isFile: isSymlink ? linkTargetType === 'file' : stats.isFile(),
+          linkTargetType,
+        });
+      } catch (error: any) {
+        console.warn(`Warning: Unable to access ${fullPath}: ${error.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  async stat(filePath: string): Promise<VfsEntry | null> {
+    const absolutePath = path.resolve(filePath);
+    try {
+      const stats = await fs.promises.stat(absolutePath);
+      return {
+        name: path.basename(absolutePath),
+        path: absolutePath,
+        size: stats.size,
+        created: stats.birthtime,
+        modified: stats.mtime,
+        isDirectory: stats.isDirectory(),
+        isFile: stats.isFile(),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    return fs.promises.readFile(path.resolve(filePath));
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const absolutePath = path.resolve(filePath);
+    await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.promises.writeFile(absolutePath, data);
+  }
+
+  async createReadStream(filePath: string): Promise<Readable> {
+    const absolutePath = path.resolve(filePath);
+    // Open first so a missing file fails here and not on the first read
+    const handle = await fs.promises.open(absolutePath, 'r');
+    return handle.createReadStream();
+  }
+
+  async writeStream(filePath: string, data: Readable): Promise<void> {
+    const absolutePath = path.resolve(filePath);
+    await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+    await pipeline(data, fs.createWriteStream(absolutePath));
+  }
+
+  async copyFile(sourcePath: string, destinationPath: string): Promise<void> {
+    const absoluteDestination = path.resolve(destinationPath);
+    await fs.promises.mkdir(path.dirname(absoluteDestination), {
+      recursive: true,
+    });
+    await fs.promises.copyFile(path.resolve(sourcePath), absoluteDestination);
+  }
+
+  async rename(filePath: string, newPath: string): Promise<void> {
+    await fs.promises.rename(path.resolve(filePath), path.resolve(newPath));
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await fs.promises.rm(path.resolve(filePath), { recursive: true });
+  }
+
+  async mkdir(dirPath: string): Promise<void> {
+    await fs.promises.mkdir(path.resolve(dirPath), { recursive: true });
+  }
+
+  join(dirPath: string, name: string): string {
+    return path.join(dirPath, name);
+  }
+
+  dirname(filePath: string): string {
+    return path.dirname(filePath);
+  }
+
+  basename(filePath: string): string {
+    return path.basename(filePath);
+  }
+}
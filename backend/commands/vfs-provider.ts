@@ -0,0 +1,79 @@
+/**
+ * Virtual file system provider interface
+ * Every storage backend (local disk, archives, FTP, SFTP, SMB) implements this so
+ * file operations can work on any path without knowing where it lives.
+ */
+
+import type { Readable } from 'stream';
+
+export interface VfsEntry {
+  name: string;
+  /** Full path of the entry in the notation of its provider */
+  path: string;
+  size: number;
+  modified: Date;
+  created?: Date;
+  isDirectory: boolean;
+  isFile: boolean;
+  isSymbolicLink?: boolean;
+  linkTargetType?: 'file' | 'directory' | null;
+  /** Archives that are listed as folders but copied as files (nested archives) */
+  isArchive?: boolean;
+  /** Entry inside an archive (ZIP, TAR, 7z) */
+  isArchiveEntry?: boolean;
+  permissions?: string;
+}
+
+export interface VfsProvider {
+  /** Short name of the backend, e.g. 'local', 'archive', 'ftp' */
+  readonly scheme: string;
+
+  /** Whether the provider is responsible for this path */
+  handles(filePath: string): boolean;
+
+  /**
+   * Whether a path that belongs to another provider should be listed by this
+   * one (e.g. a .zip file on disk that is opened like a folder)
+   */
+  opens?(filePath: string): boolean;
+
+  list(dirPath: string): Promise<VfsEntry[]>;
+  /** Returns null when the path does not exist */
+  stat(filePath: string): Promise<VfsEntry | null>;
+  read(filePath: string): Promise<Buffer>;
+  /** Writes a file, creating missing parent directories */
+  write(filePath: string, data: Buffer): Promise<void>;
+  /** Stream of the file contents, for files too large to read at once */
+  createReadStream(filePath: string): Promise<Readable>;
+  /** Writes a file from a stream, creating missing parent directories */
+  writeStream(filePath: string, data: Readable): Promise<void>;
+  rename(filePath: string, newPath: string): Promise<void>;
+  /** Deletes a file or a directory including its contents */
+  delete(filePath: string): Promise<void>;
+  /** Creates a directory including missing parents */
+  mkdir(dirPath: string): Promise<void>;
+
+  join(dirPath: string, name: string): string;
+  dirname(filePath: string): string;
+  basename(filePath: string): string;
+
+  /** Path shown to the user for a listed directory (defaults to the input) */
+  realPath?(dirPath: string): Promise<string>;
+  /** Copy within the same provider without reading the data into memory */
+  copyFile?(sourcePath: string, destinationPath: string): Promise<void>;
+  /** Run several operations and persist changes once at the end */
+  batch?<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Error raised by providers. `needsAuth` tells the UI to ask for credentials.
+ */
+export class VfsError extends Error {
+  constructor(
+    message: string,
+    public readonly needsAuth?: boolean,
+  ) {
+    super(message);
+    this.name = 'VfsError';
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * SFTP provider for the virtual file system
+ * Uses the pooled sessions and remembered credentials of SFTPCommand.
+ */
+
+import * as path from 'path';
+import type { SFTPWrapper, Stats } from 'ssh2';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { SFTPCommand } from './sftp-command.js';
+import { VfsEntry, VfsProvider } from './vfs-provider.js';
+
+export class SftpProvider implements VfsProvider {
+  readonly scheme = 'sftp';
+  private sftp = new SFTPCommand();
+
+  handles(filePath: string): boolean {
+    return filePath.startsWith('sftp://');
+  }
+
+  async list(dirPath: string): Promise<VfsEntry[]> {
+    const { sftp, remotePath } = await this.connect(dirPath);
+    const result: VfsEntry[] = [];
+
+    for (const entry of await this.sftp.readdir(sftp, remotePath)) {
+      if (entry.filename === '.' || entry.filename === '..') continue;
+
+      let attrs = entry.attrs;
+      // Follow symlinks so linked directories can be opened
+      if (attrs.isSymbolicLink()) {
+        attrs = await this.sftp
+          .stat(sftp, path.posix.join(remotePath, entry.filename))
+          .catch(() => entry.attrs);
+      }
+      result.push(
+        this.toEntry(entry.filename, this.join(dirPath, entry.filename), attrs),
+      );
+    }
+    return result;
+  }
+
+  async stat(filePath: string): Promise<VfsEntry | null> {
+    const { sftp, remotePath } = await this.connect(filePath);
+    try {
+      const attrs = await this.sftp.stat(sftp, remotePath);
+      return this.toEntry(path.posix.basename(remotePath), filePath, attrs);
+    } catch {
+      return null;
+    }
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.createReadStream(filePath)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const { sftp, remotePath } = await this.connect(filePath);
+    await this.sftp.ensureDir(sftp, path.posix.dirname(remotePath));
+    await new Promise<void>((resolve, reject) =>
+      sftp.writeFile(remotePath, data, (err) =>
+        err ? reject(err) : resolve(),
+      ),
+    );
+  }
+
+  async createReadStream(filePath: string): Promise<Readable> {
+    const { sftp, remotePath } = await this.connect(filePath);
+    // Stat first so a missing file fails here and not on the first read
+    await this.sftp.stat(sftp, remotePath);
+    return sftp.createReadStream(remotePath);
+  }
+
+  async writeStream(filePath: string, data: Readable): Promise<void> {
+    const { sftp, remotePath } = await this.connect(filePath);
+    await this.sftp.ensureDir(sftp, path.posix.dirname(remotePath));
+    await pipeline(data, sftp.createWriteStream(remotePath));
+  }
+
+  async rename(filePath: string, newPath: string): Promise<void> {
+    const { sftp, remotePath } = await this.connect(filePath);
+    const target = this.sftp.parseSFTPUrl(newPath);
+    await new Promise<void>((resolve, reject) =>
+      sftp.rename(remotePath, target.remotePath, (err) =>
+        err ? reject(err) : resolve(),
+      ),
+    );
+  }
+
+  async delete(filePath: string): Promise<void> {
+    const { sftp, remotePath } = await this.connect(filePath);
+    if (remotePath === '/') {
+      throw new Error('Refusing to delete the root directory');
+    }
+    await this.sftp.removeRecursive(sftp, remotePath);
+  }
+
+  async mkdir(dirPath: string): Promise<void> {
+    const { sftp, remotePath } = await this.connect(dirPath);
+    await this.sftp.ensureDir(sftp, remotePath);
+  }
+
+  join(dirPath: string, name: string): string {
+    return `${dirPath.replace(/\/+$/, '')}/${name}`;
+  }
+
+  dirname(filePath: string): string {
+    const { connection, remotePath } = this.sftp.parseSFTPUrl(filePath);
+    return this.sftp.buildUrl(connection, path.posix.dirname(remotePath));
+  }
+
+  basename(filePath: string): string {
+    const trimmed = filePath.replace(/\/+$/, '');
+    return trimmed.substring(trimmed.lastIndexOf('/') + 1);
+  }
+
+  private async connect(
+    sftpUrl: string,
+  ): Promise<{ sftp: SFTPWrapper; remotePath: string }> {
+    const { connection, remotePath } = this.sftp.parseSFTPUrl(sftpUrl);
+    const sftp = await this.sftp.getClient(connection);
+    return { sftp, remotePath };
+  }
+
+  private toEntry(name: string, entryPath: string, attrs: Stats): VfsEntry {
+    return {
+      name,
+      path: entryPath,
+      size: attrs.size,
+      modified: new Date(attrs.mtime * 1000),
+      isDirectory: attrs.isDirectory(),
+      isFile: attrs.isFile(),
+      permissions: (attrs.mode & 0o777).toString(8),
+    };
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * SMB provider for the virtual file system
+ * UNC paths (\\server\share\dir or //server/share/dir) are mapped to a
+ * locally reachable location (a mount point on macOS/Linux, the UNC path
+ * itself on Windows) and handled by the provider for that location.
+ */
+
+import type { Readable } from 'stream';
+import { VfsEntry, VfsError, VfsProvider } from './vfs-provider.js';
+
+export interface SmbMountResult {
+  success: boolean;
+  /** Local path that corresponds to the requested UNC path */
+  mountPoint?: string;
+  error?: string;
+  needsAuth?: boolean;
+}
+
+export type SmbMounter = (
+  uncPath: string,
+  smbUrl?: string,
+) => Promise<SmbMountResult>;
+
+export class SmbProvider implements VfsProvider {
+  readonly scheme = 'smb';
+
+  // smb:// URLs with credentials, keyed by "server/share"
+  private credentials = new Map<string, string>();
+
+  constructor(
+    private mount: SmbMounter,
+    private resolveLocal: (localPath: string) => VfsProvider,
+  ) {}
+
+  static isUncPath(filePath: string): boolean {
+    return filePath.startsWith('\\\\') || filePath.startsWith('//');
+  }
+
+  handles(filePath: string): boolean {
+    return SmbProvider.isUncPath(filePath);
+  }
+
+  /**
+   * Remember credentials for the share of a UNC path
+   */
+  setCredentials(uncPath: string, smbUrl: string): void {
+    this.credentials.set(this.shareKey(uncPath), smbUrl);
+  }
+
+  async realPath(dirPath: string): Promise<string> {
+    return this.toLocal(dirPath);
+  }
+
+  async list(dirPath: string): Promise<VfsEntry[]> {
+    // Entries carry the local path, so follow-up operations on them go
+    // straight to the local (or archive) provider
+    const localPath = await this.toLocal(dirPath);
+    return this.resolveLocal(localPath).list(localPath);
+  }
+
+  async stat(filePath: string): Promise<VfsEntry | null> {
+    const localPath = await this.toLocal(filePath);
+    return this.resolveLocal(localPath).stat(localPath);
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const localPath = await this.toLocal(filePath);
+    return this.resolveLocal(localPath).read(localPath);
+  }
+
+  async write(filePath: string, data: Buffer): Promise<void> {
+    const localPath = await this.toLocal(filePath);
+    return this.resolveLocal(localPath).write(localPath, data);
+  }
+
+  async createReadStream(filePath: string): Promise<Readable> {
+    const localPath = await this.toLocal(filePath);
+    return this.resolveLocal(localPath).createReadStream(localPath);
+  }
+
+  async writeStream(filePath: string, data: Readable): Promise<void> {
+    const localPath = await this.toLocal(filePath);
+    return this.resolveLocal(localPath).writeStream(localPath, data);
+  }
+
+  async rename(filePath: string, newPath: string): Promise<void> {
+    const localPath = await this.toLocal(filePath);
+    const localTarget = await this.toLocal(newPath);
+    return this.resolveLocal(localPath).rename(localPath, localTarget);
+  }
+
+  async delete(filePath: string): Promise<void> {
+    const localPath = await this.toLocal(filePath);
+    return this.resolveLocal(localPath).delete(localPath);
+  }
+
+  async mkdir(dirPath: string): Promise<void> {
+    const localPath = await this.toLocal(dirPath);
+    return this.resolveLocal(localPath).mkdir(localPath);
+  }
+
+  join(dirPath: string, name: string): string {
+    const separator = dirPath.startsWith('//') ? '/' : '\\';
+    return `${dirPath.replace(/[\\/]+$/, '')}${separator}${name}`;
+  }
+
+  dirname(filePath: string): string {
+    const trimmed = filePath.replace(/[\\/]+$/, '');
+    const index = Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('\\'));
+    // Never go above \\server\share
+    return this.splitUnc(trimmed).length <= 2
+      ? trimmed
+      : trimmed.substring(0, index);
+  }
+
+  basename(filePath: string): string {
+    const parts = this.splitUnc(filePath);
+    return parts[parts.length - 1] || '';
+  }
+
+  private async toLocal(uncPath: string): Promise<string> {
+    const result = await this.mount(
+      uncPath,
+      this.credentials.get(this.shareKey(uncPath)),
+    );
+    if (!result.success || !result.mountPoint) {
+      throw new VfsError(result.error || 'Unknown error', result.needsAuth);
+    }
+    return result.mountPoint;
+  }
+
+  private splitUnc(uncPath: string): string[] {
+    return uncPath.split(/[\\/]+/).filter((p) => p);
+  }
+
+  private shareKey(uncPath: string): string {
+    return this.splitUnc(uncPath).slice(0, 2).join('/').toLowerCase();
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Virtual File System
+ * Routes list/stat/read/write/rename/delete/mkdir to the provider that owns a
+ * path and copies between any two providers (e.g. FTP -> ZIP).
+ */
+
+import { Readable, Transform } from 'stream';
+import { ArchiveProvider } from './vfs-archive-provider.js';
+import { FtpProvider } from './vfs-ftp-provider.js';
+import { LocalProvider } from './vfs-local-provider.js';
+import { VfsEntry, VfsProvider } from './vfs-provider.js';
+import { SftpProvider } from './vfs-sftp-provider.js';
+import { SmbMounter, SmbProvider } from './vfs-smb-provider.js';
+
+export interface VfsListing {
+  /** Path of the listed directory as shown to the user */
+  path: string;
+  scheme: string;
+  entries: VfsEntry[];
+}
+
+export interface VfsWalkEntry {
+  /** Path relative to the walked root, always with forward slashes */
+  relativePath: string;
+  entry: VfsEntry;
+}
+
+export interface VfsCopyOptions {
+  /** Decide per existing destination file whether to replace it */
+  overwrite?: boolean | ((relativePath: string) => boolean);
+  /** Called after each copied file */
+  onFile?: (relativePath: string, entry: VfsEntry) => void;
+  /** Called with the number of bytes copied since the last call */
+  onBytes?: (bytes: number, entry: VfsEntry) => void;
+  /** Called before each file and chunk, may throw to cancel */
+  checkpoint?: () => Promise<void>;
+}
+
+export interface VfsCopyResult {
+  filesCopied: number;
+  filesSkipped: number;
+  bytesCopied: number;
+}
+
+export class VirtualFileSystem {
+  /**
+   * @param providers checked in order, the first one that handles a path wins
+   */
+  constructor(private providers: VfsProvider[]) {}
+
+  /**
+   * Create the default provider chain: FTP, SFTP, SMB, archives and local disk
+   */
+  static createDefault(mountSmb: SmbMounter): {
+    vfs: VirtualFileSystem;
+    smb: SmbProvider;
+  } {
+    const providers: VfsProvider[] = [];
+    const vfs = new VirtualFileSystem(providers);
+    const smb: SmbProvider = new SmbProvider(mountSmb, (localPath) =>
+      vfs.resolve(localPath, smb),
+    );
+    providers.push(
+      new FtpProvider(),
+      new SftpProvider(),
+      smb,
+      new ArchiveProvider(),
+      new LocalProvider(),
+    );
+    return { vfs, smb };
+  }
+
+  /**
+   * Find the provider for a path, optionally skipping one provider
+   */
+  resolve(filePath: string, exclude?: VfsProvider): VfsProvider {
+    const provider = this.providers.find(
+      (p) => p !== exclude && p.handles(filePath),
+    );
+    if (!provider) {
+      throw new Error(`No file system provider for path: ${filePath}`);
+    }
+    return provider;
+  }
+
+  schemeOf(filePath: string): string {
+    return this.resolve(filePath).scheme;
+  }
+
+  /**
+   * Scheme of the provider that lists a path (e.g. 'archive' for a .zip file
+   * on disk, while schemeOf returns 'local')
+   */
+  listingSchemeOf(dirPath: string): string {
+    return this.resolveListing(dirPath).scheme;
+  }
+
+  async list(dirPath: string): Promise<VfsListing> {
+    const provider = this.resolveListing(dirPath);
+    return {
+      path: provider.realPath ? await provider.realPath(dirPath) : dirPath,
+      scheme: provider.scheme,
+      entries: await provider.list(dirPath),
+    };
+  }
+
+  /**
+   * Whether a path can be listed: a directory, or a file opened like one
+   */
+  async isListable(filePath: string): Promise<boolean> {
+    if (this.resolveListing(filePath) !== this.resolve(filePath)) {
+      return true;
+    }
+    const entry = await this.stat(filePath);
+    return !!entry?.isDirectory;
+  }
+
+  stat(filePath: string): Promise<VfsEntry | null> {
+    return this.resolve(filePath).stat(filePath);
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return (await this.stat(filePath)) !== null;
+  }
+
+  read(filePath: string): Promise<Buffer> {
+    return this.resolve(filePath).read(filePath);
+  }
+
+  write(filePath: string, data: Buffer): Promise<void> {
+    return this.resolve(filePath).write(filePath, data);
+  }
+
+  createReadStream(filePath: string): Promise<Readable> {
+    return this.resolve(filePath).createReadStream(filePath);
+  }
+
+  writeStream(filePath: string, data: Readable): Promise<void> {
+    return this.resolve(filePath).writeStream(filePath, data);
+  }
+
+  rename(filePath: string, newPath: string): Promise<void> {
+    const provider = this.resolve(filePath);
+    if (this.resolve(newPath) !== provider) {
+      throw new Error('Cannot rename across file systems');
+    }
+    return provider.rename(filePath, newPath);
+  }
+
+  delete(filePath: string): Promise<void> {
+    return this.resolve(filePath).delete(filePath);
+  }
+
+  mkdir(dirPath: string): Promise<void> {
+    return this.resolve(dirPath).mkdir(dirPath);
+  }
+
+  join(dirPath: string, name: string): string {
+    return this.resolveListing(dirPath).join(dirPath, name);
+  }
+
+  dirname(filePath: string): string {
+    return this.resolve(filePath).dirname(filePath);
+  }
+
+  basename(filePath: string): string {
+    return this.resolve(filePath).basename(filePath);
+  }
+
+  /**
+   * List all entries below a directory. Nested archives are reported as
+   * files and not descended into.
+   */
+  async walk(dirPath: string, recursive = true): Promise<VfsWalkEntry[]> {
+    const result: VfsWalkEntry[] = [];
+
+    const visit = async (current: string, prefix: string) => {
+      let entries: VfsEntry[];
+      try {
+        ({ entries } = await this.list(current));
+      } catch (error: any) {
+        // Unreadable subdirectories are skipped, only the root must exist
+        if (!prefix) throw error;
+        console.warn(`Warning: Unable to read ${current}: ${error.message}`);
+        return;
+      }
+
+      for (const entry of entries) {
+        const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        const isFolder = entry.isDirectory && !entry.isArchive;
+        result.push({
+          relativePath,
+          entry: isFolder
+            ? entry
+            : { ...entry, isDirectory: false, isFile: true },
+        });
+        if (recursive && isFolder) {
+          await visit(entry.path, relativePath);
+        }
+      }
+    };
+
+    await visit(dirPath, '');
+    return result;
+  }
+
+  /**
+   * Copy a file or directory between any two providers.
+   * Existing destination files are only replaced when `overwrite` allows it.
+   */
+  async copy(
+    sourcePath: string,
+    destinationPath: string,
+    options: VfsCopyOptions = {},
+  ): Promise<VfsCopyResult> {
+    const source = await this.stat(sourcePath);
+    if (!source) {
+      throw new Error(`Source does not exist: ${sourcePath}`);
+    }
+
+    const result: VfsCopyResult = {
+      filesCopied: 0,
+      filesSkipped: 0,
+      bytesCopied: 0,
+    };
+    await this.batch([sourcePath, destinationPath], () =>
+      this.copyEntry(source, destinationPath, '', options, result),
+    );
+    return result;
+  }
+
+  /**
+   * Run fn inside the batches of the providers of the given paths, so
+   * archives are only written once
+   */
+  async batch<T>(paths: string[], fn: () => Promise<T>): Promise<T> {
+    const providers = [...new Set(paths.map((p) => this.resolve(p)))];
+    const run = providers.reduce<() => Promise<T>>(
+      (next, provider) => (provider.batch ? () => provider.batch!(next) : next),
+      fn,
+    );
+    return run();
+  }
+
+  private async copyEntry(
+    source: VfsEntry,
+    destinationPath: string,
+    relativePath: string,
+    options: VfsCopyOptions,
+    result: VfsCopyResult,
+  ): Promise<void> {
+    await options.checkpoint?.();
+
+    if (source.isDirectory && !source.isArchive) {
+      if (!(await this.exists(destinationPath))) {
+        await this.mkdir(destinationPath);
+      }
+      const { entries } = await this.list(source.path);
+      for (const child of entries) {
+        await this.copyEntry(
+          child,
+          this.join(destinationPath, child.name),
+          relativePath ? `${relativePath}/${child.name}` : child.name,
+          options,
+          result,
+        );
+      }
+      return;
+    }
+
+    const key = relativePath || source.name;
+    if (await this.exists(destinationPath)) {
+      const overwrite =
+        typeof options.overwrite === 'function'
+          ? options.overwrite(key)
+          : options.overwrite === true;
+      if (!overwrite) {
+        result.filesSkipped++;
+        return;
+      }
+    }
+
+    const sourceProvider = this.resolve(source.path);
+    const destinationProvider = this.resolve(destinationPath);
+    if (sourceProvider === destinationProvider && sourceProvider.copyFile) {
+      await sourceProvider.copyFile(source.path, destinationPath);
+      result.bytesCopied += source.size;
+      options.onBytes?.(source.size, source);
+    } else {
+      await this.pipe(source, destinationPath, options, result);
+    }
+
+    result.filesCopied++;
+    options.onFile?.(key, source);
+  }
+
+  /**
+   * Stream a file to another provider chunk by chunk, so files of any size
+   * are copied without holding them in memory. A partly written destination
+   * is removed when the copy fails or is cancelled.
+   */
+  private async pipe(
+    source: VfsEntry,
+    destinationPath: string,
+    options: VfsCopyOptions,
+    result: VfsCopyResult,
+  ): Promise<void> {
+    const input = await this.createReadStream(source.path);
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        Promise.resolve(options.checkpoint?.()).then(() => {
+          result.bytesCopied += chunk.length;
+          options.onBytes?.(chunk.length, source);
+          callback(null, chunk);
+        }, callback);
+      },
+    });
+    input.on('error', (error) => counter.destroy(error));
+
+    try {
+      await this.writeStream(destinationPath, input.pipe(counter));
+    } catch (error) {
+      await this.delete(destinationPath).catch(() => undefined);
+      throw error;
+    } finally {
+      input.destroy();
+    }
+  }
+
+  private resolveListing(dirPath: string): VfsProvider {
+    const owner = this.resolve(dirPath);
+    return (
+      this.providers.find((p) => p !== owner && p.opens?.(dirPath)) ?? owner
+    );
+  }
+}
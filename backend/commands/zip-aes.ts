@@ -0,0 +1,221 @@
+/**
+ * WinZip AES encryption (AE-2, AES-256) for ZIP entries
+ * Encrypted entries use compression method 99 and carry the real method in
+ * the 0x9901 extra field; 7-Zip, WinZip and most unzip tools can open them.
+ */
+
+import * as crypto from 'crypto';
+import { Transform } from 'stream';
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+const VERIFIER_LENGTH = 2;
+const AUTH_LENGTH = 10;
+const ITERATIONS = 1000;
+
+export const AES_METHOD = 99;
+const AES_EXTRA_ID = 0x9901;
+
+/**
+ * Extra field that marks an entry as AES encrypted
+ */
+export function aesExtraField(compressionMethod: number): Buffer {
+  const extra = Buffer.alloc(11);
+  extra.writeUInt16LE(AES_EXTRA_ID, 0);
+  extra.writeUInt16LE(7, 2);
+  extra.writeUInt16LE(2, 4); // AE-2: no CRC, the HMAC protects the data
+  extra.write('AE', 6, 'latin1');
+  extra.writeUInt8(3, 8); // AES-256
+  extra.writeUInt16LE(compressionMethod, 9);
+  return extra;
+}
+
+/**
+ * Compression method stored in the AES extra field, null if there is none
+ */
+export function aesCompressionMethod(extra: Buffer): number | null {
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const id = extra.readUInt16LE(offset);
+    const size = extra.readUInt16LE(offset + 2);
+    if (id === AES_EXTRA_ID && size >= 7) {
+      return extra.readUInt16LE(offset + 9);
+    }
+    offset += 4 + size;
+  }
+  return null;
+}
+
+/**
+ * Encrypt (already compressed) entry data: salt, verifier, data, HMAC
+ */
+export function encryptAes(data: Buffer, password: string): Buffer {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const keys = deriveKeys(password, salt);
+  const encrypted = new AesCtr(keys.encryptionKey).update(data);
+  return Buffer.concat([
+    salt,
+    keys.verifier,
+    encrypted,
+    authCode(keys.hmacKey, encrypted),
+  ]);
+}
+
+/**
+ * Decrypt entry data written by encryptAes, checking password and HMAC
+ */
+export function decryptAes(data: Buffer, password: string): Buffer {
+  const salt = data.subarray(0, SALT_LENGTH);
+  const verifier = data.subarray(SALT_LENGTH, SALT_LENGTH + VERIFIER_LENGTH);
+  const encrypted = data.subarray(
+    SALT_LENGTH + VERIFIER_LENGTH,
+    data.length - AUTH_LENGTH,
+  );
+  const keys = deriveKeys(password, salt);
+
+  if (!keys.verifier.equals(verifier)) {
+    throw new Error('Wrong password');
+  }
+  if (
+    !authCode(keys.hmacKey, encrypted).equals(
+      data.subarray(data.length - AUTH_LENGTH),
+    )
+  ) {
+    throw new Error('Authentication code mismatch, the data is corrupted');
+  }
+  return new AesCtr(keys.encryptionKey).update(encrypted);
+}
+
+/**
+ * Stream version of encryptAes, for entries too large to hold in memory
+ */
+export function createAesEncryptStream(password: string): Transform {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const keys = deriveKeys(password, salt);
+  const ctr = new AesCtr(keys.encryptionKey);
+  const hmac = crypto.createHmac('sha1', keys.hmacKey);
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const encrypted = ctr.update(chunk);
+      hmac.update(encrypted);
+      callback(null, encrypted);
+    },
+    flush(callback) {
+      callback(null, hmac.digest().subarray(0, AUTH_LENGTH));
+    },
+  });
+  stream.push(Buffer.concat([salt, keys.verifier]));
+  return stream;
+}
+
+/**
+ * Stream version of decryptAes; the authentication code is checked when
+ * the stream ends
+ */
+export function createAesDecryptStream(password: string): Transform {
+  let ctr: AesCtr | null = null;
+  let hmac: crypto.Hmac | null = null;
+  // Holds back the header at first, then the last AUTH_LENGTH bytes seen
+  let pending = Buffer.alloc(0);
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      let data = Buffer.concat([pending, chunk]);
+      if (!ctr) {
+        if (data.length < SALT_LENGTH + VERIFIER_LENGTH) {
+          pending = data;
+          return callback();
+        }
+        const keys = deriveKeys(password, data.subarray(0, SALT_LENGTH));
+        const verifier = data.subarray(
+          SALT_LENGTH,
+          SALT_LENGTH + VERIFIER_LENGTH,
+        );
+        if (!keys.verifier.equals(verifier)) {
+          return callback(new Error('Wrong password'));
+        }
+        ctr = new AesCtr(keys.encryptionKey);
+        hmac = crypto.createHmac('sha1', keys.hmacKey);
+        data = data.subarray(SALT_LENGTH + VERIFIER_LENGTH);
+      }
+
+      const length = Math.max(0, data.length - AUTH_LENGTH);
+      const encrypted = data.subarray(0, length);
+      pending = data.subarray(length);
+      hmac!.update(encrypted);
+      callback(null, ctr.update(encrypted));
+    },
+    flush(callback) {
+      if (!hmac || !hmac.digest().subarray(0, AUTH_LENGTH).equals(pending)) {
+        return callback(
+          new Error('Authentication code mismatch, the data is corrupted'),
+        );
+      }
+      callback();
+    },
+  });
+}
+
+function deriveKeys(password: string, salt: Buffer) {
+  const key = crypto.pbkdf2Sync(
+    password,
+    salt,
+    ITERATIONS,
+    KEY_LENGTH * 2 + VERIFIER_LENGTH,
+    'sha1',
+  );
+  return {
+    encryptionKey: key.subarray(0, KEY_LENGTH),
+    hmacKey: key.subarray(KEY_LENGTH, KEY_LENGTH * 2),
+    verifier: key.subarray(KEY_LENGTH * 2),
+  };
+}
+
+function authCode(hmacKey: Buffer, encrypted: Buffer): Buffer {
+  return crypto
+    .createHmac('sha1', hmacKey)
+    .update(encrypted)
+    .digest()
+    .subarray(0, AUTH_LENGTH);
+}
+
+/**
+ * AES-CTR as used by WinZip: the block counter is little-endian and starts
+ * at 1, so Node's big-endian aes-256-ctr cannot be used directly. Data can
+ * be passed in chunks of any size.
+ */
+class AesCtr {
+  private cipher: crypto.Cipher;
+  private counter = 0;
+  private keyStream = Buffer.alloc(0);
+  private used = 0;
+
+  constructor(key: Buffer) {
+    this.cipher = crypto.createCipheriv('aes-256-ecb', key, null);
+    this.cipher.setAutoPadding(false);
+  }
+
+  update(data: Buffer): Buffer {
+    const result = Buffer.alloc(data.length);
+    for (let i = 0; i < data.length; i++) {
+      if (this.used === this.keyStream.length) {
+        this.nextKeyStream(data.length - i);
+      }
+      result[i] = data[i] ^ this.keyStream[this.used++];
+    }
+    return result;
+  }
+
+  private nextKeyStream(length: number): void {
+    const blocks = Math.ceil(length / 16);
+    const counters = Buffer.alloc(blocks * 16);
+    for (let i = 0; i < blocks; i++) {
+      const counter = ++this.counter;
+      counters.writeUInt32LE(counter >>> 0, i * 16);
+      counters.writeUInt32LE(Math.floor(counter / 0x100000000), i * 16 + 4);
+    }
+    this.keyStream = this.cipher.update(counters);
+    this.used = 0;
+  }
+}
@@ -5,7 +5,6 @@
 
 import AdmZip from 'adm-zip';
 import * as fs from 'fs';
-import * as os from 'os';
 import * as path from 'path';
 
 export interface ZipPath {
@@ -16,6 +15,16 @@ export interface ZipPath {
   isNestedZip: boolean;
 }
 
+export interface ZipListEntry {
+  name: string;
+  internalPath: string;
+  size: number;
+  time: Date;
+  isDirectory: boolean;
+  /** Nested ZIP file, listed as a directory */
+  isArchive: boolean;
+}
+
 export class ZipHelper {
   /**
    * Parse a path that might contain a ZIP file reference (including nested ZIPs)
@@ -32,7 +41,8 @@ export class ZipHelper {
 
     let currentPath = '';
     for (let i = 0; i < parts.length; i++) {
-      currentPath = currentPath ? `${currentPath}/${parts[i]}` : parts[i];
+      // Keep the leading empty part so absolute POSIX paths stay absolute
+      currentPath = i === 0 ? parts[i] : `${currentPath}/${parts[i]}`;
       if (parts[i].toLowerCase().endsWith('.zip')) {
         zipMatches.push(currentPath);
       }
@@ -96,139 +106,12 @@ export class ZipHelper {
   }
 
   /**
-   * Check if an entry exists in a ZIP file
-   */
-  static entryExistsInZip(zipFilePath: string, entryPath: string): boolean {
-    if (!fs.existsSync(zipFilePath)) {
-      return false;
-    }
-    try {
-      const zip = new AdmZip(zipFilePath);
-      const normalizedPath = entryPath.replace(/\\/g, '/');
-      const entry = zip.getEntry(normalizedPath);
-      return entry !== null;
-    } catch {
-      return false;
-    }
-  }
-
-  /**
-   * Extract nested ZIP to temp directory and return the temp path
-   */
-  private static extractNestedZipToTemp(
-    outerZipPath: string,
-    nestedZipPath: string,
-  ): string {
-    const tempDir = path.join(os.tmpdir(), `nested-zip-${Date.now()}`);
-    fs.mkdirSync(tempDir, { recursive: true });
-
-    const tempZipPath = path.join(tempDir, path.basename(nestedZipPath));
-
-    // Extract the nested ZIP file from the outer ZIP
-    this.extractFromZip(outerZipPath, nestedZipPath, tempZipPath);
-
-    return tempZipPath;
-  }
-
-  /**
-   * Handle nested ZIP path by extracting intermediate ZIPs to temp locations
-   */
-  private static resolveNestedZipPath(zipPath: ZipPath): {
-    finalZipPath: string;
-    finalInternalPath: string;
-    tempPaths: string[];
-  } {
-    console.log('[resolveNestedZipPath] Starting resolution:', zipPath);
-
-    if (!zipPath.isNestedZip) {
-      return {
-        finalZipPath: zipPath.zipFile,
-        finalInternalPath: zipPath.internalPath,
-        tempPaths: [],
-      };
-    }
-
-    const tempPaths: string[] = [];
-    let currentZipPath = zipPath.zipFile;
-
-    // Extract each nested ZIP in sequence
-    for (let i = 0; i < zipPath.nestedZips.length; i++) {
-      const nestedZip = zipPath.nestedZips[i];
-      console.log(
-        `[resolveNestedZipPath] Extracting nested ZIP ${i + 1}/${zipPath.nestedZips.length}:`,
-        {
-          from: currentZipPath,
-          zipName: nestedZip,
-        },
-      );
-
-      try {
-        const tempZipPath = this.extractNestedZipToTemp(
-          currentZipPath,
-          nestedZip,
-        );
-        console.log('[resolveNestedZipPath] Extracted to temp:', tempZipPath);
-        tempPaths.push(path.dirname(tempZipPath));
-        currentZipPath = tempZipPath;
-      } catch (error) {
-        console.error('[resolveNestedZipPath] Extraction failed:', error);
-        throw error;
-      }
-    }
-
-    // The remaining internal path after all the nested ZIPs
-    // If internalPath is just the last nested ZIP name, we want empty string (root)
-    const lastNestedZip = zipPath.nestedZips[zipPath.nestedZips.length - 1];
-    let finalInternalPath = '';
-
-    if (zipPath.internalPath.length > lastNestedZip.length) {
-      // There's more path after the last nested ZIP
-      finalInternalPath = zipPath.internalPath.substring(
-        lastNestedZip.length + 1,
-      );
-    }
-
-    console.log('[resolveNestedZipPath] Resolved:', {
-      finalZipPath: currentZipPath,
-      finalInternalPath,
-      tempPaths,
-    });
-
-    return {
-      finalZipPath: currentZipPath,
-      finalInternalPath: finalInternalPath,
-      tempPaths: tempPaths,
-    };
-  }
-
-  /**
-   * Clean up temp directories
-   */
-  private static cleanupTempPaths(tempPaths: string[]): void {
-    for (const tempPath of tempPaths) {
-      try {
-        if (fs.existsSync(tempPath)) {
-          fs.rmSync(tempPath, { recursive: true, force: true });
-        }
-      } catch (error) {
-        console.warn(`Failed to cleanup temp path ${tempPath}:`, error);
-      }
-    }
-  }
-
-  /**
-   * List contents of a ZIP file or folder within ZIP (supports nested ZIPs)
+   * List the direct children of a folder inside an opened ZIP.
+   * Directories implied by deeper entries are included; nested ZIP files are
+   * flagged as archives so they can be navigated like folders.
    */
-  static listZipContents(zipFilePath: string, internalPath: string = ''): any {
-    if (!fs.existsSync(zipFilePath)) {
-      throw new Error(`ZIP file does not exist: ${zipFilePath}`);
-    }
-
-    const zip = new AdmZip(zipFilePath);
-    const entries = zip.getEntries();
-
-    const files: any[] = [];
-    const directories: any[] = [];
+  static listEntries(zip: AdmZip, internalPath: string = ''): ZipListEntry[] {
+    const result: ZipListEntry[] = [];
     const seenDirs = new Set<string>();
 
     // Normalize internal path
@@ -237,7 +120,7 @@ export class ZipHelper {
       : '';
     const prefix = normalizedInternal ? normalizedInternal + '/' : '';
 
-    for (const entry of entries) {
+    for (const entry of zip.getEntries()) {
       const entryPath = entry.entryName.replace(/\\/g, '/');
 
       // Skip if not in current folder
@@ -250,11 +133,6 @@ export class ZipHelper {
         ? entryPath.substring(prefix.length)
         : entryPath;
 
-      // Skip if empty (we're at the current folder itself)
-      if (!relativePath) {
-        continue;
-      }
-
       // Check if it's a direct child
       const parts = relativePath.split('/').filter((p) => p);
       if (parts.length === 0) continue;
@@ -266,51 +144,71 @@ export class ZipHelper {
         : name;
 
       if (isDirectChild && !entry.isDirectory) {
-        // Direct file - check if it's a ZIP file
-        const isZipFile = name.toLowerCase().endsWith('.zip');
-
-        if (isZipFile) {
-          // Treat nested ZIP as a directory so it can be navigated
+        const isArchive = name.toLowerCase().endsWith('.zip');
+        if (isArchive) {
           seenDirs.add(name);
-          directories.push({
-            name: name,
-            path: `${zipFilePath}/${fullInternalPath}`,
-            size: entry.header.size,
-            created: entry.header.time.toISOString(),
-            modified: entry.header.time.toISOString(),
-            isDirectory: true,
-            isFile: false,
-            isZipEntry: true,
-          });
-        } else {
-          // Regular file
-          files.push({
-            name: name,
-            path: `${zipFilePath}/${fullInternalPath}`,
-            size: entry.header.size,
-            created: entry.header.time.toISOString(),
-            modified: entry.header.time.toISOString(),
-            isDirectory: false,
-            isFile: true,
-            isZipEntry: true,
-          });
         }
+        result.push({
+          name,
+          internalPath: fullInternalPath,
+          size: entry.header.size,
+          time: entry.header.time,
+          isDirectory: isArchive,
+          isArchive,
+        });
       } else if (!seenDirs.has(name)) {
         // Directory (either direct subdirectory or implied by deeper files)
         seenDirs.add(name);
-        directories.push({
-          name: name,
-          path: `${zipFilePath}/${fullInternalPath}`,
+        result.push({
+          name,
+          internalPath: fullInternalPath,
           size: 0,
-          created: entry.header.time.toISOString(),
-          modified: entry.header.time.toISOString(),
+          time: entry.header.time,
           isDirectory: true,
-          isFile: false,
-          isZipEntry: true,
+          isArchive: false,
         });
       }
     }
 
+    return result;
+  }
+
+  /**
+   * List contents of a ZIP file or folder within ZIP
+   */
+  static listZipContents(zipFilePath: string, internalPath: string = ''): any {
+    if (!fs.existsSync(zipFilePath)) {
+      throw new Error(`ZIP file does not exist: ${zipFilePath}`);
+    }
+
+    const files: any[] = [];
+    const directories: any[] = [];
+
+    for (const entry of this.listEntries(
+      new AdmZip(zipFilePath),
+      internalPath,
+    )) {
+      const item = {
+        name: entry.name,
+        path: `${zipFilePath}/${entry.internalPath}`,
+        size: entry.size,
+        created: entry.time.toISOString(),
+        modified: entry.time.toISOString(),
+        isDirectory: entry.isDirectory,
+        isFile: !entry.isDirectory,
+        isZipEntry: true,
+      };
+      if (entry.isDirectory) {
+        directories.push(item);
+      } else {
+        files.push(item);
+      }
+    }
+
+    const normalizedInternal = internalPath
+      ? internalPath.replace(/\\/g, '/').replace(/\/$/, '')
+      : '';
+
     return {
       success: true,
       operation: 'list',
@@ -479,88 +377,6 @@ export class ZipHelper {
     zip.writeZip(zipFilePath);
   }
 
-  /**
-   * Scan a source directory for files that conflict with existing entries in a ZIP.
-   * Returns relative paths (e.g. "subdir/file.txt") of conflicting files.
-   */
-  static scanFolderConflictsInZip(
-    zipFilePath: string,
-    internalPrefix: string,
-    sourceFolderPath: string,
-  ): string[] {
-    if (!fs.existsSync(zipFilePath)) return [];
-    const zip = new AdmZip(zipFilePath);
-    const conflicts: string[] = [];
-    const normalizedPrefix = internalPrefix
-      .replace(/\\/g, '/')
-      .replace(/\/$/, '');
-
-    const scan = (dir: string, relPath: string) => {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
-      for (const entry of entries) {
-        const childRel = relPath ? `${relPath}/${entry.name}` : entry.name;
-        if (entry.isDirectory()) {
-          scan(path.join(dir, entry.name), childRel);
-        } else if (entry.isFile()) {
-          const zipEntryPath = normalizedPrefix
-            ? `${normalizedPrefix}/${childRel}`
-            : childRel;
-          if (zip.getEntry(zipEntryPath) !== null) {
-            conflicts.push(childRel);
-          }
-        }
-      }
-    };
-
-    scan(sourceFolderPath, '');
-    return conflicts;
-  }
-
-  /**
-   * Add a folder to ZIP selectively — adds new files and those in overwriteFiles,
-   * skips existing files not approved for overwriting.
-   * overwriteFiles: relative paths (e.g. "subdir/file.txt") approved for overwriting.
-   */
-  static addFolderToZipSelective(
-    zipFilePath: string,
-    sourceFolderPath: string,
-    internalPrefix: string,
-    overwriteFiles: Set<string>,
-  ): void {
-    const zip = fs.existsSync(zipFilePath)
-      ? new AdmZip(zipFilePath)
-      : new AdmZip();
-    const normalizedPrefix = internalPrefix
-      .replace(/\\/g, '/')
-      .replace(/\/$/, '');
-
-    const addDir = (dir: string, relPath: string) => {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
-      for (const entry of entries) {
-        const childRel = relPath ? `${relPath}/${entry.name}` : entry.name;
-        const zipEntryPath = normalizedPrefix
-          ? `${normalizedPrefix}/${childRel}`
-          : childRel;
-        if (entry.isDirectory()) {
-          addDir(path.join(dir, entry.name), childRel);
-        } else if (entry.isFile()) {
-          const entryExists = zip.getEntry(zipEntryPath) !== null;
-          if (entryExists && !overwriteFiles.has(childRel)) {
-            continue; // user did not approve overwriting this file
-          }
-          if (entryExists) {
-            zip.deleteFile(zipEntryPath);
-          }
-          const content = fs.readFileSync(path.join(dir, entry.name));
-          zip.addFile(zipEntryPath, content);
-        }
-      }
-    };
-
-    addDir(sourceFolderPath, '');
-    zip.writeZip(zipFilePath);
-  }
-
   /**
    * Delete a file or directory from ZIP
    */
@@ -0,0 +1,319 @@
+/**
+ * Job Manager
+ * Runs command executions as jobs that can be queried by ID,
+ * stream progress events and be cancelled, paused or resumed
+ */
+
+import { JobContext, JobProgress } from './commands/command-interface.js';
+
+export type JobStatus =
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface JobInfo {
+  id: string;
+  toolname: string;
+  operation?: string;
+  status: JobStatus;
+  progress?: JobProgress;
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export interface JobEvent {
+  type: 'started' | 'progress' | 'status';
+  job: JobInfo;
+}
+
+export type JobEventListener = (event: JobEvent) => void;
+
+// Keep finished jobs queryable for a while, but don't grow forever. Only
+// their JobInfo is kept, results are released once passed back.
+const MAX_FINISHED_JOBS = 100;
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Generate a unique job ID like job-1771955892868-v19undbz8
+ */
+function createJobId(): string {
+  return `job-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+class Job implements JobContext {
+  readonly info: JobInfo;
+  // The command result, only held until the job has finished
+  private outcome: Promise<any> | null;
+  private cancelHandlers: (() => void)[] = [];
+  private resumeWaiters: (() => void)[] = [];
+  private isCancelled = false;
+
+  constructor(
+    id: string,
+    toolname: string,
+    operation: string | undefined,
+    private emit: (event: JobEvent) => void,
+    run: (job: Job) => Promise<any>,
+  ) {
+    this.info = {
+      id,
+      toolname,
+      operation,
+      status: 'running',
+      createdAt: new Date().toISOString(),
+    };
+
+    // Start on the next tick so callers can subscribe before the first event
+    const outcome = Promise.resolve()
+      .then(() => run(this))
+      .then(
+        (result) => {
+          if (this.isCancelled || result?.cancelled) {
+            this.finish('cancelled', result?.error);
+          } else if (result && result.success === false) {
+            this.finish('failed', result.error);
+          } else {
+            this.finish('completed');
+          }
+          return result;
+        },
+        (error: any) => {
+          this.finish(
+            this.isCancelled ? 'cancelled' : 'failed',
+            error?.message || 'Unknown error',
+          );
+          throw error;
+        },
+      );
+    this.outcome = outcome;
+    // Callers waiting already hold the result, the job lets go of it
+    const release = () => {
+      this.outcome = null;
+    };
+    outcome.then(release, release);
+  }
+
+  get id(): string {
+    return this.info.id;
+  }
+
+  get cancelled(): boolean {
+    return this.isCancelled;
+  }
+
+  get paused(): boolean {
+    return this.info.status === 'paused';
+  }
+
+  get finished(): boolean {
+    return FINISHED_STATUSES.includes(this.info.status);
+  }
+
+  /**
+   * The command result; only available to callers that wait before the
+   * job has finished
+   */
+  result(): Promise<any> {
+    return (
+      this.outcome ??
+      Promise.reject(new Error(`Result of job ${this.id} is no longer kept`))
+    );
+  }
+
+  report(progress: JobProgress): void {
+    // Late reports (e.g. OCR finishing after a scan returned) are still delivered
+    this.info.progress = progress;
+    this.emit({ type: 'progress', job: { ...this.info } });
+  }
+
+  async checkpoint(): Promise<void> {
+    while (this.paused && !this.isCancelled) {
+      await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+    }
+  }
+
+  onCancel(handler: () => void): void {
+    if (this.isCancelled) {
+      handler();
+      return;
+    }
+    this.cancelHandlers.push(handler);
+  }
+
+  cancel(): boolean {
+    if (this.finished || this.isCancelled) return false;
+    this.isCancelled = true;
+    const handlers = this.cancelHandlers;
+    this.cancelHandlers = [];
+    for (const handler of handlers) {
+      try {
+        handler();
+      } catch (error: any) {
+        console.warn(`[Jobs] Cancel handler failed: ${error.message}`);
+      }
+    }
+    this.wakeUp();
+    return true;
+  }
+
+  pause(): boolean {
+    if (this.info.status !== 'running' || this.isCancelled) return false;
+    this.setStatus('paused');
+    return true;
+  }
+
+  resume(): boolean {
+    if (this.info.status !== 'paused') return false;
+    this.setStatus('running');
+    this.wakeUp();
+    return true;
+  }
+
+  private wakeUp(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private setStatus(status: JobStatus): void {
+    this.info.status = status;
+    this.emit({ type: 'status', job: { ...this.info } });
+  }
+
+  private finish(status: JobStatus, error?: string): void {
+    this.info.finishedAt = new Date().toISOString();
+    if (error) {
+      this.info.error = error;
+    }
+    this.setStatus(status);
+  }
+}
+
+export class JobManager {
+  private jobs: Map<string, Job> = new Map();
+  private listeners: Set<JobEventListener> = new Set();
+
+  /**
+   * Start a new job
+   * @param toolname - Name of the command the job runs
+   * @param params - Command parameters (used to derive the operation name)
+   * @param run - Function that executes the command with the job context
+   * @param jobId - Optional caller-provided job ID
+   * @returns Snapshot of the started job
+   */
+  start(
+    toolname: string,
+    params: any,
+    run: (job: JobContext) => Promise<any>,
+    jobId?: string,
+  ): JobInfo {
+    const id = jobId || createJobId();
+    if (this.jobs.get(id) && !this.jobs.get(id)!.finished) {
+      throw new Error(`Job already running: ${id}`);
+    }
+
+    const operation =
+      params && typeof params === 'object'
+        ? params.operation || params.action
+        : undefined;
+
+    const job = new Job(
+      id,
+      toolname,
+      operation,
+      (event) => {
+        this.emit(event);
+        if (FINISHED_STATUSES.includes(event.job.status)) {
+          this.pruneFinishedJobs();
+        }
+      },
+      run,
+    );
+    this.jobs.set(id, job);
+    this.pruneFinishedJobs();
+    this.emit({ type: 'started', job: { ...job.info } });
+
+    return { ...job.info };
+  }
+
+  /**
+   * Get a job snapshot by ID
+   */
+  get(id: string): JobInfo | undefined {
+    const job = this.jobs.get(id);
+    return job ? { ...job.info } : undefined;
+  }
+
+  /**
+   * List all known jobs (running first, then newest first)
+   */
+  list(): JobInfo[] {
+    return Array.from(this.jobs.values())
+      .map((job) => ({ ...job.info }))
+      .sort((a, b) => {
+        const aFinished = FINISHED_STATUSES.includes(a.status) ? 1 : 0;
+        const bFinished = FINISHED_STATUSES.includes(b.status) ? 1 : 0;
+        if (aFinished !== bFinished) return aFinished - bFinished;
+        return b.createdAt.localeCompare(a.createdAt);
+      });
+  }
+
+  /**
+   * Wait for a job to finish and return the command result. Finished jobs
+   * no longer have their result, use get() for their status.
+   */
+  wait(id: string): Promise<any> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return Promise.reject(new Error(`Unknown job: ${id}`));
+    }
+    return job.result();
+  }
+
+  cancel(id: string): boolean {
+    return this.jobs.get(id)?.cancel() ?? false;
+  }
+
+  pause(id: string): boolean {
+    return this.jobs.get(id)?.pause() ?? false;
+  }
+
+  resume(id: string): boolean {
+    return this.jobs.get(id)?.resume() ?? false;
+  }
+
+  /**
+   * Subscribe to job events
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: JobEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: JobEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error: any) {
+        console.warn(`[Jobs] Listener failed: ${error.message}`);
+      }
+    }
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter(
+      (job) => job.finished,
+    );
+    const excess = finished.length - MAX_FINISHED_JOBS;
+    for (let i = 0; i < excess; i++) {
+      this.jobs.delete(finished[i].id);
+    }
+  }
+}
@@ -1,5 +1,5 @@
-import { IpcMainInvokeEvent } from 'electron';
-const { app, clipboard } = require('electron');
+import { IpcMainInvokeEvent, WebContents } from 'electron';
+const { app, clipboard, Notification } = require('electron');
 
 // Shared CommandHandler instance to maintain state across IPC calls
 let sharedHandler: any = null;
@@ -17,6 +17,68 @@ function getCommandHandler() {
   return sharedHandler;
 }
 
+// Renderer that started each job. Running jobs keep their entry until they
+// finish; finished jobs stay a while longer for late progress (e.g. OCR
+// finishing after a scan returned), oldest first dropped
+const jobSenders = new Map<string, WebContents>();
+const finishedJobSenders = new Map<string, WebContents>();
+const MAX_FINISHED_JOB_SENDERS = 100;
+const FINISHED_JOB_STATUSES = ['completed', 'failed', 'cancelled'];
+const MONITOR_RESUME_DELAY_MS = 5000;
+let jobForwardingActive = false;
+
+function rememberJobSender(jobId: string, sender: WebContents) {
+  jobSenders.set(jobId, sender);
+}
+
+function forgetJobSender(jobId: string) {
+  const sender = jobSenders.get(jobId);
+  if (!sender) return;
+  jobSenders.delete(jobId);
+  finishedJobSenders.set(jobId, sender);
+  if (finishedJobSenders.size > MAX_FINISHED_JOB_SENDERS) {
+    const oldest = finishedJobSenders.keys().next().value;
+    if (oldest !== undefined) finishedJobSenders.delete(oldest);
+  }
+}
+
+/**
+ * Forward job events to the renderer that started the job.
+ * Progress with a channel is also sent on that channel for existing listeners.
+ */
+function ensureJobForwarding(handler: any) {
+  if (jobForwardingActive) return;
+  jobForwardingActive = true;
+
+  handler.onJobEvent((jobEvent: any) => {
+    const jobId = jobEvent.job.id;
+    const sender = jobSenders.get(jobId) ?? finishedJobSenders.get(jobId);
+    if (
+      jobEvent.type === 'status' &&
+      FINISHED_JOB_STATUSES.includes(jobEvent.job.status)
+    ) {
+      forgetJobSender(jobId);
+    }
+    if (!sender || sender.isDestroyed()) return;
+
+    if (jobEvent.type === 'progress') {
+      const progress = jobEvent.job.progress;
+      if (progress?.channel) {
+        // Channel payloads can be large (e.g. scan trees) - send them only once
+        sender.send(progress.channel, progress.data);
+        sender.send('job-progress', {
+          ...jobEvent.job,
+          progress: { ...progress, data: undefined },
+        });
+      } else {
+        sender.send('job-progress', jobEvent.job);
+      }
+    } else {
+      sender.send('job-status', jobEvent.job);
+    }
+  });
+}
+
 export function registerCommands(ipcMain: any, version: string) {
   ipcMain.handle('ping', () => 'Pong');
   ipcMain.handle('getVersion', () => version);
@@ -53,280 +115,41 @@ export function registerCommands(ipcMain: any, version: string) {
 
   ipcMain.handle(
     'cli-execute',
-    async (event: IpcMainInvokeEvent, toolname: string, params: any) => {
+    async (
+      event: IpcMainInvokeEvent,
+      toolname: string,
+      params: any,
+      options?: { jobId?: string; detached?: boolean },
+    ) => {
       try {
         // Use shared handler to maintain state
         const handler = getCommandHandler();
-
-        // Get command instance for progress callback setup
-        const command = handler.getCommand(toolname);
-
-        // If it's a file-operations command with zip, copy, move, compare, directory-size, or search operation, set up progress callback
-        if (
-          toolname === 'file-operations' &&
-          (params.operation === 'zip' ||
-            params.operation === 'copy' ||
-            params.operation === 'move' ||
-            params.operation === 'compare' ||
-            params.operation === 'directory-size' ||
-            params.operation === 'search') &&
-          command
-        ) {
-          const eventName =
-            params.operation === 'zip'
-              ? 'zip-progress'
-              : params.operation === 'compare'
-                ? 'compare-progress'
-                : params.operation === 'directory-size'
-                  ? 'directory-size-progress'
-                  : params.operation === 'search'
-                    ? 'search-progress'
-                    : 'copy-progress'; // 'copy' and 'move' both use copy-progress
-
-          // Reset cancellation flag before starting
-          (command as any).resetCancellation?.();
-
-          // Set up progress callback to send events to renderer
-          (command as any).setProgressCallback?.(
-            (current: number, total: number, fileName: string) => {
-              // For directory-size, 'total' is the accumulated size, not a count
-              if (params.operation === 'directory-size') {
-                event.sender?.send(eventName, {
-                  current,
-                  totalSize: total,
-                  fileName,
-                });
-              } else if (params.operation === 'search') {
-                // For search, 'current' is files scanned, 'total' is 0 (unknown)
-                event.sender?.send(eventName, {
-                  filesScanned: current,
-                  currentFile: fileName,
-                });
-              } else {
-                event.sender?.send(eventName, {
-                  current,
-                  total,
-                  fileName,
-                  percentage: Math.round((current / total) * 100),
-                });
-              }
-            },
-          );
+        ensureJobForwarding(handler);
+
+        // Every execution runs as a job; progress is forwarded to the caller
+        const job = handler.startJob(toolname, params, options?.jobId);
+        rememberJobSender(job.id, event.sender);
+
+        // Detached jobs return immediately and are tracked via job-* channels
+        if (options?.detached) {
+          return {
+            success: true,
+            jobId: job.id,
+            toolname: toolname,
+            timestamp: new Date().toISOString(),
+          };
         }
 
-        // If it's a garbage-finder command with scan operation, set up progress callback
-        if (
-          toolname === 'garbage-finder' &&
-          params.operation === 'scan' &&
-          command
-        ) {
-          // Reset cancellation flag before starting
-          (command as any).resetCancellation?.();
-
-          // Set up progress callback to send events to renderer
-          (command as any).setProgressCallback?.(
-            (
-              foldersScanned: number,
-              currentSize: number,
-              currentPath: string,
-              percentage: number,
-              tree: any[],
-            ) => {
-              event.sender?.send('garbage-scan-progress', {
-                foldersScanned,
-                currentSize,
-                currentPath,
-                percentage,
-                tree,
-              });
-            },
-          );
-        }
-
-        // If it's a restic command with backup operation, set up progress callback
-        if (toolname === 'restic' && params.operation === 'backup' && command) {
-          // Reset cancellation flag before starting
-          (command as any).resetCancellation?.();
-
-          // Set up progress callback to send events to renderer
-          (command as any).setProgressCallback?.((progress: any) => {
-            event.sender?.send('restic-backup-progress', progress);
-          });
-        }
-
-        // If it's an FTP command with download or upload operation, set up progress callback
-        if (
-          toolname === 'ftp' &&
-          (params.operation === 'download' || params.operation === 'upload') &&
-          command
-        ) {
-          const eventName =
-            params.operation === 'download'
-              ? 'ftp-download-progress'
-              : 'ftp-upload-progress';
-
-          // Set up progress callback to send events to renderer
-          (command as any).setProgressCallback?.(
-            (current: number, total: number, fileName: string) => {
-              event.sender?.send(eventName, {
-                current,
-                total,
-                fileName,
-                percentage: total > 0 ? Math.round((current / total) * 100) : 0,
-              });
-            },
-          );
-        }
-
-        // If it's a scanner command with scan-preview action, set up progress callback
-        if (
-          toolname === 'scanner' &&
-          params.action === 'scan-preview' &&
-          command
-        ) {
-          // Set up progress callback to send events to renderer
-          (command as any).setProgressCallback?.(
-            (
-              pageNumber: number,
-              fileName: string,
-              fileSize: number,
-              filePath: string,
-              preview: string,
-            ) => {
-              const eventData = {
-                pageNumber,
-                fileName,
-                fileSize,
-                filePath,
-                preview,
-              };
-              console.log(
-                '[IPC] Sending scanner-page-scanned: page',
-                pageNumber,
-                'size:',
-                Math.round(fileSize / 1024) + 'KB',
-              );
-              console.log('[IPC] event.sender exists:', !!event.sender);
-              if (event.sender) {
-                event.sender.send('scanner-page-scanned', eventData);
-                console.log('[IPC] Event sent successfully');
-              } else {
-                console.log('[IPC] ERROR: event.sender is null!');
-              }
-            },
-          );
-        }
-
-        // Execute command directly
-        const result = await handler.execute(toolname, params);
-
-        // Clear progress callback after operation completes
-        if (
-          toolname === 'file-operations' &&
-          (params.operation === 'zip' ||
-            params.operation === 'copy' ||
-            params.operation === 'compare' ||
-            params.operation === 'directory-size' ||
-            params.operation === 'search') &&
-          command
-        ) {
-          (command as any).setProgressCallback?.(undefined);
-        }
-
-        // Clear garbage-finder progress callback after operation completes
-        if (
-          toolname === 'garbage-finder' &&
-          params.operation === 'scan' &&
-          command
-        ) {
-          (command as any).setProgressCallback?.(undefined);
-        }
-
-        // Clear restic progress callback after operation completes
-        if (toolname === 'restic' && params.operation === 'backup' && command) {
-          (command as any).setProgressCallback?.(undefined);
-        }
-
-        // Clear FTP progress callback after operation completes
-        if (
-          toolname === 'ftp' &&
-          (params.operation === 'download' || params.operation === 'upload') &&
-          command
-        ) {
-          (command as any).setProgressCallback?.(undefined);
-        }
-
-        // Clear scanner progress callback after operation completes
-        if (
-          toolname === 'scanner' &&
-          params.action === 'scan-preview' &&
-          command
-        ) {
-          (command as any).setProgressCallback?.(undefined);
-        }
+        const result = await handler.waitForJob(job.id);
 
         return {
           success: true,
           data: result,
+          jobId: job.id,
           toolname: toolname,
           timestamp: new Date().toISOString(),
         };
       } catch (error: any) {
-        // Clear progress callback on error
-        if (
-          toolname === 'file-operations' &&
-          (params.operation === 'zip' ||
-            params.operation === 'copy' ||
-            params.operation === 'compare' ||
-            params.operation === 'directory-size' ||
-            params.operation === 'search')
-        ) {
-          const handler = getCommandHandler();
-          const command = handler.getCommand(toolname);
-          if (command) {
-            (command as any).setProgressCallback?.(undefined);
-          }
-        }
-
-        // Clear garbage-finder progress callback on error
-        if (toolname === 'garbage-finder' && params.operation === 'scan') {
-          const handler = getCommandHandler();
-          const command = handler.getCommand(toolname);
-          if (command) {
-            (command as any).setProgressCallback?.(undefined);
-          }
-        }
-
-        // Clear restic progress callback on error
-        if (toolname === 'restic' && params.operation === 'backup') {
-          const handler = getCommandHandler();
-          const command = handler.getCommand(toolname);
-          if (command) {
-            (command as any).setProgressCallback?.(undefined);
-          }
-        }
-
-        // Clear FTP progress callback on error
-        if (
-          toolname === 'ftp' &&
-          (params.operation === 'download' || params.operation === 'upload')
-        ) {
-          const handler = getCommandHandler();
-          const command = handler.getCommand(toolname);
-          if (command) {
-            (command as any).setProgressCallback?.(undefined);
-          }
-        }
-
-        // Clear scanner progress callback on error
-        if (toolname === 'scanner' && params.action === 'scan-preview') {
-          const handler = getCommandHandler();
-          const command = handler.getCommand(toolname);
-          if (command) {
-            (command as any).setProgressCallback?.(undefined);
-          }
-        }
-
         return {
           success: false,
           error: error.message || 'Unknown error',
@@ -336,6 +159,43 @@ export function registerCommands(ipcMain: any, version: string) {
       }
     },
   );
+
+  // Job queries and control (usable from any page)
+  ipcMain.handle(
+    'job-get',
+    async (_event: IpcMainInvokeEvent, jobId: string) => {
+      const job = getCommandHandler().getJob(jobId);
+      return job
+        ? { success: true, job }
+        : { success: false, error: 'Job not found' };
+    },
+  );
+
+  ipcMain.handle('job-list', async () => {
+    return { success: true, jobs: getCommandHandler().listJobs() };
+  });
+
+  ipcMain.handle(
+    'job-cancel',
+    async (_event: IpcMainInvokeEvent, jobId: string) => {
+      return { success: getCommandHandler().cancelJob(jobId) };
+    },
+  );
+
+  ipcMain.handle(
+    'job-pause',
+    async (_event: IpcMainInvokeEvent, jobId: string) => {
+      return { success: getCommandHandler().pauseJob(jobId) };
+    },
+  );
+
+  ipcMain.handle(
+    'job-resume',
+    async (_event: IpcMainInvokeEvent, jobId: string) => {
+      return { success: getCommandHandler().resumeJob(jobId) };
+    },
+  );
+
   ipcMain.handle(
     'copy2Clipboard',
     (event: IpcMainInvokeEvent, aString: string) => {
@@ -393,4 +253,42 @@ export function registerCommands(ipcMain: any, version: string) {
       return { success: false, error: error.message };
     }
   });
+
+  // Keep recording the system metrics history, checking alert rules,
+  // watching the DocManager inbox if they were enabled and running the
+  // operation queue left over from the last session. Delayed so loading the
+  // backend does not slow down the app start.
+  setTimeout(() => {
+    try {
+      const command = getCommandHandler().getCommand('system-monitor');
+      (command as any)?.resumeRecorder?.().catch((error: any) => {
+        console.error('Failed to resume metrics recorder:', error.message);
+      });
+      (command as any)?.onAlert?.((alert: any) => {
+        if (!Notification.isSupported()) return;
+        new Notification({ title: alert.title, body: alert.message }).show();
+      });
+      (command as any)?.resumeAlerts?.().catch((error: any) => {
+        console.error('Failed to resume alert rules:', error.message);
+      });
+    } catch (error: any) {
+      console.error('Failed to resume system monitor:', error.message);
+    }
+    try {
+      const command = getCommandHandler().getCommand('scanner');
+      (command as any)?.resumeInbox?.().catch((error: any) => {
+        console.error('Failed to resume document inbox:', error.message);
+      });
+    } catch (error: any) {
+      console.error('Failed to resume document inbox:', error.message);
+    }
+    try {
+      const command = getCommandHandler().getCommand('operation-queue');
+      (command as any)?.resumeQueue?.().catch((error: any) => {
+        console.error('Failed to resume operation queue:', error.message);
+      });
+    } catch (error: any) {
+      console.error('Failed to resume operation queue:', error.message);
+    }
+  }, MONITOR_RESUME_DELAY_MS);
 }
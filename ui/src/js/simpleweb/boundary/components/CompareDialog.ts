@@ -1,5 +1,9 @@
 import { LitElement, css, html } from 'lit'
 import { property } from 'lit/decorators.js'
+import {
+  isArchivePath,
+  isLocalPath,
+} from '../pages/commander/utils/PathUtils.js'
 import './SimpleDialog'
 
 export class CompareDialog extends LitElement {
@@ -326,6 +330,64 @@ export class CompareDialog extends LitElement {
     .regex-button.active {
       background: #0ea5e9;
     }
+
+    .sync-options {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.75rem;
+      align-items: flex-end;
+    }
+
+    .sync-options label {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      color: #94a3b8;
+      font-size: 0.85rem;
+    }
+
+    .sync-options select,
+    .sync-options input {
+      padding: 0.5rem;
+      background: #0f172a;
+      border: 2px solid #475569;
+      color: #fff;
+      font-family: 'JetBrains Mono', monospace;
+      font-size: 0.85rem;
+      border-radius: 4px;
+    }
+
+    .sync-summary {
+      color: #cbd5e1;
+      font-size: 0.9rem;
+    }
+
+    .sync-conflicts {
+      color: #fbbf24;
+      font-size: 0.85rem;
+    }
+
+    .sync-progress {
+      padding: 1rem;
+      background: #1e293b;
+      border-radius: 8px;
+      border: 2px solid #0ea5e9;
+    }
+
+    .sync-progress-bar {
+      width: 100%;
+      height: 20px;
+      background: #0f172a;
+      border-radius: 4px;
+      overflow: hidden;
+      margin-bottom: 0.75rem;
+    }
+
+    .sync-progress-fill {
+      height: 100%;
+      background: linear-gradient(90deg, #0ea5e9, #06b6d4);
+      transition: width 0.3s ease;
+    }
   `
 
   @property({ type: Object })
@@ -369,6 +431,53 @@ export class CompareDialog extends LitElement {
   @property({ type: Boolean })
   showRegexDialog = false
 
+  // Sync plan/progress/result are owned by Commander, which runs the sync
+  @property({ type: Object })
+  syncPlan: any = null
+
+  @property({ type: Object })
+  syncProgress: {
+    phase: string
+    filesDone: number
+    totalFiles: number
+    bytesDone: number
+    totalBytes: number
+    bytesPerSecond: number
+    percentage: number
+    currentFile: string
+  } | null = null
+
+  @property({ type: Boolean })
+  syncRunning = false
+
+  @property({ type: Object })
+  syncResult: any = null
+
+  @property({ type: Boolean })
+  showSyncDialog = false
+
+  @property({ type: String })
+  syncMode: 'mirror' | 'update-only' | 'two-way' = 'update-only'
+
+  @property({ type: String })
+  syncCompareBy: 'size' | 'mtime' | 'checksum' = 'mtime'
+
+  @property({ type: String })
+  syncExclude = ''
+
+  // Keys of plan actions the user unchecked
+  @property({ type: Object })
+  skippedSyncActions: Set<string> = new Set()
+
+  // Sync works on the local disk only, not on servers or inside archives
+  get canSync(): boolean {
+    const paths = [this.result?.leftPath, this.result?.rightPath]
+    return paths.every(
+      (path) =>
+        path && isLocalPath(path) && !path.split(/[\\/]/).some(isArchivePath),
+    )
+  }
+
   formatFileSize(bytes: number): string {
     if (bytes === 0) return ''
     const sizes = ['B', 'KB', 'MB', 'GB']
@@ -577,6 +686,292 @@ export class CompareDialog extends LitElement {
     )
   }
 
+  previewSync() {
+    this.skippedSyncActions = new Set()
+    this.dispatchEvent(
+      new CustomEvent('sync-preview', {
+        bubbles: true,
+        composed: true,
+        detail: {
+          mode: this.syncMode,
+          compareBy: this.syncCompareBy,
+          exclude: this.syncExclude,
+        },
+      }),
+    )
+  }
+
+  applySync() {
+    if (!this.syncPlan) return
+    const actions = this.syncPlan.actions.filter(
+      (action: any) => !this.skippedSyncActions.has(this.syncActionKey(action)),
+    )
+    if (actions.length === 0) return
+
+    this.dispatchEvent(
+      new CustomEvent('sync-apply', {
+        bubbles: true,
+        composed: true,
+        detail: { actions },
+      }),
+    )
+  }
+
+  cancelSync() {
+    this.dispatchEvent(
+      new CustomEvent('sync-cancel', { bubbles: true, composed: true }),
+    )
+  }
+
+  syncActionKey(action: any): string {
+    return `${action.type}:${action.direction}:${action.path}`
+  }
+
+  toggleSyncAction(action: any) {
+    const key = this.syncActionKey(action)
+    const skipped = new Set(this.skippedSyncActions)
+    if (skipped.has(key)) {
+      skipped.delete(key)
+    } else {
+      skipped.add(key)
+    }
+    this.skippedSyncActions = skipped
+  }
+
+  formatSyncAction(action: any): string {
+    const arrow = action.direction === 'left-to-right' ? '→' : '←'
+    switch (action.type) {
+      case 'mkdir':
+        return `📁 ${arrow}`
+      case 'copy':
+        return `📄 ${arrow}`
+      default:
+        return action.direction === 'left-to-right' ? '🗑 right' : '🗑 left'
+    }
+  }
+
+  renderSyncDialog() {
+    const plan = this.syncPlan
+    const progress = this.syncProgress
+    const selectedCount = plan
+      ? plan.actions.filter(
+          (a: any) => !this.skippedSyncActions.has(this.syncActionKey(a)),
+        ).length
+      : 0
+
+    return html`
+      <simple-dialog
+        .open=${true}
+        .title=${'⇄ sync directories'}
+        .width=${'900px'}
+        .maxHeight=${'90vh'}
+        @dialog-close=${() => {
+          if (!this.syncRunning) this.showSyncDialog = false
+        }}
+      >
+        <div class="compare-content">
+          <div class="sync-options">
+            <label>
+              mode
+              <select
+                .value=${this.syncMode}
+                ?disabled=${this.syncRunning}
+                @change=${(e: Event) =>
+                  (this.syncMode = (e.target as HTMLSelectElement)
+                    .value as any)}
+              >
+                <option value="update-only">
+                  update-only (copy new/newer → right)
+                </option>
+                <option value="mirror">mirror (right = left, deletes)</option>
+                <option value="two-way">two-way (newer wins)</option>
+              </select>
+            </label>
+            <label>
+              compare by
+              <select
+                .value=${this.syncCompareBy}
+                ?disabled=${this.syncRunning}
+                @change=${(e: Event) =>
+                  (this.syncCompareBy = (e.target as HTMLSelectElement)
+                    .value as any)}
+              >
+                <option value="mtime">size + date</option>
+                <option value="size">size</option>
+                <option value="checksum">checksum (slow)</option>
+              </select>
+            </label>
+            <label style="flex: 1;">
+              exclude (globs, comma separated)
+              <input
+                type="text"
+                placeholder="node_modules, *.tmp, .git"
+                .value=${this.syncExclude}
+                ?disabled=${this.syncRunning}
+                @input=${(e: Event) =>
+                  (this.syncExclude = (e.target as HTMLInputElement).value)}
+              />
+            </label>
+            <button
+              class="regex-button"
+              ?disabled=${this.syncRunning}
+              @click=${this.previewSync}
+            >
+              🔍 preview plan
+            </button>
+          </div>
+
+          ${this.syncRunning && progress
+            ? html`
+                <div class="sync-progress">
+                  <div class="sync-progress-bar">
+                    <div
+                      class="sync-progress-fill"
+                      style="width: ${progress.percentage}%;"
+                    ></div>
+                  </div>
+                  <div class="sync-summary">
+                    ${progress.phase === 'syncing'
+                      ? html`${progress.percentage}% –
+                        ${this.formatFileSize(progress.bytesDone) || '0 B'} /
+                        ${this.formatFileSize(progress.totalBytes) || '0 B'} –
+                        ${this.formatFileSize(progress.bytesPerSecond) ||
+                        '0 B'}/s
+                        – ${progress.filesDone} / ${progress.totalFiles} actions`
+                      : html`${progress.phase}… ${progress.filesDone} files`}
+                  </div>
+                  <div
+                    style="color: #94a3b8; font-size: 0.8rem; margin-top: 0.5rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;"
+                  >
+                    ${progress.currentFile}
+                  </div>
+                </div>
+              `
+            : ''}
+          ${this.syncResult
+            ? html`<div class="sync-summary">
+                ${this.syncResult.success ? '✅' : '⚠️'}
+                ${this.syncResult.filesCopied} copied,
+                ${this.syncResult.filesDeleted} deleted,
+                ${this.syncResult.directoriesCreated} folders created –
+                ${this.formatFileSize(this.syncResult.bytesCopied) || '0 B'} in
+                ${(this.syncResult.durationMs / 1000).toFixed(1)}s
+                (${this.formatFileSize(this.syncResult.bytesPerSecond) ||
+                '0 B'}/s)
+                ${this.syncResult.error
+                  ? html`<div class="sync-conflicts">
+                      ${this.syncResult.error}
+                    </div>`
+                  : ''}
+              </div>`
+            : ''}
+          ${plan
+            ? html`
+                <div class="sync-summary">
+                  ${plan.summary.copy} to copy
+                  (${this.formatFileSize(plan.summary.totalBytes) || '0 B'}),
+                  ${plan.summary.mkdir} folders to create,
+                  ${plan.summary.delete} to delete, ${plan.skipped} unchanged
+                </div>
+                ${plan.conflicts.length > 0
+                  ? html`<div class="sync-conflicts">
+                      ⚠️ ${plan.conflicts.length} conflict(s) are skipped:
+                      ${plan.conflicts.map(
+                        (c: any) => html`<div>• ${c.path} – ${c.reason}</div>`,
+                      )}
+                    </div>`
+                  : ''}
+                <div class="table-wrapper" style="max-height: 45vh;">
+                  <table class="compare-table">
+                    <thead>
+                      <tr>
+                        <th style="width: 2rem;"></th>
+                        <th class="status-col">Action</th>
+                        <th>Path</th>
+                        <th>Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      ${plan.actions.map(
+                        (action: any) => html`
+                          <tr>
+                            <td>
+                              <input
+                                type="checkbox"
+                                ?disabled=${this.syncRunning}
+                                .checked=${!this.skippedSyncActions.has(
+                                  this.syncActionKey(action),
+                                )}
+                                @change=${() => this.toggleSyncAction(action)}
+                              />
+                            </td>
+                            <td
+                              class="status-col ${action.type === 'delete'
+                                ? 'status-different'
+                                : 'status-left-only'}"
+                            >
+                              ${this.formatSyncAction(action)}
+                            </td>
+                            <td>
+                              <div class="file-name" title=${action.targetPath}>
+                                <span>${action.path}</span>
+                                ${action.type === 'copy'
+                                  ? html`<span class="file-size"
+                                      >${this.formatFileSize(action.size)}</span
+                                    >`
+                                  : ''}
+                              </div>
+                            </td>
+                            <td>${action.reason}</td>
+                          </tr>
+                        `,
+                      )}
+                      ${plan.actions.length === 0
+                        ? html`<tr>
+                            <td
+                              colspan="4"
+                              style="text-align:center; padding:2rem; color:#94a3b8;"
+                            >
+                              Nothing to do – directories are in sync
+                            </td>
+                          </tr>`
+                        : ''}
+                    </tbody>
+                  </table>
+                </div>
+              `
+            : !this.syncRunning
+              ? html`<div class="sync-summary">
+                  Choose a mode and preview the plan. Nothing is changed until
+                  you apply it.
+                </div>`
+              : ''}
+        </div>
+        <div slot="footer" class="dialog-buttons">
+          ${this.syncRunning
+            ? html`<button class="btn-cancel" @click=${this.cancelSync}>
+                ✕ Cancel sync
+              </button>`
+            : html`
+                <button
+                  class="btn-cancel"
+                  @click=${() => (this.showSyncDialog = false)}
+                >
+                  Close (ESC)
+                </button>
+                <button
+                  class="btn-confirm"
+                  ?disabled=${selectedCount === 0}
+                  @click=${this.applySync}
+                >
+                  ⇄ Apply ${selectedCount} action(s)
+                </button>
+              `}
+        </div>
+      </simple-dialog>
+    `
+  }
+
   compareFiles(item: any) {
     // Only compare if both files exist and are not directories
     if (
@@ -885,6 +1280,15 @@ export class CompareDialog extends LitElement {
             ${this.recursive ? '📂' : '📁'} Mode:
             ${this.recursive ? 'Recursive' : 'Current'}
           </button>
+          ${this.canSync
+            ? html`<button
+                class="btn-cancel"
+                @click=${() => (this.showSyncDialog = true)}
+                title="Synchronize the directories (rsync-style)"
+              >
+                ⇄ Sync…
+              </button>`
+            : ''}
           <button class="btn-confirm" @click=${this.recompare}>
             🔄 Compare Again
           </button>
@@ -892,6 +1296,7 @@ export class CompareDialog extends LitElement {
         </div>
       </simple-dialog>
 
+      ${this.showSyncDialog ? this.renderSyncDialog() : ''}
       ${this.showRegexDialog
         ? html`
             <simple-dialog
@@ -5,18 +5,27 @@ import '../components/FileCompare'
 
 // Import from refactored modules
 import { commanderStyles } from './commander/commander.styles.js'
-import type { FileItem, PaneState } from './commander/commander.types.js'
+import type {
+  ArchiveOptions,
+  FileItem,
+  PaneState,
+  SearchFilters,
+} from './commander/commander.types.js'
 import { FavoritesService } from './commander/services/FavoritesService.js'
 import {
   cancelOperation,
   executeDelete,
-  executeFileOperation,
   executeRename,
   executeZip,
 } from './commander/services/FileOperationsHandler.js'
+import { JobService } from '../services/JobService.js'
 import { HistoryService } from './commander/services/HistoryService.js'
 import { KeyboardHandler } from './commander/services/KeyboardHandler.js'
 import { PaneManager } from './commander/services/PaneManager.js'
+import {
+  QueueService,
+  type QueueItemType,
+} from './commander/services/QueueService.js'
 import { settingsService } from './commander/services/SettingsService.js'
 import { FILE_ICONS } from './commander/utils/file-utils.js'
 import {
@@ -27,8 +36,10 @@ import {
   getFileName,
   getParentPath,
   getPathSeparator,
-  isFtpPath,
+  isArchivePath,
+  isRemotePath,
   isSambaPath,
+  isSftpPath,
   maskFtpPassword,
 } from './commander/utils/PathUtils.js'
 import { getNextSortState, sortItems } from './commander/utils/SortUtils.js'
@@ -149,6 +160,9 @@ export class Commander extends LitElement {
   @property({ type: Boolean })
   showHelp = false
 
+  @property({ type: Boolean })
+  showQueue = false
+
   @property({ type: Object })
   deleteDialog: { files: string[] } | null = null
 
@@ -175,6 +189,20 @@ export class Commander extends LitElement {
     percentage: number
   } | null = null
 
+  @property({ type: Object })
+  syncPlan: any = null
+
+  @property({ type: Object })
+  syncProgress: any = null
+
+  @property({ type: Boolean })
+  syncRunning = false
+
+  @property({ type: Object })
+  syncResult: any = null
+
+  private syncJobId: string | null = null
+
   @property({ type: Object })
   quickLaunchDialog: { command: string } | null = null
 
@@ -189,7 +217,11 @@ export class Commander extends LitElement {
   fileCompareDialog: { leftPath: string; rightPath: string } | null = null
 
   @property({ type: Object })
-  zipDialog: { files: string[]; zipFileName: string } | null = null
+  zipDialog: {
+    files: string[]
+    zipFileName: string
+    options: ArchiveOptions
+  } | null = null
 
   @property({ type: Object })
   zipProgress: {
@@ -205,6 +237,8 @@ export class Commander extends LitElement {
     total: number
     fileName: string
     percentage: number
+    bytesDone?: number
+    totalBytes?: number
   } | null = null
 
   @property({ type: Object })
@@ -297,6 +331,11 @@ export class Commander extends LitElement {
 
   private ftpConnectionCancelled = false
 
+  @property({ type: Boolean })
+  showSFTPDialog = false
+
+  private sftpConnectionCancelled = false
+
   @property({ type: Boolean })
   showSMBDialog = false
 
@@ -356,6 +395,13 @@ export class Commander extends LitElement {
       this.loadDirectory('right', this.rightPane.currentPath),
     ])
 
+    // Select files handed over by other pages (e.g. Garbage Finder reports)
+    const selectPaths = sessionStorage.getItem('commander-select')
+    if (selectPaths) {
+      sessionStorage.removeItem('commander-select')
+      this.selectHandedOverFiles(JSON.parse(selectPaths))
+    }
+
     // Load available drives in background (don't block UI)
     this.loadDrives()
 
@@ -406,6 +452,12 @@ export class Commander extends LitElement {
       },
     )
 
+    // Add IPC listener for sync progress (bytes and throughput)
+    ;(window as any).electron.ipcRenderer.on('sync-progress', (data: any) => {
+      this.syncProgress = data
+      this.requestUpdate()
+    })
+
     // Add IPC listener for directory size progress
     ;(window as any).electron.ipcRenderer.on(
       'directory-size-progress',
@@ -534,7 +586,13 @@ export class Commander extends LitElement {
     // Combine all selectable items into a single list
     const items: {
       path: string
-      type: 'favorite' | 'drive' | 'ftp' | 'network-share' | 'add-network'
+      type:
+        | 'favorite'
+        | 'drive'
+        | 'ftp'
+        | 'sftp'
+        | 'network-share'
+        | 'add-network'
     }[] = []
 
     this.favoritePaths.forEach((path) => {
@@ -548,6 +606,9 @@ export class Commander extends LitElement {
     // FTP connect button
     items.push({ path: '', type: 'ftp' })
 
+    // SFTP connect button
+    items.push({ path: '', type: 'sftp' })
+
     // Network shares
     this.availableNetworkShares.forEach((share: any) => {
       items.push({ path: share.remotePath, type: 'network-share' })
@@ -593,6 +654,9 @@ export class Commander extends LitElement {
     if (selectedItem.type === 'ftp') {
       this.showDriveSelector = false
       this.showFTPDialog = true
+    } else if (selectedItem.type === 'sftp') {
+      this.showDriveSelector = false
+      this.showSFTPDialog = true
     } else if (selectedItem.type === 'add-network') {
       // Fresh connection: clear any stale path so the share picked in the dialog is used
       this.pendingSmbPath = null
@@ -612,6 +676,81 @@ export class Commander extends LitElement {
     this.showHelp = false
   }
 
+  openQueue() {
+    this.showQueue = true
+  }
+
+  closeQueue() {
+    this.showQueue = false
+  }
+
+  /**
+   * Add an operation to the background queue instead of running it now.
+   * The queue works on local paths only.
+   */
+  async enqueue(
+    type: QueueItemType,
+    files: string[],
+    destinationPath?: string,
+    archiveOptions?: ArchiveOptions,
+  ): Promise<boolean> {
+    const paths = destinationPath ? [...files, destinationPath] : files
+    if (paths.some((p) => isRemotePath(p) || isSambaPath(p))) {
+      this.setStatus('Only local files can be queued', 'error')
+      return false
+    }
+
+    try {
+      await QueueService.add(
+        type,
+        files,
+        destinationPath,
+        false,
+        archiveOptions,
+      )
+      this.setStatus(
+        `Queued ${type} of ${files.length} file(s) – open the queue with Ctrl+Q`,
+        'success',
+      )
+      return true
+    } catch (error: any) {
+      this.setStatus(`Failed to queue ${type}: ${error.message}`, 'error')
+      return false
+    }
+  }
+
+  async enqueueOperation() {
+    if (!this.operationDialog) return
+
+    const { type, files, destination } = this.operationDialog
+    if (await this.enqueue(type, files, destination)) {
+      this.operationDialog = null
+    }
+  }
+
+  async enqueueDelete() {
+    if (!this.deleteDialog) return
+
+    if (await this.enqueue('delete', this.deleteDialog.files)) {
+      this.deleteDialog = null
+    }
+  }
+
+  async enqueueZip() {
+    if (!this.zipDialog || !this.zipDialog.zipFileName.trim()) return
+
+    const { files, zipFileName, options } = this.zipDialog
+    if (options.password) {
+      this.setStatus('Password protected archives cannot be queued', 'error')
+      return
+    }
+    const destPath = this.getInactivePane().currentPath
+    const zipFilePath = destPath + getPathSeparator(destPath) + zipFileName
+    if (await this.enqueue('zip', files, zipFilePath, options)) {
+      this.zipDialog = null
+    }
+  }
+
   disconnectedCallback() {
     super.disconnectedCallback()
 
@@ -640,16 +779,12 @@ export class Commander extends LitElement {
       // Don't log paths as FTP URLs contain passwords
       // console.log(`Loading directory for ${pane}: ${path}`)
 
-      // Check if this is an FTP path
-      if (path.startsWith('ftp://')) {
-        console.log('FTP path detected, calling FTP list operation')
-        const ftpResponse = await (window as any).electron.ipcRenderer.invoke(
-          'cli-execute',
-          'ftp',
-          { operation: 'list', ftpUrl: path },
-        )
-
-        console.log('FTP Response:', ftpResponse)
+      // Check if this is an FTP/SFTP path
+      if (isRemotePath(path)) {
+        const protocol = isSftpPath(path) ? 'SFTP' : 'FTP'
+        const { FileService } =
+          await import('./commander/services/FileService.js')
+        const ftpResponse = await FileService.remote('list', path)
 
         if (ftpResponse.success && ftpResponse.data) {
           const data = ftpResponse.data
@@ -657,7 +792,7 @@ export class Commander extends LitElement {
 
           // Add parent directory if not at root
           // Extract path after ftp://user@host:port
-          const ftpMatch = path.match(/^ftp:\/\/[^/]+(.*)$/)
+          const ftpMatch = path.match(/^s?ftp:\/\/[^/]+(.*)$/)
           const remotePath = ftpMatch ? ftpMatch[1] : '/'
           // Show ".." if we're not at root (remotePath is more than just "/" or empty)
           if (remotePath && remotePath !== '/' && remotePath.length > 1) {
@@ -666,7 +801,7 @@ export class Commander extends LitElement {
               path.replace(/\/[^/]*\/?$/, '')
             items.push({
               name: '..',
-              path: parentUrl || path.match(/^ftp:\/\/[^/]+/)?.[0] + '/',
+              path: parentUrl || path.match(/^s?ftp:\/\/[^/]+/)?.[0] + '/',
               size: 0,
               created: new Date(),
               modified: new Date(),
@@ -725,14 +860,14 @@ export class Commander extends LitElement {
           const fileCount =
             data.summary?.totalFiles ?? (data.files?.length || 0)
           this.setStatus(
-            `${dirCount} folders, ${fileCount} files (FTP)`,
+            `${dirCount} folders, ${fileCount} files (${protocol})`,
             'success',
           )
           return
         } else {
           const errorMsg = ftpResponse.error || 'Connection failed'
-          this.setStatus(`FTP Error: ${errorMsg}`, 'error')
-          console.error('FTP Error:', errorMsg)
+          this.setStatus(`${protocol} Error: ${errorMsg}`, 'error')
+          console.error(`${protocol} Error:`, errorMsg)
           throw new Error(errorMsg)
         }
       }
@@ -1123,6 +1258,8 @@ export class Commander extends LitElement {
     total: number
     fileName: string
     percentage: number
+    bytesDone?: number
+    totalBytes?: number
   } | null {
     // Return the active progress (FTP download, FTP upload, or regular copy)
     return (
@@ -1130,6 +1267,30 @@ export class Commander extends LitElement {
     )
   }
 
+  /**
+   * Select files in the left pane. Only files in the shown folder can be
+   * selected, the others are counted in the status.
+   */
+  selectHandedOverFiles(paths: string[]) {
+    const wanted = new Set(paths)
+    const indices = this.leftPane.items.flatMap((item, index) =>
+      wanted.has(item.path) ? [index] : [],
+    )
+    if (indices.length === 0) return
+
+    this.activePane = 'left'
+    this.updateActivePane({
+      selectedIndices: new Set(indices),
+      focusedIndex: indices[0],
+    })
+    this.setStatus(
+      indices.length < paths.length
+        ? `${indices.length} of ${paths.length} files selected, the others are in other folders`
+        : `${indices.length} files selected`,
+      'normal',
+    )
+  }
+
   updateActivePane(updates: Partial<PaneState>) {
     // Sync activePane with PaneManager
     this.paneManager.setActivePane(this.activePane)
@@ -1181,12 +1342,11 @@ export class Commander extends LitElement {
     const item = pane.items[index]
     console.log('Double-click on item:', item)
 
-    // Check if this is a ZIP file - treat it like a directory
-    const isZipFile =
-      !item.isDirectory && item.name.toLowerCase().endsWith('.zip')
+    // Archives (ZIP, TAR, 7z) are browsed like directories
+    const isArchive = !item.isDirectory && isArchivePath(item.name)
 
-    if (item.isDirectory || isZipFile) {
-      console.log('Navigating to directory/ZIP:', item.path)
+    if (item.isDirectory || isArchive) {
+      console.log('Navigating to directory/archive:', item.path)
       await this.navigateToDirectory(item.path)
     } else {
       // For files, determine if we should view them or show "open with" dialog
@@ -1745,6 +1905,12 @@ export class Commander extends LitElement {
       this.zipDialog = {
         files: selectedFiles,
         zipFileName: defaultName,
+        options: {
+          format: 'zip',
+          compressionLevel: 6,
+          password: '',
+          volumeSizeMb: 0,
+        },
       }
     } else {
       this.setStatus('No files selected', 'error')
@@ -1760,18 +1926,49 @@ export class Commander extends LitElement {
     }
   }
 
+  updateZipOptions(changes: Partial<ArchiveOptions>) {
+    if (!this.zipDialog) return
+
+    const options = { ...this.zipDialog.options, ...changes }
+    let zipFileName = this.zipDialog.zipFileName
+    if (changes.format) {
+      // Keep the file extension in line with the chosen format
+      const base = zipFileName.replace(/\.(zip|tar\.gz|tar\.xz)$/i, '')
+      zipFileName = `${base}.${changes.format}`
+      if (changes.format !== 'zip') options.password = ''
+    }
+    this.zipDialog = { ...this.zipDialog, zipFileName, options }
+  }
+
   async executeZip() {
     if (!this.zipDialog || !this.zipDialog.zipFileName.trim()) return
 
-    const { files, zipFileName } = this.zipDialog
+    const { files, zipFileName, options } = this.zipDialog
     const destPane = this.getInactivePane()
     const separator = getPathSeparator(destPane.currentPath)
     const zipFilePath = destPane.currentPath + separator + zipFileName
 
     this.zipProgress = null
-    this.setStatus(`Zipping ${files.length} file(s)...`, 'normal')
-
-    const result = await executeZip(files, zipFilePath)
+    this.setStatus(`Packing ${files.length} file(s)...`, 'normal')
+
+    let result = await executeZip(files, zipFilePath, options)
+    if (result.prompt) {
+      const question =
+        result.prompt === 'conflicts'
+          ? `${result.conflicts?.length} file(s) already exist in ${zipFileName}. Replace them?`
+          : `${zipFileName} already exists. Replace it?`
+      if (!confirm(question)) {
+        this.setStatus('Operation cancelled', 'error')
+        this.zipDialog = null
+        return
+      }
+      result = await executeZip(
+        files,
+        zipFilePath,
+        options,
+        result.prompt === 'conflicts' ? (result.conflicts ?? []) : true,
+      )
+    }
     this.zipProgress = null
 
     this.setStatus(result.message, result.success ? 'success' : 'error')
@@ -1824,11 +2021,10 @@ export class Commander extends LitElement {
     const pane = this.getActivePane()
     const item = pane.items[pane.focusedIndex]
 
-    // Check if this is a ZIP file - treat it like a directory
-    const isZipFile =
-      item && !item.isDirectory && item.name.toLowerCase().endsWith('.zip')
+    // Archives (ZIP, TAR, 7z) are browsed like directories
+    const isArchive = item && !item.isDirectory && isArchivePath(item.name)
 
-    if (item.isDirectory || isZipFile) {
+    if (item.isDirectory || isArchive) {
       await this.navigateToDirectory(item.path)
     } else if (item.isFile) {
       // Execute the file
@@ -2179,77 +2375,42 @@ export class Commander extends LitElement {
     this.ftpDownloadProgress = null
     this.ftpUploadProgress = null
 
-    const anyFtp = files.some((f) => isFtpPath(f) || isSambaPath(f))
-    const destFtp = isFtpPath(destination) || isSambaPath(destination)
-
-    if (!anyFtp && !destFtp) {
-      // Local-to-local: per-file calls so we can ask on overwrite
-      this.setStatus(
-        `${type === 'copy' ? 'Copying' : 'Moving'} ${files.length} file(s)...`,
-        'normal',
-      )
-      this.overwriteAll = false
-      let successCount = 0
-
-      for (const file of files) {
-        const fileName = getFileName(file) || 'file'
-        const sep = getPathSeparator(destination)
-        const destPath = destination + sep + fileName
+    // Per-file calls so we can ask on overwrite; the backend handles any
+    // mix of local, ZIP, FTP, SFTP and SMB paths
+    this.setStatus(
+      `${type === 'copy' ? 'Copying' : 'Moving'} ${files.length} file(s)...`,
+      'normal',
+    )
+    this.overwriteAll = false
+    let successCount = 0
 
-        let response = await (window as any).electron.ipcRenderer.invoke(
-          'cli-execute',
-          'file-operations',
-          { operation: type, sourcePath: file, destinationPath: destPath },
-        )
+    for (const file of files) {
+      const fileName = getFileName(file) || 'file'
+      const sep = getPathSeparator(destination)
+      const destPath = destination.endsWith(sep)
+        ? destination + fileName
+        : destination + sep + fileName
 
-        if (response.success && response.data?.prompt === 'conflicts') {
-          // Directory copy: backend already scanned conflicts and returned them
-          const conflicts: string[] = response.data.conflicts ?? []
-          const overwriteFiles: string[] = []
+      let response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'file-operations',
+        { operation: type, sourcePath: file, destinationPath: destPath },
+      )
 
-          for (let i = 0; i < conflicts.length; i++) {
-            const conflict = conflicts[i]
-            if (this.overwriteAll) {
-              overwriteFiles.push(conflict)
-            } else {
-              const conflictName = conflict.split('/').pop() || conflict
-              const decision = await this.promptOverwrite(
-                conflictName,
-                destPath + '/' + conflict,
-                type,
-              )
-              if (decision === 'cancel') {
-                this.setStatus('Operation cancelled', 'error')
-                this.operationDialog = null
-                return
-              }
-              if (decision === 'skip') continue
-              if (decision === 'all') {
-                this.overwriteAll = true
-                for (let j = i; j < conflicts.length; j++)
-                  overwriteFiles.push(conflicts[j])
-                break
-              }
-              overwriteFiles.push(conflict)
-            }
-          }
+      if (response.success && response.data?.prompt === 'conflicts') {
+        // Directory copy: backend already scanned conflicts and returned them
+        const conflicts: string[] = response.data.conflicts ?? []
+        const overwriteFiles: string[] = []
 
-          response = await (window as any).electron.ipcRenderer.invoke(
-            'cli-execute',
-            'file-operations',
-            {
-              operation: type,
-              sourcePath: file,
-              destinationPath: destPath,
-              overwriteFiles,
-            },
-          )
-        } else if (response.success && response.data?.prompt === 'overwrite') {
-          // Single file overwrite prompt
-          if (!this.overwriteAll) {
+        for (let i = 0; i < conflicts.length; i++) {
+          const conflict = conflicts[i]
+          if (this.overwriteAll) {
+            overwriteFiles.push(conflict)
+          } else {
+            const conflictName = conflict.split('/').pop() || conflict
             const decision = await this.promptOverwrite(
-              fileName,
-              destination,
+              conflictName,
+              destPath + '/' + conflict,
               type,
             )
             if (decision === 'cancel') {
@@ -2258,65 +2419,70 @@ export class Commander extends LitElement {
               return
             }
             if (decision === 'skip') continue
-            if (decision === 'all') this.overwriteAll = true
+            if (decision === 'all') {
+              this.overwriteAll = true
+              for (let j = i; j < conflicts.length; j++)
+                overwriteFiles.push(conflicts[j])
+              break
+            }
+            overwriteFiles.push(conflict)
           }
-          // (re-)call with overwrite flag
-          response = await (window as any).electron.ipcRenderer.invoke(
-            'cli-execute',
-            'file-operations',
-            {
-              operation: type,
-              sourcePath: file,
-              destinationPath: destPath,
-              overwrite: true,
-            },
-          )
         }
 
-        if (response.success && !response.data?.prompt) {
-          successCount++
-        } else if (!response.success) {
-          this.setStatus(response.error || 'Unknown error', 'error')
-          this.operationDialog = null
-          return
+        response = await (window as any).electron.ipcRenderer.invoke(
+          'cli-execute',
+          'file-operations',
+          {
+            operation: type,
+            sourcePath: file,
+            destinationPath: destPath,
+            overwriteFiles,
+          },
+        )
+      } else if (response.success && response.data?.prompt === 'overwrite') {
+        // Single file overwrite prompt
+        if (!this.overwriteAll) {
+          const decision = await this.promptOverwrite(
+            fileName,
+            destination,
+            type,
+          )
+          if (decision === 'cancel') {
+            this.setStatus('Operation cancelled', 'error')
+            this.operationDialog = null
+            return
+          }
+          if (decision === 'skip') continue
+          if (decision === 'all') this.overwriteAll = true
         }
+        // (re-)call with overwrite flag
+        response = await (window as any).electron.ipcRenderer.invoke(
+          'cli-execute',
+          'file-operations',
+          {
+            operation: type,
+            sourcePath: file,
+            destinationPath: destPath,
+            overwrite: true,
+          },
+        )
       }
 
-      this.copyProgress = null
-      this.setStatus(
-        `${successCount} file(s) ${type === 'copy' ? 'copied' : 'moved'}`,
-        'success',
-      )
-      if (successCount > 0) {
-        if (type === 'move' && this.clipboardFiles?.operation === 'cut') {
-          this.clipboardFiles = null
-        }
-        await this.loadDirectory(
-          this.activePane,
-          this.getActivePane().currentPath,
-        )
-        await this.loadDirectory(
-          this.activePane === 'left' ? 'right' : 'left',
-          this.getInactivePane().currentPath,
-        )
+      if (response.success && !response.data?.prompt) {
+        successCount++
+      } else if (!response.success) {
+        this.setStatus(response.error || 'Unknown error', 'error')
+        this.operationDialog = null
+        return
       }
-      this.operationDialog = null
-      return
     }
 
-    // FTP / Samba: use existing batch handler
+    this.copyProgress = null
     this.setStatus(
-      `${type === 'copy' ? 'Copying' : 'Moving'} ${files.length} file(s)...`,
-      'normal',
+      `${successCount} file(s) ${type === 'copy' ? 'copied' : 'moved'}`,
+      'success',
     )
-    const result = await executeFileOperation(type, files, destination)
-    this.copyProgress = null
-    this.ftpDownloadProgress = null
-    this.ftpUploadProgress = null
-
-    this.setStatus(result.message, result.success ? 'success' : 'error')
-
-    if (result.success) {
+    if (successCount > 0) {
       if (type === 'move' && this.clipboardFiles?.operation === 'cut') {
         this.clipboardFiles = null
       }
@@ -2329,7 +2495,6 @@ export class Commander extends LitElement {
         this.getInactivePane().currentPath,
       )
     }
-
     this.operationDialog = null
   }
 
@@ -2739,6 +2904,107 @@ export class Commander extends LitElement {
 
   closeCompare() {
     this.compareDialog = null
+    this.syncPlan = null
+    this.syncResult = null
+  }
+
+  /**
+   * Build a sync plan for the two panes without changing any file
+   */
+  async previewSync(options: {
+    mode: string
+    compareBy: string
+    exclude: string
+  }) {
+    this.syncResult = null
+    this.syncPlan = null
+    this.syncRunning = true
+    this.syncProgress = null
+    this.setStatus('Building sync plan...', 'normal')
+
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'file-operations',
+        {
+          operation: 'sync',
+          leftPath: this.leftPane.currentPath,
+          rightPath: this.rightPane.currentPath,
+          ...options,
+          dryRun: true,
+        },
+      )
+
+      if (response.success && response.data?.success) {
+        this.syncPlan = response.data
+        this.setStatus(
+          `Sync plan: ${response.data.actions.length} action(s)`,
+          'success',
+        )
+      } else {
+        this.setStatus(
+          `Fehler: ${response.data?.error || response.error}`,
+          'error',
+        )
+      }
+    } finally {
+      this.syncRunning = false
+      this.syncProgress = null
+    }
+  }
+
+  /**
+   * Apply the (possibly reduced) plan shown in the compare dialog
+   */
+  async applySync(actions: any[]) {
+    if (!this.syncPlan) return
+
+    this.syncRunning = true
+    this.syncResult = null
+    this.syncJobId = `sync-${Date.now()}`
+    this.setStatus(`Syncing ${actions.length} action(s)...`, 'normal')
+
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'file-operations',
+        {
+          operation: 'sync',
+          leftPath: this.syncPlan.leftPath,
+          rightPath: this.syncPlan.rightPath,
+          actions,
+        },
+        { jobId: this.syncJobId },
+      )
+
+      const result = response.data || { success: false, error: response.error }
+      this.syncResult = result
+      this.syncPlan = null
+      this.setStatus(
+        result.success
+          ? `Sync finished: ${result.filesCopied} copied, ${result.filesDeleted} deleted`
+          : `Sync: ${result.error}`,
+        result.success ? 'success' : 'error',
+      )
+    } finally {
+      this.syncRunning = false
+      this.syncProgress = null
+      this.syncJobId = null
+    }
+
+    await Promise.all([
+      this.loadDirectory('left', this.leftPane.currentPath),
+      this.loadDirectory('right', this.rightPane.currentPath),
+    ])
+    if (this.compareDialog) {
+      await this.handleCompare()
+    }
+  }
+
+  async cancelSync() {
+    if (this.syncJobId) {
+      await JobService.cancel(this.syncJobId)
+    }
   }
 
   async toggleCompareRecursive() {
@@ -3187,6 +3453,7 @@ export class Commander extends LitElement {
     contentText: string
     recursive: boolean
     caseSensitive: boolean
+    filters?: SearchFilters
   }) {
     if (!this.searchDialog) return
 
@@ -3197,7 +3464,10 @@ export class Commander extends LitElement {
 
     const { FileService } = await import('./commander/services/FileService.js')
 
-    // Setup progress listener
+    // Setup progress listener, streamed results must not arrive twice
+    ;(window as any).electron?.ipcRenderer?.removeAllListeners?.(
+      'search-progress',
+    )
     FileService.onProgress('search-progress', (data: any) => {
       const dialog = this.shadowRoot?.querySelector('search-dialog') as any
       if (dialog) {
@@ -3212,6 +3482,7 @@ export class Commander extends LitElement {
         detail.contentText,
         detail.recursive,
         detail.caseSensitive,
+        detail.filters,
       )
 
       this.searchDialog = {
@@ -3222,8 +3493,11 @@ export class Commander extends LitElement {
       const dialog = this.shadowRoot?.querySelector('search-dialog') as any
       if (dialog && response.success && response.data?.data) {
         dialog.setResults(response.data.data)
-      } else if (!response.success) {
-        this.setStatus(`Search error: ${response.error}`, 'error')
+      } else if (!response.success || response.data?.success === false) {
+        this.setStatus(
+          `Search error: ${response.error ?? response.data?.error}`,
+          'error',
+        )
       }
     } catch (error: any) {
       this.searchDialog = {
@@ -3453,6 +3727,14 @@ export class Commander extends LitElement {
             >
               <span class="function-key-label">F1</span>
             </div>
+            <div
+              class="function-key-top"
+              @click=${() => this.openQueue()}
+              style="min-width: 80px;"
+              title="Operation queue (Ctrl+Q)"
+            >
+              <span class="function-key-label">⏳ queue</span>
+            </div>
             <div
               class="function-key-top"
               @click=${() => this.openSettings()}
@@ -3530,6 +3812,7 @@ export class Commander extends LitElement {
               .progress=${this.getOperationProgress()}
               @close=${this.cancelOperation}
               @execute=${this.executeOperation}
+              @enqueue=${this.enqueueOperation}
               @update-destination=${(e: CustomEvent) =>
                 this.updateDestination(e.detail)}
             ></operation-dialog>`
@@ -3550,6 +3833,7 @@ export class Commander extends LitElement {
               .files=${this.deleteDialog.files}
               @close=${this.cancelDelete}
               @execute=${this.executeDelete}
+              @enqueue=${this.enqueueDelete}
             ></delete-dialog>`
           : ''}
         ${this.deleteProgress
@@ -3605,12 +3889,16 @@ export class Commander extends LitElement {
           ? html`<zip-dialog
               .files=${this.zipDialog.files}
               .zipFileName=${this.zipDialog.zipFileName}
+              .options=${this.zipDialog.options}
               .destPath=${this.getInactivePane().currentPath}
               .progress=${this.zipProgress}
               @close=${this.cancelZip}
               @execute=${this.executeZip}
+              @enqueue=${this.enqueueZip}
               @update-filename=${(e: CustomEvent) =>
                 this.updateZipFileName(e.detail)}
+              @update-options=${(e: CustomEvent) =>
+                this.updateZipOptions(e.detail)}
             ></zip-dialog>`
           : ''}
         ${this.compareDialog
@@ -3624,6 +3912,14 @@ export class Commander extends LitElement {
               @recompare=${this.handleCompare}
               @compare-files=${(e: CustomEvent) =>
                 (this.fileCompareDialog = e.detail)}
+              .syncPlan=${this.syncPlan}
+              .syncProgress=${this.syncProgress}
+              .syncRunning=${this.syncRunning}
+              .syncResult=${this.syncResult}
+              @sync-preview=${(e: CustomEvent) => this.previewSync(e.detail)}
+              @sync-apply=${(e: CustomEvent) =>
+                this.applySync(e.detail.actions)}
+              @sync-cancel=${this.cancelSync}
             ></compare-dialog>`
           : ''}
         ${this.fileCompareDialog
@@ -3657,6 +3953,10 @@ export class Commander extends LitElement {
                 this.showDriveSelector = false
                 this.showFTPDialog = true
               }}
+              @open-sftp=${() => {
+                this.showDriveSelector = false
+                this.showSFTPDialog = true
+              }}
               @open-smb=${() => {
                 // Fresh connection: clear any stale path so the dialog's picked share is used
                 this.pendingSmbPath = null
@@ -3711,6 +4011,41 @@ export class Commander extends LitElement {
               }}
             ></ftp-connection-dialog>`
           : ''}
+        ${this.showSFTPDialog
+          ? html`<sftp-connection-dialog
+              id="sftp-dialog"
+              .open=${true}
+              @close=${() => {
+                this.showSFTPDialog = false
+                this.showDriveSelector = true
+              }}
+              @cancel-connection=${() => {
+                this.sftpConnectionCancelled = true
+              }}
+              @connect=${async (e: CustomEvent) => {
+                this.sftpConnectionCancelled = false
+                const dialog = this.shadowRoot?.querySelector(
+                  '#sftp-dialog',
+                ) as any
+                try {
+                  await this.navigateToDirectory(e.detail)
+                  if (!this.sftpConnectionCancelled) {
+                    dialog?.connectionSuccess()
+                    this.showSFTPDialog = false
+                  }
+                } catch (error: any) {
+                  if (!this.sftpConnectionCancelled) {
+                    const errorMsg = error.message || 'Unknown error'
+                    dialog?.connectionFailed(errorMsg)
+                    this.setStatus(
+                      `SFTP connection failed: ${errorMsg}`,
+                      'error',
+                    )
+                  }
+                }
+              }}
+            ></sftp-connection-dialog>`
+          : ''}
         ${this.showSMBDialog
           ? html`<smb-connection-dialog
               id="smb-dialog"
@@ -3755,6 +4090,16 @@ export class Commander extends LitElement {
               }}
             ></smb-connection-dialog>`
           : ''}
+        ${this.showQueue
+          ? html`<queue-panel
+              @close=${this.closeQueue}
+              @items-finished=${() =>
+                Promise.all([
+                  this.loadDirectory('left', this.leftPane.currentPath),
+                  this.loadDirectory('right', this.rightPane.currentPath),
+                ])}
+            ></queue-panel>`
+          : ''}
         ${this.showHelp
           ? html`<help-dialog
               .open=${this.showHelp}
@@ -4175,7 +4520,7 @@ export class Commander extends LitElement {
                 <span class="file-icon"
                   >${item.isDirectory
                     ? '📁'
-                    : item.name.toLowerCase().endsWith('.zip')
+                    : isArchivePath(item.name)
                       ? '📦'
                       : this.getFileIcon(item)}</span
                 >
@@ -2,6 +2,15 @@ import { Router } from '@vaadin/router'
 import { LitElement, css, html } from 'lit'
 import { customElement, state } from 'lit/decorators.js'
 import './docmanager/DocManagerPreferences.js'
+import './docmanager/DocumentDetailsDialog.js'
+import {
+  DOCUMENT_TYPE_LABELS,
+  formatAmount,
+} from './docmanager/DocumentDetailsDialog.js'
+import type { DocumentDetails } from './docmanager/DocumentDetailsDialog.js'
+import './docmanager/DocumentInbox.js'
+import type { InboxItem } from './docmanager/DocumentInbox.js'
+import './docmanager/DocumentSearch.js'
 import { userPreferencesService } from './docmanager/UserPreferencesService.js'
 
 // bring in the commander viewer component and type so we can reuse it here
@@ -14,8 +23,14 @@ interface Document {
   size: number
   created: Date
   modified: Date
+  details: DocumentDetails | null
 }
 
+type DocumentSort = 'modified' | 'name' | 'date' | 'dueDate' | 'amount'
+
+const DUE_SOON_DAYS = 14
+const DAY_MS = 24 * 60 * 60 * 1000
+
 interface Scanner {
   id?: string
   name: string
@@ -55,6 +70,13 @@ export class DocManager extends LitElement {
   @state() private previewTempDir = ''
   @state() private viewerFile: ViewerFile | null = null
   @state() private ocrStatus: string = '' // OCR scan status message
+  @state() private recognizingDocument = '' // Document getting a text layer
+  @state() private filingTarget = '' // Folder the filing rules pick for the scan
+  @state() private refiling = false
+  // Inbox document shown in the preview dialog instead of scanned pages
+  @state() private inboxDocument: { name: string; extension: string } | null =
+    null
+  private ocrAnalysis = '' // OCR analysis of the scan, for the filing rules
 
   // OCR filename proposal dropdowns
   @state() private companyOptions: Array<{ value: string; label: string }> = []
@@ -66,6 +88,12 @@ export class DocManager extends LitElement {
   @state() private selectedDate = ''
   @state() private selectedFullName = ''
   @state() private showPreferencesDialog = false
+  @state() private documentFilter = '' // Text in the name, sender or tags
+  @state() private typeFilter = ''
+  @state() private tagFilter = ''
+  @state() private documentSort: DocumentSort = 'modified'
+  @state() private showDueSoon = false
+  @state() private detailsDocument: Document | null = null
 
   static styles = css`
     :host {
@@ -219,6 +247,10 @@ export class DocManager extends LitElement {
       background: linear-gradient(135deg, #fa709a 0%, #fee140 100%);
     }
 
+    button.active {
+      background: #dc3545;
+    }
+
     .checkbox-group {
       display: flex;
       align-items: center;
@@ -308,8 +340,49 @@ export class DocManager extends LitElement {
       margin-bottom: 5px;
     }
 
+    .document-item.overdue {
+      border-color: #dc3545;
+    }
+
+    .document-filters {
+      display: grid;
+      grid-template-columns: 2fr 1fr 1fr 1fr;
+      gap: 10px;
+      margin-top: 15px;
+    }
+
+    .document-badges {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 5px;
+      margin-top: 8px;
+    }
+
+    .badge {
+      padding: 2px 8px;
+      border-radius: 10px;
+      background: #e9ecef;
+      color: #555;
+      font-size: 0.8em;
+    }
+
+    .badge.type {
+      background: #667eea;
+      color: white;
+    }
+
+    .badge.overdue {
+      background: #dc3545;
+      color: white;
+    }
+
+    .badge.done {
+      text-decoration: line-through;
+    }
+
     .document-actions {
       display: flex;
+      flex-wrap: wrap;
       gap: 8px;
       margin-top: 10px;
     }
@@ -548,6 +621,7 @@ export class DocManager extends LitElement {
   private extractFilenameFromOCR(analysisJson: string): void {
     try {
       const analysis = JSON.parse(analysisJson)
+      this.ocrAnalysis = analysisJson
       console.log(
         '[DocManager] Extracting filename components from OCR analysis:',
         analysis,
@@ -713,6 +787,25 @@ export class DocManager extends LitElement {
         }
       }
 
+      // Text fields of the extraction templates, e.g. customer numbers
+      const extracted: Record<string, string | number> =
+        analysis.extracted || {}
+      const templateFields = new Set(
+        userPreferencesService
+          .getExtractionTemplates()
+          .flatMap((template) => template.fields)
+          .filter((field) => field.type === 'text')
+          .map((field) => field.name),
+      )
+      for (const [name, value] of Object.entries(extracted)) {
+        if (templateFields.has(name) && typeof value === 'string') {
+          this.accountOptions.push({
+            value: this.sanitizeFilename(value),
+            label: `${value} (${name})`,
+          })
+        }
+      }
+
       if (analysis.numberSequences && analysis.numberSequences.length > 0) {
         // Prioritize sequences by type and length
         const sortedSequences = [...analysis.numberSequences].sort((a, b) => {
@@ -971,11 +1064,43 @@ export class DocManager extends LitElement {
     if (this.selectedDate) parts.push(this.sanitizeFilename(this.selectedDate))
 
     const baseName = parts.join('_') || 'document'
-    const extension = this.format || 'pdf'
+    const extension = this.inboxDocument?.extension || this.format || 'pdf'
     this.fileName = `${baseName}.${extension}`
     console.log('[DocManager] Composed filename:', this.fileName)
   }
 
+  updated(changed: Map<string, unknown>) {
+    if (
+      this.showPreviewDialog &&
+      (changed.has('fileName') || changed.has('showPreviewDialog'))
+    ) {
+      this.updateFilingTarget()
+    }
+  }
+
+  /**
+   * Ask the filing rules where the scan will be saved
+   */
+  private async updateFilingTarget(): Promise<void> {
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        {
+          action: 'filing-preview',
+          outputPath: this.scanDirectory,
+          fileName: this.fileName || `scan.${this.format}`,
+          analysis: this.ocrAnalysis,
+        },
+      )
+      const result = response.data || response
+      this.filingTarget = result.success ? result.folder : ''
+    } catch (error: any) {
+      console.error('[DocManager] Filing preview failed:', error)
+      this.filingTarget = ''
+    }
+  }
+
   private setupScannerEventListener() {
     // Listen for real-time page scan events
     // Note: preload.js strips the event parameter, so we only get data
@@ -1219,6 +1344,9 @@ export class DocManager extends LitElement {
       this.selectedDate = ''
       this.selectedFullName = ''
       this.ocrStatus = ''
+      this.ocrAnalysis = ''
+      this.filingTarget = ''
+      this.inboxDocument = null
 
       this.showPreviewDialog = true
       this.showMessage('Scanning... Please wait.', 'info')
@@ -1370,6 +1498,110 @@ export class DocManager extends LitElement {
     this.viewerFile = null
   }
 
+  /**
+   * Show an inbox document in the preview dialog with the file name
+   * options of its OCR analysis
+   */
+  async reviewInboxDocument(item: InboxItem) {
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        { action: 'inbox-document', inboxFile: item.name },
+      )
+      const result = response.data || response
+      if (!result.success) {
+        this.showMessage(
+          'Failed to open inbox document: ' + (result.error || 'Unknown error'),
+          'error',
+        )
+        return
+      }
+      const document = result.document
+
+      this.previewFiles = []
+      this.previewDataUrls = document.preview ? [document.preview] : []
+      this.previewTempDir = ''
+      this.companyOptions = []
+      this.accountOptions = []
+      this.dateOptions = []
+      this.fullNameOptions = []
+      this.selectedCompany = ''
+      this.selectedAccount = ''
+      this.selectedDate = ''
+      this.selectedFullName = ''
+      this.filingTarget = ''
+      this.inboxDocument = {
+        name: item.name,
+        extension: item.name.split('.').pop()?.toLowerCase() || 'pdf',
+      }
+      this.fileName = document.suggestedName
+      this.extractFilenameFromOCR(JSON.stringify(document.analysis))
+      if (this.companyOptions.length === 0) {
+        // Nothing recognized - offer the suggested name to start from
+        const baseName = this.sanitizeFilename(
+          document.suggestedName.replace(/\.[^.]+$/, ''),
+        )
+        this.companyOptions = [{ value: baseName, label: baseName }]
+        this.selectedCompany = baseName
+        this.updateComposedFilename()
+      }
+      this.ocrStatus = `✅ Text recognized (${document.text.length} characters)`
+      this.showPreviewDialog = true
+    } catch (error: any) {
+      this.showMessage(
+        'Error opening inbox document: ' + error.message,
+        'error',
+      )
+    }
+  }
+
+  /**
+   * Import the inbox document of the preview dialog under the chosen name
+   */
+  async importInboxDocument() {
+    if (!this.inboxDocument) return
+    this.saving = true
+    this.showMessage('📥 Importing document...', 'info', true)
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        {
+          action: 'inbox-import',
+          outputPath: this.scanDirectory,
+          inboxFile: this.inboxDocument.name,
+          fileName: this.fileName,
+        },
+      )
+      const result = response.data || response
+
+      if (result.success) {
+        this.showMessage(`✅ ${result.message}`, 'success')
+        this.closeInboxReview()
+        this.shadowRoot?.querySelector('nh-docmanager-inbox')?.loadStatus()
+        await this.loadDocuments()
+      } else {
+        this.showMessage(
+          'Import failed: ' + (result.error || 'Unknown error'),
+          'error',
+        )
+      }
+    } catch (error: any) {
+      this.showMessage('Error importing document: ' + error.message, 'error')
+    } finally {
+      this.saving = false
+    }
+  }
+
+  private closeInboxReview() {
+    this.showPreviewDialog = false
+    this.inboxDocument = null
+    this.previewDataUrls = []
+    this.fileName = ''
+    this.ocrStatus = ''
+  }
+
   async finalizeScan() {
     if (this.previewFiles.length === 0) {
       this.showMessage('No pages to save.', 'error')
@@ -1425,7 +1657,8 @@ export class DocManager extends LitElement {
 
       if (result.success) {
         this.showMessage(
-          `✅ Document saved successfully! ${result.pageCount} page(s) saved.`,
+          `✅ Document saved successfully! ${result.pageCount} page(s) saved` +
+            (result.filedTo ? ` to ${result.filedTo}.` : '.'),
           'success',
         )
         this.fileName = ''
@@ -1506,6 +1739,111 @@ export class DocManager extends LitElement {
     }
   }
 
+  async makeSearchable(doc: Document) {
+    this.recognizingDocument = doc.name
+    this.showMessage(`Recognizing text in ${doc.name}...`, 'info', true)
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        {
+          action: 'ocr-pdf',
+          outputPath: this.scanDirectory,
+          fileName: doc.name,
+        },
+      )
+      const result = response.data || response
+
+      if (result.success) {
+        this.showMessage(`✅ ${result.message}`, 'success')
+        await this.loadDocuments()
+      } else {
+        this.showMessage(
+          'Text recognition failed: ' + (result.error || 'Unknown error'),
+          'error',
+        )
+      }
+    } catch (error: any) {
+      this.showMessage('Error recognizing text: ' + error.message, 'error')
+    } finally {
+      this.recognizingDocument = ''
+    }
+  }
+
+  /**
+   * Move the documents of the scan folder to the folders of the filing rules
+   */
+  async refileDocuments() {
+    this.refiling = true
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        { action: 'filing-preview', outputPath: this.scanDirectory },
+      )
+      const preview = response.data || response
+      if (!preview.success) {
+        this.showMessage(
+          'Filing preview failed: ' + (preview.error || 'Unknown error'),
+          'error',
+        )
+        return
+      }
+      if (preview.count === 0) {
+        this.showMessage(
+          'All documents are already filed according to the rules.',
+          'info',
+        )
+        return
+      }
+
+      const moves = preview.documents
+        .slice(0, 15)
+        .map((doc: any) => `${doc.fileName} → ${doc.folder}`)
+      if (preview.count > moves.length) {
+        moves.push(`... and ${preview.count - moves.length} more`)
+      }
+      if (
+        !confirm(`Move ${preview.count} document(s)?\n\n${moves.join('\n')}`)
+      ) {
+        return
+      }
+
+      const fileResponse = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        {
+          action: 'file-documents',
+          outputPath: this.scanDirectory,
+          files: JSON.stringify(
+            preview.documents.map((doc: any) => doc.fileName),
+          ),
+        },
+      )
+      const result = fileResponse.data || fileResponse
+      if (result.success) {
+        if (result.failed.length > 0) {
+          this.showMessage(
+            `${result.message}, ${result.failed.length} could not be moved`,
+            'error',
+          )
+        } else {
+          this.showMessage(`✅ ${result.message}`, 'success')
+        }
+        await this.loadDocuments()
+      } else {
+        this.showMessage(
+          'Filing failed: ' + (result.error || 'Unknown error'),
+          'error',
+        )
+      }
+    } catch (error: any) {
+      this.showMessage('Error filing documents: ' + error.message, 'error')
+    } finally {
+      this.refiling = false
+    }
+  }
+
   async deleteDocument(doc: Document) {
     if (!confirm(`Are you sure you want to delete "${doc.name}"?`)) {
       return
@@ -1537,6 +1875,88 @@ export class DocManager extends LitElement {
     }
   }
 
+  private today(): string {
+    return new Date().toISOString().slice(0, 10)
+  }
+
+  private isOverdue(doc: Document): boolean {
+    const details = doc.details
+    return !!details?.dueDate && !details.done && details.dueDate < this.today()
+  }
+
+  private isDueSoon(doc: Document): boolean {
+    const details = doc.details
+    if (!details?.dueDate || details.done) return false
+    const until = new Date(Date.now() + DUE_SOON_DAYS * DAY_MS)
+      .toISOString()
+      .slice(0, 10)
+    return details.dueDate <= until
+  }
+
+  private documentTags(): string[] {
+    const tags = new Set(
+      this.documents.flatMap((doc) => doc.details?.tags || []),
+    )
+    return [...tags].sort((a, b) => a.localeCompare(b))
+  }
+
+  /**
+   * The documents matching the filters, in the chosen order. Documents
+   * without the sorted value come last.
+   */
+  private visibleDocuments(): Document[] {
+    const filter = this.documentFilter.trim().toLowerCase()
+    const documents = this.documents.filter((doc) => {
+      const details = doc.details
+      if (this.showDueSoon && !this.isDueSoon(doc)) return false
+      if (this.typeFilter && details?.type !== this.typeFilter) return false
+      if (this.tagFilter && !details?.tags.includes(this.tagFilter)) {
+        return false
+      }
+      if (!filter) return true
+      return [doc.name, details?.fields.sender || '', ...(details?.tags || [])]
+        .join(' ')
+        .toLowerCase()
+        .includes(filter)
+    })
+
+    const sortValue = (doc: Document): string | number | undefined => {
+      switch (this.documentSort) {
+        case 'name':
+          return doc.name.toLowerCase()
+        case 'date':
+          return doc.details?.fields.dates[0]
+        case 'dueDate':
+          return doc.details?.dueDate || undefined
+        case 'amount':
+          return doc.details?.fields.amounts[0]
+        default:
+          return new Date(doc.modified).getTime()
+      }
+    }
+    // Newest and largest first, names and due dates ascending
+    const descending = ['modified', 'date', 'amount'].includes(
+      this.documentSort,
+    )
+    return documents.sort((a, b) => {
+      const first = sortValue(a)
+      const second = sortValue(b)
+      if (first === undefined || second === undefined) {
+        return first === second ? 0 : first === undefined ? 1 : -1
+      }
+      const order = first < second ? -1 : first > second ? 1 : 0
+      return descending ? -order : order
+    })
+  }
+
+  private closeDetails(e: CustomEvent) {
+    this.detailsDocument = null
+    if (e.detail?.details) {
+      this.showMessage('✅ Details saved', 'success')
+      this.loadDocuments()
+    }
+  }
+
   showMessage(
     text: string,
     type: 'success' | 'error' | 'info' = 'info',
@@ -1559,6 +1979,34 @@ export class DocManager extends LitElement {
     }
   }
 
+  private renderDocumentBadges(doc: Document) {
+    const details = doc.details!
+    const amount = details.fields.amounts[0]
+    return html`
+      <div class="document-badges">
+        ${details.type
+          ? html`<span class="badge type"
+              >${DOCUMENT_TYPE_LABELS[details.type]}</span
+            >`
+          : ''}
+        ${details.tags.map((tag) => html`<span class="badge">${tag}</span>`)}
+        ${details.dueDate
+          ? html`<span
+              class="badge ${details.done
+                ? 'done'
+                : this.isOverdue(doc)
+                  ? 'overdue'
+                  : ''}"
+              >⏰ ${new Date(details.dueDate).toLocaleDateString('de-DE')}</span
+            >`
+          : ''}
+        ${amount !== undefined
+          ? html`<span class="badge">${formatAmount(amount)}</span>`
+          : ''}
+      </div>
+    `
+  }
+
   formatBytes(bytes: number): string {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -1578,6 +2026,9 @@ export class DocManager extends LitElement {
   }
 
   render() {
+    const visibleDocuments = this.visibleDocuments()
+    const tags = this.documentTags()
+
     return html`
       <div class="container">
         <div class="header-container">
@@ -1748,6 +2199,17 @@ export class DocManager extends LitElement {
           </div>
         </div>
 
+        <nh-docmanager-inbox
+          .scanDirectory=${this.scanDirectory}
+          @review=${(e: CustomEvent<InboxItem>) =>
+            this.reviewInboxDocument(e.detail)}
+          @imported=${() => this.loadDocuments()}
+        ></nh-docmanager-inbox>
+
+        <nh-docmanager-search
+          .scanDirectory=${this.scanDirectory}
+        ></nh-docmanager-search>
+
         <!-- Document List -->
         <div class="card">
           <h2>📚 Scanned Documents (${this.documents.length})</h2>
@@ -1755,6 +2217,13 @@ export class DocManager extends LitElement {
             <button @click="${this.loadDocuments}" ?disabled="${this.loading}">
               🔄 Refresh Documents
             </button>
+            <button
+              @click="${this.refileDocuments}"
+              ?disabled="${this.refiling || !this.scanDirectory}"
+              title="Move the documents to the folders of the filing rules"
+            >
+              ${this.refiling ? '⏳ Filing...' : '🗃️ Re-file'}
+            </button>
             <button
               @click="${this.openFolderInCommander}"
               ?disabled="${!this.scanDirectory}"
@@ -1773,14 +2242,71 @@ export class DocManager extends LitElement {
             >
               🗂️
             </button>
+            <button
+              class="${this.showDueSoon ? 'active' : ''}"
+              @click="${() => (this.showDueSoon = !this.showDueSoon)}"
+              title="Documents due within ${DUE_SOON_DAYS} days or overdue"
+            >
+              ⏰ Due Soon
+            </button>
           </div>
 
-          ${this.documents.length > 0
+          <div class="document-filters">
+            <input
+              type="text"
+              placeholder="Filter by name, sender or tag"
+              .value="${this.documentFilter}"
+              @input="${(e: any) => (this.documentFilter = e.target.value)}"
+            />
+            <select @change="${(e: any) => (this.typeFilter = e.target.value)}">
+              <option value="" ?selected="${this.typeFilter === ''}">
+                All types
+              </option>
+              ${Object.entries(DOCUMENT_TYPE_LABELS).map(
+                ([value, label]) =>
+                  html`<option
+                    value="${value}"
+                    ?selected="${value === this.typeFilter}"
+                  >
+                    ${label}
+                  </option>`,
+              )}
+            </select>
+            <select @change="${(e: any) => (this.tagFilter = e.target.value)}">
+              <option value="" ?selected="${this.tagFilter === ''}">
+                All tags
+              </option>
+              ${tags.map(
+                (tag) =>
+                  html`<option
+                    value="${tag}"
+                    ?selected="${tag === this.tagFilter}"
+                  >
+                    ${tag}
+                  </option>`,
+              )}
+            </select>
+            <select
+              @change="${(e: any) => (this.documentSort = e.target.value)}"
+            >
+              <option value="modified">Newest first</option>
+              <option value="name">Name</option>
+              <option value="date">Document date</option>
+              <option value="dueDate">Due date</option>
+              <option value="amount">Amount</option>
+            </select>
+          </div>
+
+          ${visibleDocuments.length > 0
             ? html`
                 <div class="documents-grid">
-                  ${this.documents.map(
+                  ${visibleDocuments.map(
                     (doc) => html`
-                      <div class="document-item">
+                      <div
+                        class="document-item ${this.isOverdue(doc)
+                          ? 'overdue'
+                          : ''}"
+                      >
                         <div class="document-name">📄 ${doc.name}</div>
                         <div class="document-info">
                           Size: ${this.formatBytes(doc.size)}
@@ -1788,10 +2314,28 @@ export class DocManager extends LitElement {
                         <div class="document-info">
                           Modified: ${this.formatDate(doc.modified)}
                         </div>
+                        ${doc.details ? this.renderDocumentBadges(doc) : ''}
                         <div class="document-actions">
                           <button @click="${() => this.openDocument(doc)}">
                             👁️ Open
                           </button>
+                          <button
+                            @click="${() => (this.detailsDocument = doc)}"
+                            title="Type, tags, due date and recognized fields"
+                          >
+                            🏷️ Details
+                          </button>
+                          ${doc.name.toLowerCase().endsWith('.pdf')
+                            ? html`
+                                <button
+                                  @click="${() => this.makeSearchable(doc)}"
+                                  ?disabled="${this.recognizingDocument !== ''}"
+                                  title="Add a searchable text layer to an image-only PDF"
+                                >
+                                  🔍 OCR
+                                </button>
+                              `
+                            : ''}
                           <button
                             @click="${() => this.deleteDocument(doc)}"
                             class="danger"
@@ -1804,20 +2348,28 @@ export class DocManager extends LitElement {
                   )}
                 </div>
               `
-            : html`
-                <div class="empty-state">
-                  <div class="empty-state-icon">📭</div>
-                  <p>
-                    No documents scanned yet. Start scanning to see your
-                    documents here.
-                  </p>
-                </div>
-              `}
+            : this.documents.length > 0
+              ? html`
+                  <div class="empty-state">
+                    <div class="empty-state-icon">🔎</div>
+                    <p>No documents match the filters.</p>
+                  </div>
+                `
+              : html`
+                  <div class="empty-state">
+                    <div class="empty-state-icon">📭</div>
+                    <p>
+                      No documents scanned yet. Start scanning to see your
+                      documents here.
+                    </p>
+                  </div>
+                `}
         </div>
 
         ${this.showPreviewDialog ? this.renderPreviewDialog() : ''}
         ${this.showPreferencesDialog
           ? html`<nh-docmanager-preferences
+              .scanDirectory=${this.scanDirectory}
               @close=${(e: CustomEvent) => {
                 this.showPreferencesDialog = false
                 if (e.detail?.saved) {
@@ -1833,6 +2385,14 @@ export class DocManager extends LitElement {
               }}
             ></nh-docmanager-preferences>`
           : ''}
+        ${this.detailsDocument
+          ? html`<nh-docmanager-details
+              .scanDirectory=${this.scanDirectory}
+              .fileName=${this.detailsDocument.name}
+              .details=${this.detailsDocument.details}
+              @close=${this.closeDetails}
+            ></nh-docmanager-details>`
+          : ''}
         ${this.viewerFile
           ? html`<viewer-dialog
               .file=${this.viewerFile}
@@ -1858,7 +2418,9 @@ export class DocManager extends LitElement {
                   ? 'Scanning...'
                   : isScanningWithPages
                     ? '📄 Scanning in progress...'
-                    : 'Scanned Pages - Review & Remove'}</span
+                    : this.inboxDocument
+                      ? `📥 ${this.inboxDocument.name} - Review & Import`
+                      : 'Scanned Pages - Review & Remove'}</span
             >
           </div>
           <div class="preview-body">
@@ -1945,15 +2507,17 @@ export class DocManager extends LitElement {
                                 <span class="preview-item-label"
                                   >Page ${index + 1}</span
                                 >
-                                <button
-                                  class="preview-delete-btn"
-                                  @click="${(e: Event) => {
-                                    e.stopPropagation()
-                                    this.removePreviewPage(index)
-                                  }}"
-                                >
-                                  Remove
-                                </button>
+                                ${this.inboxDocument
+                                  ? ''
+                                  : html`<button
+                                      class="preview-delete-btn"
+                                      @click="${(e: Event) => {
+                                        e.stopPropagation()
+                                        this.removePreviewPage(index)
+                                      }}"
+                                    >
+                                      Remove
+                                    </button>`}
                               </div>
                             </div>
                           `,
@@ -1961,9 +2525,14 @@ export class DocManager extends LitElement {
                       </div>
                     `
                   : html`<div class="empty-state">
-                      <p>All pages removed.</p>
+                      <p>
+                        ${this.inboxDocument
+                          ? 'No preview for this document.'
+                          : 'All pages removed.'}
+                      </p>
                     </div>`}
-            ${this.autoSetFileName && this.companyOptions.length > 0
+            ${(this.autoSetFileName || this.inboxDocument) &&
+            this.companyOptions.length > 0
               ? html`
                   <div
                     style="padding: 20px; background: #f8f9fa; border-top: 2px solid #e0e0e0; border-bottom: 2px solid #e0e0e0;"
@@ -2111,25 +2680,42 @@ export class DocManager extends LitElement {
           </div>
           <div class="preview-footer">
             <span class="page-count"
-              >${this.previewDataUrls.length} page(s)</span
+              >${this.previewDataUrls.length}
+              page(s)${this.filingTarget
+                ? html` · 📁 Will be filed to ${this.filingTarget}`
+                : ''}</span
             >
             <div class="preview-footer-buttons">
-              <button @click="${this.cancelPreview}">Cancel</button>
-              <button
-                @click="${this.scanMorePages}"
-                ?disabled="${this.scanning}"
-              >
-                ${isScanningWithPages ? 'Scanning...' : 'Scan More'}
-              </button>
-              <button
-                class="secondary"
-                @click="${this.finalizeScan}"
-                ?disabled="${this.previewFiles.length === 0 || this.scanning}"
-              >
-                ${this.saving
-                  ? 'Saving...'
-                  : `Save as ${this.format.toUpperCase()}`}
-              </button>
+              ${this.inboxDocument
+                ? html`
+                    <button @click="${this.closeInboxReview}">Cancel</button>
+                    <button
+                      class="secondary"
+                      @click="${this.importInboxDocument}"
+                      ?disabled="${this.saving}"
+                    >
+                      ${this.saving ? 'Importing...' : 'Import'}
+                    </button>
+                  `
+                : html`
+                    <button @click="${this.cancelPreview}">Cancel</button>
+                    <button
+                      @click="${this.scanMorePages}"
+                      ?disabled="${this.scanning}"
+                    >
+                      ${isScanningWithPages ? 'Scanning...' : 'Scan More'}
+                    </button>
+                    <button
+                      class="secondary"
+                      @click="${this.finalizeScan}"
+                      ?disabled="${this.previewFiles.length === 0 ||
+                      this.scanning}"
+                    >
+                      ${this.saving
+                        ? 'Saving...'
+                        : `Save as ${this.format.toUpperCase()}`}
+                    </button>
+                  `}
             </div>
           </div>
         </div>
@@ -1,3 +1,5 @@
+import { Router } from '@vaadin/router'
+import * as d3 from 'd3'
 import { LitElement, css, html } from 'lit'
 import { property } from 'lit/decorators.js'
 import {
@@ -29,8 +31,104 @@ interface FolderNode {
   isComplete?: boolean
 }
 
+interface DuplicateFile {
+  path: string
+  name: string
+  mtimeMs: number
+  modified: string
+}
+
+interface DuplicateGroup {
+  hash: string
+  size: number
+  files: DuplicateFile[]
+  wastedBytes: number
+}
+
+interface DuplicateScan {
+  rootPath: string
+  groups: DuplicateGroup[]
+  filesScanned: number
+  duplicateFiles: number
+  wastedBytes: number
+}
+
+type DuplicateKeepRule = 'keep-newest' | 'keep-oldest' | 'keep-in-folder'
+
+type FileCategory =
+  | 'video'
+  | 'images'
+  | 'audio'
+  | 'documents'
+  | 'archives'
+  | 'code'
+  | 'build'
+  | 'other'
+
+interface ReportFile {
+  path: string
+  name: string
+  size: number
+  modified: string
+  category: FileCategory
+}
+
+interface ExtensionStats {
+  extension: string
+  category: FileCategory
+  files: number
+  bytes: number
+}
+
+// File statistics collected by the last folder scan
+interface ScanReport {
+  largestFiles: ReportFile[]
+  staleFiles: ReportFile[]
+  staleDays: number
+  ageHistogram: { label: string; files: number; bytes: number }[]
+  categories: { category: FileCategory; files: number; bytes: number }[]
+  extensions: ExtensionStats[]
+  totalFiles: number
+  totalBytes: number
+}
+
+type ReportView = 'folders' | 'largest' | 'stale' | 'age' | 'types'
+
+interface TableSort<T extends string> {
+  column: T
+  direction: 'asc' | 'desc'
+}
+
+const CATEGORY_LABELS: Record<FileCategory, string> = {
+  video: 'Video',
+  images: 'Images',
+  audio: 'Audio',
+  documents: 'Documents',
+  archives: 'Archives',
+  code: 'Code',
+  build: 'Build output',
+  other: 'Other',
+}
+
+const CHART_COLORS = [
+  '#3b82f6',
+  '#22c55e',
+  '#f59e0b',
+  '#8b5cf6',
+  '#ec4899',
+  '#06b6d4',
+  '#f97316',
+  '#14b8a6',
+]
+
+// Rendering thousands of groups makes the page sluggish
+const MAX_GROUPS_SHOWN = 500
+
 interface ScanProgress {
   isScanning: boolean
+  // Folder sizes or duplicate files; for duplicates foldersScanned counts
+  // files and currentSize the bytes compared so far
+  task: 'sizes' | 'duplicates'
   scanningPath: string
   currentPath: string
   foldersScanned: number
@@ -247,7 +345,7 @@ export class GarbageFinder extends LitElement {
 
     .tree-header {
       display: grid;
-      grid-template-columns: 1fr 150px 80px 120px;
+      grid-template-columns: 1fr 150px 80px 150px;
       gap: 0.5rem;
       padding: 0.75rem 1rem;
       background: #334155;
@@ -266,7 +364,7 @@ export class GarbageFinder extends LitElement {
 
     .tree-node {
       display: grid;
-      grid-template-columns: 1fr 150px 80px 120px;
+      grid-template-columns: 1fr 150px 80px 150px;
       gap: 0.5rem;
       padding: 0.5rem 1rem;
       border-bottom: 1px solid #1e293b;
@@ -439,6 +537,173 @@ export class GarbageFinder extends LitElement {
       cursor: not-allowed;
     }
 
+    .btn-duplicates {
+      padding: 0.3rem 0.5rem;
+      background: transparent;
+      color: #94a3b8;
+      border: 1px solid #475569;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 0.75rem;
+      transition: all 0.2s;
+    }
+
+    .btn-duplicates:hover {
+      background: #0ea5e9;
+      border-color: #0ea5e9;
+      color: white;
+    }
+
+    .btn-duplicates:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .view-tabs {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.5rem;
+      margin-bottom: 1rem;
+    }
+
+    .report-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.85rem;
+    }
+
+    .report-table th {
+      position: sticky;
+      top: 0;
+      background: #334155;
+      color: #94a3b8;
+      font-weight: 600;
+      text-align: left;
+      padding: 0.5rem 0.75rem;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+
+    .report-table th.number,
+    .report-table td.number {
+      text-align: right;
+    }
+
+    .report-table td {
+      padding: 0.35rem 0.75rem;
+      border-bottom: 1px solid #1e293b;
+      max-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .report-table tr:hover td {
+      background: #334155;
+    }
+
+    .report-table tr.selected td {
+      background: #1e3a5f;
+    }
+
+    .report-table .check {
+      width: 28px;
+    }
+
+    .report-table .folder {
+      color: #64748b;
+    }
+
+    .report-chart {
+      display: block;
+      width: 100%;
+      padding: 1rem 0;
+    }
+
+    .duplicates-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 1rem;
+      padding: 0.75rem 1rem;
+      background: #334155;
+    }
+
+    .duplicates-title {
+      font-weight: 600;
+      color: #f8fafc;
+      word-break: break-all;
+    }
+
+    .duplicates-toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.75rem 1rem;
+      border-bottom: 1px solid #334155;
+      color: #94a3b8;
+      font-size: 0.85rem;
+    }
+
+    .duplicates-toolbar select,
+    .duplicates-toolbar input {
+      padding: 0.35rem 0.5rem;
+      background: #0f172a;
+      border: 1px solid #475569;
+      color: #e2e8f0;
+      border-radius: 4px;
+      font-size: 0.85rem;
+    }
+
+    .duplicates-toolbar input {
+      flex: 1;
+      min-width: 200px;
+    }
+
+    .duplicates-marked {
+      margin-left: auto;
+    }
+
+    .duplicate-group {
+      border-bottom: 1px solid #334155;
+      padding: 0.5rem 1rem;
+    }
+
+    .duplicate-group-header {
+      display: flex;
+      justify-content: space-between;
+      color: #94a3b8;
+      font-size: 0.8rem;
+      margin-bottom: 0.25rem;
+    }
+
+    .duplicate-group-header .wasted {
+      color: #f59e0b;
+      font-weight: 600;
+    }
+
+    .duplicate-file {
+      display: grid;
+      grid-template-columns: 24px 1fr 170px;
+      gap: 0.5rem;
+      align-items: center;
+      padding: 0.2rem 0;
+      font-size: 0.85rem;
+    }
+
+    .duplicate-file.marked .folder-label {
+      color: #94a3b8;
+      text-decoration: line-through;
+    }
+
+    .duplicate-file .modified {
+      color: #64748b;
+      font-size: 0.8rem;
+      text-align: right;
+    }
+
     .confirm-overlay {
       position: fixed;
       top: 0;
@@ -529,6 +794,7 @@ export class GarbageFinder extends LitElement {
   @property({ type: Object })
   scanProgress: ScanProgress = {
     isScanning: false,
+    task: 'sizes',
     scanningPath: '',
     currentPath: '',
     foldersScanned: 0,
@@ -548,6 +814,49 @@ export class GarbageFinder extends LitElement {
   @property({ type: Boolean })
   sortBySize: boolean = true
 
+  // Result of the last duplicate search, shown instead of the folder tree
+  @property({ type: Object })
+  duplicates: DuplicateScan | null = null
+
+  @property({ type: String })
+  keepRule: DuplicateKeepRule = 'keep-newest'
+
+  @property({ type: String })
+  keepFolder: string = ''
+
+  // Files the keep rule would remove, as planned by the backend
+  @property({ type: Object })
+  markedPaths: Set<string> = new Set()
+
+  @property({ type: Boolean })
+  cleaningUp: boolean = false
+
+  @property({ type: Object })
+  report: ScanReport | null = null
+
+  // Folder the report belongs to
+  @property({ type: String })
+  reportPath: string = ''
+
+  @property({ type: String })
+  view: ReportView = 'folders'
+
+  @property({ type: Object })
+  fileSort: TableSort<'name' | 'path' | 'category' | 'size' | 'modified'> = {
+    column: 'size',
+    direction: 'desc',
+  }
+
+  @property({ type: Object })
+  extensionSort: TableSort<'extension' | 'category' | 'files' | 'bytes'> = {
+    column: 'bytes',
+    direction: 'desc',
+  }
+
+  // Files selected in the report tables, can be opened in Commander
+  @property({ type: Object })
+  selectedPaths: Set<string> = new Set()
+
   private expandedPaths: Set<string> = new Set()
 
   connectedCallback() {
@@ -564,6 +873,17 @@ export class GarbageFinder extends LitElement {
     if (savedState.expandedPaths) {
       this.expandedPaths = new Set(savedState.expandedPaths)
     }
+    if (savedState.report) {
+      this.report = savedState.report
+      this.reportPath = savedState.reportPath ?? ''
+      this.view = savedState.view ?? 'folders'
+    }
+    if (savedState.duplicates) {
+      this.duplicates = savedState.duplicates
+      this.keepRule = savedState.keepRule ?? this.keepRule
+      this.keepFolder = savedState.keepFolder ?? ''
+      this.previewCleanup()
+    }
 
     // Load available drives only if no saved tree data
     if (!savedState.treeData || savedState.treeData.length === 0) {
@@ -592,6 +912,17 @@ export class GarbageFinder extends LitElement {
     )
   }
 
+  protected updated(changedProps: Map<string, unknown>) {
+    if (
+      (changedProps.has('view') ||
+        changedProps.has('report') ||
+        changedProps.has('duplicates')) &&
+      (this.view === 'age' || this.view === 'types')
+    ) {
+      this.renderReportChart()
+    }
+  }
+
   disconnectedCallback() {
     super.disconnectedCallback()
     // Save session state when navigating away
@@ -599,6 +930,12 @@ export class GarbageFinder extends LitElement {
       sortBySize: this.sortBySize,
       treeData: this.treeData,
       expandedPaths: Array.from(this.expandedPaths),
+      report: this.report,
+      reportPath: this.reportPath,
+      view: this.view,
+      duplicates: this.duplicates,
+      keepRule: this.keepRule,
+      keepFolder: this.keepFolder,
     })
   }
 
@@ -756,6 +1093,7 @@ export class GarbageFinder extends LitElement {
 
     this.scanProgress = {
       isScanning: true,
+      task: 'sizes',
       scanningPath: node.path,
       currentPath: node.path,
       foldersScanned: 0,
@@ -785,6 +1123,11 @@ export class GarbageFinder extends LitElement {
           isAnalyzed: true,
           isLoading: false,
         })
+        if (response.data.report) {
+          this.report = response.data.report
+          this.reportPath = node.path
+          this.selectedPaths = new Set()
+        }
       }
     } catch (error) {
       console.error('Scan failed:', error)
@@ -800,6 +1143,378 @@ export class GarbageFinder extends LitElement {
     }
   }
 
+  async findDuplicates(node: FolderNode, event: Event) {
+    event.stopPropagation()
+
+    if (this.scanProgress.isScanning) return
+
+    this.scanProgress = {
+      isScanning: true,
+      task: 'duplicates',
+      scanningPath: node.path,
+      currentPath: node.path,
+      foldersScanned: 0,
+      currentSize: 0,
+      percentage: 0,
+    }
+
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'garbage-finder',
+        { operation: 'find-duplicates', rootPath: node.path },
+      )
+
+      if (response.success && response.data?.success) {
+        this.duplicates = response.data
+        if (
+          this.keepFolder &&
+          !this.keepFolder.startsWith(response.data.rootPath)
+        ) {
+          this.keepFolder = ''
+        }
+        await this.previewCleanup()
+      } else if (!response.data?.cancelled) {
+        alert(
+          `Duplicate search failed: ${response.data?.error || response.error}`,
+        )
+      }
+    } catch (error) {
+      console.error('Duplicate search failed:', error)
+    } finally {
+      this.scanProgress = {
+        ...this.scanProgress,
+        isScanning: false,
+        percentage: 100,
+      }
+    }
+  }
+
+  duplicateGroupPaths(): string[][] {
+    return (this.duplicates?.groups ?? []).map((group) =>
+      group.files.map((file) => file.path),
+    )
+  }
+
+  /**
+   * Ask the backend which files the keep rule removes (dry run)
+   */
+  async previewCleanup() {
+    if (
+      !this.duplicates ||
+      (this.keepRule === 'keep-in-folder' && !this.keepFolder.trim())
+    ) {
+      this.markedPaths = new Set()
+      return
+    }
+
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'garbage-finder',
+        {
+          operation: 'clean-duplicates',
+          groups: this.duplicateGroupPaths(),
+          rule: this.keepRule,
+          keepFolder: this.keepFolder.trim(),
+          dryRun: true,
+        },
+      )
+      const items: Array<{ remove: string[] }> =
+        response.data?.plan?.items ?? []
+      this.markedPaths = new Set(items.flatMap((item) => item.remove))
+    } catch (error) {
+      console.error('Failed to plan duplicate cleanup:', error)
+      this.markedPaths = new Set()
+    }
+  }
+
+  setKeepRule(rule: DuplicateKeepRule) {
+    this.keepRule = rule
+    this.previewCleanup()
+  }
+
+  setKeepFolder(folder: string) {
+    this.keepFolder = folder
+    this.previewCleanup()
+  }
+
+  getMarkedBytes(): number {
+    return (this.duplicates?.groups ?? []).reduce(
+      (total, group) =>
+        total +
+        group.size *
+          group.files.filter((file) => this.markedPaths.has(file.path)).length,
+      0,
+    )
+  }
+
+  async cleanupDuplicates(action: 'delete' | 'hardlink') {
+    if (!this.duplicates || this.markedPaths.size === 0) return
+
+    const count = this.markedPaths.size
+    const size = this.formatSize(this.getMarkedBytes())
+    const question =
+      action === 'delete'
+        ? `Permanently delete ${count} duplicate files (${size})?`
+        : `Replace ${count} duplicate files (${size}) with hard links to the kept copy?`
+    if (!confirm(question)) return
+
+    this.cleaningUp = true
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'garbage-finder',
+        {
+          operation: 'clean-duplicates',
+          groups: this.duplicateGroupPaths(),
+          rule: this.keepRule,
+          keepFolder: this.keepFolder.trim(),
+          action,
+        },
+      )
+
+      if (!response.success || !response.data?.success) {
+        alert(`Cleanup failed: ${response.data?.error || response.error}`)
+        return
+      }
+
+      // Done files are no longer duplicates, failed ones stay in the list
+      const failed = new Set<string>(
+        response.data.errors.map((e: { path: string }) => e.path),
+      )
+      const done = new Set(
+        [...this.markedPaths].filter((filePath) => !failed.has(filePath)),
+      )
+      this.removeDuplicateFiles(done)
+
+      if (failed.size > 0) {
+        alert(
+          `${failed.size} files were skipped:\n` +
+            response.data.errors
+              .slice(0, 10)
+              .map((e: any) => `${e.path}: ${e.error}`)
+              .join('\n'),
+        )
+      }
+
+      const drive = this.drives.find((d) =>
+        this.duplicates?.rootPath.startsWith(d.path),
+      )
+      if (drive) {
+        this.fetchDriveInfo(drive)
+      }
+    } catch (error) {
+      console.error('Cleanup failed:', error)
+      alert(`Cleanup failed: ${error}`)
+    } finally {
+      this.cleaningUp = false
+      await this.previewCleanup()
+    }
+  }
+
+  removeDuplicateFiles(paths: Set<string>) {
+    if (!this.duplicates) return
+
+    const groups = this.duplicates.groups
+      .map((group) => {
+        const files = group.files.filter((file) => !paths.has(file.path))
+        return {
+          ...group,
+          files,
+          wastedBytes: group.size * Math.max(files.length - 1, 0),
+        }
+      })
+      .filter((group) => group.files.length > 1)
+
+    this.duplicates = {
+      ...this.duplicates,
+      groups,
+      duplicateFiles: groups.reduce((n, g) => n + g.files.length - 1, 0),
+      wastedBytes: groups.reduce((n, g) => n + g.wastedBytes, 0),
+    }
+  }
+
+  setView(view: ReportView) {
+    this.closeDuplicates()
+    this.view = view
+    this.selectedPaths = new Set()
+  }
+
+  sortFiles(files: ReportFile[]): ReportFile[] {
+    const { column, direction } = this.fileSort
+    const factor = direction === 'asc' ? 1 : -1
+    return [...files].sort((a, b) => {
+      const compare =
+        column === 'size'
+          ? a.size - b.size
+          : column === 'modified'
+            ? a.modified.localeCompare(b.modified)
+            : a[column].localeCompare(b[column])
+      return compare * factor
+    })
+  }
+
+  sortExtensions(extensions: ExtensionStats[]): ExtensionStats[] {
+    const { column, direction } = this.extensionSort
+    const factor = direction === 'asc' ? 1 : -1
+    return [...extensions].sort((a, b) => {
+      const compare =
+        column === 'files' || column === 'bytes'
+          ? a[column] - b[column]
+          : a[column].localeCompare(b[column])
+      return compare * factor
+    })
+  }
+
+  /**
+   * Sort by a column, clicking the same column again reverses the order.
+   * Sizes and counts start with the largest, text columns with A.
+   */
+  nextSort<T extends string>(
+    sort: TableSort<T>,
+    column: T,
+    numeric: boolean,
+  ): TableSort<T> {
+    if (sort.column === column) {
+      return {
+        column,
+        direction: sort.direction === 'asc' ? 'desc' : 'asc',
+      }
+    }
+    return { column, direction: numeric ? 'desc' : 'asc' }
+  }
+
+  sortIndicator(sort: TableSort<string>, column: string): string {
+    if (sort.column !== column) return ''
+    return sort.direction === 'asc' ? ' ▲' : ' ▼'
+  }
+
+  toggleSelected(filePath: string) {
+    const selected = new Set(this.selectedPaths)
+    if (selected.has(filePath)) {
+      selected.delete(filePath)
+    } else {
+      selected.add(filePath)
+    }
+    this.selectedPaths = selected
+  }
+
+  toggleAllSelected(files: ReportFile[]) {
+    const allSelected = files.every((f) => this.selectedPaths.has(f.path))
+    this.selectedPaths = allSelected
+      ? new Set()
+      : new Set(files.map((f) => f.path))
+  }
+
+  parentFolder(filePath: string): string {
+    const index = Math.max(
+      filePath.lastIndexOf('/'),
+      filePath.lastIndexOf('\\'),
+    )
+    const parent = filePath.substring(0, index)
+    // Keep the separator of drive roots like C:\ and /
+    if (parent === '' || parent.endsWith(':')) {
+      return filePath.substring(0, index + 1)
+    }
+    return parent
+  }
+
+  /**
+   * Open the folder with most of the selected files in Commander and
+   * select them there
+   */
+  openSelectionInCommander() {
+    const paths = [...this.selectedPaths]
+    if (paths.length === 0) return
+
+    const counts = new Map<string, number>()
+    for (const filePath of paths) {
+      const folder = this.parentFolder(filePath)
+      counts.set(folder, (counts.get(folder) ?? 0) + 1)
+    }
+    const [folder] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]
+
+    sessionStorage.setItem('commander-navigate-to', folder)
+    sessionStorage.setItem('commander-select', JSON.stringify(paths))
+    Router.go('/commander')
+  }
+
+  /**
+   * Horizontal bar chart of the age histogram or the file categories
+   */
+  renderReportChart() {
+    const svgEl = this.shadowRoot?.querySelector(
+      '#report-chart',
+    ) as SVGSVGElement | null
+    if (!svgEl || !this.report) return
+
+    const data =
+      this.view === 'age'
+        ? this.report.ageHistogram
+        : this.report.categories.map((c) => ({
+            label: CATEGORY_LABELS[c.category],
+            files: c.files,
+            bytes: c.bytes,
+          }))
+
+    const width = Math.max(400, svgEl.getBoundingClientRect().width || 800)
+    const barHeight = 28
+    const labelWidth = 140
+    const valueWidth = 190
+    const height = data.length * barHeight + 8
+
+    const svg = d3.select(svgEl)
+    svg.selectAll('*').remove()
+    svg.attr('viewBox', `0 0 ${width} ${height}`).attr('height', height)
+
+    const x = d3
+      .scaleLinear()
+      .domain([0, d3.max(data, (d) => d.bytes) || 1])
+      .range([0, width - labelWidth - valueWidth])
+
+    const rows = svg
+      .selectAll('g')
+      .data(data)
+      .enter()
+      .append('g')
+      .attr('transform', (_, i) => `translate(0,${i * barHeight + 4})`)
+
+    rows
+      .append('text')
+      .attr('x', labelWidth - 10)
+      .attr('y', (barHeight - 8) / 2)
+      .attr('dy', '0.35em')
+      .attr('text-anchor', 'end')
+      .attr('fill', '#94a3b8')
+      .attr('font-size', 12)
+      .text((d) => d.label)
+
+    rows
+      .append('rect')
+      .attr('x', labelWidth)
+      .attr('height', barHeight - 8)
+      .attr('width', (d) => (d.bytes > 0 ? Math.max(x(d.bytes), 2) : 0))
+      .attr('rx', 3)
+      .attr('fill', (_, i) => CHART_COLORS[i % CHART_COLORS.length])
+
+    rows
+      .append('text')
+      .attr('x', (d) => labelWidth + x(d.bytes) + 8)
+      .attr('y', (barHeight - 8) / 2)
+      .attr('dy', '0.35em')
+      .attr('fill', '#e2e8f0')
+      .attr('font-size', 12)
+      .text(
+        (d) => `${this.formatSize(d.bytes)} · ${d.files.toLocaleString()} files`,
+      )
+  }
+
+  closeDuplicates() {
+    this.duplicates = null
+    this.markedPaths = new Set()
+  }
+
   updateAnalyzedNode(analyzedNode: FolderNode) {
     const scanningPath = this.scanProgress.scanningPath
     const stillScanning = this.scanProgress.isScanning
@@ -880,6 +1595,9 @@ export class GarbageFinder extends LitElement {
     if (this.scanProgress.isScanning) {
       this.cancelScan()
     }
+    this.closeDuplicates()
+    this.report = null
+    this.view = 'folders'
     // Clear expanded paths
     this.expandedPaths.clear()
     // Reload drives to reset the tree
@@ -1170,6 +1888,14 @@ export class GarbageFinder extends LitElement {
                   >
                     Analyze
                   </button>
+                  <button
+                    class="btn-duplicates"
+                    ?disabled=${this.scanProgress.isScanning}
+                    @click=${(e: Event) => this.findDuplicates(node, e)}
+                    title="Find duplicate files"
+                  >
+                    ⧉
+                  </button>
                   ${node.depth > 0
                     ? html`<button
                         class="btn btn-delete"
@@ -1223,6 +1949,295 @@ export class GarbageFinder extends LitElement {
     )}`
   }
 
+  renderFileTable(files: ReportFile[], emptyText: string): any {
+    if (files.length === 0) {
+      return html`<div class="empty-state">${emptyText}</div>`
+    }
+
+    const sorted = this.sortFiles(files)
+    const allSelected = files.every((f) => this.selectedPaths.has(f.path))
+    const header = (
+      label: string,
+      column: 'name' | 'path' | 'category' | 'size' | 'modified',
+      numeric = false,
+    ) => html`
+      <th
+        class="${numeric ? 'number' : ''}"
+        @click=${() =>
+          (this.fileSort = this.nextSort(
+            this.fileSort,
+            column,
+            numeric || column === 'modified',
+          ))}
+      >
+        ${label}${this.sortIndicator(this.fileSort, column)}
+      </th>
+    `
+
+    return html`
+      <table class="report-table">
+        <thead>
+          <tr>
+            <th class="check">
+              <input
+                type="checkbox"
+                .checked=${allSelected}
+                @change=${() => this.toggleAllSelected(files)}
+              />
+            </th>
+            ${header('Name', 'name')} ${header('Folder', 'path')}
+            ${header('Type', 'category')} ${header('Size', 'size', true)}
+            ${header('Modified', 'modified', true)}
+          </tr>
+        </thead>
+        <tbody>
+          ${sorted.map((file) => {
+            const selected = this.selectedPaths.has(file.path)
+            return html`
+              <tr
+                class="${selected ? 'selected' : ''}"
+                @click=${() => this.toggleSelected(file.path)}
+              >
+                <td class="check">
+                  <input type="checkbox" .checked=${selected} />
+                </td>
+                <td title="${file.name}">${file.name}</td>
+                <td class="folder" title="${file.path}">
+                  ${this.parentFolder(file.path)}
+                </td>
+                <td>${CATEGORY_LABELS[file.category]}</td>
+                <td class="number">${this.formatSize(file.size)}</td>
+                <td class="number">
+                  ${new Date(file.modified).toLocaleDateString()}
+                </td>
+              </tr>
+            `
+          })}
+        </tbody>
+      </table>
+    `
+  }
+
+  renderExtensionTable(extensions: ExtensionStats[], totalBytes: number): any {
+    const header = (
+      label: string,
+      column: 'extension' | 'category' | 'files' | 'bytes',
+      numeric = false,
+    ) => html`
+      <th
+        class="${numeric ? 'number' : ''}"
+        @click=${() =>
+          (this.extensionSort = this.nextSort(
+            this.extensionSort,
+            column,
+            numeric,
+          ))}
+      >
+        ${label}${this.sortIndicator(this.extensionSort, column)}
+      </th>
+    `
+
+    return html`
+      <table class="report-table">
+        <thead>
+          <tr>
+            ${header('Extension', 'extension')}
+            ${header('Type', 'category')} ${header('Files', 'files', true)}
+            ${header('Size', 'bytes', true)}
+            <th class="number">Share</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${this.sortExtensions(extensions).map(
+            (ext) => html`
+              <tr>
+                <td>${ext.extension || '(none)'}</td>
+                <td>${CATEGORY_LABELS[ext.category]}</td>
+                <td class="number">${ext.files.toLocaleString()}</td>
+                <td class="number">${this.formatSize(ext.bytes)}</td>
+                <td class="number">
+                  ${totalBytes > 0
+                    ? ((ext.bytes / totalBytes) * 100).toFixed(1)
+                    : '0.0'}
+                  %
+                </td>
+              </tr>
+            `,
+          )}
+        </tbody>
+      </table>
+    `
+  }
+
+  renderReport(report: ScanReport): any {
+    const fileView = this.view === 'largest' || this.view === 'stale'
+    const staleYears = Math.round((report.staleDays / 365) * 10) / 10
+
+    return html`
+      <div class="tree-container">
+        <div class="duplicates-header">
+          <div>
+            <div class="duplicates-title">${this.reportPath}</div>
+            <div class="subtitle">
+              ${report.totalFiles.toLocaleString()} files ·
+              ${this.formatSize(report.totalBytes)}
+              ${this.view === 'stale'
+                ? html` · not modified for ${staleYears} years`
+                : ''}
+            </div>
+          </div>
+          ${fileView
+            ? html`<button
+                class="btn btn-primary"
+                ?disabled=${this.selectedPaths.size === 0}
+                @click=${() => this.openSelectionInCommander()}
+                title="Show the selected files in Commander"
+              >
+                Open in Commander (${this.selectedPaths.size})
+              </button>`
+            : ''}
+        </div>
+        <div class="tree-body">
+          ${this.view === 'largest'
+            ? this.renderFileTable(report.largestFiles, 'No files found')
+            : this.view === 'stale'
+              ? this.renderFileTable(
+                  report.staleFiles,
+                  `No files older than ${staleYears} years`,
+                )
+              : html`
+                  <svg id="report-chart" class="report-chart"></svg>
+                  ${this.view === 'types'
+                    ? this.renderExtensionTable(
+                        report.extensions,
+                        report.totalBytes,
+                      )
+                    : ''}
+                `}
+        </div>
+      </div>
+    `
+  }
+
+  renderDuplicates(duplicates: DuplicateScan): any {
+    const shownGroups = duplicates.groups.slice(0, MAX_GROUPS_SHOWN)
+
+    return html`
+      <div class="tree-container">
+        <div class="duplicates-header">
+          <div>
+            <div class="duplicates-title">
+              Duplicates in ${duplicates.rootPath}
+            </div>
+            <div class="subtitle">
+              ${duplicates.groups.length.toLocaleString()} groups ·
+              ${duplicates.duplicateFiles.toLocaleString()} duplicate files ·
+              ${this.formatSize(duplicates.wastedBytes)} wasted ·
+              ${duplicates.filesScanned.toLocaleString()} files scanned
+            </div>
+          </div>
+          <button
+            class="btn-reset"
+            ?disabled=${this.cleaningUp}
+            @click=${() => this.closeDuplicates()}
+          >
+            Back to folders
+          </button>
+        </div>
+        <div class="duplicates-toolbar">
+          <span>Keep</span>
+          <select
+            .value=${this.keepRule}
+            ?disabled=${this.cleaningUp}
+            @change=${(e: Event) =>
+              this.setKeepRule(
+                (e.target as HTMLSelectElement).value as DuplicateKeepRule,
+              )}
+          >
+            <option value="keep-newest">newest copy</option>
+            <option value="keep-oldest">oldest copy</option>
+            <option value="keep-in-folder">copies in folder</option>
+          </select>
+          ${this.keepRule === 'keep-in-folder'
+            ? html`<input
+                type="text"
+                placeholder="${duplicates.rootPath}"
+                .value=${this.keepFolder}
+                ?disabled=${this.cleaningUp}
+                @change=${(e: Event) =>
+                  this.setKeepFolder((e.target as HTMLInputElement).value)}
+              />`
+            : ''}
+          <span class="duplicates-marked">
+            ${this.markedPaths.size.toLocaleString()} files marked
+            (${this.formatSize(this.getMarkedBytes())})
+          </span>
+          <button
+            class="btn btn-danger"
+            ?disabled=${this.cleaningUp || this.markedPaths.size === 0}
+            @click=${() => this.cleanupDuplicates('delete')}
+          >
+            Delete marked
+          </button>
+          <button
+            class="btn btn-primary"
+            ?disabled=${this.cleaningUp || this.markedPaths.size === 0}
+            @click=${() => this.cleanupDuplicates('hardlink')}
+            title="Replace the marked files with hard links to the kept copy (same drive only)"
+          >
+            Replace with hard links
+          </button>
+          ${this.cleaningUp ? html`<span class="spinner"></span>` : ''}
+        </div>
+        <div class="tree-body">
+          ${shownGroups.length === 0
+            ? html`
+                <div class="empty-state">
+                  <div class="empty-state-icon">✨</div>
+                  <div>No duplicate files found</div>
+                </div>
+              `
+            : shownGroups.map(
+                (group) => html`
+                  <div class="duplicate-group">
+                    <div class="duplicate-group-header">
+                      <span>
+                        ${group.files.length} × ${this.formatSize(group.size)}
+                      </span>
+                      <span class="wasted">
+                        ${this.formatSize(group.wastedBytes)} wasted
+                      </span>
+                    </div>
+                    ${group.files.map((file) => {
+                      const marked = this.markedPaths.has(file.path)
+                      return html`
+                        <div class="duplicate-file ${marked ? 'marked' : ''}">
+                          <span title="${marked ? 'removed' : 'kept'}">
+                            ${marked ? '🗑' : '✔'}
+                          </span>
+                          <span class="folder-label" title="${file.path}">
+                            ${file.path}
+                          </span>
+                          <span class="modified">
+                            ${new Date(file.modified).toLocaleString()}
+                          </span>
+                        </div>
+                      `
+                    })}
+                  </div>
+                `,
+              )}
+          ${duplicates.groups.length > MAX_GROUPS_SHOWN
+            ? html`<div class="empty-state">
+                ${duplicates.groups.length - MAX_GROUPS_SHOWN} smaller groups
+                not shown
+              </div>`
+            : ''}
+        </div>
+      </div>
+    `
+  }
+
   render() {
     const maxRootSize = Math.max(...this.treeData.map((n) => n.size), 1)
 
@@ -1262,21 +2277,35 @@ export class GarbageFinder extends LitElement {
                 <div class="progress-header">
                   <div class="progress-text">
                     <span class="spinner"></span>
-                    Analyzing ${this.scanProgress.scanningPath}...
+                    ${this.scanProgress.task === 'duplicates'
+                      ? 'Finding duplicates in'
+                      : 'Analyzing'}
+                    ${this.scanProgress.scanningPath}...
                   </div>
                   <div class="progress-stats">
                     <div>
-                      Folders:
+                      ${this.scanProgress.task === 'duplicates'
+                        ? 'Files'
+                        : 'Folders'}:
                       <span
                         >${this.scanProgress.foldersScanned.toLocaleString()}</span
                       >
                     </div>
                     <div>
-                      Size:
+                      ${this.scanProgress.task === 'duplicates'
+                        ? 'Compared'
+                        : 'Size'}:
                       <span
                         >${this.formatSize(this.scanProgress.currentSize)}</span
                       >
                     </div>
+                    ${this.scanProgress.task === 'duplicates' &&
+                    this.scanProgress.percentage > 0
+                      ? html`<div>
+                          Progress:
+                          <span>${this.scanProgress.percentage}%</span>
+                        </div>`
+                      : ''}
                   </div>
                   <button
                     class="btn btn-danger"
@@ -1290,24 +2319,54 @@ export class GarbageFinder extends LitElement {
             `
           : ''}
 
-        <div class="tree-container">
-          <div class="tree-header">
-            <div>Folder</div>
-            <div>Size (relative)</div>
-            <div style="text-align: right">Size</div>
-            <div style="text-align: center">Action</div>
-          </div>
-          <div class="tree-body">
-            ${this.treeData.length > 0
-              ? this.renderTree(this.treeData, maxRootSize)
-              : html`
-                  <div class="empty-state">
-                    <div class="empty-state-icon">📊</div>
-                    <div>Loading drives...</div>
+        ${this.report && !this.duplicates
+          ? html`
+              <div class="view-tabs">
+                ${(
+                  [
+                    ['folders', 'Folders'],
+                    ['largest', 'Largest files'],
+                    ['stale', 'Stale files'],
+                    ['age', 'File age'],
+                    ['types', 'File types'],
+                  ] as [ReportView, string][]
+                ).map(
+                  ([view, label]) => html`
+                    <button
+                      class="btn-toggle ${this.view === view ? 'active' : ''}"
+                      @click=${() => this.setView(view)}
+                    >
+                      ${label}
+                    </button>
+                  `,
+                )}
+              </div>
+            `
+          : ''}
+        ${this.duplicates
+          ? this.renderDuplicates(this.duplicates)
+          : this.report && this.view !== 'folders'
+            ? this.renderReport(this.report)
+            : html`
+                <div class="tree-container">
+                  <div class="tree-header">
+                    <div>Folder</div>
+                    <div>Size (relative)</div>
+                    <div style="text-align: right">Size</div>
+                    <div style="text-align: center">Action</div>
                   </div>
-                `}
-          </div>
-        </div>
+                  <div class="tree-body">
+                    ${this.treeData.length > 0
+                      ? this.renderTree(this.treeData, maxRootSize)
+                      : html`
+                          <div class="empty-state">
+                            <div class="empty-state-icon">📊</div>
+                            <div>Loading drives...</div>
+                          </div>
+                        `}
+                  </div>
+                </div>
+              `}
       </div>
 
       ${this.deleteConfirm.show && this.deleteConfirm.node
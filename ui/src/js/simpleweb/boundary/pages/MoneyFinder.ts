@@ -10,6 +10,7 @@ interface FilterState {
   amountTo: string
   globalSearch1: string
   globalSearch2: string
+  category: string
 }
 
 interface FinderResult {
@@ -22,6 +23,120 @@ interface FinderResult {
   }
 }
 
+type CsvField =
+  | 'date'
+  | 'amount'
+  | 'credit'
+  | 'debit'
+  | 'sign'
+  | 'account'
+  | 'type'
+  | 'name'
+  | 'counterpartyAccount'
+  | 'counterpartyBank'
+  | 'reference'
+
+interface CsvProfile {
+  name: string
+  delimiter: string
+  encoding: 'utf-8' | 'latin1'
+  skipRows: number
+  headers: string[]
+  fields: Array<CsvField | null>
+  decimalSeparator: ',' | '.'
+  dateFormat: string
+  account: string
+}
+
+interface CsvPreview {
+  filePath: string
+  rows: string[][]
+  totalRows: number
+  profile: CsvProfile
+  saved: boolean
+}
+
+const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  date: 'Date',
+  amount: 'Amount',
+  credit: 'Credit (Haben)',
+  debit: 'Debit (Soll)',
+  sign: 'Soll/Haben mark',
+  account: 'Account',
+  type: 'Type',
+  name: 'Name',
+  counterpartyAccount: 'Counterparty account',
+  counterpartyBank: 'Counterparty bank',
+  reference: 'Reference',
+}
+
+const CSV_DELIMITERS: Array<[string, string]> = [
+  [';', 'Semicolon ;'],
+  [',', 'Comma ,'],
+  ['\t', 'Tab'],
+  ['|', 'Pipe |'],
+]
+
+const CSV_DATE_FORMATS = [
+  'DD.MM.YYYY',
+  'DD.MM.YY',
+  'YYYY-MM-DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+]
+
+// Data rows shown below the header row while mapping columns
+const CSV_PREVIEW_ROWS = 10
+
+type CategoryRuleField = 'any' | 'name' | 'counterpartyAccount' | 'reference'
+
+interface CategoryRule {
+  id: string
+  enabled: boolean
+  category: string
+  field: CategoryRuleField
+  pattern: string
+  regex: boolean
+  amountMin: number | null
+  amountMax: number | null
+}
+
+interface CategoryTotal {
+  category: string
+  sum: number
+  budget: number | null // Spending target for the period
+  over: boolean
+}
+
+const CATEGORY_RULE_FIELDS: Record<CategoryRuleField, string> = {
+  any: 'Any text',
+  name: 'Counterparty',
+  counterpartyAccount: 'IBAN / account',
+  reference: 'Reference',
+}
+
+// Rows without a matching rule, also the value of the category filter
+const UNCATEGORIZED = '(uncategorized)'
+
+// Periods shown in the category breakdown table
+const BREAKDOWN_PERIODS = 12
+
+type ExportLocale = 'de' | 'en' | 'iso'
+
+const EXPORT_LOCALES: Record<ExportLocale, string> = {
+  de: 'German (1234,56 / 31.01.2024)',
+  en: 'English (1234.56 / 01/31/2024)',
+  iso: 'ISO (1234.56 / 2024-01-31)',
+}
+
+interface LedgerSource {
+  path: string
+  format: string
+  importedAt: string
+  transactions: number
+  added: number // Transactions that were not in the ledger yet
+}
+
 export class MoneyFinder extends LitElement {
   static styles = css`
     :host {
@@ -414,6 +529,200 @@ export class MoneyFinder extends LitElement {
       font-size: 1.1rem;
     }
 
+    .mapping-table {
+      min-width: 0;
+    }
+
+    .mapping-table th {
+      cursor: default;
+    }
+
+    .mapping-table th select {
+      width: 100%;
+      min-width: 9rem;
+      padding: 0.25rem;
+      font-size: 0.85rem;
+    }
+
+    .mapping-table th.column-name {
+      background: #e0f2fe;
+      color: #0c4a6e;
+    }
+
+    .mapping-table td.unmapped {
+      color: #94a3b8;
+    }
+
+    .rule-row {
+      display: grid;
+      grid-template-columns: auto 1fr 10rem 1.5fr auto 7rem 7rem auto;
+      gap: 0.5rem;
+      align-items: center;
+      margin-bottom: 0.5rem;
+    }
+
+    .rule-row input[type='text'],
+    .rule-row select {
+      padding: 0.4rem;
+      border: 2px solid #e2e8f0;
+      border-radius: 4px;
+      font-size: 0.9rem;
+      min-width: 0;
+    }
+
+    .rule-row.disabled {
+      opacity: 0.5;
+    }
+
+    .icon-btn {
+      border: none;
+      background: none;
+      cursor: pointer;
+      color: #64748b;
+      font-size: 1rem;
+    }
+
+    .category-actions {
+      display: flex;
+      gap: 0.5rem;
+      align-items: center;
+      flex-wrap: wrap;
+      margin-bottom: 1rem;
+    }
+
+    .category-actions .btn {
+      padding: 0.4rem 0.9rem;
+      font-size: 0.9rem;
+    }
+
+    .category-actions .btn.active {
+      background: #0ea5e9;
+    }
+
+    .category-bars {
+      display: grid;
+      grid-template-columns: minmax(8rem, auto) 1fr auto minmax(14rem, auto);
+      gap: 0.4rem 1rem;
+      align-items: center;
+      margin-bottom: 1rem;
+      font-size: 0.9rem;
+    }
+
+    .category-name {
+      cursor: pointer;
+      color: #0369a1;
+    }
+
+    .category-name:hover {
+      text-decoration: underline;
+    }
+
+    .bar-track {
+      position: relative;
+      height: 1rem;
+      background: #e2e8f0;
+      border-radius: 3px;
+    }
+
+    .bar-fill {
+      height: 100%;
+      border-radius: 3px;
+    }
+
+    .bar-fill.expense {
+      background: #f97316;
+    }
+
+    .bar-fill.income {
+      background: #22c55e;
+    }
+
+    .bar-fill.over {
+      background: #dc2626;
+    }
+
+    .budget-marker {
+      position: absolute;
+      top: -3px;
+      bottom: -3px;
+      width: 2px;
+      background: #1e293b;
+    }
+
+    .category-sum {
+      text-align: right;
+      font-weight: 600;
+      white-space: nowrap;
+    }
+
+    .budget-cell {
+      display: flex;
+      gap: 0.5rem;
+      align-items: center;
+      white-space: nowrap;
+    }
+
+    .budget-cell input {
+      width: 7rem;
+      padding: 0.25rem;
+      border: 2px solid #e2e8f0;
+      border-radius: 4px;
+    }
+
+    .budget-status.over {
+      color: #dc2626;
+      font-weight: 600;
+    }
+
+    .budget-status.under {
+      color: #16a34a;
+    }
+
+    .breakdown-table,
+    .ledger-table {
+      min-width: 0;
+    }
+
+    .breakdown-table th,
+    .ledger-table th {
+      cursor: default;
+    }
+
+    .breakdown-table td.number,
+    .ledger-table td.number {
+      text-align: right;
+    }
+
+    .export-actions {
+      display: flex;
+      gap: 0.5rem;
+      align-items: center;
+      flex-wrap: wrap;
+    }
+
+    .export-actions select {
+      padding: 0.4rem;
+      border: 2px solid #e2e8f0;
+      border-radius: 4px;
+      font-size: 0.85rem;
+    }
+
+    .export-actions .btn {
+      padding: 0.4rem 0.9rem;
+      font-size: 0.9rem;
+    }
+
+    .ledger-actions {
+      display: flex;
+      gap: 0.5rem;
+      flex-wrap: wrap;
+    }
+
+    .ledger-table td.path {
+      white-space: normal;
+      word-break: break-all;
+    }
+
     .loading {
       display: flex;
       align-items: center;
@@ -453,6 +762,7 @@ export class MoneyFinder extends LitElement {
     amountTo: '',
     globalSearch1: '',
     globalSearch2: '',
+    category: '',
   }
 
   @property({ type: Object })
@@ -473,6 +783,50 @@ export class MoneyFinder extends LitElement {
   @property({ type: String })
   sortDirection: 'asc' | 'desc' = 'asc'
 
+  @property({ type: Object })
+  csvImport: CsvPreview | null = null
+
+  @property({ type: Array })
+  csvProfiles: CsvProfile[] = []
+
+  @property({ type: Array })
+  categoryRules: CategoryRule[] = []
+
+  @property({ type: Object })
+  budgets: Record<string, number> = {}
+
+  // Rule edits not saved yet
+  @property({ type: Boolean })
+  categoryRulesChanged = false
+
+  @property({ type: Boolean })
+  showCategoryRules = false
+
+  @property({ type: String })
+  reportPeriod: 'month' | 'year' = 'month'
+
+  // Period of the category chart, the latest one when empty
+  @property({ type: String })
+  selectedPeriod = ''
+
+  // The results are the ledger instead of the selected file
+  @property({ type: Boolean })
+  showingLedger = false
+
+  @property({ type: Array })
+  ledgerSources: LedgerSource[] = []
+
+  @property({ type: String })
+  exportDelimiter = ';'
+
+  @property({ type: String })
+  exportLocale: ExportLocale = 'de'
+
+  connectedCallback() {
+    super.connectedCallback()
+    void this.loadCategories()
+  }
+
   async handleFileSelect() {
     try {
       const response = await (window as any).electron.ipcRenderer.invoke(
@@ -496,6 +850,8 @@ export class MoneyFinder extends LitElement {
         response.filePaths.length > 0
       ) {
         this.selectedFile = response.filePaths[0]
+        this.showingLedger = false
+        this.csvImport = null
         this.setStatus('File selected, starting analysis...', 'info')
 
         // Automatically start analysis after file selection
@@ -531,6 +887,7 @@ export class MoneyFinder extends LitElement {
       amountTo: '',
       globalSearch1: '',
       globalSearch2: '',
+      category: '',
     }
     this.setStatus('Filters cleared', 'info')
   }
@@ -566,32 +923,536 @@ export class MoneyFinder extends LitElement {
         },
       )
 
-      if (response.success && response.data) {
-        const data = response.data
+      const data = response.data
+      if (response.success && data?.success) {
+        this.showResults(data)
+      } else if (data?.needsMapping) {
+        // A CSV export of a bank without a saved profile
+        this.setStatus(
+          'Map the columns of this CSV export once, the profile is used for later exports of the bank',
+          'info',
+        )
+        await this.openCsvImport()
+      } else {
+        this.setStatus(
+          `Error: ${data?.error || response.error || 'Failed to parse file'}`,
+          'error',
+        )
+      }
+    } catch (error: any) {
+      this.setStatus(`Error analyzing file: ${error.message}`, 'error')
+    } finally {
+      this.isLoading = false
+    }
+  }
+
+  showResults(data: any) {
+    this.results = {
+      headers: data.headers,
+      rows: data.rows,
+      summary: data.summary,
+    }
+
+    this.setStatus(
+      `Analysis complete: ${data.summary.totalRows} entries found` +
+        (data.profile ? ` (CSV profile "${data.profile}")` : ''),
+      'success',
+    )
+  }
+
+  /**
+   * Load the CSV preview with a suggested or the matching saved profile.
+   * Delimiter, encoding and header row given here parse the file again.
+   */
+  async openCsvImport(
+    options: { delimiter?: string; encoding?: string; skipRows?: number } = {},
+  ) {
+    if (!this.selectedFile) {
+      this.setStatus('Please select a file first', 'error')
+      return
+    }
+
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'proficash',
+        { action: 'csv-preview', filePath: this.selectedFile, ...options },
+      )
+      const data = response.data
+      if (!response.success || !data?.success) {
+        this.setStatus(
+          `Error: ${data?.error || response.error || 'Failed to read CSV file'}`,
+          'error',
+        )
+        return
+      }
+
+      // Keep what was typed when the file is parsed again
+      const previous = this.csvImport?.profile
+      this.csvImport = {
+        filePath: data.filePath,
+        rows: data.rows,
+        totalRows: data.totalRows,
+        saved: data.saved,
+        profile: previous
+          ? { ...data.profile, name: previous.name, account: previous.account }
+          : data.profile,
+      }
+      await this.loadCsvProfiles()
+    } catch (error: any) {
+      this.setStatus(`Error reading CSV file: ${error.message}`, 'error')
+    }
+  }
+
+  async loadCsvProfiles() {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      'proficash',
+      { action: 'csv-profiles' },
+    )
+    if (response.success && response.data?.success) {
+      this.csvProfiles = response.data.profiles
+    }
+  }
+
+  updateCsvProfile(changes: Partial<CsvProfile>) {
+    if (!this.csvImport) return
+    this.csvImport = {
+      ...this.csvImport,
+      profile: { ...this.csvImport.profile, ...changes },
+    }
+  }
 
-        this.results = {
-          headers: data.headers,
-          rows: data.rows,
-          summary: data.summary,
+  setCsvField(index: number, value: string) {
+    if (!this.csvImport) return
+    const fields = [...this.csvImport.profile.fields]
+    fields[index] = (value || null) as CsvField | null
+    this.updateCsvProfile({ fields })
+  }
+
+  /**
+   * Switch to a saved profile, or to a new suggestion for the file
+   */
+  async selectCsvProfile(name: string) {
+    const saved = this.csvProfiles.find((p) => p.name === name)
+    const current = this.csvImport?.profile
+    const source = saved || current
+    if (!source) return
+    await this.openCsvImport({
+      delimiter: source.delimiter,
+      encoding: source.encoding,
+      skipRows: source.skipRows,
+    })
+    const preview = this.csvImport as CsvPreview | null
+    if (!preview) return
+    this.csvImport = saved
+      ? { ...preview, profile: saved, saved: true }
+      : { ...preview, profile: { ...preview.profile, name: '' }, saved: false }
+  }
+
+  async importCsv(saveProfile: boolean) {
+    if (!this.csvImport) return
+    const profile = this.csvImport.profile
+    if (saveProfile && !profile.name.trim()) {
+      this.setStatus('Please enter a name for the profile', 'error')
+      return
+    }
+
+    this.isLoading = true
+    try {
+      const ipc = (window as any).electron.ipcRenderer
+      if (saveProfile) {
+        const saved = await ipc.invoke('cli-execute', 'proficash', {
+          action: 'csv-save-profile',
+          profile,
+        })
+        if (!saved.success || !saved.data?.success) {
+          this.setStatus(
+            `Error: ${saved.data?.error || saved.error || 'Failed to save profile'}`,
+            'error',
+          )
+          return
         }
+        this.csvProfiles = saved.data.profiles
+      }
 
+      const response = await ipc.invoke('cli-execute', 'proficash', {
+        filePath: this.csvImport.filePath,
+        format: 'csv',
+        profile,
+      })
+      const data = response.data
+      if (response.success && data?.success) {
+        this.csvImport = null
+        this.showResults(data)
+      } else {
         this.setStatus(
-          `Analysis complete: ${data.summary.totalRows} entries found`,
-          'success',
+          `Error: ${data?.error || response.error || 'Failed to import CSV file'}`,
+          'error',
         )
+      }
+    } catch (error: any) {
+      this.setStatus(`Error importing CSV file: ${error.message}`, 'error')
+    } finally {
+      this.isLoading = false
+    }
+  }
+
+  async deleteCsvProfile() {
+    const name = this.csvImport?.profile.name
+    if (!name || !confirm(`Delete the CSV profile "${name}"?`)) return
+
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      'proficash',
+      { action: 'csv-delete-profile', name },
+    )
+    if (response.success && response.data?.success) {
+      this.csvProfiles = response.data.profiles
+      this.updateCsvProfile({ name: '' })
+      this.csvImport = this.csvImport && { ...this.csvImport, saved: false }
+      this.setStatus(`Profile "${name}" deleted`, 'success')
+    } else {
+      this.setStatus(
+        `Error: ${response.data?.error || response.error || 'Failed to delete profile'}`,
+        'error',
+      )
+    }
+  }
+
+  async loadCategories() {
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'proficash',
+        { action: 'categories' },
+      )
+      const data = response.data
+      if (response.success && data?.success) {
+        if (!this.categoryRulesChanged) this.categoryRules = data.rules
+        this.budgets = data.budgets
+      }
+    } catch (error: any) {
+      this.setStatus(`Error loading categories: ${error.message}`, 'error')
+    }
+  }
+
+  addCategoryRule() {
+    this.categoryRules = [
+      ...this.categoryRules,
+      {
+        id: '',
+        enabled: true,
+        category: '',
+        field: 'any',
+        pattern: '',
+        regex: false,
+        amountMin: null,
+        amountMax: null,
+      },
+    ]
+    this.categoryRulesChanged = true
+  }
+
+  updateCategoryRule(index: number, changes: Partial<CategoryRule>) {
+    this.categoryRules = this.categoryRules.map((rule, i) =>
+      i === index ? { ...rule, ...changes } : rule,
+    )
+    this.categoryRulesChanged = true
+  }
+
+  removeCategoryRule(index: number) {
+    this.categoryRules = this.categoryRules.filter((_, i) => i !== index)
+    this.categoryRulesChanged = true
+  }
+
+  /**
+   * The first matching rule wins, so the order matters
+   */
+  moveCategoryRule(index: number, delta: number) {
+    const target = index + delta
+    if (target < 0 || target >= this.categoryRules.length) return
+    const rules = [...this.categoryRules]
+    ;[rules[index], rules[target]] = [rules[target], rules[index]]
+    this.categoryRules = rules
+    this.categoryRulesChanged = true
+  }
+
+  /**
+   * Save the rules and parse the file again so the rows get the categories
+   */
+  async saveCategoryRules() {
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'proficash',
+        { action: 'categories-save', rules: this.categoryRules },
+      )
+      const data = response.data
+      if (!response.success || !data?.success) {
+        this.setStatus(
+          `Error: ${data?.error || response.error || 'Failed to save rules'}`,
+          'error',
+        )
+        return
+      }
+      this.categoryRules = data.rules
+      this.categoryRulesChanged = false
+      if (this.showingLedger) {
+        await this.loadLedger()
+      } else if (this.selectedFile && this.results) {
+        await this.analyzeFile()
       } else {
+        this.setStatus('Category rules saved', 'success')
+      }
+    } catch (error: any) {
+      this.setStatus(`Error saving rules: ${error.message}`, 'error')
+    }
+  }
+
+  async setBudget(category: string, value: string) {
+    const budgets = { ...this.budgets }
+    const amount = parseFloat(value.replace(',', '.'))
+    if (amount > 0) {
+      budgets[category] = amount
+    } else {
+      delete budgets[category]
+    }
+    this.budgets = budgets
+
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      'proficash',
+      { action: 'categories-save', budgets },
+    )
+    if (!response.success || !response.data?.success) {
+      this.setStatus(
+        `Error: ${response.data?.error || response.error || 'Failed to save budget'}`,
+        'error',
+      )
+    }
+  }
+
+  categoryOf(row: any[]): string {
+    return row[8] || UNCATEGORIZED
+  }
+
+  periodOf(date: string): string {
+    const [, month, year] = String(date).split('.')
+    return this.reportPeriod === 'month' ? `${year}-${month}` : year
+  }
+
+  /**
+   * Sum per category in one period with the budget status. Budgets are
+   * monthly, a year counts the months it has transactions in.
+   */
+  categoryTotals(rows: any[][], period: string): CategoryTotal[] {
+    const inPeriod = rows.filter((row) => this.periodOf(row[1]) === period)
+    const months = new Set(
+      inPeriod.map((row) => String(row[1]).split('.').slice(1).join('.')),
+    ).size
+    const sums = new Map<string, number>()
+    for (const row of inPeriod) {
+      const category = this.categoryOf(row)
+      sums.set(category, (sums.get(category) || 0) + Number(row[2]))
+    }
+    // Budgeted categories without transactions are under budget
+    for (const category of Object.keys(this.budgets)) {
+      if (!sums.has(category)) sums.set(category, 0)
+    }
+
+    return [...sums.entries()]
+      .map(([category, sum]) => {
+        const monthly = this.budgets[category]
+        const budget = monthly ? monthly * Math.max(1, months) : null
+        return {
+          category,
+          sum,
+          budget,
+          over: budget !== null && -sum > budget,
+        }
+      })
+      .sort((a, b) => a.sum - b.sum)
+  }
+
+  async loadLedger() {
+    await this.runLedgerAction({ action: 'ledger' })
+  }
+
+  /**
+   * Import statement files or all statement files of a folder, transactions
+   * that are already in the ledger are skipped
+   */
+  async importIntoLedger(folder: boolean) {
+    const selection = await (window as any).electron.ipcRenderer.invoke(
+      'show-open-dialog',
+      {
+        properties: folder
+          ? ['openDirectory']
+          : ['openFile', 'multiSelections'],
+        filters: folder
+          ? []
+          : [
+              {
+                name: 'Bank Statement Files',
+                extensions: ['xml', 'sta', 'mt940', 'txt', 'csv'],
+              },
+              { name: 'All Files', extensions: ['*'] },
+            ],
+      },
+    )
+    if (
+      !selection.success ||
+      selection.canceled ||
+      !selection.filePaths?.length
+    ) {
+      if (selection.error) this.setStatus(`Error: ${selection.error}`, 'error')
+      return
+    }
+
+    const data = await this.runLedgerAction(
+      folder
+        ? { action: 'ledger-import', folder: selection.filePaths[0] }
+        : { action: 'ledger-import', filePaths: selection.filePaths },
+    )
+    if (!data) return
+    const imported: any[] = data.imported
+    const failed = imported.filter((file) => file.error)
+    const added = imported.reduce((sum, file) => sum + (file.added || 0), 0)
+    const duplicates = imported.reduce(
+      (sum, file) => sum + (file.duplicates || 0),
+      0,
+    )
+    const message = `Imported ${added} new transactions from ${imported.length - failed.length} files, ${duplicates} duplicates skipped`
+    if (failed.length > 0) {
+      this.setStatus(
+        `${message}. Not imported: ${failed.map((file) => `${file.filePath} (${file.error})`).join(', ')}`,
+        'error',
+      )
+    } else {
+      this.setStatus(message, 'success')
+    }
+  }
+
+  async removeLedgerSource(path: string) {
+    if (!confirm(`Remove the transactions of ${path} from the ledger?`)) return
+    await this.runLedgerAction({
+      action: 'ledger-remove-source',
+      filePath: path,
+    })
+  }
+
+  async clearLedger() {
+    if (!confirm('Remove all transactions from the ledger?')) return
+    await this.runLedgerAction({ action: 'ledger-clear' })
+  }
+
+  /**
+   * Run a ledger action and show the ledger it returns
+   */
+  async runLedgerAction(params: any): Promise<any> {
+    this.isLoading = true
+    this.setStatus('Loading ledger...', 'info')
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'proficash',
+        params,
+      )
+      const data = response.data
+      if (!response.success || !data?.success) {
         this.setStatus(
-          `Error: ${response.error || 'Failed to parse file'}`,
+          `Error: ${data?.error || response.error || 'Ledger action failed'}`,
           'error',
         )
+        return null
       }
+      this.csvImport = null
+      this.showingLedger = true
+      this.ledgerSources = data.sources
+      this.showResults(data)
+      this.setStatus(
+        `Ledger: ${data.summary.totalRows} transactions from ${data.sources.length} files`,
+        'success',
+      )
+      return data
     } catch (error: any) {
-      this.setStatus(`Error analyzing file: ${error.message}`, 'error')
+      this.setStatus(`Error: ${error.message}`, 'error')
+      return null
     } finally {
       this.isLoading = false
     }
   }
 
+  /**
+   * The active filters as shown in the PDF report
+   */
+  exportFilters(): Record<string, string> {
+    const f = this.filters
+    const range = (from: string, to: string) =>
+      from || to ? `${from || '…'} – ${to || '…'}` : ''
+    return {
+      Source: this.showingLedger ? 'Ledger' : this.selectedFile,
+      Account: f.account,
+      Date: range(f.dateFrom, f.dateTo),
+      Amount: range(f.amountFrom, f.amountTo),
+      Search: [f.globalSearch1, f.globalSearch2].filter((t) => t).join(' + '),
+      Category: f.category,
+    }
+  }
+
+  /**
+   * Export the filtered and sorted rows as shown in the table
+   */
+  async exportResults(exportFormat: 'csv' | 'xlsx' | 'pdf') {
+    if (!this.results) return
+    const names = { csv: 'CSV', xlsx: 'Excel Workbook', pdf: 'PDF Report' }
+    try {
+      const selection = await (window as any).electron.ipcRenderer.invoke(
+        'show-save-dialog',
+        {
+          defaultPath: `moneyfinder-export.${exportFormat}`,
+          filters: [{ name: names[exportFormat], extensions: [exportFormat] }],
+        },
+      )
+      if (!selection.success || selection.canceled || !selection.filePath) {
+        if (selection.error)
+          this.setStatus(`Error: ${selection.error}`, 'error')
+        return
+      }
+
+      const rows = this.sortRows(this.applyFilters(this.results.rows))
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'proficash',
+        {
+          action: 'export',
+          exportFormat,
+          outputPath: selection.filePath,
+          headers: this.results.headers,
+          rows,
+          delimiter: this.exportDelimiter,
+          locale: this.exportLocale,
+          filters: this.exportFilters(),
+        },
+      )
+      const data = response.data
+      if (response.success && data?.success) {
+        this.setStatus(
+          `Exported ${data.totalRows} rows to ${data.outputPath}`,
+          'success',
+        )
+      } else {
+        this.setStatus(
+          `Error: ${data?.error || response.error || 'Export failed'}`,
+          'error',
+        )
+      }
+    } catch (error: any) {
+      this.setStatus(`Error exporting: ${error.message}`, 'error')
+    }
+  }
+
   setStatus(message: string, type: 'info' | 'success' | 'error' | '' = 'info') {
     this.statusMessage = message
     this.statusType = type
@@ -773,6 +1634,30 @@ export class MoneyFinder extends LitElement {
             </div>
           </div>
 
+          ${this.filters.category
+            ? html`
+                <div class="filter-group" style="margin-top: 1rem;">
+                  <label class="filter-label">Category</label>
+                  <div style="display: flex; gap: 0.5rem;">
+                    <input
+                      type="text"
+                      class="filter-input"
+                      .value=${this.filters.category}
+                      readonly
+                      style="flex: 1;"
+                    />
+                    <button
+                      class="btn btn-secondary"
+                      title="Show all categories"
+                      @click=${() => this.updateFilter('category', '')}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              `
+            : ''}
+
           <div class="action-buttons">
             <button
               class="btn btn-secondary"
@@ -783,6 +1668,7 @@ export class MoneyFinder extends LitElement {
             </button>
           </div>
         </div>
+        ${this.renderCategoryRules()}
         <div class="form-group">
           <label for="file-select">Selected File (Format Auto-Detected)</label>
           <div style="display: flex; gap: 0.5rem;">
@@ -790,7 +1676,7 @@ export class MoneyFinder extends LitElement {
               type="text"
               id="file-select"
               .value=${this.selectedFile}
-              placeholder="No file selected... (supports: CAMT.053 XML, legacy fixed-length 768 TXT)"
+              placeholder="No file selected... (supports: CAMT.053/CAMT.052 XML, MT940, bank CSV exports, legacy fixed-length 768 TXT)"
               readonly
               style="flex: 1;"
             />
@@ -801,8 +1687,22 @@ export class MoneyFinder extends LitElement {
             >
               Browse...
             </button>
+            ${this.selectedFile
+              ? html`
+                  <button
+                    class="btn btn-secondary"
+                    @click=${() => this.openCsvImport()}
+                    ?disabled=${this.isLoading}
+                    style="padding: 0.75rem 1rem;"
+                    title="Map the columns of a CSV export"
+                  >
+                    Map CSV columns...
+                  </button>
+                `
+              : ''}
           </div>
         </div>
+        ${this.renderLedger()}
         ${this.statusMessage
           ? html`
               <div class="status-message ${this.statusType}">
@@ -817,6 +1717,7 @@ export class MoneyFinder extends LitElement {
               </div>
             `
           : ''}
+        ${this.csvImport ? this.renderCsvImport() : ''}
 
         <!-- Results Section -->
         ${this.results ? this.renderResults() : this.renderEmptyState()}
@@ -882,6 +1783,14 @@ export class MoneyFinder extends LitElement {
         }
       }
 
+      // Category filter (column 8)
+      if (
+        this.filters.category &&
+        this.categoryOf(row) !== this.filters.category
+      ) {
+        return false
+      }
+
       // Global search 1 - search across all columns (case-insensitive)
       if (this.filters.globalSearch1) {
         const searchTerm = this.filters.globalSearch1.toLowerCase()
@@ -934,6 +1843,62 @@ export class MoneyFinder extends LitElement {
       <div class="results-section">
         <div class="results-header">
           <div class="section-title">📊 Results</div>
+          <div class="export-actions">
+            <select
+              title="CSV delimiter"
+              @change=${(e: Event) =>
+                (this.exportDelimiter = (e.target as HTMLSelectElement).value)}
+            >
+              ${CSV_DELIMITERS.map(
+                ([value, label]) =>
+                  html`<option
+                    value=${value}
+                    ?selected=${this.exportDelimiter === value}
+                  >
+                    ${label}
+                  </option>`,
+              )}
+            </select>
+            <select
+              title="Number and date format"
+              @change=${(e: Event) =>
+                (this.exportLocale = (e.target as HTMLSelectElement)
+                  .value as ExportLocale)}
+            >
+              ${(
+                Object.entries(EXPORT_LOCALES) as Array<[ExportLocale, string]>
+              ).map(
+                ([value, label]) =>
+                  html`<option
+                    value=${value}
+                    ?selected=${this.exportLocale === value}
+                  >
+                    ${label}
+                  </option>`,
+              )}
+            </select>
+            <button
+              class="btn btn-secondary"
+              @click=${() => this.exportResults('csv')}
+              ?disabled=${filteredRows.length === 0}
+            >
+              CSV
+            </button>
+            <button
+              class="btn btn-secondary"
+              @click=${() => this.exportResults('xlsx')}
+              ?disabled=${filteredRows.length === 0}
+            >
+              XLSX
+            </button>
+            <button
+              class="btn btn-secondary"
+              @click=${() => this.exportResults('pdf')}
+              ?disabled=${filteredRows.length === 0}
+            >
+              📄 PDF report
+            </button>
+          </div>
         </div>
 
         <!-- Summary Box -->
@@ -975,6 +1940,9 @@ export class MoneyFinder extends LitElement {
             : ''}
         </div>
 
+        <!-- Category Report -->
+        ${this.renderCategoryReport(filteredRows)}
+
         <!-- Results Table -->
         ${sortedRows.length > 0
           ? html`
@@ -1020,6 +1988,658 @@ export class MoneyFinder extends LitElement {
     `
   }
 
+  renderLedger() {
+    return html`
+      <div class="config-section">
+        <div class="section-title">📚 Ledger</div>
+        <div class="ledger-actions">
+          <button
+            class="btn btn-secondary"
+            @click=${() => this.importIntoLedger(false)}
+            ?disabled=${this.isLoading}
+          >
+            Import files...
+          </button>
+          <button
+            class="btn btn-secondary"
+            @click=${() => this.importIntoLedger(true)}
+            ?disabled=${this.isLoading}
+          >
+            Import folder...
+          </button>
+          <button
+            class="btn btn-primary"
+            @click=${this.loadLedger}
+            ?disabled=${this.isLoading}
+          >
+            Show ledger
+          </button>
+          ${this.showingLedger && this.ledgerSources.length > 0
+            ? html`
+                <button
+                  class="btn btn-secondary"
+                  @click=${this.clearLedger}
+                  ?disabled=${this.isLoading}
+                >
+                  🗑️ Clear ledger
+                </button>
+              `
+            : ''}
+        </div>
+        ${this.showingLedger && this.ledgerSources.length > 0
+          ? html`
+              <div class="table-container">
+                <table class="ledger-table">
+                  <thead>
+                    <tr>
+                      <th>Imported file</th>
+                      <th>Format</th>
+                      <th>Transactions</th>
+                      <th>New</th>
+                      <th>Imported</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    ${this.ledgerSources.map(
+                      (source) => html`
+                        <tr>
+                          <td class="path">${source.path}</td>
+                          <td>${source.format}</td>
+                          <td class="number">${source.transactions}</td>
+                          <td class="number">${source.added}</td>
+                          <td>
+                            ${new Date(source.importedAt).toLocaleString()}
+                          </td>
+                          <td>
+                            <button
+                              class="icon-btn"
+                              title="Remove this file from the ledger"
+                              @click=${() =>
+                                this.removeLedgerSource(source.path)}
+                            >
+                              ✕
+                            </button>
+                          </td>
+                        </tr>
+                      `,
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            `
+          : ''}
+      </div>
+    `
+  }
+
+  renderCategoryRules() {
+    const inputValue = (e: Event) => (e.target as HTMLInputElement).value
+    const amount = (e: Event) => {
+      const value = parseFloat(inputValue(e).replace(',', '.'))
+      return isNaN(value) ? null : value
+    }
+    const categories = [
+      ...new Set(this.categoryRules.map((rule) => rule.category)),
+    ].filter((c) => c)
+
+    return html`
+      <div class="config-section">
+        <div class="section-title">
+          🏷️ Categories
+          <button
+            class="btn btn-secondary"
+            style="padding: 0.25rem 0.75rem; font-size: 0.85rem;"
+            @click=${() => (this.showCategoryRules = !this.showCategoryRules)}
+          >
+            ${this.showCategoryRules ? 'Hide rules' : 'Edit rules'}
+            (${this.categoryRules.length})
+          </button>
+        </div>
+        ${this.showCategoryRules
+          ? html`
+              <div class="info-box-text" style="margin-bottom: 1rem;">
+                The first matching rule gives a transaction its category. Text
+                matches ignore case; amounts are signed, e.g. max -0.01 for
+                debits only.
+              </div>
+              <datalist id="category-names">
+                ${categories.map((c) => html`<option value=${c}></option>`)}
+              </datalist>
+              ${this.categoryRules.map(
+                (rule, index) => html`
+                  <div class="rule-row ${rule.enabled ? '' : 'disabled'}">
+                    <input
+                      type="checkbox"
+                      title="Enabled"
+                      .checked=${rule.enabled}
+                      @change=${(e: Event) =>
+                        this.updateCategoryRule(index, {
+                          enabled: (e.target as HTMLInputElement).checked,
+                        })}
+                    />
+                    <input
+                      type="text"
+                      list="category-names"
+                      placeholder="Category, e.g. rent"
+                      .value=${rule.category}
+                      @input=${(e: Event) =>
+                        this.updateCategoryRule(index, {
+                          category: inputValue(e),
+                        })}
+                    />
+                    <select
+                      @change=${(e: Event) =>
+                        this.updateCategoryRule(index, {
+                          field: (e.target as HTMLSelectElement)
+                            .value as CategoryRuleField,
+                        })}
+                    >
+                      ${(
+                        Object.entries(CATEGORY_RULE_FIELDS) as Array<
+                          [CategoryRuleField, string]
+                        >
+                      ).map(
+                        ([field, label]) =>
+                          html`<option
+                            value=${field}
+                            ?selected=${rule.field === field}
+                          >
+                            ${label}
+                          </option>`,
+                      )}
+                    </select>
+                    <input
+                      type="text"
+                      placeholder=${rule.regex
+                        ? 'Regular expression'
+                        : 'Contains...'}
+                      .value=${rule.pattern}
+                      @input=${(e: Event) =>
+                        this.updateCategoryRule(index, {
+                          pattern: inputValue(e),
+                        })}
+                    />
+                    <label title="Regular expression">
+                      <input
+                        type="checkbox"
+                        .checked=${rule.regex}
+                        @change=${(e: Event) =>
+                          this.updateCategoryRule(index, {
+                            regex: (e.target as HTMLInputElement).checked,
+                          })}
+                      />
+                      .*
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="Amount min"
+                      .value=${rule.amountMin === null
+                        ? ''
+                        : String(rule.amountMin)}
+                      @change=${(e: Event) =>
+                        this.updateCategoryRule(index, {
+                          amountMin: amount(e),
+                        })}
+                    />
+                    <input
+                      type="text"
+                      placeholder="Amount max"
+                      .value=${rule.amountMax === null
+                        ? ''
+                        : String(rule.amountMax)}
+                      @change=${(e: Event) =>
+                        this.updateCategoryRule(index, {
+                          amountMax: amount(e),
+                        })}
+                    />
+                    <span>
+                      <button
+                        class="icon-btn"
+                        title="Move up"
+                        @click=${() => this.moveCategoryRule(index, -1)}
+                      >
+                        ▲
+                      </button>
+                      <button
+                        class="icon-btn"
+                        title="Move down"
+                        @click=${() => this.moveCategoryRule(index, 1)}
+                      >
+                        ▼
+                      </button>
+                      <button
+                        class="icon-btn"
+                        title="Remove"
+                        @click=${() => this.removeCategoryRule(index)}
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  </div>
+                `,
+              )}
+              <div class="action-buttons">
+                <button
+                  class="btn btn-secondary"
+                  @click=${this.addCategoryRule}
+                >
+                  + Rule
+                </button>
+                <button
+                  class="btn btn-primary"
+                  @click=${this.saveCategoryRules}
+                  ?disabled=${!this.categoryRulesChanged || this.isLoading}
+                >
+                  💾 Save rules
+                </button>
+              </div>
+            `
+          : ''}
+      </div>
+    `
+  }
+
+  renderCategoryReport(rows: any[][]) {
+    const periods = [...new Set(rows.map((row) => this.periodOf(row[1])))]
+      .filter((p) => !p.includes('undefined'))
+      .sort()
+    if (periods.length === 0) return ''
+    const period = periods.includes(this.selectedPeriod)
+      ? this.selectedPeriod
+      : periods[periods.length - 1]
+    const totals = this.categoryTotals(rows, period)
+    const scale = Math.max(
+      1,
+      ...totals.map((t) => Math.max(Math.abs(t.sum), t.budget || 0)),
+    )
+
+    // Sum per category and period for the latest periods
+    const recent = periods.slice(-BREAKDOWN_PERIODS)
+    const breakdown = new Map<string, Map<string, number>>()
+    for (const row of rows) {
+      const rowPeriod = this.periodOf(row[1])
+      if (!recent.includes(rowPeriod)) continue
+      const category = this.categoryOf(row)
+      const sums = breakdown.get(category) || new Map<string, number>()
+      sums.set(rowPeriod, (sums.get(rowPeriod) || 0) + Number(row[2]))
+      breakdown.set(category, sums)
+    }
+    const categories = [...breakdown.keys()].sort((a, b) =>
+      a === UNCATEGORIZED ? 1 : b === UNCATEGORIZED ? -1 : a.localeCompare(b),
+    )
+
+    return html`
+      <div class="summary-box">
+        <div class="category-actions">
+          <span class="summary-label">Categories per</span>
+          <button
+            class="btn btn-secondary ${this.reportPeriod === 'month'
+              ? 'active'
+              : ''}"
+            @click=${() => (this.reportPeriod = 'month')}
+          >
+            Month
+          </button>
+          <button
+            class="btn btn-secondary ${this.reportPeriod === 'year'
+              ? 'active'
+              : ''}"
+            @click=${() => (this.reportPeriod = 'year')}
+          >
+            Year
+          </button>
+          <select
+            @change=${(e: Event) =>
+              (this.selectedPeriod = (e.target as HTMLSelectElement).value)}
+          >
+            ${[...periods]
+              .reverse()
+              .map(
+                (p) =>
+                  html`<option value=${p} ?selected=${p === period}>
+                    ${p}
+                  </option>`,
+              )}
+          </select>
+        </div>
+
+        <div class="category-bars">
+          ${totals.map(
+            (total) => html`
+              <span
+                class="category-name"
+                title="Show only this category"
+                @click=${() => this.updateFilter('category', total.category)}
+              >
+                ${total.category}
+              </span>
+              <div class="bar-track">
+                <div
+                  class="bar-fill ${total.sum < 0
+                    ? 'expense'
+                    : 'income'} ${total.over ? 'over' : ''}"
+                  style="width: ${(Math.abs(total.sum) / scale) * 100}%"
+                ></div>
+                ${total.budget !== null
+                  ? html`<div
+                      class="budget-marker"
+                      title="Budget ${this.formatCurrency(total.budget)}"
+                      style="left: ${(total.budget / scale) * 100}%"
+                    ></div>`
+                  : ''}
+              </div>
+              <span class="category-sum">
+                ${this.formatCurrency(total.sum)}
+              </span>
+              <span class="budget-cell">
+                ${total.category === UNCATEGORIZED
+                  ? ''
+                  : html`
+                      <input
+                        type="text"
+                        placeholder="Budget / month"
+                        title="Monthly budget"
+                        .value=${this.budgets[total.category]
+                          ? String(this.budgets[total.category])
+                          : ''}
+                        @change=${(e: Event) =>
+                          this.setBudget(
+                            total.category,
+                            (e.target as HTMLInputElement).value,
+                          )}
+                      />
+                      ${total.budget !== null
+                        ? html`<span
+                            class="budget-status ${total.over
+                              ? 'over'
+                              : 'under'}"
+                          >
+                            ${total.over
+                              ? `${this.formatCurrency(-total.sum - total.budget)} over`
+                              : `${this.formatCurrency(total.budget + total.sum)} left`}
+                          </span>`
+                        : ''}
+                    `}
+              </span>
+            `,
+          )}
+        </div>
+
+        <div class="table-container">
+          <table class="breakdown-table">
+            <thead>
+              <tr>
+                <th>Category</th>
+                ${recent.map((p) => html`<th>${p}</th>`)}
+              </tr>
+            </thead>
+            <tbody>
+              ${categories.map(
+                (category) => html`
+                  <tr>
+                    <td>${category}</td>
+                    ${recent.map((p) => {
+                      const sum = breakdown.get(category)!.get(p)
+                      return html`<td class="number">
+                        ${sum === undefined ? '' : this.formatCurrency(sum)}
+                      </td>`
+                    })}
+                  </tr>
+                `,
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    `
+  }
+
+  renderCsvImport() {
+    if (!this.csvImport) return ''
+    const { profile, rows, totalRows } = this.csvImport
+    const dataRows = rows.slice(
+      profile.skipRows + 1,
+      profile.skipRows + 1 + CSV_PREVIEW_ROWS,
+    )
+    const selectValue = (e: Event) => (e.target as HTMLSelectElement).value
+    const inputValue = (e: Event) => (e.target as HTMLInputElement).value
+    const reload = (changes: {
+      delimiter?: string
+      encoding?: string
+      skipRows?: number
+    }) =>
+      this.openCsvImport({
+        delimiter: profile.delimiter,
+        encoding: profile.encoding,
+        skipRows: profile.skipRows,
+        ...changes,
+      })
+
+    return html`
+      <div class="config-section">
+        <div class="section-title">🧩 CSV Import</div>
+
+        <div class="form-row">
+          <div class="form-group">
+            <label>Profile</label>
+            <select
+              @change=${(e: Event) => this.selectCsvProfile(selectValue(e))}
+            >
+              <option value="">New profile</option>
+              ${this.csvProfiles.map(
+                (p) =>
+                  html`<option
+                    value=${p.name}
+                    ?selected=${this.csvImport?.saved &&
+                    p.name === profile.name}
+                  >
+                    ${p.name}
+                  </option>`,
+              )}
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Profile name</label>
+            <input
+              type="text"
+              placeholder="e.g. Sparkasse Giro"
+              .value=${profile.name}
+              @input=${(e: Event) =>
+                this.updateCsvProfile({ name: inputValue(e) })}
+            />
+          </div>
+          <div class="form-group">
+            <label>Account</label>
+            <input
+              type="text"
+              placeholder="For exports without an account column"
+              .value=${profile.account}
+              @input=${(e: Event) =>
+                this.updateCsvProfile({ account: inputValue(e) })}
+            />
+          </div>
+        </div>
+
+        <div class="form-row">
+          <div class="form-group">
+            <label>Delimiter</label>
+            <select
+              @change=${(e: Event) => reload({ delimiter: selectValue(e) })}
+            >
+              ${CSV_DELIMITERS.map(
+                ([value, label]) =>
+                  html`<option
+                    value=${value}
+                    ?selected=${value === profile.delimiter}
+                  >
+                    ${label}
+                  </option>`,
+              )}
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Encoding</label>
+            <select
+              @change=${(e: Event) => reload({ encoding: selectValue(e) })}
+            >
+              <option value="utf-8" ?selected=${profile.encoding === 'utf-8'}>
+                UTF-8
+              </option>
+              <option value="latin1" ?selected=${profile.encoding === 'latin1'}>
+                ISO-8859-1 (Latin-1)
+              </option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Header row</label>
+            <input
+              type="number"
+              min="1"
+              max=${rows.length}
+              .value=${String(profile.skipRows + 1)}
+              @change=${(e: Event) =>
+                reload({
+                  skipRows: Math.max(0, (parseInt(inputValue(e)) || 1) - 1),
+                })}
+            />
+          </div>
+          <div class="form-group">
+            <label>Decimal separator</label>
+            <select
+              @change=${(e: Event) =>
+                this.updateCsvProfile({
+                  decimalSeparator: selectValue(e) as ',' | '.',
+                })}
+            >
+              <option value="," ?selected=${profile.decimalSeparator === ','}>
+                Comma (1.234,56)
+              </option>
+              <option value="." ?selected=${profile.decimalSeparator === '.'}>
+                Point (1,234.56)
+              </option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Date format</label>
+            <select
+              @change=${(e: Event) =>
+                this.updateCsvProfile({ dateFormat: selectValue(e) })}
+            >
+              ${CSV_DATE_FORMATS.map(
+                (format) =>
+                  html`<option
+                    value=${format}
+                    ?selected=${format === profile.dateFormat}
+                  >
+                    ${format}
+                  </option>`,
+              )}
+            </select>
+          </div>
+        </div>
+
+        <div class="info-box-text">
+          Choose the field of each column. Map either an amount column or credit
+          and debit columns; several columns can go into the reference. Showing
+          ${dataRows.length} of ${Math.max(0, totalRows - profile.skipRows - 1)}
+          rows.
+        </div>
+        <div class="table-container">
+          <table class="mapping-table">
+            <thead>
+              <tr>
+                ${profile.headers.map(
+                  (_, index) => html`
+                    <th>
+                      <select
+                        @change=${(e: Event) =>
+                          this.setCsvField(index, selectValue(e))}
+                      >
+                        <option value="" ?selected=${!profile.fields[index]}>
+                          — ignore —
+                        </option>
+                        ${(
+                          Object.entries(CSV_FIELD_LABELS) as Array<
+                            [CsvField, string]
+                          >
+                        ).map(
+                          ([field, label]) =>
+                            html`<option
+                              value=${field}
+                              ?selected=${profile.fields[index] === field}
+                            >
+                              ${label}
+                            </option>`,
+                        )}
+                      </select>
+                    </th>
+                  `,
+                )}
+              </tr>
+              <tr>
+                ${profile.headers.map(
+                  (header) => html`<th class="column-name">${header}</th>`,
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              ${dataRows.map(
+                (row) => html`
+                  <tr>
+                    ${profile.headers.map(
+                      (_, index) =>
+                        html`<td
+                          class=${profile.fields[index] ? '' : 'unmapped'}
+                        >
+                          ${row[index] ?? ''}
+                        </td>`,
+                    )}
+                  </tr>
+                `,
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div class="action-buttons">
+          <button
+            class="btn btn-primary"
+            @click=${() => this.importCsv(true)}
+            ?disabled=${this.isLoading}
+          >
+            💾 Save profile & import
+          </button>
+          <button
+            class="btn btn-secondary"
+            @click=${() => this.importCsv(false)}
+            ?disabled=${this.isLoading}
+          >
+            Import once
+          </button>
+          ${this.csvImport.saved
+            ? html`
+                <button
+                  class="btn btn-secondary"
+                  @click=${this.deleteCsvProfile}
+                  ?disabled=${this.isLoading}
+                >
+                  🗑️ Delete profile
+                </button>
+              `
+            : ''}
+          <button
+            class="btn btn-secondary"
+            @click=${() => (this.csvImport = null)}
+            ?disabled=${this.isLoading}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    `
+  }
+
   renderEmptyState() {
     if (this.isLoading) {
       return html`
@@ -2,7 +2,20 @@ import * as d3 from 'd3'
 import { LitElement, css, html } from 'lit'
 import { customElement, state } from 'lit/decorators.js'
 
-type Metric = 'cpu' | 'memory' | 'io' | 'ports' | 'handles'
+type Metric =
+  | 'cpu'
+  | 'memory'
+  | 'io'
+  | 'ports'
+  | 'handles'
+  | 'history'
+  | 'processes'
+  | 'network'
+  | 'alerts'
+
+type ProcessSignal = 'SIGTERM' | 'SIGKILL' | 'SIGSTOP' | 'SIGCONT'
+
+type HistoryRange = '1h' | '24h' | '7d'
 
 interface UsageEntry {
   pid: number
@@ -42,6 +55,221 @@ interface FileHandleEntry {
   command: string
 }
 
+interface ProcessInfo {
+  pid: number
+  ppid: number
+  name: string
+  command: string
+  user: string | null
+  cpu: number
+  memoryMB: number
+  threads: number | null
+  startTime: string | null
+}
+
+interface ProcessTreeEntry extends ProcessInfo {
+  depth: number
+  childCount: number
+}
+
+interface ProcessDetails {
+  process: ProcessInfo
+  parents: ProcessInfo[]
+  children: number
+  cwd: string | null
+  environment: Record<string, string> | null
+  openFiles: string[] | null
+  ports: OpenPort[]
+}
+
+const PROCESS_SIGNALS: Array<{ signal: ProcessSignal; label: string }> = [
+  { signal: 'SIGTERM', label: 'Terminate' },
+  { signal: 'SIGKILL', label: 'Kill' },
+  { signal: 'SIGSTOP', label: 'Pause' },
+  { signal: 'SIGCONT', label: 'Resume' },
+]
+
+interface ProcessActivity {
+  name: string
+  cpuAvg: number
+  cpuMax: number
+  memoryMaxMB: number
+  samples: number
+}
+
+interface MetricsPoint {
+  time: number
+  samples: number
+  cpuAvg: number | null
+  cpuMax: number | null
+  memoryUsedMB: number | null
+  memoryTotalMB: number | null
+  diskIoMBps: number | null
+  networkRxMBps: number | null
+  networkTxMBps: number | null
+  topProcesses: ProcessActivity[]
+}
+
+interface MetricsHistory {
+  from: number
+  to: number
+  bucketMs: number
+  samples: number
+  points: MetricsPoint[]
+  topProcesses: ProcessActivity[]
+}
+
+interface RecorderStatus {
+  settings: { enabled: boolean; intervalSeconds: number; retentionDays: number }
+  running: boolean
+  samples: number
+  capacity: number
+  oldest: string | null
+  newest: string | null
+  lastError: string | null
+}
+
+interface InterfaceRate {
+  name: string
+  loopback: boolean
+  rxMBps: number
+  txMBps: number
+  rxTotalMB: number
+  txTotalMB: number
+}
+
+interface NetworkRates {
+  interfaces: InterfaceRate[]
+  rxMBps: number
+  txMBps: number
+}
+
+interface NetworkConnection {
+  protocol: string
+  localAddress: string
+  localPort: number
+  remoteAddress: string
+  remotePort: number
+  state: string
+  pid: number
+  processName: string
+}
+
+interface NetworkRatePoint {
+  time: number
+  rxMBps: number
+  txMBps: number
+}
+
+type AlertRuleType = 'disk-free' | 'process-cpu' | 'memory' | 'port'
+
+interface AlertRule {
+  id?: string // Assigned when saved
+  type: AlertRuleType
+  enabled: boolean
+  threshold: number
+  minutes: number
+  target: string
+}
+
+interface AlertStatus {
+  settings: { enabled: boolean; intervalSeconds: number; rules: AlertRule[] }
+  running: boolean
+  lastCheck: string | null
+  lastError: string | null
+}
+
+interface Alert {
+  id: string
+  ruleId: string
+  type: AlertRuleType
+  time: string
+  title: string
+  message: string
+}
+
+interface TimeChartOptions<T> {
+  points: T[]
+  from: number
+  to: number
+  gapMs: number // Longer gaps between points break the lines
+  leftMax: number | null // null to scale to the values
+  leftFormat: (value: number) => string
+  leftAxisWidth?: number
+  rightFormat?: (value: number) => string
+  band?: {
+    color: string
+    low: (point: T) => number | null
+    high: (point: T) => number | null
+  }
+  series: Array<{
+    color: string
+    value: (point: T) => number | null
+    axis: 'left' | 'right'
+  }>
+  tooltip: (point: T) => string[]
+}
+
+const HISTORY_RANGES: Array<{ range: HistoryRange; label: string }> = [
+  { range: '1h', label: 'Last hour' },
+  { range: '24h', label: 'Last 24 hours' },
+  { range: '7d', label: 'Last 7 days' },
+]
+
+const RECORDER_INTERVALS = [10, 30, 60, 300]
+
+const HISTORY_COLORS = {
+  cpu: '#3b82f6',
+  cpuPeak: 'rgba(59, 130, 246, 0.22)',
+  memory: '#22c55e',
+  io: '#f59e0b',
+  networkRx: '#a855f7',
+  networkTx: '#ec4899',
+}
+
+const ALERT_RULE_TYPES: Array<{
+  type: AlertRuleType
+  label: string
+  unit: string | null // null when the rule has no threshold
+  target: string | null // Placeholder, null when the rule has no target
+  threshold: number
+}> = [
+  {
+    type: 'disk-free',
+    label: 'Disk free below',
+    unit: 'GB',
+    target: 'Drive or mount point, empty for all',
+    threshold: 10,
+  },
+  {
+    type: 'process-cpu',
+    label: 'Process CPU above',
+    unit: '%',
+    target: 'Process name, empty for all',
+    threshold: 80,
+  },
+  {
+    type: 'memory',
+    label: 'Memory used above',
+    unit: '%',
+    target: null,
+    threshold: 90,
+  },
+  {
+    type: 'port',
+    label: 'Port opened or closed',
+    unit: null,
+    target: 'Port, empty for all',
+    threshold: 0,
+  },
+]
+
+const ALERT_INTERVALS = [15, 30, 60, 300]
+
+// Live network rates shown in the network tab
+const NETWORK_WINDOW_MS = 10 * 60 * 1000
+const NETWORK_GAP_MS = 15 * 1000
+
 @customElement('nh-system-monitor')
 export class SystemMonitor extends LitElement {
   @state() private metric: Metric = 'cpu'
@@ -61,6 +289,31 @@ export class SystemMonitor extends LitElement {
   @state() private fileHandleResults: FileHandleEntry[] = []
   @state() private fileHandleLoading = false
   @state() private fileHandleError = ''
+  @state() private historyRange: HistoryRange = '1h'
+  @state() private history: MetricsHistory | null = null
+  @state() private recorder: RecorderStatus | null = null
+  @state() private historyLoading = false
+  @state() private historyError = ''
+  @state() private processTree: ProcessTreeEntry[] = []
+  @state() private collapsedPids = new Set<number>()
+  @state() private processFilter = ''
+  @state() private processLoading = false
+  @state() private processError = ''
+  @state() private selectedPid: number | null = null
+  @state() private processDetails: ProcessDetails | null = null
+  @state() private detailsLoading = false
+  @state() private signalTree = false
+  @state() private network: NetworkRates | null = null
+  @state() private connections: NetworkConnection[] = []
+  @state() private networkRates: NetworkRatePoint[] = []
+  @state() private connectionFilter = ''
+  @state() private networkLoading = false
+  @state() private networkError = ''
+  @state() private alertStatus: AlertStatus | null = null
+  @state() private alertRules: AlertRule[] = []
+  @state() private alertRulesChanged = false
+  @state() private alertLog: Alert[] = []
+  @state() private alertError = ''
   private refreshTimer: number | null = null
 
   static styles = css`
@@ -413,6 +666,264 @@ export class SystemMonitor extends LitElement {
       color: rgba(148, 163, 184, 0.5);
     }
 
+    .history-toolbar {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      flex-wrap: wrap;
+    }
+
+    .history-spacer {
+      flex: 1;
+    }
+
+    .history-interval {
+      display: flex;
+      align-items: center;
+      gap: 0.4rem;
+      font-size: 0.85rem;
+      color: #94a3b8;
+    }
+
+    .history-interval select {
+      background: rgba(15, 23, 42, 0.6);
+      border: 1px solid rgba(148, 163, 184, 0.3);
+      border-radius: 8px;
+      padding: 0.4rem 0.5rem;
+      color: #e2e8f0;
+    }
+
+    .history-chart-wrap {
+      position: relative;
+      z-index: 20;
+      flex: 1 1 auto;
+      min-height: 260px;
+      display: flex;
+      flex-direction: column;
+    }
+
+    .history-chart-wrap svg {
+      width: 100%;
+      height: 100%;
+      flex: 1;
+      min-height: 0;
+    }
+
+    .history-legend {
+      display: flex;
+      gap: 1rem;
+      font-size: 0.78rem;
+      color: #94a3b8;
+    }
+
+    .legend-dot {
+      display: inline-block;
+      width: 0.7rem;
+      height: 0.7rem;
+      border-radius: 2px;
+      margin-right: 0.3rem;
+      vertical-align: middle;
+    }
+
+    .history-row {
+      display: grid;
+      grid-template-columns: 1fr auto auto auto auto;
+      gap: 0.65rem;
+      align-items: center;
+      background: rgba(15, 23, 42, 0.45);
+      border: 1px solid rgba(148, 163, 184, 0.2);
+      border-radius: 8px;
+      padding: 0.35rem 0.6rem;
+      font-size: 0.82rem;
+    }
+
+    .network-row,
+    .connection-row {
+      display: grid;
+      grid-template-columns: 1fr 6.5em 6.5em 9em;
+      gap: 0.5rem;
+      align-items: center;
+      padding: 0.2rem 0.5rem;
+      border-radius: 6px;
+      font-size: 0.8rem;
+    }
+
+    .connection-row {
+      grid-template-columns: 1fr 1.4fr 5em 7em;
+    }
+
+    .network-row.header,
+    .connection-row.header {
+      color: #94a3b8;
+    }
+
+    .network-row.loopback {
+      opacity: 0.6;
+    }
+
+    .alert-rules {
+      flex: 0 1 auto;
+    }
+
+    .alert-rule {
+      display: grid;
+      grid-template-columns: auto 11em 7em 1fr 9em auto;
+      gap: 0.5rem;
+      align-items: center;
+      font-size: 0.85rem;
+    }
+
+    .alert-rule.disabled {
+      opacity: 0.55;
+    }
+
+    .alert-rule .handle-input {
+      padding: 0.3rem 0.5rem;
+      min-width: 0;
+    }
+
+    .alert-rule-value {
+      display: flex;
+      align-items: center;
+      gap: 0.3rem;
+      color: #94a3b8;
+    }
+
+    .alert-rule-value .handle-input {
+      width: 4.5em;
+      flex: none;
+    }
+
+    .alert-rule-actions {
+      display: flex;
+      gap: 0.5rem;
+      margin-top: 0.3rem;
+    }
+
+    .alert-entry {
+      grid-template-columns: 11em 10em 1fr;
+    }
+
+    .process-layout {
+      flex: 1;
+      min-height: 0;
+      display: flex;
+      gap: 1rem;
+    }
+
+    .process-layout .ports-list {
+      flex: 1 1 55%;
+    }
+
+    .process-layout .network-interfaces {
+      flex: 0 1 40%;
+    }
+
+    .process-row {
+      display: grid;
+      grid-template-columns: 1fr 4.5em 6em 4.5em 5.5em 3.5em;
+      gap: 0.5rem;
+      align-items: center;
+      padding: 0.2rem 0.5rem;
+      border-radius: 6px;
+      font-size: 0.8rem;
+      cursor: pointer;
+    }
+
+    .process-row:hover {
+      background: rgba(148, 163, 184, 0.12);
+    }
+
+    .process-row.selected {
+      background: rgba(59, 130, 246, 0.35);
+    }
+
+    .process-row.header {
+      color: #94a3b8;
+      cursor: default;
+      background: none;
+    }
+
+    .process-name {
+      display: flex;
+      align-items: center;
+      gap: 0.3rem;
+      overflow: hidden;
+      white-space: nowrap;
+      text-overflow: ellipsis;
+      color: #f8fafc;
+    }
+
+    .tree-toggle {
+      width: 1em;
+      flex: 0 0 auto;
+      color: #94a3b8;
+    }
+
+    .process-number {
+      text-align: right;
+      color: #cbd5e1;
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .process-details {
+      flex: 1 1 45%;
+      min-width: 0;
+      overflow: auto;
+      display: flex;
+      flex-direction: column;
+      gap: 0.6rem;
+      font-size: 0.82rem;
+    }
+
+    .detail-grid {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.25rem 0.75rem;
+    }
+
+    .detail-label {
+      color: #94a3b8;
+    }
+
+    .detail-value {
+      color: #f8fafc;
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      overflow-wrap: anywhere;
+    }
+
+    .detail-link {
+      color: #93c5fd;
+      cursor: pointer;
+    }
+
+    .detail-link:hover {
+      text-decoration: underline;
+    }
+
+    .detail-list {
+      max-height: 180px;
+      overflow: auto;
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      font-size: 0.78rem;
+      color: #cbd5e1;
+    }
+
+    .signal-bar {
+      display: flex;
+      align-items: center;
+      gap: 0.4rem;
+      flex-wrap: wrap;
+    }
+
+    .signal-bar label {
+      color: #94a3b8;
+      font-size: 0.8rem;
+    }
+
     @media (max-width: 980px) {
       .chart-wrap {
         min-height: 300px;
@@ -438,6 +949,18 @@ export class SystemMonitor extends LitElement {
     if (changedProps.has('entries') || changedProps.has('metric')) {
       this.renderChart()
     }
+    if (
+      this.metric === 'history' &&
+      (changedProps.has('history') || changedProps.has('metric'))
+    ) {
+      this.renderHistoryChart()
+    }
+    if (
+      this.metric === 'network' &&
+      (changedProps.has('networkRates') || changedProps.has('metric'))
+    ) {
+      this.renderNetworkChart()
+    }
   }
 
   private async refreshData() {
@@ -562,7 +1085,17 @@ export class SystemMonitor extends LitElement {
   private startLiveUpdates() {
     if (this.refreshTimer !== null) return
     this.refreshTimer = window.setInterval(() => {
-      this.refreshData()
+      if (this.metric === 'history') {
+        this.loadHistory()
+      } else if (this.metric === 'processes') {
+        this.loadProcessTree()
+      } else if (this.metric === 'network') {
+        this.loadNetwork()
+      } else if (this.metric === 'alerts') {
+        this.loadAlerts()
+      } else {
+        this.refreshData()
+      }
     }, 4000)
   }
 
@@ -923,30 +1456,1266 @@ export class SystemMonitor extends LitElement {
       .text('Top Processes')
   }
 
-  private switchMetric(metric: Metric) {
-    if (this.metric === metric) return
-    this.metric = metric
-    if (metric === 'ports') {
-      this.loadOpenPorts()
-    } else if (metric === 'handles') {
-      // Don't auto-search — wait for user input
-    } else {
-      this.refreshData()
+  private async runMonitorAction(params: Record<string, unknown>) {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      'system-monitor',
+      params,
+    )
+    const result = response.data || response
+    if (!result?.success) {
+      throw new Error(result?.error || 'System monitor request failed')
     }
+    return result
   }
 
-  render() {
-    return html`
-      <div class="container">
-        <div class="panel header">
-          <div class="title">📊 System Monitor</div>
-          <div class="controls">
-            <button
-              class=${this.metric === 'cpu' ? 'active' : ''}
-              @click=${() => this.switchMetric('cpu')}
-            >
-              CPU
-            </button>
+  private async loadHistory() {
+    this.historyLoading = true
+    this.historyError = ''
+    try {
+      const result = await this.runMonitorAction({
+        action: 'history',
+        range: this.historyRange,
+      })
+      this.history = result.history
+      this.recorder = result.recorder
+    } catch (error: any) {
+      this.historyError = `Error: ${error.message}`
+    } finally {
+      this.historyLoading = false
+    }
+  }
+
+  private switchHistoryRange(range: HistoryRange) {
+    if (this.historyRange === range) return
+    this.historyRange = range
+    this.loadHistory()
+  }
+
+  private async toggleRecorder() {
+    try {
+      const result = await this.runMonitorAction({
+        action: this.recorder?.running ? 'recorder-stop' : 'recorder-start',
+        intervalSeconds: this.recorder?.settings.intervalSeconds,
+      })
+      this.recorder = result.recorder
+      await this.loadHistory()
+    } catch (error: any) {
+      this.historyError = `Error: ${error.message}`
+    }
+  }
+
+  private async setRecorderInterval(intervalSeconds: number) {
+    if (!this.recorder) return
+    if (!this.recorder.running) {
+      // Used when recording is turned on
+      this.recorder = {
+        ...this.recorder,
+        settings: { ...this.recorder.settings, intervalSeconds },
+      }
+      return
+    }
+    try {
+      const result = await this.runMonitorAction({
+        action: 'recorder-start',
+        intervalSeconds,
+      })
+      this.recorder = result.recorder
+    } catch (error: any) {
+      this.historyError = `Error: ${error.message}`
+    }
+  }
+
+  private formatInterval(seconds: number): string {
+    return seconds < 60 ? `${seconds} s` : `${seconds / 60} min`
+  }
+
+  private getMemoryPercent(point: MetricsPoint): number | null {
+    return point.memoryUsedMB !== null && point.memoryTotalMB
+      ? (point.memoryUsedMB / point.memoryTotalMB) * 100
+      : null
+  }
+
+  private renderHistoryChart() {
+    const svgEl = this.shadowRoot?.querySelector(
+      '#history-chart',
+    ) as SVGSVGElement | null
+    const tooltipEl = this.shadowRoot?.querySelector(
+      '#history-tooltip',
+    ) as HTMLDivElement | null
+
+    if (!svgEl || !tooltipEl || !this.history) return
+
+    const { points, from, to, bucketMs } = this.history
+    // Break the lines where nothing was recorded (app closed, recording off)
+    const intervalMs = (this.recorder?.settings.intervalSeconds ?? 0) * 1000
+
+    this.renderTimeChart(svgEl, tooltipEl, {
+      points,
+      from,
+      to,
+      gapMs: Math.max(bucketMs, intervalMs) * 2.5,
+      leftMax: 100,
+      leftFormat: (v) => `${v} %`,
+      rightFormat: (v) => `${v} MB/s`,
+      band: {
+        color: HISTORY_COLORS.cpuPeak,
+        low: (p) => p.cpuAvg,
+        high: (p) => p.cpuMax,
+      },
+      series: [
+        { color: HISTORY_COLORS.cpu, value: (p) => p.cpuAvg, axis: 'left' },
+        {
+          color: HISTORY_COLORS.memory,
+          value: (p) => this.getMemoryPercent(p),
+          axis: 'left',
+        },
+        { color: HISTORY_COLORS.io, value: (p) => p.diskIoMBps, axis: 'right' },
+        {
+          color: HISTORY_COLORS.networkRx,
+          value: (p) => p.networkRxMBps,
+          axis: 'right',
+        },
+        {
+          color: HISTORY_COLORS.networkTx,
+          value: (p) => p.networkTxMBps,
+          axis: 'right',
+        },
+      ],
+      tooltip: (point) => {
+        const memory = this.getMemoryPercent(point)
+        return [
+          new Date(point.time).toLocaleString(),
+          `CPU: ${point.cpuAvg?.toFixed(1) ?? 'n/a'} % (peak ${point.cpuMax?.toFixed(1) ?? 'n/a'} %)`,
+          `Memory: ${memory !== null ? `${memory.toFixed(1)} %` : 'n/a'}`,
+          ...(point.diskIoMBps !== null
+            ? [`Disk I/O: ${point.diskIoMBps.toFixed(2)} MB/s`]
+            : []),
+          ...(point.networkRxMBps !== null && point.networkTxMBps !== null
+            ? [
+                `Network: ${this.formatRate(point.networkRxMBps)} in, ${this.formatRate(point.networkTxMBps)} out`,
+              ]
+            : []),
+          ...point.topProcesses.map(
+            (proc) => `${proc.name}: ${proc.cpuAvg.toFixed(1)} % CPU`,
+          ),
+        ]
+      },
+    })
+  }
+
+  /**
+   * Line chart over time with up to two value axes, used by the history
+   * and the network tab
+   */
+  private renderTimeChart<T extends { time: number }>(
+    svgEl: SVGSVGElement,
+    tooltipEl: HTMLDivElement,
+    options: TimeChartOptions<T>,
+  ) {
+    const rect = svgEl.getBoundingClientRect()
+    const width = Math.max(480, rect.width || 800)
+    const height = Math.max(220, rect.height || 300)
+    const margin = {
+      top: 12,
+      right: 64,
+      bottom: 28,
+      left: options.leftAxisWidth ?? 44,
+    }
+
+    const svg = d3.select(svgEl)
+    svg.selectAll('*').remove()
+    svg.attr('viewBox', `0 0 ${width} ${height}`)
+
+    const { points, from, to, series, band } = options
+    if (!points.length) return
+
+    const maxOf = (axis: 'left' | 'right') =>
+      d3.max(
+        series.filter((s) => s.axis === axis),
+        (s) => d3.max(points, (p) => s.value(p) ?? 0),
+      ) || 0
+
+    const x = d3
+      .scaleTime()
+      .domain([new Date(from), new Date(to)])
+      .range([margin.left, width - margin.right])
+    const y = d3
+      .scaleLinear()
+      .domain([0, options.leftMax ?? Math.max(1, maxOf('left'))])
+      .range([height - margin.bottom, margin.top])
+    if (options.leftMax === null) y.nice()
+    const maxRight = maxOf('right')
+    const yRight = d3
+      .scaleLinear()
+      .domain([0, Math.max(1, maxRight)])
+      .nice()
+      .range([height - margin.bottom, margin.top])
+
+    svg
+      .append('g')
+      .attr('transform', `translate(0,${height - margin.bottom})`)
+      .attr('color', '#94a3b8')
+      .call(d3.axisBottom(x).ticks(6))
+    svg
+      .append('g')
+      .attr('transform', `translate(${margin.left},0)`)
+      .attr('color', '#94a3b8')
+      .call(
+        d3
+          .axisLeft(y)
+          .ticks(5)
+          .tickFormat((v) => options.leftFormat(v as number)),
+      )
+    if (maxRight > 0 && options.rightFormat) {
+      const rightFormat = options.rightFormat
+      svg
+        .append('g')
+        .attr('transform', `translate(${width - margin.right},0)`)
+        .attr('color', '#94a3b8')
+        .call(
+          d3
+            .axisRight(yRight)
+            .ticks(5)
+            .tickFormat((v) => rightFormat(v as number)),
+        )
+    }
+
+    // A null between two points breaks the lines
+    const data: Array<T | null> = []
+    points.forEach((point, i) => {
+      if (i > 0 && point.time - points[i - 1].time > options.gapMs) {
+        data.push(null)
+      }
+      data.push(point)
+    })
+
+    if (band) {
+      const area = d3
+        .area<T | null>()
+        .defined(
+          (p) => p !== null && band.low(p) !== null && band.high(p) !== null,
+        )
+        .x((p) => x(p!.time))
+        .y0((p) => y(band.low(p!)!))
+        .y1((p) => y(band.high(p!)!))
+      svg.append('path').datum(data).attr('d', area).attr('fill', band.color)
+    }
+
+    for (const { color, value, axis } of series) {
+      const scale = axis === 'left' ? y : yRight
+      const line = d3
+        .line<T | null>()
+        .defined((p) => p !== null && value(p) !== null)
+        .x((p) => x(p!.time))
+        .y((p) => scale(value(p!)!))
+      svg
+        .append('path')
+        .datum(data)
+        .attr('d', line)
+        .attr('fill', 'none')
+        .attr('stroke', color)
+        .attr('stroke-width', 1.5)
+    }
+
+    const cursor = svg
+      .append('line')
+      .attr('y1', margin.top)
+      .attr('y2', height - margin.bottom)
+      .attr('stroke', '#cbd5e1')
+      .attr('stroke-opacity', 0)
+
+    const showPoint = (event: MouseEvent) => {
+      const [mouseX] = d3.pointer(event, svgEl)
+      const index = d3
+        .bisector((p: T) => p.time)
+        .center(points, x.invert(mouseX).getTime())
+      const point = points[index]
+      if (!point) return
+
+      cursor
+        .attr('x1', x(point.time))
+        .attr('x2', x(point.time))
+        .attr('stroke-opacity', 0.5)
+
+      tooltipEl.replaceChildren(
+        ...options.tooltip(point).map((text, i) => {
+          const div = document.createElement(i === 0 ? 'strong' : 'div')
+          div.textContent = text
+          return div
+        }),
+      )
+      tooltipEl.classList.add('visible')
+
+      const gap = 12
+      const left = Math.min(
+        event.clientX + gap,
+        window.innerWidth - tooltipEl.offsetWidth - gap,
+      )
+      const top = Math.min(
+        event.clientY + gap,
+        window.innerHeight - tooltipEl.offsetHeight - gap,
+      )
+      tooltipEl.style.left = `${Math.max(gap, left)}px`
+      tooltipEl.style.top = `${Math.max(gap, top)}px`
+    }
+
+    svg
+      .append('rect')
+      .attr('x', margin.left)
+      .attr('y', margin.top)
+      .attr('width', width - margin.left - margin.right)
+      .attr('height', height - margin.top - margin.bottom)
+      .attr('fill', 'transparent')
+      .on('mousemove', showPoint)
+      .on('mouseleave', () => {
+        cursor.attr('stroke-opacity', 0)
+        tooltipEl.classList.remove('visible')
+      })
+  }
+
+  private renderHistory() {
+    const recorder = this.recorder
+    const history = this.history
+    const interval = recorder?.settings.intervalSeconds ?? 60
+    return html`
+      <div class="panel history-toolbar">
+        ${HISTORY_RANGES.map(
+          ({ range, label }) => html`
+            <button
+              class=${this.historyRange === range ? 'active' : ''}
+              @click=${() => this.switchHistoryRange(range)}
+            >
+              ${label}
+            </button>
+          `,
+        )}
+        <span class="history-spacer"></span>
+        <label class="history-interval">
+          Sample every
+          <select
+            ?disabled=${!recorder}
+            @change=${(e: Event) =>
+              this.setRecorderInterval(
+                Number((e.target as HTMLSelectElement).value),
+              )}
+          >
+            ${RECORDER_INTERVALS.map(
+              (seconds) => html`
+                <option value=${seconds} ?selected=${seconds === interval}>
+                  ${this.formatInterval(seconds)}
+                </option>
+              `,
+            )}
+          </select>
+        </label>
+        <button
+          class=${recorder?.running ? 'active' : ''}
+          ?disabled=${!recorder}
+          @click=${() => this.toggleRecorder()}
+        >
+          Recording ${recorder?.running ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      <div class="panel history-chart-wrap">
+        ${this.historyError
+          ? html`<div class="state">${this.historyError}</div>`
+          : !history
+            ? html`<div class="state">
+                ${this.historyLoading ? 'Loading history...' : ''}
+              </div>`
+            : !history.points.length
+              ? html`<div class="state">
+                  ${recorder?.running
+                    ? 'No samples in this time range yet.'
+                    : 'Nothing recorded in this time range. Turn on recording to keep a history of CPU, memory, disk and network usage.'}
+                </div>`
+              : html`
+                  <div class="history-legend">
+                    <span
+                      ><span
+                        class="legend-dot"
+                        style="background:${HISTORY_COLORS.cpu}"
+                      ></span
+                      >CPU</span
+                    >
+                    <span
+                      ><span
+                        class="legend-dot"
+                        style="background:${HISTORY_COLORS.cpuPeak}"
+                      ></span
+                      >CPU peak</span
+                    >
+                    <span
+                      ><span
+                        class="legend-dot"
+                        style="background:${HISTORY_COLORS.memory}"
+                      ></span
+                      >Memory</span
+                    >
+                    ${history.points.some((p) => p.diskIoMBps !== null)
+                      ? html`<span
+                          ><span
+                            class="legend-dot"
+                            style="background:${HISTORY_COLORS.io}"
+                          ></span
+                          >Disk I/O</span
+                        >`
+                      : ''}
+                    ${history.points.some((p) => p.networkRxMBps !== null)
+                      ? html`<span
+                            ><span
+                              class="legend-dot"
+                              style="background:${HISTORY_COLORS.networkRx}"
+                            ></span
+                            >Network in</span
+                          ><span
+                            ><span
+                              class="legend-dot"
+                              style="background:${HISTORY_COLORS.networkTx}"
+                            ></span
+                            >Network out</span
+                          >`
+                      : ''}
+                  </div>
+                  <svg id="history-chart"></svg>
+                  <div id="history-tooltip" class="tooltip"></div>
+                `}
+      </div>
+
+      <div class="panel list">
+        <div class="ports-header">
+          <span class="ports-title">Busiest processes</span>
+          <span class="ports-count">
+            ${history?.samples ?? 0} samples
+            ${recorder?.lastError
+              ? html` · last sample failed: ${recorder.lastError}`
+              : ''}
+          </span>
+        </div>
+        ${(history?.topProcesses ?? []).map(
+          (proc) => html`
+            <div class="history-row">
+              <span class="port-process">${proc.name}</span>
+              <span class="value">${proc.cpuAvg.toFixed(1)} % avg</span>
+              <span class="value-secondary"
+                >peak ${proc.cpuMax.toFixed(1)} %</span
+              >
+              <span class="value-secondary"
+                >${proc.memoryMaxMB.toFixed(0)} MB</span
+              >
+              <span class="value-secondary"
+                >in
+                ${Math.round((proc.samples / (history?.samples || 1)) * 100)} %
+                of samples</span
+              >
+            </div>
+          `,
+        )}
+      </div>
+    `
+  }
+
+  private async loadNetwork() {
+    this.networkLoading = true
+    this.networkError = ''
+    try {
+      const result = await this.runMonitorAction({ action: 'network' })
+      this.network = result.network ?? null
+      this.connections = result.connections ?? []
+      if (this.network) {
+        const now = Date.now()
+        this.networkRates = [
+          ...this.networkRates.filter(
+            (point) => point.time >= now - NETWORK_WINDOW_MS,
+          ),
+          {
+            time: now,
+            rxMBps: this.network.rxMBps,
+            txMBps: this.network.txMBps,
+          },
+        ]
+      }
+    } catch (error: any) {
+      this.networkError = `Error: ${error.message}`
+    } finally {
+      this.networkLoading = false
+    }
+  }
+
+  private formatRate(mbps: number): string {
+    return mbps < 1
+      ? `${(mbps * 1024).toFixed(1)} KB/s`
+      : `${mbps.toFixed(2)} MB/s`
+  }
+
+  private formatTotal(mb: number): string {
+    return mb < 1024 ? `${mb.toFixed(0)} MB` : `${(mb / 1024).toFixed(1)} GB`
+  }
+
+  private renderNetworkChart() {
+    const svgEl = this.shadowRoot?.querySelector(
+      '#network-chart',
+    ) as SVGSVGElement | null
+    const tooltipEl = this.shadowRoot?.querySelector(
+      '#network-tooltip',
+    ) as HTMLDivElement | null
+
+    if (!svgEl || !tooltipEl) return
+
+    const to = Date.now()
+    this.renderTimeChart(svgEl, tooltipEl, {
+      points: this.networkRates,
+      from: to - NETWORK_WINDOW_MS,
+      to,
+      gapMs: NETWORK_GAP_MS,
+      leftMax: null,
+      leftFormat: (v) => `${v} MB/s`,
+      leftAxisWidth: 64,
+      series: [
+        {
+          color: HISTORY_COLORS.networkRx,
+          value: (p) => p.rxMBps,
+          axis: 'left',
+        },
+        {
+          color: HISTORY_COLORS.networkTx,
+          value: (p) => p.txMBps,
+          axis: 'left',
+        },
+      ],
+      tooltip: (point) => [
+        new Date(point.time).toLocaleTimeString(),
+        `Received: ${this.formatRate(point.rxMBps)}`,
+        `Sent: ${this.formatRate(point.txMBps)}`,
+      ],
+    })
+  }
+
+  private getVisibleConnections(): NetworkConnection[] {
+    const filter = this.connectionFilter.trim().toLowerCase()
+    if (!filter) return this.connections
+    return this.connections.filter((c) =>
+      [
+        c.processName,
+        String(c.pid),
+        c.state,
+        `${c.remoteAddress}:${c.remotePort}`,
+        `${c.localAddress}:${c.localPort}`,
+      ].some((value) => value.toLowerCase().includes(filter)),
+    )
+  }
+
+  private renderNetwork() {
+    const network = this.network
+    const connections = this.getVisibleConnections()
+    return html`
+      <div class="panel history-chart-wrap">
+        ${this.networkError
+          ? html`<div class="state">${this.networkError}</div>`
+          : !network
+            ? html`<div class="state">
+                ${this.networkLoading
+                  ? 'Measuring network traffic...'
+                  : 'Network counters are not available on this system.'}
+              </div>`
+            : html`
+                <div class="history-legend">
+                  <span
+                    ><span
+                      class="legend-dot"
+                      style="background:${HISTORY_COLORS.networkRx}"
+                    ></span
+                    >Received ${this.formatRate(network.rxMBps)}</span
+                  >
+                  <span
+                    ><span
+                      class="legend-dot"
+                      style="background:${HISTORY_COLORS.networkTx}"
+                    ></span
+                    >Sent ${this.formatRate(network.txMBps)}</span
+                  >
+                  ${this.networkRates.length < 2
+                    ? html`<span
+                        >Turn on Live to follow the rates, the History tab shows
+                        recorded rates.</span
+                      >`
+                    : ''}
+                </div>
+                <svg id="network-chart"></svg>
+                <div id="network-tooltip" class="tooltip"></div>
+              `}
+      </div>
+
+      <div class="process-layout">
+        <div class="panel ports-list network-interfaces">
+          <div class="ports-header">
+            <span class="ports-title">Interfaces</span>
+          </div>
+          <div class="network-row header">
+            <span>Name</span>
+            <span class="process-number">In</span>
+            <span class="process-number">Out</span>
+            <span class="process-number">Total in / out</span>
+          </div>
+          ${(network?.interfaces ?? []).map(
+            (iface) => html`
+              <div class="network-row ${iface.loopback ? 'loopback' : ''}">
+                <span class="port-process">${iface.name}</span>
+                <span class="process-number"
+                  >${this.formatRate(iface.rxMBps)}</span
+                >
+                <span class="process-number"
+                  >${this.formatRate(iface.txMBps)}</span
+                >
+                <span class="process-number"
+                  >${this.formatTotal(iface.rxTotalMB)} /
+                  ${this.formatTotal(iface.txTotalMB)}</span
+                >
+              </div>
+            `,
+          )}
+        </div>
+
+        <div class="panel ports-list">
+          <div class="ports-header">
+            <span class="ports-title">Connections (TCP)</span>
+            <span class="ports-count"
+              >${connections.length} of ${this.connections.length}</span
+            >
+          </div>
+          <div class="handle-search">
+            <input
+              class="handle-input"
+              type="text"
+              placeholder="Filter by process, PID, address or state..."
+              .value=${this.connectionFilter}
+              @input=${(e: Event) => {
+                this.connectionFilter = (e.target as HTMLInputElement).value
+              }}
+            />
+          </div>
+          <div class="connection-row header">
+            <span>Process</span>
+            <span>Remote address</span>
+            <span class="process-number">Local port</span>
+            <span class="process-number">State</span>
+          </div>
+          ${connections.map(
+            (c) => html`
+              <div class="connection-row">
+                <span class="port-process" title="PID ${c.pid}"
+                  >${c.processName || (c.pid ? `PID ${c.pid}` : '—')}</span
+                >
+                <span class="port-address"
+                  >${c.remoteAddress.includes(':')
+                    ? `[${c.remoteAddress}]`
+                    : c.remoteAddress}:${c.remotePort}</span
+                >
+                <span class="process-number">${c.localPort}</span>
+                <span class="process-number">${c.state}</span>
+              </div>
+            `,
+          )}
+        </div>
+      </div>
+    `
+  }
+
+  private async loadAlerts() {
+    this.alertError = ''
+    try {
+      const result = await this.runMonitorAction({ action: 'alerts' })
+      this.alertLog = result.alerts
+      this.setAlertStatus(result.alertStatus)
+    } catch (error: any) {
+      this.alertError = `Error: ${error.message}`
+    }
+  }
+
+  private setAlertStatus(status: AlertStatus) {
+    this.alertStatus = status
+    // Keep rules that are being edited
+    if (!this.alertRulesChanged) this.alertRules = status.settings.rules
+  }
+
+  private async saveAlertSettings(changes: Record<string, unknown>) {
+    this.alertError = ''
+    try {
+      const result = await this.runMonitorAction({
+        action: 'alert-settings',
+        ...changes,
+      })
+      this.setAlertStatus(result.alertStatus)
+    } catch (error: any) {
+      this.alertError = `Error: ${error.message}`
+    }
+  }
+
+  private async saveAlertRules() {
+    this.alertRulesChanged = false
+    await this.saveAlertSettings({ rules: this.alertRules })
+  }
+
+  private addAlertRule(type: AlertRuleType) {
+    const defaults = ALERT_RULE_TYPES.find((t) => t.type === type)!
+    this.alertRules = [
+      ...this.alertRules,
+      {
+        type,
+        enabled: true,
+        threshold: defaults.threshold,
+        minutes: type === 'process-cpu' ? 5 : 0,
+        target: '',
+      },
+    ]
+    this.alertRulesChanged = true
+  }
+
+  private updateAlertRule(index: number, changes: Partial<AlertRule>) {
+    this.alertRules = this.alertRules.map((rule, i) =>
+      i === index ? { ...rule, ...changes } : rule,
+    )
+    this.alertRulesChanged = true
+  }
+
+  private removeAlertRule(index: number) {
+    this.alertRules = this.alertRules.filter((_, i) => i !== index)
+    this.alertRulesChanged = true
+  }
+
+  private async checkAlertsNow() {
+    this.alertError = ''
+    try {
+      const result = await this.runMonitorAction({ action: 'alert-check' })
+      this.setAlertStatus(result.alertStatus)
+      if (!result.alerts.length) {
+        alert('All rules are fine right now.')
+      }
+      await this.loadAlerts()
+    } catch (error: any) {
+      this.alertError = `Error: ${error.message}`
+    }
+  }
+
+  private async clearAlertLog() {
+    if (!confirm('Clear the alert log?')) return
+    try {
+      await this.runMonitorAction({ action: 'alert-clear-log' })
+      this.alertLog = []
+    } catch (error: any) {
+      this.alertError = `Error: ${error.message}`
+    }
+  }
+
+  private renderAlertRule(rule: AlertRule, index: number) {
+    const info = ALERT_RULE_TYPES.find((t) => t.type === rule.type)!
+    const number = (e: Event) =>
+      Math.max(0, Number((e.target as HTMLInputElement).value) || 0)
+    return html`
+      <div class="alert-rule ${rule.enabled ? '' : 'disabled'}">
+        <input
+          type="checkbox"
+          title="Enabled"
+          .checked=${rule.enabled}
+          @change=${(e: Event) =>
+            this.updateAlertRule(index, {
+              enabled: (e.target as HTMLInputElement).checked,
+            })}
+        />
+        <span class="alert-rule-type">${info.label}</span>
+        ${info.unit
+          ? html`<span class="alert-rule-value">
+              <input
+                class="handle-input"
+                type="number"
+                min="0"
+                .value=${String(rule.threshold)}
+                @change=${(e: Event) =>
+                  this.updateAlertRule(index, { threshold: number(e) })}
+              />
+              ${info.unit}
+            </span>`
+          : html`<span></span>`}
+        ${info.target !== null
+          ? html`<input
+              class="handle-input"
+              type="text"
+              placeholder=${info.target}
+              .value=${rule.target}
+              @change=${(e: Event) =>
+                this.updateAlertRule(index, {
+                  target: (e.target as HTMLInputElement).value.trim(),
+                })}
+            />`
+          : html`<span></span>`}
+        ${info.unit
+          ? html`<span class="alert-rule-value">
+              for
+              <input
+                class="handle-input"
+                type="number"
+                min="0"
+                .value=${String(rule.minutes)}
+                @change=${(e: Event) =>
+                  this.updateAlertRule(index, { minutes: number(e) })}
+              />
+              min
+            </span>`
+          : html`<span></span>`}
+        <button title="Remove rule" @click=${() => this.removeAlertRule(index)}>
+          ✕
+        </button>
+      </div>
+    `
+  }
+
+  private renderAlerts() {
+    const status = this.alertStatus
+    const interval = status?.settings.intervalSeconds ?? 60
+    return html`
+      <div class="panel history-toolbar">
+        ${ALERT_RULE_TYPES.map(
+          ({ type, label }) => html`
+            <button @click=${() => this.addAlertRule(type)}>+ ${label}</button>
+          `,
+        )}
+        <span class="history-spacer"></span>
+        <label class="history-interval">
+          Check every
+          <select
+            ?disabled=${!status}
+            @change=${(e: Event) =>
+              this.saveAlertSettings({
+                intervalSeconds: Number((e.target as HTMLSelectElement).value),
+              })}
+          >
+            ${ALERT_INTERVALS.map(
+              (seconds) => html`
+                <option value=${seconds} ?selected=${seconds === interval}>
+                  ${this.formatInterval(seconds)}
+                </option>
+              `,
+            )}
+          </select>
+        </label>
+        <button
+          class=${status?.running ? 'active' : ''}
+          ?disabled=${!status}
+          @click=${() =>
+            this.saveAlertSettings({ enabled: !status?.settings.enabled })}
+        >
+          Alerts ${status?.running ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      <div class="panel ports-list alert-rules">
+        <div class="ports-header">
+          <span class="ports-title">Rules</span>
+          <span class="ports-count">
+            ${status?.lastCheck
+              ? `Last check ${new Date(status.lastCheck).toLocaleTimeString()}`
+              : 'Not checked yet'}
+            ${status?.lastError ? html` · failed: ${status.lastError}` : ''}
+          </span>
+        </div>
+        ${this.alertError
+          ? html`<div class="state">${this.alertError}</div>`
+          : ''}
+        ${this.alertRules.length
+          ? this.alertRules.map((rule, i) => this.renderAlertRule(rule, i))
+          : html`<div class="state">
+              No rules yet. Add one above, then turn on alerts to get a desktop
+              notification when it applies.
+            </div>`}
+        <div class="alert-rule-actions">
+          <button
+            class=${this.alertRulesChanged ? 'active' : ''}
+            ?disabled=${!this.alertRulesChanged}
+            @click=${() => this.saveAlertRules()}
+          >
+            Save rules
+          </button>
+          <button
+            ?disabled=${this.alertRulesChanged || !this.alertRules.length}
+            @click=${() => this.checkAlertsNow()}
+          >
+            Check now
+          </button>
+        </div>
+      </div>
+
+      <div class="panel ports-list">
+        <div class="ports-header">
+          <span class="ports-title">Alert log</span>
+          <span class="ports-count">
+            ${this.alertLog.length} alerts
+            ${this.alertLog.length
+              ? html`<button @click=${() => this.clearAlertLog()}>
+                  Clear
+                </button>`
+              : ''}
+          </span>
+        </div>
+        ${this.alertLog.map(
+          (entry) => html`
+            <div class="history-row alert-entry">
+              <span class="value-secondary"
+                >${new Date(entry.time).toLocaleString()}</span
+              >
+              <span class="port-process">${entry.title}</span>
+              <span>${entry.message}</span>
+            </div>
+          `,
+        )}
+      </div>
+    `
+  }
+
+  private async loadProcessTree() {
+    this.processLoading = true
+    this.processError = ''
+    try {
+      const result = await this.runMonitorAction({ action: 'process-tree' })
+      this.processTree = result.processes || []
+      if (
+        this.selectedPid !== null &&
+        !this.processTree.some((p) => p.pid === this.selectedPid)
+      ) {
+        this.selectedPid = null
+        this.processDetails = null
+      }
+    } catch (error: any) {
+      this.processError = `Error: ${error.message}`
+    } finally {
+      this.processLoading = false
+    }
+  }
+
+  private async selectProcess(pid: number) {
+    this.selectedPid = pid
+    this.detailsLoading = true
+    try {
+      const result = await this.runMonitorAction({
+        action: 'process-details',
+        pid,
+      })
+      if (this.selectedPid === pid) this.processDetails = result.processDetails
+    } catch (error: any) {
+      if (this.selectedPid === pid) {
+        this.processDetails = null
+        this.processError = `Error: ${error.message}`
+      }
+    } finally {
+      this.detailsLoading = false
+    }
+  }
+
+  private toggleCollapsed(pid: number, event: Event) {
+    event.stopPropagation()
+    const collapsed = new Set(this.collapsedPids)
+    if (collapsed.has(pid)) collapsed.delete(pid)
+    else collapsed.add(pid)
+    this.collapsedPids = collapsed
+  }
+
+  /**
+   * Rows of the tree without the children of collapsed processes, or the
+   * matching processes without hierarchy while filtering
+   */
+  private getVisibleProcesses(): ProcessTreeEntry[] {
+    const filter = this.processFilter.trim().toLowerCase()
+    if (filter) {
+      return this.processTree
+        .filter(
+          (p) =>
+            p.command.toLowerCase().includes(filter) ||
+            p.name.toLowerCase().includes(filter) ||
+            String(p.pid) === filter ||
+            (p.user ?? '').toLowerCase() === filter,
+        )
+        .map((p) => ({ ...p, depth: 0 }))
+    }
+
+    const visible: ProcessTreeEntry[] = []
+    let hiddenBelow: number | null = null
+    for (const entry of this.processTree) {
+      if (hiddenBelow !== null && entry.depth > hiddenBelow) continue
+      hiddenBelow = this.collapsedPids.has(entry.pid) ? entry.depth : null
+      visible.push(entry)
+    }
+    return visible
+  }
+
+  private async sendSignal(signal: ProcessSignal) {
+    const details = this.processDetails
+    if (!details) return
+    const { pid, name } = details.process
+    const includeChildren = this.signalTree && details.children > 0
+    const target = includeChildren
+      ? `"${name}" (PID ${pid}) and its ${details.children} child processes`
+      : `"${name}" (PID ${pid})`
+    if (
+      (signal === 'SIGTERM' || signal === 'SIGKILL') &&
+      !confirm(`Send ${signal} to ${target}?`)
+    ) {
+      return
+    }
+
+    try {
+      const result = await this.runMonitorAction({
+        action: 'signal-process',
+        pid,
+        signal,
+        tree: includeChildren,
+      })
+      if (result.signalErrors?.length) {
+        alert(
+          result.signalErrors
+            .map(
+              (e: { pid: number; error: string }) => `PID ${e.pid}: ${e.error}`,
+            )
+            .join('\n'),
+        )
+      }
+    } catch (error: any) {
+      alert(error.message)
+    }
+    await this.loadProcessTree()
+    if (this.selectedPid === pid) await this.selectProcess(pid)
+  }
+
+  private showFileHandles(filePath: string) {
+    this.fileHandlePath = filePath
+    this.switchMetric('handles')
+    this.searchFileHandles()
+  }
+
+  private formatStartTime(startTime: string | null): string {
+    return startTime ? new Date(startTime).toLocaleString() : 'n/a'
+  }
+
+  private renderProcessDetails() {
+    const details = this.processDetails
+    if (!details) {
+      return html`<div class="state">
+        ${this.detailsLoading
+          ? 'Loading process details...'
+          : 'Select a process to see its details.'}
+      </div>`
+    }
+    const proc = details.process
+    const notReadable = html`<span class="detail-label">not readable</span>`
+    return html`
+      <div class="ports-header">
+        <span class="ports-title">${proc.name} (PID ${proc.pid})</span>
+      </div>
+      <div class="signal-bar">
+        ${PROCESS_SIGNALS.map(
+          ({ signal, label }) => html`
+            <button
+              class=${signal === 'SIGKILL' ? 'kill-btn' : 'copy-btn'}
+              title=${signal}
+              @click=${() => this.sendSignal(signal)}
+            >
+              ${label}
+            </button>
+          `,
+        )}
+        ${details.children > 0
+          ? html`<label>
+              <input
+                type="checkbox"
+                .checked=${this.signalTree}
+                @change=${(e: Event) =>
+                  (this.signalTree = (e.target as HTMLInputElement).checked)}
+              />
+              with ${details.children} child processes
+            </label>`
+          : ''}
+      </div>
+      <div class="detail-grid">
+        <span class="detail-label">Parents</span>
+        <span class="detail-value">
+          ${details.parents.length
+            ? details.parents
+                .slice()
+                .reverse()
+                .map(
+                  (parent, i) =>
+                    html`${i > 0 ? ' › ' : ''}<span
+                        class="detail-link"
+                        @click=${() => this.selectProcess(parent.pid)}
+                        >${parent.name} (${parent.pid})</span
+                      >`,
+                )
+            : '-'}
+        </span>
+        <span class="detail-label">User</span>
+        <span class="detail-value">${proc.user ?? 'n/a'}</span>
+        <span class="detail-label">Started</span>
+        <span class="detail-value"
+          >${this.formatStartTime(proc.startTime)}</span
+        >
+        <span class="detail-label">Threads</span>
+        <span class="detail-value">${proc.threads ?? 'n/a'}</span>
+        <span class="detail-label">CPU / Memory</span>
+        <span class="detail-value"
+          >${proc.cpu.toFixed(1)} % / ${proc.memoryMB.toFixed(1)} MB</span
+        >
+        <span class="detail-label">Command</span>
+        <span class="detail-value">${proc.command}</span>
+        <span class="detail-label">Working dir</span>
+        <span class="detail-value">${details.cwd ?? notReadable}</span>
+        <span class="detail-label">Ports</span>
+        <span class="detail-value">
+          ${details.ports.length
+            ? details.ports
+                .map((p) => `${p.protocol} ${p.localAddress}:${p.localPort}`)
+                .join(', ')
+            : '-'}
+        </span>
+      </div>
+      <div>
+        <div class="detail-label">
+          Open files${details.openFiles ? ` (${details.openFiles.length})` : ''}
+        </div>
+        <div class="detail-list">
+          ${details.openFiles === null
+            ? notReadable
+            : details.openFiles.map(
+                (file) =>
+                  html`<div
+                    class="detail-link"
+                    title="Find all processes using this file"
+                    @click=${() => this.showFileHandles(file)}
+                  >
+                    ${file}
+                  </div>`,
+              )}
+        </div>
+      </div>
+      <details>
+        <summary class="detail-label">
+          Environment${details.environment
+            ? ` (${Object.keys(details.environment).length})`
+            : ''}
+        </summary>
+        <div class="detail-list">
+          ${details.environment === null
+            ? notReadable
+            : Object.entries(details.environment)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([key, value]) => html`<div>${key}=${value}</div>`)}
+        </div>
+      </details>
+    `
+  }
+
+  private renderProcesses() {
+    const visible = this.getVisibleProcesses()
+    return html`
+      <div class="process-layout">
+        <div class="panel ports-list">
+          <div class="handle-search">
+            <input
+              class="handle-input"
+              type="text"
+              placeholder="Filter by name, command, PID or user..."
+              .value=${this.processFilter}
+              @input=${(e: Event) => {
+                this.processFilter = (e.target as HTMLInputElement).value
+              }}
+            />
+          </div>
+          ${this.processError
+            ? html`<div class="state">${this.processError}</div>`
+            : ''}
+          ${this.processLoading && !this.processTree.length
+            ? html`<div class="state">Loading processes...</div>`
+            : html`
+                <div class="process-row header">
+                  <span>Process</span>
+                  <span class="process-number">PID</span>
+                  <span class="process-number">User</span>
+                  <span class="process-number">CPU</span>
+                  <span class="process-number">Memory</span>
+                  <span class="process-number">Thr.</span>
+                </div>
+                ${visible.map(
+                  (p) => html`
+                    <div
+                      class="process-row ${p.pid === this.selectedPid
+                        ? 'selected'
+                        : ''}"
+                      title=${p.command}
+                      @click=${() => this.selectProcess(p.pid)}
+                    >
+                      <span
+                        class="process-name"
+                        style="padding-left:${p.depth * 0.9}em"
+                      >
+                        <span
+                          class="tree-toggle"
+                          @click=${(e: Event) =>
+                            p.childCount && this.toggleCollapsed(p.pid, e)}
+                          >${p.childCount && !this.processFilter.trim()
+                            ? this.collapsedPids.has(p.pid)
+                              ? '▸'
+                              : '▾'
+                            : ''}</span
+                        >${p.name}
+                      </span>
+                      <span class="process-number">${p.pid}</span>
+                      <span class="process-number">${p.user ?? ''}</span>
+                      <span class="process-number">${p.cpu.toFixed(1)} %</span>
+                      <span class="process-number"
+                        >${p.memoryMB.toFixed(0)} MB</span
+                      >
+                      <span class="process-number">${p.threads ?? ''}</span>
+                    </div>
+                  `,
+                )}
+              `}
+        </div>
+        <div class="panel process-details">${this.renderProcessDetails()}</div>
+      </div>
+    `
+  }
+
+  private switchMetric(metric: Metric) {
+    if (this.metric === metric) return
+    this.metric = metric
+    if (metric === 'ports') {
+      this.loadOpenPorts()
+    } else if (metric === 'history') {
+      this.loadHistory()
+    } else if (metric === 'processes') {
+      this.loadProcessTree()
+    } else if (metric === 'network') {
+      this.loadNetwork()
+    } else if (metric === 'alerts') {
+      this.loadAlerts()
+    } else if (metric === 'handles') {
+      // Don't auto-search — wait for user input
+    } else {
+      this.refreshData()
+    }
+  }
+
+  render() {
+    return html`
+      <div class="container">
+        <div class="panel header">
+          <div class="title">📊 System Monitor</div>
+          <div class="controls">
+            <button
+              class=${this.metric === 'cpu' ? 'active' : ''}
+              @click=${() => this.switchMetric('cpu')}
+            >
+              CPU
+            </button>
             <button
               class=${this.metric === 'memory' ? 'active' : ''}
               @click=${() => this.switchMetric('memory')}
@@ -971,6 +2740,30 @@ export class SystemMonitor extends LitElement {
             >
               Handles
             </button>
+            <button
+              class=${this.metric === 'history' ? 'active' : ''}
+              @click=${() => this.switchMetric('history')}
+            >
+              History
+            </button>
+            <button
+              class=${this.metric === 'processes' ? 'active' : ''}
+              @click=${() => this.switchMetric('processes')}
+            >
+              Processes
+            </button>
+            <button
+              class=${this.metric === 'network' ? 'active' : ''}
+              @click=${() => this.switchMetric('network')}
+            >
+              Network
+            </button>
+            <button
+              class=${this.metric === 'alerts' ? 'active' : ''}
+              @click=${() => this.switchMetric('alerts')}
+            >
+              Alerts
+            </button>
             <button
               class=${this.liveMode ? 'active' : ''}
               @click=${() => this.toggleLiveMode()}
@@ -981,6 +2774,14 @@ export class SystemMonitor extends LitElement {
               @click=${() => {
                 if (this.metric === 'ports') {
                   this.loadOpenPorts()
+                } else if (this.metric === 'history') {
+                  this.loadHistory()
+                } else if (this.metric === 'processes') {
+                  this.loadProcessTree()
+                } else if (this.metric === 'network') {
+                  this.loadNetwork()
+                } else if (this.metric === 'alerts') {
+                  this.loadAlerts()
                 } else if (this.metric === 'handles') {
                   this.searchFileHandles()
                 } else {
@@ -994,257 +2795,316 @@ export class SystemMonitor extends LitElement {
         </div>
 
         <div class="content">
-          ${this.metric === 'ports'
-            ? html`
-                <div class="panel ports-list">
-                  <div class="ports-header">
-                    <span class="ports-title">Open Ports (TCP Listening)</span>
-                    <span class="ports-count"
-                      >${this.openPorts.length} listening</span
-                    >
-                  </div>
-                  ${this.openPorts.length > 0
-                    ? this.openPorts.map(
-                        (port) => html`
-                          <div class="port-row">
-                            <span class="port-number">${port.localPort}</span>
-                            <span class="port-address"
-                              >${port.localAddress}</span
+          ${this.metric === 'alerts'
+            ? this.renderAlerts()
+            : this.metric === 'network'
+              ? this.renderNetwork()
+              : this.metric === 'processes'
+                ? this.renderProcesses()
+                : this.metric === 'history'
+                  ? this.renderHistory()
+                  : this.metric === 'ports'
+                    ? html`
+                        <div class="panel ports-list">
+                          <div class="ports-header">
+                            <span class="ports-title"
+                              >Open Ports (TCP Listening)</span
                             >
-                            <span class="port-pid">PID ${port.pid}</span>
-                            <span class="port-process"
-                              >${port.processName}</span
+                            <span class="ports-count"
+                              >${this.openPorts.length} listening</span
                             >
                           </div>
-                        `,
-                      )
-                    : html`<div class="state">No open ports found</div>`}
-                </div>
-              `
-            : this.metric === 'handles'
-              ? html`
-                  <div class="panel ports-list">
-                    <div class="ports-header">
-                      <span class="ports-title">🔍 File Handle Search</span>
-                    </div>
-                    <div class="handle-search">
-                      <input
-                        class="handle-input"
-                        type="text"
-                        placeholder="Enter file path to find locking processes..."
-                        .value=${this.fileHandlePath}
-                        @input=${(e: Event) => {
-                          this.fileHandlePath = (
-                            e.target as HTMLInputElement
-                          ).value
-                        }}
-                        @keydown=${(e: KeyboardEvent) => {
-                          if (e.key === 'Enter') this.searchFileHandles()
-                        }}
-                      />
-                      <button
-                        @click=${() => this.searchFileHandles()}
-                        ?disabled=${this.fileHandleLoading}
-                      >
-                        ${this.fileHandleLoading ? 'Searching...' : 'Search'}
-                      </button>
-                    </div>
-                    ${this.fileHandleError
-                      ? html`<div class="state">${this.fileHandleError}</div>`
-                      : ''}
-                    ${this.fileHandleResults.length > 0
-                      ? this.fileHandleResults.map(
-                          (entry) => html`
-                            <div class="port-row">
-                              <span class="port-number">PID ${entry.pid}</span>
-                              <span class="port-address" title=${entry.command}
-                                >${entry.command}</span
+                          ${this.openPorts.length > 0
+                            ? this.openPorts.map(
+                                (port) => html`
+                                  <div class="port-row">
+                                    <span class="port-number"
+                                      >${port.localPort}</span
+                                    >
+                                    <span class="port-address"
+                                      >${port.localAddress}</span
+                                    >
+                                    <span class="port-pid"
+                                      >PID ${port.pid}</span
+                                    >
+                                    <span class="port-process"
+                                      >${port.processName}</span
+                                    >
+                                  </div>
+                                `,
+                              )
+                            : html`<div class="state">
+                                No open ports found
+                              </div>`}
+                        </div>
+                      `
+                    : this.metric === 'handles'
+                      ? html`
+                          <div class="panel ports-list">
+                            <div class="ports-header">
+                              <span class="ports-title"
+                                >🔍 File Handle Search</span
                               >
-                              <span class="port-process">${entry.name}</span>
+                            </div>
+                            <div class="handle-search">
+                              <input
+                                class="handle-input"
+                                type="text"
+                                placeholder="Enter file path to find locking processes..."
+                                .value=${this.fileHandlePath}
+                                @input=${(e: Event) => {
+                                  this.fileHandlePath = (
+                                    e.target as HTMLInputElement
+                                  ).value
+                                }}
+                                @keydown=${(e: KeyboardEvent) => {
+                                  if (e.key === 'Enter')
+                                    this.searchFileHandles()
+                                }}
+                              />
                               <button
-                                class="kill-btn"
-                                @click=${(e: Event) =>
-                                  this.killHandleProcess(entry, e)}
+                                @click=${() => this.searchFileHandles()}
+                                ?disabled=${this.fileHandleLoading}
                               >
-                                Kill
+                                ${this.fileHandleLoading
+                                  ? 'Searching...'
+                                  : 'Search'}
                               </button>
                             </div>
-                          `,
-                        )
-                      : !this.fileHandleLoading && !this.fileHandleError
-                        ? html`<div class="state">
-                            Enter a file path and click Search to find which
-                            processes have a handle on it.
-                          </div>`
-                        : ''}
-                  </div>
-                `
-              : html`
-                  <div class="chart-row">
-                    <div class="panel chart-wrap">
-                      ${this.loading && !this.entries.length
-                        ? html`<div class="state">
-                            <div>
-                              ${this.loadingFeedback ||
-                              'Loading system data...'}
-                            </div>
-                            <div
-                              style="font-size:0.92em;color:#60a5fa;margin-top:0.5em"
-                            >
-                              ${this.loadingCommand
-                                ? html`<div>
-                                    Command:
-                                    <span style="font-family:monospace"
-                                      >${this.loadingCommand}</span
+                            ${this.fileHandleError
+                              ? html`<div class="state">
+                                  ${this.fileHandleError}
+                                </div>`
+                              : ''}
+                            ${this.fileHandleResults.length > 0
+                              ? this.fileHandleResults.map(
+                                  (entry) => html`
+                                    <div class="port-row">
+                                      <span class="port-number"
+                                        >PID ${entry.pid}</span
+                                      >
+                                      <span
+                                        class="port-address"
+                                        title=${entry.command}
+                                        >${entry.command}</span
+                                      >
+                                      <span class="port-process"
+                                        >${entry.name}</span
+                                      >
+                                      <button
+                                        class="kill-btn"
+                                        @click=${(e: Event) =>
+                                          this.killHandleProcess(entry, e)}
+                                      >
+                                        Kill
+                                      </button>
+                                    </div>
+                                  `,
+                                )
+                              : !this.fileHandleLoading && !this.fileHandleError
+                                ? html`<div class="state">
+                                    Enter a file path and click Search to find
+                                    which processes have a handle on it.
+                                  </div>`
+                                : ''}
+                          </div>
+                        `
+                      : html`
+                          <div class="chart-row">
+                            <div class="panel chart-wrap">
+                              ${this.loading && !this.entries.length
+                                ? html`<div class="state">
+                                    <div>
+                                      ${this.loadingFeedback ||
+                                      'Loading system data...'}
+                                    </div>
+                                    <div
+                                      style="font-size:0.92em;color:#60a5fa;margin-top:0.5em"
                                     >
+                                      ${this.loadingCommand
+                                        ? html`<div>
+                                            Command:
+                                            <span style="font-family:monospace"
+                                              >${this.loadingCommand}</span
+                                            >
+                                          </div>`
+                                        : ''}
+                                      ${this.loadingCommandFull
+                                        ? html`<div
+                                            style="margin-top:0.2em;font-size:0.88em;color:#38bdf8"
+                                          >
+                                            Backend-Command:<br /><span
+                                              style="font-family:monospace;word-break:break-all"
+                                              >${this.loadingCommandFull}</span
+                                            >
+                                          </div>`
+                                        : ''}
+                                      ${this.loadingWait
+                                        ? html`<div style="margin-top:0.2em">
+                                            Status: ${this.loadingWait}
+                                          </div>`
+                                        : ''}
+                                    </div>
+                                  </div>`
+                                : this.error
+                                  ? html`<div class="state">${this.error}</div>`
+                                  : html`
+                                      <svg id="resource-pie"></svg>
+                                      <div
+                                        id="pie-tooltip"
+                                        class="tooltip"
+                                      ></div>
+                                    `}
+                            </div>
+                            <div class="summary-bar">
+                              ${this.updatedAt
+                                ? html`<div class="summary-item">
+                                    <div class="summary-label">Updated</div>
+                                    <div class="summary-value">
+                                      ${new Date(
+                                        this.updatedAt,
+                                      ).toLocaleTimeString()}
+                                    </div>
+                                  </div>`
+                                : ''}
+                              ${typeof this.resources?.cpuFreePercent ===
+                              'number'
+                                ? html`<div class="summary-item">
+                                    <div class="summary-label">CPU free</div>
+                                    <div class="summary-value">
+                                      ${this.resources.cpuFreePercent.toFixed(
+                                        1,
+                                      )}
+                                      %
+                                    </div>
                                   </div>`
                                 : ''}
-                              ${this.loadingCommandFull
+                              ${this.resources?.memoryUsedMB != null
+                                ? html`<div class="summary-item">
+                                    <div class="summary-label">Memory used</div>
+                                    <div class="summary-value">
+                                      ${(
+                                        (this.resources.memoryUsedMB ?? 0) /
+                                        1024
+                                      ).toFixed(1)}
+                                      GB
+                                      ${this.resources.memoryTotalMB != null
+                                        ? html` /
+                                          ${(
+                                            this.resources.memoryTotalMB / 1024
+                                          ).toFixed(1)}
+                                          GB`
+                                        : ''}
+                                    </div>
+                                  </div>`
+                                : this.resources?.memoryFreeMB != null
+                                  ? html`<div class="summary-item">
+                                      <div class="summary-label">
+                                        Memory free
+                                      </div>
+                                      <div class="summary-value">
+                                        ${this.formatFreeMemory()}
+                                      </div>
+                                    </div>`
+                                  : ''}
+                              ${typeof this.resources?.diskFreeGB === 'number'
                                 ? html`<div
-                                    style="margin-top:0.2em;font-size:0.88em;color:#38bdf8"
+                                    class="summary-item"
+                                    title=${(this.resources.diskDrives || [])
+                                      .map(
+                                        (d) =>
+                                          `${d.drive} ${d.freeGB.toFixed(1)} / ${d.totalGB.toFixed(1)} GB`,
+                                      )
+                                      .join('\n')}
                                   >
-                                    Backend-Command:<br /><span
-                                      style="font-family:monospace;word-break:break-all"
-                                      >${this.loadingCommandFull}</span
-                                    >
+                                    <div class="summary-label">Disk free</div>
+                                    <div class="summary-value">
+                                      ${this.resources.diskFreeGB.toFixed(1)} GB
+                                    </div>
                                   </div>`
                                 : ''}
-                              ${this.loadingWait
-                                ? html`<div style="margin-top:0.2em">
-                                    Status: ${this.loadingWait}
+                              ${typeof this.diskIoMBps === 'number'
+                                ? html`<div class="summary-item">
+                                    <div class="summary-label">Disk I/O</div>
+                                    <div class="summary-value">
+                                      ${this.diskIoMBps.toFixed(2)} MB/s
+                                    </div>
                                   </div>`
                                 : ''}
                             </div>
-                          </div>`
-                        : this.error
-                          ? html`<div class="state">${this.error}</div>`
-                          : html`
-                              <svg id="resource-pie"></svg>
-                              <div id="pie-tooltip" class="tooltip"></div>
-                            `}
-                    </div>
-                    <div class="summary-bar">
-                      ${this.updatedAt
-                        ? html`<div class="summary-item">
-                            <div class="summary-label">Updated</div>
-                            <div class="summary-value">
-                              ${new Date(this.updatedAt).toLocaleTimeString()}
-                            </div>
-                          </div>`
-                        : ''}
-                      ${typeof this.resources?.cpuFreePercent === 'number'
-                        ? html`<div class="summary-item">
-                            <div class="summary-label">CPU free</div>
-                            <div class="summary-value">
-                              ${this.resources.cpuFreePercent.toFixed(1)} %
-                            </div>
-                          </div>`
-                        : ''}
-                      ${this.resources?.memoryUsedMB != null
-                        ? html`<div class="summary-item">
-                            <div class="summary-label">Memory used</div>
-                            <div class="summary-value">
-                              ${(
-                                (this.resources.memoryUsedMB ?? 0) / 1024
-                              ).toFixed(1)}
-                              GB
-                              ${this.resources.memoryTotalMB != null
-                                ? html` /
-                                  ${(
-                                    this.resources.memoryTotalMB / 1024
-                                  ).toFixed(1)}
-                                  GB`
-                                : ''}
-                            </div>
-                          </div>`
-                        : this.resources?.memoryFreeMB != null
-                          ? html`<div class="summary-item">
-                              <div class="summary-label">Memory free</div>
-                              <div class="summary-value">
-                                ${this.formatFreeMemory()}
-                              </div>
-                            </div>`
-                          : ''}
-                      ${typeof this.resources?.diskFreeGB === 'number'
-                        ? html`<div
-                            class="summary-item"
-                            title=${(this.resources.diskDrives || [])
-                              .map(
-                                (d) =>
-                                  `${d.drive} ${d.freeGB.toFixed(1)} / ${d.totalGB.toFixed(1)} GB`,
-                              )
-                              .join('\n')}
-                          >
-                            <div class="summary-label">Disk free</div>
-                            <div class="summary-value">
-                              ${this.resources.diskFreeGB.toFixed(1)} GB
-                            </div>
-                          </div>`
-                        : ''}
-                      ${typeof this.diskIoMBps === 'number'
-                        ? html`<div class="summary-item">
-                            <div class="summary-label">Disk I/O</div>
-                            <div class="summary-value">
-                              ${this.diskIoMBps.toFixed(2)} MB/s
-                            </div>
-                          </div>`
-                        : ''}
-                    </div>
-                  </div>
-
-                  <div class="panel list">
-                    ${this.entries.map(
-                      (entry) => html`
-                        <div class="row">
-                          <div class="name" title=${this.getCommandText(entry)}>
-                            ${(() => {
-                              const fullPath = this.getDisplayProcessName(
-                                this.getCommandText(entry),
-                              )
-                              const sepIdx = Math.max(
-                                fullPath.lastIndexOf('/'),
-                                fullPath.lastIndexOf('\\'),
-                              )
-                              if (sepIdx > 0) {
-                                const dir = fullPath.substring(0, sepIdx + 1)
-                                const file = fullPath.substring(sepIdx + 1)
-                                return html`<span class="path-dir">${dir}</span
-                                  ><span class="path-file">${file}</span>`
-                              }
-                              return html`<span class="path-file"
-                                >${fullPath}</span
-                              >`
-                            })()}
                           </div>
-                          <div class="value">
-                            ${this.formatValue(entry)}
-                            ${this.metric === 'cpu' && entry.memoryMB != null
-                              ? html`<span class="value-secondary"
-                                  >${(entry.memoryMB || 0).toFixed(0)} MB</span
-                                >`
-                              : this.metric === 'memory' && entry.cpu != null
-                                ? html`<span class="value-secondary"
-                                    >${(entry.cpu || 0).toFixed(1)} %</span
-                                  >`
-                                : ''}
+
+                          <div class="panel list">
+                            ${this.entries.map(
+                              (entry) => html`
+                                <div class="row">
+                                  <div
+                                    class="name"
+                                    title=${this.getCommandText(entry)}
+                                  >
+                                    ${(() => {
+                                      const fullPath =
+                                        this.getDisplayProcessName(
+                                          this.getCommandText(entry),
+                                        )
+                                      const sepIdx = Math.max(
+                                        fullPath.lastIndexOf('/'),
+                                        fullPath.lastIndexOf('\\'),
+                                      )
+                                      if (sepIdx > 0) {
+                                        const dir = fullPath.substring(
+                                          0,
+                                          sepIdx + 1,
+                                        )
+                                        const file = fullPath.substring(
+                                          sepIdx + 1,
+                                        )
+                                        return html`<span class="path-dir"
+                                            >${dir}</span
+                                          ><span class="path-file"
+                                            >${file}</span
+                                          >`
+                                      }
+                                      return html`<span class="path-file"
+                                        >${fullPath}</span
+                                      >`
+                                    })()}
+                                  </div>
+                                  <div class="value">
+                                    ${this.formatValue(entry)}
+                                    ${this.metric === 'cpu' &&
+                                    entry.memoryMB != null
+                                      ? html`<span class="value-secondary"
+                                          >${(entry.memoryMB || 0).toFixed(0)}
+                                          MB</span
+                                        >`
+                                      : this.metric === 'memory' &&
+                                          entry.cpu != null
+                                        ? html`<span class="value-secondary"
+                                            >${(entry.cpu || 0).toFixed(1)}
+                                            %</span
+                                          >`
+                                        : ''}
+                                  </div>
+                                  <button
+                                    class="copy-btn"
+                                    @click=${(e: Event) =>
+                                      this.copyCommand(entry, e)}
+                                  >
+                                    Copy
+                                  </button>
+                                  <button
+                                    class="kill-btn"
+                                    @click=${(e: Event) =>
+                                      this.killProcess(entry, e)}
+                                  >
+                                    Kill
+                                  </button>
+                                </div>
+                              `,
+                            )}
                           </div>
-                          <button
-                            class="copy-btn"
-                            @click=${(e: Event) => this.copyCommand(entry, e)}
-                          >
-                            Copy
-                          </button>
-                          <button
-                            class="kill-btn"
-                            @click=${(e: Event) => this.killProcess(entry, e)}
-                          >
-                            Kill
-                          </button>
-                        </div>
-                      `,
-                    )}
-                  </div>
-                `}
+                        `}
         </div>
       </div>
     `
@@ -62,9 +62,56 @@ export interface RenameDialog {
   newName: string
 }
 
+export type ArchiveFormat = 'zip' | 'tar.gz' | 'tar.xz'
+
+export interface ArchiveOptions {
+  format: ArchiveFormat
+  compressionLevel: number // 0 (store) - 9 (smallest)
+  password: string // zip only, empty = no encryption
+  volumeSizeMb: number // 0 = single file
+}
+
 export interface ZipDialog {
   files: string[]
   zipFileName: string
+  options: ArchiveOptions
+}
+
+export interface SearchMatch {
+  line: number
+  column: number
+  length: number
+  context: string // The line, shortened around the match
+  contextOffset: number // Position of the match in context
+}
+
+export interface SearchResult {
+  path: string
+  name: string
+  isDirectory: boolean
+  size?: number
+  modified?: string
+  matchLine?: number
+  matchContext?: string
+  matches?: SearchMatch[]
+}
+
+export interface SearchFilters {
+  regex?: boolean
+  fileType?: 'all' | 'files' | 'directories'
+  minSize?: number // bytes
+  maxSize?: number
+  modifiedAfter?: string
+  modifiedBefore?: string
+  exclude?: string // comma separated globs
+  useIndex?: boolean
+  rebuildIndex?: boolean
+}
+
+export interface SearchIndexInfo {
+  root: string
+  createdAt: string
+  entries: number
 }
 
 export interface CompareDialogState {
@@ -20,6 +20,15 @@ export class DeleteDialog extends LitElement {
       cursor: pointer;
       font-weight: bold;
     }
+    .btn-queue {
+      background: #334155;
+      color: #fff;
+      padding: 0.75rem 1.5rem;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-weight: bold;
+    }
     .btn-cancel {
       background: #475569;
       color: #fff;
@@ -39,6 +48,9 @@ export class DeleteDialog extends LitElement {
   private execute() {
     this.dispatchEvent(new CustomEvent('execute'))
   }
+  private enqueue() {
+    this.dispatchEvent(new CustomEvent('enqueue'))
+  }
 
   render() {
     if (this.files.length === 0) return ''
@@ -62,6 +74,13 @@ export class DeleteDialog extends LitElement {
         </div>
         <div slot="footer" class="dialog-buttons">
           <button class="btn-cancel" @click=${this.close}>cancel (ESC)</button>
+          <button
+            class="btn-queue"
+            title="run in the background queue"
+            @click=${this.enqueue}
+          >
+            queue
+          </button>
           <button class="btn-confirm" @click=${this.execute}>
             confirm (ENTER)
           </button>
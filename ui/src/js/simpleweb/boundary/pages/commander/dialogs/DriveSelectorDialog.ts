@@ -229,6 +229,8 @@ export class DriveSelectorDialog extends LitElement {
       const item = items[this.focusedIndex]
       if (item.type === 'ftp') {
         this.dispatchEvent(new CustomEvent('open-ftp'))
+      } else if (item.type === 'sftp') {
+        this.dispatchEvent(new CustomEvent('open-sftp'))
       } else if (item.type === 'add-network') {
         this.openNetworkDialog()
       } else {
@@ -272,11 +274,23 @@ export class DriveSelectorDialog extends LitElement {
    */
   private getAllSelectableItems(): {
     path: string
-    type: 'favorite' | 'drive' | 'ftp' | 'network-share' | 'add-network'
+    type:
+      | 'favorite'
+      | 'drive'
+      | 'ftp'
+      | 'sftp'
+      | 'network-share'
+      | 'add-network'
   }[] {
     const items: {
       path: string
-      type: 'favorite' | 'drive' | 'ftp' | 'network-share' | 'add-network'
+      type:
+        | 'favorite'
+        | 'drive'
+        | 'ftp'
+        | 'sftp'
+        | 'network-share'
+        | 'add-network'
     }[] = []
 
     // Favorites
@@ -292,6 +306,9 @@ export class DriveSelectorDialog extends LitElement {
     // FTP connect button
     items.push({ path: '', type: 'ftp' })
 
+    // SFTP connect button
+    items.push({ path: '', type: 'sftp' })
+
     // Network shares
     for (const share of this.networkShares) {
       items.push({ path: share.remotePath, type: 'network-share' })
@@ -452,8 +469,8 @@ export class DriveSelectorDialog extends LitElement {
                 </div>
               `,
             )}
-            <!-- FTP Section -->
-            <div class="section-header">📡 FTP</div>
+            <!-- FTP / SFTP Section -->
+            <div class="section-header">📡 FTP / SFTP</div>
             <button
               class="btn-add-network ${this.focusedIndex ===
               this.favorites.length + this.drives.length
@@ -463,6 +480,15 @@ export class DriveSelectorDialog extends LitElement {
             >
               + Connect to FTP Server
             </button>
+            <button
+              class="btn-add-network ${this.focusedIndex ===
+              this.favorites.length + this.drives.length + 1
+                ? 'focused'
+                : ''}"
+              @click=${() => this.dispatchEvent(new CustomEvent('open-sftp'))}
+            >
+              + Connect to SFTP Server
+            </button>
 
             <!-- Network Shares Section -->
             <div class="section-header">🌐 Network</div>
@@ -471,7 +497,7 @@ export class DriveSelectorDialog extends LitElement {
                   (share, index) => html`
                     <div
                       class="drive-item ${this.focusedIndex ===
-                      this.favorites.length + this.drives.length + 1 + index
+                      this.favorites.length + this.drives.length + 2 + index
                         ? 'focused'
                         : ''}"
                       @click=${() => this.selectDrive(share.remotePath)}
@@ -559,7 +585,7 @@ export class DriveSelectorDialog extends LitElement {
                     class="btn-add-network ${this.focusedIndex ===
                     this.favorites.length +
                       this.drives.length +
-                      1 +
+                      2 +
                       this.networkShares.length
                       ? 'focused'
                       : ''}"
@@ -193,6 +193,10 @@ export class HelpDialog extends LitElement {
               <div class="help-key">Ctrl+F</div>
               <div class="help-description">find files</div>
             </div>
+            <div class="help-item">
+              <div class="help-key">Ctrl+Q</div>
+              <div class="help-description">operation queue</div>
+            </div>
             <div class="help-item">
               <div class="help-key">F9</div>
               <div class="help-description">command dialog</div>
@@ -1,6 +1,7 @@
 import { LitElement, css, html } from 'lit'
 import { customElement, property } from 'lit/decorators.js'
 import '../../../components/SimpleDialog'
+import { formatFileSize } from '../utils/FormatUtils.js'
 
 @customElement('operation-dialog')
 export class OperationDialog extends LitElement {
@@ -43,6 +44,15 @@ export class OperationDialog extends LitElement {
       cursor: pointer;
       font-weight: bold;
     }
+    .btn-queue {
+      background: #334155;
+      color: #fff;
+      padding: 0.75rem 1.5rem;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-weight: bold;
+    }
     .btn-cancel {
       background: #475569;
       color: #fff;
@@ -90,6 +100,8 @@ export class OperationDialog extends LitElement {
     total: number
     fileName: string
     percentage: number
+    bytesDone?: number
+    totalBytes?: number
   } | null = null
 
   private close() {
@@ -98,6 +110,9 @@ export class OperationDialog extends LitElement {
   private execute() {
     this.dispatchEvent(new CustomEvent('execute'))
   }
+  private enqueue() {
+    this.dispatchEvent(new CustomEvent('enqueue'))
+  }
   private updateDestination(value: string) {
     this.dispatchEvent(new CustomEvent('update-destination', { detail: value }))
   }
@@ -155,6 +170,10 @@ export class OperationDialog extends LitElement {
                   </div>
                   <div style="color: #cbd5e1; font-size: 0.85rem;">
                     📁 ${this.progress.current} / ${this.progress.total}
+                    ${this.progress.totalBytes
+                      ? html`(${formatFileSize(this.progress.bytesDone || 0)} /
+                        ${formatFileSize(this.progress.totalBytes)})`
+                      : ''}
                   </div>
                   <div
                     style="color: #94a3b8; font-size: 0.8rem; margin-top: 0.5rem;"
@@ -177,6 +196,13 @@ export class OperationDialog extends LitElement {
                 <button class="btn-cancel" @click=${this.close}>
                   cancel (ESC)
                 </button>
+                <button
+                  class="btn-queue"
+                  title="run in the background queue"
+                  @click=${this.enqueue}
+                >
+                  queue
+                </button>
                 <button class="btn-confirm" @click=${this.execute}>
                   ${type} (ENTER)
                 </button>
@@ -0,0 +1,351 @@
+import { LitElement, css, html } from 'lit'
+import { customElement, state } from 'lit/decorators.js'
+import '../../../components/SimpleDialog'
+import {
+  QueueService,
+  type QueueItem,
+  type QueueItemStatus,
+} from '../services/QueueService.js'
+
+const STATUS_ICONS: Record<QueueItemStatus, string> = {
+  queued: '🕒',
+  running: '⏳',
+  paused: '⏸️',
+  completed: '✅',
+  failed: '❌',
+  cancelled: '🚫',
+}
+
+@customElement('queue-panel')
+export class QueuePanel extends LitElement {
+  static styles = css`
+    .queue-header {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0 1rem;
+      color: #cbd5e1;
+    }
+    .queue-header .summary {
+      margin-right: auto;
+      font-size: 0.9rem;
+    }
+    .queue-list {
+      max-height: 60vh;
+      overflow-y: auto;
+      padding: 1rem;
+    }
+    .queue-empty {
+      color: #94a3b8;
+      text-align: center;
+      padding: 2rem;
+    }
+    .queue-item {
+      padding: 0.75rem;
+      margin-bottom: 0.5rem;
+      background: #1e293b;
+      border-radius: 6px;
+      border: 1px solid #334155;
+    }
+    .queue-item.running {
+      border-color: #0ea5e9;
+    }
+    .queue-item.failed {
+      border-color: #dc2626;
+    }
+    .item-row {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+    .item-title {
+      flex: 1;
+      color: #fff;
+      font-family: 'JetBrains Mono', monospace;
+      font-size: 0.85rem;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .item-detail {
+      color: #94a3b8;
+      font-size: 0.8rem;
+      margin-top: 0.25rem;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .item-error {
+      color: #f87171;
+      font-size: 0.8rem;
+      margin-top: 0.25rem;
+    }
+    .progress-bar {
+      width: 100%;
+      height: 8px;
+      background: #0f172a;
+      border-radius: 4px;
+      overflow: hidden;
+      margin-top: 0.5rem;
+    }
+    .progress-fill {
+      height: 100%;
+      background: linear-gradient(90deg, #0ea5e9, #06b6d4);
+      transition: width 0.3s ease;
+    }
+    .icon-btn {
+      background: #334155;
+      color: #fff;
+      border: none;
+      border-radius: 4px;
+      padding: 0.25rem 0.5rem;
+      cursor: pointer;
+      font-size: 0.8rem;
+    }
+    .icon-btn:hover {
+      background: #475569;
+    }
+    .icon-btn:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .dialog-buttons {
+      display: flex;
+      gap: 1rem;
+      padding: 1rem;
+      justify-content: flex-end;
+    }
+    .btn-cancel {
+      background: #475569;
+      color: #fff;
+      padding: 0.75rem 1.5rem;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-weight: bold;
+    }
+  `
+
+  @state() private items: QueueItem[] = []
+  @state() private paused = false
+  @state() private error = ''
+
+  private pollTimer: number | null = null
+
+  connectedCallback() {
+    super.connectedCallback()
+    this.refresh()
+    this.pollTimer = window.setInterval(() => this.refresh(), 500)
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback()
+    if (this.pollTimer !== null) {
+      window.clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+  }
+
+  private async refresh() {
+    try {
+      const state = await QueueService.list()
+      const finishedBefore = this.countFinished(this.items)
+      this.items = state.items
+      this.paused = state.paused
+      this.error = ''
+
+      // Let Commander reload its panes when queued work finished
+      if (this.countFinished(state.items) > finishedBefore) {
+        this.dispatchEvent(new CustomEvent('items-finished'))
+      }
+    } catch (error: any) {
+      this.error = error.message
+    }
+  }
+
+  private countFinished(items: QueueItem[]): number {
+    return items.filter((i) => i.status === 'completed').length
+  }
+
+  private async run(action: () => Promise<void>) {
+    try {
+      await action()
+    } catch (error: any) {
+      this.error = error.message
+    }
+    await this.refresh()
+  }
+
+  private close() {
+    this.dispatchEvent(new CustomEvent('close'))
+  }
+
+  private describe(item: QueueItem): string {
+    const names = item.sourcePaths.map((p) => p.split(/[/\\]/).pop())
+    const label =
+      names.length === 1 ? names[0] : `${names.length} files (${names[0]}, …)`
+    return `${item.type} ${label}`
+  }
+
+  private renderItem(item: QueueItem, index: number) {
+    const percentage = Math.round(item.progress?.percentage ?? 0)
+    const isActive = item.status === 'running' || item.status === 'paused'
+    const canRetry = item.status === 'failed' || item.status === 'cancelled'
+
+    return html`
+      <div class="queue-item ${item.status}">
+        <div class="item-row">
+          <span title=${item.status}>${STATUS_ICONS[item.status]}</span>
+          <span class="item-title" title=${item.sourcePaths.join('\n')}
+            >${this.describe(item)}</span
+          >
+          <button
+            class="icon-btn"
+            title="move up"
+            ?disabled=${index === 0}
+            @click=${() =>
+              this.run(() => QueueService.reorder(item.id, index - 1))}
+          >
+            ▲
+          </button>
+          <button
+            class="icon-btn"
+            title="move down"
+            ?disabled=${index === this.items.length - 1}
+            @click=${() =>
+              this.run(() => QueueService.reorder(item.id, index + 1))}
+          >
+            ▼
+          </button>
+          ${item.status === 'running' || item.status === 'queued'
+            ? html`<button
+                class="icon-btn"
+                title="pause"
+                @click=${() => this.run(() => QueueService.pause(item.id))}
+              >
+                ⏸
+              </button>`
+            : ''}
+          ${item.status === 'paused'
+            ? html`<button
+                class="icon-btn"
+                title="resume"
+                @click=${() => this.run(() => QueueService.resume(item.id))}
+              >
+                ▶
+              </button>`
+            : ''}
+          ${canRetry
+            ? html`<button
+                class="icon-btn"
+                title="retry"
+                @click=${() => this.run(() => QueueService.retry(item.id))}
+              >
+                ↻
+              </button>`
+            : ''}
+          ${canRetry && item.conflict
+            ? html`<button
+                class="icon-btn"
+                title="retry and overwrite existing files"
+                @click=${() =>
+                  this.run(() => QueueService.retry(item.id, true))}
+              >
+                ↻ overwrite
+              </button>`
+            : ''}
+          ${isActive || item.status === 'queued'
+            ? html`<button
+                class="icon-btn"
+                title="cancel"
+                @click=${() => this.run(() => QueueService.cancel(item.id))}
+              >
+                ✕
+              </button>`
+            : html`<button
+                class="icon-btn"
+                title="remove from queue"
+                @click=${() => this.run(() => QueueService.remove(item.id))}
+              >
+                🗑
+              </button>`}
+        </div>
+        ${item.destinationPath
+          ? html`<div class="item-detail">→ ${item.destinationPath}</div>`
+          : ''}
+        ${isActive
+          ? html`<div class="progress-bar">
+                <div class="progress-fill" style="width: ${percentage}%;"></div>
+              </div>
+              <div class="item-detail">
+                ${percentage}%
+                ${item.progress?.total
+                  ? html`(${item.progress.current} / ${item.progress.total})`
+                  : ''}
+                ${item.progress?.message || ''}
+              </div>`
+          : ''}
+        ${item.error ? html`<div class="item-error">${item.error}</div>` : ''}
+      </div>
+    `
+  }
+
+  render() {
+    const open = this.items.filter(
+      (i) => i.status !== 'completed' && i.status !== 'cancelled',
+    ).length
+
+    return html`
+      <simple-dialog
+        .open=${true}
+        .title=${'operation queue'}
+        .width=${'700px'}
+        @dialog-close=${this.close}
+      >
+        <div style="padding-top: 1rem;">
+          <div class="queue-header">
+            <span class="summary">
+              ${open} open / ${this.items.length} total
+              ${this.paused ? ' – queue paused' : ''}
+            </span>
+            ${this.paused
+              ? html`<button
+                  class="icon-btn"
+                  @click=${() => this.run(() => QueueService.resume())}
+                >
+                  ▶ resume queue
+                </button>`
+              : html`<button
+                  class="icon-btn"
+                  @click=${() => this.run(() => QueueService.pause())}
+                >
+                  ⏸ pause queue
+                </button>`}
+            <button
+              class="icon-btn"
+              @click=${() => this.run(() => QueueService.clearFinished())}
+            >
+              clear finished
+            </button>
+          </div>
+          ${this.error
+            ? html`<div class="item-error" style="padding: 0 1rem;">
+                ${this.error}
+              </div>`
+            : ''}
+          <div class="queue-list">
+            ${this.items.length === 0
+              ? html`<div class="queue-empty">
+                  Queue is empty. Use "queue" in the copy, move, delete or zip
+                  dialog to add operations.
+                </div>`
+              : this.items.map((item, index) => this.renderItem(item, index))}
+          </div>
+        </div>
+        <div slot="footer" class="dialog-buttons">
+          <button class="btn-cancel" @click=${this.close}>close (ESC)</button>
+        </div>
+      </simple-dialog>
+    `
+  }
+}
@@ -0,0 +1,719 @@
+import { LitElement, css, html } from 'lit'
+import { customElement, property, state } from 'lit/decorators.js'
+import '../../../components/SimpleDialog'
+
+interface HostKey {
+  host: string
+  port: number
+  keyType: string
+  fingerprint: string
+  status: 'unknown' | 'changed' | 'revoked'
+}
+
+@customElement('sftp-connection-dialog')
+export class SFTPConnectionDialog extends LitElement {
+  static styles = css`
+    .form-container {
+      display: flex;
+      flex-direction: column;
+      gap: 1rem;
+      padding: 1rem;
+      min-width: 400px;
+    }
+
+    .form-group {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+    }
+
+    .form-label {
+      font-weight: bold;
+      color: #e2e8f0;
+      font-size: 0.9rem;
+    }
+
+    .form-input {
+      padding: 0.75rem;
+      background: #1e293b;
+      border: 1px solid #475569;
+      border-radius: 4px;
+      color: #e2e8f0;
+      font-family: 'JetBrains Mono', monospace;
+      font-size: 0.9rem;
+    }
+
+    .form-input:focus {
+      outline: none;
+      border-color: #0ea5e9;
+    }
+
+    .form-input:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .form-row {
+      display: flex;
+      gap: 1rem;
+    }
+
+    .form-row .form-group {
+      flex: 1;
+    }
+
+    .checkbox-group {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .checkbox {
+      width: 1.2rem;
+      height: 1.2rem;
+      cursor: pointer;
+    }
+
+    .button-group {
+      display: flex;
+      gap: 1rem;
+      margin-top: 1rem;
+    }
+
+    .btn {
+      flex: 1;
+      padding: 0.75rem;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-weight: bold;
+      font-size: 0.9rem;
+    }
+
+    .btn:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .btn-primary {
+      background: #059669;
+      color: #fff;
+    }
+
+    .btn-primary:hover:not(:disabled) {
+      background: #047857;
+    }
+
+    .btn-secondary {
+      background: #0ea5e9;
+      color: #fff;
+    }
+
+    .btn-secondary:hover:not(:disabled) {
+      background: #0284c7;
+    }
+
+    .btn-cancel {
+      background: #475569;
+      color: #fff;
+    }
+
+    .btn-cancel:hover {
+      background: #64748b;
+    }
+
+    .status-message {
+      padding: 0.75rem;
+      border-radius: 4px;
+      font-size: 0.85rem;
+      margin-top: 0.5rem;
+    }
+
+    .status-success {
+      background: #065f46;
+      color: #d1fae5;
+      border: 1px solid #10b981;
+    }
+
+    .status-error {
+      background: #7f1d1d;
+      color: #fecaca;
+      border: 1px solid #ef4444;
+    }
+
+    .status-info {
+      background: #1e3a8a;
+      color: #dbeafe;
+      border: 1px solid #3b82f6;
+    }
+
+    .host-key {
+      padding: 0.75rem;
+      background: #78350f;
+      color: #fef3c7;
+      border: 1px solid #f59e0b;
+      border-radius: 4px;
+      font-size: 0.85rem;
+    }
+
+    .host-key-fingerprint {
+      display: block;
+      margin: 0.5rem 0;
+      font-family: 'JetBrains Mono', monospace;
+      word-break: break-all;
+    }
+
+    .saved-connections {
+      margin-top: 1rem;
+      padding: 0.75rem;
+      background: #0f172a;
+      border-radius: 4px;
+      max-height: 200px;
+      overflow-y: auto;
+    }
+
+    .saved-connection-item {
+      padding: 0.5rem;
+      background: #1e293b;
+      border-radius: 4px;
+      margin-bottom: 0.5rem;
+      cursor: pointer;
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+    }
+
+    .saved-connection-item:hover {
+      background: #334155;
+    }
+
+    .connection-info {
+      flex: 1;
+    }
+
+    .connection-name {
+      font-weight: bold;
+      color: #0ea5e9;
+    }
+
+    .connection-details {
+      font-size: 0.8rem;
+      color: #94a3b8;
+    }
+
+    .btn-delete {
+      background: #dc2626;
+      color: white;
+      border: none;
+      padding: 0.25rem 0.5rem;
+      border-radius: 3px;
+      cursor: pointer;
+      font-size: 0.8rem;
+    }
+
+    .btn-delete:hover {
+      background: #b91c1c;
+    }
+  `
+
+  @property({ type: Boolean }) open = false
+  @property({ type: String }) statusMessage = ''
+  @property({ type: String }) statusType: 'success' | 'error' | 'info' | '' = ''
+  @property({ type: Boolean }) testing = false
+  @property({ type: Boolean }) connecting = false
+
+  @state() private host = ''
+  @state() private port = '22'
+  @state() private user = ''
+  @state() private authMethod: 'password' | 'key' = 'key'
+  @state() private password = ''
+  @state() private privateKeyPath = ''
+  @state() private passphrase = ''
+  @state() private saveName = ''
+  @state() private rememberConnection = false
+  @state() private hostKey: HostKey | null = null
+  @state() private trustedFingerprint = ''
+  @state() private savedConnections: Array<{
+    name: string
+    host: string
+    port: string
+    user: string
+    authMethod: 'password' | 'key'
+    privateKeyPath: string
+  }> = []
+
+  connectedCallback() {
+    super.connectedCallback()
+    this.loadSavedConnections()
+  }
+
+  private loadSavedConnections() {
+    const saved = localStorage.getItem('sftp-connections')
+    if (saved) {
+      try {
+        this.savedConnections = JSON.parse(saved)
+      } catch (error) {
+        console.error('Failed to load saved SFTP connections:', error)
+        this.savedConnections = []
+      }
+    }
+  }
+
+  private saveSavedConnections() {
+    localStorage.setItem(
+      'sftp-connections',
+      JSON.stringify(this.savedConnections),
+    )
+  }
+
+  private loadConnection(connection: (typeof this.savedConnections)[0]) {
+    this.host = connection.host
+    this.port = connection.port
+    this.user = connection.user
+    this.authMethod = connection.authMethod
+    this.privateKeyPath = connection.privateKeyPath
+    // Secrets are not stored, ask for them again
+    this.password = ''
+    this.passphrase = ''
+    this.saveName = connection.name
+    this.rememberConnection = true
+  }
+
+  private deleteConnection(name: string, event: Event) {
+    event.stopPropagation()
+    this.savedConnections = this.savedConnections.filter((c) => c.name !== name)
+    this.saveSavedConnections()
+    this.setStatus('Connection deleted', 'info')
+  }
+
+  /**
+   * Parameters for the sftp test-connection / connect operations.
+   * An empty key path falls back to the ssh agent and ~/.ssh default keys.
+   */
+  private getConnectionParams() {
+    return {
+      host: this.host,
+      port: parseInt(this.port, 10) || 22,
+      user: this.user || undefined,
+      password: this.authMethod === 'password' ? this.password : undefined,
+      privateKeyPath:
+        this.authMethod === 'key'
+          ? this.privateKeyPath || undefined
+          : undefined,
+      passphrase: this.authMethod === 'key' ? this.passphrase : undefined,
+      hostKeyFingerprint: this.trustedFingerprint || undefined,
+    }
+  }
+
+  /**
+   * Trust the unknown host key on first use, the backend adds it to
+   * ~/.ssh/known_hosts when the server still presents the same key
+   */
+  private trustHostKey() {
+    this.trustedFingerprint = this.hostKey?.fingerprint || ''
+    this.hostKey = null
+    this.connect()
+  }
+
+  private async testConnection() {
+    if (!this.host) {
+      this.setStatus('Please enter a host', 'error')
+      return
+    }
+
+    this.testing = true
+    this.hostKey = null
+    this.setStatus('Testing connection...', 'info')
+
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'sftp',
+        { operation: 'test-connection', ...this.getConnectionParams() },
+      )
+
+      if (response.success && response.data?.success) {
+        this.setStatus(
+          `Connection successful! Home directory: ${response.data.home}`,
+          'success',
+        )
+      } else {
+        this.hostKey = response.data?.hostKey || null
+        this.setStatus(
+          `${response.data?.error || response.error || 'Connection failed: Unknown error'}`,
+          'error',
+        )
+      }
+    } catch (error: any) {
+      this.setStatus(`Error: ${error.message}`, 'error')
+    } finally {
+      this.testing = false
+    }
+  }
+
+  private async connect() {
+    if (!this.host) {
+      this.setStatus('Please enter a host', 'error')
+      return
+    }
+
+    // Clear any previous error messages
+    this.statusMessage = ''
+    this.statusType = ''
+
+    this.connecting = true
+    this.hostKey = null
+    this.setStatus('Connecting...', 'info')
+
+    // Open the session in the backend, it keeps the credentials so the
+    // sftp:// URLs of the pane don't need to carry secrets
+    let sftpUrl: string
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'sftp',
+        { operation: 'connect', ...this.getConnectionParams() },
+      )
+
+      if (!response.success || !response.data?.success) {
+        this.connecting = false
+        this.hostKey = response.data?.hostKey || null
+        this.setStatus(
+          `Connection failed: ${response.data?.error || response.error || 'Unknown error'}`,
+          'error',
+        )
+        return
+      }
+      sftpUrl = response.data.path
+    } catch (error: any) {
+      this.connecting = false
+      this.setStatus(`Error: ${error.message}`, 'error')
+      return
+    }
+
+    // Connected - save connection if requested
+    if (this.rememberConnection && this.saveName) {
+      const existing = this.savedConnections.findIndex(
+        (c) => c.name === this.saveName,
+      )
+      const connection = {
+        name: this.saveName,
+        host: this.host,
+        port: this.port,
+        user: this.user,
+        authMethod: this.authMethod,
+        privateKeyPath: this.privateKeyPath,
+      }
+
+      if (existing >= 0) {
+        this.savedConnections[existing] = connection
+      } else {
+        this.savedConnections.push(connection)
+      }
+
+      this.saveSavedConnections()
+    }
+
+    // Dispatch connect event with the SFTP URL of the home directory
+    this.dispatchEvent(
+      new CustomEvent('connect', {
+        detail: sftpUrl,
+        bubbles: true,
+        composed: true,
+      }),
+    )
+  }
+
+  private cancelConnection() {
+    this.connecting = false
+    this.setStatus('Connection cancelled', 'info')
+    this.dispatchEvent(new CustomEvent('cancel-connection'))
+  }
+
+  // Called by parent when connection succeeds
+  connectionSuccess() {
+    this.connecting = false
+    this.close()
+  }
+
+  // Called by parent when connection fails
+  connectionFailed(error: string) {
+    this.connecting = false
+    this.setStatus(`Connection failed: ${error}`, 'error')
+  }
+
+  private close() {
+    this.dispatchEvent(new CustomEvent('close'))
+  }
+
+  private setStatus(message: string, type: 'success' | 'error' | 'info') {
+    this.statusMessage = message
+    this.statusType = type
+
+    // Auto-clear success messages after 3 seconds, but keep errors and info visible
+    if (type === 'success') {
+      setTimeout(() => {
+        this.statusMessage = ''
+        this.statusType = ''
+      }, 3000)
+    }
+  }
+
+  private renderHostKey(hostKey: HostKey, busy: boolean) {
+    if (hostKey.status !== 'unknown') {
+      return html`
+        <div class="host-key">
+          ⚠️ The ${hostKey.keyType} key of ${hostKey.host}
+          ${hostKey.status === 'revoked'
+            ? 'is revoked in ~/.ssh/known_hosts.'
+            : 'does not match the key in ~/.ssh/known_hosts.'}
+          Someone could be intercepting the connection - do not connect unless
+          you know the server key changed.
+          <span class="host-key-fingerprint">${hostKey.fingerprint}</span>
+        </div>
+      `
+    }
+    return html`
+      <div class="host-key">
+        🔑 ${hostKey.host} is not a known host yet. Its ${hostKey.keyType} key
+        fingerprint is:
+        <span class="host-key-fingerprint">${hostKey.fingerprint}</span>
+        Compare it with the fingerprint of the server before you trust it.
+        <div class="button-group">
+          <button
+            class="btn btn-primary"
+            @click=${this.trustHostKey}
+            ?disabled=${busy}
+          >
+            ✅ Trust and Connect
+          </button>
+        </div>
+      </div>
+    `
+  }
+
+  render() {
+    if (!this.open) return null
+    const busy = this.testing || this.connecting
+
+    return html`
+      <simple-dialog
+        .open=${true}
+        .title=${'SFTP Connection'}
+        .width=${'600px'}
+        @dialog-close=${this.close}
+      >
+        <div class="form-container">
+          ${this.savedConnections.length > 0
+            ? html`
+                <div class="saved-connections">
+                  <div
+                    style="margin-bottom: 0.5rem; color: #fbbf24; font-weight: bold;"
+                  >
+                    💾 Saved Connections
+                  </div>
+                  ${this.savedConnections.map(
+                    (conn) => html`
+                      <div
+                        class="saved-connection-item"
+                        @click=${() => this.loadConnection(conn)}
+                      >
+                        <div class="connection-info">
+                          <div class="connection-name">${conn.name}</div>
+                          <div class="connection-details">
+                            ${conn.user}@${conn.host}:${conn.port}
+                            (${conn.authMethod})
+                          </div>
+                        </div>
+                        <button
+                          class="btn-delete"
+                          @click=${(e: Event) =>
+                            this.deleteConnection(conn.name, e)}
+                          title="Delete"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    `,
+                  )}
+                </div>
+              `
+            : ''}
+
+          <div class="form-row">
+            <div class="form-group" style="flex: 3;">
+              <label class="form-label">Host *</label>
+              <input
+                type="text"
+                class="form-input"
+                placeholder="server.example.com"
+                .value=${this.host}
+                @input=${(e: Event) =>
+                  (this.host = (e.target as HTMLInputElement).value)}
+                ?disabled=${busy}
+              />
+            </div>
+
+            <div class="form-group">
+              <label class="form-label">Port</label>
+              <input
+                type="number"
+                class="form-input"
+                placeholder="22"
+                .value=${this.port}
+                @input=${(e: Event) =>
+                  (this.port = (e.target as HTMLInputElement).value)}
+                ?disabled=${busy}
+              />
+            </div>
+          </div>
+
+          <div class="form-group">
+            <label class="form-label">Username</label>
+            <input
+              type="text"
+              class="form-input"
+              placeholder="current user"
+              .value=${this.user}
+              @input=${(e: Event) =>
+                (this.user = (e.target as HTMLInputElement).value)}
+              ?disabled=${busy}
+            />
+          </div>
+
+          <div class="form-row">
+            <div class="checkbox-group">
+              <input
+                type="radio"
+                class="checkbox"
+                name="auth-method"
+                .checked=${this.authMethod === 'key'}
+                @change=${() => (this.authMethod = 'key')}
+                ?disabled=${busy}
+              />
+              <label class="form-label" style="margin: 0;">Key / Agent</label>
+            </div>
+            <div class="checkbox-group">
+              <input
+                type="radio"
+                class="checkbox"
+                name="auth-method"
+                .checked=${this.authMethod === 'password'}
+                @change=${() => (this.authMethod = 'password')}
+                ?disabled=${busy}
+              />
+              <label class="form-label" style="margin: 0;">Password</label>
+            </div>
+          </div>
+
+          ${this.authMethod === 'password'
+            ? html`
+                <div class="form-group">
+                  <label class="form-label">Password</label>
+                  <input
+                    type="password"
+                    class="form-input"
+                    .value=${this.password}
+                    @input=${(e: Event) =>
+                      (this.password = (e.target as HTMLInputElement).value)}
+                    ?disabled=${busy}
+                  />
+                </div>
+              `
+            : html`
+                <div class="form-group">
+                  <label class="form-label">Private Key</label>
+                  <input
+                    type="text"
+                    class="form-input"
+                    placeholder="ssh agent or ~/.ssh/id_ed25519, id_ecdsa, id_rsa"
+                    .value=${this.privateKeyPath}
+                    @input=${(e: Event) =>
+                      (this.privateKeyPath = (
+                        e.target as HTMLInputElement
+                      ).value)}
+                    ?disabled=${busy}
+                  />
+                </div>
+                <div class="form-group">
+                  <label class="form-label">Passphrase</label>
+                  <input
+                    type="password"
+                    class="form-input"
+                    placeholder="only for encrypted keys"
+                    .value=${this.passphrase}
+                    @input=${(e: Event) =>
+                      (this.passphrase = (e.target as HTMLInputElement).value)}
+                    ?disabled=${busy}
+                  />
+                </div>
+              `}
+
+          <div class="checkbox-group">
+            <input
+              type="checkbox"
+              class="checkbox"
+              .checked=${this.rememberConnection}
+              @change=${(e: Event) =>
+                (this.rememberConnection = (
+                  e.target as HTMLInputElement
+                ).checked)}
+              ?disabled=${busy}
+            />
+            <label class="form-label" style="margin: 0;"
+              >Remember this connection (without password)</label
+            >
+          </div>
+
+          ${this.rememberConnection
+            ? html`
+                <div class="form-group">
+                  <label class="form-label">Connection Name</label>
+                  <input
+                    type="text"
+                    class="form-input"
+                    placeholder="My SSH Server"
+                    .value=${this.saveName}
+                    @input=${(e: Event) =>
+                      (this.saveName = (e.target as HTMLInputElement).value)}
+                    ?disabled=${busy}
+                  />
+                </div>
+              `
+            : ''}
+          ${this.statusMessage
+            ? html`
+                <div class="status-message status-${this.statusType}">
+                  ${this.statusMessage}
+                </div>
+              `
+            : ''}
+          ${this.hostKey ? this.renderHostKey(this.hostKey, busy) : ''}
+
+          <div class="button-group">
+            <button
+              class="btn btn-secondary"
+              @click=${this.testConnection}
+              ?disabled=${busy || !this.host}
+            >
+              ${this.testing ? '⏳ Testing...' : '🔍 Test Connection'}
+            </button>
+            <button
+              class="btn btn-primary"
+              @click=${this.connect}
+              ?disabled=${busy || !this.host}
+            >
+              ${this.connecting ? '⏳ Connecting...' : '🔗 Connect'}
+            </button>
+            <button
+              class="btn btn-cancel"
+              @click=${this.connecting ? this.cancelConnection : this.close}
+            >
+              ${this.connecting ? '⛔ Cancel Connection' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+      </simple-dialog>
+    `
+  }
+}
@@ -1,14 +1,15 @@
 import { LitElement, css, html } from 'lit'
 import { customElement, property, state } from 'lit/decorators.js'
 import '../../../components/SimpleDialog'
+import type {
+  SearchFilters,
+  SearchIndexInfo,
+  SearchMatch,
+  SearchResult,
+} from '../commander.types.js'
 
-interface SearchResult {
-  path: string
-  name: string
-  isDirectory: boolean
-  matchLine?: number
-  matchContext?: string
-}
+// Matches shown per file, the rest is summarized
+const MATCHES_SHOWN = 3
 
 @customElement('search-dialog')
 export class SearchDialog extends LitElement {
@@ -51,6 +52,46 @@ export class SearchDialog extends LitElement {
       font-size: 0.9rem;
       cursor: pointer;
     }
+    .filter-grid {
+      display: grid;
+      grid-template-columns: auto 1fr auto 1fr;
+      gap: 0.5rem 0.75rem;
+      align-items: center;
+      color: #94a3b8;
+      font-size: 0.85rem;
+    }
+    .filter-input {
+      padding: 0.4rem 0.5rem;
+      background: #0f172a;
+      border: 1px solid #475569;
+      color: #e2e8f0;
+      border-radius: 4px;
+      font-size: 0.85rem;
+      min-width: 0;
+    }
+    .filter-range {
+      display: flex;
+      gap: 0.5rem;
+      align-items: center;
+    }
+    .filter-range .filter-input {
+      flex: 1;
+    }
+    .index-info {
+      display: flex;
+      gap: 0.75rem;
+      align-items: center;
+      color: #64748b;
+      font-size: 0.8rem;
+    }
+    .btn-link {
+      background: none;
+      border: none;
+      color: #0ea5e9;
+      cursor: pointer;
+      font-size: 0.8rem;
+      padding: 0;
+    }
     input[type="checkbox"],
     input[type="radio"] {
       accent-color: #0ea5e9;
@@ -139,6 +180,25 @@ export class SearchDialog extends LitElement {
       color: #0ea5e9;
       font-size: 0.75rem;
     }
+    .result-context mark {
+      background: #f59e0b;
+      color: #0f172a;
+      border-radius: 2px;
+    }
+    .more-matches {
+      color: #64748b;
+      font-size: 0.75rem;
+      margin-top: 0.25rem;
+    }
+    .searching-inline {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      padding: 0.75rem;
+      color: #94a3b8;
+      font-size: 0.85rem;
+      border-bottom: 1px solid #334155;
+    }
     .no-results {
       padding: 2rem;
       text-align: center;
@@ -195,6 +255,16 @@ export class SearchDialog extends LitElement {
   @state() private contentText = ''
   @state() private recursive = true
   @state() private caseSensitive = false
+  @state() private regex = false
+  @state() private fileType: 'all' | 'files' | 'directories' = 'all'
+  @state() private minSizeKb = ''
+  @state() private maxSizeKb = ''
+  @state() private modifiedAfter = ''
+  @state() private modifiedBefore = ''
+  @state() private exclude = 'node_modules, .git'
+  @state() private useIndex = false
+  @state() private index: SearchIndexInfo | null = null
+  @state() private totalMatches = 0
   @state() private results: SearchResult[] = []
   @state() private filesScanned = 0
   @state() private currentFile = ''
@@ -241,26 +311,71 @@ export class SearchDialog extends LitElement {
     }
   }
 
-  updateProgress(data: { filesScanned: number; currentFile: string }) {
+  /**
+   * Progress of the running search, with the results found since the last update
+   */
+  updateProgress(data: {
+    filesScanned: number
+    currentFile: string
+    results?: SearchResult[]
+  }) {
     this.filesScanned = data.filesScanned
     this.currentFile = data.currentFile
+    if (data.results?.length) {
+      this.results = [...this.results, ...data.results]
+      this.totalMatches += data.results.reduce(
+        (sum, r) => sum + (r.matches?.length ?? 0),
+        0,
+      )
+    }
   }
 
   setResults(data: {
     results: SearchResult[]
     filesScanned: number
+    totalMatches?: number
     truncated: boolean
+    index?: SearchIndexInfo
   }) {
     this.results = data.results
     this.filesScanned = data.filesScanned
+    this.totalMatches = data.totalMatches ?? 0
     this.truncated = data.truncated
+    this.index = data.index ?? null
     this.hasSearched = true
     this.focusedIndex = -1
   }
 
-  private handleSearch() {
+  private getFilters(): SearchFilters {
+    const kb = (value: string) =>
+      value.trim() ? Math.round(Number(value) * 1024) : undefined
+    return {
+      regex: this.regex,
+      fileType: this.fileType,
+      minSize: kb(this.minSizeKb),
+      maxSize: kb(this.maxSizeKb),
+      // Local time, the whole "to" day is included
+      modifiedAfter: this.modifiedAfter
+        ? `${this.modifiedAfter}T00:00:00`
+        : undefined,
+      modifiedBefore: this.modifiedBefore
+        ? `${this.modifiedBefore}T23:59:59.999`
+        : undefined,
+      exclude: this.exclude.trim() || undefined,
+      useIndex: this.useIndex,
+    }
+  }
+
+  private handleSearch(rebuildIndex = false) {
     if (!this.filenamePattern.trim()) return
 
+    // Results stream in while the search runs
+    this.results = []
+    this.totalMatches = 0
+    this.truncated = false
+    this.hasSearched = true
+    this.focusedIndex = -1
+
     this.dispatchEvent(
       new CustomEvent('search', {
         detail: {
@@ -268,6 +383,7 @@ export class SearchDialog extends LitElement {
           contentText: this.contentText.trim(),
           recursive: this.recursive,
           caseSensitive: this.caseSensitive,
+          filters: { ...this.getFilters(), rebuildIndex },
         },
         bubbles: true,
         composed: true,
@@ -293,6 +409,115 @@ export class SearchDialog extends LitElement {
     this.dispatchEvent(new CustomEvent('close'))
   }
 
+  private renderMatch(match: SearchMatch) {
+    const { context, contextOffset, length } = match
+    return html`<div class="result-context" title="${context}">
+      <span class="line-number">${match.line}:${match.column}</span>
+      ${context.substring(0, contextOffset)}<mark
+        >${context.substring(contextOffset, contextOffset + length)}</mark
+      >${context.substring(contextOffset + length)}
+    </div>`
+  }
+
+  private renderResult(result: SearchResult, index: number) {
+    const matches = result.matches ?? []
+    return html`
+      <div
+        class="result-item ${index === this.focusedIndex ? 'focused' : ''}"
+        @click=${() => this.selectResult(result)}
+      >
+        <div class="result-name">
+          <span>${result.isDirectory ? '📁' : '📄'}</span>
+          <span>${result.name}</span>
+          ${matches.length > 1
+            ? html`<span class="line-number">${matches.length} matches</span>`
+            : result.matchLine
+              ? html`<span class="line-number">Line ${result.matchLine}</span>`
+              : ''}
+        </div>
+        <div class="result-path" title="${result.path}">${result.path}</div>
+        ${matches.length > 0
+          ? matches.slice(0, MATCHES_SHOWN).map((m) => this.renderMatch(m))
+          : result.matchContext
+            ? html`<div class="result-context" title="${result.matchContext}">${result.matchContext}</div>`
+            : ''}
+        ${matches.length > MATCHES_SHOWN
+          ? html`<div class="more-matches">… ${matches.length - MATCHES_SHOWN} more</div>`
+          : ''}
+      </div>
+    `
+  }
+
+  private renderFilters() {
+    return html`
+      <div class="filter-grid">
+        <label for="file-type">Type</label>
+        <select
+          id="file-type"
+          class="filter-input"
+          .value=${this.fileType}
+          @change=${(e: Event) => this.fileType = (e.target as HTMLSelectElement).value as any}
+          ?disabled=${this.searching}
+        >
+          <option value="all">files and folders</option>
+          <option value="files">files only</option>
+          <option value="directories">folders only</option>
+        </select>
+        <label>Size (KB)</label>
+        <div class="filter-range">
+          <input
+            class="filter-input"
+            type="number"
+            min="0"
+            placeholder="min"
+            .value=${this.minSizeKb}
+            @input=${(e: Event) => this.minSizeKb = (e.target as HTMLInputElement).value}
+            ?disabled=${this.searching}
+          />
+          <input
+            class="filter-input"
+            type="number"
+            min="0"
+            placeholder="max"
+            .value=${this.maxSizeKb}
+            @input=${(e: Event) => this.maxSizeKb = (e.target as HTMLInputElement).value}
+            ?disabled=${this.searching}
+          />
+        </div>
+        <label>Modified</label>
+        <div class="filter-range">
+          <input
+            class="filter-input"
+            type="date"
+            title="from"
+            .value=${this.modifiedAfter}
+            @input=${(e: Event) => this.modifiedAfter = (e.target as HTMLInputElement).value}
+            ?disabled=${this.searching}
+          />
+          <input
+            class="filter-input"
+            type="date"
+            title="to"
+            .value=${this.modifiedBefore}
+            @input=${(e: Event) => this.modifiedBefore = (e.target as HTMLInputElement).value}
+            ?disabled=${this.searching}
+          />
+        </div>
+        <label for="exclude">Exclude</label>
+        <input
+          id="exclude"
+          class="filter-input"
+          type="text"
+          placeholder="node_modules, .git, *.tmp"
+          .value=${this.exclude}
+          @input=${(e: Event) => this.exclude = (e.target as HTMLInputElement).value}
+          @keydown=${this.handleInputKeyDown}
+          ?disabled=${this.searching}
+        />
+      </div>
+    `
+  }
+
   private handleInputKeyDown(e: KeyboardEvent) {
     if (e.key === 'Enter' && !this.searching) {
       e.preventDefault()
@@ -334,13 +559,13 @@ export class SearchDialog extends LitElement {
           <!-- Content Search Section -->
           <div style="margin-bottom: 0.5rem;">
             <label style="color: #94a3b8; font-size: 0.85rem; display: block; margin-bottom: 0.25rem;">
-              Search text in files (optional)
+              Search text in files (optional${this.regex ? ', regular expression' : ''})
             </label>
             <div class="search-input-row">
               <input
                 class="search-input"
                 type="text"
-                placeholder="Leave empty to find files by name only..."
+                placeholder=${this.regex ? 'e.g. TODO|FIXME or \\bfoo\\w+' : 'Leave empty to find files by name only...'}
                 .value=${this.contentText}
                 @input=${(e: Event) => this.contentText = (e.target as HTMLInputElement).value}
                 @keydown=${this.handleInputKeyDown}
@@ -348,7 +573,7 @@ export class SearchDialog extends LitElement {
               />
               <button
                 class="btn btn-search"
-                @click=${this.handleSearch}
+                @click=${() => this.handleSearch()}
                 ?disabled=${this.searching || !this.filenamePattern.trim()}
               >
                 ${this.searching ? 'Searching...' : 'Search'}
@@ -377,42 +602,68 @@ export class SearchDialog extends LitElement {
               />
               <label for="case-sensitive">Case sensitive</label>
             </div>
+            <div class="option-group">
+              <input
+                type="checkbox"
+                id="regex"
+                ?checked=${this.regex}
+                @change=${(e: Event) => this.regex = (e.target as HTMLInputElement).checked}
+                ?disabled=${this.searching}
+              />
+              <label for="regex">Regular expression</label>
+            </div>
+            <div class="option-group">
+              <input
+                type="checkbox"
+                id="use-index"
+                ?checked=${this.useIndex}
+                @change=${(e: Event) => this.useIndex = (e.target as HTMLInputElement).checked}
+                ?disabled=${this.searching}
+              />
+              <label for="use-index" title="Keep a listing of the folder tree for fast repeated searches (e.g. on a NAS)">Use folder index</label>
+            </div>
           </div>
 
+          ${this.renderFilters()}
+
+          ${this.useIndex && this.index
+            ? html`
+                <div class="index-info">
+                  <span>
+                    Index of ${this.index.root}: ${this.index.entries.toLocaleString()} entries from
+                    ${new Date(this.index.createdAt).toLocaleString()}
+                  </span>
+                  <button
+                    class="btn-link"
+                    @click=${() => this.handleSearch(true)}
+                    ?disabled=${this.searching}
+                  >
+                    rebuild index
+                  </button>
+                </div>
+              `
+            : ''}
+
           <div class="results-container">
             ${this.searching
               ? html`
-                  <div class="searching">
+                  <div class="searching-inline">
                     <div class="spinner"></div>
-                    <span>Scanning files... ${this.filesScanned.toLocaleString()} files</span>
+                    <span>Scanning files... ${this.filesScanned.toLocaleString()} files, ${this.results.length} found</span>
                   </div>
                   ${this.currentFile
-                    ? html`<div style="text-align: center; color: #64748b; font-size: 0.8rem; padding-bottom: 1rem;">${this.currentFile}</div>`
+                    ? html`<div style="text-align: center; color: #64748b; font-size: 0.8rem; padding: 0.5rem;">${this.currentFile}</div>`
                     : ''}
+                  ${this.results.map((result, index) => this.renderResult(result, index))}
                 `
               : this.hasSearched
                 ? html`
                     <div class="results-header">
-                      <span>${this.results.length} result${this.results.length !== 1 ? 's' : ''} found</span>
+                      <span>${this.results.length} result${this.results.length !== 1 ? 's' : ''} found${this.totalMatches ? `, ${this.totalMatches} matches` : ''}</span>
                       <span>${this.filesScanned.toLocaleString()} files scanned${this.truncated ? ' (max results reached)' : ''}</span>
                     </div>
                     ${this.results.length > 0
-                      ? this.results.map((result, index) => html`
-                          <div
-                            class="result-item ${index === this.focusedIndex ? 'focused' : ''}"
-                            @click=${() => this.selectResult(result)}
-                          >
-                            <div class="result-name">
-                              <span>${result.isDirectory ? '📁' : '📄'}</span>
-                              <span>${result.name}</span>
-                              ${result.matchLine ? html`<span class="line-number">Line ${result.matchLine}</span>` : ''}
-                            </div>
-                            <div class="result-path" title="${result.path}">${result.path}</div>
-                            ${result.matchContext
-                              ? html`<div class="result-context" title="${result.matchContext}">${result.matchContext}</div>`
-                              : ''}
-                          </div>
-                        `)
+                      ? this.results.map((result, index) => this.renderResult(result, index))
                       : html`<div class="no-results">No files found matching your search</div>`}
                   `
                 : html`<div class="no-results">Enter a search term and click Search</div>`}
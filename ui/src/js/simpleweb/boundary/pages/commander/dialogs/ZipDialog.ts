@@ -1,6 +1,9 @@
 import { LitElement, css, html } from 'lit'
 import { customElement, property } from 'lit/decorators.js'
 import '../../../components/SimpleDialog'
+import type { ArchiveFormat, ArchiveOptions } from '../commander.types.js'
+
+const FORMATS: ArchiveFormat[] = ['zip', 'tar.gz', 'tar.xz']
 
 @customElement('zip-dialog')
 export class ZipDialog extends LitElement {
@@ -13,7 +16,8 @@ export class ZipDialog extends LitElement {
       margin-bottom: 0.5rem;
       color: #cbd5e1;
     }
-    .input-field input {
+    .input-field input,
+    .input-field select {
       width: 100%;
       padding: 0.75rem;
       background: #0f172a;
@@ -24,7 +28,13 @@ export class ZipDialog extends LitElement {
       border-radius: 4px;
       box-sizing: border-box;
     }
-    .input-field input:focus {
+    .input-field input[type='range'] {
+      padding: 0.75rem 0;
+      border: none;
+      background: transparent;
+    }
+    .input-field input:focus,
+    .input-field select:focus {
       outline: none;
       border-color: #0ea5e9;
     }
@@ -32,6 +42,13 @@ export class ZipDialog extends LitElement {
       opacity: 0.5;
       cursor: not-allowed;
     }
+    .options-grid {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+    }
+    .options-grid .input-field {
+      margin: 0 1rem 1rem;
+    }
     .dialog-buttons {
       display: flex;
       gap: 1rem;
@@ -47,6 +64,19 @@ export class ZipDialog extends LitElement {
       cursor: pointer;
       font-weight: bold;
     }
+    .btn-queue {
+      background: #334155;
+      color: #fff;
+      padding: 0.75rem 1.5rem;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-weight: bold;
+    }
+    .btn-queue:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
     .btn-cancel {
       background: #475569;
       color: #fff;
@@ -95,6 +125,12 @@ export class ZipDialog extends LitElement {
   @property({ type: Array }) files: string[] = []
   @property({ type: String }) zipFileName = ''
   @property({ type: String }) destPath = ''
+  @property({ type: Object }) options: ArchiveOptions = {
+    format: 'zip',
+    compressionLevel: 6,
+    password: '',
+    volumeSizeMb: 0,
+  }
   @property({ type: Object }) progress: {
     current: number
     total: number
@@ -108,46 +144,132 @@ export class ZipDialog extends LitElement {
   private execute() {
     this.dispatchEvent(new CustomEvent('execute'))
   }
+  private enqueue() {
+    this.dispatchEvent(new CustomEvent('enqueue'))
+  }
   private updateFileName(value: string) {
     this.dispatchEvent(new CustomEvent('update-filename', { detail: value }))
   }
+  private updateOptions(changes: Partial<ArchiveOptions>) {
+    this.dispatchEvent(new CustomEvent('update-options', { detail: changes }))
+  }
+  private handleKeydown(e: KeyboardEvent) {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      this.execute()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      this.close()
+    }
+  }
+
+  private renderArchiveOptions() {
+    const { format, compressionLevel, password, volumeSizeMb } = this.options
+    const disabled = this.progress !== null
+    return html`
+      <div class="options-grid">
+        <div class="input-field">
+          <label>Format</label>
+          <select
+            .value=${format}
+            .disabled=${disabled}
+            @change=${(e: Event) =>
+              this.updateOptions({
+                format: (e.target as HTMLSelectElement).value as ArchiveFormat,
+              })}
+          >
+            ${FORMATS.map(
+              (f) =>
+                html`<option value=${f} ?selected=${f === format}>
+                  ${f}
+                </option>`,
+            )}
+          </select>
+        </div>
+        <div class="input-field">
+          <label>
+            Compression level: ${compressionLevel}
+            ${compressionLevel === 0 ? '(store)' : ''}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="9"
+            .value=${String(compressionLevel)}
+            .disabled=${disabled}
+            @input=${(e: Event) =>
+              this.updateOptions({
+                compressionLevel: Number((e.target as HTMLInputElement).value),
+              })}
+          />
+        </div>
+        <div class="input-field">
+          <label>Password (AES-256, zip only)</label>
+          <input
+            type="password"
+            .value=${password}
+            placeholder=${format === 'zip' ? 'no encryption' : 'not available'}
+            .disabled=${disabled || format !== 'zip'}
+            @input=${(e: Event) =>
+              this.updateOptions({
+                password: (e.target as HTMLInputElement).value,
+              })}
+            @keydown=${this.handleKeydown}
+          />
+        </div>
+        <div class="input-field">
+          <label>Split into volumes of (MB)</label>
+          <input
+            type="number"
+            min="0"
+            .value=${volumeSizeMb ? String(volumeSizeMb) : ''}
+            placeholder="no split"
+            .disabled=${disabled}
+            @input=${(e: Event) =>
+              this.updateOptions({
+                volumeSizeMb: Math.max(
+                  0,
+                  Number((e.target as HTMLInputElement).value) || 0,
+                ),
+              })}
+            @keydown=${this.handleKeydown}
+          />
+        </div>
+      </div>
+    `
+  }
 
   render() {
     return html`
       <simple-dialog
         .open=${true}
-        .title=${'📦 create zip'}
+        .title=${'📦 create archive'}
         .width=${'600px'}
         @dialog-close=${this.progress ? null : this.close}
       >
         <div style="padding: 1rem;">
           <div class="input-field">
-            <label>Zip ${this.files.length} file(s) to: ${this.destPath}</label>
+            <label>
+              Pack ${this.files.length} file(s) to: ${this.destPath}
+            </label>
             <input
               type="text"
               .value=${this.zipFileName}
-              placeholder="Enter ZIP filename..."
+              placeholder="Enter archive filename..."
               .disabled=${this.progress !== null}
               @input=${(e: Event) =>
                 this.updateFileName((e.target as HTMLInputElement).value)}
-              @keydown=${(e: KeyboardEvent) => {
-                if (e.key === 'Enter') {
-                  e.preventDefault()
-                  this.execute()
-                } else if (e.key === 'Escape') {
-                  e.preventDefault()
-                  this.close()
-                }
-              }}
+              @keydown=${this.handleKeydown}
             />
           </div>
+          ${this.renderArchiveOptions()}
           ${this.progress
             ? html`
                 <div class="progress-box">
                   <div
                     style="margin-bottom: 0.5rem; color: #0ea5e9; font-weight: bold;"
                   >
-                    ⏳ Zipping... ${this.progress.percentage}%
+                    ⏳ Packing... ${this.progress.percentage}%
                   </div>
                   <div class="progress-bar">
                     <div
@@ -176,8 +298,9 @@ export class ZipDialog extends LitElement {
                   )}
                 </div>
                 <div class="tip-box">
-                  💡 Tip: Select files/folders and press F12 to create a ZIP
-                  archive in the opposite pane.
+                  💡 Tip: Select files/folders and press F12 to create an
+                  archive in the opposite pane. Split volumes are named .001,
+                  .002, ... and the archive is verified after writing.
                 </div>
               `}
         </div>
@@ -187,8 +310,18 @@ export class ZipDialog extends LitElement {
                 <button class="btn-cancel" @click=${this.close}>
                   cancel (ESC)
                 </button>
+                <button
+                  class="btn-queue"
+                  title=${this.options.password
+                    ? 'password protected archives cannot be queued'
+                    : 'run in the background queue'}
+                  .disabled=${!!this.options.password}
+                  @click=${this.enqueue}
+                >
+                  queue
+                </button>
                 <button class="btn-confirm" @click=${this.execute}>
-                  create ZIP (ENTER)
+                  create archive (ENTER)
                 </button>
               `
             : html`<button
@@ -9,9 +9,11 @@ export * from './HelpDialog.js'
 export * from './MkdirDialog.js'
 export * from './OpenWithDialog.js'
 export * from './OperationDialog.js'
+export * from './QueuePanel.js'
 export * from './QuickLaunchDialog.js'
 export * from './RenameDialog.js'
 export * from './SearchDialog.js'
+export * from './SFTPConnectionDialog.js'
 export * from './SMBConnectionDialog.js'
 export * from './TextEditorDialog.js'
 export * from './ViewerDialog.js'
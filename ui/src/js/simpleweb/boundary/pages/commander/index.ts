@@ -19,6 +19,8 @@ export {
   getFileName,
   joinPath,
   isFtpPath,
+  isSftpPath,
+  isRemotePath,
 } from './utils/PathUtils.js'
 
 // Re-export additional format utilities (non-conflicting exports)
@@ -32,6 +34,12 @@ export type { SortField, SortDirection } from './utils/SortUtils.js'
 export { FileService } from './services/FileService.js'
 export { HistoryService } from './services/HistoryService.js'
 export { PaneManager } from './services/PaneManager.js'
+export { QueueService } from './services/QueueService.js'
+export type {
+  QueueItem,
+  QueueItemType,
+  QueueItemStatus,
+} from './services/QueueService.js'
 export { FavoritesService, favoritesService } from './services/FavoritesService.js'
 export { settingsService, encryptPassword, decryptPassword } from './services/SettingsService.js'
 export type { SettingsExport, PaneSettings } from './services/SettingsService.js'
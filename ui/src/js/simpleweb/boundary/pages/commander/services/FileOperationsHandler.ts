@@ -2,13 +2,17 @@
  * FileOperationsHandler - Handles file operation logic (copy, move, delete, zip)
  */
 
-import { getFileName, getPathSeparator, isFtpPath } from '../utils/PathUtils.js'
+import type { ArchiveOptions } from '../commander.types.js'
+import { getFileName } from '../utils/PathUtils.js'
 import { FileService } from './FileService.js'
 
 export interface OperationResult {
   success: boolean
   message: string
   successCount?: number
+  // Set when the backend asks before replacing an archive or entries in it
+  prompt?: 'overwrite' | 'conflicts'
+  conflicts?: string[]
 }
 
 /**
@@ -20,141 +24,38 @@ export async function executeFileOperation(
   destination: string,
   onProgress?: (message: string) => void,
 ): Promise<OperationResult> {
-  let successCount = 0
-  // If all sources are local and destination is local, perform a single batch operation
-  const anySourceIsFtp = files.some((f) => isFtpPath(f))
-  const isDestFTP = isFtpPath(destination)
-
-  if (!anySourceIsFtp && !isDestFTP) {
-    onProgress?.(
-      `${type === 'copy' ? 'Copying' : 'Moving'} ${files.length} file(s)...`,
-    )
-
-    const response = await (window as any).electron.ipcRenderer.invoke(
-      'cli-execute',
-      'file-operations',
-      {
-        operation: type,
-        sourcePath: files,
-        destinationPath: destination,
-      },
-    )
+  // The backend routes every path (local, ZIP, FTP, SFTP, SMB) through its
+  // virtual file system, so mixed sources and targets are one batch operation
+  onProgress?.(
+    `${type === 'copy' ? 'Copying' : 'Moving'} ${files.length} file(s)...`,
+  )
 
-    if (response.success) {
-      const count = response.data?.filesCopied ?? files.length
-      return {
-        success: true,
-        message: `${count} file(s) successfully ${type === 'copy' ? 'copied' : 'moved'}`,
-        successCount: count,
-      }
-    }
+  const response = await (window as any).electron.ipcRenderer.invoke(
+    'cli-execute',
+    'file-operations',
+    {
+      operation: type,
+      sourcePath: files,
+      destinationPath: destination,
+    },
+  )
 
+  if (response.success) {
+    const count =
+      (type === 'copy'
+        ? response.data?.filesCopied
+        : response.data?.filesMoved) ?? files.length
     return {
-      success: false,
-      message: response.error || 'Unknown error',
-      successCount: 0,
-    }
-  }
-
-  // Fallback: handle mixed FTP/local cases per file
-  for (const file of files) {
-    const fileName = getFileName(file) || 'file'
-    const isSourceFTP = isFtpPath(file)
-
-    // Handle FTP operations
-    if (isSourceFTP && !isDestFTP) {
-      // Download from FTP to local
-      const separator = getPathSeparator(destination)
-      const localPath = destination + separator + fileName
-
-      onProgress?.(`Downloading ${fileName}...`)
-
-      const response = await (window as any).electron.ipcRenderer.invoke(
-        'cli-execute',
-        'ftp',
-        {
-          operation: 'download',
-          ftpUrl: file,
-          localPath: localPath,
-        },
-      )
-
-      if (response.success) {
-        successCount++
-      } else {
-        return {
-          success: false,
-          message: `Error downloading ${fileName}: ${response.error}`,
-          successCount,
-        }
-      }
-    } else if (!isSourceFTP && isDestFTP) {
-      // Upload from local to FTP
-      const ftpPath = destination.endsWith('/')
-        ? destination + fileName
-        : destination + '/' + fileName
-
-      onProgress?.(`Uploading ${fileName}...`)
-
-      const response = await (window as any).electron.ipcRenderer.invoke(
-        'cli-execute',
-        'ftp',
-        {
-          operation: 'upload',
-          localPath: file,
-          ftpUrl: ftpPath,
-        },
-      )
-
-      if (response.success) {
-        successCount++
-      } else {
-        return {
-          success: false,
-          message: `Error uploading ${fileName}: ${response.error}`,
-          successCount,
-        }
-      }
-    } else if (isSourceFTP && isDestFTP) {
-      // FTP to FTP not supported yet
-      return {
-        success: false,
-        message: 'FTP to FTP copy not supported yet',
-        successCount,
-      }
-    } else {
-      // Normal local file operation
-      const separator = getPathSeparator(destination)
-      const destPath = destination + separator + fileName
-
-      onProgress?.(`${type === 'copy' ? 'Copying' : 'Moving'} ${fileName}...`)
-
-      const response = await (window as any).electron.ipcRenderer.invoke(
-        'cli-execute',
-        'file-operations',
-        {
-          operation: type,
-          sourcePath: file,
-          destinationPath: destPath,
-        },
-      )
-
-      if (response.success) {
-        successCount++
-      } else {
-        return {
-          success: false,
-          message: `Error with ${fileName}: ${response.error}`,
-          successCount,
-        }
-      }
+      success: true,
+      message: `${count} file(s) successfully ${type === 'copy' ? 'copied' : 'moved'}`,
+      successCount: count,
     }
   }
 
   return {
-    success: true,
-    message: `${successCount} file(s) successfully ${type === 'copy' ? 'copied' : 'moved'}`,
-    successCount,
+    success: false,
+    message: response.error || 'Unknown error',
+    successCount: 0,
   }
 }
 
@@ -192,11 +93,15 @@ export async function executeDelete(
 }
 
 /**
- * Execute zip operation
+ * Execute zip operation (also creates tar.gz / tar.xz archives)
+ * @param overwrite - true replaces an existing archive, a list of entries
+ *   replaces those entries in an existing ZIP
  */
 export async function executeZip(
   files: string[],
   zipFilePath: string,
+  options?: ArchiveOptions,
+  overwrite: boolean | string[] = false,
 ): Promise<OperationResult> {
   const response = await (window as any).electron.ipcRenderer.invoke(
     'cli-execute',
@@ -205,13 +110,34 @@ export async function executeZip(
       operation: 'zip',
       files: files,
       zipFilePath: zipFilePath,
+      format: options?.format,
+      compressionLevel: options?.compressionLevel,
+      password: options?.password || undefined,
+      volumeSize: options?.volumeSizeMb
+        ? Math.round(options.volumeSizeMb * 1024 * 1024)
+        : undefined,
+      overwrite: overwrite === true,
+      overwriteFiles: Array.isArray(overwrite) ? overwrite : undefined,
     },
   )
 
-  if (response.success && response.data) {
+  if (response.success && response.data?.prompt) {
+    return {
+      success: false,
+      message: `${getFileName(zipFilePath)} already exists`,
+      prompt: response.data.prompt,
+      conflicts: response.data.conflicts,
+    }
+  } else if (response.success && response.data?.success === false) {
+    return {
+      success: false,
+      message: `Error zipping: ${response.data.error}`,
+    }
+  } else if (response.success && response.data) {
+    const volumes = response.data.volumes?.length
     return {
       success: true,
-      message: `Successfully zipped ${response.data.filesAdded} file(s)`,
+      message: `Successfully packed and verified ${response.data.filesAdded} file(s)${volumes ? ` in ${volumes} volume(s)` : ''}`,
       successCount: response.data.filesAdded,
     }
   } else {
@@ -223,86 +149,43 @@ export async function executeZip(
 }
 
 /**
- * Execute rename operation (supports both local and FTP)
+ * Execute rename operation (supports local, ZIP, FTP, SFTP and SMB paths)
  */
 export async function executeRename(
   sourcePath: string,
   newName: string,
 ): Promise<OperationResult> {
-  if (isFtpPath(sourcePath)) {
-    // FTP rename
-    const lastSlash = sourcePath.lastIndexOf('/')
-    const parentUrl = sourcePath.substring(0, lastSlash)
-    const newFtpUrl = `${parentUrl}/${newName}`
-
-    const response = await (window as any).electron.ipcRenderer.invoke(
-      'cli-execute',
-      'ftp',
-      { operation: 'rename', ftpUrl: sourcePath, newFtpUrl },
-    )
+  const response = await FileService.rename(sourcePath, newName)
 
-    if (response.success) {
-      return { success: true, message: `Renamed to: ${newName}` }
-    } else {
-      return { success: false, message: `Error: ${response.error}` }
-    }
+  if (response.success) {
+    return { success: true, message: `Renamed to: ${newName}` }
   } else {
-    // Local rename
-    const response = await FileService.rename(sourcePath, newName)
-
-    if (response.success) {
-      return { success: true, message: `Renamed to: ${newName}` }
-    } else {
-      return { success: false, message: `Error: ${response.error}` }
-    }
+    return { success: false, message: `Error: ${response.error}` }
   }
 }
 
 /**
- * Execute mkdir operation (supports both local and FTP)
+ * Execute mkdir operation (supports local, ZIP, FTP, SFTP and SMB paths)
  */
 export async function executeMkdir(
   currentPath: string,
   folderName: string,
 ): Promise<OperationResult> {
-  if (isFtpPath(currentPath)) {
-    // FTP mkdir
-    const ftpUrl = currentPath.endsWith('/')
-      ? `${currentPath}${folderName}`
-      : `${currentPath}/${folderName}`
+  const dirPath =
+    currentPath + (currentPath.endsWith('/') ? '' : '/') + folderName
 
-    const response = await (window as any).electron.ipcRenderer.invoke(
-      'cli-execute',
-      'ftp',
-      { operation: 'mkdir', ftpUrl },
-    )
+  const response = await (window as any).electron.ipcRenderer.invoke(
+    'cli-execute',
+    'file-operations',
+    { operation: 'mkdir', dirPath },
+  )
 
-    if (response.success && response.data?.success) {
-      return { success: true, message: `Created folder: ${folderName}` }
-    } else {
-      return {
-        success: false,
-        message: `Error: ${response.data?.error || response.error || 'Unknown error'}`,
-      }
-    }
+  if (response.success && response.data?.success) {
+    return { success: true, message: `Created folder: ${folderName}` }
   } else {
-    // Local mkdir
-    const dirPath =
-      currentPath + (currentPath.endsWith('/') ? '' : '/') + folderName
-
-    const response = await (window as any).electron.ipcRenderer.invoke(
-      'cli-execute',
-      'file-operations',
-      { operation: 'mkdir', dirPath },
-    )
-
-    if (response.success && response.data?.success) {
-      return { success: true, message: `Created folder: ${folderName}` }
-    } else {
-      return {
-        success: false,
-        message: `Error: ${response.data?.error || response.error || 'Unknown error'}`,
-      }
+    return {
+      success: false,
+      message: `Error: ${response.data?.error || response.error || 'Unknown error'}`,
     }
   }
 }
@@ -6,7 +6,11 @@ import type {
   DriveInfo,
   FileItem,
   NetworkShareInfo,
+  SearchFilters,
+  SearchIndexInfo,
+  SearchResult,
 } from '../commander.types.js'
+import { isSftpPath } from '../utils/PathUtils.js'
 
 export class FileService {
   /**
@@ -101,17 +105,22 @@ export class FileService {
     )
   }
 
+  /**
+   * Run an operation of the FTP or SFTP command, depending on the URL scheme
+   */
+  static async remote(operation: string, url: string, params: any = {}) {
+    const sftp = isSftpPath(url)
+    return (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      sftp ? 'sftp' : 'ftp',
+      { operation, [sftp ? 'sftpUrl' : 'ftpUrl']: url, ...params },
+    )
+  }
+
   /**
    * Delete file/directory
    */
   static async delete(sourcePath: string) {
-    // Use FTP command for FTP paths
-    if (sourcePath.startsWith('ftp://')) {
-      return (window as any).electron.ipcRenderer.invoke('cli-execute', 'ftp', {
-        operation: 'delete',
-        ftpUrl: sourcePath,
-      })
-    }
     return (window as any).electron.ipcRenderer.invoke(
       'cli-execute',
       'file-operations',
@@ -213,7 +222,8 @@ export class FileService {
   }
 
   /**
-   * Search for files by name or content
+   * Search for files by name, content (text or regex), type, size and date.
+   * Results are also streamed on the 'search-progress' channel.
    */
   static async search(
     searchPath: string,
@@ -221,26 +231,26 @@ export class FileService {
     contentText: string,
     recursive: boolean,
     caseSensitive: boolean,
+    filters: SearchFilters = {},
   ): Promise<{
     success: boolean
     data?: {
       success: boolean
       operation: string
+      error?: string
       data: {
         searchPath: string
         filenamePattern: string
         contentText: string
         recursive: boolean
         caseSensitive: boolean
-        results: Array<{
-          path: string
-          name: string
-          isDirectory: boolean
-          matchLine?: number
-          matchContext?: string
-        }>
+        regex: boolean
+        results: SearchResult[]
         filesScanned: number
+        totalMatches: number
         truncated: boolean
+        cancelled: boolean
+        index?: SearchIndexInfo
       }
     }
     error?: string
@@ -255,6 +265,7 @@ export class FileService {
         contentText,
         recursive,
         caseSensitive,
+        ...filters,
       },
     )
   }
@@ -196,6 +196,11 @@ export class KeyboardHandler {
       return true
     }
 
+    if (this.commander.showQueue) {
+      this.commander.closeQueue()
+      return true
+    }
+
     if (this.commander.viewerFile) {
       this.commander.closeViewer()
       return true
@@ -388,6 +393,11 @@ export class KeyboardHandler {
         this.commander.openSearch()
         return true
 
+      case 'q':
+        event.preventDefault()
+        this.commander.openQueue()
+        return true
+
       default:
         return false
     }
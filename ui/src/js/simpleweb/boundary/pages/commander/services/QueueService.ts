@@ -0,0 +1,125 @@
+/**
+ * QueueService - IPC wrapper for the background operation queue
+ *
+ * Queued copy/move/delete/zip operations run one after another in the
+ * backend and survive an app restart (stored in ~/n2htoolbox/operation-queue.json).
+ */
+
+import type { ArchiveOptions } from '../commander.types.js'
+
+export type QueueItemType = 'copy' | 'move' | 'delete' | 'zip'
+
+export type QueueItemStatus =
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
+export interface QueueItem {
+  id: string
+  type: QueueItemType
+  sourcePaths: string[]
+  destinationPath?: string
+  overwrite: boolean
+  status: QueueItemStatus
+  progress?: {
+    current?: number
+    total?: number
+    percentage?: number
+    message?: string
+  }
+  error?: string
+  conflict?: boolean
+  attempts: number
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+}
+
+export interface QueueState {
+  paused: boolean
+  items: QueueItem[]
+}
+
+export class QueueService {
+  private static async invoke(params: any): Promise<any> {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      'operation-queue',
+      params,
+    )
+    const data = response.data || {}
+    if (!response.success || data.success === false) {
+      throw new Error(data.error || response.error || 'Queue operation failed')
+    }
+    return data
+  }
+
+  /**
+   * Add an operation to the queue
+   * @param destinationPath - Target directory (copy/move) or ZIP file (zip)
+   * @param archiveOptions - Format, level and volume size (zip), passwords are not queued
+   */
+  static async add(
+    type: QueueItemType,
+    sourcePaths: string[],
+    destinationPath?: string,
+    overwrite = false,
+    archiveOptions?: ArchiveOptions,
+  ): Promise<QueueItem> {
+    const data = await this.invoke({
+      operation: 'add',
+      type,
+      sourcePaths,
+      destinationPath,
+      overwrite,
+      format: archiveOptions?.format,
+      compressionLevel: archiveOptions?.compressionLevel,
+      volumeSize: archiveOptions?.volumeSizeMb
+        ? Math.round(archiveOptions.volumeSizeMb * 1024 * 1024)
+        : undefined,
+    })
+    return data.item
+  }
+
+  static async list(): Promise<QueueState> {
+    const data = await this.invoke({ operation: 'list' })
+    return { paused: data.paused, items: data.items }
+  }
+
+  static async remove(id: string): Promise<void> {
+    await this.invoke({ operation: 'remove', id })
+  }
+
+  static async reorder(id: string, toIndex: number): Promise<void> {
+    await this.invoke({ operation: 'reorder', id, toIndex })
+  }
+
+  /**
+   * Pause one item, or the whole queue when no id is given
+   */
+  static async pause(id?: string): Promise<void> {
+    await this.invoke({ operation: 'pause', id })
+  }
+
+  /**
+   * Resume one item, or the whole queue when no id is given
+   */
+  static async resume(id?: string): Promise<void> {
+    await this.invoke({ operation: 'resume', id })
+  }
+
+  static async retry(id: string, overwrite = false): Promise<void> {
+    await this.invoke({ operation: 'retry', id, overwrite })
+  }
+
+  static async cancel(id: string): Promise<void> {
+    await this.invoke({ operation: 'cancel', id })
+  }
+
+  static async clearFinished(): Promise<void> {
+    await this.invoke({ operation: 'clear-finished' })
+  }
+}
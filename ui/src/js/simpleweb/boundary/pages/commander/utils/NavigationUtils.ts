@@ -1,4 +1,5 @@
 import type { FileItem } from '../commander.types.js'
+import { isArchivePath } from './PathUtils.js'
 
 /**
  * NavigationUtils - Utilities for file and image navigation
@@ -148,16 +149,16 @@ export class NavigationUtils {
   }
 
   /**
-   * Check if a file is a ZIP file
+   * Check if a file is an archive (ZIP, TAR, 7z)
    */
-  static isZipFile(item: FileItem): boolean {
-    return !item.isDirectory && item.name.toLowerCase().endsWith('.zip')
+  static isArchiveFile(item: FileItem): boolean {
+    return !item.isDirectory && isArchivePath(item.name)
   }
 
   /**
-   * Check if an item can be navigated into (directory or ZIP)
+   * Check if an item can be navigated into (directory or archive)
    */
   static isNavigable(item: FileItem): boolean {
-    return item.isDirectory || this.isZipFile(item)
+    return item.isDirectory || this.isArchiveFile(item)
   }
 }
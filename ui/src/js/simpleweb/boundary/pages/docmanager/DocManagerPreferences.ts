@@ -1,10 +1,27 @@
 import { LitElement, css, html } from 'lit'
-import { customElement, state } from 'lit/decorators.js'
-import type { UserPreferences } from './UserPreferencesService.js'
+import { customElement, property, state } from 'lit/decorators.js'
+import './ExtractionTemplatesEditor.js'
+import type {
+  ExtractionTemplate,
+  FilingRule,
+  UserPreferences,
+} from './UserPreferencesService.js'
 import { userPreferencesService } from './UserPreferencesService.js'
 
+// Languages offered without a pack in the language folder
+const OCR_LANGUAGE_NAMES: Record<string, string> = {
+  deu: 'German',
+  eng: 'English',
+  fra: 'French',
+  ita: 'Italian',
+  spa: 'Spanish',
+  nld: 'Dutch',
+}
+
 @customElement('nh-docmanager-preferences')
 export class DocManagerPreferences extends LitElement {
+  @property({ type: String }) scanDirectory = '' // For the template test bench
+
   @state() private defaultScanDirectory = ''
   @state() private defaultResolution = '300'
   @state() private defaultFormat = 'pdf'
@@ -15,6 +32,12 @@ export class DocManagerPreferences extends LitElement {
   @state() private newAccountNumber = ''
   @state() private fullNames: string[] = []
   @state() private newFullName = ''
+  @state() private filingRules: FilingRule[] = []
+  @state() private extractionTemplates: ExtractionTemplate[] = []
+  @state() private ocrLanguages: string[] = ['deu', 'eng']
+  @state() private ocrAutoDetect = false
+  @state() private ocrLanguagePath = ''
+  @state() private availableLanguages: string[] = []
   @state() private saving = false
   @state() private message = ''
 
@@ -256,6 +279,74 @@ export class DocManagerPreferences extends LitElement {
       color: #999;
       font-style: italic;
     }
+
+    .rule-row {
+      display: grid;
+      grid-template-columns: 95px 1fr auto 1fr auto;
+      gap: 6px;
+      align-items: center;
+      padding: 8px 12px;
+      border-bottom: 1px solid #eee;
+    }
+
+    .rule-row:last-child {
+      border-bottom: none;
+    }
+
+    .form-group .rule-row input,
+    .form-group .rule-row select {
+      padding: 6px;
+      font-size: 0.9em;
+    }
+
+    .form-group .rule-row input[type='checkbox'] {
+      width: auto;
+    }
+
+    .rule-actions {
+      display: flex;
+      gap: 2px;
+    }
+
+    .rule-actions button {
+      padding: 4px 6px;
+      font-size: 0.85em;
+      background: #e9ecef;
+    }
+
+    .language-list {
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 6px;
+      margin: 10px 0;
+    }
+
+    .form-group label.language-option {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      margin: 0;
+      font-weight: normal;
+    }
+
+    .form-group .language-option input {
+      width: auto;
+    }
+
+    .language-code {
+      color: #999;
+      font-size: 0.85em;
+    }
+
+    .form-group .checkbox-group {
+      margin: 10px 0 0 0;
+    }
+
+    .add-rule-button {
+      margin-top: 10px;
+      background: #28a745;
+      color: white;
+    }
   `
 
   async connectedCallback() {
@@ -278,6 +369,14 @@ export class DocManagerPreferences extends LitElement {
     this.senders = prefs.senders || []
     this.accountNumbers = prefs.accountNumbers || []
     this.fullNames = prefs.fullNames || []
+    this.filingRules = prefs.filingRules || []
+    this.extractionTemplates = prefs.extractionTemplates || []
+    this.ocrLanguages = prefs.ocrLanguages?.length
+      ? prefs.ocrLanguages
+      : ['deu', 'eng']
+    this.ocrAutoDetect = prefs.ocrAutoDetect || false
+    this.ocrLanguagePath = prefs.ocrLanguagePath || ''
+    await this.loadAvailableLanguages()
   }
 
   private async handleSave() {
@@ -292,6 +391,20 @@ export class DocManagerPreferences extends LitElement {
       senders: this.senders,
       accountNumbers: this.accountNumbers,
       fullNames: this.fullNames,
+      filingRules: this.filingRules.filter(
+        (rule) => rule.pattern.trim() && rule.folder.trim(),
+      ),
+      extractionTemplates: this.extractionTemplates
+        .map((template) => ({
+          ...template,
+          fields: template.fields.filter(
+            (field) => field.name.trim() && field.pattern.trim(),
+          ),
+        }))
+        .filter((template) => template.fields.length > 0),
+      ocrLanguages: this.ocrLanguages,
+      ocrAutoDetect: this.ocrAutoDetect,
+      ocrLanguagePath: this.ocrLanguagePath.trim(),
     }
 
     const success = await userPreferencesService.save(prefs)
@@ -310,6 +423,93 @@ export class DocManagerPreferences extends LitElement {
     this.saving = false
   }
 
+  /**
+   * The language packs in the language folder, or the downloaded ones
+   */
+  private async loadAvailableLanguages() {
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        { action: 'ocr-languages', languagePath: this.ocrLanguagePath.trim() },
+      )
+      const result = response.data || response
+      this.availableLanguages = result.success ? result.available : []
+    } catch (error: any) {
+      console.error('[DocManagerPreferences] Failed to list languages:', error)
+    }
+  }
+
+  private toggleOcrLanguage(language: string, selected: boolean) {
+    // The order of selection is the order Tesseract gets them in
+    this.ocrLanguages = selected
+      ? [...this.ocrLanguages, language]
+      : this.ocrLanguages.filter((code) => code !== language)
+  }
+
+  private renderOcrLanguages() {
+    const languages = [
+      ...new Set([
+        ...Object.keys(OCR_LANGUAGE_NAMES),
+        ...this.availableLanguages,
+        ...this.ocrLanguages,
+      ]),
+    ]
+    const folder = this.ocrLanguagePath.trim()
+    return html`
+      <div class="form-group">
+        <label>OCR Languages</label>
+        <small
+          >Used together (${this.ocrLanguages.join('+') || 'none'}) for the file
+          name suggestion and for making PDFs searchable. Packs missing in the
+          default folder are downloaded once.</small
+        >
+        <div class="language-list">
+          ${languages.map((language) => {
+            const available = this.availableLanguages.includes(language)
+            return html`
+              <label class="language-option">
+                <input
+                  type="checkbox"
+                  .checked="${this.ocrLanguages.includes(language)}"
+                  ?disabled="${!!folder && !available}"
+                  @change="${(e: any) =>
+                    this.toggleOcrLanguage(language, e.target.checked)}"
+                />
+                ${OCR_LANGUAGE_NAMES[language] || language}
+                <span class="language-code"
+                  >${language}${available
+                    ? ''
+                    : folder
+                      ? ' - missing'
+                      : ' - download'}</span
+                >
+              </label>
+            `
+          })}
+        </div>
+        <input
+          type="text"
+          placeholder="Folder with .traineddata language packs (optional)"
+          .value="${this.ocrLanguagePath}"
+          @input="${(e: any) => (this.ocrLanguagePath = e.target.value)}"
+          @change="${this.loadAvailableLanguages}"
+        />
+        <div class="checkbox-group">
+          <input
+            type="checkbox"
+            id="ocrAutoDetect"
+            .checked="${this.ocrAutoDetect}"
+            @change="${(e: any) => (this.ocrAutoDetect = e.target.checked)}"
+          />
+          <label for="ocrAutoDetect"
+            >Detect the language of each page (recognizes pages twice)</label
+          >
+        </div>
+      </div>
+    `
+  }
+
   private handleClose() {
     this.dispatchEvent(new CustomEvent('close'))
   }
@@ -350,6 +550,31 @@ export class DocManagerPreferences extends LitElement {
     this.fullNames = this.fullNames.filter((f) => f !== fullName)
   }
 
+  private addFilingRule() {
+    this.filingRules = [
+      ...this.filingRules,
+      { field: 'sender', pattern: '', folder: '{sender}/{year}/' },
+    ]
+  }
+
+  private updateFilingRule(index: number, changes: Partial<FilingRule>) {
+    this.filingRules = this.filingRules.map((rule, i) =>
+      i === index ? { ...rule, ...changes } : rule,
+    )
+  }
+
+  private removeFilingRule(index: number) {
+    this.filingRules = this.filingRules.filter((_, i) => i !== index)
+  }
+
+  private moveFilingRule(index: number, offset: number) {
+    const target = index + offset
+    if (target < 0 || target >= this.filingRules.length) return
+    const rules = [...this.filingRules]
+    ;[rules[index], rules[target]] = [rules[target], rules[index]]
+    this.filingRules = rules
+  }
+
   render() {
     return html`
       <div
@@ -483,6 +708,8 @@ export class DocManagerPreferences extends LitElement {
               >
             </div>
 
+            ${this.renderOcrLanguages()}
+
             <div class="form-group">
               <label>Fixed Sender Strings</label>
               <small
@@ -575,6 +802,107 @@ export class DocManagerPreferences extends LitElement {
                 <button @click="${this.addAccountNumber}">Add</button>
               </div>
             </div>
+
+            <div class="form-group">
+              <label>Filing Rules</label>
+              <small
+                >Saved scans are moved into the folder of the first matching
+                rule, relative to the scan directory. The folder can contain
+                {year}, {month}, {sender} and {account}.</small
+              >
+              <div class="sender-list">
+                ${this.filingRules.length > 0
+                  ? this.filingRules.map(
+                      (rule, index) => html`
+                        <div class="rule-row">
+                          <select
+                            .value="${rule.field}"
+                            @change="${(e: any) =>
+                              this.updateFilingRule(index, {
+                                field: e.target.value,
+                              })}"
+                          >
+                            <option value="sender">Sender</option>
+                            <option value="account">Account</option>
+                            <option value="text">Text</option>
+                            <option value="fileName">File name</option>
+                          </select>
+                          <input
+                            type="text"
+                            placeholder="contains, e.g. Allianz"
+                            .value="${rule.pattern}"
+                            @input="${(e: any) =>
+                              this.updateFilingRule(index, {
+                                pattern: e.target.value,
+                              })}"
+                          />
+                          <input
+                            type="checkbox"
+                            title="Regular expression"
+                            .checked="${rule.regex === true}"
+                            @change="${(e: any) =>
+                              this.updateFilingRule(index, {
+                                regex: e.target.checked,
+                              })}"
+                          />
+                          <input
+                            type="text"
+                            placeholder="Insurance/Allianz/{year}/"
+                            .value="${rule.folder}"
+                            @input="${(e: any) =>
+                              this.updateFilingRule(index, {
+                                folder: e.target.value,
+                              })}"
+                          />
+                          <div class="rule-actions">
+                            <button
+                              title="Move up"
+                              @click="${() => this.moveFilingRule(index, -1)}"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              title="Move down"
+                              @click="${() => this.moveFilingRule(index, 1)}"
+                            >
+                              ↓
+                            </button>
+                            <button
+                              title="Remove"
+                              @click="${() => this.removeFilingRule(index)}"
+                            >
+                              ✕
+                            </button>
+                          </div>
+                        </div>
+                      `,
+                    )
+                  : html`<div class="empty-senders">
+                      No filing rules defined yet, scans stay in the scan
+                      directory
+                    </div>`}
+              </div>
+              <button class="add-rule-button" @click="${this.addFilingRule}">
+                Add Rule
+              </button>
+            </div>
+
+            <div class="form-group">
+              <label>Extraction Templates</label>
+              <small
+                >Fields like customer or policy numbers the OCR reads from the
+                text after an anchor text or with a regular expression,
+                converted to a date, amount or IBAN. A template can be limited
+                to one sender; test it against a scanned document.</small
+              >
+              <nh-docmanager-extraction-templates
+                .templates=${this.extractionTemplates}
+                .scanDirectory=${this.scanDirectory ||
+                this.defaultScanDirectory}
+                @change=${(e: CustomEvent<ExtractionTemplate[]>) =>
+                  (this.extractionTemplates = e.detail)}
+              ></nh-docmanager-extraction-templates>
+            </div>
           </div>
 
           <div class="dialog-footer">
@@ -0,0 +1,407 @@
+import { LitElement, css, html } from 'lit'
+import { customElement, property, state } from 'lit/decorators.js'
+
+export type DocumentType = 'invoice' | 'contract' | 'letter'
+
+export interface DocumentDetails {
+  fields: {
+    sender: string
+    companies: string[]
+    dates: string[]
+    amounts: number[]
+    ibans: string[]
+    emails: string[]
+    accounts: string[]
+    custom: Record<string, string | number> // Fields of the extraction templates
+  }
+  type: DocumentType | ''
+  tags: string[]
+  dueDate: string
+  done: boolean
+}
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: 'Invoice',
+  contract: 'Contract',
+  letter: 'Letter',
+}
+
+export const formatAmount = (amount: number) =>
+  amount.toLocaleString('de-DE', { style: 'currency', currency: 'EUR' })
+
+/**
+ * Type, tags and due date of a document and the fields the OCR found in it
+ *
+ * @fires close - detail: { details } when they were saved
+ */
+@customElement('nh-docmanager-details')
+export class DocumentDetailsDialog extends LitElement {
+  @property({ type: String }) scanDirectory = ''
+  @property({ type: String }) fileName = ''
+  @property({ attribute: false }) details: DocumentDetails | null = null
+
+  @state() private type: DocumentType | '' = ''
+  @state() private tags = ''
+  @state() private dueDate = ''
+  @state() private done = false
+  @state() private saving = false
+  @state() private message = ''
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    .dialog-overlay {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background: rgba(0, 0, 0, 0.5);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 10000;
+    }
+
+    .dialog {
+      background: white;
+      border-radius: 8px;
+      box-shadow: 0 4px 20px rgba(0, 0, 0, 0.3);
+      max-width: 600px;
+      width: 90%;
+      max-height: 90vh;
+      overflow: auto;
+    }
+
+    .dialog-header {
+      padding: 20px 24px;
+      border-bottom: 2px solid #e0e0e0;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      border-radius: 8px 8px 0 0;
+    }
+
+    .dialog-header h2 {
+      margin: 0;
+      font-size: 1.3em;
+      word-break: break-all;
+    }
+
+    .dialog-body {
+      padding: 24px;
+    }
+
+    .form-row {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 16px;
+    }
+
+    .form-group {
+      margin-bottom: 20px;
+    }
+
+    .form-group label {
+      display: block;
+      margin-bottom: 8px;
+      font-weight: 600;
+      color: #333;
+    }
+
+    .form-group input,
+    .form-group select {
+      width: 100%;
+      padding: 10px;
+      border: 2px solid #ddd;
+      border-radius: 4px;
+      font-size: 1em;
+      box-sizing: border-box;
+    }
+
+    .form-group input:focus,
+    .form-group select:focus {
+      outline: none;
+      border-color: #667eea;
+    }
+
+    .form-group small {
+      display: block;
+      margin-top: 6px;
+      color: #666;
+      font-size: 0.9em;
+    }
+
+    .checkbox-group {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      margin-bottom: 20px;
+    }
+
+    .checkbox-group input[type='checkbox'] {
+      width: 20px;
+      height: 20px;
+      cursor: pointer;
+    }
+
+    .fields {
+      background: #f8f9fa;
+      border: 1px solid #e0e0e0;
+      border-radius: 4px;
+      padding: 12px 16px;
+    }
+
+    .fields h3 {
+      margin: 0 0 10px 0;
+      font-size: 1em;
+      color: #555;
+    }
+
+    .field {
+      display: grid;
+      grid-template-columns: 110px 1fr;
+      gap: 10px;
+      padding: 4px 0;
+      font-size: 0.9em;
+    }
+
+    .field-name {
+      color: #888;
+    }
+
+    .field-value {
+      color: #333;
+      word-break: break-all;
+    }
+
+    .message {
+      padding: 12px;
+      border-radius: 4px;
+      margin-bottom: 20px;
+      background: #f8d7da;
+      color: #721c24;
+      border: 1px solid #f5c6cb;
+    }
+
+    .dialog-footer {
+      padding: 16px 24px;
+      border-top: 2px solid #e0e0e0;
+      display: flex;
+      justify-content: flex-end;
+      gap: 12px;
+      background: #f8f9fa;
+      border-radius: 0 0 8px 8px;
+    }
+
+    button {
+      padding: 10px 20px;
+      border: none;
+      border-radius: 4px;
+      font-size: 1em;
+      cursor: pointer;
+      transition: all 0.2s;
+    }
+
+    button.primary {
+      background: #667eea;
+      color: white;
+    }
+
+    button.primary:hover {
+      background: #5568d3;
+    }
+
+    button.secondary {
+      background: #6c757d;
+      color: white;
+    }
+
+    button.secondary:hover {
+      background: #5a6268;
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `
+
+  connectedCallback() {
+    super.connectedCallback()
+    this.type = this.details?.type || ''
+    this.tags = this.details?.tags.join(', ') || ''
+    this.dueDate = this.details?.dueDate || ''
+    this.done = this.details?.done || false
+  }
+
+  private async handleSave() {
+    this.saving = true
+    this.message = ''
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        {
+          action: 'update-details',
+          outputPath: this.scanDirectory,
+          fileName: this.fileName,
+          details: JSON.stringify({
+            type: this.type,
+            tags: this.tags.split(','),
+            dueDate: this.dueDate,
+            done: this.done,
+          }),
+        },
+      )
+      const result = response.data || response
+      if (result.success) {
+        this.dispatchEvent(
+          new CustomEvent('close', { detail: { details: result.details } }),
+        )
+      } else {
+        this.message = '❌ ' + (result.error || 'Failed to save details')
+      }
+    } catch (error: any) {
+      this.message = '❌ Error saving details: ' + error.message
+    } finally {
+      this.saving = false
+    }
+  }
+
+  private handleClose() {
+    this.dispatchEvent(new CustomEvent('close'))
+  }
+
+  private renderField(name: string, values: string[]) {
+    return values.length > 0
+      ? html`<div class="field">
+          <span class="field-name">${name}</span>
+          <span class="field-value">${values.join(', ')}</span>
+        </div>`
+      : ''
+  }
+
+  render() {
+    const fields = this.details?.fields
+
+    return html`
+      <div
+        class="dialog-overlay"
+        @click="${(e: Event) => {
+          if (e.target === e.currentTarget) this.handleClose()
+        }}"
+      >
+        <div class="dialog">
+          <div class="dialog-header">
+            <h2>🏷️ ${this.fileName}</h2>
+          </div>
+
+          <div class="dialog-body">
+            ${this.message
+              ? html`<div class="message">${this.message}</div>`
+              : ''}
+
+            <div class="form-row">
+              <div class="form-group">
+                <label>Document Type</label>
+                <select @change="${(e: any) => (this.type = e.target.value)}">
+                  <option value="" ?selected="${this.type === ''}">
+                    Unknown
+                  </option>
+                  ${Object.entries(DOCUMENT_TYPE_LABELS).map(
+                    ([value, label]) =>
+                      html`<option
+                        value="${value}"
+                        ?selected="${value === this.type}"
+                      >
+                        ${label}
+                      </option>`,
+                  )}
+                </select>
+              </div>
+              <div class="form-group">
+                <label>Due Date</label>
+                <input
+                  type="date"
+                  .value="${this.dueDate}"
+                  @change="${(e: any) => (this.dueDate = e.target.value)}"
+                />
+              </div>
+            </div>
+
+            <div class="form-group">
+              <label>Tags</label>
+              <input
+                type="text"
+                placeholder="e.g. tax 2024, car, insurance"
+                .value="${this.tags}"
+                @input="${(e: any) => (this.tags = e.target.value)}"
+              />
+              <small>Separate tags with commas</small>
+            </div>
+
+            <div class="checkbox-group">
+              <input
+                type="checkbox"
+                id="done"
+                .checked="${this.done}"
+                @change="${(e: any) => (this.done = e.target.checked)}"
+              />
+              <label for="done">Paid / done - no longer due</label>
+            </div>
+
+            ${fields
+              ? html`
+                  <div class="fields">
+                    <h3>Found by the text recognition</h3>
+                    ${this.renderField(
+                      'Sender',
+                      fields.sender ? [fields.sender] : [],
+                    )}
+                    ${this.renderField('Companies', fields.companies)}
+                    ${this.renderField('Dates', fields.dates)}
+                    ${this.renderField(
+                      'Amounts',
+                      fields.amounts.map(formatAmount),
+                    )}
+                    ${this.renderField('IBANs', fields.ibans)}
+                    ${this.renderField('Accounts', fields.accounts)}
+                    ${this.renderField('E-mails', fields.emails)}
+                    ${Object.entries(fields.custom).map(([name, value]) =>
+                      this.renderField(name, [
+                        typeof value === 'number' ? formatAmount(value) : value,
+                      ]),
+                    )}
+                  </div>
+                `
+              : html`<small
+                  >No recognized text yet - update the search index or use OCR
+                  to fill in the fields.</small
+                >`}
+          </div>
+
+          <div class="dialog-footer">
+            <button class="secondary" @click="${this.handleClose}">
+              Cancel
+            </button>
+            <button
+              class="primary"
+              @click="${this.handleSave}"
+              ?disabled="${this.saving}"
+            >
+              ${this.saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    `
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'nh-docmanager-details': DocumentDetailsDialog
+  }
+}
@@ -0,0 +1,324 @@
+import { LitElement, css, html } from 'lit'
+import { customElement, property, state } from 'lit/decorators.js'
+
+export interface InboxItem {
+  path: string
+  name: string
+  size: number
+  modified: number
+  status: 'waiting' | 'analyzing' | 'ready' | 'failed'
+  suggestedName: string
+  error?: string
+}
+
+const POLL_INTERVAL_MS = 5000
+
+const STATUS_ICONS: Record<InboxItem['status'], string> = {
+  waiting: '⏳',
+  analyzing: '🔍',
+  ready: '📄',
+  failed: '⚠️',
+}
+
+/**
+ * Documents that network scanners and scanning apps drop into the inbox
+ * folder, waiting to be imported into the scan folder
+ *
+ * @fires review - The user wants to check the name of an inbox document
+ *   in the preview dialog (detail: the InboxItem)
+ * @fires imported - A document was imported into the scan folder
+ */
+@customElement('nh-docmanager-inbox')
+export class DocumentInbox extends LitElement {
+  @property({ type: String }) scanDirectory = ''
+
+  @state() private inboxPath = ''
+  @state() private running = false
+  @state() private items: InboxItem[] = []
+  @state() private importing = ''
+  @state() private message = ''
+
+  private pollTimer: any = null
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    .card {
+      background: white;
+      border-radius: 12px;
+      padding: 25px;
+      margin-bottom: 25px;
+      box-shadow: 0 4px 20px rgba(0, 0, 0, 0.1);
+    }
+
+    .card h2 {
+      margin-top: 0;
+      color: #667eea;
+      border-bottom: 2px solid #667eea;
+      padding-bottom: 10px;
+      margin-bottom: 20px;
+    }
+
+    .folder-row {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    }
+
+    .folder-row input {
+      flex: 1;
+      padding: 10px;
+      border: 2px solid #e0e0e0;
+      border-radius: 6px;
+      font-size: 14px;
+    }
+
+    .folder-row input:focus {
+      outline: none;
+      border-color: #667eea;
+    }
+
+    button {
+      padding: 10px 20px;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 14px;
+      font-weight: 600;
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    button.danger {
+      background: #dc3545;
+    }
+
+    .status {
+      color: #666;
+      font-size: 0.9em;
+      margin: 10px 0;
+    }
+
+    .item {
+      padding: 12px 0;
+      border-top: 1px solid #eee;
+      display: flex;
+      gap: 15px;
+      align-items: center;
+    }
+
+    .item-body {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .item-name {
+      font-weight: 600;
+      color: #333;
+      word-break: break-all;
+    }
+
+    .item-info {
+      font-size: 0.85em;
+      color: #888;
+      margin-top: 3px;
+      word-break: break-all;
+    }
+
+    .item-actions {
+      display: flex;
+      gap: 8px;
+    }
+  `
+
+  connectedCallback() {
+    super.connectedCallback()
+    this.loadStatus()
+    this.pollTimer = setInterval(() => this.loadStatus(), POLL_INTERVAL_MS)
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback()
+    clearInterval(this.pollTimer)
+    this.pollTimer = null
+  }
+
+  private async inbox(params: Record<string, unknown>) {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      'scanner',
+      params,
+    )
+    return response.data || response
+  }
+
+  private applyStatus(inbox: any) {
+    if (!this.inboxPath) this.inboxPath = inbox.settings.inboxPath
+    this.running = inbox.running
+    this.items = inbox.items
+  }
+
+  async loadStatus() {
+    try {
+      const result = await this.inbox({ action: 'inbox-status' })
+      if (result.success) this.applyStatus(result.inbox)
+    } catch (error: any) {
+      console.error('[DocumentInbox] Failed to load the inbox:', error)
+    }
+  }
+
+  async toggleWatching() {
+    try {
+      const result = await this.inbox(
+        this.running
+          ? { action: 'inbox-stop' }
+          : { action: 'inbox-start', inboxPath: this.inboxPath },
+      )
+      if (result.success) {
+        this.applyStatus(result.inbox)
+        this.message = ''
+      } else {
+        this.message = result.error || 'Unknown error'
+      }
+    } catch (error: any) {
+      this.message = 'Error watching the inbox: ' + error.message
+    }
+  }
+
+  async importItem(item: InboxItem) {
+    this.importing = item.name
+    try {
+      const result = await this.inbox({
+        action: 'inbox-import',
+        outputPath: this.scanDirectory,
+        inboxFile: item.name,
+      })
+      if (result.success) {
+        this.message = `✅ ${result.message}`
+        this.dispatchEvent(new CustomEvent('imported', { detail: result }))
+        await this.loadStatus()
+      } else {
+        this.message = 'Import failed: ' + (result.error || 'Unknown error')
+      }
+    } catch (error: any) {
+      this.message = 'Error importing document: ' + error.message
+    } finally {
+      this.importing = ''
+    }
+  }
+
+  async removeItem(item: InboxItem) {
+    if (!confirm(`Delete "${item.name}" from the inbox folder?`)) {
+      return
+    }
+    try {
+      const result = await this.inbox({
+        action: 'inbox-remove',
+        inboxFile: item.name,
+      })
+      if (result.success) {
+        this.applyStatus(result.inbox)
+      } else {
+        this.message = 'Delete failed: ' + (result.error || 'Unknown error')
+      }
+    } catch (error: any) {
+      this.message = 'Error deleting document: ' + error.message
+    }
+  }
+
+  private review(item: InboxItem) {
+    this.dispatchEvent(new CustomEvent('review', { detail: item }))
+  }
+
+  render() {
+    const ready = this.items.filter((item) => item.status === 'ready').length
+
+    return html`
+      <div class="card">
+        <h2>📥 Inbox (${this.items.length})</h2>
+        <div class="folder-row">
+          <input
+            type="text"
+            placeholder="Folder your network scanner or scanning app saves to"
+            .value="${this.inboxPath}"
+            ?disabled="${this.running}"
+            @input="${(e: Event) =>
+              (this.inboxPath = (e.target as HTMLInputElement).value)}"
+          />
+          <button
+            @click="${this.toggleWatching}"
+            ?disabled="${!this.running && !this.inboxPath}"
+          >
+            ${this.running ? '⏹️ Stop Watching' : '👀 Watch Folder'}
+          </button>
+        </div>
+
+        <div class="status">
+          ${this.message ||
+          (this.running
+            ? `Watching the inbox folder, ${ready} of ${this.items.length} document(s) ready to import`
+            : 'The inbox folder is not watched')}
+        </div>
+
+        ${this.items.map(
+          (item) => html`
+            <div class="item">
+              <div class="item-body">
+                <div class="item-name">
+                  ${STATUS_ICONS[item.status]} ${item.name}
+                </div>
+                <div class="item-info">
+                  ${item.status === 'ready'
+                    ? `→ ${item.suggestedName}`
+                    : item.status === 'failed'
+                      ? `Text recognition failed: ${item.error}`
+                      : item.status === 'analyzing'
+                        ? 'Recognizing text...'
+                        : 'Waiting for text recognition'}
+                </div>
+              </div>
+              <div class="item-actions">
+                <button
+                  @click="${() => this.importItem(item)}"
+                  ?disabled="${this.importing !== '' ||
+                  item.status === 'waiting' ||
+                  item.status === 'analyzing'}"
+                  title="Import with the suggested name"
+                >
+                  ${this.importing === item.name ? '⏳' : '✅'} Import
+                </button>
+                <button
+                  @click="${() => this.review(item)}"
+                  ?disabled="${item.status !== 'ready'}"
+                  title="Check the pages and choose the name"
+                >
+                  ✏️ Review
+                </button>
+                <button
+                  class="danger"
+                  @click="${() => this.removeItem(item)}"
+                  title="Delete from the inbox folder"
+                >
+                  🗑️
+                </button>
+              </div>
+            </div>
+          `,
+        )}
+      </div>
+    `
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'nh-docmanager-inbox': DocumentInbox
+  }
+}
@@ -0,0 +1,404 @@
+import { LitElement, css, html } from 'lit'
+import { customElement, property, state } from 'lit/decorators.js'
+
+interface SearchHit {
+  path: string
+  relativePath: string
+  name: string
+  sender: string
+  date: string
+  accounts: string[]
+  snippet: string
+  matches: number
+}
+
+/**
+ * Full-text search over the indexed documents of the scan folder
+ */
+@customElement('nh-docmanager-search')
+export class DocumentSearch extends LitElement {
+  @property({ type: String }) scanDirectory = ''
+
+  @state() private query = ''
+  @state() private sender = ''
+  @state() private account = ''
+  @state() private dateFrom = ''
+  @state() private dateTo = ''
+  @state() private hits: SearchHit[] = []
+  @state() private total = 0
+  @state() private senders: string[] = []
+  @state() private accounts: string[] = []
+  @state() private indexed = 0
+  @state() private searching = false
+  @state() private indexing = false
+  @state() private indexProgress = ''
+  @state() private message = ''
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    .card {
+      background: white;
+      border-radius: 12px;
+      padding: 25px;
+      margin-bottom: 25px;
+      box-shadow: 0 4px 20px rgba(0, 0, 0, 0.1);
+    }
+
+    .card h2 {
+      margin-top: 0;
+      color: #667eea;
+      border-bottom: 2px solid #667eea;
+      padding-bottom: 10px;
+      margin-bottom: 20px;
+    }
+
+    .search-row {
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    }
+
+    .search-row input {
+      flex: 1;
+    }
+
+    .filters {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+      gap: 15px;
+      margin: 15px 0;
+    }
+
+    .form-group {
+      display: flex;
+      flex-direction: column;
+    }
+
+    label {
+      font-weight: 600;
+      margin-bottom: 5px;
+      color: #555;
+      font-size: 0.9em;
+    }
+
+    input,
+    select {
+      padding: 10px;
+      border: 2px solid #e0e0e0;
+      border-radius: 6px;
+      font-size: 14px;
+    }
+
+    input:focus,
+    select:focus {
+      outline: none;
+      border-color: #667eea;
+    }
+
+    button {
+      padding: 10px 20px;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 14px;
+      font-weight: 600;
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .status {
+      color: #666;
+      font-size: 0.9em;
+      margin-bottom: 10px;
+    }
+
+    .hit {
+      padding: 12px 0;
+      border-top: 1px solid #eee;
+      display: flex;
+      gap: 15px;
+      align-items: flex-start;
+    }
+
+    .hit-body {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .hit-name {
+      font-weight: 600;
+      color: #333;
+      word-break: break-all;
+    }
+
+    .hit-info {
+      font-size: 0.85em;
+      color: #888;
+      margin: 3px 0;
+    }
+
+    .hit-snippet {
+      font-size: 0.9em;
+      color: #444;
+    }
+
+    mark {
+      background: #fff3a0;
+      padding: 0 1px;
+    }
+  `
+
+  private progressListener = (data: any) => {
+    this.indexProgress = `${data.current}/${data.total}: ${data.fileName}`
+  }
+
+  connectedCallback() {
+    super.connectedCallback()
+    ;(window as any).electron?.ipcRenderer?.on(
+      'docmanager-index-progress',
+      this.progressListener,
+    )
+    this.search()
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback()
+    ;(window as any).electron?.ipcRenderer?.removeAllListeners?.(
+      'docmanager-index-progress',
+    )
+  }
+
+  updated(changed: Map<string, unknown>) {
+    if (
+      changed.has('scanDirectory') &&
+      changed.get('scanDirectory') !== undefined
+    ) {
+      this.search()
+    }
+  }
+
+  async search() {
+    this.searching = true
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        {
+          action: 'search-documents',
+          outputPath: this.scanDirectory,
+          query: this.query,
+          sender: this.sender,
+          account: this.account,
+          dateFrom: this.dateFrom,
+          dateTo: this.dateTo,
+        },
+      )
+      const result = response.data || response
+      if (result.success) {
+        this.hits = result.hits
+        this.total = result.total
+        this.senders = result.senders
+        this.accounts = result.accounts
+        this.indexed = result.indexed
+        this.message = ''
+      } else {
+        this.message = 'Search failed: ' + (result.error || 'Unknown error')
+      }
+    } catch (error: any) {
+      this.message = 'Error searching documents: ' + error.message
+    } finally {
+      this.searching = false
+    }
+  }
+
+  async updateIndex() {
+    this.indexing = true
+    this.indexProgress = ''
+    try {
+      const response = await (window as any).electron.ipcRenderer.invoke(
+        'cli-execute',
+        'scanner',
+        { action: 'index-documents', outputPath: this.scanDirectory },
+      )
+      const result = response.data || response
+      if (result.success) {
+        this.message =
+          result.message +
+          (result.failed.length > 0
+            ? `, ${result.failed.length} could not be read`
+            : '')
+        await this.search()
+      } else {
+        this.message = 'Indexing failed: ' + (result.error || 'Unknown error')
+      }
+    } catch (error: any) {
+      this.message = 'Error indexing documents: ' + error.message
+    } finally {
+      this.indexing = false
+      this.indexProgress = ''
+    }
+  }
+
+  async openHit(hit: SearchHit) {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      'scanner',
+      {
+        action: 'open-document',
+        outputPath: this.scanDirectory,
+        fileName: hit.relativePath,
+      },
+    )
+    const result = response.data || response
+    if (!result.success) {
+      this.message =
+        'Failed to open document: ' + (result.error || 'Unknown error')
+    }
+  }
+
+  /**
+   * The snippet with the search words marked
+   */
+  private highlight(snippet: string) {
+    const terms = Array.from(
+      this.query.matchAll(/"([^"]+)"|(\S+)/g),
+      (match) => match[1] || match[2],
+    ).map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    if (terms.length === 0) return snippet
+    const pattern = new RegExp(`(${terms.join('|')})`, 'gi')
+    return snippet
+      .split(pattern)
+      .map((part, index) =>
+        index % 2 === 1 ? html`<mark>${part}</mark>` : part,
+      )
+  }
+
+  render() {
+    return html`
+      <div class="card">
+        <h2>🔎 Search Documents</h2>
+        <div class="search-row">
+          <input
+            type="text"
+            placeholder='Words or "phrases" in the documents'
+            .value="${this.query}"
+            @input="${(e: Event) =>
+              (this.query = (e.target as HTMLInputElement).value)}"
+            @keydown="${(e: KeyboardEvent) =>
+              e.key === 'Enter' && this.search()}"
+          />
+          <button @click="${this.search}" ?disabled="${this.searching}">
+            Search
+          </button>
+          <button
+            @click="${this.updateIndex}"
+            ?disabled="${this.indexing}"
+            title="Read new and changed documents of the scan folder"
+          >
+            ${this.indexing ? '⏳ Indexing...' : '🔄 Update Index'}
+          </button>
+        </div>
+
+        <div class="filters">
+          <div class="form-group">
+            <label>Sender</label>
+            <select
+              @change="${(e: Event) => {
+                this.sender = (e.target as HTMLSelectElement).value
+                this.search()
+              }}"
+            >
+              <option value="">All senders</option>
+              ${this.senders.map(
+                (sender) =>
+                  html`<option ?selected="${sender === this.sender}">
+                    ${sender}
+                  </option>`,
+              )}
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Account</label>
+            <select
+              @change="${(e: Event) => {
+                this.account = (e.target as HTMLSelectElement).value
+                this.search()
+              }}"
+            >
+              <option value="">All accounts</option>
+              ${this.accounts.map(
+                (account) =>
+                  html`<option ?selected="${account === this.account}">
+                    ${account}
+                  </option>`,
+              )}
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Date from</label>
+            <input
+              type="date"
+              .value="${this.dateFrom}"
+              @change="${(e: Event) => {
+                this.dateFrom = (e.target as HTMLInputElement).value
+                this.search()
+              }}"
+            />
+          </div>
+          <div class="form-group">
+            <label>Date to</label>
+            <input
+              type="date"
+              .value="${this.dateTo}"
+              @change="${(e: Event) => {
+                this.dateTo = (e.target as HTMLInputElement).value
+                this.search()
+              }}"
+            />
+          </div>
+        </div>
+
+        <div class="status">
+          ${this.indexProgress
+            ? `Indexing ${this.indexProgress}`
+            : this.message ||
+              `${this.total} of ${this.indexed} indexed document(s)` +
+                (this.total > this.hits.length
+                  ? `, showing the first ${this.hits.length}`
+                  : '')}
+        </div>
+
+        ${this.hits.map(
+          (hit) => html`
+            <div class="hit">
+              <div class="hit-body">
+                <div class="hit-name">📄 ${hit.relativePath}</div>
+                <div class="hit-info">
+                  ${[hit.date, hit.sender, hit.accounts.slice(0, 2).join(', ')]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </div>
+                <div class="hit-snippet">${this.highlight(hit.snippet)}</div>
+              </div>
+              <button @click="${() => this.openHit(hit)}">👁️ Open</button>
+            </div>
+          `,
+        )}
+      </div>
+    `
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'nh-docmanager-search': DocumentSearch
+  }
+}
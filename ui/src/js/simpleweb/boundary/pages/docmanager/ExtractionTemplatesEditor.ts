@@ -0,0 +1,442 @@
+import { LitElement, css, html } from 'lit'
+import { customElement, property, state } from 'lit/decorators.js'
+import type {
+  ExtractionField,
+  ExtractionTemplate,
+} from './UserPreferencesService.js'
+
+interface FieldResult {
+  name: string
+  raw: string | null
+  value: string | number | null
+  error?: string
+}
+
+interface TemplateTest {
+  senders: string[]
+  applies: boolean
+  fields: FieldResult[]
+}
+
+/**
+ * Extraction templates of the DocManager preferences with a test bench
+ * that runs a template against the OCR text of a scanned document
+ *
+ * @fires change - detail: the changed templates
+ */
+@customElement('nh-docmanager-extraction-templates')
+export class ExtractionTemplatesEditor extends LitElement {
+  @property({ attribute: false }) templates: ExtractionTemplate[] = []
+  @property({ type: String }) scanDirectory = ''
+
+  @state() private documents: string[] = []
+  @state() private testTemplate = 0
+  @state() private testDocument = ''
+  @state() private testing = false
+  @state() private test: TemplateTest | null = null
+  @state() private testError = ''
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    input,
+    select {
+      padding: 6px;
+      border: 2px solid #ddd;
+      border-radius: 4px;
+      font-size: 0.9em;
+      box-sizing: border-box;
+      min-width: 0;
+    }
+
+    input:focus,
+    select:focus {
+      outline: none;
+      border-color: #667eea;
+    }
+
+    button {
+      padding: 4px 8px;
+      border: none;
+      border-radius: 4px;
+      font-size: 0.85em;
+      cursor: pointer;
+      background: #e9ecef;
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    button.add {
+      padding: 8px 14px;
+      margin-top: 10px;
+      background: #28a745;
+      color: white;
+    }
+
+    .template {
+      border: 2px solid #ddd;
+      border-radius: 4px;
+      margin-top: 10px;
+      padding: 8px 12px;
+    }
+
+    .template-row,
+    .field-row {
+      display: grid;
+      gap: 6px;
+      align-items: center;
+      margin-bottom: 6px;
+    }
+
+    .template-row {
+      grid-template-columns: 1fr 1fr auto;
+    }
+
+    .field-row {
+      grid-template-columns: 1fr 85px 2fr 85px auto;
+    }
+
+    .empty {
+      padding: 12px;
+      text-align: center;
+      color: #999;
+      font-style: italic;
+      border: 2px solid #ddd;
+      border-radius: 4px;
+      margin-top: 10px;
+    }
+
+    .bench {
+      margin-top: 16px;
+      padding: 12px;
+      background: #f8f9fa;
+      border: 1px solid #e0e0e0;
+      border-radius: 4px;
+    }
+
+    .bench-row {
+      display: grid;
+      grid-template-columns: 1fr 2fr auto;
+      gap: 6px;
+    }
+
+    .bench-note {
+      margin-top: 8px;
+      color: #666;
+      font-size: 0.9em;
+    }
+
+    .bench-note.error {
+      color: #721c24;
+    }
+
+    table {
+      width: 100%;
+      margin-top: 8px;
+      border-collapse: collapse;
+      font-size: 0.9em;
+    }
+
+    th,
+    td {
+      text-align: left;
+      padding: 4px 6px;
+      border-bottom: 1px solid #e0e0e0;
+      word-break: break-all;
+    }
+
+    td.missing {
+      color: #dc3545;
+    }
+  `
+
+  connectedCallback() {
+    super.connectedCallback()
+    this.loadDocuments()
+  }
+
+  private async scanner(params: Record<string, unknown>) {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      'scanner',
+      { outputPath: this.scanDirectory, ...params },
+    )
+    return response.data || response
+  }
+
+  private async loadDocuments() {
+    try {
+      const result = await this.scanner({ action: 'list-documents' })
+      if (result.success) {
+        this.documents = (result.documents || []).map((doc: any) => doc.name)
+        this.testDocument = this.documents[0] || ''
+      }
+    } catch (error: any) {
+      console.error('[ExtractionTemplates] Failed to load documents:', error)
+    }
+  }
+
+  private changed(templates: ExtractionTemplate[]) {
+    this.templates = templates
+    this.test = null
+    this.dispatchEvent(new CustomEvent('change', { detail: templates }))
+  }
+
+  private addTemplate() {
+    this.changed([
+      ...this.templates,
+      {
+        name: '',
+        sender: '',
+        fields: [{ name: '', rule: 'anchor', pattern: '', type: 'text' }],
+      },
+    ])
+  }
+
+  private updateTemplate(index: number, changes: Partial<ExtractionTemplate>) {
+    this.changed(
+      this.templates.map((template, i) =>
+        i === index ? { ...template, ...changes } : template,
+      ),
+    )
+  }
+
+  private removeTemplate(index: number) {
+    this.testTemplate = 0
+    this.changed(this.templates.filter((_, i) => i !== index))
+  }
+
+  private addField(index: number) {
+    this.updateTemplate(index, {
+      fields: [
+        ...this.templates[index].fields,
+        { name: '', rule: 'anchor', pattern: '', type: 'text' },
+      ],
+    })
+  }
+
+  private updateField(
+    index: number,
+    fieldIndex: number,
+    changes: Partial<ExtractionField>,
+  ) {
+    this.updateTemplate(index, {
+      fields: this.templates[index].fields.map((field, i) =>
+        i === fieldIndex ? { ...field, ...changes } : field,
+      ),
+    })
+  }
+
+  private removeField(index: number, fieldIndex: number) {
+    this.updateTemplate(index, {
+      fields: this.templates[index].fields.filter((_, i) => i !== fieldIndex),
+    })
+  }
+
+  private async runTest() {
+    const template = this.templates[this.testTemplate]
+    if (!template || !this.testDocument) return
+    this.testing = true
+    this.testError = ''
+    this.test = null
+    try {
+      const result = await this.scanner({
+        action: 'test-extraction',
+        fileName: this.testDocument,
+        template: JSON.stringify(template),
+      })
+      if (result.success) {
+        this.test = result
+      } else {
+        this.testError = result.error || 'Unknown error'
+      }
+    } catch (error: any) {
+      this.testError = error.message
+    } finally {
+      this.testing = false
+    }
+  }
+
+  private renderField(
+    index: number,
+    field: ExtractionField,
+    fieldIndex: number,
+  ) {
+    return html`
+      <div class="field-row">
+        <input
+          type="text"
+          placeholder="Field, e.g. policy"
+          .value="${field.name}"
+          @input="${(e: any) =>
+            this.updateField(index, fieldIndex, { name: e.target.value })}"
+        />
+        <select
+          .value="${field.rule}"
+          @change="${(e: any) =>
+            this.updateField(index, fieldIndex, { rule: e.target.value })}"
+        >
+          <option value="anchor">After</option>
+          <option value="regex">Regex</option>
+        </select>
+        <input
+          type="text"
+          placeholder="${field.rule === 'regex'
+            ? 'Nr\\.\\s*(\\d+), first group is the value'
+            : 'Text before the value, e.g. Kundennummer'}"
+          .value="${field.pattern}"
+          @input="${(e: any) =>
+            this.updateField(index, fieldIndex, { pattern: e.target.value })}"
+        />
+        <select
+          .value="${field.type}"
+          @change="${(e: any) =>
+            this.updateField(index, fieldIndex, { type: e.target.value })}"
+        >
+          <option value="text">Text</option>
+          <option value="date">Date</option>
+          <option value="amount">Amount</option>
+          <option value="iban">IBAN</option>
+        </select>
+        <button
+          title="Remove field"
+          @click="${() => this.removeField(index, fieldIndex)}"
+        >
+          ✕
+        </button>
+      </div>
+    `
+  }
+
+  private renderTest() {
+    if (this.testError) {
+      return html`<div class="bench-note error">❌ ${this.testError}</div>`
+    }
+    if (!this.test) return ''
+    return html`
+      <div class="bench-note">
+        ${this.test.applies
+          ? '✅ The template applies to this document'
+          : `⚠️ Not used for this document, its sender is ${this.test.senders.join(', ') || 'unknown'}`}
+      </div>
+      <table>
+        <tr>
+          <th>Field</th>
+          <th>Found</th>
+          <th>Value</th>
+        </tr>
+        ${this.test.fields.map(
+          (field) => html`
+            <tr>
+              <td>${field.name}</td>
+              <td>${field.raw ?? ''}</td>
+              ${field.error
+                ? html`<td class="missing">${field.error}</td>`
+                : html`<td>${field.value}</td>`}
+            </tr>
+          `,
+        )}
+      </table>
+    `
+  }
+
+  render() {
+    return html`
+      ${this.templates.length > 0
+        ? this.templates.map(
+            (template, index) => html`
+              <div class="template">
+                <div class="template-row">
+                  <input
+                    type="text"
+                    placeholder="Template, e.g. Allianz policies"
+                    .value="${template.name}"
+                    @input="${(e: any) =>
+                      this.updateTemplate(index, { name: e.target.value })}"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Only for sender (optional)"
+                    .value="${template.sender || ''}"
+                    @input="${(e: any) =>
+                      this.updateTemplate(index, { sender: e.target.value })}"
+                  />
+                  <button
+                    title="Remove template"
+                    @click="${() => this.removeTemplate(index)}"
+                  >
+                    🗑️
+                  </button>
+                </div>
+                ${template.fields.map((field, fieldIndex) =>
+                  this.renderField(index, field, fieldIndex),
+                )}
+                <button @click="${() => this.addField(index)}">+ Field</button>
+              </div>
+            `,
+          )
+        : html`<div class="empty">No extraction templates defined yet</div>`}
+      <button class="add" @click="${this.addTemplate}">Add Template</button>
+
+      ${this.templates.length > 0
+        ? html`
+            <div class="bench">
+              <div class="bench-row">
+                <select
+                  @change="${(e: any) => {
+                    this.testTemplate = Number(e.target.value)
+                    this.test = null
+                  }}"
+                >
+                  ${this.templates.map(
+                    (template, index) =>
+                      html`<option
+                        value="${index}"
+                        ?selected="${index === this.testTemplate}"
+                      >
+                        ${template.name || `Template ${index + 1}`}
+                      </option>`,
+                  )}
+                </select>
+                <select
+                  @change="${(e: any) => {
+                    this.testDocument = e.target.value
+                    this.test = null
+                  }}"
+                >
+                  ${this.documents.map(
+                    (name) =>
+                      html`<option
+                        value="${name}"
+                        ?selected="${name === this.testDocument}"
+                      >
+                        ${name}
+                      </option>`,
+                  )}
+                </select>
+                <button
+                  @click="${this.runTest}"
+                  ?disabled="${this.testing || !this.testDocument}"
+                  title="Run the template against the recognized text of the document"
+                >
+                  ${this.testing ? '⏳' : '▶️'} Test
+                </button>
+              </div>
+              ${this.renderTest()}
+            </div>
+          `
+        : ''}
+    `
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'nh-docmanager-extraction-templates': ExtractionTemplatesEditor
+  }
+}
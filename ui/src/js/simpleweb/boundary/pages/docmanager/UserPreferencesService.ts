@@ -4,6 +4,34 @@
 
 const PREFERENCES_FILENAME = 'user-preferences.json'
 
+/**
+ * Moves matching scans into a folder of the scan directory, e.g. sender
+ * contains "Allianz" → Insurance/Allianz/{year}/. The first matching rule wins.
+ */
+export interface FilingRule {
+  field: 'sender' | 'account' | 'text' | 'fileName'
+  pattern: string // Contained text (case-insensitive) or regular expression
+  regex?: boolean
+  folder: string // Placeholders {year} {month} {sender} {account}
+}
+
+/**
+ * A field the OCR analysis reads with an extraction template, e.g. the text
+ * behind "Kundennummer" converted to the field's type
+ */
+export interface ExtractionField {
+  name: string
+  rule: 'anchor' | 'regex'
+  pattern: string // Anchor text (case-insensitive) or regular expression
+  type: 'text' | 'date' | 'amount' | 'iban'
+}
+
+export interface ExtractionTemplate {
+  name: string
+  sender?: string // Only for documents whose sender contains it
+  fields: ExtractionField[]
+}
+
 export interface UserPreferences {
   defaultScanDirectory?: string
   defaultResolution?: string
@@ -12,6 +40,11 @@ export interface UserPreferences {
   senders?: string[] // Fixed sender strings to match in OCR
   accountNumbers?: string[] // Fixed account numbers/topics to match in OCR
   fullNames?: string[] // Fixed full names to match in OCR
+  filingRules?: FilingRule[] // Filing rules for saved scans, applied in order
+  extractionTemplates?: ExtractionTemplate[] // Extra fields of the OCR analysis
+  ocrLanguages?: string[] // Tesseract language codes recognized together
+  ocrAutoDetect?: boolean // Recognize each page again in its detected language
+  ocrLanguagePath?: string // Folder with the .traineddata language packs
   // Scanner session preferences (last used settings)
   lastScannerId?: string
   resolution?: string
@@ -144,6 +177,20 @@ export class UserPreferencesService {
     return this.preferences.fullNames || []
   }
 
+  /**
+   * Get filing rules
+   */
+  getFilingRules(): FilingRule[] {
+    return this.preferences.filingRules || []
+  }
+
+  /**
+   * Get extraction templates
+   */
+  getExtractionTemplates(): ExtractionTemplate[] {
+    return this.preferences.extractionTemplates || []
+  }
+
   /**
    * Get default scan directory
    */
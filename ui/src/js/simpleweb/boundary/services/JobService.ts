@@ -0,0 +1,131 @@
+/**
+ * JobService - Query and control backend jobs
+ *
+ * Every `cli-execute` call runs as a job in the backend. Jobs stream
+ * progress events, can be cancelled, paused and resumed, and can be
+ * looked up by ID from any page.
+ *
+ * Example usage:
+ * ```typescript
+ * // Start a job without waiting for the result
+ * const jobId = await JobService.start('file-operations', {
+ *   operation: 'directory-size',
+ *   dirPath: '/home/me',
+ * })
+ *
+ * JobService.onProgress((job) => {
+ *   if (job.id === jobId) console.log(job.progress?.percentage)
+ * })
+ *
+ * await JobService.pause(jobId)
+ * await JobService.resume(jobId)
+ * ```
+ */
+
+export type JobStatus =
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
+export interface JobProgress {
+  current?: number
+  total?: number
+  percentage?: number
+  message?: string
+  channel?: string
+}
+
+export interface JobInfo {
+  id: string
+  toolname: string
+  operation?: string
+  status: JobStatus
+  progress?: JobProgress
+  error?: string
+  createdAt: string
+  finishedAt?: string
+}
+
+export class JobService {
+  /**
+   * Start a command as a detached job and return its ID
+   */
+  static async start(
+    toolname: string,
+    params: any,
+    jobId?: string,
+  ): Promise<string> {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'cli-execute',
+      toolname,
+      params,
+      { jobId, detached: true },
+    )
+
+    if (response.success) {
+      return response.jobId
+    }
+    throw new Error(response.error || 'Failed to start job')
+  }
+
+  /**
+   * Get a job by ID. Returns null if the job is unknown.
+   */
+  static async getJob(jobId: string): Promise<JobInfo | null> {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'job-get',
+      jobId,
+    )
+    return response.success ? response.job : null
+  }
+
+  /**
+   * List all known jobs (running first)
+   */
+  static async listJobs(): Promise<JobInfo[]> {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'job-list',
+    )
+    return response.success ? response.jobs : []
+  }
+
+  static async cancel(jobId: string): Promise<boolean> {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'job-cancel',
+      jobId,
+    )
+    return response.success
+  }
+
+  static async pause(jobId: string): Promise<boolean> {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'job-pause',
+      jobId,
+    )
+    return response.success
+  }
+
+  static async resume(jobId: string): Promise<boolean> {
+    const response = await (window as any).electron.ipcRenderer.invoke(
+      'job-resume',
+      jobId,
+    )
+    return response.success
+  }
+
+  /**
+   * Register a listener for progress of jobs started from this window
+   */
+  static onProgress(callback: (job: JobInfo) => void) {
+    ;(window as any).electron.ipcRenderer.on('job-progress', callback)
+  }
+
+  /**
+   * Register a listener for status changes (started, paused, finished...)
+   */
+  static onStatus(callback: (job: JobInfo) => void) {
+    ;(window as any).electron.ipcRenderer.on('job-status', callback)
+  }
+}
@@ -8,6 +8,12 @@ export interface GarbageFinderState {
   treeData?: any[] // FolderNode[]
   sortBySize?: boolean
   expandedPaths?: string[]
+  report?: any // File report of the last scan
+  reportPath?: string
+  view?: 'folders' | 'largest' | 'stale' | 'age' | 'types'
+  duplicates?: any // Last duplicate search
+  keepRule?: 'keep-newest' | 'keep-oldest' | 'keep-in-folder'
+  keepFolder?: string
 }
 
 // Restic UI state